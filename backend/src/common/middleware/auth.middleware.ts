@@ -1,17 +1,41 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { CacheService } from '../../config/redis';
 import { createLogger } from '../logger';
 import { RequestWithId } from './request-id.middleware';
 
 const logger = createLogger('auth-middleware');
 
+const cache = new CacheService();
+
 export interface AuthRequest extends RequestWithId {
   userId?: string;
+  /** The session the access token belongs to; absent on tokens issued before sessions existed */
+  sessionId?: string;
+}
+
+/** Cache key marking a session revoked until its last access token has expired */
+export function revokedSessionKey(sessionId: string): string {
+  return `revoked-session:${sessionId}`;
 }
 
-export const authMiddleware = (req: Request, res: Response, next: NextFunction): void => {
+/**
+ * Whether the session was revoked. Fails open when Redis is unavailable: access
+ * tokens last an hour, and refreshing always checks the database.
+ */
+async function isSessionRevoked(sessionId: string): Promise<boolean> {
+  try {
+    return (await cache.get<boolean>(revokedSessionKey(sessionId))) === true;
+  } catch (error) {
+    logger.warn({ err: error, sessionId }, 'Could not check session revocation');
+    return false;
+  }
+}
+
+export const authMiddleware = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   const typedReq = req as AuthRequest;
-  
+
+  let payload: { userId: string; sid?: string; purpose?: string };
   try {
     const authHeader = req.headers.authorization;
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -21,13 +45,25 @@ export const authMiddleware = (req: Request, res: Response, next: NextFunction):
     }
 
     const token = authHeader.substring(7);
-    const payload = jwt.verify(token, process.env.JWT_SECRET || 'secret') as { userId: string };
-    typedReq.userId = payload.userId;
-    
-    logger.debug({ requestId: typedReq.requestId, userId: payload.userId }, 'Token verified');
-    next();
+    payload = jwt.verify(token, process.env.JWT_SECRET || 'secret') as { userId: string; sid?: string; purpose?: string };
+    // Tokens issued for one purpose, such as reauthentication, are not access tokens
+    if (payload.purpose) {
+      throw new Error(`Token is for ${payload.purpose}`);
+    }
   } catch (error) {
     logger.warn({ requestId: typedReq.requestId, err: error }, 'Invalid token');
     res.status(401).json({ error: { code: 'INVALID_TOKEN', message: 'Invalid token' } });
+    return;
   }
+
+  if (payload.sid && await isSessionRevoked(payload.sid)) {
+    logger.warn({ requestId: typedReq.requestId, userId: payload.userId, sessionId: payload.sid }, 'Token from revoked session');
+    res.status(401).json({ error: { code: 'SESSION_REVOKED', message: 'Session has been signed out' } });
+    return;
+  }
+
+  typedReq.userId = payload.userId;
+  typedReq.sessionId = payload.sid;
+  logger.debug({ requestId: typedReq.requestId, userId: payload.userId }, 'Token verified');
+  next();
 };
@@ -75,6 +75,10 @@ export const validateParams = (schema: ValidationSchema) => {
 
       if (!value) continue;
 
+      if (rules.enum && !rules.enum.includes(value)) {
+        errors.push(`${field} must be one of: ${rules.enum.join(', ')}`);
+      }
+
       if (rules.pattern && !rules.pattern.test(value)) {
         errors.push(`${field} has invalid format`);
       }
@@ -107,6 +111,14 @@ export const validateQuery = (schema: ValidationSchema) => {
       if (rules.minLength && value.length < rules.minLength) {
         errors.push(`${field} must be at least ${rules.minLength} characters`);
       }
+
+      if (rules.enum && !rules.enum.includes(value)) {
+        errors.push(`${field} must be one of: ${rules.enum.join(', ')}`);
+      }
+
+      if (rules.pattern && !rules.pattern.test(value)) {
+        errors.push(`${field} has invalid format`);
+      }
     }
 
     if (errors.length > 0) {
@@ -118,6 +130,6 @@ export const validateQuery = (schema: ValidationSchema) => {
   };
 };
 
-const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 export const uuidSchema = { required: true, pattern: UUID_PATTERN };
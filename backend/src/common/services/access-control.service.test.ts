@@ -0,0 +1,85 @@
+import { AccessLevel } from '../../database/interfaces';
+
+const mockQuery = jest.fn();
+jest.mock('../../config/database', () => ({
+  query: (...args: unknown[]) => mockQuery(...args),
+}));
+
+import { AccessControlService } from './access-control.service';
+
+describe('AccessControlService', () => {
+  let service: AccessControlService;
+
+  const access = (accessLevel: AccessLevel, twoFactorMissing = false) => ({
+    rows: [{ accessId: 'access1', treeId: 'tree1', userId: 'user1', accessLevel, twoFactorMissing }],
+  });
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    service = new AccessControlService();
+  });
+
+  describe('trees that require two-factor authentication', () => {
+    it('should let an editor without 2FA view but not edit', async () => {
+      mockQuery.mockResolvedValueOnce(access(AccessLevel.EDITOR, true));
+      const viewing = await service.checkAccess('tree1', 'user1');
+
+      expect(viewing.accessLevel).toBe(AccessLevel.VIEWER);
+      expect(viewing).not.toHaveProperty('twoFactorMissing');
+
+      mockQuery.mockResolvedValueOnce(access(AccessLevel.EDITOR, true));
+      await expect(service.requireEditAccess('tree1', 'user1')).rejects.toMatchObject({
+        statusCode: 403,
+        code: 'TWO_FACTOR_REQUIRED',
+      });
+    });
+
+    it('should say why when editor access is asked for', async () => {
+      mockQuery.mockResolvedValueOnce(access(AccessLevel.EDITOR, true));
+
+      await expect(service.checkAccess('tree1', 'user1', AccessLevel.EDITOR)).rejects.toMatchObject({
+        code: 'TWO_FACTOR_REQUIRED',
+      });
+    });
+
+    it('should report an editor without 2FA as a viewer, and no access as none', async () => {
+      mockQuery.mockResolvedValueOnce(access(AccessLevel.EDITOR, true));
+      await expect(service.getEffectiveAccessLevel('tree1', 'user1')).resolves.toBe(AccessLevel.VIEWER);
+
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+      await expect(service.getEffectiveAccessLevel('tree1', 'user1')).resolves.toBeNull();
+    });
+
+    it('should let editors with 2FA edit', async () => {
+      mockQuery.mockResolvedValueOnce(access(AccessLevel.EDITOR));
+
+      await expect(service.requireEditAccess('tree1', 'user1')).resolves.toBeUndefined();
+    });
+
+    it('should only exempt owners, as the query computes it', async () => {
+      mockQuery.mockResolvedValueOnce(access(AccessLevel.OWNER));
+
+      await service.checkAccess('tree1', 'user1', AccessLevel.OWNER);
+
+      expect(mockQuery.mock.calls[0][0]).toContain("ta.access_level = 'editor' AND ft.require_two_factor");
+    });
+  });
+
+  describe('requirePrimaryOwner', () => {
+    it('should turn away co-owners', async () => {
+      mockQuery
+        .mockResolvedValueOnce(access(AccessLevel.OWNER))
+        .mockResolvedValueOnce({ rows: [{ ownerUserId: 'user2' }] });
+
+      await expect(service.requirePrimaryOwner('tree1', 'user1')).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should let the primary owner through', async () => {
+      mockQuery
+        .mockResolvedValueOnce(access(AccessLevel.OWNER))
+        .mockResolvedValueOnce({ rows: [{ ownerUserId: 'user1' }] });
+
+      await expect(service.requirePrimaryOwner('tree1', 'user1')).resolves.toBeUndefined();
+    });
+  });
+});
@@ -1,22 +1,29 @@
+import { PoolClient } from 'pg';
 import { query } from '../../config/database';
 import { AccessLevel, TreeAccess } from '../../database/interfaces';
 import { AppError } from '../errors/app-error';
 
 export { AccessLevel };
 
+const twoFactorRequired = () =>
+  new AppError('This tree requires two-factor authentication to make changes', 403, 'TWO_FACTOR_REQUIRED');
+
 export class AccessControlService {
+  /**
+   * Resolves the user's access to a tree. Trees in the owner's deleted list grant
+   * no access until they are restored. Editors of a tree that requires
+   * two-factor authentication count as viewers until they turn it on.
+   */
   async checkAccess(treeId: string, userId: string, minLevel?: AccessLevel): Promise<TreeAccess> {
-    const result = await query<TreeAccess>(
-      'SELECT access_id as "accessId", tree_id as "treeId", user_id as "userId", access_level as "accessLevel", granted_by as "grantedBy", granted_at as "grantedAt" FROM tree_access WHERE tree_id = $1 AND user_id = $2',
-      [treeId, userId]
-    );
+    const { twoFactorMissing, ...access } = await this.findAccess(treeId, userId);
 
-    if (result.rows.length === 0) {
-      throw new AppError('Access denied', 403);
+    if (twoFactorMissing) {
+      if (minLevel === AccessLevel.EDITOR) {
+        throw twoFactorRequired();
+      }
+      access.accessLevel = AccessLevel.VIEWER;
     }
 
-    const access = result.rows[0];
-
     if (minLevel) {
       const levels = [AccessLevel.VIEWER, AccessLevel.EDITOR, AccessLevel.OWNER];
       const userLevel = levels.indexOf(access.accessLevel);
@@ -31,10 +38,13 @@ export class AccessControlService {
   }
 
   async requireEditAccess(treeId: string, userId: string): Promise<void> {
-    const access = await this.checkAccess(treeId, userId);
+    const access = await this.findAccess(treeId, userId);
     if (access.accessLevel === AccessLevel.VIEWER) {
       throw new AppError('Edit access required', 403);
     }
+    if (access.twoFactorMissing) {
+      throw twoFactorRequired();
+    }
   }
 
   async requireOwnerAccess(treeId: string, userId: string): Promise<void> {
@@ -44,49 +54,120 @@ export class AccessControlService {
     }
   }
 
-  async getAccessLevel(treeId: string, userId: string): Promise<AccessLevel | null> {
-    const result = await query<{ accessLevel: AccessLevel }>(
-      'SELECT access_level as "accessLevel" FROM tree_access WHERE tree_id = $1 AND user_id = $2',
+  /**
+   * Co-owners can do everything owners can except hand the tree over and
+   * appoint or remove other owners, which is left to the primary owner.
+   */
+  async requirePrimaryOwner(treeId: string, userId: string): Promise<void> {
+    await this.requireOwnerAccess(treeId, userId);
+    if (await this.getOwnerUserId(treeId) !== userId) {
+      throw new AppError('Primary owner access required', 403);
+    }
+  }
+
+  /** The tree's primary owner, recorded on the tree itself */
+  async getOwnerUserId(treeId: string): Promise<string | null> {
+    const result = await query<{ ownerUserId: string }>(
+      'SELECT owner_user_id as "ownerUserId" FROM family_trees WHERE tree_id = $1',
+      [treeId]
+    );
+    return result.rows[0]?.ownerUserId ?? null;
+  }
+
+  /**
+   * The level the user can act with, like checkAccess but without throwing: null
+   * for no access, and viewer for editors missing the tree's required 2FA.
+   */
+  async getEffectiveAccessLevel(treeId: string, userId: string): Promise<AccessLevel | null> {
+    const access = await this.lookupAccess(treeId, userId);
+    if (!access) return null;
+    return access.twoFactorMissing ? AccessLevel.VIEWER : access.accessLevel;
+  }
+
+  private async findAccess(treeId: string, userId: string): Promise<TreeAccess & { twoFactorMissing?: boolean }> {
+    const access = await this.lookupAccess(treeId, userId);
+    if (!access) {
+      throw new AppError('Access denied', 403);
+    }
+    return access;
+  }
+
+  /** Owners are exempt from the tree's 2FA requirement, so they can always lift it */
+  private async lookupAccess(treeId: string, userId: string): Promise<(TreeAccess & { twoFactorMissing?: boolean }) | undefined> {
+    const result = await query<TreeAccess & { twoFactorMissing?: boolean }>(
+      `SELECT ta.access_id as "accessId", ta.tree_id as "treeId", ta.user_id as "userId", ta.access_level as "accessLevel", ta.granted_by as "grantedBy", ta.granted_at as "grantedAt",
+              (ta.access_level = 'editor' AND ft.require_two_factor AND NOT EXISTS (
+                SELECT 1 FROM user_two_factor tf WHERE tf.user_id = ta.user_id AND tf.enabled_at IS NOT NULL
+              )) as "twoFactorMissing"
+       FROM tree_access ta
+       JOIN family_trees ft ON ft.tree_id = ta.tree_id
+       WHERE ta.tree_id = $1 AND ta.user_id = $2 AND ft.deleted_at IS NULL`,
       [treeId, userId]
     );
+    return result.rows[0];
+  }
+
+  async getAccessLevel(treeId: string, userId: string, client?: PoolClient): Promise<AccessLevel | null> {
+    const sql = `SELECT ta.access_level as "accessLevel"
+       FROM tree_access ta
+       JOIN family_trees ft ON ft.tree_id = ta.tree_id
+       WHERE ta.tree_id = $1 AND ta.user_id = $2 AND ft.deleted_at IS NULL`;
+    const params = [treeId, userId];
+    const result = client
+      ? await client.query<{ accessLevel: AccessLevel }>(sql, params)
+      : await query<{ accessLevel: AccessLevel }>(sql, params);
     return result.rows[0]?.accessLevel ?? null;
   }
 
+  /**
+   * Gives the user access, or changes the level they have. Inside a transaction,
+   * pass its client and skip the notification; send it with
+   * notifyAccessGranted once the transaction has committed.
+   */
   async grantAccess(
     treeId: string, 
     userId: string, 
     accessLevel: AccessLevel, 
     grantedBy: string,
-    skipNotification: boolean = false
+    skipNotification: boolean = false,
+    client?: PoolClient
   ): Promise<TreeAccess> {
-    const result = await query<TreeAccess>(
-      `INSERT INTO tree_access (tree_id, user_id, access_level, granted_by)
+    const sql = `INSERT INTO tree_access (tree_id, user_id, access_level, granted_by)
        VALUES ($1, $2, $3, $4)
        ON CONFLICT (tree_id, user_id) DO UPDATE SET access_level = $3
-       RETURNING access_id as "accessId", tree_id as "treeId", user_id as "userId", access_level as "accessLevel", granted_by as "grantedBy", granted_at as "grantedAt"`,
-      [treeId, userId, accessLevel, grantedBy]
-    );
+       RETURNING access_id as "accessId", tree_id as "treeId", user_id as "userId", access_level as "accessLevel", granted_by as "grantedBy", granted_at as "grantedAt"`;
+    const params = [treeId, userId, accessLevel, grantedBy];
+    const result = client
+      ? await client.query<TreeAccess>(sql, params)
+      : await query<TreeAccess>(sql, params);
 
     if (!skipNotification && userId !== grantedBy) {
-      const { NotificationService } = await import('../../modules/notification/notification.service');
-      const notificationService = new NotificationService();
-      
-      const treeResult = await query<{ treeName: string }>(
-        'SELECT tree_name as "treeName" FROM family_trees WHERE tree_id = $1',
-        [treeId]
-      );
-      
-      if (treeResult.rows.length > 0) {
-        await notificationService.notifyAccessGranted(userId, treeId, treeResult.rows[0].treeName, accessLevel);
-      }
+      await this.notifyAccessGranted(treeId, userId, accessLevel);
     }
 
     return result.rows[0];
   }
 
+  async notifyAccessGranted(treeId: string, userId: string, accessLevel: AccessLevel): Promise<void> {
+    const { NotificationService } = await import('../../modules/notification/notification.service');
+    const notificationService = new NotificationService();
+    
+    const treeResult = await query<{ treeName: string }>(
+      'SELECT tree_name as "treeName" FROM family_trees WHERE tree_id = $1',
+      [treeId]
+    );
+    
+    if (treeResult.rows.length > 0) {
+      await notificationService.notifyAccessGranted(userId, treeId, treeResult.rows[0].treeName, accessLevel);
+    }
+  }
+
+  /** Removes a member; the primary owner's access can only go with a transfer */
   async revokeAccess(treeId: string, userId: string): Promise<void> {
     await query(
-      "DELETE FROM tree_access WHERE tree_id = $1 AND user_id = $2 AND access_level != 'owner'",
+      `DELETE FROM tree_access
+       WHERE tree_id = $1 AND user_id = $2
+         AND user_id <> (SELECT owner_user_id FROM family_trees WHERE tree_id = $1)`,
       [treeId, userId]
     );
   }
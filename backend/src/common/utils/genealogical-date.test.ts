@@ -0,0 +1,101 @@
+import { DatePrecision, DateQualifier } from '../../database/interfaces';
+import { dateBounds, dateBoundsSql, mergeGenealogicalDate, parseDateBound, parseGenealogicalDate } from './genealogical-date';
+
+describe('genealogical dates', () => {
+  describe('parseGenealogicalDate', () => {
+    it.each([
+      ['1890', DatePrecision.YEAR, '1890-01-01'],
+      ['1890-05', DatePrecision.MONTH, '1890-05-01'],
+      ['1890-05-12', DatePrecision.DAY, '1890-05-12'],
+      ['1890-05-12T00:00:00.000Z', DatePrecision.DAY, '1890-05-12'],
+    ])('should infer the precision of "%s"', (date, precision, sortable) => {
+      expect(parseGenealogicalDate({ date }, 'dateOfBirth')).toEqual({
+        date: sortable,
+        qualifier: DateQualifier.EXACT,
+        precision,
+        end: null,
+      });
+    });
+
+    it('should truncate a date to a coarser stated precision', () => {
+      expect(parseGenealogicalDate({ date: '1890-05-12', precision: DatePrecision.YEAR, qualifier: DateQualifier.ABOUT }, 'dateOfBirth'))
+        .toEqual({ date: '1890-01-01', qualifier: DateQualifier.ABOUT, precision: DatePrecision.YEAR, end: null });
+    });
+
+    it('should give both bounds of a range the coarser precision', () => {
+      expect(parseGenealogicalDate({ date: '1910-03-04', qualifier: DateQualifier.BETWEEN, end: '1915' }, 'eventDate'))
+        .toEqual({ date: '1910-01-01', qualifier: DateQualifier.BETWEEN, precision: DatePrecision.YEAR, end: '1915-01-01' });
+    });
+
+    it('should clear every column for an empty date', () => {
+      expect(parseGenealogicalDate({ date: '', qualifier: DateQualifier.ABOUT }, 'dateOfBirth'))
+        .toEqual({ date: null, qualifier: DateQualifier.EXACT, precision: DatePrecision.DAY, end: null });
+    });
+
+    it.each([
+      [{ date: '12/05/1890' }, 'dateOfBirth must be a date in YYYY, YYYY-MM or YYYY-MM-DD format'],
+      [{ date: '1890-02-30' }, 'dateOfBirth is not a valid date'],
+      [{ date: '1890', precision: DatePrecision.DAY }, 'dateOfBirth is not precise to the day'],
+      [{ date: '1890', qualifier: DateQualifier.BETWEEN }, 'dateOfBirthEnd is required for "between" dates'],
+      [{ date: '1890', end: '1895' }, 'dateOfBirthEnd is only allowed for "between" dates'],
+      [{ date: '1895', qualifier: DateQualifier.BETWEEN, end: '1890' }, 'dateOfBirthEnd must not be before dateOfBirth'],
+      [{ date: '1890', qualifier: 'circa' as DateQualifier }, 'dateOfBirthQualifier must be one of'],
+    ])('should reject %p', (input, message) => {
+      expect(() => parseGenealogicalDate(input, 'dateOfBirth')).toThrow(message);
+    });
+  });
+
+  describe('mergeGenealogicalDate', () => {
+    const stored = { date: new Date(1890, 4, 12), qualifier: DateQualifier.EXACT, precision: DatePrecision.DAY, end: null };
+
+    it('should apply a qualifier alone to the stored date', () => {
+      expect(mergeGenealogicalDate({ qualifier: DateQualifier.ABOUT, precision: DatePrecision.YEAR }, stored, 'dateOfBirth'))
+        .toEqual({ date: '1890-01-01', qualifier: DateQualifier.ABOUT, precision: DatePrecision.YEAR, end: null });
+    });
+
+    it('should drop the stored end when a range becomes a single date', () => {
+      const range = { ...stored, qualifier: DateQualifier.BETWEEN, precision: DatePrecision.YEAR, end: new Date(1895, 0, 1) };
+      expect(mergeGenealogicalDate({ qualifier: DateQualifier.AFTER }, range, 'dateOfBirth'))
+        .toEqual({ date: '1890-01-01', qualifier: DateQualifier.AFTER, precision: DatePrecision.YEAR, end: null });
+    });
+
+    it('should require a date before a qualifier can be set', () => {
+      expect(() => mergeGenealogicalDate({ qualifier: DateQualifier.ABOUT }, { date: null }, 'dateOfDeath'))
+        .toThrow('dateOfDeath is required');
+    });
+  });
+
+  describe('dateBounds', () => {
+    it('should span the whole year or month of a partial date', () => {
+      expect(dateBounds({ date: new Date(1890, 0, 1), qualifier: DateQualifier.EXACT, precision: DatePrecision.YEAR }))
+        .toEqual({ earliest: new Date(1890, 0, 1), latest: new Date(1890, 11, 31) });
+      expect(dateBounds({ date: new Date(1900, 1, 1), qualifier: DateQualifier.EXACT, precision: DatePrecision.MONTH }))
+        .toEqual({ earliest: new Date(1900, 1, 1), latest: new Date(1900, 1, 28) });
+    });
+
+    it('should widen approximate dates and leave open ends unbounded', () => {
+      expect(dateBounds({ date: new Date(1890, 0, 1), qualifier: DateQualifier.ABOUT, precision: DatePrecision.YEAR }))
+        .toEqual({ earliest: new Date(1885, 0, 1), latest: new Date(1895, 11, 31) });
+      expect(dateBounds({ date: new Date(1920, 0, 1), qualifier: DateQualifier.BEFORE, precision: DatePrecision.YEAR }))
+        .toEqual({ earliest: null, latest: new Date(1920, 0, 1) });
+      expect(dateBounds({ date: new Date(1910, 0, 1), qualifier: DateQualifier.BETWEEN, precision: DatePrecision.YEAR, end: new Date(1915, 0, 1) }))
+        .toEqual({ earliest: new Date(1910, 0, 1), latest: new Date(1915, 11, 31) });
+    });
+
+    it('should build matching SQL for a column', () => {
+      const { earliest, latest } = dateBoundsSql('n.date_of_birth');
+      expect(earliest).toContain("WHEN 'before' THEN NULL");
+      expect(latest).toContain('n.date_of_birth_end');
+      expect(latest).toContain('n.date_of_birth_precision');
+    });
+  });
+
+  describe('parseDateBound', () => {
+    it('should start "from" bounds and end "to" bounds on the edges of the period', () => {
+      expect(parseDateBound('1890', 'dateOfBirthFrom', 'from')).toBe('1890-01-01');
+      expect(parseDateBound('1890', 'dateOfBirthTo', 'to')).toBe('1890-12-31');
+      expect(parseDateBound('1904-02', 'dateOfBirthTo', 'to')).toBe('1904-02-29');
+      expect(parseDateBound('1904-02-10', 'dateOfBirthTo', 'to')).toBe('1904-02-10');
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { AppError } from '../errors/app-error';
+import { DatePrecision, DateQualifier } from '../../database/interfaces';
+
+/** How far either side of an "about" or "estimated" date a match may fall */
+export const APPROXIMATE_MARGIN_YEARS = 5;
+
+/** A calendar date as accepted from clients: "1890", "1890-05", "1890-05-12" or a Date */
+export type DateInput = string | Date;
+
+export interface GenealogicalDateInput {
+  date?: DateInput | null;
+  qualifier?: DateQualifier | null;
+  precision?: DatePrecision | null;
+  end?: DateInput | null;
+}
+
+/**
+ * Column values for one genealogical date. `date` is the sortable YYYY-MM-DD
+ * value, truncated to the first day of its year or month, and null once cleared.
+ */
+export interface GenealogicalDate {
+  date: string | null;
+  qualifier: DateQualifier;
+  precision: DatePrecision;
+  end: string | null;
+}
+
+/** A stored genealogical date as read back from the database */
+export interface StoredGenealogicalDate {
+  date?: Date | null;
+  qualifier?: DateQualifier | null;
+  precision?: DatePrecision | null;
+  end?: Date | null;
+}
+
+export const CLEARED_DATE: GenealogicalDate = { date: null, qualifier: DateQualifier.EXACT, precision: DatePrecision.DAY, end: null };
+
+const PRECISION_RANK: Record<DatePrecision, number> = {
+  [DatePrecision.YEAR]: 0,
+  [DatePrecision.MONTH]: 1,
+  [DatePrecision.DAY]: 2,
+};
+
+const PARTIAL_DATE_PATTERN = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?(?:T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+/** Formats a date by its local calendar fields, the way pg hands DATE columns back */
+export const toIsoDate = (value: Date): string =>
+  `${pad(value.getFullYear(), 4)}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+
+interface PartialDate {
+  year: number;
+  month: number;
+  day: number;
+  precision: DatePrecision;
+}
+
+function parsePartialDate(value: DateInput, field: string): PartialDate {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) {
+      throw new AppError(`${field} is not a valid date`, 400);
+    }
+    return { year: value.getFullYear(), month: value.getMonth() + 1, day: value.getDate(), precision: DatePrecision.DAY };
+  }
+
+  const match = typeof value === 'string' ? PARTIAL_DATE_PATTERN.exec(value.trim()) : null;
+  if (!match) {
+    throw new AppError(`${field} must be a date in YYYY, YYYY-MM or YYYY-MM-DD format`, 400);
+  }
+
+  const year = parseInt(match[1], 10);
+  const month = match[2] ? parseInt(match[2], 10) : 1;
+  const day = match[3] ? parseInt(match[3], 10) : 1;
+  const check = new Date(0);
+  check.setUTCFullYear(year, month - 1, day);
+  if (check.getUTCFullYear() !== year || check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+    throw new AppError(`${field} is not a valid date`, 400);
+  }
+
+  const precision = match[3] ? DatePrecision.DAY : match[2] ? DatePrecision.MONTH : DatePrecision.YEAR;
+  return { year, month, day, precision };
+}
+
+/** First day of the date's year or month at the given precision, as YYYY-MM-DD */
+function truncate(date: PartialDate, precision: DatePrecision): string {
+  const month = precision === DatePrecision.YEAR ? 1 : date.month;
+  const day = precision === DatePrecision.DAY ? date.day : 1;
+  return `${pad(date.year, 4)}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Validates a date with its qualifier, precision and range end. Precision defaults
+ * to what the date spells out ("1890" is a year); a stated precision may be coarser
+ * but not finer. A "between" date needs an end, and both bounds share the coarser
+ * precision of the two. An empty date clears all four columns.
+ */
+export function parseGenealogicalDate(input: GenealogicalDateInput, field: string): GenealogicalDate {
+  if (input.date === null || input.date === undefined || input.date === '') {
+    return { ...CLEARED_DATE };
+  }
+
+  const qualifier = input.qualifier ?? DateQualifier.EXACT;
+  if (!Object.values(DateQualifier).includes(qualifier)) {
+    throw new AppError(`${field}Qualifier must be one of: ${Object.values(DateQualifier).join(', ')}`, 400);
+  }
+  if (input.precision && !Object.values(DatePrecision).includes(input.precision)) {
+    throw new AppError(`${field}Precision must be one of: ${Object.values(DatePrecision).join(', ')}`, 400);
+  }
+
+  const start = parsePartialDate(input.date, field);
+  const hasEnd = input.end !== null && input.end !== undefined && input.end !== '';
+  const end = hasEnd ? parsePartialDate(input.end!, `${field}End`) : null;
+
+  if (qualifier === DateQualifier.BETWEEN && !end) {
+    throw new AppError(`${field}End is required for "between" dates`, 400);
+  }
+  if (qualifier !== DateQualifier.BETWEEN && end) {
+    throw new AppError(`${field}End is only allowed for "between" dates`, 400);
+  }
+
+  let precision = end && PRECISION_RANK[end.precision] < PRECISION_RANK[start.precision] ? end.precision : start.precision;
+  if (input.precision) {
+    if (PRECISION_RANK[input.precision] > PRECISION_RANK[precision]) {
+      throw new AppError(`${field} is not precise to the ${input.precision}`, 400);
+    }
+    precision = input.precision;
+  }
+
+  const date = truncate(start, precision);
+  const endDate = end ? truncate(end, precision) : null;
+  if (endDate && endDate < date) {
+    throw new AppError(`${field}End must not be before ${field}`, 400);
+  }
+
+  return { date, qualifier, precision, end: endDate };
+}
+
+/** Whether a request touches any part of a genealogical date */
+export function hasGenealogicalDateInput(input: GenealogicalDateInput): boolean {
+  return input.date !== undefined || input.qualifier !== undefined || input.precision !== undefined || input.end !== undefined;
+}
+
+/**
+ * Applies a partial update to a stored date. A new date replaces the whole value;
+ * a qualifier, precision or end alone is applied to the stored date.
+ */
+export function mergeGenealogicalDate(input: GenealogicalDateInput, stored: StoredGenealogicalDate, field: string): GenealogicalDate {
+  if (input.date !== undefined) {
+    return parseGenealogicalDate(input, field);
+  }
+  if (!stored.date) {
+    throw new AppError(`${field} is required`, 400);
+  }
+
+  const qualifier = input.qualifier ?? stored.qualifier ?? DateQualifier.EXACT;
+  const storedEnd = qualifier === DateQualifier.BETWEEN ? stored.end : null;
+  return parseGenealogicalDate({
+    date: stored.date,
+    qualifier,
+    precision: input.precision ?? stored.precision,
+    end: input.end !== undefined ? input.end : storedEnd,
+  }, field);
+}
+
+/** Last day of the year or month a date stands for */
+function periodEnd(date: Date, precision: DatePrecision | null | undefined): Date {
+  if (precision === DatePrecision.YEAR) return new Date(date.getFullYear(), 11, 31);
+  if (precision === DatePrecision.MONTH) return new Date(date.getFullYear(), date.getMonth() + 1, 0);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+const shiftYears = (date: Date, years: number): Date =>
+  new Date(date.getFullYear() + years, date.getMonth(), date.getDate());
+
+/**
+ * Earliest and latest day a stored date can stand for, widened by
+ * APPROXIMATE_MARGIN_YEARS for "about" and "estimated". Open ends are null.
+ */
+export function dateBounds(stored: StoredGenealogicalDate): { earliest: Date | null; latest: Date | null } {
+  if (!stored.date) {
+    return { earliest: null, latest: null };
+  }
+
+  const date = new Date(stored.date);
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  switch (stored.qualifier) {
+    case DateQualifier.BEFORE:
+      return { earliest: null, latest: start };
+    case DateQualifier.AFTER:
+      return { earliest: start, latest: null };
+    case DateQualifier.BETWEEN:
+      return { earliest: start, latest: periodEnd(new Date(stored.end ?? date), stored.precision) };
+    case DateQualifier.ABOUT:
+    case DateQualifier.ESTIMATED:
+      return {
+        earliest: shiftYears(start, -APPROXIMATE_MARGIN_YEARS),
+        latest: shiftYears(periodEnd(date, stored.precision), APPROXIMATE_MARGIN_YEARS),
+      };
+    default:
+      return { earliest: start, latest: periodEnd(date, stored.precision) };
+  }
+}
+
+/**
+ * SQL counterpart of dateBounds for the columns named `<column>`, `<column>_qualifier`,
+ * `<column>_precision` and `<column>_end`. Both expressions are DATE or NULL.
+ */
+export function dateBoundsSql(column: string): { earliest: string; latest: string } {
+  const periodEndSql = (value: string) => `(${value} + CASE ${column}_precision
+      WHEN 'year' THEN INTERVAL '1 year - 1 day'
+      WHEN 'month' THEN INTERVAL '1 month - 1 day'
+      ELSE INTERVAL '0 days' END)::date`;
+  const margin = `INTERVAL '${APPROXIMATE_MARGIN_YEARS} years'`;
+
+  return {
+    earliest: `CASE ${column}_qualifier
+      WHEN 'before' THEN NULL
+      WHEN 'about' THEN (${column} - ${margin})::date
+      WHEN 'estimated' THEN (${column} - ${margin})::date
+      ELSE ${column} END`,
+    latest: `CASE ${column}_qualifier
+      WHEN 'after' THEN NULL
+      WHEN 'before' THEN ${column}
+      WHEN 'between' THEN ${periodEndSql(`${column}_end`)}
+      WHEN 'about' THEN (${periodEndSql(column)} + ${margin})::date
+      WHEN 'estimated' THEN (${periodEndSql(column)} + ${margin})::date
+      ELSE ${periodEndSql(column)} END`,
+  };
+}
+
+/**
+ * Reads a search bound such as "1890" or "1890-05": `from` bounds start on the first
+ * day of the period and `to` bounds end on its last day.
+ */
+export function parseDateBound(value: string, field: string, bound: 'from' | 'to'): string {
+  const date = parsePartialDate(value, field);
+  if (bound === 'from') {
+    return truncate(date, date.precision);
+  }
+  return toIsoDate(periodEnd(new Date(date.year, date.month - 1, date.day), date.precision));
+}
+
+/**
+ * Select list for a date and its qualifier, precision and end columns, aliased
+ * as `<alias>`, `<alias>Qualifier`, `<alias>Precision` and `<alias>End`.
+ */
+export function genealogicalDateFields(column: string, alias: string): string {
+  return `${column} as "${alias}", ${column}_qualifier as "${alias}Qualifier", ${column}_precision as "${alias}Precision", ${column}_end as "${alias}End"`;
+}
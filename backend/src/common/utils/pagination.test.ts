@@ -0,0 +1,118 @@
+import { AppError } from '../errors/app-error';
+import { DEFAULT_PAGE_LIMIT, PaginationSpec, pageRequestFromQuery, preparePage, toPage } from './pagination';
+
+const spec: PaginationSpec = {
+  sorts: {
+    createdAt: { expression: 'created_at', type: 'timestamptz' },
+    name: { expression: 'name', type: 'text' },
+  },
+  defaultSort: '-createdAt',
+  idColumn: 'id',
+};
+
+describe('pagination', () => {
+  describe('pageRequestFromQuery', () => {
+    it('should read limit, cursor and sort from the query string', () => {
+      expect(pageRequestFromQuery({ limit: '20', cursor: 'abc', sort: 'name' })).toEqual({
+        limit: 20,
+        cursor: 'abc',
+        sort: 'name',
+      });
+    });
+
+    it('should ignore missing and empty values', () => {
+      expect(pageRequestFromQuery({ limit: '', cursor: '' })).toEqual({
+        limit: undefined,
+        cursor: undefined,
+        sort: undefined,
+      });
+    });
+  });
+
+  describe('preparePage', () => {
+    it('should use the default sort and limit on the first page', () => {
+      const values: unknown[] = ['tree1'];
+      const page = preparePage({}, spec, values);
+
+      expect(page.orderBy).toBe('created_at DESC, id DESC');
+      expect(page.condition).toBeNull();
+      expect(page.columns).toContain('COUNT(*) OVER () AS "totalEstimate"');
+      expect(page.limit).toBe('$2');
+      expect(values).toEqual(['tree1', DEFAULT_PAGE_LIMIT + 1]);
+    });
+
+    it('should reject limits outside the allowed range', () => {
+      expect(() => preparePage({ limit: 0 }, spec, [])).toThrow(AppError);
+      expect(() => preparePage({ limit: 201 }, spec, [])).toThrow('limit must be an integer between 1 and 200');
+      expect(() => preparePage({ limit: 1.5 }, spec, [])).toThrow(AppError);
+    });
+
+    it('should reject unknown sorts', () => {
+      expect(() => preparePage({ sort: 'email' }, spec, [])).toThrow(
+        'sort must be one of: createdAt, -createdAt, name, -name'
+      );
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(() => preparePage({ cursor: 'not-a-cursor' }, spec, [])).toThrow('Invalid cursor');
+    });
+  });
+
+  describe('toPage', () => {
+    const [a, b, c] = ['a', 'b', 'c'].map(letter => `${letter.repeat(8)}-0000-4000-8000-000000000000`);
+    const rows = [
+      { id: a, name: 'Ann', cursorValue: 'Ann', cursorId: a, totalEstimate: '3' },
+      { id: b, name: 'Bob', cursorValue: 'Bob', cursorId: b, totalEstimate: '3' },
+      { id: c, name: 'Cid', cursorValue: 'Cid', cursorId: c, totalEstimate: '3' },
+    ];
+    const cursorFor = (payload: Record<string, unknown>) => Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    it('should strip bookkeeping columns and return a cursor when more rows follow', () => {
+      const page = toPage(rows, preparePage({ limit: 2, sort: 'name' }, spec, []));
+
+      expect(page.items).toEqual([{ id: a, name: 'Ann' }, { id: b, name: 'Bob' }]);
+      expect(page.totalEstimate).toBe(3);
+      expect(page.nextCursor).toEqual(expect.any(String));
+    });
+
+    it('should continue after the last row of the previous page', () => {
+      const first = toPage(rows, preparePage({ limit: 2, sort: 'name' }, spec, []));
+
+      const values: unknown[] = [];
+      const next = preparePage({ limit: 2, sort: 'name', cursor: first.nextCursor! }, spec, values);
+
+      expect(next.condition).toBe('(name, id) > ($1::text, $2::uuid)');
+      expect(values).toEqual(['Bob', b, 3]);
+      expect(next.columns).not.toContain('totalEstimate');
+
+      const last = toPage([{ id: c, name: 'Cid', cursorValue: 'Cid', cursorId: c }], next);
+      expect(last).toEqual({ items: [{ id: c, name: 'Cid' }], nextCursor: null, totalEstimate: 3 });
+    });
+
+    it('should reject a cursor issued for a different sort', () => {
+      const first = toPage(rows, preparePage({ limit: 2, sort: 'name' }, spec, []));
+
+      expect(() => preparePage({ sort: '-name', cursor: first.nextCursor! }, spec, [])).toThrow(
+        'Cursor does not match the requested sort'
+      );
+    });
+
+    it.each([
+      ['an id that is not a uuid', { s: '-createdAt', v: '2025-01-01 12:00:00+00', id: "1' OR '1'='1", t: 3 }],
+      ['a value that is not a timestamp', { s: '-createdAt', v: 'yesterday', id: a, t: 3 }],
+      ['a date that does not exist', { s: '-createdAt', v: '2025-02-30 12:00:00+00', id: a, t: 3 }],
+      ['a missing total', { s: '-createdAt', v: '2025-01-01 12:00:00+00', id: a }],
+    ])('should reject a tampered cursor with %s', (_case, payload) => {
+      expect(() => preparePage({ cursor: cursorFor(payload) }, spec, [])).toThrow(
+        expect.objectContaining({ message: 'Invalid cursor', statusCode: 400 })
+      );
+    });
+
+    it('should accept a timestamp cursor as Postgres formats it', () => {
+      const values: unknown[] = [];
+      preparePage({ cursor: cursorFor({ s: '-createdAt', v: '2025-01-01 12:00:00.123+05:30', id: a, t: 3 }) }, spec, values);
+
+      expect(values.slice(0, 2)).toEqual(['2025-01-01 12:00:00.123+05:30', a]);
+    });
+  });
+});
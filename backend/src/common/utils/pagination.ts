@@ -0,0 +1,194 @@
+import { AppError } from '../errors/app-error';
+import { UUID_PATTERN } from '../middleware/validation.middleware';
+
+export const DEFAULT_PAGE_LIMIT = 50;
+export const MAX_PAGE_LIMIT = 200;
+
+export interface PageRequest {
+  limit?: number;
+  cursor?: string;
+  sort?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  totalEstimate: number;
+}
+
+export interface SortField {
+  /** SQL expression to order by; must not be NULL for any row */
+  expression: string;
+  /** Postgres type the cursor value is cast back to */
+  type: string;
+}
+
+export interface PaginationSpec {
+  sorts: Record<string, SortField>;
+  /** Sort applied when none is requested, e.g. "-createdAt" for newest first */
+  defaultSort: string;
+  /** Unique column used to break ties between equal sort values */
+  idColumn: string;
+}
+
+/**
+ * SQL fragments for one page of a keyset-paginated query. Select `columns` alongside
+ * the row fields, add `condition` (if any) to the WHERE clause, then
+ * ORDER BY `orderBy` LIMIT `limit`.
+ */
+export interface PageQuery {
+  columns: string;
+  condition: string | null;
+  orderBy: string;
+  limit: string;
+  pageSize: number;
+  sort: string;
+  totalEstimate?: number;
+}
+
+interface CursorPayload {
+  s: string;
+  v: string;
+  id: string;
+  t: number;
+}
+
+interface PageRow {
+  cursorValue?: string;
+  cursorId?: string;
+  totalEstimate?: string | number;
+}
+
+const encodeCursor = (payload: CursorPayload): string =>
+  Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+const NUMBER_PATTERN = /^(-?(\d+(\.\d*)?|\.\d+)(e[+-]?\d+)?|-?Infinity|NaN)$/i;
+const TIMESTAMP_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2}):(\d{2})(?:\.\d+)?(?:[+-]\d{2}(?::?\d{2})?)?)?$/;
+
+/** Whether Postgres can cast a cursor value back to the sort field's type */
+const isCursorValue = (value: string, type: string): boolean => {
+  switch (type) {
+    case 'timestamptz':
+    case 'timestamp':
+    case 'date': {
+      const match = TIMESTAMP_PATTERN.exec(value);
+      if (!match) return false;
+      const [year, month, day, hour = 0, minute = 0, second = 0] = match.slice(1).filter(Boolean).map(Number);
+      const date = new Date(0);
+      date.setUTCFullYear(year, month - 1, day);
+      return date.getUTCMonth() === month - 1 && date.getUTCDate() === day && hour < 24 && minute < 60 && second < 60;
+    }
+    case 'float8':
+    case 'numeric':
+      return NUMBER_PATTERN.test(value);
+    default:
+      return !value.includes('\u0000');
+  }
+};
+
+/**
+ * Cursors come back from clients, so everything in them is checked before it
+ * reaches the keyset condition's casts.
+ */
+const decodeCursor = (cursor: string, sort: string, field: SortField): CursorPayload => {
+  let payload: CursorPayload | undefined;
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof parsed?.s === 'string' && typeof parsed.v === 'string' && typeof parsed.id === 'string' && typeof parsed.t === 'number') {
+      payload = parsed;
+    }
+  } catch {
+    // fall through to the error below
+  }
+  if (!payload || !UUID_PATTERN.test(payload.id) || !isCursorValue(payload.v, field.type) || !Number.isFinite(payload.t)) {
+    throw new AppError('Invalid cursor', 400);
+  }
+  if (payload.s !== sort) {
+    throw new AppError('Cursor does not match the requested sort', 400);
+  }
+  return payload;
+};
+
+/**
+ * Reads limit, cursor and sort from a request query string.
+ */
+export function pageRequestFromQuery(queryParams: Record<string, unknown>): PageRequest {
+  const { limit, cursor, sort } = queryParams;
+
+  return {
+    limit: limit === undefined || limit === '' ? undefined : Number(limit),
+    cursor: typeof cursor === 'string' && cursor !== '' ? cursor : undefined,
+    sort: typeof sort === 'string' && sort !== '' ? sort : undefined,
+  };
+}
+
+/**
+ * Validates a page request against the sorts an endpoint allows and builds the SQL
+ * fragments for it, appending any parameters to `values`. Sorts are named after the
+ * result field; a leading "-" sorts descending.
+ */
+export function preparePage(request: PageRequest, spec: PaginationSpec, values: unknown[]): PageQuery {
+  const pageSize = request.limit ?? DEFAULT_PAGE_LIMIT;
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_LIMIT) {
+    throw new AppError(`limit must be an integer between 1 and ${MAX_PAGE_LIMIT}`, 400);
+  }
+
+  const sort = request.sort ?? spec.defaultSort;
+  const descending = sort.startsWith('-');
+  const field = spec.sorts[descending ? sort.slice(1) : sort];
+  if (!field) {
+    const allowed = Object.keys(spec.sorts).flatMap(name => [name, `-${name}`]);
+    throw new AppError(`sort must be one of: ${allowed.join(', ')}`, 400);
+  }
+
+  const direction = descending ? 'DESC' : 'ASC';
+  const page: PageQuery = {
+    columns: `${field.expression}::text AS "cursorValue", ${spec.idColumn}::text AS "cursorId"`,
+    condition: null,
+    orderBy: `${field.expression} ${direction}, ${spec.idColumn} ${direction}`,
+    limit: '',
+    pageSize,
+    sort,
+  };
+
+  if (request.cursor) {
+    const cursor = decodeCursor(request.cursor, sort, field);
+    values.push(cursor.v, cursor.id);
+    page.condition = `(${field.expression}, ${spec.idColumn}) ${descending ? '<' : '>'} ($${values.length - 1}::${field.type}, $${values.length}::uuid)`;
+    page.totalEstimate = cursor.t;
+  } else {
+    page.columns += ', COUNT(*) OVER () AS "totalEstimate"';
+  }
+
+  // One extra row tells us whether another page follows
+  values.push(pageSize + 1);
+  page.limit = `$${values.length}`;
+
+  return page;
+}
+
+/**
+ * Turns the rows of a query built with preparePage into a response page, stripping
+ * the bookkeeping columns. The total is counted on the first page and carried
+ * forward in the cursor, so it is an estimate once the data changes.
+ */
+export function toPage<T>(rows: Array<T & PageRow>, page: PageQuery): Page<T> {
+  const totalEstimate = page.totalEstimate ?? Number(rows[0]?.totalEstimate ?? 0);
+  const hasMore = rows.length > page.pageSize;
+  const pageRows = hasMore ? rows.slice(0, page.pageSize) : rows;
+
+  const items = pageRows.map(row => {
+    const item: PageRow = { ...row };
+    delete item.cursorValue;
+    delete item.cursorId;
+    delete item.totalEstimate;
+    return item as T;
+  });
+
+  const last = pageRows[pageRows.length - 1];
+  const nextCursor = hasMore && last?.cursorValue !== undefined && last.cursorId !== undefined
+    ? encodeCursor({ s: page.sort, v: last.cursorValue, id: last.cursorId, t: totalEstimate })
+    : null;
+
+  return { items, nextCursor, totalEstimate };
+}
@@ -5,6 +5,13 @@ import { createLogger } from '../common/logger';
 
 const logger = createLogger('passport');
 
+/** What the Google strategy hands to AuthController.googleCallback */
+export interface GoogleSignIn {
+  userId: string;
+  email: string;
+  invitationToken?: string;
+}
+
 export function configurePassport(): void {
   const authService = new AuthService();
 
@@ -15,8 +22,9 @@ export function configurePassport(): void {
           clientID: process.env.GOOGLE_CLIENT_ID,
           clientSecret: process.env.GOOGLE_CLIENT_SECRET,
           callbackURL: process.env.GOOGLE_CALLBACK_URL || '/api/v1/auth/google/callback',
+          passReqToCallback: true,
         },
-        async (accessToken, refreshToken, profile, done) => {
+        async (req, accessToken, refreshToken, profile, done) => {
           try {
             const email = profile.emails?.[0]?.value;
             if (!email) {
@@ -32,7 +40,13 @@ export function configurePassport(): void {
             });
 
             logger.info({ action: 'googleOAuth', userId: result.userId, isNew: result.isNew }, 'Google OAuth completed');
-            return done(null, { userId: result.userId });
+            const signIn: GoogleSignIn = {
+              userId: result.userId,
+              email,
+              // googleAuth passes the invitation token as the OAuth state
+              invitationToken: typeof req.query.state === 'string' ? req.query.state : undefined,
+            };
+            return done(null, signIn);
           } catch (error) {
             logger.error({ err: error }, 'Google OAuth error');
             return done(error as Error, false);
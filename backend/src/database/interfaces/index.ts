@@ -23,6 +23,36 @@ export enum NotificationType {
   COMMENT_ADDED = 'comment_added',
   NODE_PUBLISHED = 'node_published',
   TIMELINE_EVENT_ADDED = 'timeline_event_added',
+  OWNERSHIP_TRANSFER = 'ownership_transfer',
+}
+
+export enum NotificationDelivery {
+  OFF = 'off',
+  IN_APP = 'in_app',
+  PUSH = 'push',
+  DAILY_DIGEST = 'daily_digest',
+  WEEKLY_DIGEST = 'weekly_digest',
+}
+
+export enum DigestFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+}
+
+export enum MailTemplate {
+  INVITATION = 'invitation',
+  ACCESS_REQUEST = 'access_request',
+  ACCESS_DECISION = 'access_decision',
+  DIGEST = 'digest',
+  PASSWORD_RESET = 'password_reset',
+  EMAIL_VERIFICATION = 'email_verification',
+  ACCOUNT_DELETION = 'account_deletion',
+  OWNERSHIP_TRANSFER = 'ownership_transfer',
+}
+
+export enum AccountTokenPurpose {
+  EMAIL_VERIFICATION = 'email_verification',
+  PASSWORD_RESET = 'password_reset',
 }
 
 export enum AlbumSource {
@@ -38,6 +68,17 @@ export enum RelationshipType {
   STEP = 'step',
 }
 
+export enum RelationshipRole {
+  PARENT = 'parent',
+  CHILD = 'child',
+  GUARDIAN = 'guardian',
+  WARD = 'ward',
+  STEP_PARENT = 'step_parent',
+  STEP_CHILD = 'step_child',
+  SPOUSE = 'spouse',
+  SIBLING = 'sibling',
+}
+
 export enum EventType {
   BIRTH = 'birth',
   MARRIAGE = 'marriage',
@@ -47,17 +88,77 @@ export enum EventType {
   MEMORY = 'memory',
 }
 
+export enum ParticipantRole {
+  BRIDE = 'bride',
+  GROOM = 'groom',
+  WITNESS = 'witness',
+  DECEASED = 'deceased',
+  OFFICIANT = 'officiant',
+}
+
+export enum DateQualifier {
+  EXACT = 'exact',
+  ABOUT = 'about',
+  BEFORE = 'before',
+  AFTER = 'after',
+  BETWEEN = 'between',
+  ESTIMATED = 'estimated',
+}
+
+export enum DatePrecision {
+  YEAR = 'year',
+  MONTH = 'month',
+  DAY = 'day',
+}
+
 export enum AccessRequestStatus {
   PENDING = 'pending',
   APPROVED = 'approved',
   DENIED = 'denied',
 }
 
+export enum OwnershipTransferStatus {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  DECLINED = 'declined',
+  CANCELLED = 'cancelled',
+  EXPIRED = 'expired',
+}
+
 export enum NodeStatus {
   DRAFT = 'draft',
   PUBLISHED = 'published',
 }
 
+export enum AuditAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete',
+  RESTORE = 'restore',
+}
+
+export enum AuditEntityType {
+  TREE = 'tree',
+  TREE_ACCESS = 'tree_access',
+  NODE = 'node',
+  RELATIONSHIP = 'relationship',
+  EVENT = 'event',
+  COMMENT = 'comment',
+  ALBUM = 'album',
+  SAME_PERSON_LINK = 'same_person_link',
+}
+
+export enum TrashEntityType {
+  NODE = 'node',
+  EVENT = 'event',
+}
+
+export enum DevicePlatform {
+  IOS = 'ios',
+  ANDROID = 'android',
+  WEB = 'web',
+}
+
 export interface User {
   userId: string;
   email: string;
@@ -66,6 +167,12 @@ export interface User {
   authProviderId?: string;
   displayName: string;
   profilePictureUrl?: string;
+  /** Language for emails, e.g. en */
+  locale: string;
+  /** Null until the user follows the link in the verification email */
+  emailVerifiedAt: Date | null;
+  /** When the account will be deleted, if the user asked; keeping the account clears it */
+  deletionScheduledFor?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -75,6 +182,12 @@ export interface FamilyTree {
   treeName: string;
   description?: string;
   ownerUserId: string;
+  /** Whether people's dates of birth and death keep generated timeline events in sync */
+  autoLifeEvents: boolean;
+  /** Whether editors need two-factor authentication to make changes */
+  requireTwoFactor: boolean;
+  /** The requesting user's access, when the tree is read on their behalf */
+  accessLevel?: AccessLevel;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -89,13 +202,23 @@ export interface Node {
   placeOfBirth?: string;
   contactInfo?: Record<string, unknown>;
   profilePictureUrl?: string;
+  /** Sortable date; the first day of the year or month for partial dates */
   dateOfBirth?: Date;
+  dateOfBirthQualifier?: DateQualifier;
+  dateOfBirthPrecision?: DatePrecision;
+  /** Upper bound of a "between" date */
+  dateOfBirthEnd?: Date | null;
   dateOfDeath?: Date;
+  dateOfDeathQualifier?: DateQualifier;
+  dateOfDeathPrecision?: DatePrecision;
+  dateOfDeathEnd?: Date | null;
   status: NodeStatus;
-  createdBy: string;
+  /** Null once the user who added it has deleted their account */
+  createdBy: string | null;
   createdAt: Date;
   updatedAt: Date;
   publishedAt?: Date;
+  consolidatedId?: string;
 }
 
 export interface TreeAccess {
@@ -103,7 +226,7 @@ export interface TreeAccess {
   treeId: string;
   userId: string;
   accessLevel: AccessLevel;
-  grantedBy: string;
+  grantedBy: string | null;
   grantedAt: Date;
 }
 
@@ -113,6 +236,10 @@ export interface Relationship {
   nodeId1: string;
   nodeId2: string;
   relationshipType: RelationshipType;
+  node1Role: RelationshipRole;
+  node2Role: RelationshipRole;
+  startDate?: Date;
+  endDate?: Date;
   createdAt: Date;
 }
 
@@ -122,18 +249,30 @@ export interface TimelineEvent {
   eventType: EventType;
   title: string;
   description?: string;
+  /** Sortable date; the first day of the year or month for partial dates */
   eventDate: Date;
+  eventDateQualifier?: DateQualifier;
+  eventDatePrecision?: DatePrecision;
+  /** Upper bound of a "between" date */
+  eventDateEnd?: Date | null;
   location?: string;
-  createdBy: string;
+  createdBy: string | null;
   createdAt: Date;
   updatedAt: Date;
+  /** Set on birth and death events generated from this person's dates */
+  lifeEventNodeId?: string | null;
+  participants?: EventParticipant[];
 }
 
 export interface EventParticipant {
   participantId: string;
   eventId: string;
   nodeId: string;
+  /** A ParticipantRole, or a GEDCOM role such as principal, husband or wife on imported events */
   role?: string;
+  firstName?: string;
+  lastName?: string;
+  petName?: string;
 }
 
 export interface Comment {
@@ -141,7 +280,8 @@ export interface Comment {
   treeId: string;
   entityType: EntityType;
   entityId: string;
-  userId: string;
+  /** The author; null once they have deleted their account */
+  userId: string | null;
   commentText: string;
   createdAt: Date;
   updatedAt: Date;
@@ -158,13 +298,22 @@ export interface Notification {
   createdAt: Date;
 }
 
+export interface NotificationPreference {
+  notificationType: NotificationType;
+  delivery: NotificationDelivery;
+  /** The tree the preference applies to, or null for the user's default */
+  treeId: string | null;
+  /** Where the effective value comes from: a tree override, the user's default or the system default */
+  source: 'tree' | 'user' | 'default';
+}
+
 export interface PhotoAlbum {
   albumId: string;
   treeId: string;
   albumSource: AlbumSource;
   albumIdentifier: string;
   albumName: string;
-  createdBy: string;
+  createdBy: string | null;
   createdAt: Date;
 }
 
@@ -172,7 +321,7 @@ export interface SamePersonLink {
   linkId: string;
   nodeId1: string;
   nodeId2: string;
-  createdBy: string;
+  createdBy: string | null;
   createdAt: Date;
 }
 
@@ -188,9 +337,26 @@ export interface AccessRequest {
   resolvedBy?: string;
 }
 
+export interface TreeInvitation {
+  invitationId: string;
+  treeId: string;
+  token: string;
+  /** Null for a shareable link */
+  email: string | null;
+  accessLevel: 'viewer' | 'editor';
+  /** Null for unlimited */
+  maxUses: number | null;
+  useCount: number;
+  expiresAt: Date | null;
+  createdBy: string | null;
+  createdAt: Date;
+  revokedAt: Date | null;
+}
+
 export interface ConsolidatedNode {
   consolidatedId: string;
   primaryNodeId: string;
+  createdBy?: string;
   createdAt: Date;
 }
 
@@ -201,3 +367,123 @@ export interface NodeConsolidationMapping {
   treeId: string;
   createdAt: Date;
 }
+
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEvent {
+  auditId: string;
+  treeId: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  actorId: string | null;
+  actorName: string | null;
+  changes: Record<string, FieldChange>;
+  createdAt: Date;
+}
+
+export interface TrashItem {
+  trashId: string;
+  treeId: string;
+  entityType: TrashEntityType;
+  entityId: string;
+  label: string;
+  deletedBy: string | null;
+  deletedByName: string | null;
+  deletedAt: Date;
+  purgeAt: Date;
+}
+
+export interface DeletedTree {
+  treeId: string;
+  treeName: string;
+  description?: string;
+  deletedAt: Date;
+  purgeAt: Date;
+}
+
+export interface Device {
+  deviceId: string;
+  userId: string;
+  pushToken: string;
+  platform: DevicePlatform;
+  createdAt: Date;
+  lastSeenAt: Date;
+}
+
+export enum SessionRevokedReason {
+  LOGOUT = 'logout',
+  REVOKED = 'revoked',
+  REUSE = 'reuse',
+  PASSWORD_RESET = 'password_reset',
+  ACCOUNT_DELETION = 'account_deletion',
+}
+
+/** A signed-in device; its refresh token rotates on every use */
+export interface AuthSession {
+  sessionId: string;
+  userId: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  /** When its refresh token was last used, roughly hourly while the app is open */
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  revokedReason: SessionRevokedReason | null;
+}
+
+/** A Google or Apple account the user can sign in with; a user has at most one per provider */
+export interface UserIdentity {
+  identityId: string;
+  userId: string;
+  provider: AuthProvider;
+  providerUserId: string;
+  /** The provider's email for the account, which may differ from the user's */
+  email: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+}
+
+/** A user's TOTP secret; enabledAt is null while enrollment awaits a first code */
+export interface UserTwoFactor {
+  userId: string;
+  totpSecret: string;
+  enabledAt: Date | null;
+  lastUsedStep: number;
+  failedAttempts: number;
+  lockedUntil: Date | null;
+  createdAt: Date;
+}
+
+/** An owned tree to hand over to one of its members when the owner's account is deleted */
+export interface TreeTransfer {
+  treeId: string;
+  newOwnerUserId: string;
+}
+
+/** An account waiting out its grace period before being purged */
+export interface AccountDeletion {
+  userId: string;
+  requestedAt: Date;
+  purgeAfter: Date;
+  treeTransfers: TreeTransfer[];
+}
+
+/** A primary owner's offer to hand their tree to another member */
+export interface OwnershipTransfer {
+  transferId: string;
+  treeId: string;
+  fromUserId: string;
+  toUserId: string;
+  /** What the former owner's access becomes once the transfer is accepted */
+  formerOwnerLevel: AccessLevel;
+  status: OwnershipTransferStatus;
+  createdAt: Date;
+  expiresAt: Date;
+  resolvedAt: Date | null;
+}
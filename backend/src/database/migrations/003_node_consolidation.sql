@@ -0,0 +1,10 @@
+-- Migration: 003_node_consolidation
+-- Description: Supports merging nodes across trees into one consolidated identity
+
+ALTER TABLE consolidated_nodes ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES users(user_id) ON DELETE SET NULL;
+
+ALTER TABLE node_consolidation_mapping ADD COLUMN IF NOT EXISTS created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- A node belongs to at most one consolidated identity
+CREATE UNIQUE INDEX IF NOT EXISTS idx_node_consolidation_mapping_node ON node_consolidation_mapping(node_id);
+CREATE INDEX IF NOT EXISTS idx_node_consolidation_mapping_consolidated ON node_consolidation_mapping(consolidated_id);
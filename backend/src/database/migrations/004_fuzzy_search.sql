@@ -0,0 +1,26 @@
+-- Migration: 004_fuzzy_search
+-- Description: Trigram, phonetic and diacritic-insensitive person search
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE EXTENSION IF NOT EXISTS fuzzystrmatch;
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- unaccent() is only STABLE; pinning the dictionary makes this safe to use in indexes
+CREATE OR REPLACE FUNCTION normalize_search_text(value TEXT)
+RETURNS TEXT AS $$
+  SELECT lower(public.unaccent('public.unaccent'::regdictionary, value))
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT;
+
+ALTER TABLE nodes ADD COLUMN IF NOT EXISTS search_name TEXT GENERATED ALWAYS AS (
+  normalize_search_text(COALESCE(first_name, '') || ' ' || COALESCE(last_name, '') || ' ' || COALESCE(pet_name, ''))
+) STORED;
+ALTER TABLE nodes ADD COLUMN IF NOT EXISTS first_name_phonetic TEXT GENERATED ALWAYS AS (dmetaphone(normalize_search_text(first_name))) STORED;
+ALTER TABLE nodes ADD COLUMN IF NOT EXISTS last_name_phonetic TEXT GENERATED ALWAYS AS (dmetaphone(normalize_search_text(last_name))) STORED;
+ALTER TABLE nodes ADD COLUMN IF NOT EXISTS pet_name_phonetic TEXT GENERATED ALWAYS AS (dmetaphone(normalize_search_text(pet_name))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_nodes_search_name_trgm ON nodes USING GIN (search_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_nodes_place_of_birth_trgm ON nodes USING GIN (normalize_search_text(place_of_birth) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_nodes_first_name_phonetic ON nodes(first_name_phonetic);
+CREATE INDEX IF NOT EXISTS idx_nodes_last_name_phonetic ON nodes(last_name_phonetic);
+CREATE INDEX IF NOT EXISTS idx_nodes_pet_name_phonetic ON nodes(pet_name_phonetic);
+CREATE INDEX IF NOT EXISTS idx_nodes_date_of_birth ON nodes(date_of_birth);
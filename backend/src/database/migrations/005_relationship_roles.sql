@@ -0,0 +1,41 @@
+-- Migration: 005_relationship_roles
+-- Description: Explicit roles for both sides of a relationship, plus optional start and end dates
+
+ALTER TABLE relationships ADD COLUMN IF NOT EXISTS node_1_role VARCHAR(20);
+ALTER TABLE relationships ADD COLUMN IF NOT EXISTS node_2_role VARCHAR(20);
+ALTER TABLE relationships ADD COLUMN IF NOT EXISTS start_date DATE;
+ALTER TABLE relationships ADD COLUMN IF NOT EXISTS end_date DATE;
+
+-- Existing directional rows always stored the parent side as node_id_1
+UPDATE relationships SET
+  node_1_role = CASE relationship_type
+    WHEN 'parent_child' THEN 'parent'
+    WHEN 'adopted' THEN 'guardian'
+    WHEN 'step' THEN 'step_parent'
+    ELSE relationship_type
+  END,
+  node_2_role = CASE relationship_type
+    WHEN 'parent_child' THEN 'child'
+    WHEN 'adopted' THEN 'ward'
+    WHEN 'step' THEN 'step_child'
+    ELSE relationship_type
+  END
+WHERE node_1_role IS NULL OR node_2_role IS NULL;
+
+ALTER TABLE relationships ALTER COLUMN node_1_role SET NOT NULL;
+ALTER TABLE relationships ALTER COLUMN node_2_role SET NOT NULL;
+
+-- node_id_1 always holds the parent, guardian or step-parent of a directional relationship
+ALTER TABLE relationships DROP CONSTRAINT IF EXISTS relationships_roles_check;
+ALTER TABLE relationships ADD CONSTRAINT relationships_roles_check CHECK (
+  (relationship_type = 'parent_child' AND node_1_role = 'parent' AND node_2_role = 'child')
+  OR (relationship_type = 'adopted' AND node_1_role = 'guardian' AND node_2_role = 'ward')
+  OR (relationship_type = 'step' AND node_1_role = 'step_parent' AND node_2_role = 'step_child')
+  OR (relationship_type = 'spouse' AND node_1_role = 'spouse' AND node_2_role = 'spouse')
+  OR (relationship_type = 'sibling' AND node_1_role = 'sibling' AND node_2_role = 'sibling')
+);
+
+ALTER TABLE relationships DROP CONSTRAINT IF EXISTS relationships_dates_check;
+ALTER TABLE relationships ADD CONSTRAINT relationships_dates_check CHECK (
+  start_date IS NULL OR end_date IS NULL OR end_date >= start_date
+);
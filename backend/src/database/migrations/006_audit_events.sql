@@ -0,0 +1,18 @@
+-- Migration: 006_audit_events
+-- Description: Append-only log of every create, update and delete made to tree content
+
+CREATE TABLE IF NOT EXISTS audit_events (
+  audit_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tree_id UUID NOT NULL REFERENCES family_trees(tree_id) ON DELETE CASCADE,
+  entity_type VARCHAR(30) NOT NULL CHECK (entity_type IN ('tree', 'tree_access', 'node', 'relationship', 'event', 'comment', 'album', 'same_person_link')),
+  -- For tree_access entries this is the user whose access changed
+  entity_id UUID NOT NULL,
+  action VARCHAR(10) NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+  actor_id UUID REFERENCES users(user_id) ON DELETE SET NULL,
+  -- Field name -> { "before": ..., "after": ... }
+  changes JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_tree ON audit_events(tree_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_events_entity ON audit_events(entity_type, entity_id, created_at);
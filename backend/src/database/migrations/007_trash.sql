@@ -0,0 +1,27 @@
+-- Migration: 007_trash
+-- Description: Soft-deleted trees and a per-tree trash for deleted people and events
+
+ALTER TABLE family_trees ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE family_trees ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES users(user_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_family_trees_deleted ON family_trees(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Deleted nodes and events leave their tables; the snapshot holds the raw rows
+-- (the entity plus its relationships, participants, comments and links) needed to restore them
+CREATE TABLE IF NOT EXISTS trash_items (
+  trash_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tree_id UUID NOT NULL REFERENCES family_trees(tree_id) ON DELETE CASCADE,
+  entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('node', 'event')),
+  entity_id UUID NOT NULL,
+  label VARCHAR(255) NOT NULL,
+  snapshot JSONB NOT NULL,
+  deleted_by UUID REFERENCES users(user_id) ON DELETE SET NULL,
+  deleted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(entity_type, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trash_items_tree ON trash_items(tree_id, deleted_at);
+CREATE INDEX IF NOT EXISTS idx_trash_items_deleted ON trash_items(deleted_at);
+
+ALTER TABLE audit_events DROP CONSTRAINT IF EXISTS audit_events_action_check;
+ALTER TABLE audit_events ADD CONSTRAINT audit_events_action_check CHECK (action IN ('create', 'update', 'delete', 'restore'));
@@ -0,0 +1,10 @@
+-- Migration: 008_event_participants
+-- Description: One participant row per person and event, and a node index for per-person timelines
+
+-- Keep the oldest row where a person was attached to the same event twice
+DELETE FROM event_participants a
+USING event_participants b
+WHERE a.event_id = b.event_id AND a.node_id = b.node_id AND a.participant_id > b.participant_id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_participants_event_node ON event_participants(event_id, node_id);
+CREATE INDEX IF NOT EXISTS idx_event_participants_node ON event_participants(node_id);
@@ -0,0 +1,9 @@
+-- Migration: 009_life_events
+-- Description: Birth and death events generated from a person's dates, with a per-tree opt-out
+
+ALTER TABLE family_trees ADD COLUMN IF NOT EXISTS auto_life_events BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- The person a generated birth or death event belongs to; the event goes when the person does
+ALTER TABLE timeline_events ADD COLUMN IF NOT EXISTS life_event_node_id UUID REFERENCES nodes(node_id) ON DELETE CASCADE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_timeline_events_life_event ON timeline_events(life_event_node_id, event_type) WHERE life_event_node_id IS NOT NULL;
@@ -0,0 +1,34 @@
+-- Migration: 010_genealogical_dates
+-- Description: Qualifier, precision and range end for birth, death and event dates; the DATE columns stay the sort key
+
+ALTER TABLE nodes ADD COLUMN IF NOT EXISTS date_of_birth_qualifier VARCHAR(10) NOT NULL DEFAULT 'exact';
+ALTER TABLE nodes ADD COLUMN IF NOT EXISTS date_of_birth_precision VARCHAR(10) NOT NULL DEFAULT 'day';
+ALTER TABLE nodes ADD COLUMN IF NOT EXISTS date_of_birth_end DATE;
+ALTER TABLE nodes ADD COLUMN IF NOT EXISTS date_of_death_qualifier VARCHAR(10) NOT NULL DEFAULT 'exact';
+ALTER TABLE nodes ADD COLUMN IF NOT EXISTS date_of_death_precision VARCHAR(10) NOT NULL DEFAULT 'day';
+ALTER TABLE nodes ADD COLUMN IF NOT EXISTS date_of_death_end DATE;
+
+ALTER TABLE timeline_events ADD COLUMN IF NOT EXISTS event_date_qualifier VARCHAR(10) NOT NULL DEFAULT 'exact';
+ALTER TABLE timeline_events ADD COLUMN IF NOT EXISTS event_date_precision VARCHAR(10) NOT NULL DEFAULT 'day';
+ALTER TABLE timeline_events ADD COLUMN IF NOT EXISTS event_date_end DATE;
+
+-- Only "between" dates carry an end, and it never comes before the start
+ALTER TABLE nodes DROP CONSTRAINT IF EXISTS nodes_genealogical_dates_check;
+ALTER TABLE nodes ADD CONSTRAINT nodes_genealogical_dates_check CHECK (
+  date_of_birth_qualifier IN ('exact', 'about', 'before', 'after', 'between', 'estimated')
+  AND date_of_death_qualifier IN ('exact', 'about', 'before', 'after', 'between', 'estimated')
+  AND date_of_birth_precision IN ('year', 'month', 'day')
+  AND date_of_death_precision IN ('year', 'month', 'day')
+  AND (date_of_birth_qualifier = 'between') = (date_of_birth_end IS NOT NULL)
+  AND (date_of_death_qualifier = 'between') = (date_of_death_end IS NOT NULL)
+  AND (date_of_birth_end IS NULL OR date_of_birth_end >= date_of_birth)
+  AND (date_of_death_end IS NULL OR date_of_death_end >= date_of_death)
+);
+
+ALTER TABLE timeline_events DROP CONSTRAINT IF EXISTS timeline_events_genealogical_date_check;
+ALTER TABLE timeline_events ADD CONSTRAINT timeline_events_genealogical_date_check CHECK (
+  event_date_qualifier IN ('exact', 'about', 'before', 'after', 'between', 'estimated')
+  AND event_date_precision IN ('year', 'month', 'day')
+  AND (event_date_qualifier = 'between') = (event_date_end IS NOT NULL)
+  AND (event_date_end IS NULL OR event_date_end >= event_date)
+);
@@ -0,0 +1,42 @@
+-- Migration: 012_notification_preferences
+-- Description: Per-user and per-tree notification preferences and digest queue
+
+-- A row with no tree_id is the user's default for that notification type;
+-- a row with a tree_id overrides it for that tree
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  preference_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  tree_id UUID REFERENCES family_trees(tree_id) ON DELETE CASCADE,
+  notification_type VARCHAR(50) NOT NULL,
+  delivery VARCHAR(20) NOT NULL CHECK (delivery IN ('off', 'in_app', 'push', 'daily_digest', 'weekly_digest')),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_preferences_user_default
+  ON notification_preferences(user_id, notification_type) WHERE tree_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_preferences_user_tree
+  ON notification_preferences(user_id, tree_id, notification_type) WHERE tree_id IS NOT NULL;
+
+-- Notifications held back for the next digest instead of being stored in-app
+CREATE TABLE IF NOT EXISTS notification_digest_items (
+  item_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  tree_id UUID REFERENCES family_trees(tree_id) ON DELETE CASCADE,
+  frequency VARCHAR(10) NOT NULL CHECK (frequency IN ('daily', 'weekly')),
+  notification_type VARCHAR(50) NOT NULL,
+  message TEXT NOT NULL,
+  related_entity_type VARCHAR(50),
+  related_entity_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_digest_items_frequency ON notification_digest_items(frequency, user_id, created_at);
+
+-- When each digest last went out; the job claims a run by moving last_run_at forward
+CREATE TABLE IF NOT EXISTS notification_digest_runs (
+  frequency VARCHAR(10) PRIMARY KEY CHECK (frequency IN ('daily', 'weekly')),
+  last_run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO notification_digest_runs (frequency) VALUES ('daily'), ('weekly')
+ON CONFLICT (frequency) DO NOTHING;
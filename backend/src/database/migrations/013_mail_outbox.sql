@@ -0,0 +1,24 @@
+-- Migration: 013_mail_outbox
+-- Description: Outbound email outbox with retries, and each user's language for emails
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS locale VARCHAR(10) NOT NULL DEFAULT 'en';
+
+-- Messages are rendered when queued, so a retry sends exactly what was queued
+CREATE TABLE IF NOT EXISTS mail_outbox (
+  mail_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  to_address VARCHAR(255) NOT NULL,
+  template VARCHAR(50) NOT NULL,
+  locale VARCHAR(10) NOT NULL,
+  subject VARCHAR(255) NOT NULL,
+  html TEXT NOT NULL,
+  text TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  sent_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_mail_outbox_due ON mail_outbox(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_mail_outbox_created ON mail_outbox(created_at);
@@ -0,0 +1,30 @@
+-- Migration: 014_tree_invitations
+-- Description: Tree invitations by email or shareable link, redeemed at signup or login
+
+-- An email invitation is for that address only and is used once; a link
+-- invitation (no email) works for anyone holding it, up to max_uses
+CREATE TABLE IF NOT EXISTS tree_invitations (
+  invitation_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tree_id UUID NOT NULL REFERENCES family_trees(tree_id) ON DELETE CASCADE,
+  token VARCHAR(64) NOT NULL UNIQUE,
+  email VARCHAR(255),
+  access_level VARCHAR(20) NOT NULL CHECK (access_level IN ('editor', 'viewer')),
+  max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+  use_count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_tree_invitations_tree ON tree_invitations(tree_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tree_invitations_email ON tree_invitations(LOWER(email)) WHERE email IS NOT NULL AND revoked_at IS NULL;
+
+-- One row per user who joined through an invitation, so a second redemption by
+-- the same user does not use it up
+CREATE TABLE IF NOT EXISTS tree_invitation_redemptions (
+  invitation_id UUID NOT NULL REFERENCES tree_invitations(invitation_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  redeemed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (invitation_id, user_id)
+);
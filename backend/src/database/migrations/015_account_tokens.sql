@@ -0,0 +1,23 @@
+-- Migration: 015_account_tokens
+-- Description: Email verification and password reset tokens
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP WITH TIME ZONE;
+
+-- Google and Apple only hand out verified addresses
+UPDATE users SET email_verified_at = created_at
+WHERE auth_provider <> 'email' AND email_verified_at IS NULL;
+
+-- Only a SHA-256 hash of each token is stored; the token itself is only in the
+-- email. A token works once and until it expires, and a user has at most one
+-- per purpose since issuing a new one replaces the old
+CREATE TABLE IF NOT EXISTS account_tokens (
+  token_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  purpose VARCHAR(30) NOT NULL CHECK (purpose IN ('email_verification', 'password_reset')),
+  token_hash CHAR(64) NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_tokens_user ON account_tokens(user_id, purpose);
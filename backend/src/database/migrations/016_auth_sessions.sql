@@ -0,0 +1,22 @@
+-- Migration: 016_auth_sessions
+-- Description: Signed-in sessions with rotating refresh tokens
+
+-- One row per sign-in on a device. Only the hash of the session's current
+-- refresh token is kept: each refresh replaces it, and presenting an older one
+-- means the token was copied, so the session is revoked
+CREATE TABLE IF NOT EXISTS auth_sessions (
+  session_id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  refresh_token_hash CHAR(64) NOT NULL,
+  device_name VARCHAR(100),
+  user_agent VARCHAR(500),
+  ip_address VARCHAR(64),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_reason VARCHAR(30) CHECK (revoked_reason IN ('logout', 'revoked', 'reuse', 'password_reset'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_user ON auth_sessions(user_id, last_used_at DESC) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_expires ON auth_sessions(expires_at);
@@ -0,0 +1,26 @@
+-- Migration: 017_user_identities
+-- Description: Google and Apple sign-in methods linked to an account, several per user
+
+-- users.auth_provider and auth_provider_id keep recording how the account was
+-- created; signing in goes through this table. A password is a sign-in method
+-- too, kept as users.password_hash
+CREATE TABLE IF NOT EXISTS user_identities (
+  identity_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  provider VARCHAR(20) NOT NULL CHECK (provider IN ('google', 'apple')),
+  provider_user_id VARCHAR(255) NOT NULL,
+  -- The provider's email for the account, for display; may differ from users.email
+  email VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (provider, provider_user_id),
+  UNIQUE (user_id, provider)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_identities_user ON user_identities(user_id);
+
+INSERT INTO user_identities (user_id, provider, provider_user_id, email, created_at)
+SELECT user_id, auth_provider, auth_provider_id, email, created_at
+FROM users
+WHERE auth_provider IN ('google', 'apple') AND auth_provider_id IS NOT NULL
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,27 @@
+-- Migration: 018_two_factor
+-- Description: Optional TOTP two-factor authentication with recovery codes, and trees that require it of editors
+
+-- One row per user who started enrolling; enabled_at stays NULL until they
+-- confirm a code from their authenticator app
+CREATE TABLE IF NOT EXISTS user_two_factor (
+  user_id UUID PRIMARY KEY REFERENCES users(user_id) ON DELETE CASCADE,
+  totp_secret VARCHAR(64) NOT NULL,
+  enabled_at TIMESTAMP WITH TIME ZONE,
+  -- The time step of the last accepted code; that code and older ones are refused
+  last_used_step BIGINT NOT NULL DEFAULT 0,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Only SHA-256 hashes are stored; each code works once
+CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+  code_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  code_hash VARCHAR(64) NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, code_hash)
+);
+
+ALTER TABLE family_trees ADD COLUMN IF NOT EXISTS require_two_factor BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,67 @@
+-- Migration: 019_account_deletion
+-- Description: Scheduled account deletion, and user references that outlive the user
+
+-- An account the user asked to delete. It is purged once purge_after passes,
+-- unless they sign in and keep it. tree_transfers lists
+-- { "treeId", "newOwnerUserId" } for owned trees to hand over; the rest are deleted
+CREATE TABLE IF NOT EXISTS account_deletions (
+  user_id UUID PRIMARY KEY REFERENCES users(user_id) ON DELETE CASCADE,
+  requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  purge_after TIMESTAMP WITH TIME ZONE NOT NULL,
+  tree_transfers JSONB NOT NULL DEFAULT '[]'
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_deletions_purge ON account_deletions(purge_after);
+
+-- What a deleted user added to other people's trees stays, without their name on it
+ALTER TABLE nodes ALTER COLUMN created_by DROP NOT NULL;
+ALTER TABLE nodes DROP CONSTRAINT IF EXISTS nodes_created_by_fkey;
+ALTER TABLE nodes ADD CONSTRAINT nodes_created_by_fkey
+  FOREIGN KEY (created_by) REFERENCES users(user_id) ON DELETE SET NULL;
+
+ALTER TABLE timeline_events ALTER COLUMN created_by DROP NOT NULL;
+ALTER TABLE timeline_events DROP CONSTRAINT IF EXISTS timeline_events_created_by_fkey;
+ALTER TABLE timeline_events ADD CONSTRAINT timeline_events_created_by_fkey
+  FOREIGN KEY (created_by) REFERENCES users(user_id) ON DELETE SET NULL;
+
+ALTER TABLE same_person_links ALTER COLUMN created_by DROP NOT NULL;
+ALTER TABLE same_person_links DROP CONSTRAINT IF EXISTS same_person_links_created_by_fkey;
+ALTER TABLE same_person_links ADD CONSTRAINT same_person_links_created_by_fkey
+  FOREIGN KEY (created_by) REFERENCES users(user_id) ON DELETE SET NULL;
+
+ALTER TABLE photo_albums ALTER COLUMN created_by DROP NOT NULL;
+ALTER TABLE photo_albums DROP CONSTRAINT IF EXISTS photo_albums_created_by_fkey;
+ALTER TABLE photo_albums ADD CONSTRAINT photo_albums_created_by_fkey
+  FOREIGN KEY (created_by) REFERENCES users(user_id) ON DELETE SET NULL;
+
+ALTER TABLE comments ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE comments DROP CONSTRAINT IF EXISTS comments_user_id_fkey;
+ALTER TABLE comments ADD CONSTRAINT comments_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE SET NULL;
+
+ALTER TABLE tree_access ALTER COLUMN granted_by DROP NOT NULL;
+ALTER TABLE tree_access DROP CONSTRAINT IF EXISTS tree_access_granted_by_fkey;
+ALTER TABLE tree_access ADD CONSTRAINT tree_access_granted_by_fkey
+  FOREIGN KEY (granted_by) REFERENCES users(user_id) ON DELETE SET NULL;
+
+ALTER TABLE access_requests DROP CONSTRAINT IF EXISTS access_requests_resolved_by_fkey;
+ALTER TABLE access_requests ADD CONSTRAINT access_requests_resolved_by_fkey
+  FOREIGN KEY (resolved_by) REFERENCES users(user_id) ON DELETE SET NULL;
+
+-- Rows that are only about the deleted user go with them. Owned trees are not
+-- here: the purge transfers or deletes them before deleting the user
+ALTER TABLE tree_access DROP CONSTRAINT IF EXISTS tree_access_user_id_fkey;
+ALTER TABLE tree_access ADD CONSTRAINT tree_access_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE;
+
+ALTER TABLE access_requests DROP CONSTRAINT IF EXISTS access_requests_user_id_fkey;
+ALTER TABLE access_requests ADD CONSTRAINT access_requests_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE;
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_user_id_fkey;
+ALTER TABLE notifications ADD CONSTRAINT notifications_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE;
+
+ALTER TABLE auth_sessions DROP CONSTRAINT IF EXISTS auth_sessions_revoked_reason_check;
+ALTER TABLE auth_sessions ADD CONSTRAINT auth_sessions_revoked_reason_check
+  CHECK (revoked_reason IN ('logout', 'revoked', 'reuse', 'password_reset', 'account_deletion'));
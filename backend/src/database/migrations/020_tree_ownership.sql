@@ -0,0 +1,30 @@
+-- Migration: 020_tree_ownership
+-- Description: Handing a tree over to another member, and notifications about it
+
+-- A primary owner's offer to hand their tree to a member. Accepting it moves
+-- family_trees.owner_user_id and both members' tree_access rows in one go;
+-- the former owner stays on at former_owner_level. Co-owners are members whose
+-- tree_access is 'owner'; only the primary owner can hand the tree over
+CREATE TABLE IF NOT EXISTS tree_ownership_transfers (
+  transfer_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tree_id UUID NOT NULL REFERENCES family_trees(tree_id) ON DELETE CASCADE,
+  from_user_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  to_user_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  former_owner_level VARCHAR(10) NOT NULL DEFAULT 'editor' CHECK (former_owner_level IN ('owner', 'editor', 'viewer')),
+  status VARCHAR(10) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled', 'expired')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+-- At most one offer per tree is open at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tree_ownership_transfers_pending
+  ON tree_ownership_transfers(tree_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_tree_ownership_transfers_recipient
+  ON tree_ownership_transfers(to_user_id) WHERE status = 'pending';
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_notification_type_check;
+
+ALTER TABLE notifications ADD CONSTRAINT notifications_notification_type_check CHECK (
+  notification_type IN ('access_granted', 'same_person_link_created', 'access_request', 'comment_added', 'node_published', 'timeline_event_added', 'ownership_transfer')
+);
@@ -4,6 +4,12 @@ dotenv.config();
 import { createLogger } from './common/logger';
 import { initializeDatabase } from './config/database';
 import { connectRedis } from './config/redis';
+import { startTrashRetentionJob } from './modules/trash/trash-retention.job';
+import { startPushDeliveryJob } from './modules/push/push-delivery.job';
+import { startNotificationDigestJob } from './modules/notification/notification-digest.job';
+import { startMailOutboxJob } from './modules/mail/mail-outbox.job';
+import { startSessionCleanupJob } from './modules/auth/session-cleanup.job';
+import { startAccountDeletionJob } from './modules/auth/account-deletion.job';
 import app from './app';
 
 const logger = createLogger('main');
@@ -12,6 +18,12 @@ const PORT = process.env.PORT || 3000;
 Promise.all([initializeDatabase(), connectRedis()])
   .then(() => {
     logger.info('Database and Redis connected');
+    startTrashRetentionJob();
+    startPushDeliveryJob();
+    startNotificationDigestJob();
+    startMailOutboxJob();
+    startSessionCleanupJob();
+    startAccountDeletionJob();
     app.listen(PORT, () => {
       logger.info({ port: PORT }, 'Server started');
     });
@@ -225,6 +225,9 @@ describe('Property 10: Access request workflow', () => {
           let grantedAccessLevel: string | null = null;
 
           mockQuery.mockImplementation((sql: string, params?: unknown[]) => {
+            if (sql.includes('email_verified_at')) {
+              return { rows: [{ verified: true }] };
+            }
             if (sql.includes('SELECT') && sql.includes('access_requests') && sql.includes('request_id = $1')) {
               return {
                 rows: [{
@@ -290,6 +293,9 @@ describe('Property 10: Access request workflow', () => {
           let actualGrantedLevel: string | null = null;
 
           mockQuery.mockImplementation((sql: string, params?: unknown[]) => {
+            if (sql.includes('email_verified_at')) {
+              return { rows: [{ verified: true }] };
+            }
             if (sql.includes('SELECT') && sql.includes('access_requests') && sql.includes('request_id = $1')) {
               return {
                 rows: [{
@@ -349,6 +355,9 @@ describe('Property 10: Access request workflow', () => {
           fc.pre(requestingUserId !== nonOwnerId);
 
           mockQuery.mockImplementation((sql: string, params?: unknown[]) => {
+            if (sql.includes('email_verified_at')) {
+              return { rows: [{ verified: true }] };
+            }
             if (sql.includes('SELECT') && sql.includes('access_requests') && sql.includes('request_id = $1')) {
               return {
                 rows: [{
@@ -393,6 +402,9 @@ describe('Property 10: Access request workflow', () => {
           fc.pre(requestingUserId !== ownerId);
 
           mockQuery.mockImplementation((sql: string, params?: unknown[]) => {
+            if (sql.includes('email_verified_at')) {
+              return { rows: [{ verified: true }] };
+            }
             if (sql.includes('SELECT') && sql.includes('access_requests') && sql.includes('request_id = $1')) {
               return {
                 rows: [{
@@ -1,7 +1,8 @@
-import { AccessLevel, AccessRequestStatus } from '../../database/interfaces';
+import { AccessLevel, AccessRequestStatus, MailTemplate } from '../../database/interfaces';
 
 const mockQuery = jest.fn();
 const mockCreateNotification = jest.fn().mockResolvedValue({});
+const mockSendToUser = jest.fn().mockResolvedValue('mail-1');
 
 jest.mock('../../config/database', () => ({
   query: (...args: unknown[]) => mockQuery(...args),
@@ -14,6 +15,13 @@ jest.mock('../notification/notification.service', () => ({
   })),
 }));
 
+jest.mock('../mail/mail.service', () => ({
+  MailService: jest.fn().mockImplementation(() => ({
+    sendToUser: mockSendToUser,
+  })),
+  appUrl: (path: string) => `https://app.example.com${path}`,
+}));
+
 import { AccessRequestService } from './access-request.service';
 
 describe('AccessRequestService', () => {
@@ -23,6 +31,7 @@ describe('AccessRequestService', () => {
     mockQuery.mockReset();
     mockCreateNotification.mockReset();
     mockCreateNotification.mockResolvedValue({});
+    mockSendToUser.mockClear();
     service = new AccessRequestService();
   });
 
@@ -33,6 +42,9 @@ describe('AccessRequestService', () => {
 
     it('should create access request when user has no existing access', async () => {
       mockQuery.mockImplementation((sql: string, params?: unknown[]) => {
+        if (sql.includes('"ownerUserId"')) {
+          return { rows: [{ ownerUserId: ownerId, treeName: 'Sharma Family', requesterName: 'Priya' }] };
+        }
         if (sql.includes('tree_access') && sql.includes('access_level')) {
           return { rows: [] };
         }
@@ -51,9 +63,6 @@ describe('AccessRequestService', () => {
             }],
           };
         }
-        if (sql.includes('owner_user_id')) {
-          return { rows: [{ ownerUserId: ownerId }] };
-        }
         return { rows: [] };
       });
 
@@ -65,6 +74,12 @@ describe('AccessRequestService', () => {
 
       expect(result.requestId).toBe('new-request-id');
       expect(result.status).toBe(AccessRequestStatus.PENDING);
+      expect(mockSendToUser).toHaveBeenCalledWith(ownerId, MailTemplate.ACCESS_REQUEST, {
+        requesterName: 'Priya',
+        treeName: 'Sharma Family',
+        requestedLevel: 'editor',
+        actionUrl: 'https://app.example.com/trees/tree-1/access-requests',
+      });
     });
 
     it('should reject request when user already has access', async () => {
@@ -111,6 +126,9 @@ describe('AccessRequestService', () => {
       let grantedLevel: string | null = null;
 
       mockQuery.mockImplementation((sql: string, params?: unknown[]) => {
+        if (sql.includes('email_verified_at')) {
+          return { rows: [{ verified: true }] };
+        }
         if (sql.includes('SELECT') && sql.includes('access_requests') && sql.includes('request_id = $1')) {
           return {
             rows: [{
@@ -154,6 +172,9 @@ describe('AccessRequestService', () => {
       let grantedLevel: string | null = null;
 
       mockQuery.mockImplementation((sql: string, params?: unknown[]) => {
+        if (sql.includes('email_verified_at')) {
+          return { rows: [{ verified: true }] };
+        }
         if (sql.includes('SELECT') && sql.includes('access_requests') && sql.includes('request_id = $1')) {
           return {
             rows: [{
@@ -230,6 +251,34 @@ describe('AccessRequestService', () => {
       await expect(service.approveAccessRequest(requestId, nonOwnerId))
         .rejects.toThrow('Owner access required');
     });
+
+    it('should not grant access to a requester whose email is unverified', async () => {
+      mockQuery.mockImplementation((sql: string) => {
+        if (sql.includes('email_verified_at')) {
+          return { rows: [{ verified: false }] };
+        }
+        if (sql.includes('SELECT') && sql.includes('access_requests') && sql.includes('request_id = $1')) {
+          return {
+            rows: [{
+              requestId,
+              treeId,
+              userId: requestingUserId,
+              requestedLevel: 'viewer',
+              status: AccessRequestStatus.PENDING,
+              requestedAt: new Date(),
+            }],
+          };
+        }
+        if (sql.includes('tree_access') && sql.includes('access_level') && !sql.includes('INSERT')) {
+          return { rows: [{ accessLevel: AccessLevel.OWNER }] };
+        }
+        return { rows: [] };
+      });
+
+      await expect(service.approveAccessRequest(requestId, ownerId))
+        .rejects.toMatchObject({ statusCode: 409, code: 'EMAIL_NOT_VERIFIED' });
+      expect(mockQuery).not.toHaveBeenCalledWith(expect.stringContaining('INSERT INTO tree_access'), expect.anything());
+    });
   });
 
   describe('denyAccessRequest', () => {
@@ -242,6 +291,9 @@ describe('AccessRequestService', () => {
       let updatedStatus: string | null = null;
 
       mockQuery.mockImplementation((sql: string, params?: unknown[]) => {
+        if (sql.includes('email_verified_at')) {
+          return { rows: [{ verified: true }] };
+        }
         if (sql.includes('SELECT') && sql.includes('access_requests') && sql.includes('request_id = $1')) {
           return {
             rows: [{
@@ -260,6 +312,9 @@ describe('AccessRequestService', () => {
           updatedStatus = params?.[0] as string;
           return { rowCount: 1 };
         }
+        if (sql.includes('tree_name')) {
+          return { rows: [{ treeName: 'Sharma Family' }] };
+        }
         return { rows: [] };
       });
 
@@ -272,6 +327,12 @@ describe('AccessRequestService', () => {
           message: 'Your access request has been denied.',
         })
       );
+      expect(mockSendToUser).toHaveBeenCalledWith(requestingUserId, MailTemplate.ACCESS_DECISION, {
+        treeName: 'Sharma Family',
+        approved: false,
+        accessLevel: null,
+        actionUrl: 'https://app.example.com/',
+      });
     });
 
     it('should reject denial when request not found', async () => {
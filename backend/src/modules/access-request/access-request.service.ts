@@ -1,7 +1,17 @@
 import { query } from '../../config/database';
-import { AccessRequest, AccessRequestStatus, AccessLevel, NotificationType } from '../../database/interfaces';
+import {
+  AccessRequest,
+  AccessRequestStatus,
+  AccessLevel,
+  NotificationType,
+  AuditAction,
+  AuditEntityType,
+  MailTemplate,
+} from '../../database/interfaces';
 import { AccessControlService } from '../../common/services/access-control.service';
 import { NotificationService } from '../notification/notification.service';
+import { AuditService } from '../audit/audit.service';
+import { MailService, appUrl } from '../mail/mail.service';
 import { AppError } from '../../common/errors/app-error';
 
 interface LinkedTreeInfo {
@@ -28,10 +38,14 @@ interface SubmitAccessRequestDto {
 export class AccessRequestService {
   private accessControl: AccessControlService;
   private notificationService: NotificationService;
+  private auditService: AuditService;
+  private mailService: MailService;
 
   constructor() {
     this.accessControl = new AccessControlService();
     this.notificationService = new NotificationService();
+    this.auditService = new AuditService();
+    this.mailService = new MailService();
   }
 
   async getLinkedTreeInfo(nodeId: string, userId: string): Promise<GetLinkedTreeInfoResult> {
@@ -67,7 +81,8 @@ export class AccessRequestService {
          SELECT node_id_1 as linked_node_id FROM same_person_links WHERE node_id_2 = $1
        ) links ON n.node_id = links.linked_node_id
        LEFT JOIN tree_access ta ON ft.tree_id = ta.tree_id AND ta.user_id = $2
-       LEFT JOIN access_requests ar ON ft.tree_id = ar.tree_id AND ar.user_id = $2 AND ar.status = 'pending'`,
+       LEFT JOIN access_requests ar ON ft.tree_id = ar.tree_id AND ar.user_id = $2 AND ar.status = 'pending'
+       WHERE ft.deleted_at IS NULL`,
       [nodeId, userId]
     );
 
@@ -111,18 +126,30 @@ export class AccessRequestService {
       [dto.treeId, dto.userId, dto.requestedLevel]
     );
 
-    const ownerResult = await query<{ ownerUserId: string }>(
-      `SELECT owner_user_id as "ownerUserId" FROM family_trees WHERE tree_id = $1`,
-      [dto.treeId]
+    // Every owner can approve it, co-owners included
+    const ownerResult = await query<{ ownerUserId: string; treeName: string; requesterName: string }>(
+      `SELECT ta.user_id as "ownerUserId", ft.tree_name as "treeName", u.display_name as "requesterName"
+       FROM family_trees ft
+       JOIN tree_access ta ON ta.tree_id = ft.tree_id AND ta.access_level = 'owner'
+       JOIN users u ON u.user_id = $2
+       WHERE ft.tree_id = $1`,
+      [dto.treeId, dto.userId]
     );
 
-    if (ownerResult.rows.length > 0) {
+    for (const owner of ownerResult.rows) {
       await this.notificationService.createNotification({
-        userId: ownerResult.rows[0].ownerUserId,
+        userId: owner.ownerUserId,
         notificationType: NotificationType.ACCESS_REQUEST,
         message: 'A user has requested access to your family tree',
         relatedEntityType: 'access_request',
         relatedEntityId: result.rows[0].requestId,
+        treeId: dto.treeId,
+      });
+      await this.mailService.sendToUser(owner.ownerUserId, MailTemplate.ACCESS_REQUEST, {
+        requesterName: owner.requesterName,
+        treeName: owner.treeName,
+        requestedLevel: dto.requestedLevel as AccessLevel,
+        actionUrl: appUrl(`/trees/${dto.treeId}/access-requests`),
       });
     }
 
@@ -173,6 +200,16 @@ export class AccessRequestService {
 
     await this.accessControl.requireOwnerAccess(request.treeId, userId);
 
+    if (approved) {
+      const requesterResult = await query<{ verified: boolean }>(
+        'SELECT email_verified_at IS NOT NULL as "verified" FROM users WHERE user_id = $1',
+        [request.userId]
+      );
+      if (!requesterResult.rows[0]?.verified) {
+        throw new AppError('The requester has not verified their email address yet', 409, 'EMAIL_NOT_VERIFIED');
+      }
+    }
+
     const status = approved ? AccessRequestStatus.APPROVED : AccessRequestStatus.DENIED;
     const levelToGrant = approved ? (grantedLevel || request.requestedLevel) : null;
 
@@ -183,6 +220,15 @@ export class AccessRequestService {
         levelToGrant as AccessLevel,
         userId
       );
+      // Requests can only be made without existing access, so this always adds a member
+      await this.auditService.record({
+        treeId: request.treeId,
+        entityType: AuditEntityType.TREE_ACCESS,
+        entityId: request.userId,
+        action: AuditAction.CREATE,
+        actorId: userId,
+        after: { accessLevel: levelToGrant },
+      });
     }
 
     await query(
@@ -202,7 +248,21 @@ export class AccessRequestService {
       message,
       relatedEntityType: 'tree',
       relatedEntityId: request.treeId,
+      treeId: request.treeId,
     });
+
+    const treeResult = await query<{ treeName: string }>(
+      'SELECT tree_name as "treeName" FROM family_trees WHERE tree_id = $1',
+      [request.treeId]
+    );
+    if (treeResult.rows.length > 0) {
+      await this.mailService.sendToUser(request.userId, MailTemplate.ACCESS_DECISION, {
+        treeName: treeResult.rows[0].treeName,
+        approved,
+        accessLevel: levelToGrant as AccessLevel | null,
+        actionUrl: appUrl(approved ? `/trees/${request.treeId}` : '/'),
+      });
+    }
   }
 
   async approveAccessRequest(requestId: string, userId: string, grantedLevel?: 'viewer' | 'editor'): Promise<void> {
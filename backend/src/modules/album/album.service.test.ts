@@ -1,11 +1,20 @@
 import { AccessLevel, AlbumSource } from '../../database/interfaces';
 
 const mockQuery = jest.fn();
+const mockRecordAudit = jest.fn();
+const mockRecordAuditMany = jest.fn();
 
 jest.mock('../../config/database', () => ({
   query: (...args: unknown[]) => mockQuery(...args),
 }));
 
+jest.mock('../audit/audit.service', () => ({
+  AuditService: jest.fn().mockImplementation(() => ({
+    record: mockRecordAudit,
+    recordMany: mockRecordAuditMany,
+  })),
+}));
+
 import { AlbumService } from './album.service';
 
 describe('AlbumService', () => {
@@ -13,6 +22,8 @@ describe('AlbumService', () => {
 
   beforeEach(() => {
     mockQuery.mockReset();
+    mockRecordAudit.mockReset();
+    mockRecordAuditMany.mockReset();
     albumService = new AlbumService();
   });
 
@@ -132,7 +143,20 @@ describe('AlbumService', () => {
 
       mockQuery.mockResolvedValueOnce({ rows: [] });
 
-      await expect(albumService.addAlbum(createDto)).rejects.toThrow('Edit access required');
+      await expect(albumService.addAlbum(createDto)).rejects.toMatchObject({ message: 'Access denied', statusCode: 403 });
+    });
+
+    it('should hold editors to the tree\'s two-factor requirement', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR, twoFactorMissing: true }] });
+
+      await expect(albumService.addAlbum({
+        treeId: 'tree123',
+        albumSource: AlbumSource.GOOGLE_DRIVE,
+        albumIdentifier: 'drive-folder-123',
+        albumName: 'Family Photos',
+        userId: 'editor123',
+      })).rejects.toMatchObject({ code: 'TWO_FACTOR_REQUIRED' });
+      expect(mockQuery).toHaveBeenCalledTimes(1);
     });
 
     it('should create PhotoAlbum entity with tree association (Requirements 11.3)', async () => {
@@ -340,7 +364,7 @@ describe('AlbumService', () => {
         .mockResolvedValueOnce({ rows: [album] })
         .mockResolvedValueOnce({ rows: [] });
 
-      await expect(albumService.deleteAlbum(albumId, userId)).rejects.toThrow('Edit access required');
+      await expect(albumService.deleteAlbum(albumId, userId)).rejects.toMatchObject({ message: 'Access denied', statusCode: 403 });
     });
 
     it('should throw error if album not found', async () => {
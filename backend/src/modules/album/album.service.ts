@@ -1,9 +1,13 @@
 import { query } from '../../config/database';
-import { PhotoAlbum, AlbumSource, AccessLevel } from '../../database/interfaces';
+import { PhotoAlbum, AlbumSource, AuditAction, AuditEntityType } from '../../database/interfaces';
 import { AppError } from '../../common/errors/app-error';
+import { AccessControlService } from '../../common/services/access-control.service';
+import { AuditService } from '../audit/audit.service';
 
 export { AlbumSource };
 
+const ALBUM_SELECT_FIELDS = `album_id as "albumId", tree_id as "treeId", album_source as "albumSource", album_identifier as "albumIdentifier", album_name as "albumName", created_by as "createdBy", created_at as "createdAt"`;
+
 interface CreateAlbumDto {
   treeId: string;
   albumSource: AlbumSource;
@@ -13,29 +17,40 @@ interface CreateAlbumDto {
 }
 
 export class AlbumService {
-  async addAlbum(dto: CreateAlbumDto): Promise<PhotoAlbum> {
-    const accessResult = await query<{ accessLevel: AccessLevel }>(
-      'SELECT access_level as "accessLevel" FROM tree_access WHERE tree_id = $1 AND user_id = $2',
-      [dto.treeId, dto.userId]
-    );
+  private accessControl: AccessControlService;
+  private auditService: AuditService;
 
-    if (accessResult.rows.length === 0 || accessResult.rows[0].accessLevel === AccessLevel.VIEWER) {
-      throw new AppError('Edit access required', 403);
-    }
+  constructor() {
+    this.accessControl = new AccessControlService();
+    this.auditService = new AuditService();
+  }
+
+  async addAlbum(dto: CreateAlbumDto): Promise<PhotoAlbum> {
+    await this.accessControl.requireEditAccess(dto.treeId, dto.userId);
 
     const result = await query<PhotoAlbum>(
       `INSERT INTO photo_albums (tree_id, album_source, album_identifier, album_name, created_by)
        VALUES ($1, $2, $3, $4, $5)
-       RETURNING album_id as "albumId", tree_id as "treeId", album_source as "albumSource", album_identifier as "albumIdentifier", album_name as "albumName", created_by as "createdBy", created_at as "createdAt"`,
+       RETURNING ${ALBUM_SELECT_FIELDS}`,
       [dto.treeId, dto.albumSource, dto.albumIdentifier, dto.albumName, dto.userId]
     );
 
-    return result.rows[0];
+    const album = result.rows[0];
+    await this.auditService.record({
+      treeId: dto.treeId,
+      entityType: AuditEntityType.ALBUM,
+      entityId: album.albumId,
+      action: AuditAction.CREATE,
+      actorId: dto.userId,
+      after: album,
+    });
+
+    return album;
   }
 
   async getAlbums(treeId: string, userId: string): Promise<PhotoAlbum[]> {
     const accessResult = await query(
-      'SELECT 1 FROM tree_access WHERE tree_id = $1 AND user_id = $2',
+      'SELECT 1 FROM tree_access ta JOIN family_trees ft ON ft.tree_id = ta.tree_id WHERE ta.tree_id = $1 AND ta.user_id = $2 AND ft.deleted_at IS NULL',
       [treeId, userId]
     );
 
@@ -44,7 +59,7 @@ export class AlbumService {
     }
 
     const result = await query<PhotoAlbum>(
-      `SELECT album_id as "albumId", tree_id as "treeId", album_source as "albumSource", album_identifier as "albumIdentifier", album_name as "albumName", created_by as "createdBy", created_at as "createdAt"
+      `SELECT ${ALBUM_SELECT_FIELDS}
        FROM photo_albums WHERE tree_id = $1`,
       [treeId]
     );
@@ -54,7 +69,7 @@ export class AlbumService {
 
   async deleteAlbum(albumId: string, userId: string): Promise<void> {
     const albumResult = await query<PhotoAlbum>(
-      `SELECT album_id as "albumId", tree_id as "treeId" FROM photo_albums WHERE album_id = $1`,
+      `SELECT ${ALBUM_SELECT_FIELDS} FROM photo_albums WHERE album_id = $1`,
       [albumId]
     );
 
@@ -64,15 +79,16 @@ export class AlbumService {
 
     const album = albumResult.rows[0];
 
-    const accessResult = await query<{ accessLevel: AccessLevel }>(
-      'SELECT access_level as "accessLevel" FROM tree_access WHERE tree_id = $1 AND user_id = $2',
-      [album.treeId, userId]
-    );
-
-    if (accessResult.rows.length === 0 || accessResult.rows[0].accessLevel === AccessLevel.VIEWER) {
-      throw new AppError('Edit access required', 403);
-    }
+    await this.accessControl.requireEditAccess(album.treeId, userId);
 
     await query('DELETE FROM photo_albums WHERE album_id = $1', [albumId]);
+    await this.auditService.record({
+      treeId: album.treeId,
+      entityType: AuditEntityType.ALBUM,
+      entityId: albumId,
+      action: AuditAction.DELETE,
+      actorId: userId,
+      before: album,
+    });
   }
 }
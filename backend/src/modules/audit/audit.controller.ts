@@ -0,0 +1,53 @@
+import { Response, NextFunction } from 'express';
+import { AuditService } from './audit.service';
+import { AuthRequest } from '../../common/middleware/auth.middleware';
+import { pageRequestFromQuery } from '../../common/utils/pagination';
+import { AuditEntityType } from '../../database/interfaces';
+
+export class AuditController {
+  constructor(private auditService: AuditService) {}
+
+  async getTreeHistory(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const history = await this.auditService.getTreeHistory(
+        req.params.treeId,
+        req.userId!,
+        {
+          entityType: req.query.entityType as AuditEntityType | undefined,
+          actorId: req.query.actorId as string | undefined,
+        },
+        pageRequestFromQuery(req.query)
+      );
+      res.json(history);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getNodeHistory(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    await this.getEntityHistory(AuditEntityType.NODE, req.params.nodeId, req, res, next);
+  }
+
+  async getRelationshipHistory(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    await this.getEntityHistory(AuditEntityType.RELATIONSHIP, req.params.relationshipId, req, res, next);
+  }
+
+  async getEventHistory(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    await this.getEntityHistory(AuditEntityType.EVENT, req.params.eventId, req, res, next);
+  }
+
+  private async getEntityHistory(
+    entityType: AuditEntityType,
+    entityId: string,
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const history = await this.auditService.getEntityHistory(entityType, entityId, req.userId!, pageRequestFromQuery(req.query));
+      res.json(history);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
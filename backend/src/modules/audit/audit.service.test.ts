@@ -0,0 +1,174 @@
+import { AccessLevel, AuditAction, AuditEntityType } from '../../database/interfaces';
+
+const mockQuery = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  query: (...args: unknown[]) => mockQuery(...args),
+}));
+
+import { AuditService, diffFields } from './audit.service';
+
+describe('diffFields', () => {
+  it('should list only the fields that changed', () => {
+    const before = { nodeId: 'n1', firstName: 'John', lastName: 'Doe', updatedAt: new Date('2024-01-01') };
+    const after = { nodeId: 'n1', firstName: 'Jon', lastName: 'Doe', updatedAt: new Date('2024-02-01') };
+
+    expect(diffFields(before, after)).toEqual({ firstName: { before: 'John', after: 'Jon' } });
+  });
+
+  it('should compare dates and objects by value', () => {
+    const before = { dateOfBirth: new Date('1950-01-01'), contactInfo: { phone: '123' } };
+
+    expect(diffFields(before, { dateOfBirth: new Date('1950-01-01'), contactInfo: { phone: '123' } })).toEqual({});
+    expect(diffFields(before, { ...before, dateOfBirth: new Date('1951-01-01') })).toEqual({
+      dateOfBirth: { before: '1950-01-01T00:00:00.000Z', after: '1951-01-01T00:00:00.000Z' },
+    });
+  });
+
+  it('should treat a missing side as all fields null', () => {
+    expect(diffFields(null, { title: 'Wedding', location: undefined })).toEqual({
+      title: { before: null, after: 'Wedding' },
+    });
+    expect(diffFields({ title: 'Wedding', createdAt: new Date() }, undefined)).toEqual({
+      title: { before: 'Wedding', after: null },
+    });
+  });
+});
+
+describe('AuditService', () => {
+  let service: AuditService;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    service = new AuditService();
+  });
+
+  describe('record', () => {
+    it('should insert the entry with its field changes', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await service.record({
+        treeId: 'tree1',
+        entityType: AuditEntityType.NODE,
+        entityId: 'node1',
+        action: AuditAction.UPDATE,
+        actorId: 'user1',
+        before: { firstName: 'John' },
+        after: { firstName: 'Jon' },
+      });
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO audit_events'), [expect.any(String)]);
+      expect(JSON.parse(mockQuery.mock.calls[0][1][0])).toEqual([{
+        treeId: 'tree1',
+        entityType: 'node',
+        entityId: 'node1',
+        action: 'update',
+        actorId: 'user1',
+        changes: { firstName: { before: 'John', after: 'Jon' } },
+      }]);
+    });
+
+    it('should skip updates that changed nothing', async () => {
+      await service.record({
+        treeId: 'tree1',
+        entityType: AuditEntityType.NODE,
+        entityId: 'node1',
+        action: AuditAction.UPDATE,
+        actorId: 'user1',
+        before: { firstName: 'John', updatedAt: new Date(1) },
+        after: { firstName: 'John', updatedAt: new Date(2) },
+      });
+
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should write through the transaction client when given', async () => {
+      const client = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+
+      await service.recordMany([
+        { treeId: 'tree1', entityType: AuditEntityType.NODE, entityId: 'node1', action: AuditAction.CREATE, actorId: 'user1', after: { firstName: 'A' } },
+        { treeId: 'tree1', entityType: AuditEntityType.NODE, entityId: 'node2', action: AuditAction.DELETE, actorId: 'user1', before: { firstName: 'B' } },
+      ], client as never);
+
+      expect(mockQuery).not.toHaveBeenCalled();
+      expect(client.query).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(client.query.mock.calls[0][1][0])).toHaveLength(2);
+    });
+  });
+
+  describe('getTreeHistory', () => {
+    it('should page through the tree history with filters', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.VIEWER }] })
+        .mockResolvedValueOnce({
+          rows: [{
+            auditId: 'audit1',
+            treeId: 'tree1',
+            entityType: AuditEntityType.EVENT,
+            entityId: 'event1',
+            action: AuditAction.DELETE,
+            actorId: 'user2',
+            actorName: 'Jane',
+            changes: { title: { before: 'Wedding', after: null } },
+            createdAt: new Date(),
+            cursorValue: '2024-01-01',
+            cursorId: 'audit1',
+            totalEstimate: '1',
+          }],
+        });
+
+      const page = await service.getTreeHistory('tree1', 'user1', { entityType: AuditEntityType.EVENT, actorId: 'user2' });
+
+      expect(page.items).toHaveLength(1);
+      expect(page.items[0]).not.toHaveProperty('cursorValue');
+      expect(page.totalEstimate).toBe(1);
+      expect(page.nextCursor).toBeNull();
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('a.entity_type = $3');
+      expect(sql).toContain('a.actor_id = $4');
+      expect(sql).toContain("n.status = 'published'");
+      expect(params).toEqual(['tree1', 'user1', AuditEntityType.EVENT, 'user2', 51]);
+    });
+
+    it('should deny access without tree access', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await expect(service.getTreeHistory('tree1', 'user1')).rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+
+  describe('getEntityHistory', () => {
+    it('should check access to the tree the entity belongs to', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ treeId: 'tree1' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(service.getEntityHistory(AuditEntityType.NODE, 'node1', 'user1')).rejects.toMatchObject({ statusCode: 403 });
+      expect(mockQuery.mock.calls[1][1]).toEqual(['tree1', 'user1']);
+    });
+
+    it('should return the entity history newest first', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ treeId: 'tree1' }] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const page = await service.getEntityHistory(AuditEntityType.RELATIONSHIP, 'rel1', 'user1');
+
+      expect(page.items).toEqual([]);
+      const [sql, params] = mockQuery.mock.calls[2];
+      expect(sql).toContain('ORDER BY a.created_at DESC, a.audit_id DESC');
+      expect(params.slice(0, 4)).toEqual(['tree1', 'user1', AuditEntityType.RELATIONSHIP, 'rel1']);
+    });
+
+    it('should return an empty page for entities with no recorded history', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      const page = await service.getEntityHistory(AuditEntityType.EVENT, 'event1', 'user1');
+
+      expect(page).toEqual({ items: [], nextCursor: null, totalEstimate: 0 });
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { PoolClient } from 'pg';
+import { query } from '../../config/database';
+import { AuditAction, AuditEntityType, AuditEvent, FieldChange } from '../../database/interfaces';
+import { AccessControlService } from '../../common/services/access-control.service';
+import { Page, PageRequest, PaginationSpec, preparePage, toPage } from '../../common/utils/pagination';
+
+const AUDIT_PAGINATION: PaginationSpec = {
+  sorts: {
+    createdAt: { expression: 'a.created_at', type: 'timestamptz' },
+  },
+  defaultSort: '-createdAt',
+  idColumn: 'a.audit_id',
+};
+
+const AUDIT_SELECT_FIELDS = `a.audit_id as "auditId", a.tree_id as "treeId", a.entity_type as "entityType", a.entity_id as "entityId", a.action, a.actor_id as "actorId", u.display_name as "actorName", a.changes, a.created_at as "createdAt"`;
+
+/**
+ * Hides the history of nodes that are still someone else's draft, matching the
+ * node endpoints. A node deleted while published stays visible.
+ */
+const VISIBLE_TO_USER = `(a.entity_type <> 'node' OR a.actor_id = $2
+  OR EXISTS (SELECT 1 FROM nodes n WHERE n.node_id = a.entity_id AND n.status = 'published')
+  OR EXISTS (SELECT 1 FROM audit_events d WHERE d.entity_type = 'node' AND d.entity_id = a.entity_id AND d.action = 'delete' AND d.changes->'status'->>'before' = 'published'))`;
+
+/** Bookkeeping fields that change on every write and say nothing about the edit */
+const UNTRACKED_FIELDS = new Set(['createdAt', 'updatedAt', 'consolidatedId']);
+
+export interface AuditEntry {
+  treeId: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  actorId: string;
+  /** The entity before the change; omitted for creates */
+  before?: object | null;
+  /** The entity after the change; omitted for deletes */
+  after?: object | null;
+}
+
+export interface HistoryFilter {
+  entityType?: AuditEntityType;
+  actorId?: string;
+}
+
+const normalize = (value: unknown): unknown => {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+};
+
+/**
+ * Field-level differences between two versions of an entity. A missing side counts
+ * as all fields null, so a create lists every field as added and a delete as removed.
+ */
+export function diffFields(before?: object | null, after?: object | null): Record<string, FieldChange> {
+  const from = (before ?? {}) as Record<string, unknown>;
+  const to = (after ?? {}) as Record<string, unknown>;
+  const changes: Record<string, FieldChange> = {};
+
+  for (const field of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    if (UNTRACKED_FIELDS.has(field)) continue;
+
+    const oldValue = normalize(from[field]);
+    const newValue = normalize(to[field]);
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes[field] = { before: oldValue, after: newValue };
+    }
+  }
+
+  return changes;
+}
+
+export class AuditService {
+  private accessControl: AccessControlService;
+
+  constructor() {
+    this.accessControl = new AccessControlService();
+  }
+
+  /**
+   * Appends one entry to the audit log. Pass the transaction client when the change
+   * itself runs in a transaction so the entry commits or rolls back with it.
+   */
+  async record(entry: AuditEntry, client?: PoolClient): Promise<void> {
+    await this.recordMany([entry], client);
+  }
+
+  /**
+   * Appends several entries in one statement. Updates that changed nothing are dropped.
+   */
+  async recordMany(entries: AuditEntry[], client?: PoolClient): Promise<void> {
+    const rows = entries
+      .map(entry => ({
+        treeId: entry.treeId,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        action: entry.action,
+        actorId: entry.actorId,
+        changes: diffFields(entry.before, entry.after),
+      }))
+      .filter(row => row.action !== AuditAction.UPDATE || Object.keys(row.changes).length > 0);
+
+    if (rows.length === 0) return;
+
+    const sql = `INSERT INTO audit_events (tree_id, entity_type, entity_id, action, actor_id, changes)
+       SELECT e."treeId", e."entityType", e."entityId", e.action, e."actorId", e.changes
+       FROM jsonb_to_recordset($1::jsonb) AS e("treeId" uuid, "entityType" varchar, "entityId" uuid, action varchar, "actorId" uuid, changes jsonb)`;
+    const params = [JSON.stringify(rows)];
+
+    if (client) {
+      await client.query(sql, params);
+    } else {
+      await query(sql, params);
+    }
+  }
+
+  async getTreeHistory(treeId: string, userId: string, filter: HistoryFilter = {}, pageRequest: PageRequest = {}): Promise<Page<AuditEvent>> {
+    await this.accessControl.checkAccess(treeId, userId);
+
+    const values: unknown[] = [treeId, userId];
+    const conditions: string[] = [];
+
+    if (filter.entityType) {
+      values.push(filter.entityType);
+      conditions.push(`a.entity_type = $${values.length}`);
+    }
+    if (filter.actorId) {
+      values.push(filter.actorId);
+      conditions.push(`a.actor_id = $${values.length}`);
+    }
+
+    return this.listHistory(conditions, values, pageRequest);
+  }
+
+  /**
+   * History of a single entity, newest first. Entities changed before the audit log
+   * existed have no entries and return an empty page.
+   */
+  async getEntityHistory(entityType: AuditEntityType, entityId: string, userId: string, pageRequest: PageRequest = {}): Promise<Page<AuditEvent>> {
+    const treeResult = await query<{ treeId: string }>(
+      `SELECT tree_id as "treeId" FROM audit_events WHERE entity_type = $1 AND entity_id = $2 LIMIT 1`,
+      [entityType, entityId]
+    );
+
+    if (treeResult.rows.length === 0) {
+      return { items: [], nextCursor: null, totalEstimate: 0 };
+    }
+
+    const treeId = treeResult.rows[0].treeId;
+    await this.accessControl.checkAccess(treeId, userId);
+
+    const values: unknown[] = [treeId, userId, entityType, entityId];
+    return this.listHistory(['a.entity_type = $3', 'a.entity_id = $4'], values, pageRequest);
+  }
+
+  /** `values` must start with the tree id and the requesting user id */
+  private async listHistory(conditions: string[], values: unknown[], pageRequest: PageRequest): Promise<Page<AuditEvent>> {
+    const page = preparePage(pageRequest, AUDIT_PAGINATION, values);
+    if (page.condition) conditions.push(page.condition);
+
+    const result = await query<AuditEvent>(
+      `SELECT ${AUDIT_SELECT_FIELDS}, ${page.columns}
+       FROM audit_events a
+       LEFT JOIN users u ON u.user_id = a.actor_id
+       WHERE a.tree_id = $1 AND ${VISIBLE_TO_USER}${conditions.map(condition => ` AND ${condition}`).join('')}
+       ORDER BY ${page.orderBy}
+       LIMIT ${page.limit}`,
+      values
+    );
+
+    return toPage(result.rows, page);
+  }
+}
@@ -0,0 +1,30 @@
+import { createLogger } from '../../common/logger';
+import { AccountDeletionService } from './account-deletion.service';
+
+const logger = createLogger('account-deletion');
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Purges accounts whose deletion grace period is over, on startup and then
+ * hourly. The timer does not keep the process alive on shutdown.
+ */
+export function startAccountDeletionJob(
+  accountDeletionService: AccountDeletionService = new AccountDeletionService()
+): NodeJS.Timeout {
+  const run = async (): Promise<void> => {
+    try {
+      const purged = await accountDeletionService.purgeDue();
+      if (purged > 0) {
+        logger.info({ purged }, 'Purged deleted accounts');
+      }
+    } catch (error) {
+      logger.error({ err: error }, 'Account deletion run failed');
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,177 @@
+import { AccessLevel, AuditAction } from '../../database/interfaces';
+
+const mockQuery = jest.fn();
+const mockRecordAudit = jest.fn();
+const mockNotifyAccessGranted = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  query: (...args: unknown[]) => mockQuery(...args),
+  transaction: (callback: (client: unknown) => Promise<unknown>) => callback({ query: mockQuery }),
+}));
+
+jest.mock('../audit/audit.service', () => ({
+  AuditService: jest.fn().mockImplementation(() => ({
+    record: mockRecordAudit,
+  })),
+}));
+
+jest.mock('../notification/notification.service', () => ({
+  NotificationService: jest.fn().mockImplementation(() => ({
+    notifyAccessGranted: mockNotifyAccessGranted,
+  })),
+}));
+
+import { AccountDeletionService } from './account-deletion.service';
+
+const scheduled = (treeTransfers: object[] = []) => ({ rows: [{ treeTransfers, email: 'ana@example.com' }] });
+const statements = () => mockQuery.mock.calls.map(([sql]) => sql as string);
+
+describe('AccountDeletionService', () => {
+  let service: AccountDeletionService;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockQuery.mockResolvedValue({ rows: [] });
+    mockRecordAudit.mockReset();
+    mockNotifyAccessGranted.mockReset();
+    service = new AccountDeletionService();
+  });
+
+  describe('schedule', () => {
+    it('should schedule the purge and drop push devices', async () => {
+      const purgeAfter = new Date('2025-07-01T12:00:00Z');
+      mockQuery.mockResolvedValueOnce({ rows: [{ purgeAfter }] });
+
+      await expect(service.schedule('user1')).resolves.toBe(purgeAfter);
+
+      expect(mockQuery.mock.calls[0][1]).toEqual(['user1', 30, '[]']);
+      expect(statements()).toContain('DELETE FROM devices WHERE user_id = $1');
+    });
+
+    it('should refuse to schedule twice', async () => {
+      await expect(service.schedule('user1')).rejects.toMatchObject({ statusCode: 409 });
+      expect(statements()).not.toContain('DELETE FROM devices WHERE user_id = $1');
+    });
+
+    it('should only hand trees to members of trees the user owns', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ treeId: 'tree1' }] });
+
+      await expect(service.schedule('user1', [
+        { treeId: 'tree1', newOwnerUserId: 'user2' },
+        { treeId: 'tree2', newOwnerUserId: 'user3' },
+      ])).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not hand one tree to two people', async () => {
+      await expect(service.schedule('user1', [
+        { treeId: 'tree1', newOwnerUserId: 'user2' },
+        { treeId: 'tree1', newOwnerUserId: 'user3' },
+      ])).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should not hand a tree to the user themselves', async () => {
+      await expect(service.schedule('user1', [{ treeId: 'tree1', newOwnerUserId: 'user1' }]))
+        .rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should store the transfers with the schedule', async () => {
+      const transfers = [{ treeId: 'tree1', newOwnerUserId: 'user2' }];
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ treeId: 'tree1' }] })
+        .mockResolvedValueOnce({ rows: [{ purgeAfter: new Date() }] });
+
+      await service.schedule('user1', transfers);
+
+      expect(mockQuery.mock.calls[1][1]).toEqual(['user1', 30, JSON.stringify(transfers)]);
+    });
+  });
+
+  describe('cancel', () => {
+    it('should report whether there was a deletion to cancel', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ user_id: 'user1' }] });
+
+      await expect(service.cancel('user1')).resolves.toBe(true);
+      await expect(service.cancel('user1')).resolves.toBe(false);
+    });
+  });
+
+  describe('purge', () => {
+    it('should do nothing once the deletion was cancelled', async () => {
+      await expect(service.purge('user1')).resolves.toBeNull();
+      expect(statements().some((sql) => sql.includes('DELETE FROM users'))).toBe(false);
+    });
+
+    it('should hand over chosen trees, delete the rest and then the user', async () => {
+      mockQuery
+        .mockResolvedValueOnce(scheduled([{ treeId: 'tree1', newOwnerUserId: 'user2' }]))
+        .mockResolvedValueOnce({
+          rows: [
+            { treeId: 'tree1', treeName: 'Silva Family', deleted: false },
+            { treeId: 'tree2', treeName: 'Drafts', deleted: false },
+          ],
+        })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] });
+
+      await expect(service.purge('user1')).resolves.toEqual({ treesTransferred: 1, treesDeleted: 1 });
+
+      const sql = statements();
+      expect(sql.some((statement) => statement.includes("SET access_level = 'owner'"))).toBe(true);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('UPDATE family_trees SET owner_user_id'), ['tree1', 'user2']);
+      expect(mockQuery).toHaveBeenCalledWith('DELETE FROM family_trees WHERE tree_id = ANY($1::uuid[])', [['tree2']]);
+      expect(mockRecordAudit).toHaveBeenCalledWith(expect.objectContaining({
+        treeId: 'tree1',
+        action: AuditAction.UPDATE,
+        before: { accessLevel: AccessLevel.EDITOR },
+        after: { accessLevel: AccessLevel.OWNER },
+      }), expect.anything());
+      expect(sql[sql.length - 1]).toBe('DELETE FROM users WHERE user_id = $1');
+      expect(mockNotifyAccessGranted).toHaveBeenCalledWith('user2', 'tree1', 'Silva Family', AccessLevel.OWNER);
+    });
+
+    it('should delete a tree whose chosen owner has since left it', async () => {
+      mockQuery
+        .mockResolvedValueOnce(scheduled([{ treeId: 'tree1', newOwnerUserId: 'user2' }]))
+        .mockResolvedValueOnce({ rows: [{ treeId: 'tree1', treeName: 'Silva Family', deleted: false }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(service.purge('user1')).resolves.toEqual({ treesTransferred: 0, treesDeleted: 1 });
+      expect(mockNotifyAccessGranted).not.toHaveBeenCalled();
+    });
+
+    it('should leave a tree without a chosen owner to its co-owner', async () => {
+      mockQuery
+        .mockResolvedValueOnce(scheduled())
+        .mockResolvedValueOnce({ rows: [{ treeId: 'tree1', treeName: 'Silva Family', deleted: false }] })
+        .mockResolvedValueOnce({ rows: [{ userId: 'user3' }] });
+
+      await expect(service.purge('user1')).resolves.toEqual({ treesTransferred: 1, treesDeleted: 0 });
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('UPDATE family_trees SET owner_user_id'), ['tree1', 'user3']);
+      expect(mockRecordAudit).toHaveBeenCalledWith(expect.objectContaining({
+        before: { ownerUserId: 'user1' },
+        after: { ownerUserId: 'user3' },
+      }), expect.anything());
+    });
+
+    it('should remove the drafts nobody else can see', async () => {
+      mockQuery.mockResolvedValueOnce(scheduled());
+
+      await service.purge('user1');
+
+      expect(mockQuery).toHaveBeenCalledWith(`DELETE FROM nodes WHERE created_by = $1 AND status = 'draft'`, ['user1']);
+    });
+  });
+
+  describe('purgeDue', () => {
+    it('should carry on past an account that fails to purge', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ userId: 'user1' }, { userId: 'user2' }] })
+        .mockRejectedValueOnce(new Error('deadlock'))
+        .mockResolvedValueOnce(scheduled());
+
+      await expect(service.purgeDue()).resolves.toBe(1);
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { query, transaction } from '../../config/database';
+import { AccessLevel, AuditAction, AuditEntityType, TreeTransfer } from '../../database/interfaces';
+import { AppError } from '../../common/errors/app-error';
+import { createLogger } from '../../common/logger';
+import { AuditService } from '../audit/audit.service';
+import { NotificationService } from '../notification/notification.service';
+
+const logger = createLogger('account-deletion-service');
+
+/** Days between asking to delete an account and it being purged */
+export const ACCOUNT_DELETION_GRACE_DAYS = 30;
+/** Accounts purged per run of the job; the rest wait for the next run */
+const PURGE_BATCH_SIZE = 50;
+
+export interface PurgeResult {
+  treesTransferred: number;
+  treesDeleted: number;
+}
+
+/**
+ * Deleting an account: it is scheduled first and purged once the grace period
+ * is over. Purging hands owned trees to the chosen members or a co-owner, or
+ * deletes them, then deletes the user; what they wrote in other trees stays
+ * without their name.
+ */
+export class AccountDeletionService {
+  private auditService: AuditService;
+  private notificationService: NotificationService;
+
+  constructor() {
+    this.auditService = new AuditService();
+    this.notificationService = new NotificationService();
+  }
+
+  /**
+   * Schedules the account to be purged. Each transfer names an owned tree and
+   * a member to hand it to; owned trees without one are deleted. Push devices
+   * are dropped now, since the user is signed out everywhere.
+   */
+  async schedule(userId: string, transfers: TreeTransfer[] = []): Promise<Date> {
+    await this.validateTransfers(userId, transfers);
+
+    const purgeAfter = await transaction(async (client) => {
+      const result = await client.query<{ purgeAfter: Date }>(
+        `INSERT INTO account_deletions (user_id, purge_after, tree_transfers)
+         VALUES ($1, NOW() + make_interval(days => $2), $3)
+         ON CONFLICT (user_id) DO NOTHING
+         RETURNING purge_after as "purgeAfter"`,
+        [userId, ACCOUNT_DELETION_GRACE_DAYS, JSON.stringify(transfers)]
+      );
+      if (result.rows.length === 0) {
+        throw new AppError('Your account is already scheduled for deletion', 409);
+      }
+
+      await client.query('DELETE FROM devices WHERE user_id = $1', [userId]);
+      return result.rows[0].purgeAfter;
+    });
+
+    logger.info({ action: 'scheduleAccountDeletion', userId, purgeAfter, transfers: transfers.length }, 'Account deletion scheduled');
+    return purgeAfter;
+  }
+
+  /** Keeps the account; returns false if it was not scheduled for deletion */
+  async cancel(userId: string): Promise<boolean> {
+    const result = await query('DELETE FROM account_deletions WHERE user_id = $1 RETURNING user_id', [userId]);
+    if (result.rows.length === 0) {
+      return false;
+    }
+    logger.info({ action: 'cancelAccountDeletion', userId }, 'Account deletion cancelled');
+    return true;
+  }
+
+  /** Purges accounts whose grace period is over; returns how many */
+  async purgeDue(): Promise<number> {
+    const due = await query<{ userId: string }>(
+      `SELECT user_id as "userId" FROM account_deletions
+       WHERE purge_after <= NOW()
+       ORDER BY purge_after
+       LIMIT $1`,
+      [PURGE_BATCH_SIZE]
+    );
+
+    let purged = 0;
+    for (const { userId } of due.rows) {
+      try {
+        if (await this.purge(userId)) {
+          purged++;
+        }
+      } catch (error) {
+        // One account failing must not hold up the others; it is retried next run
+        logger.error({ err: error, userId }, 'Account purge failed');
+      }
+    }
+    return purged;
+  }
+
+  /**
+   * Deletes the account for good, if it is still scheduled and due. An owned
+   * tree without a transfer, or whose chosen owner has since left it, goes to
+   * a co-owner if it has one and is deleted otherwise.
+   */
+  async purge(userId: string): Promise<PurgeResult | null> {
+    const transferred: { treeId: string; treeName: string; newOwnerUserId: string }[] = [];
+
+    const result = await transaction(async (client) => {
+      const scheduled = await client.query<{ treeTransfers: TreeTransfer[]; email: string }>(
+        `SELECT d.tree_transfers as "treeTransfers", u.email
+         FROM account_deletions d
+         JOIN users u ON u.user_id = d.user_id
+         WHERE d.user_id = $1 AND d.purge_after <= NOW()
+         FOR UPDATE OF d`,
+        [userId]
+      );
+      if (scheduled.rows.length === 0) {
+        return null;
+      }
+      const { treeTransfers, email } = scheduled.rows[0];
+
+      const owned = await client.query<{ treeId: string; treeName: string; deleted: boolean }>(
+        `SELECT tree_id as "treeId", tree_name as "treeName", deleted_at IS NOT NULL as "deleted"
+         FROM family_trees WHERE owner_user_id = $1
+         FOR UPDATE`,
+        [userId]
+      );
+
+      const toDelete: string[] = [];
+      let inherited = 0;
+      for (const tree of owned.rows) {
+        const transfer = treeTransfers.find((candidate) => candidate.treeId === tree.treeId);
+        const member = transfer && !tree.deleted
+          ? await client.query<{ accessLevel: AccessLevel }>(
+            `SELECT access_level as "accessLevel" FROM tree_access
+             WHERE tree_id = $1 AND user_id = $2
+             FOR UPDATE`,
+            [tree.treeId, transfer.newOwnerUserId]
+          )
+          : null;
+
+        if (!transfer || !member || member.rows.length === 0) {
+          // A tree that already has co-owners stays with the longest-standing one
+          const coOwner = await client.query<{ userId: string }>(
+            `SELECT user_id as "userId" FROM tree_access
+             WHERE tree_id = $1 AND user_id <> $2 AND access_level = 'owner'
+             ORDER BY granted_at
+             LIMIT 1`,
+            [tree.treeId, userId]
+          );
+          if (coOwner.rows.length === 0) {
+            toDelete.push(tree.treeId);
+            continue;
+          }
+
+          await client.query(
+            'UPDATE family_trees SET owner_user_id = $2, updated_at = NOW() WHERE tree_id = $1',
+            [tree.treeId, coOwner.rows[0].userId]
+          );
+          await this.auditService.record({
+            treeId: tree.treeId,
+            entityType: AuditEntityType.TREE,
+            entityId: tree.treeId,
+            action: AuditAction.UPDATE,
+            actorId: userId,
+            before: { ownerUserId: userId },
+            after: { ownerUserId: coOwner.rows[0].userId },
+          }, client);
+          inherited++;
+          continue;
+        }
+
+        await client.query(
+          `UPDATE tree_access SET access_level = 'owner' WHERE tree_id = $1 AND user_id = $2`,
+          [tree.treeId, transfer.newOwnerUserId]
+        );
+        await client.query(
+          'UPDATE family_trees SET owner_user_id = $2, updated_at = NOW() WHERE tree_id = $1',
+          [tree.treeId, transfer.newOwnerUserId]
+        );
+        await this.auditService.record({
+          treeId: tree.treeId,
+          entityType: AuditEntityType.TREE_ACCESS,
+          entityId: transfer.newOwnerUserId,
+          action: AuditAction.UPDATE,
+          actorId: userId,
+          before: { accessLevel: member.rows[0].accessLevel },
+          after: { accessLevel: AccessLevel.OWNER },
+        }, client);
+        transferred.push({ treeId: tree.treeId, treeName: tree.treeName, newOwnerUserId: transfer.newOwnerUserId });
+      }
+
+      if (toDelete.length > 0) {
+        await client.query('DELETE FROM family_trees WHERE tree_id = ANY($1::uuid[])', [toDelete]);
+      }
+
+      // Drafts are only ever shown to their creator, so nobody could see them again
+      await client.query(
+        `DELETE FROM comments WHERE entity_type = 'node'
+           AND entity_id IN (SELECT node_id FROM nodes WHERE created_by = $1 AND status = 'draft')`,
+        [userId]
+      );
+      await client.query(`DELETE FROM nodes WHERE created_by = $1 AND status = 'draft'`, [userId]);
+
+      // Their address also sits in invitations sent to them and in queued mail
+      await client.query('DELETE FROM tree_invitations WHERE LOWER(email) = LOWER($1)', [email]);
+      await client.query('DELETE FROM mail_outbox WHERE LOWER(to_address) = LOWER($1)', [email]);
+      // The rest cascades, or loses its author; see migration 019
+      await client.query('DELETE FROM users WHERE user_id = $1', [userId]);
+
+      return { treesTransferred: transferred.length + inherited, treesDeleted: toDelete.length };
+    });
+
+    if (!result) {
+      return null;
+    }
+
+    logger.info({ action: 'purgeAccount', userId, ...result }, 'Account purged');
+    for (const tree of transferred) {
+      try {
+        await this.notificationService.notifyAccessGranted(tree.newOwnerUserId, tree.treeId, tree.treeName, AccessLevel.OWNER);
+      } catch (error) {
+        logger.error({ err: error, treeId: tree.treeId }, 'Failed to notify new tree owner');
+      }
+    }
+    return result;
+  }
+
+  private async validateTransfers(userId: string, transfers: TreeTransfer[]): Promise<void> {
+    if (transfers.length === 0) {
+      return;
+    }
+
+    for (const transfer of transfers) {
+      if (!transfer || typeof transfer.treeId !== 'string' || typeof transfer.newOwnerUserId !== 'string') {
+        throw new AppError('Each transfer requires a treeId and a newOwnerUserId', 400);
+      }
+    }
+
+    const treeIds = transfers.map((transfer) => transfer.treeId);
+    if (new Set(treeIds).size !== treeIds.length) {
+      throw new AppError('Each tree can only be handed to one person', 400);
+    }
+    if (transfers.some((transfer) => transfer.newOwnerUserId === userId)) {
+      throw new AppError('Choose someone else to hand the tree to', 400);
+    }
+
+    const members = await query<{ treeId: string }>(
+      `SELECT ta.tree_id as "treeId"
+       FROM tree_access ta
+       JOIN family_trees ft ON ft.tree_id = ta.tree_id
+       JOIN UNNEST($2::text[], $3::text[]) AS t(tree_id, user_id)
+         ON t.tree_id = ta.tree_id::text AND t.user_id = ta.user_id::text
+       WHERE ft.owner_user_id = $1 AND ft.deleted_at IS NULL`,
+      [userId, treeIds, transfers.map((transfer) => transfer.newOwnerUserId)]
+    );
+    if (members.rows.length !== transfers.length) {
+      throw new AppError('Trees can only be handed to a member of a tree you own', 400);
+    }
+  }
+}
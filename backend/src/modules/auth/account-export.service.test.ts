@@ -0,0 +1,82 @@
+const mockQuery = jest.fn();
+const mockExportGedcom = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  query: (...args: unknown[]) => mockQuery(...args),
+}));
+
+jest.mock('../gedcom/gedcom.service', () => ({
+  GedcomService: jest.fn().mockImplementation(() => ({
+    exportGedcom: mockExportGedcom,
+  })),
+}));
+
+import { ACCOUNT_EXPORT_VERSION, AccountExportService } from './account-export.service';
+
+async function* chunks(...parts: string[]): AsyncGenerator<string> {
+  yield* parts;
+}
+
+describe('AccountExportService', () => {
+  let service: AccountExportService;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM users u')) {
+        return { rows: [{ userId: 'user1', email: 'ana@example.com', hasPassword: true, twoFactorEnabled: false }] };
+      }
+      if (sql.includes('FROM family_trees WHERE owner_user_id')) {
+        return {
+          rows: [
+            { treeId: 'tree1', treeName: 'Silva Family', deletedAt: null },
+            { treeId: 'tree2', treeName: 'Old Tree', deletedAt: new Date() },
+          ],
+        };
+      }
+      if (sql.includes('FROM comments')) {
+        return { rows: [{ commentId: 'comment1', userId: 'user1', commentText: 'Born in Porto' }] };
+      }
+      return { rows: [] };
+    });
+    mockExportGedcom.mockReset();
+    mockExportGedcom.mockResolvedValue(chunks('0 HEAD\n', '0 TRLR\n'));
+    service = new AccountExportService();
+  });
+
+  it('should collect the profile and what the user wrote', async () => {
+    const archive = await service.exportAccount('user1');
+
+    expect(archive.version).toBe(ACCOUNT_EXPORT_VERSION);
+    expect(archive.profile).toMatchObject({ email: 'ana@example.com', hasPassword: true });
+    expect(archive.comments).toEqual([expect.objectContaining({ commentText: 'Born in Porto' })]);
+    for (const [, params] of mockQuery.mock.calls) {
+      expect(params).toEqual(['user1']);
+    }
+  });
+
+  it('should include owned trees as GEDCOM with drafts and contact info', async () => {
+    const archive = await service.exportAccount('user1');
+
+    expect(archive.ownedTrees[0].gedcom).toBe('0 HEAD\n0 TRLR\n');
+    expect(mockExportGedcom).toHaveBeenCalledWith({
+      treeId: 'tree1',
+      userId: 'user1',
+      includeDrafts: true,
+      includeContactInfo: true,
+    });
+  });
+
+  it('should list trees in the trash without their content', async () => {
+    const archive = await service.exportAccount('user1');
+
+    expect(archive.ownedTrees[1]).toMatchObject({ treeId: 'tree2', gedcom: null });
+    expect(mockExportGedcom).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject an unknown user', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+
+    await expect(service.exportAccount('missing')).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
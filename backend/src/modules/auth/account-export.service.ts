@@ -0,0 +1,204 @@
+import { query } from '../../config/database';
+import {
+  AccessLevel,
+  AuditAction,
+  AuditEntityType,
+  Comment,
+  Notification,
+  NotificationPreference,
+  User,
+} from '../../database/interfaces';
+import { AppError } from '../../common/errors/app-error';
+import { createLogger } from '../../common/logger';
+import { GedcomService } from '../gedcom/gedcom.service';
+import { LinkedIdentity } from './identity.service';
+import { SessionSummary } from './session.service';
+
+const logger = createLogger('account-export-service');
+
+export const ACCOUNT_EXPORT_VERSION = 1;
+
+export interface ExportedTree {
+  treeId: string;
+  treeName: string;
+  description: string | null;
+  createdAt: Date;
+  deletedAt: Date | null;
+  /** The tree's people, families and events as GEDCOM 7, drafts and contact info included; null for deleted trees */
+  gedcom: string | null;
+}
+
+export interface ExportedMembership {
+  treeId: string;
+  treeName: string;
+  accessLevel: AccessLevel;
+  grantedAt: Date;
+}
+
+export interface ExportedAccessRequest {
+  treeId: string;
+  treeName: string;
+  requestedLevel: string;
+  grantedLevel: string | null;
+  status: string;
+  requestedAt: Date;
+  resolvedAt: Date | null;
+}
+
+export interface ExportedActivity {
+  treeId: string;
+  treeName: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  createdAt: Date;
+}
+
+/** Everything RKRoots keeps about a user, as one JSON document */
+export interface AccountExport {
+  version: number;
+  exportedAt: Date;
+  profile: User & { hasPassword: boolean; twoFactorEnabled: boolean };
+  signInMethods: LinkedIdentity[];
+  sessions: Omit<SessionSummary, 'current'>[];
+  devices: { platform: string; createdAt: Date; lastSeenAt: Date }[];
+  notificationPreferences: NotificationPreference[];
+  ownedTrees: ExportedTree[];
+  treeAccess: ExportedMembership[];
+  accessRequests: ExportedAccessRequest[];
+  invitationsRedeemed: { treeId: string; treeName: string; redeemedAt: Date }[];
+  comments: Comment[];
+  notifications: Notification[];
+  /** The user's changes to tree content, from the audit log */
+  activity: ExportedActivity[];
+}
+
+/** Collects a user's personal data for them to download */
+export class AccountExportService {
+  private gedcomService: GedcomService;
+
+  constructor() {
+    this.gedcomService = new GedcomService();
+  }
+
+  async exportAccount(userId: string): Promise<AccountExport> {
+    const profileResult = await query<AccountExport['profile']>(
+      `SELECT u.user_id as "userId", u.email, u.auth_provider as "authProvider", u.display_name as "displayName",
+              u.profile_picture_url as "profilePictureUrl", u.locale, u.email_verified_at as "emailVerifiedAt",
+              u.created_at as "createdAt", u.updated_at as "updatedAt",
+              (SELECT d.purge_after FROM account_deletions d WHERE d.user_id = u.user_id) as "deletionScheduledFor",
+              u.password_hash IS NOT NULL as "hasPassword",
+              EXISTS (SELECT 1 FROM user_two_factor tf WHERE tf.user_id = u.user_id AND tf.enabled_at IS NOT NULL) as "twoFactorEnabled"
+       FROM users u WHERE u.user_id = $1`,
+      [userId]
+    );
+    if (profileResult.rows.length === 0) {
+      throw new AppError('User not found', 404);
+    }
+
+    const [identities, sessions, devices, preferences, trees, access, requests, redemptions, comments, notifications, activity] = await Promise.all([
+      query<LinkedIdentity>(
+        `SELECT identity_id as "identityId", provider, email, created_at as "createdAt", last_used_at as "lastUsedAt"
+         FROM user_identities WHERE user_id = $1 ORDER BY created_at`,
+        [userId]
+      ),
+      query<Omit<SessionSummary, 'current'>>(
+        `SELECT session_id as "sessionId", device_name as "deviceName", user_agent as "userAgent",
+                ip_address as "ipAddress", created_at as "createdAt", last_used_at as "lastUsedAt", expires_at as "expiresAt"
+         FROM auth_sessions WHERE user_id = $1 ORDER BY created_at`,
+        [userId]
+      ),
+      query<AccountExport['devices'][number]>(
+        `SELECT platform, created_at as "createdAt", last_seen_at as "lastSeenAt"
+         FROM devices WHERE user_id = $1 ORDER BY created_at`,
+        [userId]
+      ),
+      query<NotificationPreference>(
+        `SELECT notification_type as "notificationType", delivery, tree_id as "treeId"
+         FROM notification_preferences WHERE user_id = $1`,
+        [userId]
+      ),
+      query<Omit<ExportedTree, 'gedcom'>>(
+        `SELECT tree_id as "treeId", tree_name as "treeName", description, created_at as "createdAt", deleted_at as "deletedAt"
+         FROM family_trees WHERE owner_user_id = $1 ORDER BY created_at`,
+        [userId]
+      ),
+      query<ExportedMembership>(
+        `SELECT ta.tree_id as "treeId", ft.tree_name as "treeName", ta.access_level as "accessLevel", ta.granted_at as "grantedAt"
+         FROM tree_access ta
+         JOIN family_trees ft ON ft.tree_id = ta.tree_id
+         WHERE ta.user_id = $1 ORDER BY ta.granted_at`,
+        [userId]
+      ),
+      query<ExportedAccessRequest>(
+        `SELECT ar.tree_id as "treeId", ft.tree_name as "treeName", ar.requested_level as "requestedLevel",
+                ar.granted_level as "grantedLevel", ar.status, ar.requested_at as "requestedAt", ar.resolved_at as "resolvedAt"
+         FROM access_requests ar
+         JOIN family_trees ft ON ft.tree_id = ar.tree_id
+         WHERE ar.user_id = $1 ORDER BY ar.requested_at`,
+        [userId]
+      ),
+      query<{ treeId: string; treeName: string; redeemedAt: Date }>(
+        `SELECT i.tree_id as "treeId", ft.tree_name as "treeName", r.redeemed_at as "redeemedAt"
+         FROM tree_invitation_redemptions r
+         JOIN tree_invitations i ON i.invitation_id = r.invitation_id
+         JOIN family_trees ft ON ft.tree_id = i.tree_id
+         WHERE r.user_id = $1 ORDER BY r.redeemed_at`,
+        [userId]
+      ),
+      query<Comment>(
+        `SELECT comment_id as "commentId", tree_id as "treeId", entity_type as "entityType", entity_id as "entityId",
+                user_id as "userId", comment_text as "commentText", created_at as "createdAt", updated_at as "updatedAt"
+         FROM comments WHERE user_id = $1 ORDER BY created_at`,
+        [userId]
+      ),
+      query<Notification>(
+        `SELECT notification_id as "notificationId", user_id as "userId", notification_type as "notificationType", message,
+                related_entity_type as "relatedEntityType", related_entity_id as "relatedEntityId", is_read as "isRead",
+                created_at as "createdAt"
+         FROM notifications WHERE user_id = $1 ORDER BY created_at`,
+        [userId]
+      ),
+      query<ExportedActivity>(
+        `SELECT a.tree_id as "treeId", ft.tree_name as "treeName", a.entity_type as "entityType", a.entity_id as "entityId",
+                a.action, a.created_at as "createdAt"
+         FROM audit_events a
+         JOIN family_trees ft ON ft.tree_id = a.tree_id
+         WHERE a.actor_id = $1 ORDER BY a.created_at`,
+        [userId]
+      ),
+    ]);
+
+    const ownedTrees: ExportedTree[] = [];
+    for (const tree of trees.rows) {
+      ownedTrees.push({ ...tree, gedcom: tree.deletedAt ? null : await this.treeGedcom(tree.treeId, userId) });
+    }
+
+    logger.info({ action: 'exportAccount', userId, trees: ownedTrees.length }, 'Account data exported');
+    return {
+      version: ACCOUNT_EXPORT_VERSION,
+      exportedAt: new Date(),
+      profile: profileResult.rows[0],
+      signInMethods: identities.rows,
+      sessions: sessions.rows,
+      devices: devices.rows,
+      notificationPreferences: preferences.rows,
+      ownedTrees,
+      treeAccess: access.rows,
+      accessRequests: requests.rows,
+      invitationsRedeemed: redemptions.rows,
+      comments: comments.rows,
+      notifications: notifications.rows,
+      activity: activity.rows,
+    };
+  }
+
+  private async treeGedcom(treeId: string, userId: string): Promise<string> {
+    const chunks = await this.gedcomService.exportGedcom({ treeId, userId, includeDrafts: true, includeContactInfo: true });
+    let gedcom = '';
+    for await (const chunk of chunks) {
+      gedcom += chunk;
+    }
+    return gedcom;
+  }
+}
@@ -0,0 +1,55 @@
+import { AccountTokenPurpose } from '../../database/interfaces';
+
+const mockQuery = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  query: (...args: unknown[]) => mockQuery(...args),
+}));
+
+import { AccountTokenService, hashAccountToken } from './account-token.service';
+
+describe('AccountTokenService', () => {
+  let service: AccountTokenService;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockQuery.mockResolvedValue({ rows: [], rowCount: 1 });
+    service = new AccountTokenService();
+  });
+
+  describe('issue', () => {
+    it('should replace the user\'s earlier token and store only a hash of the new one', async () => {
+      const token = await service.issue('user1', AccountTokenPurpose.PASSWORD_RESET, 60);
+
+      expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(mockQuery.mock.calls[0]).toEqual([
+        expect.stringContaining('DELETE FROM account_tokens'),
+        ['user1', AccountTokenPurpose.PASSWORD_RESET],
+      ]);
+      const [, params] = mockQuery.mock.calls[1];
+      expect(params).toEqual(['user1', AccountTokenPurpose.PASSWORD_RESET, hashAccountToken(token), 60]);
+      expect(params).not.toContain(token);
+    });
+  });
+
+  describe('consume', () => {
+    it('should use up a valid token and return its user', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ userId: 'user1' }] });
+
+      await expect(service.consume('some-token', AccountTokenPurpose.EMAIL_VERIFICATION)).resolves.toBe('user1');
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('used_at IS NULL AND expires_at > NOW()');
+      expect(params).toEqual([hashAccountToken('some-token'), AccountTokenPurpose.EMAIL_VERIFICATION]);
+    });
+
+    it('should reject a token that is unknown, used or expired', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await expect(service.consume('some-token', AccountTokenPurpose.PASSWORD_RESET)).rejects.toMatchObject({
+        message: 'This link is invalid or has expired',
+        statusCode: 400,
+      });
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { createHash, randomBytes } from 'crypto';
+import { PoolClient } from 'pg';
+import { query } from '../../config/database';
+import { AccountTokenPurpose } from '../../database/interfaces';
+import { AppError } from '../../common/errors/app-error';
+
+export { AccountTokenPurpose };
+
+export const EMAIL_VERIFICATION_TTL_HOURS = 48;
+export const PASSWORD_RESET_TTL_MINUTES = 60;
+
+export function hashAccountToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/** Single-use, expiring tokens sent by email to verify an address or reset a password */
+export class AccountTokenService {
+  /**
+   * Creates a token for the user and returns it. It replaces the user's earlier
+   * token for the same purpose, so only the latest email's link works.
+   */
+  async issue(userId: string, purpose: AccountTokenPurpose, ttlMinutes: number): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+
+    await query(
+      'DELETE FROM account_tokens WHERE user_id = $1 AND purpose = $2',
+      [userId, purpose]
+    );
+    await query(
+      `INSERT INTO account_tokens (user_id, purpose, token_hash, expires_at)
+       VALUES ($1, $2, $3, NOW() + make_interval(mins => $4))`,
+      [userId, purpose, hashAccountToken(token), ttlMinutes]
+    );
+
+    return token;
+  }
+
+  /** Uses up the token and returns its user; throws if it is unknown, used or expired */
+  async consume(token: string, purpose: AccountTokenPurpose, client?: PoolClient): Promise<string> {
+    const sql = `UPDATE account_tokens SET used_at = NOW()
+       WHERE token_hash = $1 AND purpose = $2 AND used_at IS NULL AND expires_at > NOW()
+       RETURNING user_id as "userId"`;
+    const params = [hashAccountToken(token), purpose];
+    const result = client
+      ? await client.query<{ userId: string }>(sql, params)
+      : await query<{ userId: string }>(sql, params);
+
+    if (result.rows.length === 0) {
+      throw new AppError('This link is invalid or has expired', 400, 'INVALID_TOKEN');
+    }
+
+    return result.rows[0].userId;
+  }
+}
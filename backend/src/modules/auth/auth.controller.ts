@@ -1,18 +1,35 @@
 import { Request, Response } from 'express';
 import passport from 'passport';
-import { AuthService, AuthProvider } from './auth.service';
+import { AuthService, AuthProvider, SessionContext } from './auth.service';
+import { IdentityClaims, IdentityTokenVerifier, getIdentityTokenVerifier } from './identity-token.verifier';
 import { AuthRequest } from '../../common/middleware/auth.middleware';
 import { AppError } from '../../common/errors/app-error';
 import { createLogger } from '../../common/logger';
+import { GoogleSignIn } from '../../config/passport';
 
 const logger = createLogger('auth-controller');
 
+/** Describes the device signing in; apps name themselves with an X-Device-Name header */
+function sessionContext(req: Request): SessionContext {
+  const deviceName = req.get('x-device-name');
+  const userAgent = req.get('user-agent');
+  return {
+    deviceName: deviceName ? deviceName.slice(0, 100) : undefined,
+    userAgent: userAgent ? userAgent.slice(0, 500) : undefined,
+    ipAddress: req.ip,
+  };
+}
+
 export class AuthController {
-  constructor(private authService: AuthService) {}
+  constructor(
+    private authService: AuthService,
+    private appleVerifier: IdentityTokenVerifier = getIdentityTokenVerifier('apple'),
+    private googleVerifier: IdentityTokenVerifier = getIdentityTokenVerifier('google')
+  ) {}
 
   async signup(req: Request, res: Response): Promise<void> {
     try {
-      const result = await this.authService.signup(req.body);
+      const result = await this.authService.signup(req.body, sessionContext(req));
       res.status(201).json(result);
     } catch (error) {
       if (error instanceof AppError) {
@@ -26,7 +43,7 @@ export class AuthController {
 
   async login(req: Request, res: Response): Promise<void> {
     try {
-      const result = await this.authService.login(req.body);
+      const result = await this.authService.login(req.body, sessionContext(req));
       res.status(200).json(result);
     } catch (error) {
       if (error instanceof AppError) {
@@ -38,10 +55,26 @@ export class AuthController {
     }
   }
 
+  /** Second step of a login that answered with twoFactorRequired */
+  async completeTwoFactorLogin(req: Request, res: Response): Promise<void> {
+    try {
+      const { challengeToken, code } = req.body;
+      const result = await this.authService.completeTwoFactorLogin(challengeToken, code, sessionContext(req));
+      res.status(200).json(result);
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Two-factor login error');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
   async refresh(req: Request, res: Response): Promise<void> {
     try {
       const { refreshToken } = req.body;
-      const result = await this.authService.refresh(refreshToken);
+      const result = await this.authService.refresh(refreshToken, sessionContext(req));
       res.status(200).json(result);
     } catch (error) {
       if (error instanceof AppError) {
@@ -53,6 +86,364 @@ export class AuthController {
     }
   }
 
+  async logout(req: Request, res: Response): Promise<void> {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      await this.authService.logout(authReq.userId, authReq.sessionId);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Logout error');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
+  async getSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const sessions = await this.authService.listSessions(authReq.userId, authReq.sessionId);
+      res.status(200).json(sessions);
+    } catch (error) {
+      logger.error({ err: error }, 'Get sessions error');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async revokeSession(req: Request, res: Response): Promise<void> {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      await this.authService.revokeSession(authReq.userId, req.params.sessionId);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Revoke session error');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
+  async revokeAllSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      await this.authService.revokeAllSessions(authReq.userId);
+      res.status(204).send();
+    } catch (error) {
+      logger.error({ err: error }, 'Revoke all sessions error');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /** Confirms it's the user, by password or a fresh provider sign-in, before they change how they sign in */
+  async reauthenticate(req: Request, res: Response): Promise<void> {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const { password, provider, token, nonce } = req.body;
+      let result;
+      if (password !== undefined) {
+        result = await this.authService.reauthenticateWithPassword(authReq.userId, authReq.sessionId, password);
+      } else if (provider && token) {
+        const claims = await this.verifierFor(provider).verify(token, nonce);
+        result = await this.authService.reauthenticateWithIdentity(authReq.userId, authReq.sessionId, provider, claims.sub);
+      } else {
+        res.status(400).json({ error: 'Password, or a provider and token, is required' });
+        return;
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Reauthenticate error');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
+  async getIdentities(req: Request, res: Response): Promise<void> {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const methods = await this.authService.getSignInMethods(authReq.userId);
+      res.status(200).json(methods);
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Get identities error');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
+  /** Needs the token from reauthenticate in the X-Reauth-Token header */
+  async linkIdentity(req: Request, res: Response): Promise<void> {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const { provider, token, nonce } = req.body;
+      const reauthToken = req.get('x-reauth-token');
+      // Checked before the provider token, so a missing confirmation is reported first
+      this.authService.verifyReauthToken(authReq.userId, authReq.sessionId, reauthToken);
+      const claims = await this.verifierFor(provider).verify(token, nonce);
+      const identity = await this.authService.linkIdentity(authReq.userId, authReq.sessionId, reauthToken, {
+        provider,
+        providerUserId: claims.sub,
+        email: claims.email,
+      });
+      res.status(201).json(identity);
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Link identity error');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
+  async unlinkIdentity(req: Request, res: Response): Promise<void> {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      await this.authService.unlinkIdentity(
+        authReq.userId,
+        authReq.sessionId,
+        req.get('x-reauth-token'),
+        req.params.identityId
+      );
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Unlink identity error');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
+  async getTwoFactorStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const status = await this.authService.getTwoFactorStatus(authReq.userId);
+      res.status(200).json(status);
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Get two-factor status error');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
+  /** Needs the token from reauthenticate in the X-Reauth-Token header */
+  async setupTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const enrollment = await this.authService.beginTwoFactorEnrollment(
+        authReq.userId,
+        authReq.sessionId,
+        req.get('x-reauth-token')
+      );
+      res.status(200).json(enrollment);
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Set up two-factor error');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
+  async enableTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const recoveryCodes = await this.authService.confirmTwoFactorEnrollment(authReq.userId, req.body.code);
+      res.status(200).json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Enable two-factor error');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
+  async disableTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      await this.authService.disableTwoFactor(authReq.userId, authReq.sessionId, req.get('x-reauth-token'), req.body.code);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Disable two-factor error');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
+  async regenerateRecoveryCodes(req: Request, res: Response): Promise<void> {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const recoveryCodes = await this.authService.regenerateRecoveryCodes(
+        authReq.userId,
+        authReq.sessionId,
+        req.get('x-reauth-token'),
+        req.body.code
+      );
+      res.status(200).json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Regenerate recovery codes error');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
+  /** Needs the token from reauthenticate in the X-Reauth-Token header */
+  async exportAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const archive = await this.authService.exportAccount(authReq.userId, authReq.sessionId, req.get('x-reauth-token'));
+      const date = archive.exportedAt.toISOString().slice(0, 10);
+      res.setHeader('Content-Disposition', `attachment; filename="rkroots-export-${date}.json"`);
+      res.status(200).json(archive);
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Export account error');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
+  /** Needs the token from reauthenticate in the X-Reauth-Token header */
+  async deleteAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const deletionScheduledFor = await this.authService.deleteAccount(
+        authReq.userId,
+        authReq.sessionId,
+        req.get('x-reauth-token'),
+        req.body?.transfers
+      );
+      res.status(202).json({ deletionScheduledFor });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Delete account error');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
+  async restoreAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const user = await this.authService.restoreAccount(authReq.userId);
+      res.status(200).json(user);
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Restore account error');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
   async getProfile(req: Request, res: Response): Promise<void> {
     try {
       const authReq = req as AuthRequest;
@@ -94,140 +485,188 @@ export class AuthController {
     }
   }
 
+  async verifyEmail(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.authService.verifyEmail(req.body.token);
+      res.status(200).json(result);
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Verify email error');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
+  async resendVerification(req: Request, res: Response): Promise<void> {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      await this.authService.requestEmailVerification(authReq.userId);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Resend verification error');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
+  /** Answers the same whether or not the email has an account */
+  async forgotPassword(req: Request, res: Response): Promise<void> {
+    try {
+      await this.authService.forgotPassword(req.body.email);
+      res.status(202).json({ message: 'If an account exists for that email, a reset link is on its way' });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Forgot password error');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
+  async resetPassword(req: Request, res: Response): Promise<void> {
+    try {
+      await this.authService.resetPassword(req.body.token, req.body.newPassword);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Reset password error');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
+  /** An `invitationToken` query parameter is carried through Google as the OAuth state */
   googleAuth(req: Request, res: Response): void {
-    passport.authenticate('google', { scope: ['profile', 'email'] })(req, res);
+    const invitationToken = typeof req.query.invitationToken === 'string' ? req.query.invitationToken : undefined;
+    passport.authenticate('google', { scope: ['profile', 'email'], state: invitationToken })(req, res);
   }
 
   async googleCallback(req: Request, res: Response): Promise<void> {
-    passport.authenticate('google', { session: false }, async (err: Error | null, user: { userId: string } | false) => {
+    passport.authenticate('google', { session: false }, async (err: Error | null, user: GoogleSignIn | false) => {
       if (err || !user) {
         logger.warn({ err }, 'Google OAuth failed');
-        res.redirect(`${process.env.FRONTEND_URL || ''}/auth/error?message=oauth_failed`);
+        const message = err instanceof AppError && err.code === 'ACCOUNT_EXISTS' ? 'account_exists' : 'oauth_failed';
+        res.redirect(`${process.env.FRONTEND_URL || ''}/auth/error?message=${message}`);
         return;
       }
 
-      const tokens = this.authService.generateTokensForUser(user.userId);
-      res.redirect(`${process.env.FRONTEND_URL || ''}/auth/callback?accessToken=${tokens.accessToken}&refreshToken=${tokens.refreshToken}`);
+      try {
+        const session = await this.authService.startSession(user.userId, user.email, user.invitationToken, sessionContext(req));
+        if ('challengeToken' in session) {
+          res.redirect(`${process.env.FRONTEND_URL || ''}/auth/callback?challengeToken=${session.challengeToken}`);
+          return;
+        }
+        res.redirect(`${process.env.FRONTEND_URL || ''}/auth/callback?accessToken=${session.accessToken}&refreshToken=${session.refreshToken}`);
+      } catch (error) {
+        logger.error({ err: error }, 'Google OAuth session error');
+        res.redirect(`${process.env.FRONTEND_URL || ''}/auth/error?message=oauth_failed`);
+      }
     })(req, res);
   }
 
   async appleAuth(req: Request, res: Response): Promise<void> {
     try {
-      const { identityToken, user } = req.body;
+      const { identityToken, nonce, user, invitationToken } = req.body;
 
       if (!identityToken) {
         res.status(400).json({ error: 'Identity token is required' });
         return;
       }
 
-      const appleUser = await this.verifyAppleToken(identityToken, user);
-      if (!appleUser) {
-        res.status(401).json({ error: 'Invalid Apple identity token' });
-        return;
-      }
+      const claims = await this.appleVerifier.verify(identityToken, nonce);
+      const email = this.verifiedEmail(claims) ?? `${claims.sub}@privaterelay.appleid.com`;
+      // Apple shares the name only with the app, on the first sign-in, so it comes from the client
+      const displayName = user?.name
+        ? `${user.name.firstName || ''} ${user.name.lastName || ''}`.trim() || 'Apple User'
+        : 'Apple User';
 
       const result = await this.authService.findOrCreateOAuthUser({
-        email: appleUser.email,
-        displayName: appleUser.displayName,
+        email,
+        displayName,
         authProvider: AuthProvider.APPLE,
-        authProviderId: appleUser.sub,
+        authProviderId: claims.sub,
       });
 
-      const tokens = this.authService.generateTokensForUser(result.userId);
+      const session = await this.authService.startSession(result.userId, email, invitationToken, sessionContext(req));
+      if ('challengeToken' in session) {
+        res.status(200).json(session);
+        return;
+      }
       const user_data = await this.authService.getUserById(result.userId);
-      res.status(200).json({ ...tokens, user: user_data, isNew: result.isNew });
+      res.status(200).json({ ...session, user: user_data, isNew: result.isNew });
     } catch (error) {
-      logger.error({ err: error }, 'Apple auth error');
-      res.status(500).json({ error: 'Internal server error' });
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Apple auth error');
+        res.status(500).json({ error: 'Internal server error' });
+      }
     }
   }
 
   async googleMobileAuth(req: Request, res: Response): Promise<void> {
     try {
-      const { idToken } = req.body;
+      const { idToken, nonce, invitationToken } = req.body;
 
       if (!idToken) {
         res.status(400).json({ error: 'ID token is required' });
         return;
       }
 
-      const googleUser = await this.verifyGoogleIdToken(idToken);
-      if (!googleUser) {
-        res.status(401).json({ error: 'Invalid Google ID token' });
+      const claims = await this.googleVerifier.verify(idToken, nonce);
+      const email = this.verifiedEmail(claims);
+      if (!email) {
+        res.status(401).json({ error: 'Google account email is not verified' });
         return;
       }
 
       const result = await this.authService.findOrCreateOAuthUser({
-        email: googleUser.email,
-        displayName: googleUser.displayName,
+        email,
+        displayName: claims.name || email.split('@')[0],
         authProvider: AuthProvider.GOOGLE,
-        authProviderId: googleUser.sub,
-        profilePictureUrl: googleUser.picture,
+        authProviderId: claims.sub,
+        profilePictureUrl: claims.picture,
       });
 
-      const tokens = this.authService.generateTokensForUser(result.userId);
+      const session = await this.authService.startSession(result.userId, email, invitationToken, sessionContext(req));
+      if ('challengeToken' in session) {
+        res.status(200).json(session);
+        return;
+      }
       const user = await this.authService.getUserById(result.userId);
-      res.status(200).json({ ...tokens, user, isNew: result.isNew });
+      res.status(200).json({ ...session, user, isNew: result.isNew });
     } catch (error) {
-      logger.error({ err: error }, 'Google mobile auth error');
-      res.status(500).json({ error: 'Internal server error' });
-    }
-  }
-
-  private async verifyGoogleIdToken(
-    idToken: string
-  ): Promise<{ email: string; displayName: string; sub: string; picture?: string } | null> {
-    try {
-      const parts = idToken.split('.');
-      if (parts.length !== 3) {
-        return null;
-      }
-
-      const payload = JSON.parse(Buffer.from(parts[1], 'base64').toString());
-      
-      if (!payload.sub || !payload.email) {
-        return null;
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        logger.error({ err: error }, 'Google mobile auth error');
+        res.status(500).json({ error: 'Internal server error' });
       }
-
-      return {
-        email: payload.email,
-        displayName: payload.name || payload.email.split('@')[0],
-        sub: payload.sub,
-        picture: payload.picture,
-      };
-    } catch {
-      return null;
     }
   }
 
-  private async verifyAppleToken(
-    identityToken: string,
-    userData?: { email?: string; name?: { firstName?: string; lastName?: string } }
-  ): Promise<{ email: string; displayName: string; sub: string } | null> {
-    try {
-      const parts = identityToken.split('.');
-      if (parts.length !== 3) {
-        return null;
-      }
-
-      const payload = JSON.parse(Buffer.from(parts[1], 'base64').toString());
-      
-      if (!payload.sub) {
-        return null;
-      }
-
-      const email = payload.email || userData?.email || `${payload.sub}@privaterelay.appleid.com`;
-      const displayName = userData?.name 
-        ? `${userData.name.firstName || ''} ${userData.name.lastName || ''}`.trim() || 'Apple User'
-        : 'Apple User';
+  private verifierFor(provider: AuthProvider.APPLE | AuthProvider.GOOGLE): IdentityTokenVerifier {
+    return provider === AuthProvider.APPLE ? this.appleVerifier : this.googleVerifier;
+  }
 
-      return {
-        email,
-        displayName,
-        sub: payload.sub,
-      };
-    } catch {
-      return null;
-    }
+  /**
+   * The token's email, if the provider vouches for it. Accounts are matched by
+   * email, so an unverified one would let anyone claim someone else's account.
+   */
+  private verifiedEmail(claims: IdentityClaims): string | undefined {
+    return claims.email && claims.emailVerified ? claims.email : undefined;
   }
 }
@@ -1,12 +1,18 @@
 import request from 'supertest';
 import jwt from 'jsonwebtoken';
+import { createHash, generateKeyPairSync } from 'crypto';
+import { IdentityTokenVerifier, JwksKeyCache, StaticJwksSource } from './identity-token.verifier';
+import { totpCode, totpStep } from './totp';
 
 const mockQuery = jest.fn();
 const mockClosePool = jest.fn();
+const mockCacheGet = jest.fn();
+const mockCacheSet = jest.fn();
 
 jest.mock('../../config/database', () => ({
   pool: { query: () => mockQuery() },
   query: (...args: unknown[]) => mockQuery(...args),
+  transaction: (callback: (client: unknown) => Promise<unknown>) => callback({ query: mockQuery }),
   closePool: () => mockClosePool(),
   initializeDatabase: jest.fn().mockResolvedValue(undefined),
 }));
@@ -14,14 +20,56 @@ jest.mock('../../config/database', () => ({
 jest.mock('../../config/redis', () => ({
   connectRedis: jest.fn().mockResolvedValue(undefined),
   getRedisClient: jest.fn().mockReturnValue(null),
+  CacheService: jest.fn().mockImplementation(() => ({
+    get: (...args: unknown[]) => mockCacheGet(...args),
+    set: (...args: unknown[]) => mockCacheSet(...args),
+  })),
 }));
 
+jest.mock('./identity-token.verifier', () => ({
+  ...jest.requireActual('./identity-token.verifier'),
+  getIdentityTokenVerifier: (provider: 'apple' | 'google') => mockIdentityVerifiers[provider],
+}));
+
+// Stands in for Apple's and Google's signing keys
+const mockSigningKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const mockJwks = new StaticJwksSource([{ ...mockSigningKey.publicKey.export({ format: 'jwk' }), kid: 'test-key', use: 'sig' }]);
+const mockIdentityVerifiers = {
+  apple: new IdentityTokenVerifier({
+    provider: 'apple',
+    issuers: ['https://appleid.apple.com'],
+    audiences: ['app.rkroots'],
+    keys: new JwksKeyCache(mockJwks),
+    hashedNonce: true,
+    requireNonce: true,
+  }),
+  google: new IdentityTokenVerifier({
+    provider: 'google',
+    issuers: ['https://accounts.google.com'],
+    audiences: ['google-client-id'],
+    keys: new JwksKeyCache(mockJwks),
+  }),
+};
+
+function signIdentityToken(claims: Record<string, unknown>, issuer: string, audience: string): string {
+  return jwt.sign(claims, mockSigningKey.privateKey, {
+    algorithm: 'RS256',
+    keyid: 'test-key',
+    issuer,
+    audience,
+    expiresIn: '10m',
+  });
+}
+
 import app from '../../app';
 import bcrypt from 'bcrypt';
 
 describe('Auth Integration Tests', () => {
   beforeEach(() => {
     mockQuery.mockReset();
+    mockCacheGet.mockReset();
+    mockCacheGet.mockResolvedValue(null);
+    mockCacheSet.mockReset();
   });
 
   describe('POST /api/v1/auth/signup', () => {
@@ -135,9 +183,9 @@ describe('Auth Integration Tests', () => {
   describe('POST /api/v1/auth/login', () => {
     it('should login with valid credentials and return JWT tokens', async () => {
       const hashedPassword = await bcrypt.hash('ValidPass1!', 12);
-      mockQuery.mockResolvedValueOnce({
-        rows: [{ userId: 'user123', passwordHash: hashedPassword }],
-      });
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ userId: 'user123', passwordHash: hashedPassword }] })
+        .mockResolvedValueOnce({ rows: [] });
 
       const response = await request(app)
         .post('/api/v1/auth/login')
@@ -153,6 +201,44 @@ describe('Auth Integration Tests', () => {
       const decoded = jwt.decode(response.body.accessToken) as { userId: string; exp: number };
       expect(decoded).toHaveProperty('userId');
       expect(decoded).toHaveProperty('exp');
+      expect(decoded).toHaveProperty('sid');
+    });
+
+    it('should record the device the session belongs to', async () => {
+      const hashedPassword = await bcrypt.hash('ValidPass1!', 12);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ userId: 'user123', passwordHash: hashedPassword }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await request(app)
+        .post('/api/v1/auth/login')
+        .set('X-Device-Name', "Ana's iPhone")
+        .set('User-Agent', 'RKRoots/1.0')
+        .send({ email: 'test@example.com', password: 'ValidPass1!' });
+
+      const sessionInsert = mockQuery.mock.calls.find(([sql]) => String(sql).includes('INSERT INTO auth_sessions'));
+      expect(sessionInsert?.[1][3]).toBe("Ana's iPhone");
+      expect(sessionInsert?.[1][4]).toBe('RKRoots/1.0');
+    });
+
+    it('should ask for the two-factor code before issuing tokens', async () => {
+      const hashedPassword = await bcrypt.hash('ValidPass1!', 4);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ userId: 'user123', passwordHash: hashedPassword }] })
+        .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] });
+
+      const response = await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: 'test@example.com', password: 'ValidPass1!' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.twoFactorRequired).toBe(true);
+      expect(response.body).not.toHaveProperty('accessToken');
+
+      const profile = await request(app)
+        .get('/api/v1/auth/profile')
+        .set('Authorization', `Bearer ${response.body.challengeToken}`);
+      expect(profile.status).toBe(401);
     });
 
     it('should reject invalid password', async () => {
@@ -185,13 +271,71 @@ describe('Auth Integration Tests', () => {
     });
   });
 
+  describe('POST /api/v1/auth/login/two-factor', () => {
+    const secret = 'JBSWY3DPEHPK3PXP';
+    const challengeToken = () => jwt.sign(
+      { userId: 'user123', purpose: 'two_factor' },
+      process.env.JWT_SECRET || 'secret',
+      { expiresIn: '5m' }
+    );
+
+    it('should finish the login with a code from the authenticator app', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ totpSecret: secret, lastUsedStep: 0, lockedUntil: null }] })
+        .mockResolvedValueOnce({ rows: [{ user_id: 'user123' }] })
+        .mockResolvedValueOnce({ rows: [{ userId: 'user123', email: 'test@example.com' }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const response = await request(app)
+        .post('/api/v1/auth/login/two-factor')
+        .send({ challengeToken: challengeToken(), code: totpCode(secret, totpStep()) });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('accessToken');
+      expect(response.body.user.userId).toBe('user123');
+    });
+
+    it('should reject a wrong code', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ totpSecret: secret, lastUsedStep: 0, lockedUntil: null }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ locked: false }] });
+
+      const response = await request(app)
+        .post('/api/v1/auth/login/two-factor')
+        .send({ challengeToken: challengeToken(), code: 'zzzz-zzzz' });
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('Invalid code');
+    });
+
+    it('should reject an expired challenge', async () => {
+      const expired = jwt.sign(
+        { userId: 'user123', purpose: 'two_factor' },
+        process.env.JWT_SECRET || 'secret',
+        { expiresIn: -10 }
+      );
+
+      const response = await request(app)
+        .post('/api/v1/auth/login/two-factor')
+        .send({ challengeToken: expired, code: '123456' });
+
+      expect(response.status).toBe(401);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
   describe('POST /api/v1/auth/refresh', () => {
+    const sessionId = '11111111-1111-4111-8111-111111111111';
+
     it('should refresh tokens with valid refresh token', async () => {
       const refreshToken = jwt.sign(
-        { userId: 'user123' },
+        { userId: 'user123', sid: sessionId },
         process.env.JWT_REFRESH_SECRET || 'refresh-secret',
         { expiresIn: '7d' }
       );
+      mockQuery.mockResolvedValueOnce({ rows: [{ sessionId }] });
 
       const response = await request(app)
         .post('/api/v1/auth/refresh')
@@ -200,6 +344,41 @@ describe('Auth Integration Tests', () => {
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('accessToken');
       expect(response.body).toHaveProperty('refreshToken');
+      expect(response.body.refreshToken).not.toBe(refreshToken);
+    });
+
+    it('should revoke the session when a rotated-out token is replayed', async () => {
+      const refreshToken = jwt.sign(
+        { userId: 'user123', sid: sessionId },
+        process.env.JWT_REFRESH_SECRET || 'refresh-secret',
+        { expiresIn: '7d' }
+      );
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ sessionId }] });
+
+      const response = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken });
+
+      expect(response.status).toBe(401);
+      expect(mockQuery.mock.calls[1][1][0]).toBe('reuse');
+      expect(mockCacheSet).toHaveBeenCalledWith(`revoked-session:${sessionId}`, true, 3600);
+    });
+
+    it('should reject a refresh token issued before sessions', async () => {
+      const refreshToken = jwt.sign(
+        { userId: 'user123' },
+        process.env.JWT_REFRESH_SECRET || 'refresh-secret',
+        { expiresIn: '7d' }
+      );
+
+      const response = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken });
+
+      expect(response.status).toBe(401);
+      expect(mockQuery).not.toHaveBeenCalled();
     });
 
     it('should reject invalid refresh token', async () => {
@@ -211,6 +390,304 @@ describe('Auth Integration Tests', () => {
     });
   });
 
+  describe('Sessions', () => {
+    const sessionId = '11111111-1111-4111-8111-111111111111';
+    const otherSessionId = '22222222-2222-4222-8222-222222222222';
+    const accessToken = () => jwt.sign(
+      { userId: 'user123', sid: sessionId },
+      process.env.JWT_SECRET || 'secret',
+      { expiresIn: '1h' }
+    );
+
+    it('should turn away access tokens of a revoked session', async () => {
+      mockCacheGet.mockResolvedValueOnce(true);
+
+      const response = await request(app)
+        .get('/api/v1/auth/profile')
+        .set('Authorization', `Bearer ${accessToken()}`);
+
+      expect(response.status).toBe(401);
+      expect(response.body.error.code).toBe('SESSION_REVOKED');
+      expect(mockCacheGet).toHaveBeenCalledWith(`revoked-session:${sessionId}`);
+    });
+
+    it('should let requests through when Redis is unavailable', async () => {
+      mockCacheGet.mockRejectedValueOnce(new Error('connection refused'));
+      mockQuery.mockResolvedValueOnce({ rows: [{ userId: 'user123', email: 'test@example.com' }] });
+
+      const response = await request(app)
+        .get('/api/v1/auth/profile')
+        .set('Authorization', `Bearer ${accessToken()}`);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should log out the current session', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ sessionId }] });
+
+      const response = await request(app)
+        .post('/api/v1/auth/logout')
+        .set('Authorization', `Bearer ${accessToken()}`);
+
+      expect(response.status).toBe(204);
+      expect(mockQuery.mock.calls[0][1]).toEqual(['logout', sessionId, 'user123']);
+      expect(mockCacheSet).toHaveBeenCalledWith(`revoked-session:${sessionId}`, true, 3600);
+    });
+
+    it('should list sessions and flag the current one', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          { sessionId, deviceName: "Ana's iPhone", lastUsedAt: new Date().toISOString() },
+          { sessionId: otherSessionId, deviceName: 'Pixel 8', lastUsedAt: new Date().toISOString() },
+        ],
+      });
+
+      const response = await request(app)
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${accessToken()}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.map((session: { current: boolean }) => session.current)).toEqual([true, false]);
+    });
+
+    it('should revoke another session', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ sessionId: otherSessionId }] });
+
+      const response = await request(app)
+        .delete(`/api/v1/auth/sessions/${otherSessionId}`)
+        .set('Authorization', `Bearer ${accessToken()}`);
+
+      expect(response.status).toBe(204);
+      expect(mockQuery.mock.calls[0][1]).toEqual(['revoked', otherSessionId, 'user123']);
+    });
+
+    it('should return 404 for a session of someone else', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      const response = await request(app)
+        .delete(`/api/v1/auth/sessions/${otherSessionId}`)
+        .set('Authorization', `Bearer ${accessToken()}`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Session not found');
+    });
+
+    it('should sign out of every session', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ sessionId }, { sessionId: otherSessionId }] });
+
+      const response = await request(app)
+        .delete('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${accessToken()}`);
+
+      expect(response.status).toBe(204);
+      expect(mockCacheSet).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Sign-in methods', () => {
+    const sessionId = '11111111-1111-4111-8111-111111111111';
+    const identityId = '33333333-3333-4333-8333-333333333333';
+    const secret = process.env.JWT_SECRET || 'secret';
+    const accessToken = () => jwt.sign({ userId: 'user123', sid: sessionId }, secret, { expiresIn: '1h' });
+    const reauthToken = () => jwt.sign({ userId: 'user123', sid: sessionId, purpose: 'reauth' }, secret, { expiresIn: '5m' });
+    const googleToken = (sub = 'google123') => signIdentityToken(
+      { sub, email: 'google@example.com', email_verified: true },
+      'https://accounts.google.com',
+      'google-client-id'
+    );
+
+    it('should list the linked providers', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ hasPassword: true }] })
+        .mockResolvedValueOnce({ rows: [{ identityId, provider: 'google', email: 'google@example.com' }] });
+
+      const response = await request(app)
+        .get('/api/v1/auth/identities')
+        .set('Authorization', `Bearer ${accessToken()}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.hasPassword).toBe(true);
+      expect(response.body.identities).toHaveLength(1);
+    });
+
+    it('should issue a reauth token for the right password', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ passwordHash: await bcrypt.hash('CurrentPass1!', 4) }] });
+
+      const response = await request(app)
+        .post('/api/v1/auth/reauthenticate')
+        .set('Authorization', `Bearer ${accessToken()}`)
+        .send({ password: 'CurrentPass1!' });
+
+      expect(response.status).toBe(200);
+      expect(jwt.decode(response.body.reauthToken)).toMatchObject({ userId: 'user123', sid: sessionId, purpose: 'reauth' });
+    });
+
+    it('should reauthenticate with a fresh sign-in to a linked provider', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ userId: 'user123' }] });
+
+      const response = await request(app)
+        .post('/api/v1/auth/reauthenticate')
+        .set('Authorization', `Bearer ${accessToken()}`)
+        .send({ provider: 'google', token: googleToken() });
+
+      expect(response.status).toBe(200);
+      expect(mockQuery.mock.calls[0][1]).toEqual(['google', 'google123']);
+    });
+
+    it('should not take a reauth token as an access token', async () => {
+      const response = await request(app)
+        .get('/api/v1/auth/profile')
+        .set('Authorization', `Bearer ${reauthToken()}`);
+
+      expect(response.status).toBe(401);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should link a provider after reauthentication', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ identityId, provider: 'google', email: 'google@example.com' }] });
+
+      const response = await request(app)
+        .post('/api/v1/auth/identities')
+        .set('Authorization', `Bearer ${accessToken()}`)
+        .set('X-Reauth-Token', reauthToken())
+        .send({ provider: 'google', token: googleToken() });
+
+      expect(response.status).toBe(201);
+      expect(response.body.identityId).toBe(identityId);
+      expect(mockQuery.mock.calls[0][1]).toEqual(['user123', 'google', 'google123', 'google@example.com']);
+    });
+
+    it('should refuse to link without reauthentication', async () => {
+      const response = await request(app)
+        .post('/api/v1/auth/identities')
+        .set('Authorization', `Bearer ${accessToken()}`)
+        .send({ provider: 'google', token: googleToken() });
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('Please confirm it\'s you first');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to link a provider account that belongs to someone else', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ userId: 'other-user', providerUserId: 'google123' }] });
+
+      const response = await request(app)
+        .post('/api/v1/auth/identities')
+        .set('Authorization', `Bearer ${accessToken()}`)
+        .set('X-Reauth-Token', reauthToken())
+        .send({ provider: 'google', token: googleToken() });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should unlink a provider after reauthentication', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ hasPassword: true }] })
+        .mockResolvedValueOnce({ rows: [{ identityId }] })
+        .mockResolvedValueOnce({ rowCount: 1 });
+
+      const response = await request(app)
+        .delete(`/api/v1/auth/identities/${identityId}`)
+        .set('Authorization', `Bearer ${accessToken()}`)
+        .set('X-Reauth-Token', reauthToken());
+
+      expect(response.status).toBe(204);
+    });
+
+    it('should keep the only way left to sign in', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ hasPassword: false }] })
+        .mockResolvedValueOnce({ rows: [{ identityId }] });
+
+      const response = await request(app)
+        .delete(`/api/v1/auth/identities/${identityId}`)
+        .set('Authorization', `Bearer ${accessToken()}`)
+        .set('X-Reauth-Token', reauthToken());
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe('Account deletion and export', () => {
+    const sessionId = '11111111-1111-4111-8111-111111111111';
+    const secret = process.env.JWT_SECRET || 'secret';
+    const accessToken = () => jwt.sign({ userId: 'user123', sid: sessionId }, secret, { expiresIn: '1h' });
+    const reauthToken = () => jwt.sign({ userId: 'user123', sid: sessionId, purpose: 'reauth' }, secret, { expiresIn: '5m' });
+
+    it('should schedule the deletion after reauthentication', async () => {
+      const purgeAfter = new Date('2025-07-01T12:00:00Z');
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ userId: 'user123', email: 'test@example.com', displayName: 'Test', locale: 'en' }] })
+        .mockResolvedValueOnce({ rows: [{ purgeAfter }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ mailId: 'mail1' }] })
+        .mockResolvedValue({ rows: [] });
+
+      const response = await request(app)
+        .delete('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${accessToken()}`)
+        .set('X-Reauth-Token', reauthToken());
+
+      expect(response.status).toBe(202);
+      expect(response.body.deletionScheduledFor).toBe(purgeAfter.toISOString());
+    });
+
+    it('should refuse to delete without reauthentication', async () => {
+      const response = await request(app)
+        .delete('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${accessToken()}`);
+
+      expect(response.status).toBe(401);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should reject transfers that are not a list', async () => {
+      const response = await request(app)
+        .delete('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${accessToken()}`)
+        .set('X-Reauth-Token', reauthToken())
+        .send({ transfers: 'tree1' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should keep an account that is not scheduled for deletion as it is', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      const response = await request(app)
+        .post('/api/v1/auth/me/restore')
+        .set('Authorization', `Bearer ${accessToken()}`);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should download the export as a JSON file', async () => {
+      mockQuery.mockImplementation(async (sql: string) =>
+        sql.includes('FROM users u') ? { rows: [{ userId: 'user123', email: 'test@example.com' }] } : { rows: [] }
+      );
+
+      const response = await request(app)
+        .get('/api/v1/auth/me/export')
+        .set('Authorization', `Bearer ${accessToken()}`)
+        .set('X-Reauth-Token', reauthToken());
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-disposition']).toMatch(/^attachment; filename="rkroots-export-\d{4}-\d{2}-\d{2}\.json"$/);
+      expect(response.body.profile.email).toBe('test@example.com');
+    });
+
+    it('should refuse to export without reauthentication', async () => {
+      const response = await request(app)
+        .get('/api/v1/auth/me/export')
+        .set('Authorization', `Bearer ${accessToken()}`);
+
+      expect(response.status).toBe(401);
+    });
+  });
+
   describe('GET /api/v1/auth/profile', () => {
     it('should return user profile without password_hash', async () => {
       const accessToken = jwt.sign(
@@ -371,6 +848,42 @@ describe('Auth Integration Tests', () => {
     });
   });
 
+  describe('POST /api/v1/auth/forgot-password', () => {
+    it('should answer the same for an email without an account', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      const response = await request(app)
+        .post('/api/v1/auth/forgot-password')
+        .send({ email: 'nobody@example.com' });
+
+      expect(response.status).toBe(202);
+      expect(response.body.message).toContain('If an account exists');
+    });
+  });
+
+  describe('POST /api/v1/auth/reset-password', () => {
+    it('should reject a token that is invalid or already used', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      const response = await request(app)
+        .post('/api/v1/auth/reset-password')
+        .send({ token: 'used-token-abcdefghij', newPassword: 'NewValidPass1!' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('This link is invalid or has expired');
+    });
+  });
+
+  describe('POST /api/v1/auth/verify-email', () => {
+    it('should require a token', async () => {
+      const response = await request(app)
+        .post('/api/v1/auth/verify-email')
+        .send({});
+
+      expect(response.status).toBe(400);
+    });
+  });
+
   describe('OAuth Flows (Mocked)', () => {
     describe('GET /api/v1/auth/google', () => {
       it('should handle Google OAuth endpoint', async () => {
@@ -383,20 +896,35 @@ describe('Auth Integration Tests', () => {
     });
 
     describe('POST /api/v1/auth/apple', () => {
+      const appleToken = (claims: Record<string, unknown> = {}) => signIdentityToken(
+        {
+          sub: 'apple123',
+          email: 'apple@example.com',
+          email_verified: 'true',
+          nonce: createHash('sha256').update('raw-nonce').digest('hex'),
+          ...claims,
+        },
+        'https://appleid.apple.com',
+        'app.rkroots'
+      );
+
       it('should handle Apple OAuth with valid identity token', async () => {
-        const payload = { sub: 'apple123', email: 'apple@example.com' };
-        const mockToken = `header.${Buffer.from(JSON.stringify(payload)).toString('base64')}.signature`;
 
         mockQuery
           .mockResolvedValueOnce({ rows: [] })
           .mockResolvedValueOnce({ rows: [] })
           .mockResolvedValueOnce({ rows: [{ userId: 'new123' }] })
+          .mockResolvedValueOnce({ rows: [{ identityId: 'identity1', provider: 'apple' }] })
+          .mockResolvedValueOnce({ rows: [] })
+          .mockResolvedValueOnce({ rows: [] })
+          .mockResolvedValueOnce({ rows: [] })
           .mockResolvedValueOnce({ rows: [{ userId: 'new123', email: 'apple@example.com', displayName: 'Apple User' }] });
 
         const response = await request(app)
           .post('/api/v1/auth/apple')
           .send({
-            identityToken: mockToken,
+            identityToken: appleToken(),
+            nonce: 'raw-nonce',
             user: {
               email: 'apple@example.com',
               name: { firstName: 'Apple', lastName: 'User' },
@@ -408,6 +936,64 @@ describe('Auth Integration Tests', () => {
         expect(response.body).toHaveProperty('refreshToken');
         expect(response.body).toHaveProperty('user');
         expect(response.body.user.userId).toBe('new123');
+        expect(mockQuery.mock.calls[0][1]).toEqual(['apple', 'apple123']);
+      });
+
+      it('should not sign in to an existing account that has not linked Apple', async () => {
+        mockQuery
+          .mockResolvedValueOnce({ rows: [] })
+          .mockResolvedValueOnce({ rows: [{ userId: 'email123' }] });
+
+        const response = await request(app)
+          .post('/api/v1/auth/apple')
+          .send({ identityToken: appleToken(), nonce: 'raw-nonce' });
+
+        expect(response.status).toBe(409);
+        expect(response.body.error).toContain('link Apple from your profile');
+        expect(mockQuery).toHaveBeenCalledTimes(2);
+      });
+
+      it('should reject a forged token that is not signed by Apple', async () => {
+        const payload = { sub: 'apple123', email: 'victim@example.com', iss: 'https://appleid.apple.com', aud: 'app.rkroots' };
+        const forged = `${Buffer.from('{"alg":"RS256","kid":"test-key"}').toString('base64url')}.${Buffer.from(JSON.stringify(payload)).toString('base64url')}.signature`;
+
+        const response = await request(app)
+          .post('/api/v1/auth/apple')
+          .send({ identityToken: forged, nonce: 'raw-nonce' });
+
+        expect(response.status).toBe(401);
+        expect(mockQuery).not.toHaveBeenCalled();
+      });
+
+      it('should reject a token replayed with another nonce', async () => {
+        const response = await request(app)
+          .post('/api/v1/auth/apple')
+          .send({ identityToken: appleToken(), nonce: 'other-nonce' });
+
+        expect(response.status).toBe(401);
+        expect(mockQuery).not.toHaveBeenCalled();
+      });
+
+      it('should ignore an email the client claims but the token lacks', async () => {
+        mockQuery
+          .mockResolvedValueOnce({ rows: [] })
+          .mockResolvedValueOnce({ rows: [] })
+          .mockResolvedValueOnce({ rows: [{ userId: 'new123' }] })
+          .mockResolvedValueOnce({ rows: [{ identityId: 'identity1', provider: 'apple' }] })
+          .mockResolvedValueOnce({ rows: [] })
+          .mockResolvedValueOnce({ rows: [] })
+          .mockResolvedValueOnce({ rows: [] })
+          .mockResolvedValueOnce({ rows: [{ userId: 'new123' }] });
+
+        await request(app)
+          .post('/api/v1/auth/apple')
+          .send({
+            identityToken: appleToken({ email: undefined, email_verified: undefined }),
+            nonce: 'raw-nonce',
+            user: { email: 'victim@example.com' },
+          });
+
+        expect(mockQuery.mock.calls[1][1]).toEqual(['apple123@privaterelay.appleid.com']);
       });
 
       it('should reject missing identity token', async () => {
@@ -432,19 +1018,27 @@ describe('Auth Integration Tests', () => {
     });
 
     describe('POST /api/v1/auth/google/mobile', () => {
+      const googleToken = (claims: Record<string, unknown> = {}) => signIdentityToken(
+        { sub: 'google123', email: 'google@example.com', email_verified: true, name: 'Google User', ...claims },
+        'https://accounts.google.com',
+        'google-client-id'
+      );
+
       it('should handle Google mobile OAuth with valid ID token', async () => {
-        const payload = { sub: 'google123', email: 'google@example.com', name: 'Google User' };
-        const mockToken = `header.${Buffer.from(JSON.stringify(payload)).toString('base64')}.signature`;
 
         mockQuery
           .mockResolvedValueOnce({ rows: [] })
           .mockResolvedValueOnce({ rows: [] })
           .mockResolvedValueOnce({ rows: [{ userId: 'new123' }] })
+          .mockResolvedValueOnce({ rows: [{ identityId: 'identity1', provider: 'google' }] })
+          .mockResolvedValueOnce({ rows: [] })
+          .mockResolvedValueOnce({ rows: [] })
+          .mockResolvedValueOnce({ rows: [] })
           .mockResolvedValueOnce({ rows: [{ userId: 'new123', email: 'google@example.com', displayName: 'Google User' }] });
 
         const response = await request(app)
           .post('/api/v1/auth/google/mobile')
-          .send({ idToken: mockToken });
+          .send({ idToken: googleToken() });
 
         expect(response.status).toBe(200);
         expect(response.body).toHaveProperty('accessToken');
@@ -468,6 +1062,26 @@ describe('Auth Integration Tests', () => {
 
         expect(response.status).toBe(401);
       });
+
+      it('should reject a token issued to another app', async () => {
+        const token = signIdentityToken({ sub: 'google123', email: 'google@example.com', email_verified: true }, 'https://accounts.google.com', 'someone-else');
+
+        const response = await request(app)
+          .post('/api/v1/auth/google/mobile')
+          .send({ idToken: token });
+
+        expect(response.status).toBe(401);
+      });
+
+      it('should refuse an account whose email Google has not verified', async () => {
+        const response = await request(app)
+          .post('/api/v1/auth/google/mobile')
+          .send({ idToken: googleToken({ email_verified: false }) });
+
+        expect(response.status).toBe(401);
+        expect(response.body.error).toBe('Google account email is not verified');
+        expect(mockQuery).not.toHaveBeenCalled();
+      });
     });
   });
 });
@@ -1,20 +1,127 @@
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
-import { AuthProvider } from '../../database/interfaces';
+import { AccountTokenPurpose, AuthProvider, MailTemplate, SessionRevokedReason } from '../../database/interfaces';
+import { AppError } from '../../common/errors/app-error';
 
 const mockQuery = jest.fn();
+const mockRedeemForUser = jest.fn();
+const mockIssueToken = jest.fn();
+const mockConsumeToken = jest.fn();
+const mockSendMail = jest.fn();
+const mockCreateSession = jest.fn();
+const mockRotate = jest.fn();
+const mockRevokeSession = jest.fn();
+const mockRevokeAllSessions = jest.fn();
+const mockListSessions = jest.fn();
+const mockFindIdentityUserId = jest.fn();
+const mockLinkIdentity = jest.fn();
+const mockUnlinkIdentity = jest.fn();
+const mockTwoFactorEnabled = jest.fn();
+const mockVerifyTwoFactor = jest.fn();
+const mockDisableTwoFactor = jest.fn();
+const mockScheduleDeletion = jest.fn();
+const mockCancelDeletion = jest.fn();
 
 jest.mock('../../config/database', () => ({
   query: (...args: unknown[]) => mockQuery(...args),
+  transaction: (callback: (client: unknown) => Promise<unknown>) => callback({ query: mockQuery }),
 }));
 
-import { AuthService, validatePassword } from './auth.service';
+jest.mock('./account-token.service', () => ({
+  ...jest.requireActual('./account-token.service'),
+  AccountTokenService: jest.fn().mockImplementation(() => ({
+    issue: mockIssueToken,
+    consume: mockConsumeToken,
+  })),
+}));
+
+jest.mock('./session.service', () => ({
+  ...jest.requireActual('./session.service'),
+  SessionService: jest.fn().mockImplementation(() => ({
+    createSession: mockCreateSession,
+    rotate: mockRotate,
+    revokeSession: mockRevokeSession,
+    revokeAllSessions: mockRevokeAllSessions,
+    listSessions: mockListSessions,
+  })),
+}));
+
+jest.mock('./identity.service', () => ({
+  ...jest.requireActual('./identity.service'),
+  IdentityService: jest.fn().mockImplementation(() => ({
+    findUserId: mockFindIdentityUserId,
+    link: mockLinkIdentity,
+    unlink: mockUnlinkIdentity,
+  })),
+}));
+
+jest.mock('./two-factor.service', () => ({
+  ...jest.requireActual('./two-factor.service'),
+  TwoFactorService: jest.fn().mockImplementation(() => ({
+    isEnabled: mockTwoFactorEnabled,
+    verify: mockVerifyTwoFactor,
+    disable: mockDisableTwoFactor,
+  })),
+}));
+
+jest.mock('./account-deletion.service', () => ({
+  ...jest.requireActual('./account-deletion.service'),
+  AccountDeletionService: jest.fn().mockImplementation(() => ({
+    schedule: mockScheduleDeletion,
+    cancel: mockCancelDeletion,
+  })),
+}));
+
+jest.mock('./account-export.service', () => ({
+  AccountExportService: jest.fn().mockImplementation(() => ({})),
+}));
+
+jest.mock('../mail/mail.service', () => ({
+  MailService: jest.fn().mockImplementation(() => ({
+    send: mockSendMail,
+  })),
+  appUrl: (path: string) => `https://app.example.com${path}`,
+}));
+
+jest.mock('../invitation/invitation.service', () => ({
+  InvitationService: jest.fn().mockImplementation(() => ({
+    redeemForUser: mockRedeemForUser,
+  })),
+}));
+
+import { AuthService, REAUTH_TOKEN_TTL_SECONDS, TwoFactorChallenge, validatePassword } from './auth.service';
 
 describe('AuthService', () => {
   let authService: AuthService;
 
   beforeEach(() => {
     mockQuery.mockReset();
+    mockRedeemForUser.mockReset();
+    mockRedeemForUser.mockResolvedValue([]);
+    mockIssueToken.mockReset();
+    mockIssueToken.mockResolvedValue('emailed-token');
+    mockConsumeToken.mockReset();
+    mockSendMail.mockReset();
+    mockCreateSession.mockReset();
+    mockCreateSession.mockImplementation(async (userId: string) => ({
+      accessToken: jwt.sign({ userId, sid: 'session1' }, 'secret', { expiresIn: '1h' }),
+      refreshToken: jwt.sign({ userId, sid: 'session1' }, 'refresh-secret', { expiresIn: '7d' }),
+      sessionId: 'session1',
+    }));
+    mockRotate.mockReset();
+    mockRevokeSession.mockReset();
+    mockRevokeAllSessions.mockReset();
+    mockListSessions.mockReset();
+    mockFindIdentityUserId.mockReset();
+    mockFindIdentityUserId.mockResolvedValue(null);
+    mockLinkIdentity.mockReset();
+    mockUnlinkIdentity.mockReset();
+    mockTwoFactorEnabled.mockReset();
+    mockTwoFactorEnabled.mockResolvedValue(false);
+    mockVerifyTwoFactor.mockReset();
+    mockDisableTwoFactor.mockReset();
+    mockScheduleDeletion.mockReset();
+    mockCancelDeletion.mockReset();
     authService = new AuthService();
   });
 
@@ -80,6 +187,50 @@ describe('AuthService', () => {
       expect(insertCall[1][3]).toBe(AuthProvider.EMAIL);
     });
 
+    it('should email a link to verify the new address', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ userId: 'user123', email: 'test@example.com', displayName: 'Test User', locale: 'es' }] });
+
+      await authService.signup({ email: 'test@example.com', password: 'ValidPass1!', displayName: 'Test User' });
+
+      expect(mockIssueToken).toHaveBeenCalledWith('user123', AccountTokenPurpose.EMAIL_VERIFICATION, 48 * 60);
+      expect(mockSendMail).toHaveBeenCalledWith('test@example.com', MailTemplate.EMAIL_VERIFICATION, {
+        displayName: 'Test User',
+        actionUrl: 'https://app.example.com/verify-email?token=emailed-token',
+        expiresInHours: 48,
+      }, 'es');
+    });
+
+    it('should sign up even if the verification email cannot be queued', async () => {
+      mockSendMail.mockRejectedValueOnce(new Error('connection lost'));
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ userId: 'user123', email: 'test@example.com', displayName: 'Test User' }] });
+
+      const result = await authService.signup({ email: 'test@example.com', password: 'ValidPass1!', displayName: 'Test User' });
+
+      expect(result.userId).toBe('user123');
+    });
+
+    it('should join the trees the new user was invited to', async () => {
+      const invitations = [{ treeId: 'tree1', treeName: 'Smith Family', accessLevel: 'viewer' }];
+      mockRedeemForUser.mockResolvedValueOnce(invitations);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ userId: 'user123', email: 'test@example.com', displayName: 'Test User' }] });
+
+      const result = await authService.signup({
+        email: 'test@example.com',
+        password: 'ValidPass1!',
+        displayName: 'Test User',
+        invitationToken: 'invite-token-1234567890',
+      });
+
+      expect(mockRedeemForUser).toHaveBeenCalledWith('user123', 'test@example.com', 'invite-token-1234567890');
+      expect(result.invitations).toEqual(invitations);
+    });
+
     it('should reject duplicate email', async () => {
       mockQuery.mockResolvedValueOnce({ rows: [{ userId: 'existing' }] });
 
@@ -140,7 +291,7 @@ describe('AuthService', () => {
       const result = await authService.login({
         email: 'test@example.com',
         password: 'ValidPass1!',
-      });
+      }) as { accessToken: string; user: { userId: string; email: string } };
 
       expect(result).toHaveProperty('accessToken');
       expect(result).toHaveProperty('refreshToken');
@@ -152,6 +303,42 @@ describe('AuthService', () => {
       expect(decoded.userId).toBe('user123');
     });
 
+    it('should start a session for the device', async () => {
+      const hashedPassword = await bcrypt.hash('ValidPass1!', 12);
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ userId: 'user123', email: 'test@example.com', displayName: 'Test User', passwordHash: hashedPassword }],
+      });
+      const context = { deviceName: "Ana's iPhone", userAgent: 'RKRoots/1.0', ipAddress: '203.0.113.7' };
+
+      await authService.login({ email: 'test@example.com', password: 'ValidPass1!' }, context);
+
+      expect(mockCreateSession).toHaveBeenCalledWith('user123', context);
+    });
+
+    it('should ask for a two-factor code instead of starting a session', async () => {
+      const hashedPassword = await bcrypt.hash('ValidPass1!', 4);
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ userId: 'user123', email: 'test@example.com', displayName: 'Test User', passwordHash: hashedPassword }],
+      });
+      mockTwoFactorEnabled.mockResolvedValueOnce(true);
+
+      const result = await authService.login({
+        email: 'test@example.com',
+        password: 'ValidPass1!',
+        invitationToken: 'invite-token-1234567890',
+      }) as TwoFactorChallenge;
+
+      expect(result.twoFactorRequired).toBe(true);
+      expect(result).not.toHaveProperty('accessToken');
+      expect(jwt.decode(result.challengeToken)).toMatchObject({
+        userId: 'user123',
+        purpose: 'two_factor',
+        invitationToken: 'invite-token-1234567890',
+      });
+      expect(mockCreateSession).not.toHaveBeenCalled();
+      expect(mockRedeemForUser).not.toHaveBeenCalled();
+    });
+
     it('should reject invalid password', async () => {
       const hashedPassword = await bcrypt.hash('ValidPass1!', 12);
       mockQuery.mockResolvedValueOnce({
@@ -191,25 +378,116 @@ describe('AuthService', () => {
     });
   });
 
-  describe('refresh', () => {
-    it('should return new tokens for valid refresh token', async () => {
-      const refreshToken = jwt.sign(
-        { userId: 'user123' },
-        process.env.JWT_REFRESH_SECRET || 'refresh-secret',
-        { expiresIn: '7d' }
+  describe('completeTwoFactorLogin', () => {
+    const challenge = (payload: object = { userId: 'user123', purpose: 'two_factor' }) =>
+      jwt.sign(payload, process.env.JWT_SECRET || 'secret', { expiresIn: '5m' });
+
+    it('should start the session once the code checks out', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ userId: 'user123', email: 'test@example.com' }] });
+
+      const result = await authService.completeTwoFactorLogin(
+        challenge({ userId: 'user123', purpose: 'two_factor', invitationToken: 'invite-token-1234567890' }),
+        '123456'
       );
 
-      const result = await authService.refresh(refreshToken);
+      expect(mockVerifyTwoFactor).toHaveBeenCalledWith('user123', '123456');
+      expect(result.user.userId).toBe('user123');
+      expect(mockCreateSession).toHaveBeenCalledWith('user123', undefined);
+      expect(mockRedeemForUser).toHaveBeenCalledWith('user123', 'test@example.com', 'invite-token-1234567890');
+    });
 
-      expect(result).toHaveProperty('accessToken');
-      expect(result).toHaveProperty('refreshToken');
+    it('should not start a session for a wrong code', async () => {
+      mockVerifyTwoFactor.mockRejectedValueOnce(new AppError('Invalid code', 401));
+
+      await expect(authService.completeTwoFactorLogin(challenge(), '000000')).rejects.toThrow('Invalid code');
+      expect(mockCreateSession).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a token that is not a challenge', async () => {
+      const accessToken = jwt.sign({ userId: 'user123', sid: 'session1' }, process.env.JWT_SECRET || 'secret');
+
+      await expect(authService.completeTwoFactorLogin(accessToken, '123456')).rejects.toMatchObject({
+        code: 'CHALLENGE_EXPIRED',
+      });
+      expect(mockVerifyTwoFactor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startSession', () => {
+    it('should start a session when 2FA is off', async () => {
+      await expect(authService.startSession('user123', 'oauth@example.com')).resolves.toHaveProperty('accessToken');
+    });
+
+    it('should redeem invitations for the provider email', async () => {
+      await authService.startSession('user123', 'oauth@example.com', 'invite-token-1234567890');
+
+      expect(mockRedeemForUser).toHaveBeenCalledWith('user123', 'oauth@example.com', 'invite-token-1234567890');
+    });
+
+    it('should ask for the code when 2FA is on, keeping the invitation for after it', async () => {
+      mockTwoFactorEnabled.mockResolvedValueOnce(true);
+
+      const result = await authService.startSession('user123', 'oauth@example.com', 'invite-token-1234567890');
+
+      expect(result).toMatchObject({ twoFactorRequired: true });
+      expect(jwt.decode((result as TwoFactorChallenge).challengeToken)).toMatchObject({
+        invitationToken: 'invite-token-1234567890',
+      });
+      expect(mockCreateSession).not.toHaveBeenCalled();
+      expect(mockRedeemForUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('disableTwoFactor', () => {
+    const reauthToken = () =>
+      jwt.sign({ userId: 'user123', sid: 'session1', purpose: 'reauth' }, process.env.JWT_SECRET || 'secret');
+
+    it('should need a current code as well as reauthentication', async () => {
+      mockVerifyTwoFactor.mockRejectedValueOnce(new AppError('Invalid code', 401));
+
+      await expect(authService.disableTwoFactor('user123', 'session1', reauthToken(), '000000')).rejects.toThrow('Invalid code');
+      expect(mockDisableTwoFactor).not.toHaveBeenCalled();
+    });
+
+    it('should turn 2FA off', async () => {
+      await authService.disableTwoFactor('user123', 'session1', reauthToken(), '123456');
+
+      expect(mockDisableTwoFactor).toHaveBeenCalledWith('user123');
+    });
+  });
+
+  describe('refresh', () => {
+    it('should rotate the refresh token on its session', async () => {
+      mockRotate.mockResolvedValueOnce({ accessToken: 'new-access', refreshToken: 'new-refresh', sessionId: 'session1' });
+      const context = { userAgent: 'RKRoots/1.0' };
+
+      const result = await authService.refresh('old-refresh', context);
+
+      expect(mockRotate).toHaveBeenCalledWith('old-refresh', context);
+      expect(result).toEqual({ accessToken: 'new-access', refreshToken: 'new-refresh' });
     });
 
     it('should reject invalid refresh token', async () => {
+      mockRotate.mockRejectedValueOnce(new AppError('Invalid refresh token', 401));
+
       await expect(authService.refresh('invalid-token')).rejects.toThrow('Invalid refresh token');
     });
   });
 
+  describe('logout', () => {
+    it('should revoke the current session', async () => {
+      await authService.logout('user123', 'session1');
+
+      expect(mockRevokeSession).toHaveBeenCalledWith('user123', 'session1', SessionRevokedReason.LOGOUT);
+    });
+
+    it('should do nothing for a token without a session', async () => {
+      await authService.logout('user123', undefined);
+
+      expect(mockRevokeSession).not.toHaveBeenCalled();
+    });
+  });
+
   describe('validateToken', () => {
     it('should return userId for valid token', async () => {
       const token = jwt.sign(
@@ -342,8 +620,8 @@ describe('AuthService', () => {
   });
 
   describe('findOrCreateOAuthUser', () => {
-    it('should return existing user by provider ID', async () => {
-      mockQuery.mockResolvedValueOnce({ rows: [{ userId: 'existing123' }] });
+    it('should return the user the provider account is linked to', async () => {
+      mockFindIdentityUserId.mockResolvedValueOnce('existing123');
 
       const result = await authService.findOrCreateOAuthUser({
         email: 'oauth@example.com',
@@ -352,30 +630,28 @@ describe('AuthService', () => {
         authProviderId: 'google123',
       });
 
+      expect(mockFindIdentityUserId).toHaveBeenCalledWith(AuthProvider.GOOGLE, 'google123');
       expect(result.userId).toBe('existing123');
       expect(result.isNew).toBe(false);
+      expect(mockQuery).not.toHaveBeenCalled();
     });
 
-    it('should link existing email user to OAuth provider', async () => {
-      mockQuery
-        .mockResolvedValueOnce({ rows: [] })
-        .mockResolvedValueOnce({ rows: [{ userId: 'email123' }] })
-        .mockResolvedValueOnce({ rowCount: 1 });
+    it('should not take over an existing account with the same email', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ userId: 'email123' }] });
 
-      const result = await authService.findOrCreateOAuthUser({
+      await expect(authService.findOrCreateOAuthUser({
         email: 'existing@example.com',
         displayName: 'OAuth User',
         authProvider: AuthProvider.GOOGLE,
         authProviderId: 'google123',
-      });
+      })).rejects.toMatchObject({ statusCode: 409, code: 'ACCOUNT_EXISTS' });
 
-      expect(result.userId).toBe('email123');
-      expect(result.isNew).toBe(false);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockLinkIdentity).not.toHaveBeenCalled();
     });
 
-    it('should create new user for new OAuth account', async () => {
+    it('should create a new user with the provider account linked', async () => {
       mockQuery
-        .mockResolvedValueOnce({ rows: [] })
         .mockResolvedValueOnce({ rows: [] })
         .mockResolvedValueOnce({ rows: [{ userId: 'new123' }] });
 
@@ -389,12 +665,255 @@ describe('AuthService', () => {
 
       expect(result.userId).toBe('new123');
       expect(result.isNew).toBe(true);
+      expect(mockLinkIdentity).toHaveBeenCalledWith(
+        'new123',
+        AuthProvider.GOOGLE,
+        'google123',
+        'new@example.com',
+        expect.objectContaining({ query: mockQuery })
+      );
+    });
+  });
+
+  describe('reauthenticateWithPassword', () => {
+    it('should issue a short-lived token bound to the session', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ passwordHash: await bcrypt.hash('CurrentPass1!', 4) }] });
+
+      const result = await authService.reauthenticateWithPassword('user123', 'session1', 'CurrentPass1!');
+
+      expect(result.expiresIn).toBe(REAUTH_TOKEN_TTL_SECONDS);
+      expect(jwt.decode(result.reauthToken)).toMatchObject({ userId: 'user123', sid: 'session1', purpose: 'reauth' });
+    });
+
+    it('should reject a wrong password', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ passwordHash: await bcrypt.hash('CurrentPass1!', 4) }] });
+
+      await expect(authService.reauthenticateWithPassword('user123', 'session1', 'WrongPass1!')).rejects.toMatchObject({
+        statusCode: 401,
+      });
+    });
+
+    it('should point an account without a password to its linked sign-in methods', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ passwordHash: null }] });
+
+      await expect(authService.reauthenticateWithPassword('user123', 'session1', 'Anything1!')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+    });
+  });
+
+  describe('reauthenticateWithIdentity', () => {
+    it('should accept a provider account linked to the user', async () => {
+      mockFindIdentityUserId.mockResolvedValueOnce('user123');
+
+      const result = await authService.reauthenticateWithIdentity('user123', 'session1', AuthProvider.APPLE, 'apple123');
+
+      expect(jwt.decode(result.reauthToken)).toMatchObject({ userId: 'user123', purpose: 'reauth' });
+    });
+
+    it('should reject a provider account linked to someone else', async () => {
+      mockFindIdentityUserId.mockResolvedValueOnce('other-user');
+
+      await expect(
+        authService.reauthenticateWithIdentity('user123', 'session1', AuthProvider.APPLE, 'apple123')
+      ).rejects.toMatchObject({ statusCode: 401 });
+    });
+  });
+
+  describe('linkIdentity', () => {
+    const identity = { provider: AuthProvider.APPLE, providerUserId: 'apple123', email: 'ana@example.com' };
+    const reauthToken = (payload: object) => jwt.sign(payload, process.env.JWT_SECRET || 'secret', { expiresIn: '5m' });
+
+    it('should link the provider account once the user has reauthenticated', async () => {
+      mockLinkIdentity.mockResolvedValueOnce({ identityId: 'identity1', provider: AuthProvider.APPLE });
+      const token = reauthToken({ userId: 'user123', sid: 'session1', purpose: 'reauth' });
+
+      await expect(authService.linkIdentity('user123', 'session1', token, identity)).resolves.toMatchObject({
+        identityId: 'identity1',
+      });
+      expect(mockLinkIdentity).toHaveBeenCalledWith('user123', AuthProvider.APPLE, 'apple123', 'ana@example.com');
+    });
+
+    it('should require reauthentication', async () => {
+      await expect(authService.linkIdentity('user123', 'session1', undefined, identity)).rejects.toMatchObject({
+        statusCode: 401,
+        code: 'REAUTH_REQUIRED',
+      });
+      expect(mockLinkIdentity).not.toHaveBeenCalled();
+    });
+
+    it('should not accept an access token in place of a reauth token', async () => {
+      const token = reauthToken({ userId: 'user123', sid: 'session1' });
+
+      await expect(authService.linkIdentity('user123', 'session1', token, identity)).rejects.toMatchObject({
+        code: 'REAUTH_REQUIRED',
+      });
+    });
+
+    it('should not accept a reauth token from another session', async () => {
+      const token = reauthToken({ userId: 'user123', sid: 'session2', purpose: 'reauth' });
+
+      await expect(authService.linkIdentity('user123', 'session1', token, identity)).rejects.toMatchObject({
+        code: 'REAUTH_REQUIRED',
+      });
+    });
+  });
+
+  describe('unlinkIdentity', () => {
+    it('should unlink once the user has reauthenticated', async () => {
+      const token = jwt.sign({ userId: 'user123', sid: 'session1', purpose: 'reauth' }, process.env.JWT_SECRET || 'secret');
+
+      await authService.unlinkIdentity('user123', 'session1', token, 'identity1');
+
+      expect(mockUnlinkIdentity).toHaveBeenCalledWith('user123', 'identity1');
+    });
+
+    it('should require reauthentication', async () => {
+      await expect(authService.unlinkIdentity('user123', 'session1', 'garbage', 'identity1')).rejects.toMatchObject({
+        code: 'REAUTH_REQUIRED',
+      });
+      expect(mockUnlinkIdentity).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteAccount', () => {
+    const reauthToken = () =>
+      jwt.sign({ userId: 'user123', sid: 'session1', purpose: 'reauth' }, process.env.JWT_SECRET || 'secret');
+    const deleteAt = new Date('2025-07-01T12:00:00Z');
+
+    it('should schedule the deletion, sign out everywhere and email the date', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ userId: 'user123', email: 'ana@example.com', displayName: 'Ana', locale: 'es' }],
+      });
+      mockScheduleDeletion.mockResolvedValueOnce(deleteAt);
+      const transfers = [{ treeId: 'tree1', newOwnerUserId: 'user456' }];
+
+      await expect(authService.deleteAccount('user123', 'session1', reauthToken(), transfers)).resolves.toBe(deleteAt);
+
+      expect(mockScheduleDeletion).toHaveBeenCalledWith('user123', transfers);
+      expect(mockRevokeAllSessions).toHaveBeenCalledWith('user123', SessionRevokedReason.ACCOUNT_DELETION);
+      expect(mockSendMail).toHaveBeenCalledWith('ana@example.com', MailTemplate.ACCOUNT_DELETION, {
+        displayName: 'Ana',
+        deleteAt,
+        actionUrl: 'https://app.example.com/login',
+      }, 'es');
+    });
+
+    it('should require reauthentication', async () => {
+      await expect(authService.deleteAccount('user123', 'session1', undefined)).rejects.toMatchObject({
+        code: 'REAUTH_REQUIRED',
+      });
+      expect(mockScheduleDeletion).not.toHaveBeenCalled();
+    });
+
+    it('should leave the sessions alone when the deletion cannot be scheduled', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ userId: 'user123', email: 'ana@example.com' }] });
+      mockScheduleDeletion.mockRejectedValueOnce(new AppError('Your account is already scheduled for deletion', 409));
+
+      await expect(authService.deleteAccount('user123', 'session1', reauthToken())).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockRevokeAllSessions).not.toHaveBeenCalled();
+      expect(mockSendMail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreAccount', () => {
+    it('should cancel the deletion and return the user', async () => {
+      mockCancelDeletion.mockResolvedValueOnce(true);
+      mockQuery.mockResolvedValueOnce({ rows: [{ userId: 'user123', deletionScheduledFor: null }] });
+
+      await expect(authService.restoreAccount('user123')).resolves.toMatchObject({ deletionScheduledFor: null });
+    });
+
+    it('should reject an account that is not scheduled for deletion', async () => {
+      mockCancelDeletion.mockResolvedValueOnce(false);
+
+      await expect(authService.restoreAccount('user123')).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should mark the address verified and redeem invitations waiting for it', async () => {
+      mockConsumeToken.mockResolvedValueOnce('user123');
+      mockQuery
+        .mockResolvedValueOnce({ rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [{ userId: 'user123', email: 'test@example.com', emailVerifiedAt: new Date() }] });
+
+      const result = await authService.verifyEmail('emailed-token');
+
+      expect(mockConsumeToken).toHaveBeenCalledWith('emailed-token', AccountTokenPurpose.EMAIL_VERIFICATION);
+      expect(mockQuery.mock.calls[0][0]).toContain('email_verified_at = COALESCE(email_verified_at, NOW())');
+      expect(mockRedeemForUser).toHaveBeenCalledWith('user123', 'test@example.com');
+      expect(result.user.emailVerifiedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('requestEmailVerification', () => {
+    it('should reject an address that is already verified', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ userId: 'user123', email: 'test@example.com', emailVerifiedAt: new Date() }] });
+
+      await expect(authService.requestEmailVerification('user123')).rejects.toThrow('Email is already verified');
+      expect(mockSendMail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('forgotPassword', () => {
+    it('should email a reset link to an existing account', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ userId: 'user123', email: 'test@example.com', displayName: 'Test User', locale: 'en' }] });
+
+      await authService.forgotPassword(' Test@Example.com ');
+
+      expect(mockQuery.mock.calls[0][1]).toEqual(['Test@Example.com']);
+      expect(mockIssueToken).toHaveBeenCalledWith('user123', AccountTokenPurpose.PASSWORD_RESET, 60);
+      expect(mockSendMail).toHaveBeenCalledWith('test@example.com', MailTemplate.PASSWORD_RESET, {
+        displayName: 'Test User',
+        actionUrl: 'https://app.example.com/reset-password?token=emailed-token',
+        expiresInMinutes: 60,
+      }, 'en');
+    });
+
+    it('should quietly do nothing for an unknown address', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await expect(authService.forgotPassword('nobody@example.com')).resolves.toBeUndefined();
+      expect(mockIssueToken).not.toHaveBeenCalled();
+      expect(mockSendMail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should set the new password and verify the address', async () => {
+      mockConsumeToken.mockResolvedValueOnce('user123');
+      mockQuery.mockResolvedValueOnce({ rowCount: 1 });
+
+      await authService.resetPassword('emailed-token', 'NewValidPass1!');
+
+      expect(mockConsumeToken).toHaveBeenCalledWith('emailed-token', AccountTokenPurpose.PASSWORD_RESET, expect.anything());
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('email_verified_at = COALESCE(email_verified_at, NOW())');
+      expect(await bcrypt.compare('NewValidPass1!', params[0])).toBe(true);
+      expect(params[1]).toBe('user123');
+    });
+
+    it('should sign the user out everywhere', async () => {
+      mockConsumeToken.mockResolvedValueOnce('user123');
+      mockQuery.mockResolvedValueOnce({ rowCount: 1 });
+
+      await authService.resetPassword('emailed-token', 'NewValidPass1!');
+
+      expect(mockRevokeAllSessions).toHaveBeenCalledWith('user123', SessionRevokedReason.PASSWORD_RESET);
+    });
+
+    it('should reject a weak password without using up the token', async () => {
+      await expect(authService.resetPassword('emailed-token', 'weak')).rejects.toThrow('at least 8 characters');
+      expect(mockConsumeToken).not.toHaveBeenCalled();
     });
   });
 
   describe('generateTokensForUser', () => {
-    it('should generate access and refresh tokens', () => {
-      const tokens = authService.generateTokensForUser('user123');
+    it('should generate access and refresh tokens', async () => {
+      const tokens = await authService.generateTokensForUser('user123', { deviceName: 'Pixel 8' });
+
+      expect(mockCreateSession).toHaveBeenCalledWith('user123', { deviceName: 'Pixel 8' });
 
       expect(tokens).toHaveProperty('accessToken');
       expect(tokens).toHaveProperty('refreshToken');
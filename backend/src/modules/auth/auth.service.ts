@@ -1,28 +1,93 @@
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
-import { query } from '../../config/database';
-import { User, AuthProvider } from '../../database/interfaces';
+import { query, transaction } from '../../config/database';
+import { User, AuthProvider, MailTemplate, TreeTransfer } from '../../database/interfaces';
 import { AppError } from '../../common/errors/app-error';
 import { createLogger } from '../../common/logger';
-
-export { AuthProvider };
+import { SUPPORTED_LOCALES, resolveLocale } from '../mail/mail.templates';
+import { InvitationService, RedeemedInvitation } from '../invitation/invitation.service';
+import { MailService, appUrl } from '../mail/mail.service';
+import {
+  AccountTokenPurpose,
+  AccountTokenService,
+  EMAIL_VERIFICATION_TTL_HOURS,
+  PASSWORD_RESET_TTL_MINUTES,
+} from './account-token.service';
+import { SessionContext, SessionRevokedReason, SessionService, SessionSummary } from './session.service';
+import { IdentityService, LinkedIdentity, PROVIDER_NAMES, SignInMethods } from './identity.service';
+import { TwoFactorEnrollment, TwoFactorService, TwoFactorStatus } from './two-factor.service';
+import { AccountDeletionService } from './account-deletion.service';
+import { AccountExport, AccountExportService } from './account-export.service';
+
+export { AuthProvider, SessionContext };
 
 const logger = createLogger('auth-service');
 
+interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+/** How long a reauthentication lets the user change their sign-in methods */
+export const REAUTH_TOKEN_TTL_SECONDS = 5 * 60;
+
+interface ReauthTokenPayload {
+  userId: string;
+  sid?: string;
+  purpose: 'reauth';
+}
+
+export interface ReauthResult {
+  reauthToken: string;
+  /** Seconds */
+  expiresIn: number;
+}
+
+/** How long the user has to enter their two-factor code after the password */
+export const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+interface TwoFactorChallengePayload {
+  userId: string;
+  purpose: 'two_factor';
+  /** Carried over from the login request, to redeem once the code is in */
+  invitationToken?: string;
+}
+
+/** What login returns instead of tokens when the user has 2FA on; see completeTwoFactorLogin */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  /** Seconds */
+  expiresIn: number;
+}
+
+interface LoginResult {
+  accessToken: string;
+  refreshToken: string;
+  user: User;
+  invitations: RedeemedInvitation[];
+}
+
 interface SignupDto {
   email: string;
   password: string;
   displayName: string;
+  /** The device's locale; emails use the closest supported language */
+  locale?: string;
+  /** Token of an invitation link the user followed */
+  invitationToken?: string;
 }
 
 interface LoginDto {
   email: string;
   password: string;
+  invitationToken?: string;
 }
 
 interface UpdateProfileDto {
   displayName?: string;
   profilePictureUrl?: string;
+  locale?: string;
   currentPassword?: string;
   newPassword?: string;
 }
@@ -64,8 +129,45 @@ export function validatePassword(password: string): { valid: boolean; error?: st
   return { valid: true };
 }
 
+const USER_COLUMNS = `user_id as "userId", email, display_name as "displayName",
+  profile_picture_url as "profilePictureUrl", locale, email_verified_at as "emailVerifiedAt"`;
+
+/** Set while the user's account is waiting out its deletion grace period */
+const DELETION_SCHEDULED_COLUMN = `(SELECT d.purge_after FROM account_deletions d WHERE d.user_id = users.user_id)
+  as "deletionScheduledFor"`;
+
 export class AuthService {
-  async signup(dto: SignupDto): Promise<{ userId: string; accessToken: string; refreshToken: string; user: User }> {
+  private invitationService: InvitationService;
+  private accountTokens: AccountTokenService;
+  private mailService: MailService;
+  private sessionService: SessionService;
+  private identityService: IdentityService;
+  private twoFactorService: TwoFactorService;
+  private accountDeletionService: AccountDeletionService;
+  private accountExportService: AccountExportService;
+
+  constructor() {
+    this.invitationService = new InvitationService();
+    this.accountTokens = new AccountTokenService();
+    this.mailService = new MailService();
+    this.sessionService = new SessionService();
+    this.identityService = new IdentityService();
+    this.twoFactorService = new TwoFactorService();
+    this.accountDeletionService = new AccountDeletionService();
+    this.accountExportService = new AccountExportService();
+  }
+
+  /**
+   * Signs up and joins the trees of any invitations to the email, plus the one
+   * for the token; `invitations` lists the trees joined.
+   */
+  async signup(dto: SignupDto, context?: SessionContext): Promise<{
+    userId: string;
+    accessToken: string;
+    refreshToken: string;
+    user: User;
+    invitations: RedeemedInvitation[];
+  }> {
     if (!dto.email || !dto.password || !dto.displayName) {
       throw new AppError('Email, password, and display name are required', 400);
     }
@@ -87,24 +189,33 @@ export class AuthService {
     const passwordHash = await bcrypt.hash(dto.password, BCRYPT_COST_FACTOR);
 
     const result = await query<User>(
-      `INSERT INTO users (email, password_hash, display_name, auth_provider)
-       VALUES ($1, $2, $3, $4)
-       RETURNING user_id as "userId", email, display_name as "displayName", profile_picture_url as "profilePictureUrl"`,
-      [dto.email, passwordHash, dto.displayName, AuthProvider.EMAIL]
+      `INSERT INTO users (email, password_hash, display_name, auth_provider, locale)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING ${USER_COLUMNS}`,
+      [dto.email, passwordHash, dto.displayName, AuthProvider.EMAIL, resolveLocale(dto.locale)]
     );
 
     const user = result.rows[0];
-    const accessToken = this.generateAccessToken(user.userId);
-    const refreshToken = this.generateRefreshToken(user.userId);
+    const { accessToken, refreshToken } = await this.generateTokensForUser(user.userId, context);
 
     logger.info({ action: 'signup', userId: user.userId }, 'User registered');
-    return { userId: user.userId, accessToken, refreshToken, user };
+    try {
+      await this.sendVerificationEmail(user);
+    } catch (error) {
+      // They can ask for another one; the account itself is fine
+      logger.error({ err: error, userId: user.userId }, 'Failed to send verification email');
+    }
+    const invitations = await this.invitationService.redeemForUser(user.userId, user.email, dto.invitationToken);
+    return { userId: user.userId, accessToken, refreshToken, user, invitations };
   }
 
-  async login(dto: LoginDto): Promise<{ accessToken: string; refreshToken: string; user: User }> {
+  /**
+   * Logs in and, like signup, redeems the user's pending invitations. With 2FA
+   * on, the password only earns a challenge; see completeTwoFactorLogin.
+   */
+  async login(dto: LoginDto, context?: SessionContext): Promise<LoginResult | TwoFactorChallenge> {
     const result = await query<User & { passwordHash: string }>(
-      `SELECT user_id as "userId", email, display_name as "displayName", 
-              profile_picture_url as "profilePictureUrl", password_hash as "passwordHash" 
+      `SELECT ${USER_COLUMNS}, ${DELETION_SCHEDULED_COLUMN}, password_hash as "passwordHash"
        FROM users WHERE email = $1`,
       [dto.email]
     );
@@ -120,30 +231,89 @@ export class AuthService {
       throw new AppError('Invalid credentials', 401);
     }
 
-    const accessToken = this.generateAccessToken(user.userId);
-    const refreshToken = this.generateRefreshToken(user.userId);
+    if (await this.twoFactorService.isEnabled(user.userId)) {
+      logger.info({ action: 'loginChallenge', userId: user.userId }, 'Two-factor code requested');
+      return this.issueTwoFactorChallenge(user.userId, dto.invitationToken);
+    }
+
+    const { accessToken, refreshToken } = await this.generateTokensForUser(user.userId, context);
 
     logger.info({ action: 'login', userId: user.userId }, 'User logged in');
-    return { accessToken, refreshToken, user };
+    const invitations = await this.invitationService.redeemForUser(user.userId, user.email, dto.invitationToken);
+    return { accessToken, refreshToken, user, invitations };
   }
 
-  async refresh(refreshToken: string): Promise<{ accessToken: string; refreshToken: string }> {
+  /** Finishes a login that returned a TwoFactorChallenge */
+  async completeTwoFactorLogin(challengeToken: string, code: string, context?: SessionContext): Promise<LoginResult> {
+    let challenge: TwoFactorChallengePayload;
     try {
-      const payload = jwt.verify(refreshToken, process.env.JWT_REFRESH_SECRET || 'refresh-secret') as { userId: string };
-      const accessToken = this.generateAccessToken(payload.userId);
-      const newRefreshToken = this.generateRefreshToken(payload.userId);
-      return { accessToken, refreshToken: newRefreshToken };
+      challenge = jwt.verify(challengeToken, process.env.JWT_SECRET || 'secret') as TwoFactorChallengePayload;
     } catch {
-      throw new AppError('Invalid refresh token', 401);
+      throw new AppError('Your sign-in has expired; please log in again', 401, 'CHALLENGE_EXPIRED');
+    }
+    if (challenge.purpose !== 'two_factor') {
+      throw new AppError('Your sign-in has expired; please log in again', 401, 'CHALLENGE_EXPIRED');
+    }
+
+    await this.twoFactorService.verify(challenge.userId, code);
+
+    const user = await this.getUserById(challenge.userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+    const { accessToken, refreshToken } = await this.generateTokensForUser(user.userId, context);
+
+    logger.info({ action: 'login', userId: user.userId }, 'User logged in with two-factor code');
+    const invitations = await this.invitationService.redeemForUser(user.userId, user.email, challenge.invitationToken);
+    return { accessToken, refreshToken, user, invitations };
+  }
+
+  /**
+   * Starts a session after a provider sign-in and redeems the user's pending
+   * invitations, or asks for the two-factor code first; like login, the
+   * invitations then wait for completeTwoFactorLogin.
+   */
+  async startSession(
+    userId: string,
+    email: string,
+    invitationToken?: string,
+    context?: SessionContext
+  ): Promise<(AuthTokens & { invitations: RedeemedInvitation[] }) | TwoFactorChallenge> {
+    if (await this.twoFactorService.isEnabled(userId)) {
+      return this.issueTwoFactorChallenge(userId, invitationToken);
+    }
+    const tokens = await this.generateTokensForUser(userId, context);
+    const invitations = await this.invitationService.redeemForUser(userId, email, invitationToken);
+    return { ...tokens, invitations };
+  }
+
+  /** Rotates the refresh token; each one works once, see SessionService.rotate */
+  async refresh(refreshToken: string, context?: SessionContext): Promise<AuthTokens> {
+    const { accessToken, refreshToken: newRefreshToken } = await this.sessionService.rotate(refreshToken, context);
+    return { accessToken, refreshToken: newRefreshToken };
+  }
+
+  /** Signs out the session the access token belongs to */
+  async logout(userId: string, sessionId: string | undefined): Promise<void> {
+    if (!sessionId) {
+      return;
     }
+    await this.sessionService.revokeSession(userId, sessionId, SessionRevokedReason.LOGOUT);
+    logger.info({ action: 'logout', userId, sessionId }, 'User logged out');
   }
 
-  private generateAccessToken(userId: string): string {
-    return jwt.sign({ userId }, process.env.JWT_SECRET || 'secret', { expiresIn: '1h' });
+  /** The devices the user is signed in on, flagging the one making the request */
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    return this.sessionService.listSessions(userId, currentSessionId);
   }
 
-  private generateRefreshToken(userId: string): string {
-    return jwt.sign({ userId }, process.env.JWT_REFRESH_SECRET || 'refresh-secret', { expiresIn: '7d' });
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    await this.sessionService.revokeSession(userId, sessionId, SessionRevokedReason.REVOKED);
+  }
+
+  /** Signs the user out everywhere, including the device asking */
+  async revokeAllSessions(userId: string): Promise<number> {
+    return this.sessionService.revokeAllSessions(userId, SessionRevokedReason.REVOKED);
   }
 
   async validateToken(token: string): Promise<string> {
@@ -159,8 +329,9 @@ export class AuthService {
     const result = await query<User>(
       `SELECT user_id as "userId", email, auth_provider as "authProvider", 
               auth_provider_id as "authProviderId", display_name as "displayName", 
-              profile_picture_url as "profilePictureUrl", created_at as "createdAt", 
-              updated_at as "updatedAt"
+              profile_picture_url as "profilePictureUrl", locale, email_verified_at as "emailVerifiedAt",
+              created_at as "createdAt", 
+              updated_at as "updatedAt", ${DELETION_SCHEDULED_COLUMN}
        FROM users WHERE user_id = $1`,
       [userId]
     );
@@ -169,6 +340,10 @@ export class AuthService {
   }
 
   async updateProfile(userId: string, updates: UpdateProfileDto): Promise<User> {
+    if (updates.locale !== undefined && !(SUPPORTED_LOCALES as readonly string[]).includes(updates.locale)) {
+      throw new AppError(`Locale must be one of: ${SUPPORTED_LOCALES.join(', ')}`, 400);
+    }
+
     if (updates.newPassword) {
       if (!updates.currentPassword) {
         throw new AppError('Current password is required to update password', 400);
@@ -214,6 +389,10 @@ export class AuthService {
       updateFields.push(`profile_picture_url = $${paramIndex++}`);
       values.push(updates.profilePictureUrl);
     }
+    if (updates.locale !== undefined) {
+      updateFields.push(`locale = $${paramIndex++}`);
+      values.push(updates.locale);
+    }
 
     if (updateFields.length > 0) {
       updateFields.push(`updated_at = NOW()`);
@@ -230,15 +409,17 @@ export class AuthService {
     return user;
   }
 
+  /**
+   * Signs in with a linked provider account, or creates a user for a new one.
+   * An email that already has an account is not linked automatically: the
+   * owner has to sign in and link the provider, so nobody gets in just by
+   * controlling a provider account with the same address. Invitations are
+   * redeemed by startSession, once any two-factor check has passed.
+   */
   async findOrCreateOAuthUser(dto: OAuthUserDto): Promise<{ userId: string; isNew: boolean }> {
-    const existingResult = await query<User>(
-      `SELECT user_id as "userId" FROM users 
-       WHERE auth_provider = $1 AND auth_provider_id = $2`,
-      [dto.authProvider, dto.authProviderId]
-    );
-
-    if (existingResult.rows.length > 0) {
-      return { userId: existingResult.rows[0].userId, isNew: false };
+    const linkedUserId = await this.identityService.findUserId(dto.authProvider, dto.authProviderId);
+    if (linkedUserId) {
+      return { userId: linkedUserId, isNew: false };
     }
 
     const emailResult = await query<User>(
@@ -247,29 +428,297 @@ export class AuthService {
     );
 
     if (emailResult.rows.length > 0) {
-      await query(
-        `UPDATE users SET auth_provider = $1, auth_provider_id = $2, updated_at = NOW() 
-         WHERE user_id = $3`,
-        [dto.authProvider, dto.authProviderId, emailResult.rows[0].userId]
+      throw new AppError(
+        `An account already uses ${dto.email}. Log in to it another way, then link ${PROVIDER_NAMES[dto.authProvider]} from your profile.`,
+        409,
+        'ACCOUNT_EXISTS'
       );
-      return { userId: emailResult.rows[0].userId, isNew: false };
     }
 
-    const result = await query<User>(
-      `INSERT INTO users (email, display_name, auth_provider, auth_provider_id, profile_picture_url)
-       VALUES ($1, $2, $3, $4, $5)
-       RETURNING user_id as "userId"`,
-      [dto.email, dto.displayName, dto.authProvider, dto.authProviderId, dto.profilePictureUrl]
+    const userId = await transaction(async (client) => {
+      const result = await client.query<User>(
+        `INSERT INTO users (email, display_name, auth_provider, auth_provider_id, profile_picture_url, email_verified_at)
+         VALUES ($1, $2, $3, $4, $5, NOW())
+         RETURNING user_id as "userId"`,
+        [dto.email, dto.displayName, dto.authProvider, dto.authProviderId, dto.profilePictureUrl]
+      );
+      await this.identityService.link(result.rows[0].userId, dto.authProvider, dto.authProviderId, dto.email, client);
+      return result.rows[0].userId;
+    });
+
+    logger.info({ action: 'oauthSignup', userId, provider: dto.authProvider }, 'OAuth user created');
+    return { userId, isNew: true };
+  }
+
+  /** Proves the user is present by their password; see issueReauthToken */
+  async reauthenticateWithPassword(userId: string, sessionId: string | undefined, password: string): Promise<ReauthResult> {
+    const result = await query<{ passwordHash: string | null }>(
+      'SELECT password_hash as "passwordHash" FROM users WHERE user_id = $1',
+      [userId]
     );
 
-    logger.info({ action: 'oauthSignup', userId: result.rows[0].userId, provider: dto.authProvider }, 'OAuth user created');
-    return { userId: result.rows[0].userId, isNew: true };
+    const passwordHash = result.rows[0]?.passwordHash;
+    if (!passwordHash) {
+      throw new AppError('This account has no password; confirm with a linked sign-in method instead', 400);
+    }
+    if (!(await bcrypt.compare(password, passwordHash))) {
+      throw new AppError('Password is incorrect', 401);
+    }
+
+    return this.issueReauthToken(userId, sessionId);
+  }
+
+  /** Proves the user is present by a fresh sign-in with one of their linked providers */
+  async reauthenticateWithIdentity(
+    userId: string,
+    sessionId: string | undefined,
+    provider: AuthProvider,
+    providerUserId: string
+  ): Promise<ReauthResult> {
+    const linkedUserId = await this.identityService.findUserId(provider, providerUserId);
+    if (linkedUserId !== userId) {
+      throw new AppError(`This ${PROVIDER_NAMES[provider]} account is not linked to yours`, 401);
+    }
+
+    return this.issueReauthToken(userId, sessionId);
+  }
+
+  /** Throws unless the token came from reauthenticating in this session within the last few minutes */
+  verifyReauthToken(userId: string, sessionId: string | undefined, reauthToken: string | undefined): void {
+    const required = new AppError('Please confirm it\'s you first', 401, 'REAUTH_REQUIRED');
+    if (!reauthToken) {
+      throw required;
+    }
+
+    try {
+      const payload = jwt.verify(reauthToken, process.env.JWT_SECRET || 'secret') as ReauthTokenPayload;
+      if (payload.purpose !== 'reauth' || payload.userId !== userId || payload.sid !== sessionId) {
+        throw required;
+      }
+    } catch {
+      throw required;
+    }
+  }
+
+  async getSignInMethods(userId: string): Promise<SignInMethods> {
+    return this.identityService.getSignInMethods(userId);
+  }
+
+  /** Links another provider account; needs a reauth token, see verifyReauthToken */
+  async linkIdentity(
+    userId: string,
+    sessionId: string | undefined,
+    reauthToken: string | undefined,
+    identity: { provider: AuthProvider; providerUserId: string; email?: string }
+  ): Promise<LinkedIdentity> {
+    this.verifyReauthToken(userId, sessionId, reauthToken);
+    return this.identityService.link(userId, identity.provider, identity.providerUserId, identity.email);
+  }
+
+  async unlinkIdentity(userId: string, sessionId: string | undefined, reauthToken: string | undefined, identityId: string): Promise<void> {
+    this.verifyReauthToken(userId, sessionId, reauthToken);
+    await this.identityService.unlink(userId, identityId);
+  }
+
+  async getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+    return this.twoFactorService.getStatus(userId);
+  }
+
+  /** Creates a secret for the authenticator app; needs a reauth token, see verifyReauthToken */
+  async beginTwoFactorEnrollment(userId: string, sessionId: string | undefined, reauthToken: string | undefined): Promise<TwoFactorEnrollment> {
+    this.verifyReauthToken(userId, sessionId, reauthToken);
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+    return this.twoFactorService.beginEnrollment(userId, user.email);
+  }
+
+  /** Turns 2FA on with a first code from the app; returns the recovery codes */
+  async confirmTwoFactorEnrollment(userId: string, code: string): Promise<string[]> {
+    return this.twoFactorService.confirmEnrollment(userId, code);
+  }
+
+  /** Needs both a reauth token and a current code, so neither a stolen password nor phone is enough */
+  async disableTwoFactor(userId: string, sessionId: string | undefined, reauthToken: string | undefined, code: string): Promise<void> {
+    this.verifyReauthToken(userId, sessionId, reauthToken);
+    await this.twoFactorService.verify(userId, code);
+    await this.twoFactorService.disable(userId);
+  }
+
+  async regenerateRecoveryCodes(userId: string, sessionId: string | undefined, reauthToken: string | undefined, code: string): Promise<string[]> {
+    this.verifyReauthToken(userId, sessionId, reauthToken);
+    await this.twoFactorService.verify(userId, code);
+    return this.twoFactorService.regenerateRecoveryCodes(userId);
+  }
+
+  /** Everything kept about the user, to download; needs a reauth token, see verifyReauthToken */
+  async exportAccount(userId: string, sessionId: string | undefined, reauthToken: string | undefined): Promise<AccountExport> {
+    this.verifyReauthToken(userId, sessionId, reauthToken);
+    return this.accountExportService.exportAccount(userId);
+  }
+
+  /**
+   * Schedules the account for deletion and signs the user out everywhere.
+   * Signing back in and calling restoreAccount before the returned date keeps
+   * it; see AccountDeletionService for what happens to their trees.
+   */
+  async deleteAccount(
+    userId: string,
+    sessionId: string | undefined,
+    reauthToken: string | undefined,
+    transfers: TreeTransfer[] = []
+  ): Promise<Date> {
+    this.verifyReauthToken(userId, sessionId, reauthToken);
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const deleteAt = await this.accountDeletionService.schedule(userId, transfers);
+    await this.sessionService.revokeAllSessions(userId, SessionRevokedReason.ACCOUNT_DELETION);
+    await this.mailService.send(user.email, MailTemplate.ACCOUNT_DELETION, {
+      displayName: user.displayName,
+      deleteAt,
+      actionUrl: appUrl('/login'),
+    }, user.locale);
+
+    logger.info({ action: 'deleteAccount', userId, deleteAt }, 'Account deletion requested');
+    return deleteAt;
+  }
+
+  /** Keeps an account that was scheduled for deletion */
+  async restoreAccount(userId: string): Promise<User> {
+    if (!(await this.accountDeletionService.cancel(userId))) {
+      throw new AppError('Your account is not scheduled for deletion', 400);
+    }
+
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+    return user;
+  }
+
+  /** Like the reauth token, it carries a purpose so it can't be used as an access token */
+  private issueTwoFactorChallenge(userId: string, invitationToken?: string): TwoFactorChallenge {
+    const payload: TwoFactorChallengePayload = { userId, purpose: 'two_factor', invitationToken };
+    const challengeToken = jwt.sign(payload, process.env.JWT_SECRET || 'secret', { expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS });
+    return { twoFactorRequired: true, challengeToken, expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS };
+  }
+
+  /**
+   * A short-lived token that lets the session change how the account signs
+   * in. It carries a purpose, so authMiddleware won't take it as an access token.
+   */
+  private issueReauthToken(userId: string, sessionId: string | undefined): ReauthResult {
+    const payload: ReauthTokenPayload = { userId, sid: sessionId, purpose: 'reauth' };
+    const reauthToken = jwt.sign(payload, process.env.JWT_SECRET || 'secret', { expiresIn: REAUTH_TOKEN_TTL_SECONDS });
+    logger.info({ action: 'reauthenticate', userId }, 'User reauthenticated');
+    return { reauthToken, expiresIn: REAUTH_TOKEN_TTL_SECONDS };
+  }
+
+  /** Emails the user a new verification link; earlier links stop working */
+  async requestEmailVerification(userId: string): Promise<void> {
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+    if (user.emailVerifiedAt) {
+      throw new AppError('Email is already verified', 400);
+    }
+
+    await this.sendVerificationEmail(user);
+  }
+
+  /**
+   * Marks the token's user as verified and redeems invitations that were
+   * waiting for their address to be confirmed.
+   */
+  async verifyEmail(token: string): Promise<{ user: User; invitations: RedeemedInvitation[] }> {
+    const userId = await this.accountTokens.consume(token, AccountTokenPurpose.EMAIL_VERIFICATION);
+    await query(
+      'UPDATE users SET email_verified_at = COALESCE(email_verified_at, NOW()), updated_at = NOW() WHERE user_id = $1',
+      [userId]
+    );
+
+    const user = await this.getUserById(userId);
+    if (!user) throw new AppError('User not found', 404);
+
+    logger.info({ action: 'verifyEmail', userId }, 'Email verified');
+    const invitations = await this.invitationService.redeemForUser(userId, user.email);
+    return { user, invitations };
+  }
+
+  /**
+   * Emails a password reset link if the address belongs to an account. Says
+   * nothing either way, so it cannot be used to find out who has an account.
+   */
+  async forgotPassword(email: string): Promise<void> {
+    const result = await query<Pick<User, 'userId' | 'email' | 'displayName' | 'locale'>>(
+      `SELECT user_id as "userId", email, display_name as "displayName", locale
+       FROM users WHERE LOWER(email) = LOWER($1)`,
+      [email.trim()]
+    );
+
+    const user = result.rows[0];
+    if (!user) {
+      logger.info({ action: 'forgotPassword' }, 'Password reset requested for unknown email');
+      return;
+    }
+
+    const token = await this.accountTokens.issue(user.userId, AccountTokenPurpose.PASSWORD_RESET, PASSWORD_RESET_TTL_MINUTES);
+    await this.mailService.send(user.email, MailTemplate.PASSWORD_RESET, {
+      displayName: user.displayName,
+      actionUrl: appUrl(`/reset-password?token=${token}`),
+      expiresInMinutes: PASSWORD_RESET_TTL_MINUTES,
+    }, user.locale);
+
+    logger.info({ action: 'forgotPassword', userId: user.userId }, 'Password reset requested');
+  }
+
+  /**
+   * Sets a new password with a token from a reset email. Following the email
+   * proves the address, so this also verifies it.
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const passwordValidation = validatePassword(newPassword);
+    if (!passwordValidation.valid) {
+      throw new AppError(passwordValidation.error!, 400);
+    }
+
+    const passwordHash = await bcrypt.hash(newPassword, BCRYPT_COST_FACTOR);
+    const userId = await transaction(async (client) => {
+      const tokenUserId = await this.accountTokens.consume(token, AccountTokenPurpose.PASSWORD_RESET, client);
+      await client.query(
+        `UPDATE users SET password_hash = $1, email_verified_at = COALESCE(email_verified_at, NOW()), updated_at = NOW()
+         WHERE user_id = $2`,
+        [passwordHash, tokenUserId]
+      );
+      return tokenUserId;
+    });
+
+    // Whoever knew the old password may still be signed in
+    await this.sessionService.revokeAllSessions(userId, SessionRevokedReason.PASSWORD_RESET);
+    logger.info({ action: 'resetPassword', userId }, 'Password reset');
+  }
+
+  private async sendVerificationEmail(user: Pick<User, 'userId' | 'email' | 'displayName' | 'locale'>): Promise<void> {
+    const token = await this.accountTokens.issue(
+      user.userId,
+      AccountTokenPurpose.EMAIL_VERIFICATION,
+      EMAIL_VERIFICATION_TTL_HOURS * 60
+    );
+    await this.mailService.send(user.email, MailTemplate.EMAIL_VERIFICATION, {
+      displayName: user.displayName,
+      actionUrl: appUrl(`/verify-email?token=${token}`),
+      expiresInHours: EMAIL_VERIFICATION_TTL_HOURS,
+    }, user.locale);
   }
 
-  generateTokensForUser(userId: string): { accessToken: string; refreshToken: string } {
-    return {
-      accessToken: this.generateAccessToken(userId),
-      refreshToken: this.generateRefreshToken(userId),
-    };
+  /** Starts a session for the user and returns its first tokens */
+  async generateTokensForUser(userId: string, context?: SessionContext): Promise<AuthTokens> {
+    const { accessToken, refreshToken } = await this.sessionService.createSession(userId, context);
+    return { accessToken, refreshToken };
   }
 }
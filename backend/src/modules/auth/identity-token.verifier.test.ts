@@ -0,0 +1,215 @@
+import { createHash, generateKeyPairSync, JsonWebKey, KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import {
+  IdentityTokenVerifier,
+  JwksKeyCache,
+  JwksSource,
+  StaticJwksSource,
+  createAppleTokenVerifier,
+} from './identity-token.verifier';
+
+function signingKey(kid: string): { privateKey: KeyObject; jwk: JsonWebKey } {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return { privateKey, jwk: { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' } };
+}
+
+const current = signingKey('key-1');
+const rotated = signingKey('key-2');
+
+const ISSUER = 'https://appleid.apple.com';
+const AUDIENCE = 'app.rkroots';
+
+function sign(
+  claims: Record<string, unknown>,
+  { key = current, options = {} }: { key?: ReturnType<typeof signingKey>; options?: jwt.SignOptions } = {}
+): string {
+  return jwt.sign({ sub: 'apple-user-1', ...claims }, key.privateKey, {
+    algorithm: 'RS256',
+    keyid: key.jwk.kid as string,
+    issuer: ISSUER,
+    audience: AUDIENCE,
+    expiresIn: '10m',
+    ...options,
+  });
+}
+
+const hashed = (nonce: string) => createHash('sha256').update(nonce).digest('hex');
+
+describe('IdentityTokenVerifier', () => {
+  const verifier = (options: { hashedNonce?: boolean; requireNonce?: boolean; audiences?: string[] } = {}) =>
+    new IdentityTokenVerifier({
+      provider: 'apple',
+      issuers: [ISSUER],
+      audiences: options.audiences ?? [AUDIENCE],
+      keys: new JwksKeyCache(new StaticJwksSource([current.jwk])),
+      hashedNonce: options.hashedNonce,
+      requireNonce: options.requireNonce,
+    });
+
+  it('should return the claims of a valid token', async () => {
+    const token = sign({ email: 'ana@example.com', email_verified: 'true' });
+
+    await expect(verifier().verify(token)).resolves.toEqual({
+      sub: 'apple-user-1',
+      email: 'ana@example.com',
+      emailVerified: true,
+      name: undefined,
+      picture: undefined,
+    });
+  });
+
+  it('should reject an unsigned token', async () => {
+    const payload = Buffer.from(JSON.stringify({ sub: 'apple-user-1', iss: ISSUER, aud: AUDIENCE })).toString('base64url');
+    const forged = `${Buffer.from('{"alg":"none","kid":"key-1"}').toString('base64url')}.${payload}.`;
+
+    await expect(verifier().verify(forged)).rejects.toMatchObject({ statusCode: 401, code: 'INVALID_IDENTITY_TOKEN' });
+  });
+
+  it('should reject a token signed with a key that is not the provider\'s', async () => {
+    const impostor = signingKey('key-1');
+
+    await expect(verifier().verify(sign({}, { key: impostor }))).rejects.toThrow('Invalid Apple identity token');
+  });
+
+  it('should reject a token for another app', async () => {
+    const token = sign({}, { options: { audience: 'com.someone.else' } });
+
+    await expect(verifier().verify(token)).rejects.toThrow('Invalid Apple identity token');
+  });
+
+  it('should reject a token from another issuer', async () => {
+    const token = sign({}, { options: { issuer: 'https://evil.example.com' } });
+
+    await expect(verifier().verify(token)).rejects.toThrow('Invalid Apple identity token');
+  });
+
+  it('should reject an expired token', async () => {
+    const token = sign({}, { options: { expiresIn: -60 } });
+
+    await expect(verifier().verify(token)).rejects.toThrow('Invalid Apple identity token');
+  });
+
+  it('should refuse every token while no client id is configured', async () => {
+    await expect(verifier({ audiences: [] }).verify(sign({}))).rejects.toThrow('Invalid Apple identity token');
+  });
+
+  describe('nonce', () => {
+    it('should accept the nonce whose hash the token carries', async () => {
+      const token = sign({ nonce: hashed('raw-nonce') });
+
+      await expect(verifier({ hashedNonce: true }).verify(token, 'raw-nonce')).resolves.toMatchObject({ sub: 'apple-user-1' });
+    });
+
+    it('should reject a different nonce', async () => {
+      const token = sign({ nonce: hashed('raw-nonce') });
+
+      await expect(verifier({ hashedNonce: true }).verify(token, 'other-nonce')).rejects.toThrow('Invalid Apple identity token');
+    });
+
+    it('should require a nonce when configured to', async () => {
+      await expect(verifier({ requireNonce: true }).verify(sign({}))).rejects.toThrow('Invalid Apple identity token');
+    });
+
+    it('should reject a token bound to a nonce presented without one', async () => {
+      await expect(verifier().verify(sign({ nonce: 'raw-nonce' }))).rejects.toThrow('Invalid Apple identity token');
+    });
+
+    it('should compare plain nonces as they are', async () => {
+      await expect(verifier().verify(sign({ nonce: 'raw-nonce' }), 'raw-nonce')).resolves.toMatchObject({ sub: 'apple-user-1' });
+    });
+  });
+
+  it('should answer 503 when the provider\'s keys cannot be loaded', async () => {
+    const unreachable = new IdentityTokenVerifier({
+      provider: 'google',
+      issuers: [ISSUER],
+      audiences: [AUDIENCE],
+      keys: new JwksKeyCache({ fetchKeys: () => Promise.reject(new Error('ENOTFOUND')) }),
+    });
+
+    await expect(unreachable.verify(sign({}))).rejects.toMatchObject({ statusCode: 503 });
+  });
+});
+
+describe('JwksKeyCache', () => {
+  let now: number;
+  let keys: JsonWebKey[];
+  let fetchKeys: jest.Mock;
+  let cache: JwksKeyCache;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    keys = [current.jwk];
+    fetchKeys = jest.fn(async () => keys);
+    const source: JwksSource = { fetchKeys };
+    cache = new JwksKeyCache(source, 60 * 60 * 1000, 60 * 1000, () => now);
+  });
+
+  it('should fetch the keys once and serve them from the cache', async () => {
+    await cache.getKey('key-1');
+    await cache.getKey('key-1');
+
+    expect(fetchKeys).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pick up a rotated key by refetching for an unknown key id', async () => {
+    await cache.getKey('key-1');
+    keys = [current.jwk, rotated.jwk];
+    now += 2 * 60 * 1000;
+
+    await expect(cache.getKey('key-2')).resolves.not.toBeNull();
+    expect(fetchKeys).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not refetch for unknown key ids more than once a minute', async () => {
+    await cache.getKey('key-1');
+    now += 1000;
+
+    await expect(cache.getKey('forged')).resolves.toBeNull();
+    await expect(cache.getKey('forged-again')).resolves.toBeNull();
+    expect(fetchKeys).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refetch once the cache has aged', async () => {
+    await cache.getKey('key-1');
+    now += 60 * 60 * 1000;
+
+    await cache.getKey('key-1');
+
+    expect(fetchKeys).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep serving cached keys when a refetch fails', async () => {
+    await cache.getKey('key-1');
+    fetchKeys.mockRejectedValueOnce(new Error('503'));
+    now += 60 * 60 * 1000;
+
+    await expect(cache.getKey('key-1')).resolves.not.toBeNull();
+  });
+
+  it('should share one fetch between concurrent lookups', async () => {
+    await Promise.all([cache.getKey('key-1'), cache.getKey('key-1'), cache.getKey('key-1')]);
+
+    expect(fetchKeys).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('createAppleTokenVerifier', () => {
+  const originalClientId = process.env.APPLE_CLIENT_ID;
+
+  afterEach(() => {
+    if (originalClientId === undefined) {
+      delete process.env.APPLE_CLIENT_ID;
+    } else {
+      process.env.APPLE_CLIENT_ID = originalClientId;
+    }
+  });
+
+  it('should accept tokens for any of the configured bundle ids and require the hashed nonce', async () => {
+    process.env.APPLE_CLIENT_ID = 'app.other, app.rkroots';
+    const apple = createAppleTokenVerifier(new StaticJwksSource([current.jwk]));
+
+    await expect(apple.verify(sign({ nonce: hashed('raw-nonce') }), 'raw-nonce')).resolves.toMatchObject({ sub: 'apple-user-1' });
+    await expect(apple.verify(sign({ nonce: hashed('raw-nonce') }))).rejects.toThrow('Invalid Apple identity token');
+  });
+});
@@ -0,0 +1,246 @@
+import { createHash, createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { AppError } from '../../common/errors/app-error';
+import { createLogger } from '../../common/logger';
+
+const logger = createLogger('identity-token');
+
+export type IdentityProvider = 'apple' | 'google';
+
+/** What a verified identity token tells us about the person signing in */
+export interface IdentityClaims {
+  sub: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+  picture?: string;
+}
+
+/** Where a provider's signing keys come from; swap in StaticJwksSource to test offline */
+export interface JwksSource {
+  fetchKeys(): Promise<JsonWebKey[]>;
+}
+
+export class RemoteJwksSource implements JwksSource {
+  constructor(private url: string) {}
+
+  async fetchKeys(): Promise<JsonWebKey[]> {
+    const response = await fetch(this.url, { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      throw new Error(`${this.url} responded with ${response.status}`);
+    }
+    return ((await response.json()) as { keys: JsonWebKey[] }).keys;
+  }
+}
+
+export class StaticJwksSource implements JwksSource {
+  constructor(private keys: JsonWebKey[]) {}
+
+  async fetchKeys(): Promise<JsonWebKey[]> {
+    return this.keys;
+  }
+}
+
+/** Providers rotate keys every few weeks; a day-old copy is fresh enough */
+export const KEY_CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+/** Tokens naming a key we don't have trigger a refetch, but at most this often */
+export const KEY_REFETCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Caches a JWKS by key id. A token signed with a key we haven't seen refetches
+ * the set, so rotated keys are picked up without waiting for the cache to age;
+ * the refetches are rate limited so forged key ids can't hammer the provider.
+ */
+export class JwksKeyCache {
+  private keys = new Map<string, KeyObject>();
+  private fetchedAt = 0;
+  private attemptedAt = 0;
+  private pending: Promise<void> | null = null;
+
+  constructor(
+    private source: JwksSource,
+    private maxAgeMs = KEY_CACHE_MAX_AGE_MS,
+    private refetchIntervalMs = KEY_REFETCH_INTERVAL_MS,
+    private now: () => number = Date.now
+  ) {}
+
+  async getKey(kid: string): Promise<KeyObject | null> {
+    const stale = this.now() - this.fetchedAt >= this.maxAgeMs;
+    if ((stale || !this.keys.has(kid)) && this.canRefetch()) {
+      await this.refresh();
+    }
+    return this.keys.get(kid) ?? null;
+  }
+
+  private canRefetch(): boolean {
+    return this.keys.size === 0 || this.now() - this.attemptedAt >= this.refetchIntervalMs;
+  }
+
+  private refresh(): Promise<void> {
+    if (!this.pending) {
+      this.pending = this.load().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private async load(): Promise<void> {
+    this.attemptedAt = this.now();
+    try {
+      const keys = new Map<string, KeyObject>();
+      for (const jwk of await this.source.fetchKeys()) {
+        if (typeof jwk.kid === 'string' && jwk.kty === 'RSA' && (!jwk.use || jwk.use === 'sig')) {
+          keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+        }
+      }
+      this.keys = keys;
+      this.fetchedAt = this.now();
+    } catch (error) {
+      // Keep serving the keys we have; an outage at the provider shouldn't stop sign-ins
+      if (this.keys.size === 0) throw error;
+      logger.warn({ err: error }, 'Could not refresh signing keys; using cached keys');
+    }
+  }
+}
+
+export interface IdentityTokenVerifierOptions {
+  provider: IdentityProvider;
+  issuers: string[];
+  /** Client ids the token may be issued to; with none configured every token is refused */
+  audiences: string[];
+  keys: JwksKeyCache;
+  /** Whether the nonce claim holds a SHA-256 hex digest of the nonce the client sends, as Apple's does */
+  hashedNonce?: boolean;
+  requireNonce?: boolean;
+}
+
+const PROVIDER_LABELS: Record<IdentityProvider, string> = {
+  apple: 'Apple identity token',
+  google: 'Google ID token',
+};
+
+/** Checks an identity token's signature, issuer, audience, expiry and nonce */
+export class IdentityTokenVerifier {
+  constructor(private options: IdentityTokenVerifierOptions) {}
+
+  /** Returns the token's claims; throws a 401 AppError if the token can't be trusted */
+  async verify(token: string, nonce?: string): Promise<IdentityClaims> {
+    const { provider, issuers, audiences, keys } = this.options;
+    const invalid = (reason: string): AppError => {
+      logger.warn({ provider, reason }, 'Identity token rejected');
+      return new AppError(`Invalid ${PROVIDER_LABELS[provider]}`, 401, 'INVALID_IDENTITY_TOKEN');
+    };
+
+    if (audiences.length === 0) {
+      logger.error({ provider }, 'No client ids configured for identity tokens');
+      throw invalid('no audience configured');
+    }
+
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw invalid('malformed');
+    }
+    if (decoded.header.alg !== 'RS256' || !decoded.header.kid) {
+      throw invalid('unexpected header');
+    }
+
+    let key: KeyObject | null;
+    try {
+      key = await keys.getKey(decoded.header.kid);
+    } catch (error) {
+      logger.error({ err: error, provider }, 'Could not load signing keys');
+      throw new AppError('Sign-in is unavailable right now. Please try again.', 503);
+    }
+    if (!key) {
+      throw invalid('unknown key');
+    }
+
+    let payload: jwt.JwtPayload;
+    try {
+      payload = jwt.verify(token, key, {
+        algorithms: ['RS256'],
+        issuer: issuers as [string, ...string[]],
+        audience: audiences as [string, ...string[]],
+      }) as jwt.JwtPayload;
+    } catch (error) {
+      throw invalid((error as Error).message);
+    }
+
+    if (!payload.sub) {
+      throw invalid('no subject');
+    }
+    this.checkNonce(payload.nonce, nonce, invalid);
+
+    return {
+      sub: payload.sub,
+      email: typeof payload.email === 'string' ? payload.email : undefined,
+      // Apple sends the flag as a string
+      emailVerified: payload.email_verified === true || payload.email_verified === 'true',
+      name: typeof payload.name === 'string' ? payload.name : undefined,
+      picture: typeof payload.picture === 'string' ? payload.picture : undefined,
+    };
+  }
+
+  private checkNonce(claim: unknown, nonce: string | undefined, invalid: (reason: string) => AppError): void {
+    if (nonce === undefined) {
+      if (this.options.requireNonce) throw invalid('nonce missing');
+      // A token bound to a nonce must be presented with it
+      if (claim !== undefined) throw invalid('nonce not supplied');
+      return;
+    }
+
+    const expected = this.options.hashedNonce ? createHash('sha256').update(nonce).digest('hex') : nonce;
+    if (claim !== expected) {
+      throw invalid('nonce mismatch');
+    }
+  }
+}
+
+const APPLE_JWKS_URL = 'https://appleid.apple.com/auth/keys';
+const GOOGLE_JWKS_URL = 'https://www.googleapis.com/oauth2/v3/certs';
+
+function clientIds(...values: (string | undefined)[]): string[] {
+  return values
+    .flatMap((value) => (value ?? '').split(','))
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Apple tokens are issued to the app's bundle id (APPLE_CLIENT_ID, comma
+ * separated for several apps) and always carry the nonce the app asked for.
+ */
+export function createAppleTokenVerifier(source: JwksSource = new RemoteJwksSource(APPLE_JWKS_URL)): IdentityTokenVerifier {
+  return new IdentityTokenVerifier({
+    provider: 'apple',
+    issuers: ['https://appleid.apple.com'],
+    audiences: clientIds(process.env.APPLE_CLIENT_ID),
+    keys: new JwksKeyCache(source),
+    hashedNonce: true,
+    requireNonce: true,
+  });
+}
+
+/**
+ * Google ID tokens from the app are issued to the web client id it is
+ * configured with (GOOGLE_CLIENT_ID), or to GOOGLE_IOS_CLIENT_ID.
+ */
+export function createGoogleTokenVerifier(source: JwksSource = new RemoteJwksSource(GOOGLE_JWKS_URL)): IdentityTokenVerifier {
+  return new IdentityTokenVerifier({
+    provider: 'google',
+    issuers: ['https://accounts.google.com', 'accounts.google.com'],
+    audiences: clientIds(process.env.GOOGLE_CLIENT_ID, process.env.GOOGLE_IOS_CLIENT_ID),
+    keys: new JwksKeyCache(source),
+  });
+}
+
+const verifiers: Partial<Record<IdentityProvider, IdentityTokenVerifier>> = {};
+
+/** The shared verifier for the provider, so its keys are cached across requests */
+export function getIdentityTokenVerifier(provider: IdentityProvider): IdentityTokenVerifier {
+  if (!verifiers[provider]) {
+    verifiers[provider] = provider === 'apple' ? createAppleTokenVerifier() : createGoogleTokenVerifier();
+  }
+  return verifiers[provider]!;
+}
@@ -0,0 +1,134 @@
+import { AuthProvider } from '../../database/interfaces';
+
+const mockQuery = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  query: (...args: unknown[]) => mockQuery(...args),
+  transaction: (callback: (client: unknown) => Promise<unknown>) => callback({ query: mockQuery }),
+}));
+
+import { IdentityService } from './identity.service';
+
+describe('IdentityService', () => {
+  let service: IdentityService;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockQuery.mockResolvedValue({ rows: [] });
+    service = new IdentityService();
+  });
+
+  describe('findUserId', () => {
+    it('should return the linked user and note the sign-in', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ userId: 'user1' }] });
+
+      await expect(service.findUserId(AuthProvider.GOOGLE, 'google123')).resolves.toBe('user1');
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('SET last_used_at = NOW()');
+      expect(params).toEqual([AuthProvider.GOOGLE, 'google123']);
+    });
+
+    it('should return null for a provider account nobody linked', async () => {
+      await expect(service.findUserId(AuthProvider.APPLE, 'apple123')).resolves.toBeNull();
+    });
+  });
+
+  describe('getSignInMethods', () => {
+    it('should list the linked providers and whether there is a password', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ hasPassword: true }] })
+        .mockResolvedValueOnce({ rows: [{ identityId: 'identity1', provider: AuthProvider.GOOGLE }] });
+
+      await expect(service.getSignInMethods('user1')).resolves.toEqual({
+        hasPassword: true,
+        identities: [{ identityId: 'identity1', provider: AuthProvider.GOOGLE }],
+      });
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      await expect(service.getSignInMethods('nobody')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('link', () => {
+    it('should add the provider account alongside the others', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ identityId: 'identity2', provider: AuthProvider.APPLE }] });
+
+      const identity = await service.link('user1', AuthProvider.APPLE, 'apple123', 'ana@example.com');
+
+      expect(identity.identityId).toBe('identity2');
+      expect(mockQuery.mock.calls[0][1]).toEqual(['user1', AuthProvider.APPLE, 'apple123', 'ana@example.com']);
+    });
+
+    it('should refuse a provider account linked to another user', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ userId: 'user2', providerUserId: 'apple123' }] });
+
+      await expect(service.link('user1', AuthProvider.APPLE, 'apple123', undefined)).rejects.toMatchObject({
+        statusCode: 409,
+        message: 'This Apple account is linked to another RKRoots account',
+      });
+    });
+
+    it('should say so when the account is already linked to the user', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ userId: 'user1', providerUserId: 'apple123' }] });
+
+      await expect(service.link('user1', AuthProvider.APPLE, 'apple123', undefined)).rejects.toThrow(
+        'This Apple account is already linked'
+      );
+    });
+
+    it('should refuse a second account of the same provider', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ userId: 'user1', providerUserId: 'google-old' }] });
+
+      await expect(service.link('user1', AuthProvider.GOOGLE, 'google-new', undefined)).rejects.toThrow(
+        'Another Google account is already linked; unlink it first'
+      );
+    });
+  });
+
+  describe('unlink', () => {
+    it('should remove a method when another one is left', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ hasPassword: false }] })
+        .mockResolvedValueOnce({ rows: [{ identityId: 'identity1' }, { identityId: 'identity2' }] });
+
+      await service.unlink('user1', 'identity1');
+
+      const [sql, params] = mockQuery.mock.calls[2];
+      expect(sql).toContain('DELETE FROM user_identities');
+      expect(params).toEqual(['identity1', 'user1']);
+    });
+
+    it('should remove the only linked provider of a user with a password', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ hasPassword: true }] })
+        .mockResolvedValueOnce({ rows: [{ identityId: 'identity1' }] });
+
+      await expect(service.unlink('user1', 'identity1')).resolves.toBeUndefined();
+    });
+
+    it('should keep the last way to sign in', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ hasPassword: false }] })
+        .mockResolvedValueOnce({ rows: [{ identityId: 'identity1' }] });
+
+      await expect(service.unlink('user1', 'identity1')).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return 404 for a method the user does not have', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ hasPassword: true }] })
+        .mockResolvedValueOnce({ rows: [{ identityId: 'identity1' }] });
+
+      await expect(service.unlink('user1', 'someone-elses')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+});
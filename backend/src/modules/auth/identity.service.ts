@@ -0,0 +1,122 @@
+import { PoolClient } from 'pg';
+import { query, transaction } from '../../config/database';
+import { AuthProvider, UserIdentity } from '../../database/interfaces';
+import { AppError } from '../../common/errors/app-error';
+import { createLogger } from '../../common/logger';
+
+const logger = createLogger('identity-service');
+
+export type LinkedIdentity = Omit<UserIdentity, 'userId' | 'providerUserId'>;
+
+export interface SignInMethods {
+  /** Whether the user can sign in with email and password */
+  hasPassword: boolean;
+  identities: LinkedIdentity[];
+}
+
+export const PROVIDER_NAMES: Record<AuthProvider, string> = {
+  [AuthProvider.EMAIL]: 'Email',
+  [AuthProvider.GOOGLE]: 'Google',
+  [AuthProvider.APPLE]: 'Apple',
+};
+
+const IDENTITY_COLUMNS = `identity_id as "identityId", provider, email,
+  created_at as "createdAt", last_used_at as "lastUsedAt"`;
+
+/** The Google and Apple accounts linked to RKRoots accounts */
+export class IdentityService {
+  /** The user signing in with the provider account, if it is linked to one */
+  async findUserId(provider: AuthProvider, providerUserId: string): Promise<string | null> {
+    const result = await query<{ userId: string }>(
+      `UPDATE user_identities SET last_used_at = NOW()
+       WHERE provider = $1 AND provider_user_id = $2
+       RETURNING user_id as "userId"`,
+      [provider, providerUserId]
+    );
+    return result.rows[0]?.userId ?? null;
+  }
+
+  async getSignInMethods(userId: string): Promise<SignInMethods> {
+    const userResult = await query<{ hasPassword: boolean }>(
+      'SELECT password_hash IS NOT NULL as "hasPassword" FROM users WHERE user_id = $1',
+      [userId]
+    );
+    if (userResult.rows.length === 0) {
+      throw new AppError('User not found', 404);
+    }
+
+    const result = await query<LinkedIdentity>(
+      `SELECT ${IDENTITY_COLUMNS} FROM user_identities WHERE user_id = $1 ORDER BY created_at`,
+      [userId]
+    );
+    return { hasPassword: userResult.rows[0].hasPassword, identities: result.rows };
+  }
+
+  /**
+   * Links the provider account to the user. Fails if it already belongs to
+   * someone, or if the user already has a different account of that provider.
+   */
+  async link(
+    userId: string,
+    provider: AuthProvider,
+    providerUserId: string,
+    email: string | undefined,
+    client?: PoolClient
+  ): Promise<LinkedIdentity> {
+    const sql = `INSERT INTO user_identities (user_id, provider, provider_user_id, email)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT DO NOTHING
+       RETURNING ${IDENTITY_COLUMNS}`;
+    const params = [userId, provider, providerUserId, email ?? null];
+    const result = client
+      ? await client.query<LinkedIdentity>(sql, params)
+      : await query<LinkedIdentity>(sql, params);
+
+    if (result.rows.length > 0) {
+      logger.info({ action: 'linkIdentity', userId, provider }, 'Sign-in method linked');
+      return result.rows[0];
+    }
+
+    const conflictSql = `SELECT user_id as "userId", provider_user_id as "providerUserId"
+       FROM user_identities WHERE provider = $1 AND (provider_user_id = $2 OR user_id = $3)`;
+    const conflictParams = [provider, providerUserId, userId];
+    const conflict = client
+      ? await client.query<{ userId: string; providerUserId: string }>(conflictSql, conflictParams)
+      : await query<{ userId: string; providerUserId: string }>(conflictSql, conflictParams);
+
+    const owner = conflict.rows.find((row) => row.providerUserId === providerUserId);
+    if (owner && owner.userId !== userId) {
+      throw new AppError(`This ${PROVIDER_NAMES[provider]} account is linked to another RKRoots account`, 409);
+    }
+    if (owner) {
+      throw new AppError(`This ${PROVIDER_NAMES[provider]} account is already linked`, 409);
+    }
+    throw new AppError(`Another ${PROVIDER_NAMES[provider]} account is already linked; unlink it first`, 409);
+  }
+
+  /** Unlinks a provider account, unless it is the only way left to sign in */
+  async unlink(userId: string, identityId: string): Promise<void> {
+    await transaction(async (client) => {
+      // Locks the user so two unlinks can't each leave the other as the last method
+      const userResult = await client.query<{ hasPassword: boolean }>(
+        'SELECT password_hash IS NOT NULL as "hasPassword" FROM users WHERE user_id = $1 FOR UPDATE',
+        [userId]
+      );
+      const identities = await client.query<{ identityId: string }>(
+        'SELECT identity_id as "identityId" FROM user_identities WHERE user_id = $1',
+        [userId]
+      );
+
+      if (!identities.rows.some((row) => row.identityId === identityId)) {
+        throw new AppError('Sign-in method not found', 404);
+      }
+      if (!userResult.rows[0]?.hasPassword && identities.rows.length === 1) {
+        throw new AppError('Set a password or link another sign-in method before removing this one', 409);
+      }
+
+      await client.query('DELETE FROM user_identities WHERE identity_id = $1 AND user_id = $2', [identityId, userId]);
+    });
+
+    logger.info({ action: 'unlinkIdentity', userId, identityId }, 'Sign-in method unlinked');
+  }
+}
@@ -0,0 +1,28 @@
+import { createLogger } from '../../common/logger';
+import { SessionService } from './session.service';
+
+const logger = createLogger('session-cleanup');
+
+const CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Drops long-ended sessions on startup and then daily. The timer does not keep
+ * the process alive on shutdown.
+ */
+export function startSessionCleanupJob(sessionService: SessionService = new SessionService()): NodeJS.Timeout {
+  const run = async (): Promise<void> => {
+    try {
+      const purged = await sessionService.purgeEnded();
+      if (purged > 0) {
+        logger.info({ purged }, 'Purged ended sessions');
+      }
+    } catch (error) {
+      logger.error({ err: error }, 'Session cleanup failed');
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, CLEANUP_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
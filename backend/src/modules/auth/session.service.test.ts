@@ -0,0 +1,166 @@
+import { createHash } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { SessionRevokedReason } from '../../database/interfaces';
+
+const mockQuery = jest.fn();
+const mockCacheSet = jest.fn();
+const mockDisconnectSessions = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  query: (...args: unknown[]) => mockQuery(...args),
+}));
+
+jest.mock('../../config/redis', () => ({
+  CacheService: jest.fn().mockImplementation(() => ({
+    get: jest.fn().mockResolvedValue(null),
+    set: (...args: unknown[]) => mockCacheSet(...args),
+  })),
+}));
+
+jest.mock('../realtime/realtime.service', () => ({
+  RealtimeService: jest.fn().mockImplementation(() => ({
+    disconnectSessions: mockDisconnectSessions,
+  })),
+}));
+
+import { SessionService } from './session.service';
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+describe('SessionService', () => {
+  let service: SessionService;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockQuery.mockResolvedValue({ rows: [] });
+    mockCacheSet.mockReset();
+    mockCacheSet.mockResolvedValue(undefined);
+    mockDisconnectSessions.mockReset();
+    service = new SessionService();
+  });
+
+  describe('createSession', () => {
+    it('should store only a hash of the refresh token, with the device', async () => {
+      const tokens = await service.createSession('user1', { deviceName: 'Pixel 8', ipAddress: '203.0.113.7' });
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('INSERT INTO auth_sessions');
+      expect(params.slice(0, 6)).toEqual([
+        tokens.sessionId,
+        'user1',
+        sha256(tokens.refreshToken),
+        'Pixel 8',
+        null,
+        '203.0.113.7',
+      ]);
+      expect(params).not.toContain(tokens.refreshToken);
+    });
+
+    it('should tie both tokens to the session', async () => {
+      const tokens = await service.createSession('user1');
+
+      expect(jwt.decode(tokens.accessToken)).toMatchObject({ userId: 'user1', sid: tokens.sessionId });
+      expect(jwt.decode(tokens.refreshToken)).toMatchObject({ userId: 'user1', sid: tokens.sessionId });
+    });
+  });
+
+  describe('rotate', () => {
+    it('should swap the refresh token for a new one', async () => {
+      const { refreshToken, sessionId } = await service.createSession('user1');
+      mockQuery.mockReset();
+      mockQuery.mockResolvedValueOnce({ rows: [{ sessionId }] });
+
+      const rotated = await service.rotate(refreshToken);
+
+      expect(rotated.sessionId).toBe(sessionId);
+      expect(rotated.refreshToken).not.toBe(refreshToken);
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('revoked_at IS NULL AND expires_at > NOW()');
+      expect(params[0]).toBe(sha256(rotated.refreshToken));
+      expect(params[6]).toBe(sha256(refreshToken));
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should revoke the session when an already rotated token comes back', async () => {
+      const { refreshToken, sessionId } = await service.createSession('user1');
+      mockQuery.mockReset();
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ sessionId }] });
+
+      await expect(service.rotate(refreshToken)).rejects.toMatchObject({ message: 'Invalid refresh token', statusCode: 401 });
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('refresh_token_hash <> $4');
+      expect(params).toEqual([SessionRevokedReason.REUSE, sessionId, 'user1', sha256(refreshToken)]);
+      expect(mockCacheSet).toHaveBeenCalledWith(`revoked-session:${sessionId}`, true, 3600);
+    });
+
+    it('should reject a token of a session that already ended', async () => {
+      const { refreshToken } = await service.createSession('user1');
+      mockQuery.mockReset();
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      await expect(service.rotate(refreshToken)).rejects.toThrow('Invalid refresh token');
+      expect(mockCacheSet).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token without a session', async () => {
+      const legacyToken = jwt.sign({ userId: 'user1' }, process.env.JWT_REFRESH_SECRET || 'refresh-secret');
+
+      await expect(service.rotate(legacyToken)).rejects.toThrow('Invalid refresh token');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token with a bad signature', async () => {
+      await expect(service.rotate('not-a-token')).rejects.toThrow('Invalid refresh token');
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should revoke only the user\'s own session', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ sessionId: 'session1' }] });
+
+      await service.revokeSession('user1', 'session1', SessionRevokedReason.LOGOUT);
+
+      expect(mockQuery.mock.calls[0][1]).toEqual([SessionRevokedReason.LOGOUT, 'session1', 'user1']);
+      expect(mockCacheSet).toHaveBeenCalledWith('revoked-session:session1', true, 3600);
+    });
+
+    it('should return 404 when there is no such active session', async () => {
+      await expect(service.revokeSession('user1', 'session1', SessionRevokedReason.REVOKED)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+
+    it('should still revoke when Redis is unavailable', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ sessionId: 'session1' }] });
+      mockCacheSet.mockRejectedValueOnce(new Error('connection refused'));
+
+      await expect(service.revokeSession('user1', 'session1', SessionRevokedReason.REVOKED)).resolves.toBeUndefined();
+      expect(mockDisconnectSessions).toHaveBeenCalledWith(['session1']);
+    });
+  });
+
+  describe('revokeAllSessions', () => {
+    it('should revoke every active session and flag each one', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ sessionId: 'session1' }, { sessionId: 'session2' }] });
+
+      await expect(service.revokeAllSessions('user1', SessionRevokedReason.PASSWORD_RESET)).resolves.toBe(2);
+
+      expect(mockCacheSet).toHaveBeenCalledWith('revoked-session:session1', true, 3600);
+      expect(mockCacheSet).toHaveBeenCalledWith('revoked-session:session2', true, 3600);
+      expect(mockDisconnectSessions).toHaveBeenCalledWith(['session1', 'session2']);
+    });
+  });
+
+  describe('listSessions', () => {
+    it('should flag the session making the request', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ sessionId: 'session1' }, { sessionId: 'session2' }] });
+
+      const sessions = await service.listSessions('user1', 'session2');
+
+      expect(sessions.map((session) => session.current)).toEqual([false, true]);
+    });
+  });
+});
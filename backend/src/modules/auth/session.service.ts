@@ -0,0 +1,220 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { query } from '../../config/database';
+import { CacheService } from '../../config/redis';
+import { AuthSession, SessionRevokedReason } from '../../database/interfaces';
+import { AppError } from '../../common/errors/app-error';
+import { createLogger } from '../../common/logger';
+import { revokedSessionKey } from '../../common/middleware/auth.middleware';
+import { RealtimeService } from '../realtime/realtime.service';
+
+export { SessionRevokedReason };
+
+const logger = createLogger('session-service');
+
+export const ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+export const REFRESH_TOKEN_TTL_DAYS = 7;
+/** How long ended sessions stay listed in the table before the cleanup job drops them */
+export const ENDED_SESSION_RETENTION_DAYS = 30;
+
+/** What the client told us about itself when it signed in or refreshed */
+export interface SessionContext {
+  deviceName?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  sessionId: string;
+}
+
+export type SessionSummary = Omit<AuthSession, 'userId' | 'revokedAt' | 'revokedReason'> & { current: boolean };
+
+function hashRefreshToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+const SESSION_COLUMNS = `session_id as "sessionId", device_name as "deviceName", user_agent as "userAgent",
+  ip_address as "ipAddress", created_at as "createdAt", last_used_at as "lastUsedAt", expires_at as "expiresAt"`;
+
+/**
+ * One session per sign-in. Each refresh swaps the session's refresh token for a
+ * new one, and presenting a token that was already swapped out ends the
+ * session: either the client or whoever copied the token is not who they seem.
+ */
+export class SessionService {
+  private cache: CacheService;
+  private realtimeService: RealtimeService;
+
+  constructor() {
+    this.cache = new CacheService();
+    this.realtimeService = new RealtimeService();
+  }
+
+  async createSession(userId: string, context: SessionContext = {}): Promise<SessionTokens> {
+    const sessionId = randomUUID();
+    const tokens = this.signTokens(userId, sessionId);
+
+    await query(
+      `INSERT INTO auth_sessions (session_id, user_id, refresh_token_hash, device_name, user_agent, ip_address, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, NOW() + make_interval(days => $7))`,
+      [
+        sessionId,
+        userId,
+        hashRefreshToken(tokens.refreshToken),
+        context.deviceName ?? null,
+        context.userAgent ?? null,
+        context.ipAddress ?? null,
+        REFRESH_TOKEN_TTL_DAYS,
+      ]
+    );
+
+    logger.info({ action: 'createSession', userId, sessionId }, 'Session started');
+    return tokens;
+  }
+
+  /**
+   * Trades a refresh token for new tokens on the same session. A token that
+   * verifies but is no longer the session's current one is a replay, and the
+   * whole session is revoked.
+   */
+  async rotate(refreshToken: string, context: SessionContext = {}): Promise<SessionTokens> {
+    let payload: { userId: string; sid?: string };
+    try {
+      payload = jwt.verify(refreshToken, process.env.JWT_REFRESH_SECRET || 'refresh-secret') as { userId: string; sid?: string };
+    } catch {
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    // Tokens from before sessions existed can't be revoked, so they are no longer honoured
+    if (!payload.sid) {
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    const tokens = this.signTokens(payload.userId, payload.sid);
+    const oldHash = hashRefreshToken(refreshToken);
+
+    const result = await query(
+      `UPDATE auth_sessions
+       SET refresh_token_hash = $1, last_used_at = NOW(), expires_at = NOW() + make_interval(days => $2),
+           user_agent = COALESCE($3, user_agent), ip_address = COALESCE($4, ip_address)
+       WHERE session_id = $5 AND user_id = $6 AND refresh_token_hash = $7
+         AND revoked_at IS NULL AND expires_at > NOW()
+       RETURNING session_id as "sessionId"`,
+      [
+        hashRefreshToken(tokens.refreshToken),
+        REFRESH_TOKEN_TTL_DAYS,
+        context.userAgent ?? null,
+        context.ipAddress ?? null,
+        payload.sid,
+        payload.userId,
+        oldHash,
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      const reused = await query(
+        `UPDATE auth_sessions SET revoked_at = NOW(), revoked_reason = $1
+         WHERE session_id = $2 AND user_id = $3 AND refresh_token_hash <> $4 AND revoked_at IS NULL
+         RETURNING session_id as "sessionId"`,
+        [SessionRevokedReason.REUSE, payload.sid, payload.userId, oldHash]
+      );
+      if (reused.rows.length > 0) {
+        logger.warn({ action: 'refreshReuse', userId: payload.userId, sessionId: payload.sid }, 'Refresh token reused; session revoked');
+        await this.markRevoked([payload.sid]);
+      }
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    return tokens;
+  }
+
+  /** The user's active sessions, most recently used first */
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    const result = await query<Omit<SessionSummary, 'current'>>(
+      `SELECT ${SESSION_COLUMNS}
+       FROM auth_sessions
+       WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+       ORDER BY last_used_at DESC`,
+      [userId]
+    );
+
+    return result.rows.map((session) => ({ ...session, current: session.sessionId === currentSessionId }));
+  }
+
+  async revokeSession(userId: string, sessionId: string, reason: SessionRevokedReason): Promise<void> {
+    const result = await query(
+      `UPDATE auth_sessions SET revoked_at = NOW(), revoked_reason = $1
+       WHERE session_id = $2 AND user_id = $3 AND revoked_at IS NULL
+       RETURNING session_id as "sessionId"`,
+      [reason, sessionId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Session not found', 404);
+    }
+
+    logger.info({ action: 'revokeSession', userId, sessionId, reason }, 'Session revoked');
+    await this.markRevoked([sessionId]);
+  }
+
+  /** Ends every session of the user; returns how many were active */
+  async revokeAllSessions(userId: string, reason: SessionRevokedReason): Promise<number> {
+    const result = await query<{ sessionId: string }>(
+      `UPDATE auth_sessions SET revoked_at = NOW(), revoked_reason = $1
+       WHERE user_id = $2 AND revoked_at IS NULL
+       RETURNING session_id as "sessionId"`,
+      [reason, userId]
+    );
+
+    const sessionIds = result.rows.map((row) => row.sessionId);
+    logger.info({ action: 'revokeAllSessions', userId, count: sessionIds.length, reason }, 'All sessions revoked');
+    await this.markRevoked(sessionIds);
+    return sessionIds.length;
+  }
+
+  /** Drops sessions that expired or were revoked long enough ago; returns how many */
+  async purgeEnded(): Promise<number> {
+    const result = await query(
+      `DELETE FROM auth_sessions
+       WHERE expires_at < NOW() - make_interval(days => $1)
+          OR revoked_at < NOW() - make_interval(days => $1)`,
+      [ENDED_SESSION_RETENTION_DAYS]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Tells authMiddleware to turn away the sessions' access tokens, which are
+   * otherwise good for up to an hour. The database stays the source of truth,
+   * so a Redis failure only delays the sign-out until those tokens expire.
+   * Live streams opened with the sessions are closed straight away.
+   */
+  private async markRevoked(sessionIds: string[]): Promise<void> {
+    this.realtimeService.disconnectSessions(sessionIds);
+    try {
+      await Promise.all(sessionIds.map((sessionId) =>
+        this.cache.set(revokedSessionKey(sessionId), true, ACCESS_TOKEN_TTL_SECONDS)
+      ));
+    } catch (error) {
+      logger.error({ err: error, sessionIds }, 'Failed to cache session revocation');
+    }
+  }
+
+  private signTokens(userId: string, sessionId: string): SessionTokens {
+    return {
+      accessToken: jwt.sign({ userId, sid: sessionId }, process.env.JWT_SECRET || 'secret', {
+        expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      }),
+      // jti keeps two refreshes within the same second from producing the same token
+      refreshToken: jwt.sign(
+        { userId, sid: sessionId, jti: randomBytes(16).toString('hex') },
+        process.env.JWT_REFRESH_SECRET || 'refresh-secret',
+        { expiresIn: `${REFRESH_TOKEN_TTL_DAYS}d` }
+      ),
+      sessionId,
+    };
+  }
+}
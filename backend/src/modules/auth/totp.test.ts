@@ -0,0 +1,47 @@
+import { base32Decode, base32Encode, generateTotpSecret, matchTotpStep, totpCode, totpStep, totpUri } from './totp';
+
+// The SHA-1 seed from RFC 6238's test vectors, "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  it('should round-trip base32', () => {
+    const bytes = Buffer.from([0, 1, 2, 250, 251, 255, 17]);
+
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+  });
+
+  it('should match the RFC 6238 test vectors', () => {
+    expect(totpCode(RFC_SECRET, totpStep(59 * 1000), 8)).toBe('94287082');
+    expect(totpCode(RFC_SECRET, totpStep(1111111109 * 1000), 8)).toBe('07081804');
+    expect(totpCode(RFC_SECRET, totpStep(2000000000 * 1000), 8)).toBe('69279037');
+    expect(totpCode(RFC_SECRET, totpStep(59 * 1000))).toBe('287082');
+  });
+
+  it('should accept the current code and its neighbours, returning their step', () => {
+    const now = 1_700_000_000_000;
+    const step = totpStep(now);
+
+    expect(matchTotpStep(RFC_SECRET, totpCode(RFC_SECRET, step), now)).toBe(step);
+    expect(matchTotpStep(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now)).toBe(step - 1);
+    expect(matchTotpStep(RFC_SECRET, totpCode(RFC_SECRET, step + 1), now)).toBe(step + 1);
+    expect(matchTotpStep(RFC_SECRET, totpCode(RFC_SECRET, step - 2), now)).toBeNull();
+  });
+
+  it('should reject codes of the wrong length', () => {
+    expect(matchTotpStep(RFC_SECRET, '12345')).toBeNull();
+    expect(matchTotpStep(RFC_SECRET, 'abcd-efgh')).toBeNull();
+  });
+
+  it('should generate 160-bit secrets', () => {
+    expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+  });
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    const uri = totpUri('JBSWY3DPEHPK3PXP', 'ana@example.com');
+
+    expect(uri).toMatch(/^otpauth:\/\/totp\/RKRoots%3Aana%40example\.com\?/);
+    expect(new URL(uri).searchParams.get('secret')).toBe('JBSWY3DPEHPK3PXP');
+    expect(new URL(uri).searchParams.get('issuer')).toBe('RKRoots');
+  });
+});
@@ -0,0 +1,130 @@
+import { createHash } from 'crypto';
+import { totpCode, totpStep } from './totp';
+
+const mockQuery = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  query: (...args: unknown[]) => mockQuery(...args),
+  transaction: (callback: (client: unknown) => Promise<unknown>) => callback({ query: mockQuery }),
+}));
+
+import { RECOVERY_CODE_COUNT, TwoFactorService } from './two-factor.service';
+
+const SECRET = 'JBSWY3DPEHPK3PXP';
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockQuery.mockResolvedValue({ rows: [] });
+    service = new TwoFactorService();
+  });
+
+  describe('beginEnrollment', () => {
+    it('should return a new secret and its otpauth URI', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ user_id: 'user1' }] });
+
+      const enrollment = await service.beginEnrollment('user1', 'ana@example.com');
+
+      expect(enrollment.otpauthUrl).toContain(`secret=${enrollment.secret}`);
+      expect(mockQuery.mock.calls[0][1]).toEqual(['user1', enrollment.secret]);
+    });
+
+    it('should not replace the secret of 2FA that is already on', async () => {
+      await expect(service.beginEnrollment('user1', 'ana@example.com')).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('confirmEnrollment', () => {
+    it('should turn 2FA on and hand out hashed-at-rest recovery codes', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ totpSecret: SECRET, enabledAt: null }] });
+
+      const codes = await service.confirmEnrollment('user1', totpCode(SECRET, totpStep()));
+
+      expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+      expect(codes[0]).toMatch(/^[a-z2-7]{4}-[a-z2-7]{4}$/);
+      const insert = mockQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO two_factor_recovery_codes'));
+      expect(insert![1][1]).toContain(sha256(codes[0].replace('-', '')));
+      expect(insert![1][1]).not.toContain(codes[0]);
+    });
+
+    it('should reject a wrong code', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ totpSecret: SECRET, enabledAt: null }] });
+
+      await expect(service.confirmEnrollment('user1', '000000')).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('verify', () => {
+    const settings = (overrides: object = {}) => ({
+      rows: [{ totpSecret: SECRET, lastUsedStep: 0, lockedUntil: null, ...overrides }],
+    });
+
+    it('should accept the current code once', async () => {
+      mockQuery
+        .mockResolvedValueOnce(settings())
+        .mockResolvedValueOnce({ rows: [{ user_id: 'user1' }] });
+
+      await expect(service.verify('user1', totpCode(SECRET, totpStep()))).resolves.toBeUndefined();
+      expect(mockQuery.mock.calls[1][0]).toContain('last_used_step < $2');
+    });
+
+    it('should refuse a code that was already used', async () => {
+      const step = totpStep();
+      mockQuery.mockResolvedValueOnce(settings({ lastUsedStep: step }));
+
+      await expect(service.verify('user1', totpCode(SECRET, step))).rejects.toMatchObject({
+        statusCode: 401,
+        code: 'INVALID_TWO_FACTOR_CODE',
+      });
+    });
+
+    it('should accept an unused recovery code, however it is typed', async () => {
+      mockQuery
+        .mockResolvedValueOnce(settings())
+        .mockResolvedValueOnce({ rows: [{ code_id: 'code1' }] });
+
+      await service.verify('user1', ' ABCD-EFGH ');
+
+      expect(mockQuery.mock.calls[1][1]).toEqual(['user1', sha256('abcdefgh')]);
+    });
+
+    it('should lock after too many wrong codes', async () => {
+      mockQuery
+        .mockResolvedValueOnce(settings())
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ locked: true }] });
+
+      await expect(service.verify('user1', 'wrong-code')).rejects.toMatchObject({ statusCode: 429 });
+    });
+
+    it('should not check codes while locked', async () => {
+      mockQuery.mockResolvedValueOnce(settings({ lockedUntil: new Date(Date.now() + 60_000) }));
+
+      await expect(service.verify('user1', totpCode(SECRET, totpStep()))).rejects.toMatchObject({
+        code: 'TWO_FACTOR_LOCKED',
+      });
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('disable', () => {
+    it('should remove the secret and recovery codes', async () => {
+      await service.disable('user1');
+
+      const statements = mockQuery.mock.calls.map(([sql]) => sql);
+      expect(statements).toContain('DELETE FROM user_two_factor WHERE user_id = $1');
+      expect(statements).toContain('DELETE FROM two_factor_recovery_codes WHERE user_id = $1');
+    });
+
+    it('should refuse while the user owns a tree that requires 2FA', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ treeName: 'Silva Family' }] });
+
+      await expect(service.disable('user1')).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import { createHash, randomBytes } from 'crypto';
+import { PoolClient } from 'pg';
+import { query, transaction } from '../../config/database';
+import { UserTwoFactor } from '../../database/interfaces';
+import { AppError } from '../../common/errors/app-error';
+import { createLogger } from '../../common/logger';
+import { base32Encode, generateTotpSecret, matchTotpStep, totpUri } from './totp';
+
+const logger = createLogger('two-factor-service');
+
+export const RECOVERY_CODE_COUNT = 10;
+/** Wrong codes in a row before the account stops taking codes for a while */
+export const MAX_FAILED_ATTEMPTS = 5;
+export const LOCKOUT_MINUTES = 15;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  /** Base32, for typing into an authenticator app by hand */
+  secret: string;
+  /** otpauth:// URI to show as a QR code */
+  otpauthUrl: string;
+}
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+/** Recovery codes are compared without case or the hyphen, since people retype them */
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[\s-]/g, '');
+
+function generateRecoveryCode(): string {
+  const code = base32Encode(randomBytes(5)).toLowerCase();
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+/** TOTP two-factor authentication and its one-time recovery codes */
+export class TwoFactorService {
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const result = await query<{ enabled: boolean; recoveryCodesRemaining: number }>(
+      `SELECT tf.enabled_at IS NOT NULL as "enabled",
+              (SELECT COUNT(*)::int FROM two_factor_recovery_codes rc
+               WHERE rc.user_id = tf.user_id AND rc.used_at IS NULL) as "recoveryCodesRemaining"
+       FROM user_two_factor tf WHERE tf.user_id = $1`,
+      [userId]
+    );
+    const row = result.rows[0];
+    return row?.enabled
+      ? { enabled: true, recoveryCodesRemaining: row.recoveryCodesRemaining }
+      : { enabled: false, recoveryCodesRemaining: 0 };
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const result = await query(
+      'SELECT 1 FROM user_two_factor WHERE user_id = $1 AND enabled_at IS NOT NULL',
+      [userId]
+    );
+    return result.rows.length > 0;
+  }
+
+  /** Starts over with a new secret; nothing changes until confirmEnrollment */
+  async beginEnrollment(userId: string, accountName: string): Promise<TwoFactorEnrollment> {
+    const secret = generateTotpSecret();
+    const result = await query(
+      `INSERT INTO user_two_factor (user_id, totp_secret)
+       VALUES ($1, $2)
+       ON CONFLICT (user_id) DO UPDATE
+         SET totp_secret = EXCLUDED.totp_secret, last_used_step = 0, failed_attempts = 0,
+             locked_until = NULL, created_at = NOW()
+         WHERE user_two_factor.enabled_at IS NULL
+       RETURNING user_id`,
+      [userId, secret]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Two-factor authentication is already on', 409);
+    }
+
+    return { secret, otpauthUrl: totpUri(secret, accountName) };
+  }
+
+  /** Turns 2FA on once the app shows the right code; returns the recovery codes, shown only now */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const result = await query<Pick<UserTwoFactor, 'totpSecret' | 'enabledAt'>>(
+      'SELECT totp_secret as "totpSecret", enabled_at as "enabledAt" FROM user_two_factor WHERE user_id = $1',
+      [userId]
+    );
+
+    const pending = result.rows[0];
+    if (!pending) {
+      throw new AppError('Start setting up two-factor authentication first', 400);
+    }
+    if (pending.enabledAt) {
+      throw new AppError('Two-factor authentication is already on', 409);
+    }
+
+    const step = matchTotpStep(pending.totpSecret, code);
+    if (step === null) {
+      throw new AppError('That code is not right; check the time on your phone and try again', 400);
+    }
+
+    const recoveryCodes = await transaction(async (client) => {
+      await client.query(
+        'UPDATE user_two_factor SET enabled_at = NOW(), last_used_step = $2 WHERE user_id = $1',
+        [userId, step]
+      );
+      return this.replaceRecoveryCodes(userId, client);
+    });
+
+    logger.info({ action: 'enableTwoFactor', userId }, 'Two-factor authentication turned on');
+    return recoveryCodes;
+  }
+
+  /**
+   * Accepts a code from the authenticator app or an unused recovery code.
+   * Each works once, and too many wrong codes lock 2FA for a while.
+   */
+  async verify(userId: string, code: string): Promise<void> {
+    const result = await query<Pick<UserTwoFactor, 'totpSecret' | 'lastUsedStep' | 'lockedUntil'>>(
+      `SELECT totp_secret as "totpSecret", last_used_step as "lastUsedStep", locked_until as "lockedUntil"
+       FROM user_two_factor WHERE user_id = $1 AND enabled_at IS NOT NULL`,
+      [userId]
+    );
+
+    const settings = result.rows[0];
+    if (!settings) {
+      throw new AppError('Two-factor authentication is not on', 400);
+    }
+    if (settings.lockedUntil && new Date(settings.lockedUntil) > new Date()) {
+      throw new AppError('Too many wrong codes. Try again later.', 429, 'TWO_FACTOR_LOCKED');
+    }
+
+    const step = matchTotpStep(settings.totpSecret, code);
+    if (step !== null && step > Number(settings.lastUsedStep)) {
+      // The condition makes two requests racing with the same code use it only once
+      const accepted = await query(
+        `UPDATE user_two_factor SET last_used_step = $2, failed_attempts = 0, locked_until = NULL
+         WHERE user_id = $1 AND last_used_step < $2
+         RETURNING user_id`,
+        [userId, step]
+      );
+      if (accepted.rows.length > 0) return;
+    } else if (step === null && (await this.useRecoveryCode(userId, code))) {
+      return;
+    }
+
+    await this.recordFailure(userId);
+  }
+
+  /** Turns 2FA off, unless the user owns or co-owns a tree that requires it */
+  async disable(userId: string): Promise<void> {
+    const requiring = await query<{ treeName: string }>(
+      `SELECT ft.tree_name as "treeName" FROM family_trees ft
+       JOIN tree_access ta ON ta.tree_id = ft.tree_id
+       WHERE ta.user_id = $1 AND ta.access_level = 'owner' AND ft.require_two_factor AND ft.deleted_at IS NULL
+       LIMIT 1`,
+      [userId]
+    );
+    if (requiring.rows.length > 0) {
+      throw new AppError(
+        `"${requiring.rows[0].treeName}" requires two-factor authentication; turn that off first`,
+        409
+      );
+    }
+
+    await transaction(async (client) => {
+      await client.query('DELETE FROM two_factor_recovery_codes WHERE user_id = $1', [userId]);
+      await client.query('DELETE FROM user_two_factor WHERE user_id = $1', [userId]);
+    });
+
+    logger.info({ action: 'disableTwoFactor', userId }, 'Two-factor authentication turned off');
+  }
+
+  /** Replaces every recovery code, used or not */
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    if (!(await this.isEnabled(userId))) {
+      throw new AppError('Two-factor authentication is not on', 400);
+    }
+    const codes = await transaction((client) => this.replaceRecoveryCodes(userId, client));
+    logger.info({ action: 'regenerateRecoveryCodes', userId }, 'Recovery codes replaced');
+    return codes;
+  }
+
+  private async replaceRecoveryCodes(userId: string, client: PoolClient): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    await client.query('DELETE FROM two_factor_recovery_codes WHERE user_id = $1', [userId]);
+    await client.query(
+      `INSERT INTO two_factor_recovery_codes (user_id, code_hash)
+       SELECT $1, UNNEST($2::text[])`,
+      [userId, codes.map((code) => sha256(normalizeRecoveryCode(code)))]
+    );
+    return codes;
+  }
+
+  private async useRecoveryCode(userId: string, code: string): Promise<boolean> {
+    const result = await query(
+      `UPDATE two_factor_recovery_codes SET used_at = NOW()
+       WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+       RETURNING code_id`,
+      [userId, sha256(normalizeRecoveryCode(code))]
+    );
+    if (result.rows.length === 0) {
+      return false;
+    }
+
+    await query('UPDATE user_two_factor SET failed_attempts = 0, locked_until = NULL WHERE user_id = $1', [userId]);
+    logger.info({ action: 'useRecoveryCode', userId }, 'Recovery code used');
+    return true;
+  }
+
+  private async recordFailure(userId: string): Promise<never> {
+    const result = await query<{ locked: boolean }>(
+      `UPDATE user_two_factor SET
+         failed_attempts = CASE WHEN failed_attempts + 1 >= $2 THEN 0 ELSE failed_attempts + 1 END,
+         locked_until = CASE WHEN failed_attempts + 1 >= $2 THEN NOW() + make_interval(mins => $3) ELSE locked_until END
+       WHERE user_id = $1
+       RETURNING locked_until IS NOT NULL AND locked_until > NOW() as "locked"`,
+      [userId, MAX_FAILED_ATTEMPTS, LOCKOUT_MINUTES]
+    );
+
+    if (result.rows[0]?.locked) {
+      logger.warn({ action: 'lockTwoFactor', userId }, 'Two-factor locked after repeated wrong codes');
+      throw new AppError('Too many wrong codes. Try again later.', 429, 'TWO_FACTOR_LOCKED');
+    }
+    throw new AppError('Invalid code', 401, 'INVALID_TWO_FACTOR_CODE');
+  }
+}
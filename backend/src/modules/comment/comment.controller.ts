@@ -1,6 +1,7 @@
 import { Response, NextFunction } from 'express';
 import { CommentService } from './comment.service';
 import { AuthRequest } from '../../common/middleware/auth.middleware';
+import { pageRequestFromQuery } from '../../common/utils/pagination';
 import { EntityType } from '../../database/interfaces';
 
 export class CommentController {
@@ -27,7 +28,8 @@ export class CommentController {
         req.query.treeId as string,
         req.query.entityType as EntityType,
         req.query.entityId as string,
-        req.userId!
+        req.userId!,
+        pageRequestFromQuery(req.query)
       );
       res.json(comments);
     } catch (error) {
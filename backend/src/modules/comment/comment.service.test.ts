@@ -1,7 +1,10 @@
-import { AccessLevel, EntityType } from '../../database/interfaces';
+import { AccessLevel, AuditAction, AuditEntityType, EntityType } from '../../database/interfaces';
 
 const mockQuery = jest.fn();
+const mockRecordAudit = jest.fn();
+const mockRecordAuditMany = jest.fn();
 const mockNotifyCommentAdded = jest.fn();
+const mockPublishChange = jest.fn();
 
 jest.mock('../../config/database', () => ({
   query: (...args: unknown[]) => mockQuery(...args),
@@ -13,6 +16,19 @@ jest.mock('../notification/notification.service', () => ({
   })),
 }));
 
+jest.mock('../audit/audit.service', () => ({
+  AuditService: jest.fn().mockImplementation(() => ({
+    record: mockRecordAudit,
+    recordMany: mockRecordAuditMany,
+  })),
+}));
+
+jest.mock('../realtime/realtime.service', () => ({
+  RealtimeService: jest.fn().mockImplementation(() => ({
+    publishChange: mockPublishChange,
+  })),
+}));
+
 import { CommentService } from './comment.service';
 
 describe('CommentService', () => {
@@ -20,8 +36,11 @@ describe('CommentService', () => {
 
   beforeEach(() => {
     mockQuery.mockReset();
+    mockRecordAudit.mockReset();
+    mockRecordAuditMany.mockReset();
     mockNotifyCommentAdded.mockReset();
     mockNotifyCommentAdded.mockResolvedValue(undefined);
+    mockPublishChange.mockReset();
     commentService = new CommentService();
   });
 
@@ -51,6 +70,15 @@ describe('CommentService', () => {
 
       expect(result.entityType).toBe(EntityType.NODE);
       expect(result.commentText).toBe('This is a comment on a node');
+      expect(mockPublishChange).toHaveBeenCalledWith({
+        treeId: 'tree123',
+        entityType: AuditEntityType.COMMENT,
+        entityId: 'comment123',
+        action: AuditAction.CREATE,
+        actorUserId: 'user123',
+        parentEntityType: EntityType.NODE,
+        parentEntityId: 'node123',
+      });
     });
 
     it('should create comment on event entity type (Requirements 9.1)', async () => {
@@ -218,7 +246,7 @@ describe('CommentService', () => {
 
       const result = await commentService.getComments(treeId, entityType, entityId, userId);
 
-      expect(result.length).toBe(3);
+      expect(result.items.length).toBe(3);
       expect(mockQuery.mock.calls[1][0]).toContain('ORDER BY');
       expect(mockQuery.mock.calls[1][0]).toContain('created_at');
     });
@@ -1,11 +1,24 @@
 import { query } from '../../config/database';
-import { Comment, EntityType } from '../../database/interfaces';
+import { AuditAction, AuditEntityType, Comment, EntityType } from '../../database/interfaces';
 import { AccessControlService } from '../../common/services/access-control.service';
 import { NotificationService } from '../notification/notification.service';
+import { AuditService } from '../audit/audit.service';
+import { RealtimeService } from '../realtime/realtime.service';
 import { AppError } from '../../common/errors/app-error';
+import { Page, PageRequest, PaginationSpec, preparePage, toPage } from '../../common/utils/pagination';
 
 export { EntityType };
 
+const COMMENT_SELECT_FIELDS = `comment_id as "commentId", tree_id as "treeId", entity_type as "entityType", entity_id as "entityId", user_id as "userId", comment_text as "commentText", created_at as "createdAt", updated_at as "updatedAt"`;
+
+const COMMENT_PAGINATION: PaginationSpec = {
+  sorts: {
+    createdAt: { expression: 'created_at', type: 'timestamptz' },
+  },
+  defaultSort: '-createdAt',
+  idColumn: 'comment_id',
+};
+
 interface CreateCommentDto {
   treeId: string;
   entityType: EntityType;
@@ -17,10 +30,14 @@ interface CreateCommentDto {
 export class CommentService {
   private accessControl: AccessControlService;
   private notificationService: NotificationService;
+  private auditService: AuditService;
+  private realtimeService: RealtimeService;
 
   constructor() {
     this.accessControl = new AccessControlService();
     this.notificationService = new NotificationService();
+    this.auditService = new AuditService();
+    this.realtimeService = new RealtimeService();
   }
 
   async createComment(dto: CreateCommentDto): Promise<Comment> {
@@ -29,32 +46,47 @@ export class CommentService {
     const result = await query<Comment>(
       `INSERT INTO comments (tree_id, entity_type, entity_id, user_id, comment_text)
        VALUES ($1, $2, $3, $4, $5)
-       RETURNING comment_id as "commentId", tree_id as "treeId", entity_type as "entityType", entity_id as "entityId", user_id as "userId", comment_text as "commentText", created_at as "createdAt", updated_at as "updatedAt"`,
+       RETURNING ${COMMENT_SELECT_FIELDS}`,
       [dto.treeId, dto.entityType, dto.entityId, dto.userId, dto.commentText]
     );
 
+    const comment = result.rows[0];
+    await this.auditService.record({
+      treeId: dto.treeId,
+      entityType: AuditEntityType.COMMENT,
+      entityId: comment.commentId,
+      action: AuditAction.CREATE,
+      actorId: dto.userId,
+      after: comment,
+    });
+
+    this.publishChange(comment, AuditAction.CREATE, dto.userId);
     await this.notificationService.notifyCommentAdded(dto.treeId, dto.entityType, dto.entityId, dto.userId);
 
-    return result.rows[0];
+    return comment;
   }
 
-  async getComments(treeId: string, entityType: EntityType, entityId: string, userId: string): Promise<Comment[]> {
+  async getComments(treeId: string, entityType: EntityType, entityId: string, userId: string, pageRequest: PageRequest = {}): Promise<Page<Comment>> {
     await this.accessControl.checkAccess(treeId, userId);
 
+    const values: unknown[] = [treeId, entityType, entityId];
+    const page = preparePage(pageRequest, COMMENT_PAGINATION, values);
+
     const result = await query<Comment>(
-      `SELECT comment_id as "commentId", tree_id as "treeId", entity_type as "entityType", entity_id as "entityId", user_id as "userId", comment_text as "commentText", created_at as "createdAt", updated_at as "updatedAt"
+      `SELECT ${COMMENT_SELECT_FIELDS}, ${page.columns}
        FROM comments
-       WHERE tree_id = $1 AND entity_type = $2 AND entity_id = $3
-       ORDER BY created_at DESC`,
-      [treeId, entityType, entityId]
+       WHERE tree_id = $1 AND entity_type = $2 AND entity_id = $3${page.condition ? ` AND ${page.condition}` : ''}
+       ORDER BY ${page.orderBy}
+       LIMIT ${page.limit}`,
+      values
     );
 
-    return result.rows;
+    return toPage(result.rows, page);
   }
 
   async updateComment(commentId: string, userId: string, commentText: string): Promise<Comment> {
     const existingResult = await query<Comment>(
-      `SELECT comment_id as "commentId", user_id as "userId" FROM comments WHERE comment_id = $1`,
+      `SELECT ${COMMENT_SELECT_FIELDS} FROM comments WHERE comment_id = $1`,
       [commentId]
     );
 
@@ -62,22 +94,35 @@ export class CommentService {
       throw new AppError('Comment not found', 404);
     }
 
-    if (existingResult.rows[0].userId !== userId) {
+    const existing = existingResult.rows[0];
+    if (existing.userId !== userId) {
       throw new AppError('Can only update own comments', 403);
     }
 
     const result = await query<Comment>(
       `UPDATE comments SET comment_text = $1, updated_at = NOW() WHERE comment_id = $2
-       RETURNING comment_id as "commentId", tree_id as "treeId", entity_type as "entityType", entity_id as "entityId", user_id as "userId", comment_text as "commentText", created_at as "createdAt", updated_at as "updatedAt"`,
+       RETURNING ${COMMENT_SELECT_FIELDS}`,
       [commentText, commentId]
     );
 
-    return result.rows[0];
+    const comment = result.rows[0];
+    await this.auditService.record({
+      treeId: comment.treeId,
+      entityType: AuditEntityType.COMMENT,
+      entityId: commentId,
+      action: AuditAction.UPDATE,
+      actorId: userId,
+      before: existing,
+      after: comment,
+    });
+    this.publishChange(comment, AuditAction.UPDATE, userId);
+
+    return comment;
   }
 
   async deleteComment(commentId: string, userId: string): Promise<void> {
     const existingResult = await query<Comment>(
-      `SELECT comment_id as "commentId", user_id as "userId" FROM comments WHERE comment_id = $1`,
+      `SELECT ${COMMENT_SELECT_FIELDS} FROM comments WHERE comment_id = $1`,
       [commentId]
     );
 
@@ -85,10 +130,32 @@ export class CommentService {
       throw new AppError('Comment not found', 404);
     }
 
-    if (existingResult.rows[0].userId !== userId) {
+    const existing = existingResult.rows[0];
+    if (existing.userId !== userId) {
       throw new AppError('Can only delete own comments', 403);
     }
 
     await query('DELETE FROM comments WHERE comment_id = $1', [commentId]);
+    await this.auditService.record({
+      treeId: existing.treeId,
+      entityType: AuditEntityType.COMMENT,
+      entityId: commentId,
+      action: AuditAction.DELETE,
+      actorId: userId,
+      before: existing,
+    });
+    this.publishChange(existing, AuditAction.DELETE, userId);
+  }
+
+  private publishChange(comment: Comment, action: AuditAction, userId: string): void {
+    this.realtimeService.publishChange({
+      treeId: comment.treeId,
+      entityType: AuditEntityType.COMMENT,
+      entityId: comment.commentId,
+      action,
+      actorUserId: userId,
+      parentEntityType: comment.entityType,
+      parentEntityId: comment.entityId,
+    });
   }
 }
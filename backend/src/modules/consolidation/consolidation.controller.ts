@@ -0,0 +1,51 @@
+import { Response, NextFunction } from 'express';
+import { ConsolidationService } from './consolidation.service';
+import { AuthRequest } from '../../common/middleware/auth.middleware';
+
+export class ConsolidationController {
+  constructor(private consolidationService: ConsolidationService) {}
+
+  async getDuplicates(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const candidates = await this.consolidationService.searchDuplicates(req.params.nodeId, req.userId!);
+      res.json(candidates);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getIdentity(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const identity = await this.consolidationService.getConsolidatedIdentity(req.params.nodeId, req.userId!);
+      res.json(identity);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async preview(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const preview = await this.consolidationService.previewMerge(
+        req.body.primaryNodeId,
+        req.body.secondaryNodeId,
+        req.userId!
+      );
+      res.json(preview);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async merge(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const consolidated = await this.consolidationService.consolidateNodes(
+        req.body.primaryNodeId,
+        req.body.secondaryNodeId,
+        req.userId!
+      );
+      res.status(201).json(consolidated);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -8,7 +8,7 @@ jest.mock('../../config/database', () => ({
   transaction: (callback: (client: unknown) => Promise<unknown>) => mockTransaction(callback),
 }));
 
-import { ConsolidationService } from './consolidation.service';
+import { ConsolidationService, mergePersonFields } from './consolidation.service';
 
 describe('ConsolidationService', () => {
   let service: ConsolidationService;
@@ -34,15 +34,29 @@ describe('ConsolidationService', () => {
             petName: 'Johnny',
           }],
         })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.VIEWER }] })
         .mockResolvedValueOnce({
           rows: [
-            { nodeId: 'node2', treeId: 'tree2', firstName: 'John', lastName: 'Doe' },
+            { nodeId: 'node2', treeId: 'tree2', treeName: 'Doe Family', firstName: 'John', lastName: 'Doe' },
           ],
         });
 
       const result = await service.searchDuplicates(nodeId, userId);
 
       expect(result.length).toBe(1);
+      const [sql, params] = mockQuery.mock.calls[2];
+      expect(sql).toContain('n.tree_id != $3');
+      expect(sql).toContain('node_consolidation_mapping');
+      expect(params).toEqual([userId, nodeId, 'tree1', 'John', 'Doe', 'Johnny']);
+    });
+
+    it('should require access to the node tree', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ nodeId: 'node1', treeId: 'tree1', firstName: 'John', lastName: 'Doe' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(service.searchDuplicates('node1', 'user1'))
+        .rejects.toThrow('Access denied');
     });
 
     it('should throw error if node not found', async () => {
@@ -63,22 +77,112 @@ describe('ConsolidationService', () => {
         .mockResolvedValueOnce({ rows: [{ nodeId: primaryNodeId, treeId: 'tree1' }] })
         .mockResolvedValueOnce({ rows: [{ nodeId: secondaryNodeId, treeId: 'tree2' }] })
         .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] })
-        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] });
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] })
+        .mockResolvedValueOnce({ rows: [] });
 
       const consolidated = { consolidatedId: 'cons1', primaryNodeId, createdAt: new Date() };
+      const clientQuery = jest.fn()
+        .mockResolvedValueOnce({ rows: [consolidated] })
+        .mockResolvedValueOnce({ rows: [] });
 
-      mockTransaction.mockImplementation(async (callback) => {
-        const mockClient = {
-          query: jest.fn()
-            .mockResolvedValueOnce({ rows: [consolidated] })
-            .mockResolvedValueOnce({ rows: [] }),
-        };
-        return callback(mockClient);
-      });
+      mockTransaction.mockImplementation(async (callback) => callback({ query: clientQuery }));
 
       const result = await service.consolidateNodes(primaryNodeId, secondaryNodeId, userId);
 
       expect(result.consolidatedId).toBe('cons1');
+      expect(clientQuery.mock.calls[0][0]).toContain('INSERT INTO consolidated_nodes');
+      expect(clientQuery.mock.calls[1][0]).toContain('INSERT INTO node_consolidation_mapping');
+      expect(clientQuery.mock.calls[1][1]).toEqual(['cons1', primaryNodeId, 'tree1', secondaryNodeId, 'tree2']);
+    });
+
+    it('should join an existing identity and absorb a second one', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ nodeId: 'node1', treeId: 'tree1' }] })
+        .mockResolvedValueOnce({ rows: [{ nodeId: 'node2', treeId: 'tree2' }] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.VIEWER }] })
+        .mockResolvedValueOnce({
+          rows: [
+            { consolidatedId: 'cons1', nodeId: 'node1', treeId: 'tree1' },
+            { consolidatedId: 'cons2', nodeId: 'node2', treeId: 'tree2' },
+            { consolidatedId: 'cons2', nodeId: 'node3', treeId: 'tree3' },
+          ],
+        });
+
+      const clientQuery = jest.fn()
+        .mockResolvedValueOnce({ rows: [{ consolidatedId: 'cons1', primaryNodeId: 'node1' }] })
+        .mockResolvedValue({ rows: [] });
+      mockTransaction.mockImplementation(async (callback) => callback({ query: clientQuery }));
+
+      const result = await service.consolidateNodes('node1', 'node2', 'user1');
+
+      expect(result.consolidatedId).toBe('cons1');
+      expect(clientQuery.mock.calls[0][0]).toContain('UPDATE consolidated_nodes');
+      expect(clientQuery.mock.calls[0][1]).toEqual(['cons1', 'node1']);
+      expect(clientQuery.mock.calls[1][1]).toEqual(['cons1', 'cons2']);
+      expect(clientQuery.mock.calls[2]).toEqual(['DELETE FROM consolidated_nodes WHERE consolidated_id = $1', ['cons2']]);
+    });
+
+    it('should reject nodes that are already consolidated', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ nodeId: 'node1', treeId: 'tree1' }] })
+        .mockResolvedValueOnce({ rows: [{ nodeId: 'node2', treeId: 'tree2' }] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] })
+        .mockResolvedValueOnce({
+          rows: [
+            { consolidatedId: 'cons1', nodeId: 'node1', treeId: 'tree1' },
+            { consolidatedId: 'cons1', nodeId: 'node2', treeId: 'tree2' },
+          ],
+        });
+
+      await expect(service.consolidateNodes('node1', 'node2', 'user1'))
+        .rejects.toThrow('Nodes are already consolidated');
+      expect(mockTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject a merge that would put two nodes of one tree in an identity', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ nodeId: 'node1', treeId: 'tree1' }] })
+        .mockResolvedValueOnce({ rows: [{ nodeId: 'node2', treeId: 'tree2' }] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] })
+        .mockResolvedValueOnce({
+          rows: [
+            { consolidatedId: 'cons2', nodeId: 'node2', treeId: 'tree2' },
+            { consolidatedId: 'cons2', nodeId: 'node3', treeId: 'tree1' },
+          ],
+        });
+
+      await expect(service.consolidateNodes('node1', 'node2', 'user1'))
+        .rejects.toThrow('A consolidated person can only have one node per tree');
+    });
+
+    it('should reject nodes from the same tree', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ nodeId: 'node1', treeId: 'tree1' }] })
+        .mockResolvedValueOnce({ rows: [{ nodeId: 'node2', treeId: 'tree1' }] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] });
+
+      await expect(service.consolidateNodes('node1', 'node2', 'user1'))
+        .rejects.toThrow('Nodes must belong to different trees');
+    });
+
+    it('should require edit access to at least one tree', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ nodeId: 'node1', treeId: 'tree1' }] })
+        .mockResolvedValueOnce({ rows: [{ nodeId: 'node2', treeId: 'tree2' }] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.VIEWER }] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.VIEWER }] });
+
+      await expect(service.consolidateNodes('node1', 'node2', 'user1'))
+        .rejects.toThrow('Edit access to at least one tree is required');
+    });
+
+    it('should reject merging a node with itself', async () => {
+      await expect(service.consolidateNodes('node1', 'node1', 'user1'))
+        .rejects.toThrow('Cannot merge a node with itself');
     });
 
     it('should throw error if nodes not found', async () => {
@@ -102,6 +206,80 @@ describe('ConsolidationService', () => {
     });
   });
 
+  describe('previewMerge', () => {
+    it('should return the merged person, conflicts and resulting members', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [{ nodeId: 'node1', treeId: 'tree1', treeName: 'Smith Family', firstName: 'John', lastName: 'Smith', placeOfBirth: 'Pune' }],
+        })
+        .mockResolvedValueOnce({
+          rows: [{ nodeId: 'node2', treeId: 'tree2', treeName: 'Doe Family', firstName: 'John', lastName: 'Smith', petName: 'Johnny', placeOfBirth: 'Mumbai' }],
+        })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.OWNER }] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.VIEWER }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const preview = await service.previewMerge('node1', 'node2', 'user1');
+
+      expect(preview.person).toEqual({ firstName: 'John', lastName: 'Smith', petName: 'Johnny', placeOfBirth: 'Pune' });
+      expect(preview.conflicts).toEqual([{ field: 'placeOfBirth', primaryValue: 'Pune', secondaryValue: 'Mumbai' }]);
+      expect(preview.members.map(m => m.treeName)).toEqual(['Smith Family', 'Doe Family']);
+      expect(mockTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getConsolidatedIdentity', () => {
+    it('should merge the person only from trees the user can access', async () => {
+      const createdAt = new Date();
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ treeId: 'tree2' }] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.VIEWER }] })
+        .mockResolvedValueOnce({ rows: [{ consolidatedId: 'cons1', primaryNodeId: 'node1', createdAt }] })
+        .mockResolvedValueOnce({
+          rows: [{ nodeId: 'node2', firstName: 'Jon', lastName: 'Smith', placeOfBirth: 'Pune' }],
+        })
+        .mockResolvedValueOnce({
+          rows: [
+            { consolidatedId: 'cons1', nodeId: 'node2', treeId: 'tree2', treeName: 'Doe Family', hasAccess: true },
+            { consolidatedId: 'cons1', nodeId: 'node1', treeId: 'tree1', treeName: 'Smith Family', hasAccess: false },
+          ],
+        });
+
+      const identity = await service.getConsolidatedIdentity('node2', 'user1');
+
+      const [nodesSql, nodesParams] = mockQuery.mock.calls[3];
+      expect(nodesSql).toContain('ta.user_id = $3');
+      expect(nodesSql).toContain('ft.deleted_at IS NULL');
+      expect(nodesParams).toEqual(['cons1', 'node1', 'user1']);
+      expect(identity.primaryNodeId).toBe('node1');
+      expect(identity.person).toEqual({ firstName: 'Jon', lastName: 'Smith', placeOfBirth: 'Pune' });
+      expect(identity.members).toHaveLength(2);
+    });
+
+    it('should return 404 for a node without a consolidated identity', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ treeId: 'tree1' }] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.VIEWER }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(service.getConsolidatedIdentity('node1', 'user1'))
+        .rejects.toThrow('Node is not consolidated');
+    });
+  });
+
+  describe('mergePersonFields', () => {
+    it('should fill gaps from later nodes without reporting equal values as conflicts', () => {
+      const dateOfBirth = new Date(1950, 0, 15);
+      const { person, conflicts } = mergePersonFields([
+        { firstName: 'John', lastName: 'Smith', dateOfBirth },
+        { firstName: 'john ', lastName: 'Smith', dateOfBirth: new Date(1950, 0, 15), dateOfDeath: new Date(2020, 4, 1) },
+      ]);
+
+      expect(person).toEqual({ firstName: 'John', lastName: 'Smith', dateOfBirth, dateOfDeath: new Date(2020, 4, 1) });
+      expect(conflicts).toEqual([]);
+    });
+  });
+
   describe('getLinkedTrees', () => {
     it('should return linked tree IDs for consolidated node', async () => {
       const nodeId = 'node1';
@@ -1,7 +1,95 @@
 import { query, transaction } from '../../config/database';
 import { Node, ConsolidatedNode, NodeConsolidationMapping } from '../../database/interfaces';
-import { AccessControlService } from '../../common/services/access-control.service';
+import { AccessControlService, AccessLevel } from '../../common/services/access-control.service';
 import { AppError } from '../../common/errors/app-error';
+import { genealogicalDateFields } from '../../common/utils/genealogical-date';
+
+const MERGE_FIELDS = ['firstName', 'lastName', 'petName', 'placeOfBirth', 'dateOfBirth', 'dateOfDeath', 'profilePictureUrl'] as const;
+
+type MergeField = typeof MERGE_FIELDS[number];
+
+export type CanonicalPerson = Pick<Node, MergeField>;
+
+interface NodeWithTree extends Node {
+  treeName: string;
+}
+
+export interface DuplicateCandidate extends CanonicalPerson {
+  nodeId: string;
+  treeId: string;
+  treeName: string;
+}
+
+export interface MergeConflict {
+  field: MergeField;
+  primaryValue: unknown;
+  secondaryValue: unknown;
+}
+
+export interface ConsolidationMember {
+  nodeId: string;
+  treeId: string;
+  treeName: string;
+  hasAccess: boolean;
+}
+
+export interface MergePreview {
+  primary: NodeWithTree;
+  secondary: NodeWithTree;
+  person: CanonicalPerson;
+  conflicts: MergeConflict[];
+  members: ConsolidationMember[];
+}
+
+export interface ConsolidatedIdentity extends ConsolidatedNode {
+  person: CanonicalPerson;
+  members: ConsolidationMember[];
+}
+
+interface MergePlan {
+  primary: NodeWithTree;
+  secondary: NodeWithTree;
+  primaryConsolidatedId: string | null;
+  secondaryConsolidatedId: string | null;
+  members: ConsolidationMember[];
+}
+
+const CANDIDATE_FIELDS = `n.node_id as "nodeId", n.tree_id as "treeId", ft.tree_name as "treeName", n.first_name as "firstName", n.last_name as "lastName", n.pet_name as "petName", n.place_of_birth as "placeOfBirth", n.date_of_birth as "dateOfBirth", n.date_of_death as "dateOfDeath", n.profile_picture_url as "profilePictureUrl"`;
+
+const NODE_WITH_TREE_FIELDS = `n.node_id as "nodeId", n.tree_id as "treeId", ft.tree_name as "treeName", n.first_name as "firstName", n.last_name as "lastName", n.pet_name as "petName", n.address, n.place_of_birth as "placeOfBirth", n.contact_info as "contactInfo", n.profile_picture_url as "profilePictureUrl", ${genealogicalDateFields('n.date_of_birth', 'dateOfBirth')}, ${genealogicalDateFields('n.date_of_death', 'dateOfDeath')}, n.status, n.created_by as "createdBy", n.created_at as "createdAt", n.updated_at as "updatedAt"`;
+
+const isEmpty = (value: unknown): boolean => value === undefined || value === null || value === '';
+
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (typeof a === 'string' && typeof b === 'string') return a.trim().toLowerCase() === b.trim().toLowerCase();
+  return a === b;
+};
+
+/**
+ * Combines the person fields of several nodes, in priority order. A field keeps the
+ * first non-empty value; later nodes only fill gaps. Differing non-empty values are
+ * reported as conflicts between the first node and the node that disagrees.
+ */
+export function mergePersonFields(nodes: CanonicalPerson[]): { person: CanonicalPerson; conflicts: MergeConflict[] } {
+  const person: CanonicalPerson = {};
+  const conflicts: MergeConflict[] = [];
+
+  for (const field of MERGE_FIELDS) {
+    for (const node of nodes) {
+      const value = node[field];
+      if (isEmpty(value)) continue;
+
+      if (isEmpty(person[field])) {
+        (person as Record<MergeField, unknown>)[field] = value;
+      } else if (!sameValue(person[field], value)) {
+        conflicts.push({ field, primaryValue: person[field], secondaryValue: value });
+      }
+    }
+  }
+
+  return { person, conflicts };
+}
 
 export class ConsolidationService {
   private accessControl: AccessControlService;
@@ -10,7 +98,7 @@ export class ConsolidationService {
     this.accessControl = new AccessControlService();
   }
 
-  async searchDuplicates(nodeId: string, userId: string): Promise<Node[]> {
+  async searchDuplicates(nodeId: string, userId: string): Promise<DuplicateCandidate[]> {
     const nodeResult = await query<Node>(
       `SELECT node_id as "nodeId", tree_id as "treeId", first_name as "firstName", last_name as "lastName", pet_name as "petName"
        FROM nodes WHERE node_id = $1`,
@@ -22,64 +110,140 @@ export class ConsolidationService {
     }
 
     const node = nodeResult.rows[0];
+    await this.accessControl.checkAccess(node.treeId, userId);
 
-    const result = await query<Node>(
-      `SELECT n.node_id as "nodeId", n.tree_id as "treeId", n.first_name as "firstName", n.last_name as "lastName", n.pet_name as "petName", n.address, n.place_of_birth as "placeOfBirth", n.contact_info as "contactInfo", n.profile_picture_url as "profilePictureUrl", n.date_of_birth as "dateOfBirth", n.date_of_death as "dateOfDeath", n.created_by as "createdBy", n.created_at as "createdAt", n.updated_at as "updatedAt"
+    const result = await query<DuplicateCandidate>(
+      `SELECT ${CANDIDATE_FIELDS}
        FROM nodes n
+       JOIN family_trees ft ON n.tree_id = ft.tree_id
        JOIN tree_access ta ON n.tree_id = ta.tree_id
        WHERE ta.user_id = $1
+         AND ft.deleted_at IS NULL
          AND n.node_id != $2
-         AND ((n.first_name = $3 AND n.last_name = $4) OR n.pet_name = $5)`,
-      [userId, nodeId, node.firstName, node.lastName, node.petName]
+         AND n.tree_id != $3
+         AND n.status = 'published'
+         AND ((LOWER(n.first_name) = LOWER($4) AND LOWER(n.last_name) = LOWER($5)) OR LOWER(n.pet_name) = LOWER($6))
+         AND NOT EXISTS (
+           SELECT 1 FROM node_consolidation_mapping own
+           JOIN node_consolidation_mapping other ON own.consolidated_id = other.consolidated_id
+           WHERE own.node_id = $2 AND other.node_id = n.node_id
+         )
+       ORDER BY ft.tree_name, n.last_name, n.first_name`,
+      [userId, nodeId, node.treeId, node.firstName ?? null, node.lastName ?? null, node.petName ?? null]
     );
 
     return result.rows;
   }
 
-  async consolidateNodes(primaryNodeId: string, secondaryNodeId: string, userId: string): Promise<ConsolidatedNode> {
-    const primaryResult = await query<Node>(
-      `SELECT node_id as "nodeId", tree_id as "treeId" FROM nodes WHERE node_id = $1`,
-      [primaryNodeId]
-    );
-
-    const secondaryResult = await query<Node>(
-      `SELECT node_id as "nodeId", tree_id as "treeId" FROM nodes WHERE node_id = $1`,
-      [secondaryNodeId]
-    );
-
-    if (primaryResult.rows.length === 0 || secondaryResult.rows.length === 0) {
-      throw new AppError('Nodes not found', 404);
-    }
+  async previewMerge(primaryNodeId: string, secondaryNodeId: string, userId: string): Promise<MergePreview> {
+    const plan = await this.planMerge(primaryNodeId, secondaryNodeId, userId);
+    const { person, conflicts } = mergePersonFields([plan.primary, plan.secondary]);
 
-    const primary = primaryResult.rows[0];
-    const secondary = secondaryResult.rows[0];
+    return {
+      primary: plan.primary,
+      secondary: plan.secondary,
+      person,
+      conflicts,
+      members: plan.members,
+    };
+  }
 
-    await this.accessControl.checkAccess(primary.treeId, userId);
-    await this.accessControl.checkAccess(secondary.treeId, userId);
+  async consolidateNodes(primaryNodeId: string, secondaryNodeId: string, userId: string): Promise<ConsolidatedNode> {
+    const plan = await this.planMerge(primaryNodeId, secondaryNodeId, userId);
+    const { primary, secondary, primaryConsolidatedId, secondaryConsolidatedId } = plan;
 
     return await transaction(async (client) => {
-      const consolidatedResult = await client.query<ConsolidatedNode>(
-        `INSERT INTO consolidated_nodes (primary_node_id)
-         VALUES ($1)
-         RETURNING consolidated_id as "consolidatedId", primary_node_id as "primaryNodeId", created_at as "createdAt"`,
-        [primaryNodeId]
-      );
+      const existingId = primaryConsolidatedId ?? secondaryConsolidatedId;
+
+      const consolidatedResult = existingId
+        ? await client.query<ConsolidatedNode>(
+          `UPDATE consolidated_nodes SET primary_node_id = $2
+           WHERE consolidated_id = $1
+           RETURNING consolidated_id as "consolidatedId", primary_node_id as "primaryNodeId", created_by as "createdBy", created_at as "createdAt"`,
+          [existingId, primaryNodeId]
+        )
+        : await client.query<ConsolidatedNode>(
+          `INSERT INTO consolidated_nodes (primary_node_id, created_by)
+           VALUES ($1, $2)
+           RETURNING consolidated_id as "consolidatedId", primary_node_id as "primaryNodeId", created_by as "createdBy", created_at as "createdAt"`,
+          [primaryNodeId, userId]
+        );
 
       const consolidated = consolidatedResult.rows[0];
 
+      if (primaryConsolidatedId && secondaryConsolidatedId) {
+        await client.query(
+          'UPDATE node_consolidation_mapping SET consolidated_id = $1 WHERE consolidated_id = $2',
+          [consolidated.consolidatedId, secondaryConsolidatedId]
+        );
+        await client.query('DELETE FROM consolidated_nodes WHERE consolidated_id = $1', [secondaryConsolidatedId]);
+      }
+
       await client.query(
-        `INSERT INTO node_consolidation_mappings (consolidated_id, node_id, tree_id)
-         VALUES ($1, $2, $3), ($1, $4, $5)`,
-        [consolidated.consolidatedId, primaryNodeId, primary.treeId, secondaryNodeId, secondary.treeId]
+        `INSERT INTO node_consolidation_mapping (consolidated_id, node_id, tree_id)
+         VALUES ($1, $2, $3), ($1, $4, $5)
+         ON CONFLICT (node_id) DO NOTHING`,
+        [consolidated.consolidatedId, primary.nodeId, primary.treeId, secondary.nodeId, secondary.treeId]
       );
 
       return consolidated;
     });
   }
 
+  /**
+   * The person as the user can see them: only member nodes in trees they have
+   * access to feed the merged fields, while every member tree is listed.
+   */
+  async getConsolidatedIdentity(nodeId: string, userId: string): Promise<ConsolidatedIdentity> {
+    const nodeResult = await query<{ treeId: string }>(
+      `SELECT tree_id as "treeId" FROM nodes WHERE node_id = $1`,
+      [nodeId]
+    );
+
+    if (nodeResult.rows.length === 0) {
+      throw new AppError('Node not found', 404);
+    }
+
+    await this.accessControl.checkAccess(nodeResult.rows[0].treeId, userId);
+
+    const consolidatedResult = await query<ConsolidatedNode>(
+      `SELECT cn.consolidated_id as "consolidatedId", cn.primary_node_id as "primaryNodeId", cn.created_by as "createdBy", cn.created_at as "createdAt"
+       FROM consolidated_nodes cn
+       JOIN node_consolidation_mapping m ON m.consolidated_id = cn.consolidated_id
+       WHERE m.node_id = $1`,
+      [nodeId]
+    );
+
+    if (consolidatedResult.rows.length === 0) {
+      throw new AppError('Node is not consolidated', 404);
+    }
+
+    const consolidated = consolidatedResult.rows[0];
+
+    const nodesResult = await query<CanonicalPerson & { nodeId: string }>(
+      `SELECT n.node_id as "nodeId", n.first_name as "firstName", n.last_name as "lastName", n.pet_name as "petName", n.place_of_birth as "placeOfBirth", n.date_of_birth as "dateOfBirth", n.date_of_death as "dateOfDeath", n.profile_picture_url as "profilePictureUrl"
+       FROM nodes n
+       JOIN node_consolidation_mapping m ON m.node_id = n.node_id
+       JOIN family_trees ft ON ft.tree_id = n.tree_id
+       JOIN tree_access ta ON ta.tree_id = n.tree_id
+       WHERE m.consolidated_id = $1 AND n.status = 'published'
+         AND ta.user_id = $3 AND ft.deleted_at IS NULL
+       ORDER BY n.node_id = $2 DESC, n.created_at ASC`,
+      [consolidated.consolidatedId, consolidated.primaryNodeId, userId]
+    );
+
+    const members = await this.getMembers([nodeId], userId);
+
+    return {
+      ...consolidated,
+      person: mergePersonFields(nodesResult.rows).person,
+      members,
+    };
+  }
+
   async getLinkedTrees(nodeId: string, userId: string): Promise<string[]> {
     const mappingResult = await query<NodeConsolidationMapping>(
-      `SELECT consolidated_id as "consolidatedId" FROM node_consolidation_mappings WHERE node_id = $1`,
+      `SELECT consolidated_id as "consolidatedId" FROM node_consolidation_mapping WHERE node_id = $1`,
       [nodeId]
     );
 
@@ -90,10 +254,86 @@ export class ConsolidationService {
     const consolidatedId = mappingResult.rows[0].consolidatedId;
 
     const result = await query<{ treeId: string }>(
-      `SELECT tree_id as "treeId" FROM node_consolidation_mappings WHERE consolidated_id = $1`,
+      `SELECT tree_id as "treeId" FROM node_consolidation_mapping WHERE consolidated_id = $1`,
       [consolidatedId]
     );
 
     return result.rows.map(r => r.treeId);
   }
+
+  private async planMerge(primaryNodeId: string, secondaryNodeId: string, userId: string): Promise<MergePlan> {
+    if (primaryNodeId === secondaryNodeId) {
+      throw new AppError('Cannot merge a node with itself', 400);
+    }
+
+    const primary = await this.getNodeWithTree(primaryNodeId);
+    const secondary = await this.getNodeWithTree(secondaryNodeId);
+
+    if (!primary || !secondary) {
+      throw new AppError('Nodes not found', 404);
+    }
+
+    const primaryAccess = await this.accessControl.checkAccess(primary.treeId, userId);
+    const secondaryAccess = await this.accessControl.checkAccess(secondary.treeId, userId);
+
+    if (primaryAccess.accessLevel === AccessLevel.VIEWER && secondaryAccess.accessLevel === AccessLevel.VIEWER) {
+      throw new AppError('Edit access to at least one tree is required', 403);
+    }
+
+    if (primary.treeId === secondary.treeId) {
+      throw new AppError('Nodes must belong to different trees', 400);
+    }
+
+    const existingMembers = await this.getMembers([primaryNodeId, secondaryNodeId], userId);
+    const primaryConsolidatedId = existingMembers.find(m => m.nodeId === primaryNodeId)?.consolidatedId ?? null;
+    const secondaryConsolidatedId = existingMembers.find(m => m.nodeId === secondaryNodeId)?.consolidatedId ?? null;
+
+    if (primaryConsolidatedId && primaryConsolidatedId === secondaryConsolidatedId) {
+      throw new AppError('Nodes are already consolidated', 409);
+    }
+
+    const members: ConsolidationMember[] = [...existingMembers];
+    for (const node of [primary, secondary]) {
+      if (!members.some(m => m.nodeId === node.nodeId)) {
+        members.push({ nodeId: node.nodeId, treeId: node.treeId, treeName: node.treeName, hasAccess: true });
+      }
+    }
+
+    if (new Set(members.map(m => m.treeId)).size !== members.length) {
+      throw new AppError('A consolidated person can only have one node per tree', 409);
+    }
+
+    return { primary, secondary, primaryConsolidatedId, secondaryConsolidatedId, members };
+  }
+
+  private async getNodeWithTree(nodeId: string): Promise<NodeWithTree | undefined> {
+    const result = await query<NodeWithTree>(
+      `SELECT ${NODE_WITH_TREE_FIELDS}
+       FROM nodes n
+       JOIN family_trees ft ON n.tree_id = ft.tree_id
+       WHERE n.node_id = $1`,
+      [nodeId]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Lists every node that shares a consolidated identity with any of the given nodes.
+   */
+  private async getMembers(nodeIds: string[], userId: string): Promise<Array<ConsolidationMember & { consolidatedId: string }>> {
+    const result = await query<ConsolidationMember & { consolidatedId: string }>(
+      `SELECT m.consolidated_id as "consolidatedId", m.node_id as "nodeId", m.tree_id as "treeId", ft.tree_name as "treeName",
+              ft.deleted_at IS NULL AND EXISTS (SELECT 1 FROM tree_access ta WHERE ta.tree_id = m.tree_id AND ta.user_id = $2) as "hasAccess"
+       FROM node_consolidation_mapping m
+       JOIN family_trees ft ON m.tree_id = ft.tree_id
+       WHERE m.consolidated_id IN (
+         SELECT consolidated_id FROM node_consolidation_mapping WHERE node_id = ANY($1)
+       )
+       ORDER BY ft.tree_name`,
+      [nodeIds, userId]
+    );
+
+    return result.rows;
+  }
 }
@@ -0,0 +1,37 @@
+import { Response, NextFunction } from 'express';
+import { DeviceService } from './device.service';
+import { AuthRequest } from '../../common/middleware/auth.middleware';
+
+export class DeviceController {
+  constructor(private deviceService: DeviceService) {}
+
+  async register(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const device = await this.deviceService.registerDevice(req.userId!, {
+        pushToken: req.body.pushToken,
+        platform: req.body.platform,
+      });
+      res.status(201).json(device);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getDevices(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const devices = await this.deviceService.getDevices(req.userId!);
+      res.json(devices);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async remove(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await this.deviceService.removeDevice(req.params.deviceId, req.userId!);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
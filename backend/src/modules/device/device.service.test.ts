@@ -0,0 +1,60 @@
+import { DevicePlatform } from '../../database/interfaces';
+
+const mockQuery = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  query: (...args: unknown[]) => mockQuery(...args),
+}));
+
+import { DeviceService } from './device.service';
+
+describe('DeviceService', () => {
+  let service: DeviceService;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    service = new DeviceService();
+  });
+
+  describe('registerDevice', () => {
+    it('should register the token, taking it over from any previous user', async () => {
+      const device = { deviceId: 'device1', userId: 'user1', pushToken: 'ExponentPushToken[abc]', platform: DevicePlatform.IOS };
+      mockQuery.mockResolvedValueOnce({ rows: [device] });
+
+      const result = await service.registerDevice('user1', { pushToken: 'ExponentPushToken[abc]', platform: DevicePlatform.IOS });
+
+      expect(result).toEqual(device);
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('ON CONFLICT (push_token) DO UPDATE'),
+        ['user1', 'ExponentPushToken[abc]', DevicePlatform.IOS]
+      );
+    });
+  });
+
+  describe('getDevices', () => {
+    it('should list the user\'s devices', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ deviceId: 'device1' }, { deviceId: 'device2' }] });
+
+      const result = await service.getDevices('user1');
+
+      expect(result).toHaveLength(2);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('WHERE user_id = $1'), ['user1']);
+    });
+  });
+
+  describe('removeDevice', () => {
+    it('should remove the user\'s device', async () => {
+      mockQuery.mockResolvedValueOnce({ rowCount: 1 });
+
+      await service.removeDevice('device1', 'user1');
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('DELETE FROM devices'), ['device1', 'user1']);
+    });
+
+    it('should throw when the device is not the user\'s', async () => {
+      mockQuery.mockResolvedValueOnce({ rowCount: 0 });
+
+      await expect(service.removeDevice('device1', 'user2')).rejects.toThrow('Device not found');
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { query } from '../../config/database';
+import { Device, DevicePlatform } from '../../database/interfaces';
+import { AppError } from '../../common/errors/app-error';
+
+const DEVICE_COLUMNS = `device_id as "deviceId", user_id as "userId", push_token as "pushToken", platform, created_at as "createdAt", last_seen_at as "lastSeenAt"`;
+
+interface RegisterDeviceDto {
+  pushToken: string;
+  platform: DevicePlatform;
+}
+
+export class DeviceService {
+  /**
+   * Registers the device's push token for the user. A token already registered
+   * moves to this user, since only the account signed in on a device should get its pushes.
+   */
+  async registerDevice(userId: string, dto: RegisterDeviceDto): Promise<Device> {
+    const result = await query<Device>(
+      `INSERT INTO devices (user_id, push_token, platform)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (push_token) DO UPDATE
+       SET user_id = EXCLUDED.user_id, platform = EXCLUDED.platform, last_seen_at = NOW()
+       RETURNING ${DEVICE_COLUMNS}`,
+      [userId, dto.pushToken, dto.platform]
+    );
+
+    return result.rows[0];
+  }
+
+  async getDevices(userId: string): Promise<Device[]> {
+    const result = await query<Device>(
+      `SELECT ${DEVICE_COLUMNS}
+       FROM devices
+       WHERE user_id = $1
+       ORDER BY last_seen_at DESC`,
+      [userId]
+    );
+
+    return result.rows;
+  }
+
+  async removeDevice(deviceId: string, userId: string): Promise<void> {
+    const result = await query(
+      'DELETE FROM devices WHERE device_id = $1 AND user_id = $2',
+      [deviceId, userId]
+    );
+
+    if (result.rowCount === 0) {
+      throw new AppError('Device not found', 404);
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { Response, NextFunction } from 'express';
+import { once } from 'events';
+import { GedcomService } from './gedcom.service';
+import { AuthRequest } from '../../common/middleware/auth.middleware';
+import { NodeStatus } from '../../database/interfaces';
+import { createLogger } from '../../common/logger';
+
+const logger = createLogger('gedcom-controller');
+
+export class GedcomController {
+  constructor(private gedcomService: GedcomService) {}
+
+  async importGedcom(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const report = await this.gedcomService.importGedcom({
+        treeId: req.params.treeId,
+        userId: req.userId!,
+        content: req.body,
+        nodeStatus: req.query.status as NodeStatus | undefined,
+      });
+      res.status(201).json(report);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async exportGedcom(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const chunks = await this.gedcomService.exportGedcom({
+        treeId: req.params.treeId,
+        userId: req.userId!,
+        includeDrafts: req.query.includeDrafts === 'true',
+        includeContactInfo: req.query.includeContactInfo === 'true',
+      });
+
+      res.setHeader('Content-Type', 'text/vnd.familysearch.gedcom; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="tree-${req.params.treeId}.ged"`);
+
+      for await (const chunk of chunks) {
+        if (!res.write(chunk)) {
+          await once(res, 'drain');
+        }
+      }
+      res.end();
+    } catch (error) {
+      if (!res.headersSent) {
+        next(error);
+        return;
+      }
+      logger.error({ err: error, treeId: req.params.treeId }, 'GEDCOM export failed mid-stream');
+      res.destroy(error as Error);
+    }
+  }
+}
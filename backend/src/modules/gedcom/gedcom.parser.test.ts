@@ -0,0 +1,134 @@
+import { DatePrecision, DateQualifier } from '../../database/interfaces';
+import { parseGedcom, parseGedcomName, parseGedcomDate, parseGedcomGenealogicalDate, findChild, childValue } from './gedcom.parser';
+
+describe('GEDCOM parser', () => {
+  describe('parseGedcom', () => {
+    it('should build a record tree from level numbers', () => {
+      const { records, errors } = parseGedcom([
+        '0 HEAD',
+        '1 GEDC',
+        '2 VERS 7.0',
+        '0 @I1@ INDI',
+        '1 NAME John /Smith/',
+        '1 BIRT',
+        '2 DATE 15 JAN 1990',
+        '0 TRLR',
+      ].join('\n'));
+
+      expect(errors).toEqual([]);
+      expect(records.map(r => r.tag)).toEqual(['HEAD', 'INDI', 'TRLR']);
+
+      const individual = records[1];
+      expect(individual.xref).toBe('@I1@');
+      expect(childValue(individual, 'NAME')).toBe('John /Smith/');
+      expect(childValue(findChild(individual, 'BIRT')!, 'DATE')).toBe('15 JAN 1990');
+    });
+
+    it('should fold CONC and CONT lines into the parent value', () => {
+      const { records } = parseGedcom([
+        '0 @N1@ NOTE First line',
+        '1 CONT Second',
+        '1 CONC  line',
+      ].join('\r\n'));
+
+      expect(records[0].value).toBe('First line\nSecond line');
+    });
+
+    it('should report malformed lines and level jumps without aborting', () => {
+      const { records, errors } = parseGedcom([
+        '0 HEAD',
+        'this is not gedcom',
+        '0 @I1@ INDI',
+        '3 NAME Skipped /Level/',
+        '1 NAME Jane /Doe/',
+      ].join('\n'));
+
+      expect(records).toHaveLength(2);
+      expect(errors).toHaveLength(2);
+      expect(errors[0]).toMatchObject({ lineNumber: 2, reason: 'Malformed GEDCOM line' });
+      expect(errors[1]).toMatchObject({ lineNumber: 4, reason: 'Unexpected level 3' });
+      expect(childValue(records[1], 'NAME')).toBe('Jane /Doe/');
+    });
+
+    it('should ignore a leading byte order mark', () => {
+      const { records, errors } = parseGedcom('\uFEFF0 HEAD\n0 TRLR');
+
+      expect(errors).toEqual([]);
+      expect(records[0].tag).toBe('HEAD');
+    });
+  });
+
+  describe('parseGedcomName', () => {
+    const nameRecord = (value: string, children: Array<[string, string]> = []) => ({
+      tag: 'NAME',
+      value,
+      lineNumber: 1,
+      children: children.map(([tag, childValue]) => ({ tag, value: childValue, lineNumber: 2, children: [] })),
+    });
+
+    it('should split given names and slash-delimited surname', () => {
+      expect(parseGedcomName(nameRecord('John Henry /Smith/'))).toEqual({
+        firstName: 'John Henry',
+        lastName: 'Smith',
+        petName: undefined,
+      });
+    });
+
+    it('should prefer GIVN, SURN and NICK substructures', () => {
+      expect(parseGedcomName(nameRecord('Bob /Smith/', [['GIVN', 'Robert'], ['SURN', 'Smyth'], ['NICK', 'Bobby']]))).toEqual({
+        firstName: 'Robert',
+        lastName: 'Smyth',
+        petName: 'Bobby',
+      });
+    });
+
+    it('should leave lastName empty when no surname is given', () => {
+      expect(parseGedcomName(nameRecord('Ravi'))).toEqual({ firstName: 'Ravi', lastName: undefined, petName: undefined });
+    });
+  });
+
+  describe('parseGedcomDate', () => {
+    it.each([
+      ['15 JAN 1990', '1990-01-15'],
+      ['JUN 1920', '1920-06-01'],
+      ['1890', '1890-01-01'],
+      ['ABT 1890', '1890-01-01'],
+      ['BEF 3 MAR 1920', '1920-03-03'],
+      ['BET 1910 AND 1915', '1910-01-01'],
+      ['FROM 1901 TO 1905', '1901-01-01'],
+      ['@#DGREGORIAN@ 2 FEB 1850', '1850-02-02'],
+      ['GREGORIAN 2 FEB 1850', '1850-02-02'],
+      ['5 DEC 0850', '0850-12-05'],
+    ])('should convert "%s" to %s', (input, expected) => {
+      expect(parseGedcomDate(input)).toBe(expected);
+    });
+
+    it.each([
+      [undefined],
+      [''],
+      ['(sometime in spring)'],
+      ['@#DJULIAN@ 1 JAN 1700'],
+      ['31 FEB 1900'],
+      ['12 FOO 1900'],
+      ['not a date'],
+    ])('should return null for %p', (input) => {
+      expect(parseGedcomDate(input)).toBeNull();
+    });
+  });
+
+  describe('parseGedcomGenealogicalDate', () => {
+    it.each([
+      ['15 JAN 1990', { date: '1990-01-15', qualifier: DateQualifier.EXACT, precision: DatePrecision.DAY, end: null }],
+      ['ABT 1890', { date: '1890-01-01', qualifier: DateQualifier.ABOUT, precision: DatePrecision.YEAR, end: null }],
+      ['CAL MAR 1901', { date: '1901-03-01', qualifier: DateQualifier.ESTIMATED, precision: DatePrecision.MONTH, end: null }],
+      ['BEF 3 MAR 1920', { date: '1920-03-03', qualifier: DateQualifier.BEFORE, precision: DatePrecision.DAY, end: null }],
+      ['AFT 1850', { date: '1850-01-01', qualifier: DateQualifier.AFTER, precision: DatePrecision.YEAR, end: null }],
+      ['BET 1910 AND MAY 1915', { date: '1910-01-01', qualifier: DateQualifier.BETWEEN, precision: DatePrecision.YEAR, end: '1915-01-01' }],
+      ['FROM 1901 TO 1905', { date: '1901-01-01', qualifier: DateQualifier.BETWEEN, precision: DatePrecision.YEAR, end: '1905-01-01' }],
+      ['TO 1905', { date: '1905-01-01', qualifier: DateQualifier.BEFORE, precision: DatePrecision.YEAR, end: null }],
+      ['INT 1890 (from the census)', { date: '1890-01-01', qualifier: DateQualifier.EXACT, precision: DatePrecision.YEAR, end: null }],
+    ])('should read "%s" with its qualifier and precision', (input, expected) => {
+      expect(parseGedcomGenealogicalDate(input)).toEqual(expected);
+    });
+  });
+});
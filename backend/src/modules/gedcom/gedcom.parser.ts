@@ -0,0 +1,250 @@
+import { DatePrecision, DateQualifier } from '../../database/interfaces';
+import { GenealogicalDate } from '../../common/utils/genealogical-date';
+
+export interface GedcomLine {
+  level: number;
+  xref?: string;
+  tag: string;
+  value?: string;
+  lineNumber: number;
+}
+
+export interface GedcomRecord {
+  xref?: string;
+  tag: string;
+  value?: string;
+  lineNumber: number;
+  children: GedcomRecord[];
+}
+
+export interface GedcomParseError {
+  lineNumber: number;
+  content: string;
+  reason: string;
+}
+
+export interface GedcomParseResult {
+  records: GedcomRecord[];
+  errors: GedcomParseError[];
+}
+
+export interface GedcomName {
+  firstName?: string;
+  lastName?: string;
+  petName?: string;
+}
+
+const LINE_PATTERN = /^\s*(\d{1,2})\s+(?:(@[^@\s]+@)\s+)?([A-Za-z0-9_]+)(?:\s(.*))?$/;
+
+const MONTHS: Record<string, number> = {
+  JAN: 1, FEB: 2, MAR: 3, APR: 4, MAY: 5, JUN: 6,
+  JUL: 7, AUG: 8, SEP: 9, OCT: 10, NOV: 11, DEC: 12,
+};
+
+/**
+ * Parses raw GEDCOM (5.5.1 or 7.0) text into a tree of records.
+ * Lines that cannot be parsed are collected as errors instead of aborting the parse,
+ * and CONC/CONT continuation lines are folded into their parent's value.
+ */
+export function parseGedcom(content: string): GedcomParseResult {
+  const records: GedcomRecord[] = [];
+  const errors: GedcomParseError[] = [];
+  const stack: GedcomRecord[] = [];
+
+  const lines = content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+
+  lines.forEach((raw, index) => {
+    const lineNumber = index + 1;
+    if (raw.trim() === '') return;
+
+    const line = parseLine(raw, lineNumber);
+    if (!line) {
+      errors.push({ lineNumber, content: raw, reason: 'Malformed GEDCOM line' });
+      return;
+    }
+
+    if (line.level > stack.length) {
+      errors.push({ lineNumber, content: raw, reason: `Unexpected level ${line.level}` });
+      return;
+    }
+
+    stack.length = line.level;
+    const parent = stack[line.level - 1];
+
+    if (parent && (line.tag === 'CONC' || line.tag === 'CONT')) {
+      const separator = line.tag === 'CONT' ? '\n' : '';
+      parent.value = `${parent.value ?? ''}${separator}${line.value ?? ''}`;
+      return;
+    }
+
+    const record: GedcomRecord = {
+      xref: line.xref,
+      tag: line.tag,
+      value: line.value,
+      lineNumber,
+      children: [],
+    };
+
+    if (parent) {
+      parent.children.push(record);
+    } else {
+      records.push(record);
+    }
+    stack.push(record);
+  });
+
+  return { records, errors };
+}
+
+function parseLine(raw: string, lineNumber: number): GedcomLine | null {
+  const match = LINE_PATTERN.exec(raw);
+  if (!match) return null;
+
+  const value = match[4]?.replace(/^@@/, '@');
+  return {
+    level: parseInt(match[1], 10),
+    xref: match[2],
+    tag: match[3].toUpperCase(),
+    value: value === undefined || value === '' ? undefined : value,
+    lineNumber,
+  };
+}
+
+export function findChild(record: GedcomRecord, tag: string): GedcomRecord | undefined {
+  return record.children.find(c => c.tag === tag);
+}
+
+export function findChildren(record: GedcomRecord, tag: string): GedcomRecord[] {
+  return record.children.filter(c => c.tag === tag);
+}
+
+export function childValue(record: GedcomRecord, tag: string): string | undefined {
+  return findChild(record, tag)?.value?.trim() || undefined;
+}
+
+/**
+ * Splits a GEDCOM NAME value ("John Henry /Smith/") into node name fields,
+ * preferring the GIVN, SURN and NICK substructures when present.
+ */
+export function parseGedcomName(nameRecord: GedcomRecord): GedcomName {
+  const raw = nameRecord.value ?? '';
+  const surnameMatch = /\/([^/]*)\/?/.exec(raw);
+  const surname = childValue(nameRecord, 'SURN') ?? surnameMatch?.[1]?.trim();
+  const given = childValue(nameRecord, 'GIVN') ?? raw.replace(/\/[^/]*\/?/, ' ').replace(/\s+/g, ' ').trim();
+  const nickname = childValue(nameRecord, 'NICK');
+
+  return {
+    firstName: given || undefined,
+    lastName: surname || undefined,
+    petName: nickname || undefined,
+  };
+}
+
+interface GedcomCalendarDate {
+  iso: string;
+  precision: DatePrecision;
+}
+
+/** Reads "15 JAN 1990", "JAN 1990" or "1990" into an ISO date and its precision */
+function parseGedcomCalendarDate(parts: string[]): GedcomCalendarDate | null {
+  let day = 1;
+  let month = 1;
+  let year: number;
+  let precision: DatePrecision;
+
+  if (parts.length === 3) {
+    day = parseInt(parts[0], 10);
+    month = MONTHS[parts[1]];
+    year = parseInt(parts[2], 10);
+    precision = DatePrecision.DAY;
+  } else if (parts.length === 2) {
+    month = MONTHS[parts[0]];
+    year = parseInt(parts[1], 10);
+    precision = DatePrecision.MONTH;
+  } else if (parts.length === 1) {
+    year = parseInt(parts[0], 10);
+    precision = DatePrecision.YEAR;
+  } else {
+    return null;
+  }
+
+  if (!month || !Number.isInteger(day) || !Number.isInteger(year) || !/^\d{1,4}$/.test(String(year))) {
+    return null;
+  }
+
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return {
+    iso: `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`,
+    precision,
+  };
+}
+
+const GEDCOM_QUALIFIERS: Record<string, DateQualifier> = {
+  ABT: DateQualifier.ABOUT,
+  CAL: DateQualifier.ESTIMATED,
+  EST: DateQualifier.ESTIMATED,
+  BEF: DateQualifier.BEFORE,
+  AFT: DateQualifier.AFTER,
+  INT: DateQualifier.EXACT,
+};
+
+/**
+ * Converts a GEDCOM date value into a genealogical date: "ABT 1890" is about the
+ * year 1890, "BET 1910 AND 1915" and "FROM 1910 TO 1915" are between the two, and
+ * a lone "FROM" or "TO" reads as after or before. Returns null for phrases,
+ * non-Gregorian calendars and anything unreadable.
+ */
+export function parseGedcomGenealogicalDate(value: string | undefined): GenealogicalDate | null {
+  if (!value) return null;
+
+  let text = value.trim().toUpperCase();
+  if (text.startsWith('(') || (text.includes('@#D') && !text.includes('@#DGREGORIAN@'))) {
+    return null;
+  }
+  text = text.replace('@#DGREGORIAN@', '').replace(/^GREGORIAN\s+/, '').replace(/\s*\(.*\)$/, '').trim();
+
+  const range = /^BET\s+(.+?)\s+AND\s+(.+)$/.exec(text) ?? /^FROM\s+(.+?)\s+TO\s+(.+)$/.exec(text);
+  if (range) {
+    const start = parseGedcomCalendarDate(range[1].split(/\s+/));
+    const end = parseGedcomCalendarDate(range[2].split(/\s+/));
+    if (!start) return null;
+    if (!end || end.iso < start.iso) {
+      return { date: start.iso, qualifier: DateQualifier.AFTER, precision: start.precision, end: null };
+    }
+    // Both bounds share the coarser precision, as they do when entered through the API
+    const yearOnly = start.precision === DatePrecision.YEAR || end.precision === DatePrecision.YEAR;
+    const monthOnly = !yearOnly && (start.precision === DatePrecision.MONTH || end.precision === DatePrecision.MONTH);
+    const precision = yearOnly ? DatePrecision.YEAR : monthOnly ? DatePrecision.MONTH : DatePrecision.DAY;
+    const truncate = (iso: string) => (yearOnly ? `${iso.slice(0, 4)}-01-01` : monthOnly ? `${iso.slice(0, 7)}-01` : iso);
+    return { date: truncate(start.iso), qualifier: DateQualifier.BETWEEN, precision, end: truncate(end.iso) };
+  }
+
+  const parts = text.split(/\s+/).filter(Boolean);
+  let qualifier = DateQualifier.EXACT;
+  if (parts[0] === 'FROM') {
+    parts.shift();
+    qualifier = DateQualifier.AFTER;
+  } else if (parts[0] === 'TO') {
+    parts.shift();
+    qualifier = DateQualifier.BEFORE;
+  } else if (parts.length > 0 && parts[0] in GEDCOM_QUALIFIERS) {
+    qualifier = GEDCOM_QUALIFIERS[parts.shift()!];
+  }
+
+  const date = parseGedcomCalendarDate(parts);
+  return date ? { date: date.iso, qualifier, precision: date.precision, end: null } : null;
+}
+
+/**
+ * Converts a GEDCOM date phrase into an ISO calendar date (YYYY-MM-DD): the sortable
+ * date of parseGedcomGenealogicalDate. Partial dates resolve to the first day of
+ * their month or year and ranges to their first bound.
+ */
+export function parseGedcomDate(value: string | undefined): string | null {
+  return parseGedcomGenealogicalDate(value)?.date ?? null;
+}
@@ -0,0 +1,368 @@
+import { AccessLevel, AuditAction, AuditEntityType, DatePrecision, DateQualifier, EventType, NodeStatus, RelationshipRole, RelationshipType } from '../../database/interfaces';
+
+const mockQuery = jest.fn();
+const mockRecordAudit = jest.fn();
+const mockRecordAuditMany = jest.fn();
+const mockTransaction = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  query: (...args: unknown[]) => mockQuery(...args),
+  transaction: (callback: (client: unknown) => Promise<unknown>) => mockTransaction(callback),
+}));
+
+jest.mock('../audit/audit.service', () => ({
+  AuditService: jest.fn().mockImplementation(() => ({
+    record: mockRecordAudit,
+    recordMany: mockRecordAuditMany,
+  })),
+}));
+
+import { GedcomService } from './gedcom.service';
+
+const SAMPLE_GEDCOM = [
+  '0 HEAD',
+  '1 GEDC',
+  '2 VERS 5.5.1',
+  '0 @I1@ INDI',
+  '1 NAME John /Smith/',
+  '1 BIRT',
+  '2 DATE 15 JAN 1950',
+  '2 PLAC Pune, India',
+  '0 @I2@ INDI',
+  '1 NAME Jane /Doe/',
+  '0 @I3@ INDI',
+  '1 NAME Baby /Smith/',
+  '1 FAMC @F1@',
+  '2 PEDI adopted',
+  '0 @I4@ INDI',
+  '1 SEX M',
+  '0 @F1@ FAM',
+  '1 HUSB @I1@',
+  '1 WIFE @I2@',
+  '1 CHIL @I3@',
+  '1 CHIL @I4@',
+  '1 MARR',
+  '2 DATE 1975',
+  '0 @S1@ SOUR',
+  '1 TITL Parish register',
+  'garbage line',
+  '0 TRLR',
+].join('\n');
+
+describe('GedcomService', () => {
+  let service: GedcomService;
+  let clientQuery: jest.Mock;
+  let nodeCounter: number;
+  let relationshipCounter: number;
+
+  const treeId = 'tree-1';
+  const userId = 'user-1';
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockRecordAudit.mockReset();
+    mockRecordAuditMany.mockReset();
+    mockTransaction.mockReset();
+    nodeCounter = 0;
+    relationshipCounter = 0;
+
+    clientQuery = jest.fn().mockImplementation((sql: string) => {
+      if (sql.includes('INSERT INTO nodes')) {
+        nodeCounter++;
+        return { rows: [{ nodeId: `node-${nodeCounter}` }] };
+      }
+      if (sql.includes('INSERT INTO relationships')) {
+        relationshipCounter++;
+        return { rows: [{ relationshipId: `relationship-${relationshipCounter}` }] };
+      }
+      if (sql.includes('INSERT INTO timeline_events')) {
+        return { rows: [{ eventId: 'event-1' }] };
+      }
+      return { rows: [] };
+    });
+
+    mockTransaction.mockImplementation(async (callback: (client: unknown) => Promise<unknown>) => {
+      return callback({ query: clientQuery });
+    });
+
+    mockQuery.mockResolvedValue({ rows: [{ accessLevel: AccessLevel.EDITOR }] });
+
+    service = new GedcomService();
+  });
+
+  describe('importGedcom', () => {
+    it('should create nodes, relationships and events in a single transaction', async () => {
+      const report = await service.importGedcom({ treeId, userId, content: SAMPLE_GEDCOM });
+
+      expect(mockTransaction).toHaveBeenCalledTimes(1);
+      expect(report.created).toEqual({ nodes: 3, relationships: 3, events: 2, participants: 3 });
+    });
+
+    it('should record every created entity in the audit log within the import transaction', async () => {
+      await service.importGedcom({ treeId, userId, content: SAMPLE_GEDCOM });
+
+      expect(mockRecordAuditMany).toHaveBeenCalledTimes(1);
+      const [entries, client] = mockRecordAuditMany.mock.calls[0];
+      expect(client).toEqual({ query: clientQuery });
+      expect(entries.map((entry: { entityType: AuditEntityType }) => entry.entityType)).toEqual([
+        AuditEntityType.NODE, AuditEntityType.NODE, AuditEntityType.NODE,
+        AuditEntityType.EVENT,
+        AuditEntityType.RELATIONSHIP, AuditEntityType.RELATIONSHIP, AuditEntityType.RELATIONSHIP,
+        AuditEntityType.EVENT,
+      ]);
+      expect(entries[0]).toMatchObject({ treeId, entityId: 'node-1', action: AuditAction.CREATE, actorId: userId });
+    });
+
+    it('should import nodes as drafts by default', async () => {
+      await service.importGedcom({ treeId, userId, content: SAMPLE_GEDCOM });
+
+      const nodeInserts = clientQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO nodes'));
+      expect(nodeInserts[0][1]).toEqual([
+        treeId, 'John', 'Smith', null, 'Pune, India',
+        '1950-01-15', DateQualifier.EXACT, DatePrecision.DAY, null,
+        null, DateQualifier.EXACT, DatePrecision.DAY, null,
+        userId, NodeStatus.DRAFT, false,
+      ]);
+    });
+
+    it('should publish imported nodes when requested', async () => {
+      await service.importGedcom({ treeId, userId, content: SAMPLE_GEDCOM, nodeStatus: NodeStatus.PUBLISHED });
+
+      const nodeInserts = clientQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO nodes'));
+      for (const [, params] of nodeInserts) {
+        expect(params[14]).toBe(NodeStatus.PUBLISHED);
+        expect(params[15]).toBe(true);
+      }
+    });
+
+    it('should map families to spouse and parent-child relationships', async () => {
+      await service.importGedcom({ treeId, userId, content: SAMPLE_GEDCOM });
+
+      const relationships = clientQuery.mock.calls
+        .filter(([sql]) => sql.includes('INSERT INTO relationships'))
+        .map(([, params]) => params.slice(1));
+
+      expect(relationships).toEqual([
+        ['node-1', 'node-2', RelationshipType.SPOUSE, RelationshipRole.SPOUSE, RelationshipRole.SPOUSE],
+        ['node-1', 'node-3', RelationshipType.ADOPTED, RelationshipRole.GUARDIAN, RelationshipRole.WARD],
+        ['node-2', 'node-3', RelationshipType.ADOPTED, RelationshipRole.GUARDIAN, RelationshipRole.WARD],
+      ]);
+    });
+
+    it('should create timeline events with participants', async () => {
+      await service.importGedcom({ treeId, userId, content: SAMPLE_GEDCOM });
+
+      const events = clientQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO timeline_events'));
+      expect(events[0][1]).toEqual([
+        treeId, EventType.BIRTH, 'Birth of John Smith', null, '1950-01-15', DateQualifier.EXACT, DatePrecision.DAY, null, 'Pune, India', userId,
+      ]);
+      // "1975" keeps its year precision
+      expect(events[1][1]).toEqual([
+        treeId, EventType.MARRIAGE, 'Marriage of John Smith and Jane Doe', null, '1975-01-01', DateQualifier.EXACT, DatePrecision.YEAR, null, null, userId,
+      ]);
+
+      const participants = clientQuery.mock.calls
+        .filter(([sql]) => sql.includes('INSERT INTO event_participants'))
+        .map(([, params]) => params.slice(1));
+      expect(participants).toEqual([
+        ['node-1', 'principal'],
+        ['node-1', 'husband'],
+        ['node-2', 'wife'],
+      ]);
+    });
+
+    it('should report skipped and unparseable records', async () => {
+      const report = await service.importGedcom({ treeId, userId, content: SAMPLE_GEDCOM });
+
+      expect(report.skipped).toEqual([
+        { xref: '@I4@', tag: 'INDI', lineNumber: 15, reason: 'Individual has no usable name' },
+        { xref: '@I4@', tag: 'CHIL', lineNumber: 21, reason: 'Family member was not imported' },
+        { xref: '@S1@', tag: 'SOUR', lineNumber: 24, reason: 'Unsupported record type' },
+      ]);
+      expect(report.unparseable).toEqual([
+        { lineNumber: 26, content: 'garbage line', reason: 'Malformed GEDCOM line' },
+      ]);
+    });
+
+    it('should skip events without a usable date', async () => {
+      const content = ['0 HEAD', '0 @I1@ INDI', '1 NAME Asha /Rao/', '1 DEAT', '2 PLAC Mumbai', '0 TRLR'].join('\n');
+
+      const report = await service.importGedcom({ treeId, userId, content });
+
+      expect(report.created.events).toBe(0);
+      expect(report.skipped).toEqual([{ tag: 'DEAT', lineNumber: 4, reason: 'Event has no usable date' }]);
+    });
+
+    it('should use a single name as petName', async () => {
+      const content = ['0 HEAD', '0 @I1@ INDI', '1 NAME Lakshmi', '0 TRLR'].join('\n');
+
+      await service.importGedcom({ treeId, userId, content });
+
+      const [, params] = clientQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO nodes'))!;
+      expect(params.slice(1, 4)).toEqual(['Lakshmi', null, 'Lakshmi']);
+    });
+
+    it('should require edit access', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ accessLevel: AccessLevel.VIEWER }] });
+
+      await expect(service.importGedcom({ treeId, userId, content: SAMPLE_GEDCOM }))
+        .rejects.toThrow('Edit access required');
+      expect(mockTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject empty content', async () => {
+      await expect(service.importGedcom({ treeId, userId, content: '  ' }))
+        .rejects.toThrow('GEDCOM content is required');
+    });
+
+    it('should reject content without a header', async () => {
+      await expect(service.importGedcom({ treeId, userId, content: '0 @I1@ INDI\n1 NAME A /B/' }))
+        .rejects.toThrow('File is not a valid GEDCOM document');
+    });
+
+    it('should reject an unknown node status', async () => {
+      await expect(service.importGedcom({ treeId, userId, content: SAMPLE_GEDCOM, nodeStatus: 'archived' as NodeStatus }))
+        .rejects.toThrow('status must be one of: draft, published');
+    });
+  });
+
+  describe('exportGedcom', () => {
+    const husbandId = '11111111-1111-1111-1111-111111111111';
+    const wifeId = '22222222-2222-2222-2222-222222222222';
+    const childId = '33333333-3333-3333-3333-333333333333';
+
+    const collect = async (chunks: AsyncIterable<string>): Promise<string> => {
+      let output = '';
+      for await (const chunk of chunks) output += chunk;
+      return output;
+    };
+
+    const mockTree = (accessLevel: AccessLevel) => {
+      mockQuery.mockImplementation((sql: string) => {
+        if (sql.includes('FROM tree_access')) {
+          return { rows: [{ accessLevel }] };
+        }
+        if (sql.includes('FROM family_trees')) {
+          return { rows: [{ treeName: 'Smith Family' }] };
+        }
+        if (sql.includes('FROM relationships')) {
+          return {
+            rows: [
+              { nodeId1: husbandId, nodeId2: wifeId, relationshipType: RelationshipType.SPOUSE },
+              { nodeId1: husbandId, nodeId2: childId, relationshipType: RelationshipType.PARENT_CHILD },
+              { nodeId1: wifeId, nodeId2: childId, relationshipType: RelationshipType.PARENT_CHILD },
+            ],
+          };
+        }
+        if (sql.includes('e.event_type = $2')) {
+          const marriage = { eventId: 'event-m', eventType: EventType.MARRIAGE, title: 'Wedding', eventDate: new Date(1975, 5, 1), location: 'Pune' };
+          return { rows: [{ nodeId: husbandId, ...marriage }, { nodeId: wifeId, ...marriage }] };
+        }
+        if (sql.includes('FROM nodes n') && sql.includes('ORDER BY node_id')) {
+          return {
+            rows: [
+              { nodeId: husbandId, firstName: 'John', lastName: 'Smith', dateOfBirth: new Date(1950, 0, 15), placeOfBirth: 'Pune', contactInfo: { email: 'john@example.com' } },
+              { nodeId: wifeId, firstName: 'Jane', lastName: 'Doe', dateOfBirth: new Date(1952, 0, 1), dateOfBirthQualifier: DateQualifier.ABOUT, dateOfBirthPrecision: DatePrecision.YEAR },
+              { nodeId: childId, petName: 'Chintu' },
+            ],
+          };
+        }
+        if (sql.includes('NOT EXISTS')) {
+          return { rows: [{ eventId: '44444444-4444-4444-4444-444444444444', title: 'Family reunion', eventDate: new Date(1999, 11, 31), location: 'Goa' }] };
+        }
+        if (sql.includes('FROM event_participants ep')) {
+          return {
+            rows: [
+              { nodeId: husbandId, eventId: 'event-m', eventType: EventType.MARRIAGE, title: 'Wedding', eventDate: new Date(1975, 5, 1) },
+              { nodeId: childId, eventId: 'event-g', eventType: EventType.ACHIEVEMENT, title: 'Graduated', eventDate: new Date(2000, 4, 20), description: 'With honours' },
+            ],
+          };
+        }
+        return { rows: [] };
+      });
+    };
+
+    it('should serialize individuals, families and events as GEDCOM 7', async () => {
+      mockTree(AccessLevel.VIEWER);
+
+      const output = await collect(await service.exportGedcom({ treeId, userId }));
+      const husband = '@I11111111111111111111111111111111@';
+      const wife = '@I22222222222222222222222222222222@';
+      const child = '@I33333333333333333333333333333333@';
+
+      expect(output.startsWith('0 HEAD\n1 GEDC\n2 VERS 7.0\n')).toBe(true);
+      expect(output).toContain(`0 ${husband} INDI\n1 NAME John /Smith/\n2 GIVN John\n2 SURN Smith\n1 BIRT\n2 DATE 15 JAN 1950\n2 PLAC Pune\n1 FAMS @F1@\n`);
+      expect(output).toContain(`0 ${wife} INDI\n1 NAME Jane /Doe/\n2 GIVN Jane\n2 SURN Doe\n1 BIRT\n2 DATE ABT 1952\n`);
+      expect(output).toContain(`0 ${child} INDI\n1 NAME Chintu\n2 NICK Chintu\n1 EVEN Graduated\n2 TYPE achievement\n2 DATE 20 MAY 2000\n2 NOTE With honours\n1 FAMC @F1@\n`);
+      expect(output).toContain(`0 @F1@ FAM\n1 HUSB ${husband}\n1 WIFE ${wife}\n1 CHIL ${child}\n1 MARR\n2 DATE 1 JUN 1975\n2 PLAC Pune\n`);
+      expect(output).toContain('0 @E44444444444444444444444444444444@ SNOTE Family reunion (31 DEC 1999)\n1 CONT Goa\n');
+      expect(output.endsWith('0 TRLR\n')).toBe(true);
+    });
+
+    it('should leave out drafts and contact info by default', async () => {
+      mockTree(AccessLevel.VIEWER);
+
+      const output = await collect(await service.exportGedcom({ treeId, userId }));
+
+      expect(output).not.toContain('EMAIL');
+      const nodeSql = mockQuery.mock.calls.map(([sql]) => sql as string).find(sql => sql.includes('ORDER BY node_id'));
+      expect(nodeSql).toContain("n.status = 'published'");
+    });
+
+    it('should only write events without any participants as shared notes', async () => {
+      mockTree(AccessLevel.VIEWER);
+
+      await collect(await service.exportGedcom({ treeId, userId }));
+
+      // An event whose participants are all drafts must not surface as a note
+      const noteSql = mockQuery.mock.calls.map(([sql]) => sql as string).find(sql => sql.includes('FROM timeline_events e') && sql.includes('NOT EXISTS'));
+      expect(noteSql).toContain('NOT EXISTS (SELECT 1 FROM event_participants ep WHERE ep.event_id = e.event_id)');
+      expect(noteSql).not.toContain('status');
+    });
+
+    it('should include drafts and contact info for owners who ask', async () => {
+      mockTree(AccessLevel.OWNER);
+
+      const output = await collect(await service.exportGedcom({ treeId, userId, includeDrafts: true, includeContactInfo: true }));
+
+      expect(output).toContain('1 EMAIL john@example.com\n');
+      const nodeSql = mockQuery.mock.calls.map(([sql]) => sql as string).find(sql => sql.includes('ORDER BY node_id'));
+      expect(nodeSql).not.toContain("status = 'published'");
+    });
+
+    it('should reject drafts or contact info for non-owners', async () => {
+      mockTree(AccessLevel.EDITOR);
+
+      await expect(service.exportGedcom({ treeId, userId, includeDrafts: true }))
+        .rejects.toThrow('Owner access required to export drafts or contact info');
+      await expect(service.exportGedcom({ treeId, userId, includeContactInfo: true }))
+        .rejects.toThrow('Owner access required to export drafts or contact info');
+    });
+
+    it('should deny users without access before streaming', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      await expect(service.exportGedcom({ treeId, userId })).rejects.toThrow('Access denied');
+    });
+
+    it('should page through nodes in batches', async () => {
+      mockTree(AccessLevel.VIEWER);
+      const batch = Array.from({ length: 500 }, (_, i) => ({ nodeId: `00000000-0000-0000-0000-${String(i).padStart(12, '0')}`, petName: `P${i}` }));
+      const defaultImpl = mockQuery.getMockImplementation()!;
+      let nodeQueries = 0;
+      mockQuery.mockImplementation((sql: string, params?: unknown[]) => {
+        if (sql.includes('ORDER BY node_id')) {
+          nodeQueries++;
+          return { rows: params?.[1] ? [] : batch };
+        }
+        if (sql.includes('FROM relationships')) return { rows: [] };
+        return defaultImpl(sql, params);
+      });
+
+      const output = await collect(await service.exportGedcom({ treeId, userId }));
+
+      expect(nodeQueries).toBe(2);
+      expect(output.match(/ INDI\n/g)).toHaveLength(500);
+    });
+  });
+});
@@ -0,0 +1,683 @@
+import { PoolClient } from 'pg';
+import { query, transaction } from '../../config/database';
+import { AccessLevel, AuditAction, AuditEntityType, EventType, Node, NodeStatus, Relationship, RelationshipType, TimelineEvent } from '../../database/interfaces';
+import { AccessControlService } from '../../common/services/access-control.service';
+import { AppError } from '../../common/errors/app-error';
+import { createLogger } from '../../common/logger';
+import { isValidNodeName, getDisplayName } from '../node/node.validation';
+import { RELATIONSHIP_ROLES } from '../relationship/relationship.validation';
+import { AuditEntry, AuditService } from '../audit/audit.service';
+import {
+  GedcomRecord,
+  GedcomParseError,
+  parseGedcom,
+  parseGedcomName,
+  parseGedcomGenealogicalDate,
+  findChild,
+  findChildren,
+  childValue,
+} from './gedcom.parser';
+import { RelationshipEdge, GedcomFamily, buildFamilies, gedcomLine, gedcomPointerLine, optionalGedcomLine, formatGedcomDate, formatGedcomGenealogicalDate, toXref } from './gedcom.writer';
+import { CLEARED_DATE, genealogicalDateFields } from '../../common/utils/genealogical-date';
+
+const logger = createLogger('gedcom-service');
+
+interface ImportGedcomDto {
+  treeId: string;
+  userId: string;
+  content: string;
+  nodeStatus?: NodeStatus;
+}
+
+interface ExportGedcomDto {
+  treeId: string;
+  userId: string;
+  includeDrafts?: boolean;
+  includeContactInfo?: boolean;
+}
+
+interface ParticipatingEvent extends TimelineEvent {
+  nodeId: string;
+}
+
+export interface GedcomSkippedRecord {
+  xref?: string;
+  tag: string;
+  lineNumber: number;
+  reason: string;
+}
+
+export interface GedcomImportReport {
+  created: {
+    nodes: number;
+    relationships: number;
+    events: number;
+    participants: number;
+  };
+  skipped: GedcomSkippedRecord[];
+  unparseable: GedcomParseError[];
+}
+
+interface EventParticipantRef {
+  nodeId: string;
+  role: string;
+}
+
+const INDIVIDUAL_EVENT_TAGS: Record<string, string> = {
+  BIRT: 'Birth',
+  CHR: 'Christening',
+  BAPM: 'Baptism',
+  DEAT: 'Death',
+  BURI: 'Burial',
+  CREM: 'Cremation',
+  GRAD: 'Graduation',
+  RETI: 'Retirement',
+  EMIG: 'Emigration',
+  IMMI: 'Immigration',
+  NATU: 'Naturalization',
+  CENS: 'Census',
+  EVEN: 'Event',
+};
+
+const FAMILY_EVENT_TAGS: Record<string, string> = {
+  MARR: 'Marriage',
+  ENGA: 'Engagement',
+  DIV: 'Divorce',
+  EVEN: 'Event',
+};
+
+const EVENT_TYPE_BY_TAG: Record<string, EventType> = {
+  BIRT: EventType.BIRTH,
+  DEAT: EventType.DEATH,
+  MARR: EventType.MARRIAGE,
+};
+
+const IGNORED_RECORD_TAGS = ['HEAD', 'TRLR', 'SUBM', 'SUBN'];
+
+const MAX_VARCHAR_LENGTH = 255;
+
+const EXPORT_BATCH_SIZE = 500;
+
+const PEDIGREE_BY_TYPE: Partial<Record<RelationshipType, { value: string; phrase?: string }>> = {
+  [RelationshipType.ADOPTED]: { value: 'ADOPTED' },
+  [RelationshipType.STEP]: { value: 'OTHER', phrase: 'Step' },
+};
+
+const CONTACT_TAGS: Record<string, string> = {
+  phone: 'PHON',
+  email: 'EMAIL',
+  website: 'WWW',
+};
+
+const EXPORT_EVENT_FIELDS = `e.event_id as "eventId", e.tree_id as "treeId", e.event_type as "eventType", e.title, e.description, ${genealogicalDateFields('e.event_date', 'eventDate')}, e.location, e.created_by as "createdBy", e.created_at as "createdAt", e.updated_at as "updatedAt"`;
+
+const EXPORT_NODE_FIELDS = `node_id as "nodeId", tree_id as "treeId", first_name as "firstName", last_name as "lastName", pet_name as "petName", address, place_of_birth as "placeOfBirth", contact_info as "contactInfo", ${genealogicalDateFields('date_of_birth', 'dateOfBirth')}, ${genealogicalDateFields('date_of_death', 'dateOfDeath')}, status`;
+
+function truncate(value: string | undefined): string | null {
+  if (!value) return null;
+  return value.length > MAX_VARCHAR_LENGTH ? value.substring(0, MAX_VARCHAR_LENGTH) : value;
+}
+
+export class GedcomService {
+  private accessControl: AccessControlService;
+  private auditService: AuditService;
+
+  constructor() {
+    this.accessControl = new AccessControlService();
+    this.auditService = new AuditService();
+  }
+
+  async importGedcom(dto: ImportGedcomDto): Promise<GedcomImportReport> {
+    if (typeof dto.content !== 'string' || dto.content.trim() === '') {
+      throw new AppError('GEDCOM content is required', 400);
+    }
+
+    const nodeStatus = dto.nodeStatus ?? NodeStatus.DRAFT;
+    if (!Object.values(NodeStatus).includes(nodeStatus)) {
+      throw new AppError(`status must be one of: ${Object.values(NodeStatus).join(', ')}`, 400);
+    }
+
+    await this.accessControl.requireEditAccess(dto.treeId, dto.userId);
+
+    const { records, errors } = parseGedcom(dto.content);
+    if (!records.some(r => r.tag === 'HEAD')) {
+      throw new AppError('File is not a valid GEDCOM document', 400);
+    }
+
+    const report: GedcomImportReport = {
+      created: { nodes: 0, relationships: 0, events: 0, participants: 0 },
+      skipped: [],
+      unparseable: errors,
+    };
+
+    await transaction(async (client: PoolClient) => {
+      const nodeIdsByXref = new Map<string, string>();
+      const auditEntries: AuditEntry[] = [];
+      const individuals = records.filter(r => r.tag === 'INDI');
+      const families = records.filter(r => r.tag === 'FAM');
+
+      for (const individual of individuals) {
+        const nodeId = await this.importIndividual(client, individual, dto, nodeStatus, report, auditEntries);
+        if (nodeId && individual.xref) {
+          nodeIdsByXref.set(individual.xref, nodeId);
+        }
+      }
+
+      for (const individual of individuals) {
+        const nodeId = individual.xref ? nodeIdsByXref.get(individual.xref) : undefined;
+        if (!nodeId) continue;
+        const name = getDisplayName(this.nameOf(individual));
+        for (const eventRecord of individual.children.filter(c => INDIVIDUAL_EVENT_TAGS[c.tag])) {
+          await this.importEvent(client, eventRecord, INDIVIDUAL_EVENT_TAGS[eventRecord.tag], name, [{ nodeId, role: 'principal' }], dto, report, auditEntries);
+        }
+      }
+
+      for (const family of families) {
+        await this.importFamily(client, family, individuals, nodeIdsByXref, dto, report, auditEntries);
+      }
+
+      for (const record of records) {
+        if (record.tag !== 'INDI' && record.tag !== 'FAM' && !IGNORED_RECORD_TAGS.includes(record.tag)) {
+          report.skipped.push({
+            xref: record.xref,
+            tag: record.tag,
+            lineNumber: record.lineNumber,
+            reason: 'Unsupported record type',
+          });
+        }
+      }
+
+      await this.auditService.recordMany(auditEntries, client);
+    });
+
+    logger.info(
+      { action: 'importGedcom', treeId: dto.treeId, userId: dto.userId, ...report.created, skipped: report.skipped.length, unparseable: report.unparseable.length },
+      'GEDCOM import completed'
+    );
+
+    return report;
+  }
+
+  private nameOf(individual: GedcomRecord): { firstName?: string; lastName?: string; petName?: string } {
+    const nameRecord = findChild(individual, 'NAME');
+    if (!nameRecord) return {};
+
+    const name = parseGedcomName(nameRecord);
+    if (!isValidNodeName(name) && (name.firstName || name.lastName)) {
+      name.petName = [name.firstName, name.lastName].filter(Boolean).join(' ');
+    }
+    return name;
+  }
+
+  private async importIndividual(
+    client: PoolClient,
+    individual: GedcomRecord,
+    dto: ImportGedcomDto,
+    nodeStatus: NodeStatus,
+    report: GedcomImportReport,
+    auditEntries: AuditEntry[]
+  ): Promise<string | null> {
+    const name = this.nameOf(individual);
+    if (!isValidNodeName(name)) {
+      report.skipped.push({
+        xref: individual.xref,
+        tag: individual.tag,
+        lineNumber: individual.lineNumber,
+        reason: 'Individual has no usable name',
+      });
+      return null;
+    }
+
+    const birth = findChild(individual, 'BIRT');
+    const death = findChild(individual, 'DEAT');
+    const birthDate = (birth && parseGedcomGenealogicalDate(childValue(birth, 'DATE'))) || CLEARED_DATE;
+    const deathDate = (death && parseGedcomGenealogicalDate(childValue(death, 'DATE'))) || CLEARED_DATE;
+
+    const result = await client.query<Node>(
+      `INSERT INTO nodes (tree_id, first_name, last_name, pet_name, place_of_birth,
+                          date_of_birth, date_of_birth_qualifier, date_of_birth_precision, date_of_birth_end,
+                          date_of_death, date_of_death_qualifier, date_of_death_precision, date_of_death_end,
+                          created_by, status, published_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, CASE WHEN $16 THEN NOW() END)
+       RETURNING ${EXPORT_NODE_FIELDS}`,
+      [
+        dto.treeId,
+        truncate(name.firstName),
+        truncate(name.lastName),
+        truncate(name.petName),
+        truncate(birth ? childValue(birth, 'PLAC') : undefined),
+        birthDate.date,
+        birthDate.qualifier,
+        birthDate.precision,
+        birthDate.end,
+        deathDate.date,
+        deathDate.qualifier,
+        deathDate.precision,
+        deathDate.end,
+        dto.userId,
+        nodeStatus,
+        nodeStatus === NodeStatus.PUBLISHED,
+      ]
+    );
+
+    const node = result.rows[0];
+    report.created.nodes++;
+    auditEntries.push({
+      treeId: dto.treeId,
+      entityType: AuditEntityType.NODE,
+      entityId: node.nodeId,
+      action: AuditAction.CREATE,
+      actorId: dto.userId,
+      after: node,
+    });
+    return node.nodeId;
+  }
+
+  private async importFamily(
+    client: PoolClient,
+    family: GedcomRecord,
+    individuals: GedcomRecord[],
+    nodeIdsByXref: Map<string, string>,
+    dto: ImportGedcomDto,
+    report: GedcomImportReport,
+    auditEntries: AuditEntry[]
+  ): Promise<void> {
+    const resolve = (tag: string): Array<{ xref: string; nodeId: string }> => {
+      const resolved: Array<{ xref: string; nodeId: string }> = [];
+      for (const ref of findChildren(family, tag)) {
+        const xref = ref.value?.trim() ?? '';
+        const nodeId = nodeIdsByXref.get(xref);
+        if (nodeId) {
+          resolved.push({ xref, nodeId });
+        } else {
+          report.skipped.push({
+            xref: xref || undefined,
+            tag: ref.tag,
+            lineNumber: ref.lineNumber,
+            reason: 'Family member was not imported',
+          });
+        }
+      }
+      return resolved;
+    };
+
+    const husbands = resolve('HUSB');
+    const wives = resolve('WIFE');
+    const children = resolve('CHIL');
+    const parents = [...husbands, ...wives];
+
+    if (parents.length === 2) {
+      await this.insertRelationship(client, dto, parents[0].nodeId, parents[1].nodeId, RelationshipType.SPOUSE, auditEntries);
+      report.created.relationships++;
+    }
+
+    for (const child of children) {
+      const relationshipType = this.isAdoptedInto(individuals, child.xref, family.xref)
+        ? RelationshipType.ADOPTED
+        : RelationshipType.PARENT_CHILD;
+
+      for (const parent of parents) {
+        await this.insertRelationship(client, dto, parent.nodeId, child.nodeId, relationshipType, auditEntries);
+        report.created.relationships++;
+      }
+    }
+
+    const participants: EventParticipantRef[] = [
+      ...husbands.map(({ nodeId }) => ({ nodeId, role: 'husband' })),
+      ...wives.map(({ nodeId }) => ({ nodeId, role: 'wife' })),
+    ];
+    const subject = parents
+      .map(({ xref }) => getDisplayName(this.nameOf(individuals.find(i => i.xref === xref)!)))
+      .join(' and ');
+
+    for (const eventRecord of family.children.filter(c => FAMILY_EVENT_TAGS[c.tag])) {
+      await this.importEvent(client, eventRecord, FAMILY_EVENT_TAGS[eventRecord.tag], subject, participants, dto, report, auditEntries);
+    }
+  }
+
+  private isAdoptedInto(individuals: GedcomRecord[], childXref: string, familyXref: string | undefined): boolean {
+    const child = individuals.find(i => i.xref === childXref);
+    if (!child || !familyXref) return false;
+
+    const link = findChildren(child, 'FAMC').find(f => f.value?.trim() === familyXref);
+    return link !== undefined && childValue(link, 'PEDI')?.toUpperCase() === 'ADOPTED';
+  }
+
+  private async insertRelationship(
+    client: PoolClient,
+    dto: ImportGedcomDto,
+    nodeId1: string,
+    nodeId2: string,
+    relationshipType: RelationshipType,
+    auditEntries: AuditEntry[]
+  ): Promise<void> {
+    const [node1Role, node2Role] = RELATIONSHIP_ROLES[relationshipType];
+    const result = await client.query<Relationship>(
+      `INSERT INTO relationships (tree_id, node_id_1, node_id_2, relationship_type, node_1_role, node_2_role)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING relationship_id as "relationshipId", tree_id as "treeId", node_id_1 as "nodeId1", node_id_2 as "nodeId2", relationship_type as "relationshipType", node_1_role as "node1Role", node_2_role as "node2Role"`,
+      [dto.treeId, nodeId1, nodeId2, relationshipType, node1Role, node2Role]
+    );
+
+    const relationship = result.rows[0];
+    auditEntries.push({
+      treeId: dto.treeId,
+      entityType: AuditEntityType.RELATIONSHIP,
+      entityId: relationship.relationshipId,
+      action: AuditAction.CREATE,
+      actorId: dto.userId,
+      after: relationship,
+    });
+  }
+
+  private async importEvent(
+    client: PoolClient,
+    eventRecord: GedcomRecord,
+    label: string,
+    subject: string,
+    participants: EventParticipantRef[],
+    dto: ImportGedcomDto,
+    report: GedcomImportReport,
+    auditEntries: AuditEntry[]
+  ): Promise<void> {
+    const eventDate = parseGedcomGenealogicalDate(childValue(eventRecord, 'DATE'));
+    if (!eventDate) {
+      report.skipped.push({
+        tag: eventRecord.tag,
+        lineNumber: eventRecord.lineNumber,
+        reason: 'Event has no usable date',
+      });
+      return;
+    }
+
+    const eventLabel = eventRecord.tag === 'EVEN' ? childValue(eventRecord, 'TYPE') ?? label : label;
+    const title = subject ? `${eventLabel} of ${subject}` : eventLabel;
+
+    const result = await client.query<TimelineEvent>(
+      `INSERT INTO timeline_events (tree_id, event_type, title, description, event_date, event_date_qualifier, event_date_precision, event_date_end, location, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING event_id as "eventId", tree_id as "treeId", event_type as "eventType", title, description, ${genealogicalDateFields('event_date', 'eventDate')}, location, created_by as "createdBy"`,
+      [
+        dto.treeId,
+        EVENT_TYPE_BY_TAG[eventRecord.tag] ?? EventType.MILESTONE,
+        truncate(title),
+        eventRecord.tag === 'EVEN' ? null : childValue(eventRecord, 'TYPE') ?? null,
+        eventDate.date,
+        eventDate.qualifier,
+        eventDate.precision,
+        eventDate.end,
+        truncate(childValue(eventRecord, 'PLAC')),
+        dto.userId,
+      ]
+    );
+    const event = result.rows[0];
+    report.created.events++;
+    auditEntries.push({
+      treeId: dto.treeId,
+      entityType: AuditEntityType.EVENT,
+      entityId: event.eventId,
+      action: AuditAction.CREATE,
+      actorId: dto.userId,
+      after: event,
+    });
+
+    for (const participant of participants) {
+      await client.query(
+        `INSERT INTO event_participants (event_id, node_id, role) VALUES ($1, $2, $3)`,
+        [event.eventId, participant.nodeId, participant.role]
+      );
+      report.created.participants++;
+    }
+  }
+
+  /**
+   * Checks access and returns a lazy GEDCOM 7 serialization of the tree.
+   * Nodes and unattached events are read in keyset-paginated batches so the
+   * whole tree never has to be held in memory.
+   */
+  async exportGedcom(dto: ExportGedcomDto): Promise<AsyncIterable<string>> {
+    const access = await this.accessControl.checkAccess(dto.treeId, dto.userId);
+
+    if ((dto.includeDrafts || dto.includeContactInfo) && access.accessLevel !== AccessLevel.OWNER) {
+      throw new AppError('Owner access required to export drafts or contact info', 403);
+    }
+
+    const treeResult = await query<{ treeName: string }>(
+      'SELECT tree_name as "treeName" FROM family_trees WHERE tree_id = $1',
+      [dto.treeId]
+    );
+
+    if (treeResult.rows.length === 0) {
+      throw new AppError('Tree not found', 404);
+    }
+
+    logger.info({ action: 'exportGedcom', treeId: dto.treeId, userId: dto.userId }, 'GEDCOM export started');
+    return this.writeGedcom(dto, treeResult.rows[0].treeName);
+  }
+
+  private async *writeGedcom(dto: ExportGedcomDto, treeName: string): AsyncGenerator<string> {
+    const nodeFilter = (alias: string) => (dto.includeDrafts ? '' : `AND ${alias}.status = 'published'`);
+
+    yield gedcomLine(0, 'HEAD')
+      + gedcomLine(1, 'GEDC') + gedcomLine(2, 'VERS', '7.0')
+      + gedcomLine(1, 'SOUR', 'RKROOTS') + gedcomLine(2, 'NAME', 'RKRoots')
+      + gedcomLine(1, 'DATE', formatGedcomDate(new Date()))
+      + gedcomLine(1, 'NOTE', `Export of family tree "${treeName}"`);
+
+    const edgesResult = await query<RelationshipEdge>(
+      `SELECT r.node_id_1 as "nodeId1", r.node_id_2 as "nodeId2", r.relationship_type as "relationshipType"
+       FROM relationships r
+       JOIN nodes n1 ON n1.node_id = r.node_id_1
+       JOIN nodes n2 ON n2.node_id = r.node_id_2
+       WHERE r.tree_id = $1 ${nodeFilter('n1')} ${nodeFilter('n2')}`,
+      [dto.treeId]
+    );
+    const { families, spouseFamilies, childFamilies } = buildFamilies(edgesResult.rows);
+
+    const familyEvents = await this.familyEvents(dto.treeId, families, nodeFilter('n'));
+    const familyEventIds = new Set([...familyEvents.values()].flat().map(e => e.eventId));
+
+    let cursor: string | null = null;
+    for (;;) {
+      const nodesResult: { rows: Node[] } = await query<Node>(
+        `SELECT ${EXPORT_NODE_FIELDS}
+         FROM nodes n
+         WHERE tree_id = $1 ${nodeFilter('n')} AND ($2::uuid IS NULL OR node_id > $2::uuid)
+         ORDER BY node_id
+         LIMIT $3`,
+        [dto.treeId, cursor, EXPORT_BATCH_SIZE]
+      );
+      if (nodesResult.rows.length === 0) break;
+
+      const eventsResult = await query<ParticipatingEvent>(
+        `SELECT ep.node_id as "nodeId", ${EXPORT_EVENT_FIELDS}
+         FROM event_participants ep
+         JOIN timeline_events e ON e.event_id = ep.event_id
+         WHERE ep.node_id = ANY($1)
+         ORDER BY e.event_date ASC`,
+        [nodesResult.rows.map(n => n.nodeId)]
+      );
+
+      let chunk = '';
+      for (const node of nodesResult.rows) {
+        const events = eventsResult.rows.filter(e => e.nodeId === node.nodeId && !familyEventIds.has(e.eventId));
+        chunk += this.individualRecord(node, events, spouseFamilies.get(node.nodeId) ?? [], childFamilies.get(node.nodeId) ?? [], dto);
+      }
+      yield chunk;
+
+      cursor = nodesResult.rows[nodesResult.rows.length - 1].nodeId;
+      if (nodesResult.rows.length < EXPORT_BATCH_SIZE) break;
+    }
+
+    for (const family of families) {
+      yield this.familyRecord(family, familyEvents.get(family.xref) ?? []);
+    }
+
+    cursor = null;
+    for (;;) {
+      const eventsResult: { rows: TimelineEvent[] } = await query<TimelineEvent>(
+        `SELECT ${EXPORT_EVENT_FIELDS}
+         FROM timeline_events e
+         WHERE e.tree_id = $1 AND ($2::uuid IS NULL OR e.event_id > $2::uuid)
+           AND NOT EXISTS (SELECT 1 FROM event_participants ep WHERE ep.event_id = e.event_id)
+         ORDER BY e.event_id
+         LIMIT $3`,
+        [dto.treeId, cursor, EXPORT_BATCH_SIZE]
+      );
+      if (eventsResult.rows.length === 0) break;
+
+      yield eventsResult.rows.map(event => this.sharedNoteRecord(event)).join('');
+
+      cursor = eventsResult.rows[eventsResult.rows.length - 1].eventId;
+      if (eventsResult.rows.length < EXPORT_BATCH_SIZE) break;
+    }
+
+    yield gedcomLine(0, 'TRLR');
+  }
+
+  private async familyEvents(treeId: string, families: GedcomFamily[], nodeFilter: string): Promise<Map<string, TimelineEvent[]>> {
+    const eventsByFamily = new Map<string, TimelineEvent[]>();
+    const couples = families.filter(f => f.partnerIds.length === 2);
+    if (couples.length === 0) return eventsByFamily;
+
+    const result = await query<ParticipatingEvent>(
+      `SELECT ep.node_id as "nodeId", ${EXPORT_EVENT_FIELDS}
+       FROM timeline_events e
+       JOIN event_participants ep ON ep.event_id = e.event_id
+       JOIN nodes n ON n.node_id = ep.node_id
+       WHERE e.tree_id = $1 AND e.event_type = $2 ${nodeFilter}
+       ORDER BY e.event_date ASC`,
+      [treeId, EventType.MARRIAGE]
+    );
+
+    const participantsByEvent = new Map<string, { event: TimelineEvent; nodeIds: string[] }>();
+    for (const { nodeId, ...event } of result.rows) {
+      const entry = participantsByEvent.get(event.eventId) ?? { event, nodeIds: [] };
+      entry.nodeIds.push(nodeId);
+      participantsByEvent.set(event.eventId, entry);
+    }
+
+    for (const { event, nodeIds } of participantsByEvent.values()) {
+      const key = [...nodeIds].sort().join('|');
+      const family = couples.find(f => f.partnerIds.join('|') === key);
+      if (family) {
+        eventsByFamily.set(family.xref, [...(eventsByFamily.get(family.xref) ?? []), event]);
+      }
+    }
+
+    return eventsByFamily;
+  }
+
+  private individualRecord(
+    node: Node,
+    events: TimelineEvent[],
+    spouseFamilyXrefs: string[],
+    childFamilies: Array<{ xref: string; pedigree: RelationshipType }>,
+    dto: ExportGedcomDto
+  ): string {
+    let output = gedcomLine(0, 'INDI', null, toXref('I', node.nodeId));
+
+    if (node.firstName || node.lastName) {
+      output += gedcomLine(1, 'NAME', `${node.firstName ?? ''} /${node.lastName ?? ''}/`.trim());
+      output += optionalGedcomLine(2, 'GIVN', node.firstName);
+      output += optionalGedcomLine(2, 'SURN', node.lastName);
+      if (node.petName) output += gedcomLine(2, 'NICK', node.petName);
+    } else if (node.petName) {
+      output += gedcomLine(1, 'NAME', node.petName);
+      output += gedcomLine(2, 'NICK', node.petName);
+    }
+
+    const hasBirthEvent = events.some(e => e.eventType === EventType.BIRTH);
+    const hasDeathEvent = events.some(e => e.eventType === EventType.DEATH);
+
+    if (!hasBirthEvent && (node.dateOfBirth || node.placeOfBirth)) {
+      output += gedcomLine(1, 'BIRT');
+      output += optionalGedcomLine(2, 'DATE', formatGedcomGenealogicalDate({
+        date: node.dateOfBirth, qualifier: node.dateOfBirthQualifier, precision: node.dateOfBirthPrecision, end: node.dateOfBirthEnd,
+      }));
+      output += optionalGedcomLine(2, 'PLAC', node.placeOfBirth);
+    }
+    if (!hasDeathEvent && node.dateOfDeath) {
+      output += gedcomLine(1, 'DEAT');
+      output += optionalGedcomLine(2, 'DATE', formatGedcomGenealogicalDate({
+        date: node.dateOfDeath, qualifier: node.dateOfDeathQualifier, precision: node.dateOfDeathPrecision, end: node.dateOfDeathEnd,
+      }));
+    }
+
+    for (const event of events) {
+      output += this.eventStructure(event, 1, true);
+    }
+
+    if (node.address) {
+      output += gedcomLine(1, 'RESI');
+      output += gedcomLine(2, 'ADDR', node.address);
+    }
+
+    if (dto.includeContactInfo && node.contactInfo) {
+      for (const [key, tag] of Object.entries(CONTACT_TAGS)) {
+        const value = node.contactInfo[key];
+        if (typeof value === 'string' && value.trim() !== '') {
+          output += gedcomLine(1, tag, value.trim());
+        }
+      }
+    }
+
+    for (const { xref, pedigree } of childFamilies) {
+      output += gedcomPointerLine(1, 'FAMC', xref);
+      const mapped = PEDIGREE_BY_TYPE[pedigree];
+      if (mapped) {
+        output += gedcomLine(2, 'PEDI', mapped.value);
+        if (mapped.phrase) output += gedcomLine(3, 'PHRASE', mapped.phrase);
+      }
+    }
+    for (const xref of spouseFamilyXrefs) {
+      output += gedcomPointerLine(1, 'FAMS', xref);
+    }
+
+    return output;
+  }
+
+  private familyRecord(family: GedcomFamily, events: TimelineEvent[]): string {
+    let output = gedcomLine(0, 'FAM', null, family.xref);
+    const [first, second] = family.partnerIds;
+    if (first) output += gedcomPointerLine(1, 'HUSB', toXref('I', first));
+    if (second) output += gedcomPointerLine(1, 'WIFE', toXref('I', second));
+    for (const childId of family.childIds) {
+      output += gedcomPointerLine(1, 'CHIL', toXref('I', childId));
+    }
+    for (const event of events) {
+      output += this.eventStructure(event, 1, false);
+    }
+    return output;
+  }
+
+  private eventStructure(event: TimelineEvent, level: number, individual: boolean): string {
+    let output: string;
+    if (event.eventType === EventType.BIRTH && individual) {
+      output = gedcomLine(level, 'BIRT');
+    } else if (event.eventType === EventType.DEATH && individual) {
+      output = gedcomLine(level, 'DEAT');
+    } else if (event.eventType === EventType.MARRIAGE && !individual) {
+      output = gedcomLine(level, 'MARR');
+    } else {
+      output = gedcomLine(level, 'EVEN', event.title) + gedcomLine(level + 1, 'TYPE', event.eventType);
+    }
+
+    output += optionalGedcomLine(level + 1, 'DATE', this.eventGedcomDate(event));
+    output += optionalGedcomLine(level + 1, 'PLAC', event.location);
+    output += optionalGedcomLine(level + 1, 'NOTE', event.description);
+    return output;
+  }
+
+  private eventGedcomDate(event: TimelineEvent): string | null {
+    return formatGedcomGenealogicalDate({
+      date: event.eventDate, qualifier: event.eventDateQualifier, precision: event.eventDatePrecision, end: event.eventDateEnd,
+    });
+  }
+
+  private sharedNoteRecord(event: TimelineEvent): string {
+    const date = this.eventGedcomDate(event);
+    const lines = [`${event.title}${date ? ` (${date})` : ''}`, event.location, event.description].filter(Boolean);
+    return gedcomLine(0, 'SNOTE', lines.join('\n'), toXref('E', event.eventId));
+  }
+}
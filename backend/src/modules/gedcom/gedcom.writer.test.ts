@@ -0,0 +1,132 @@
+import { RelationshipType } from '../../database/interfaces';
+import { DatePrecision, DateQualifier } from '../../database/interfaces';
+import { buildFamilies, gedcomLine, gedcomPointerLine, optionalGedcomLine, formatGedcomDate, formatGedcomGenealogicalDate, toXref } from './gedcom.writer';
+import { parseGedcom } from './gedcom.parser';
+
+describe('GEDCOM writer', () => {
+  describe('toXref', () => {
+    it('should strip hyphens and upper-case the id', () => {
+      expect(toXref('I', '3f2a0b1c-aaaa-bbbb-cccc-0123456789ab')).toBe('@I3F2A0B1CAAAABBBBCCCC0123456789AB@');
+    });
+  });
+
+  describe('gedcomLine', () => {
+    it('should write level, xref, tag and value', () => {
+      expect(gedcomLine(0, 'INDI', null, '@I1@')).toBe('0 @I1@ INDI\n');
+      expect(gedcomLine(1, 'NAME', 'John /Smith/')).toBe('1 NAME John /Smith/\n');
+    });
+
+    it('should split multi-line values into CONT lines', () => {
+      expect(gedcomLine(1, 'NOTE', 'First\n\nThird')).toBe('1 NOTE First\n2 CONT\n2 CONT Third\n');
+    });
+
+    it('should escape a leading @', () => {
+      expect(gedcomLine(1, 'NOTE', '@home')).toBe('1 NOTE @@home\n');
+    });
+
+    it('should round-trip through the parser', () => {
+      const output = gedcomLine(0, 'SNOTE', 'Line one\nLine two', '@N1@');
+      const { records } = parseGedcom(output);
+
+      expect(records[0].value).toBe('Line one\nLine two');
+    });
+  });
+
+  describe('gedcomPointerLine', () => {
+    it('should not escape pointer values', () => {
+      expect(gedcomPointerLine(1, 'FAMS', '@F1@')).toBe('1 FAMS @F1@\n');
+    });
+  });
+
+  describe('optionalGedcomLine', () => {
+    it('should omit lines without a value', () => {
+      expect(optionalGedcomLine(2, 'DATE', null)).toBe('');
+      expect(optionalGedcomLine(2, 'DATE', '')).toBe('');
+      expect(optionalGedcomLine(2, 'DATE', '1 JAN 1900')).toBe('2 DATE 1 JAN 1900\n');
+    });
+  });
+
+  describe('formatGedcomDate', () => {
+    it('should format Date objects and ISO strings', () => {
+      expect(formatGedcomDate(new Date(1990, 0, 15))).toBe('15 JAN 1990');
+      expect(formatGedcomDate('1875-12-03')).toBe('3 DEC 1875');
+    });
+
+    it('should return null for missing or invalid dates', () => {
+      expect(formatGedcomDate(null)).toBeNull();
+      expect(formatGedcomDate(new Date('invalid'))).toBeNull();
+      expect(formatGedcomDate('yesterday')).toBeNull();
+    });
+  });
+
+  describe('formatGedcomGenealogicalDate', () => {
+    it('should write qualifiers, ranges and partial dates', () => {
+      expect(formatGedcomGenealogicalDate({ date: new Date(1890, 0, 1), qualifier: DateQualifier.ABOUT, precision: DatePrecision.YEAR })).toBe('ABT 1890');
+      expect(formatGedcomGenealogicalDate({ date: new Date(1920, 2, 1), qualifier: DateQualifier.BEFORE, precision: DatePrecision.MONTH })).toBe('BEF MAR 1920');
+      expect(formatGedcomGenealogicalDate({
+        date: new Date(1910, 0, 1), qualifier: DateQualifier.BETWEEN, precision: DatePrecision.YEAR, end: new Date(1915, 0, 1),
+      })).toBe('BET 1910 AND 1915');
+      expect(formatGedcomGenealogicalDate({ date: new Date(1990, 0, 15), qualifier: DateQualifier.EXACT, precision: DatePrecision.DAY })).toBe('15 JAN 1990');
+      expect(formatGedcomGenealogicalDate({ date: null })).toBeNull();
+    });
+  });
+
+  describe('buildFamilies', () => {
+    it('should group two parents of a child into one family', () => {
+      const { families, spouseFamilies, childFamilies } = buildFamilies([
+        { nodeId1: 'dad', nodeId2: 'kid', relationshipType: RelationshipType.PARENT_CHILD },
+        { nodeId1: 'mum', nodeId2: 'kid', relationshipType: RelationshipType.PARENT_CHILD },
+        { nodeId1: 'dad', nodeId2: 'mum', relationshipType: RelationshipType.SPOUSE },
+      ]);
+
+      expect(families).toHaveLength(1);
+      expect(families[0].partnerIds).toEqual(['dad', 'mum']);
+      expect(families[0].childIds).toEqual(['kid']);
+      expect(spouseFamilies.get('dad')).toEqual(['@F1@']);
+      expect(childFamilies.get('kid')).toEqual([{ xref: '@F1@', pedigree: RelationshipType.PARENT_CHILD }]);
+    });
+
+    it('should keep adoptive parents in a separate family', () => {
+      const { families, childFamilies } = buildFamilies([
+        { nodeId1: 'birth-mum', nodeId2: 'kid', relationshipType: RelationshipType.PARENT_CHILD },
+        { nodeId1: 'adoptive-mum', nodeId2: 'kid', relationshipType: RelationshipType.ADOPTED },
+      ]);
+
+      expect(families).toHaveLength(2);
+      expect(childFamilies.get('kid')!.map(f => f.pedigree)).toEqual([
+        RelationshipType.PARENT_CHILD,
+        RelationshipType.ADOPTED,
+      ]);
+    });
+
+    it('should create a childless family for spouses', () => {
+      const { families } = buildFamilies([
+        { nodeId1: 'b', nodeId2: 'a', relationshipType: RelationshipType.SPOUSE },
+      ]);
+
+      expect(families).toEqual([{ xref: '@F1@', partnerIds: ['a', 'b'], childIds: [], pedigree: new Map() }]);
+    });
+
+    it('should place siblings without parents in a parentless family', () => {
+      const { families } = buildFamilies([
+        { nodeId1: 'a', nodeId2: 'b', relationshipType: RelationshipType.SIBLING },
+        { nodeId1: 'b', nodeId2: 'c', relationshipType: RelationshipType.SIBLING },
+      ]);
+
+      expect(families).toHaveLength(1);
+      expect(families[0].partnerIds).toEqual([]);
+      expect(families[0].childIds).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should not add a sibling family when siblings already share parents', () => {
+      const { families } = buildFamilies([
+        { nodeId1: 'mum', nodeId2: 'a', relationshipType: RelationshipType.PARENT_CHILD },
+        { nodeId1: 'mum', nodeId2: 'b', relationshipType: RelationshipType.PARENT_CHILD },
+        { nodeId1: 'a', nodeId2: 'b', relationshipType: RelationshipType.SIBLING },
+      ]);
+
+      expect(families).toHaveLength(1);
+      expect(families[0].childIds).toEqual(['a', 'b']);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { DatePrecision, DateQualifier, RelationshipType } from '../../database/interfaces';
+import { StoredGenealogicalDate } from '../../common/utils/genealogical-date';
+
+export interface RelationshipEdge {
+  nodeId1: string;
+  nodeId2: string;
+  relationshipType: RelationshipType;
+}
+
+export interface GedcomFamily {
+  xref: string;
+  partnerIds: string[];
+  childIds: string[];
+  pedigree: Map<string, RelationshipType>;
+}
+
+export interface GedcomFamilyIndex {
+  families: GedcomFamily[];
+  spouseFamilies: Map<string, string[]>;
+  childFamilies: Map<string, Array<{ xref: string; pedigree: RelationshipType }>>;
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+const PARENT_TYPES = [RelationshipType.PARENT_CHILD, RelationshipType.ADOPTED, RelationshipType.STEP];
+
+/**
+ * Builds a GEDCOM cross-reference identifier from a database id.
+ * UUIDs are upper-cased and stripped of hyphens to satisfy the xref grammar.
+ */
+export function toXref(prefix: string, id: string): string {
+  return `@${prefix}${id.replace(/-/g, '').toUpperCase()}@`;
+}
+
+/**
+ * Formats a single GEDCOM line, splitting multi-line values into CONT lines
+ * and escaping a leading "@" as required by GEDCOM 7.
+ */
+export function gedcomLine(level: number, tag: string, value?: string | null, xref?: string): string {
+  const prefix = xref ? `${level} ${xref} ${tag}` : `${level} ${tag}`;
+  if (value === undefined || value === null || value === '') {
+    return `${prefix}\n`;
+  }
+
+  const [first, ...rest] = String(value).split(/\r\n|\r|\n/).map(part => part.replace(/^@/, '@@'));
+  let output = first === '' ? `${prefix}\n` : `${prefix} ${first}\n`;
+  for (const part of rest) {
+    output += part === '' ? `${level + 1} CONT\n` : `${level + 1} CONT ${part}\n`;
+  }
+  return output;
+}
+
+/**
+ * Formats a line whose value is a pointer to another record, which must not be escaped.
+ */
+export function gedcomPointerLine(level: number, tag: string, xref: string): string {
+  return `${level} ${tag} ${xref}\n`;
+}
+
+/**
+ * Like gedcomLine, but omits the line entirely when there is no value to write.
+ */
+export function optionalGedcomLine(level: number, tag: string, value?: string | null): string {
+  return value === undefined || value === null || value === '' ? '' : gedcomLine(level, tag, value);
+}
+
+/**
+ * Formats a stored calendar date as a GEDCOM date value ("15 JAN 1990").
+ */
+export function formatGedcomDate(value: Date | string | null | undefined): string | null {
+  if (!value) return null;
+
+  if (typeof value === 'string') {
+    const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+    if (!match) return null;
+    return `${parseInt(match[3], 10)} ${MONTH_NAMES[parseInt(match[2], 10) - 1]} ${match[1]}`;
+  }
+
+  if (isNaN(value.getTime())) return null;
+  return `${value.getDate()} ${MONTH_NAMES[value.getMonth()]} ${value.getFullYear()}`;
+}
+
+const GEDCOM_QUALIFIER_PREFIXES: Partial<Record<DateQualifier, string>> = {
+  [DateQualifier.ABOUT]: 'ABT ',
+  [DateQualifier.ESTIMATED]: 'EST ',
+  [DateQualifier.BEFORE]: 'BEF ',
+  [DateQualifier.AFTER]: 'AFT ',
+};
+
+/** Writes a date at its precision: "15 JAN 1990", "JAN 1990" or "1990" */
+function formatGedcomCalendarDate(value: Date | string, precision: DatePrecision | null | undefined): string | null {
+  const full = formatGedcomDate(value);
+  if (!full || !precision || precision === DatePrecision.DAY) return full;
+  const [, month, year] = full.split(' ');
+  return precision === DatePrecision.MONTH ? `${month} ${year}` : year;
+}
+
+/**
+ * Formats a stored genealogical date as a GEDCOM date value, e.g. "ABT 1890",
+ * "BEF MAR 1920" or "BET 1910 AND 1915".
+ */
+export function formatGedcomGenealogicalDate(value: StoredGenealogicalDate): string | null {
+  if (!value.date) return null;
+
+  const date = formatGedcomCalendarDate(value.date, value.precision);
+  if (!date) return null;
+
+  if (value.qualifier === DateQualifier.BETWEEN && value.end) {
+    const end = formatGedcomCalendarDate(value.end, value.precision);
+    return end ? `BET ${date} AND ${end}` : date;
+  }
+  return `${(value.qualifier && GEDCOM_QUALIFIER_PREFIXES[value.qualifier]) ?? ''}${date}`;
+}
+
+/**
+ * Groups relationship edges into GEDCOM FAM records. Parents of the same child
+ * (per relationship type) share a family, spouse pairs without children get their
+ * own family, and siblings who share no parents are placed in a parentless family.
+ */
+export function buildFamilies(edges: RelationshipEdge[]): GedcomFamilyIndex {
+  const familiesByKey = new Map<string, GedcomFamily>();
+  let sequence = 0;
+
+  const familyFor = (partnerIds: string[]): GedcomFamily => {
+    const key = [...partnerIds].sort().join('|');
+    let family = familiesByKey.get(key);
+    if (!family) {
+      sequence++;
+      family = { xref: `@F${sequence}@`, partnerIds: [...partnerIds].sort(), childIds: [], pedigree: new Map() };
+      familiesByKey.set(key, family);
+    }
+    return family;
+  };
+
+  const parentsByChild = new Map<string, Map<RelationshipType, string[]>>();
+  for (const edge of edges) {
+    if (!PARENT_TYPES.includes(edge.relationshipType)) continue;
+    const byType = parentsByChild.get(edge.nodeId2) ?? new Map<RelationshipType, string[]>();
+    const parents = byType.get(edge.relationshipType) ?? [];
+    if (!parents.includes(edge.nodeId1)) parents.push(edge.nodeId1);
+    byType.set(edge.relationshipType, parents);
+    parentsByChild.set(edge.nodeId2, byType);
+  }
+
+  for (const [childId, byType] of parentsByChild) {
+    for (const [relationshipType, parents] of byType) {
+      for (let i = 0; i < parents.length; i += 2) {
+        const family = familyFor(parents.slice(i, i + 2));
+        if (!family.childIds.includes(childId)) {
+          family.childIds.push(childId);
+          family.pedigree.set(childId, relationshipType);
+        }
+      }
+    }
+  }
+
+  for (const edge of edges) {
+    if (edge.relationshipType === RelationshipType.SPOUSE) {
+      familyFor([edge.nodeId1, edge.nodeId2]);
+    }
+  }
+
+  const families = [...familiesByKey.values()];
+
+  for (const edge of edges) {
+    if (edge.relationshipType !== RelationshipType.SIBLING) continue;
+    const shareFamily = families.some(f => f.childIds.includes(edge.nodeId1) && f.childIds.includes(edge.nodeId2));
+    if (shareFamily) continue;
+
+    let family = families.find(f => f.partnerIds.length === 0 && (f.childIds.includes(edge.nodeId1) || f.childIds.includes(edge.nodeId2)));
+    if (!family) {
+      sequence++;
+      family = { xref: `@F${sequence}@`, partnerIds: [], childIds: [], pedigree: new Map() };
+      families.push(family);
+    }
+    for (const childId of [edge.nodeId1, edge.nodeId2]) {
+      if (!family.childIds.includes(childId)) {
+        family.childIds.push(childId);
+        family.pedigree.set(childId, RelationshipType.PARENT_CHILD);
+      }
+    }
+  }
+
+  const spouseFamilies = new Map<string, string[]>();
+  const childFamilies = new Map<string, Array<{ xref: string; pedigree: RelationshipType }>>();
+  for (const family of families) {
+    for (const partnerId of family.partnerIds) {
+      spouseFamilies.set(partnerId, [...(spouseFamilies.get(partnerId) ?? []), family.xref]);
+    }
+    for (const childId of family.childIds) {
+      childFamilies.set(childId, [
+        ...(childFamilies.get(childId) ?? []),
+        { xref: family.xref, pedigree: family.pedigree.get(childId)! },
+      ]);
+    }
+  }
+
+  return { families, spouseFamilies, childFamilies };
+}
@@ -0,0 +1,57 @@
+import { Request, Response, NextFunction } from 'express';
+import { InvitationService } from './invitation.service';
+import { AuthRequest } from '../../common/middleware/auth.middleware';
+
+export class InvitationController {
+  constructor(private invitationService: InvitationService) {}
+
+  async create(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const invitation = await this.invitationService.createInvitation(req.params.treeId, req.userId!, {
+        email: req.body.email,
+        accessLevel: req.body.accessLevel,
+        expiresInDays: req.body.expiresInDays,
+        maxUses: req.body.maxUses,
+      });
+      res.status(201).json(invitation);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getInvitations(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const invitations = await this.invitationService.getInvitations(req.params.treeId, req.userId!);
+      res.json(invitations);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async revoke(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await this.invitationService.revokeInvitation(req.params.treeId, req.params.invitationId, req.userId!);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async preview(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const preview = await this.invitationService.getInvitationPreview(req.params.token);
+      res.json(preview);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async redeem(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const redeemed = await this.invitationService.redeemInvitation(req.params.token, req.userId!);
+      res.json(redeemed);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
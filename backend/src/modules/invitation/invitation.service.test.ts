@@ -0,0 +1,297 @@
+import { AccessLevel, AuditAction, MailTemplate } from '../../database/interfaces';
+
+const mockQuery = jest.fn();
+const mockClientQuery = jest.fn((...args: unknown[]) => mockQuery(...args));
+const mockRecordAudit = jest.fn();
+const mockSendMail = jest.fn();
+const mockNotifyAccessGranted = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  query: (...args: unknown[]) => mockQuery(...args),
+  transaction: (callback: (client: unknown) => Promise<unknown>) => callback({ query: mockClientQuery }),
+}));
+
+jest.mock('../audit/audit.service', () => ({
+  AuditService: jest.fn().mockImplementation(() => ({
+    record: mockRecordAudit,
+  })),
+}));
+
+jest.mock('../mail/mail.service', () => ({
+  MailService: jest.fn().mockImplementation(() => ({
+    send: mockSendMail,
+  })),
+  appUrl: (path: string) => `https://app.example.com${path}`,
+}));
+
+jest.mock('../notification/notification.service', () => ({
+  NotificationService: jest.fn().mockImplementation(() => ({
+    notifyAccessGranted: mockNotifyAccessGranted,
+  })),
+}));
+
+import { InvitationService } from './invitation.service';
+
+describe('InvitationService', () => {
+  let service: InvitationService;
+
+  const invitation = (overrides: Record<string, unknown> = {}) => ({
+    invitationId: 'invitation1',
+    treeId: 'tree1',
+    token: 'token-abcdefghijklmnop',
+    email: null,
+    accessLevel: 'editor',
+    maxUses: null,
+    useCount: 0,
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    createdBy: 'owner1',
+    createdAt: new Date(),
+    revokedAt: null,
+    treeName: 'Sharma Family',
+    inviterName: 'Priya',
+    ...overrides,
+  });
+
+  /** Routes queries by their SQL; `accessLevels` gives each user's access to tree1 */
+  const mockDatabase = (handlers: {
+    accessLevels?: Record<string, AccessLevel>;
+    invitation?: ReturnType<typeof invitation> | null;
+    pendingTokens?: string[];
+    userEmail?: string;
+    emailVerified?: boolean;
+  }) => {
+    mockQuery.mockImplementation((sql: string, params: unknown[]) => {
+      if (sql.includes('FROM tree_access ta')) {
+        const level = handlers.accessLevels?.[params[1] as string];
+        return { rows: level ? [{ accessLevel: level }] : [] };
+      }
+      if (sql.includes('INSERT INTO tree_access')) {
+        return { rows: [{ accessId: 'access1', treeId: params[0], userId: params[1], accessLevel: params[2] }] };
+      }
+      if (sql.includes('WHERE i.token = $1')) {
+        return { rows: handlers.invitation ? [handlers.invitation] : [] };
+      }
+      if (sql.includes('SELECT i.token FROM tree_invitations')) {
+        return { rows: (handlers.pendingTokens ?? []).map(token => ({ token })) };
+      }
+      if (sql.includes('INSERT INTO tree_invitation_redemptions')) {
+        return { rowCount: 1 };
+      }
+      if (sql.includes('email_verified_at IS NOT NULL as "verified"')) {
+        return { rows: [{ verified: handlers.emailVerified ?? true }] };
+      }
+      if (sql.includes('SELECT email FROM users')) {
+        return { rows: handlers.userEmail ? [{ email: handlers.userEmail }] : [] };
+      }
+      if (sql.includes('tree_name')) {
+        return { rows: [{ treeName: 'Sharma Family' }] };
+      }
+      return { rows: [], rowCount: 1 };
+    });
+  };
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockClientQuery.mockClear();
+    mockRecordAudit.mockReset();
+    mockSendMail.mockReset();
+    mockNotifyAccessGranted.mockReset();
+    service = new InvitationService();
+  });
+
+  describe('createInvitation', () => {
+    it('should create a shareable link limited to the given uses', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.OWNER }] })
+        .mockResolvedValueOnce({ rows: [invitation({ maxUses: 5 })] });
+
+      const result = await service.createInvitation('tree1', 'owner1', {
+        accessLevel: 'editor',
+        maxUses: 5,
+        expiresInDays: 14,
+      });
+
+      expect(result.url).toBe('https://app.example.com/invitations/token-abcdefghijklmnop');
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('INSERT INTO tree_invitations');
+      expect(params[1]).toMatch(/^[A-Za-z0-9_-]{32}$/);
+      expect(params.slice(2)).toEqual([null, 'editor', 5, 14, 'owner1']);
+      expect(mockSendMail).not.toHaveBeenCalled();
+    });
+
+    it('should email a single-use invitation in the inviter\'s language to someone without an account', async () => {
+      const emailed = invitation({ email: 'sam@example.com', maxUses: 1, accessLevel: 'viewer' });
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.OWNER }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rowCount: 0 })
+        .mockResolvedValueOnce({ rows: [emailed] })
+        .mockResolvedValueOnce({ rows: [{ treeName: 'Sharma Family', inviterName: 'Priya', inviterLocale: 'es' }] });
+
+      await service.createInvitation('tree1', 'owner1', { email: ' Sam@Example.com ', accessLevel: 'viewer', maxUses: 10 });
+
+      expect(mockQuery.mock.calls[2][0]).toContain('SET revoked_at = NOW()');
+      expect(mockQuery.mock.calls[3][1].slice(2, 5)).toEqual(['sam@example.com', 'viewer', 1]);
+      expect(mockSendMail).toHaveBeenCalledWith('sam@example.com', MailTemplate.INVITATION, {
+        inviterName: 'Priya',
+        treeName: 'Sharma Family',
+        accessLevel: AccessLevel.VIEWER,
+        actionUrl: 'https://app.example.com/invitations/token-abcdefghijklmnop',
+        expiresAt: emailed.expiresAt,
+      }, 'es');
+    });
+
+    it('should reject inviting someone who already has access', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.OWNER }] })
+        .mockResolvedValueOnce({ rows: [{ locale: 'en', accessLevel: AccessLevel.VIEWER }] });
+
+      await expect(
+        service.createInvitation('tree1', 'owner1', { email: 'sam@example.com', accessLevel: 'editor' })
+      ).rejects.toThrow('User already has access to this tree');
+    });
+
+    it('should reject an expiry outside the allowed range', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.OWNER }] });
+
+      await expect(
+        service.createInvitation('tree1', 'owner1', { accessLevel: 'viewer', expiresInDays: 365 })
+      ).rejects.toThrow('expiresInDays must be a whole number from 1 to 90');
+    });
+
+    it('should require owner access', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] });
+
+      await expect(
+        service.createInvitation('tree1', 'editor1', { accessLevel: 'viewer' })
+      ).rejects.toThrow('Owner access required');
+    });
+  });
+
+  describe('revokeInvitation', () => {
+    it('should report an invitation that is missing or already revoked', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.OWNER }] })
+        .mockResolvedValueOnce({ rowCount: 0 });
+
+      await expect(service.revokeInvitation('tree1', 'invitation1', 'owner1')).rejects.toThrow('Invitation not found');
+    });
+  });
+
+  describe('getInvitationPreview', () => {
+    it('should describe a usable invitation', async () => {
+      mockDatabase({ invitation: invitation() });
+
+      const preview = await service.getInvitationPreview('token-abcdefghijklmnop');
+
+      expect(preview).toMatchObject({ treeId: 'tree1', treeName: 'Sharma Family', inviterName: 'Priya', accessLevel: 'editor' });
+    });
+
+    it.each([
+      ['revoked', { revokedAt: new Date() }, 'Invitation has been revoked'],
+      ['expired', { expiresAt: new Date(Date.now() - 1000) }, 'Invitation has expired'],
+      ['used up', { maxUses: 2, useCount: 2 }, 'Invitation has already been used'],
+    ])('should reject an invitation that is %s', async (_state, overrides, message) => {
+      mockDatabase({ invitation: invitation(overrides) });
+
+      await expect(service.getInvitationPreview('token-abcdefghijklmnop')).rejects.toMatchObject({ message, statusCode: 410 });
+    });
+
+    it('should report an unknown token', async () => {
+      mockDatabase({ invitation: null });
+
+      await expect(service.getInvitationPreview('unknown-token-abcdef')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('redeemInvitation', () => {
+    it('should grant the invitation\'s access and use it up once', async () => {
+      mockDatabase({ invitation: invitation(), userEmail: 'sam@example.com' });
+
+      const result = await service.redeemInvitation('token-abcdefghijklmnop', 'user1');
+
+      expect(result).toEqual({ treeId: 'tree1', treeName: 'Sharma Family', accessLevel: AccessLevel.EDITOR });
+      expect(mockClientQuery).toHaveBeenCalledWith(expect.stringContaining('FROM tree_access ta'), ['tree1', 'user1']);
+      expect(mockClientQuery).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO tree_access'), ['tree1', 'user1', AccessLevel.EDITOR, 'owner1']);
+      expect(mockClientQuery).toHaveBeenCalledWith(expect.stringContaining('use_count = use_count + 1'), ['invitation1']);
+      expect(mockRecordAudit).toHaveBeenCalledWith(expect.objectContaining({
+        entityId: 'user1',
+        action: AuditAction.CREATE,
+        actorId: 'user1',
+      }), expect.anything());
+      expect(mockNotifyAccessGranted).toHaveBeenCalledWith('user1', 'tree1', 'Sharma Family', AccessLevel.EDITOR);
+    });
+
+    it('should not tell the member about access that was rolled back', async () => {
+      mockDatabase({ invitation: invitation(), userEmail: 'sam@example.com' });
+      mockRecordAudit.mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(service.redeemInvitation('token-abcdefghijklmnop', 'user1')).rejects.toThrow('connection lost');
+      expect(mockNotifyAccessGranted).not.toHaveBeenCalled();
+    });
+
+    it('should leave a member with the same or higher access as they are', async () => {
+      mockDatabase({ invitation: invitation({ accessLevel: 'viewer' }), userEmail: 'sam@example.com', accessLevels: { user1: AccessLevel.EDITOR } });
+
+      const result = await service.redeemInvitation('token-abcdefghijklmnop', 'user1');
+
+      expect(result.accessLevel).toBe(AccessLevel.EDITOR);
+      expect(mockQuery).not.toHaveBeenCalledWith(expect.stringContaining('INSERT INTO tree_access'), expect.anything());
+      expect(mockQuery).not.toHaveBeenCalledWith(expect.stringContaining('use_count = use_count + 1'), expect.anything());
+    });
+
+    it('should upgrade a viewer invited as an editor', async () => {
+      mockDatabase({ invitation: invitation(), userEmail: 'sam@example.com', accessLevels: { user1: AccessLevel.VIEWER } });
+
+      const result = await service.redeemInvitation('token-abcdefghijklmnop', 'user1');
+
+      expect(result.accessLevel).toBe(AccessLevel.EDITOR);
+      expect(mockRecordAudit).toHaveBeenCalledWith(expect.objectContaining({ action: AuditAction.UPDATE }), expect.anything());
+    });
+
+    it('should only let the invited address redeem an email invitation', async () => {
+      mockDatabase({ invitation: invitation({ email: 'sam@example.com', maxUses: 1 }), userEmail: 'someone@example.com' });
+
+      await expect(service.redeemInvitation('token-abcdefghijklmnop', 'user1')).rejects.toMatchObject({
+        message: 'This invitation was sent to a different email address',
+        statusCode: 403,
+      });
+    });
+
+    it('should not let an unverified account take an email invitation', async () => {
+      mockDatabase({ invitation: invitation({ email: 'sam@example.com', maxUses: 1 }), userEmail: 'sam@example.com', emailVerified: false });
+
+      await expect(service.redeemInvitation('token-abcdefghijklmnop', 'user1')).rejects.toMatchObject({
+        code: 'EMAIL_NOT_VERIFIED',
+        statusCode: 403,
+      });
+      expect(mockQuery).not.toHaveBeenCalledWith(expect.stringContaining('INSERT INTO tree_access'), expect.anything());
+    });
+  });
+
+  describe('redeemForUser', () => {
+    it('should redeem invitations sent to the email along with the followed link', async () => {
+      mockDatabase({ invitation: invitation({ email: null }), pendingTokens: ['emailed-token-abcdefgh'] });
+
+      const redeemed = await service.redeemForUser('user1', 'sam@example.com', 'link-token-abcdefghij');
+
+      expect(redeemed).toHaveLength(2);
+      const tokens = mockQuery.mock.calls
+        .filter(([sql]) => (sql as string).includes('WHERE i.token = $1'))
+        .map(([, params]) => (params as string[])[0]);
+      expect(tokens).toEqual(['emailed-token-abcdefgh', 'link-token-abcdefghij']);
+    });
+
+    it('should skip invitations that cannot be used instead of failing sign-in', async () => {
+      mockDatabase({ invitation: invitation({ expiresAt: new Date(Date.now() - 1000) }) });
+
+      await expect(service.redeemForUser('user1', 'sam@example.com', 'link-token-abcdefghij')).resolves.toEqual([]);
+    });
+
+    it('should not throw when the database fails', async () => {
+      mockQuery.mockRejectedValue(new Error('connection lost'));
+
+      await expect(service.redeemForUser('user1', 'sam@example.com')).resolves.toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,326 @@
+import { randomBytes } from 'crypto';
+import { query, transaction } from '../../config/database';
+import { AccessLevel, AuditAction, AuditEntityType, MailTemplate, TreeInvitation } from '../../database/interfaces';
+import { AccessControlService } from '../../common/services/access-control.service';
+import { AppError } from '../../common/errors/app-error';
+import { createLogger } from '../../common/logger';
+import { AuditService } from '../audit/audit.service';
+import { MailService, appUrl } from '../mail/mail.service';
+
+const logger = createLogger('invitation');
+
+export const DEFAULT_INVITATION_EXPIRY_DAYS = 7;
+export const MAX_INVITATION_EXPIRY_DAYS = 90;
+
+const INVITATION_COLUMNS = `i.invitation_id as "invitationId", i.tree_id as "treeId", i.token, i.email,
+  i.access_level as "accessLevel", i.max_uses as "maxUses", i.use_count as "useCount",
+  i.expires_at as "expiresAt", i.created_by as "createdBy", i.created_at as "createdAt", i.revoked_at as "revokedAt"`;
+
+/** Invitations that can still be redeemed */
+const PENDING_SQL = `i.revoked_at IS NULL
+  AND (i.expires_at IS NULL OR i.expires_at > NOW())
+  AND (i.max_uses IS NULL OR i.use_count < i.max_uses)`;
+
+const LEVEL_RANK: Record<AccessLevel, number> = {
+  [AccessLevel.VIEWER]: 1,
+  [AccessLevel.EDITOR]: 2,
+  [AccessLevel.OWNER]: 3,
+};
+
+export interface InvitationWithUrl extends TreeInvitation {
+  /** The link to share or that was emailed */
+  url: string;
+}
+
+/** What someone holding an invitation link sees before joining */
+export interface InvitationPreview {
+  treeId: string;
+  treeName: string;
+  inviterName: string | null;
+  accessLevel: 'viewer' | 'editor';
+  email: string | null;
+  expiresAt: Date | null;
+}
+
+export interface RedeemedInvitation {
+  treeId: string;
+  treeName: string;
+  /** The user's access to the tree afterwards */
+  accessLevel: AccessLevel;
+}
+
+interface CreateInvitationDto {
+  email?: string;
+  accessLevel: 'viewer' | 'editor';
+  expiresInDays?: number;
+  maxUses?: number;
+}
+
+type InvitationWithTree = TreeInvitation & { treeName: string; inviterName: string | null };
+
+/** Throws unless the invitation exists and can still be used */
+function assertRedeemable(invitation: InvitationWithTree | undefined): asserts invitation is InvitationWithTree {
+  if (!invitation) {
+    throw new AppError('Invitation not found', 404);
+  }
+  if (invitation.revokedAt) {
+    throw new AppError('Invitation has been revoked', 410);
+  }
+  if (invitation.expiresAt && new Date(invitation.expiresAt) <= new Date()) {
+    throw new AppError('Invitation has expired', 410);
+  }
+  if (invitation.maxUses !== null && invitation.useCount >= invitation.maxUses) {
+    throw new AppError('Invitation has already been used', 410);
+  }
+}
+
+export class InvitationService {
+  private accessControl: AccessControlService;
+  private auditService: AuditService;
+  private mailService: MailService;
+
+  constructor() {
+    this.accessControl = new AccessControlService();
+    this.auditService = new AuditService();
+    this.mailService = new MailService();
+  }
+
+  /**
+   * Creates an invitation to the tree. With an email it is sent to that
+   * address, replaces any earlier invitation for it and works once; without
+   * one it is a link for anyone, limited by `maxUses` if given.
+   */
+  async createInvitation(treeId: string, ownerId: string, dto: CreateInvitationDto): Promise<InvitationWithUrl> {
+    await this.accessControl.requireOwnerAccess(treeId, ownerId);
+
+    const expiresInDays = dto.expiresInDays ?? DEFAULT_INVITATION_EXPIRY_DAYS;
+    if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_INVITATION_EXPIRY_DAYS) {
+      throw new AppError(`expiresInDays must be a whole number from 1 to ${MAX_INVITATION_EXPIRY_DAYS}`, 400);
+    }
+    if (dto.maxUses !== undefined && (!Number.isInteger(dto.maxUses) || dto.maxUses < 1)) {
+      throw new AppError('maxUses must be a positive whole number', 400);
+    }
+
+    const email = dto.email?.trim().toLowerCase() || null;
+    let inviteeLocale: string | null = null;
+
+    if (email) {
+      const userResult = await query<{ locale: string; accessLevel: AccessLevel | null }>(
+        `SELECT u.locale, ta.access_level as "accessLevel"
+         FROM users u
+         LEFT JOIN tree_access ta ON ta.user_id = u.user_id AND ta.tree_id = $2
+         WHERE LOWER(u.email) = $1`,
+        [email, treeId]
+      );
+      if (userResult.rows[0]?.accessLevel) {
+        throw new AppError('User already has access to this tree', 409);
+      }
+      inviteeLocale = userResult.rows[0]?.locale ?? null;
+
+      await query(
+        `UPDATE tree_invitations SET revoked_at = NOW()
+         WHERE tree_id = $1 AND LOWER(email) = $2 AND revoked_at IS NULL`,
+        [treeId, email]
+      );
+    }
+
+    const result = await query<TreeInvitation>(
+      `INSERT INTO tree_invitations AS i (tree_id, token, email, access_level, max_uses, expires_at, created_by)
+       VALUES ($1, $2, $3, $4, $5, NOW() + make_interval(days => $6), $7)
+       RETURNING ${INVITATION_COLUMNS}`,
+      [treeId, randomBytes(24).toString('base64url'), email, dto.accessLevel, email ? 1 : dto.maxUses ?? null, expiresInDays, ownerId]
+    );
+    const invitation = { ...result.rows[0], url: appUrl(`/invitations/${result.rows[0].token}`) };
+
+    if (email) {
+      const senderResult = await query<{ treeName: string; inviterName: string; inviterLocale: string }>(
+        `SELECT ft.tree_name as "treeName", u.display_name as "inviterName", u.locale as "inviterLocale"
+         FROM family_trees ft
+         JOIN users u ON u.user_id = $2
+         WHERE ft.tree_id = $1`,
+        [treeId, ownerId]
+      );
+      const sender = senderResult.rows[0];
+      // Someone without an account yet most likely shares the inviter's language
+      await this.mailService.send(email, MailTemplate.INVITATION, {
+        inviterName: sender.inviterName,
+        treeName: sender.treeName,
+        accessLevel: dto.accessLevel as AccessLevel,
+        actionUrl: invitation.url,
+        expiresAt: invitation.expiresAt,
+      }, inviteeLocale ?? sender.inviterLocale);
+    }
+
+    return invitation;
+  }
+
+  /** The tree's invitations that can still be redeemed, newest first */
+  async getInvitations(treeId: string, ownerId: string): Promise<InvitationWithUrl[]> {
+    await this.accessControl.requireOwnerAccess(treeId, ownerId);
+
+    const result = await query<TreeInvitation>(
+      `SELECT ${INVITATION_COLUMNS}
+       FROM tree_invitations i
+       WHERE i.tree_id = $1 AND ${PENDING_SQL}
+       ORDER BY i.created_at DESC`,
+      [treeId]
+    );
+
+    return result.rows.map(invitation => ({ ...invitation, url: appUrl(`/invitations/${invitation.token}`) }));
+  }
+
+  async revokeInvitation(treeId: string, invitationId: string, ownerId: string): Promise<void> {
+    await this.accessControl.requireOwnerAccess(treeId, ownerId);
+
+    const result = await query(
+      `UPDATE tree_invitations SET revoked_at = NOW()
+       WHERE invitation_id = $1 AND tree_id = $2 AND revoked_at IS NULL`,
+      [invitationId, treeId]
+    );
+
+    if (result.rowCount === 0) {
+      throw new AppError('Invitation not found', 404);
+    }
+  }
+
+  /** Looks up an invitation by its token; throws 410 if it can no longer be used */
+  async getInvitationPreview(token: string): Promise<InvitationPreview> {
+    const result = await query<InvitationWithTree>(
+      `SELECT ${INVITATION_COLUMNS}, ft.tree_name as "treeName", u.display_name as "inviterName"
+       FROM tree_invitations i
+       JOIN family_trees ft ON ft.tree_id = i.tree_id AND ft.deleted_at IS NULL
+       LEFT JOIN users u ON u.user_id = i.created_by
+       WHERE i.token = $1`,
+      [token]
+    );
+
+    const invitation = result.rows[0];
+    assertRedeemable(invitation);
+
+    return {
+      treeId: invitation.treeId,
+      treeName: invitation.treeName,
+      inviterName: invitation.inviterName,
+      accessLevel: invitation.accessLevel,
+      email: invitation.email,
+      expiresAt: invitation.expiresAt,
+    };
+  }
+
+  /** Redeems an invitation for a signed-in user */
+  async redeemInvitation(token: string, userId: string): Promise<RedeemedInvitation> {
+    const userResult = await query<{ email: string }>('SELECT email FROM users WHERE user_id = $1', [userId]);
+    if (userResult.rows.length === 0) {
+      throw new AppError('User not found', 404);
+    }
+
+    return this.redeem(token, userId, userResult.rows[0].email);
+  }
+
+  /**
+   * Redeems every pending invitation sent to the user's email once it is
+   * verified, plus the one for the token if given; for signup, login and email
+   * verification. Invitations that cannot be used are skipped, so this never
+   * stops anyone from signing in.
+   */
+  async redeemForUser(userId: string, email: string, token?: string): Promise<RedeemedInvitation[]> {
+    try {
+      const pending = await query<{ token: string }>(
+        `SELECT i.token FROM tree_invitations i
+         JOIN users u ON u.user_id = $2 AND u.email_verified_at IS NOT NULL
+         WHERE LOWER(i.email) = LOWER($1) AND ${PENDING_SQL}`,
+        [email, userId]
+      );
+      const tokens = new Set(pending.rows.map(row => row.token));
+      if (token) tokens.add(token);
+
+      const redeemed: RedeemedInvitation[] = [];
+      for (const candidate of tokens) {
+        try {
+          redeemed.push(await this.redeem(candidate, userId, email));
+        } catch (error) {
+          logger.warn({ err: error, userId }, 'Skipped invitation that could not be redeemed');
+        }
+      }
+      return redeemed;
+    } catch (error) {
+      logger.error({ err: error, userId }, 'Failed to redeem invitations');
+      return [];
+    }
+  }
+
+  /**
+   * Grants the invitation's access level. Email invitations need the address verified. A user who already has that level or
+   * higher keeps it and uses nothing up; a viewer invited as an editor is upgraded. The member is told once it has committed.
+   */
+  private async redeem(token: string, userId: string, email: string): Promise<RedeemedInvitation> {
+    const { redeemed, grantedBy } = await transaction(async (client) => {
+      const result = await client.query<InvitationWithTree>(
+        `SELECT ${INVITATION_COLUMNS}, ft.tree_name as "treeName", NULL as "inviterName"
+         FROM tree_invitations i
+         JOIN family_trees ft ON ft.tree_id = i.tree_id AND ft.deleted_at IS NULL
+         WHERE i.token = $1
+         FOR UPDATE OF i`,
+        [token]
+      );
+
+      const invitation = result.rows[0];
+      assertRedeemable(invitation);
+
+      if (invitation.email) {
+        if (invitation.email.toLowerCase() !== email.toLowerCase()) {
+          throw new AppError('This invitation was sent to a different email address', 403);
+        }
+        // Otherwise anyone could sign up with the address and take the invitation
+        const verified = await client.query<{ verified: boolean }>(
+          'SELECT email_verified_at IS NOT NULL as "verified" FROM users WHERE user_id = $1',
+          [userId]
+        );
+        if (!verified.rows[0]?.verified) {
+          throw new AppError('Verify your email address to accept this invitation', 403, 'EMAIL_NOT_VERIFIED');
+        }
+      }
+
+      const existingAccess = await this.accessControl.getAccessLevel(invitation.treeId, userId, client);
+      const level = invitation.accessLevel as AccessLevel;
+      if (existingAccess && LEVEL_RANK[existingAccess] >= LEVEL_RANK[level]) {
+        return {
+          redeemed: { treeId: invitation.treeId, treeName: invitation.treeName, accessLevel: existingAccess },
+          grantedBy: null,
+        };
+      }
+
+      const redemption = await client.query(
+        `INSERT INTO tree_invitation_redemptions (invitation_id, user_id) VALUES ($1, $2)
+         ON CONFLICT DO NOTHING`,
+        [invitation.invitationId, userId]
+      );
+      if (redemption.rowCount) {
+        await client.query(
+          'UPDATE tree_invitations SET use_count = use_count + 1 WHERE invitation_id = $1',
+          [invitation.invitationId]
+        );
+      }
+
+      const grantedBy = invitation.createdBy ?? userId;
+      await this.accessControl.grantAccess(invitation.treeId, userId, level, grantedBy, true, client);
+      await this.auditService.record({
+        treeId: invitation.treeId,
+        entityType: AuditEntityType.TREE_ACCESS,
+        entityId: userId,
+        action: existingAccess ? AuditAction.UPDATE : AuditAction.CREATE,
+        actorId: userId,
+        before: existingAccess ? { accessLevel: existingAccess } : null,
+        after: { accessLevel: level, invitationId: invitation.invitationId },
+      }, client);
+
+      logger.info({ action: 'redeemInvitation', invitationId: invitation.invitationId, userId }, 'Invitation redeemed');
+      return { redeemed: { treeId: invitation.treeId, treeName: invitation.treeName, accessLevel: level }, grantedBy };
+    });
+
+    if (grantedBy && grantedBy !== userId) {
+      await this.accessControl.notifyAccessGranted(redeemed.treeId, userId, redeemed.accessLevel);
+    }
+    return redeemed;
+  }
+}
@@ -0,0 +1,21 @@
+import { Response, NextFunction } from 'express';
+import { KinshipService } from './kinship.service';
+import { AuthRequest } from '../../common/middleware/auth.middleware';
+
+export class KinshipController {
+  constructor(private kinshipService: KinshipService) {}
+
+  async getKinship(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const kinship = await this.kinshipService.findKinship(
+        req.params.treeId,
+        req.query.from as string,
+        req.query.to as string,
+        req.userId!
+      );
+      res.json(kinship);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
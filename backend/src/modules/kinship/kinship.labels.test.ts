@@ -0,0 +1,55 @@
+import { bloodRelativeLabel, describeKinship } from './kinship.labels';
+
+describe('kinship labels', () => {
+  describe('bloodRelativeLabel', () => {
+    it('should name direct ancestors and descendants', () => {
+      expect(bloodRelativeLabel(1, 0)).toBe('parent');
+      expect(bloodRelativeLabel(2, 0)).toBe('grandparent');
+      expect(bloodRelativeLabel(4, 0)).toBe('great-great-grandparent');
+      expect(bloodRelativeLabel(5, 0)).toBe('3rd great-grandparent');
+      expect(bloodRelativeLabel(0, 1)).toBe('child');
+      expect(bloodRelativeLabel(0, 3)).toBe('great-grandchild');
+    });
+
+    it('should name collateral relatives', () => {
+      expect(bloodRelativeLabel(1, 1)).toBe('sibling');
+      expect(bloodRelativeLabel(2, 1)).toBe('aunt/uncle');
+      expect(bloodRelativeLabel(3, 1)).toBe('great-aunt/uncle');
+      expect(bloodRelativeLabel(1, 3)).toBe('great-niece/nephew');
+    });
+
+    it('should name cousins by degree and removal', () => {
+      expect(bloodRelativeLabel(2, 2)).toBe('first cousin');
+      expect(bloodRelativeLabel(3, 4)).toBe('second cousin once removed');
+      expect(bloodRelativeLabel(5, 3)).toBe('second cousin twice removed');
+      expect(bloodRelativeLabel(13, 13)).toBe('12th cousin');
+    });
+  });
+
+  describe('describeKinship', () => {
+    it('should collapse parent, sibling and child steps into one term', () => {
+      expect(describeKinship(['parent', 'sibling', 'child'])).toBe('first cousin');
+      expect(describeKinship(['parent', 'parent', 'sibling', 'child', 'child', 'child'])).toBe('second cousin once removed');
+    });
+
+    it('should ignore same-person hops between trees', () => {
+      expect(describeKinship(['parent', 'same_person', 'parent'])).toBe('grandparent');
+    });
+
+    it('should use in-law terms for a single marriage hop', () => {
+      expect(describeKinship(['spouse', 'parent'])).toBe('parent-in-law');
+      expect(describeKinship(['sibling', 'spouse'])).toBe('sibling-in-law');
+      expect(describeKinship(['child', 'spouse'])).toBe('child-in-law');
+    });
+
+    it('should chain segments across marriages and step relations', () => {
+      expect(describeKinship(['spouse', 'parent', 'parent'])).toBe("spouse's grandparent");
+      expect(describeKinship(['parent', 'sibling', 'spouse'])).toBe("aunt/uncle's spouse");
+      expect(describeKinship(['step_parent', 'child'])).toBe("step-parent's child");
+    });
+
+    it('should leave the blood line when going back up after coming down', () => {
+      expect(describeKinship(['child', 'parent'])).toBe("child's parent");
+    });
+  });
+});
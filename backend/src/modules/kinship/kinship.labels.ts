@@ -0,0 +1,103 @@
+/**
+ * One hop along a kinship path, named for what the next person is to the previous
+ * one: a 'parent' step moves to the previous person's parent. 'same_person' hops
+ * cross a same-person link or consolidation into another tree and are not kinship.
+ */
+export type KinshipStep = 'parent' | 'child' | 'sibling' | 'spouse' | 'step_parent' | 'step_child' | 'same_person';
+
+const ORDINALS = ['', 'first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+
+const REMOVALS = ['', 'once', 'twice', 'three times', 'four times', 'five times'];
+
+const numericOrdinal = (n: number): string => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+};
+
+const ordinal = (n: number): string => ORDINALS[n] || numericOrdinal(n);
+
+const removal = (n: number): string => REMOVALS[n] || `${n} times`;
+
+/**
+ * "great-" prefixes for relatives more than one generation beyond the base term:
+ * great-grandparent, great-great-grandparent, then 3rd great-grandparent and so on.
+ */
+const greats = (count: number): string => {
+  if (count <= 0) return '';
+  if (count <= 2) return 'great-'.repeat(count);
+  return `${numericOrdinal(count)} great-`;
+};
+
+/**
+ * Names a blood relative reached by going `up` generations to a common ancestor and
+ * then `down` generations from it. Terms are gender-neutral because nodes do not
+ * record sex.
+ */
+export function bloodRelativeLabel(up: number, down: number): string {
+  if (up === 0 && down === 0) return 'self';
+  if (down === 0) return up === 1 ? 'parent' : `${greats(up - 2)}grandparent`;
+  if (up === 0) return down === 1 ? 'child' : `${greats(down - 2)}grandchild`;
+  if (up === 1 && down === 1) return 'sibling';
+  if (down === 1) return `${greats(up - 2)}aunt/uncle`;
+  if (up === 1) return `${greats(down - 2)}niece/nephew`;
+
+  const degree = Math.min(up, down) - 1;
+  const removed = Math.abs(up - down);
+  const cousin = `${ordinal(degree)} cousin`;
+  return removed === 0 ? cousin : `${cousin} ${removal(removed)} removed`;
+}
+
+const IN_LAW_LABELS: Record<string, string> = {
+  'spouse parent': 'parent-in-law',
+  'spouse sibling': 'sibling-in-law',
+  'sibling spouse': 'sibling-in-law',
+  'child spouse': 'child-in-law',
+};
+
+const STEP_LABELS: Partial<Record<KinshipStep, string>> = {
+  spouse: 'spouse',
+  step_parent: 'step-parent',
+  step_child: 'step-child',
+};
+
+/**
+ * Describes the relationship of the last person on a path to the first, e.g.
+ * "second cousin once removed" or "spouse's grandparent". Runs of parent, child
+ * and sibling steps collapse into a single blood-relative term; spouses and step
+ * relations break the path into possessive segments.
+ */
+export function describeKinship(steps: KinshipStep[]): string {
+  const segments: string[] = [];
+  let up = 0;
+  let down = 0;
+
+  const closeBloodSegment = () => {
+    if (up > 0 || down > 0) segments.push(bloodRelativeLabel(up, down));
+    up = 0;
+    down = 0;
+  };
+
+  for (const step of steps) {
+    if (step === 'same_person') continue;
+
+    if (step === 'parent' || step === 'sibling') {
+      // Going back up after coming down leaves the blood line (e.g. a child's other parent)
+      if (down > 0) closeBloodSegment();
+      up += 1;
+      if (step === 'sibling') down += 1;
+    } else if (step === 'child') {
+      down += 1;
+    } else {
+      closeBloodSegment();
+      segments.push(STEP_LABELS[step]!);
+    }
+  }
+  closeBloodSegment();
+
+  if (segments.length === 0) return 'same person';
+
+  const inLaw = IN_LAW_LABELS[segments.join(' ')];
+  if (inLaw) return inLaw;
+
+  return segments.join("'s ");
+}
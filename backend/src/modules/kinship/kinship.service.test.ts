@@ -0,0 +1,148 @@
+import { AccessLevel, RelationshipType } from '../../database/interfaces';
+
+const mockQuery = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  query: (...args: unknown[]) => mockQuery(...args),
+}));
+
+import { KinshipService } from './kinship.service';
+
+interface Fixture {
+  endpoints: Array<{ nodeId: string; treeId: string }>;
+  relationships: Record<string, Array<{ nodeId1: string; nodeId2: string; relationshipType: RelationshipType }>>;
+  links?: Record<string, Array<{ nodeId: string; linkedNodeId: string; linkedTreeId: string }>>;
+}
+
+const mockGraph = (fixture: Fixture) => {
+  mockQuery.mockImplementation((sql: string, params: unknown[]) => {
+    if (sql.includes('FROM tree_access ta')) {
+      return Promise.resolve({ rows: [{ accessLevel: AccessLevel.VIEWER }] });
+    }
+    if (sql.includes('WHERE n.node_id = ANY($1) AND')) {
+      return Promise.resolve({ rows: fixture.endpoints });
+    }
+    if (sql.includes('FROM relationships r')) {
+      return Promise.resolve({ rows: fixture.relationships[params[0] as string] ?? [] });
+    }
+    if (sql.includes('FROM same_person_links')) {
+      return Promise.resolve({ rows: fixture.links?.[params[0] as string] ?? [] });
+    }
+    if (sql.includes('JOIN family_trees ft')) {
+      return Promise.resolve({
+        rows: (params[0] as string[]).map(nodeId => ({ nodeId, treeId: 'tree', treeName: 'Tree', firstName: nodeId })),
+      });
+    }
+    return Promise.resolve({ rows: [] });
+  });
+};
+
+describe('KinshipService', () => {
+  let service: KinshipService;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    service = new KinshipService();
+  });
+
+  it('should find first cousins through shared grandparents', async () => {
+    mockGraph({
+      endpoints: [{ nodeId: 'me', treeId: 'tree1' }, { nodeId: 'cousin', treeId: 'tree1' }],
+      relationships: {
+        tree1: [
+          { nodeId1: 'mum', nodeId2: 'me', relationshipType: RelationshipType.PARENT_CHILD },
+          { nodeId1: 'gran', nodeId2: 'mum', relationshipType: RelationshipType.PARENT_CHILD },
+          { nodeId1: 'gran', nodeId2: 'uncle', relationshipType: RelationshipType.PARENT_CHILD },
+          { nodeId1: 'uncle', nodeId2: 'cousin', relationshipType: RelationshipType.ADOPTED },
+        ],
+      },
+    });
+
+    const result = await service.findKinship('tree1', 'me', 'cousin', 'user1');
+
+    expect(result.label).toBe('first cousin');
+    expect(result.degree).toBe(4);
+    expect(result.path.map(entry => [entry.nodeId, entry.step])).toEqual([
+      ['me', null],
+      ['mum', 'parent'],
+      ['gran', 'parent'],
+      ['uncle', 'child'],
+      ['cousin', 'child'],
+    ]);
+  });
+
+  it('should prefer the path with fewer relationship hops', async () => {
+    mockGraph({
+      endpoints: [{ nodeId: 'me', treeId: 'tree1' }, { nodeId: 'brother', treeId: 'tree1' }],
+      relationships: {
+        tree1: [
+          { nodeId1: 'dad', nodeId2: 'me', relationshipType: RelationshipType.PARENT_CHILD },
+          { nodeId1: 'dad', nodeId2: 'brother', relationshipType: RelationshipType.PARENT_CHILD },
+          { nodeId1: 'me', nodeId2: 'brother', relationshipType: RelationshipType.SIBLING },
+        ],
+      },
+    });
+
+    const result = await service.findKinship('tree1', 'me', 'brother', 'user1');
+
+    expect(result.label).toBe('sibling');
+    expect(result.degree).toBe(1);
+  });
+
+  it('should follow same-person links into other accessible trees', async () => {
+    mockGraph({
+      endpoints: [{ nodeId: 'me', treeId: 'tree1' }, { nodeId: 'great-gran', treeId: 'tree2' }],
+      relationships: {
+        tree1: [{ nodeId1: 'gran', nodeId2: 'me', relationshipType: RelationshipType.PARENT_CHILD }],
+        tree2: [{ nodeId1: 'great-gran', nodeId2: 'gran-copy', relationshipType: RelationshipType.PARENT_CHILD }],
+      },
+      links: {
+        tree1: [{ nodeId: 'gran', linkedNodeId: 'gran-copy', linkedTreeId: 'tree2' }],
+        tree2: [{ nodeId: 'gran-copy', linkedNodeId: 'gran', linkedTreeId: 'tree1' }],
+      },
+    });
+
+    const result = await service.findKinship('tree1', 'me', 'great-gran', 'user1');
+
+    expect(result.label).toBe('grandparent');
+    expect(result.degree).toBe(2);
+    expect(result.path.map(entry => entry.step)).toEqual([null, 'parent', 'same_person', 'parent']);
+    expect(mockQuery.mock.calls.filter(([sql]) => sql.includes('FROM relationships r')).map(([, params]) => params[0]))
+      .toEqual(['tree1', 'tree2']);
+  });
+
+  it('should return no label when the people are not related', async () => {
+    mockGraph({
+      endpoints: [{ nodeId: 'me', treeId: 'tree1' }, { nodeId: 'stranger', treeId: 'tree1' }],
+      relationships: { tree1: [] },
+    });
+
+    const result = await service.findKinship('tree1', 'me', 'stranger', 'user1');
+
+    expect(result).toEqual({ fromNodeId: 'me', toNodeId: 'stranger', label: null, degree: null, path: [] });
+  });
+
+  it('should throw 404 when the starting node is not in the tree', async () => {
+    mockGraph({
+      endpoints: [{ nodeId: 'me', treeId: 'tree2' }, { nodeId: 'cousin', treeId: 'tree1' }],
+      relationships: {},
+    });
+
+    await expect(service.findKinship('tree1', 'me', 'cousin', 'user1'))
+      .rejects.toMatchObject({ statusCode: 404, message: 'Node not found' });
+  });
+
+  it('should reject identical endpoints', async () => {
+    mockGraph({ endpoints: [], relationships: {} });
+
+    await expect(service.findKinship('tree1', 'me', 'me', 'user1'))
+      .rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('should deny access without tree access', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+
+    await expect(service.findKinship('tree1', 'me', 'cousin', 'user1'))
+      .rejects.toMatchObject({ statusCode: 403 });
+  });
+});
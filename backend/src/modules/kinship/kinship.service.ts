@@ -0,0 +1,238 @@
+import { query } from '../../config/database';
+import { RelationshipType } from '../../database/interfaces';
+import { AccessControlService } from '../../common/services/access-control.service';
+import { AppError } from '../../common/errors/app-error';
+import { KinshipStep, describeKinship } from './kinship.labels';
+
+export interface KinshipPathEntry {
+  nodeId: string;
+  treeId: string;
+  treeName: string;
+  firstName?: string;
+  lastName?: string;
+  petName?: string;
+  /** How this person relates to the previous one on the path; null for the first */
+  step: KinshipStep | null;
+}
+
+export interface Kinship {
+  fromNodeId: string;
+  toNodeId: string;
+  /** What `to` is to `from`, e.g. "first cousin once removed"; null when unrelated */
+  label: string | null;
+  /** Number of relationship hops, not counting same-person links */
+  degree: number | null;
+  path: KinshipPathEntry[];
+}
+
+interface KinshipEdge {
+  nodeId: string;
+  step: KinshipStep;
+}
+
+interface Endpoint {
+  nodeId: string;
+  treeId: string;
+}
+
+interface RelationshipRow {
+  nodeId1: string;
+  nodeId2: string;
+  relationshipType: RelationshipType;
+}
+
+interface SamePersonRow {
+  nodeId: string;
+  linkedNodeId: string;
+  linkedTreeId: string;
+}
+
+type PathNode = Omit<KinshipPathEntry, 'step'>;
+
+/** Steps from nodeId1 to nodeId2 and back for each relationship type */
+const RELATIONSHIP_STEPS: Record<RelationshipType, [KinshipStep, KinshipStep]> = {
+  [RelationshipType.PARENT_CHILD]: ['child', 'parent'],
+  [RelationshipType.ADOPTED]: ['child', 'parent'],
+  [RelationshipType.STEP]: ['step_child', 'step_parent'],
+  [RelationshipType.SPOUSE]: ['spouse', 'spouse'],
+  [RelationshipType.SIBLING]: ['sibling', 'sibling'],
+};
+
+const VISIBLE_TO_USER = (alias: string) => `(${alias}.status = 'published' OR ${alias}.created_by = $2)`;
+
+export class KinshipService {
+  private accessControl: AccessControlService;
+
+  constructor() {
+    this.accessControl = new AccessControlService();
+  }
+
+  /**
+   * Finds the shortest chain of relationships from one person to another. The walk
+   * starts in the given tree and follows same-person links and consolidations into
+   * any other tree the user can view; those hops are free, so a path through another
+   * tree is only preferred when it has fewer relationship hops.
+   */
+  async findKinship(treeId: string, fromNodeId: string, toNodeId: string, userId: string): Promise<Kinship> {
+    await this.accessControl.checkAccess(treeId, userId);
+
+    if (fromNodeId === toNodeId) {
+      throw new AppError('from and to must be different people', 400);
+    }
+
+    const endpoints = await query<Endpoint>(
+      `SELECT n.node_id as "nodeId", n.tree_id as "treeId"
+       FROM nodes n
+       JOIN tree_access ta ON ta.tree_id = n.tree_id AND ta.user_id = $2
+       JOIN family_trees ft ON ft.tree_id = n.tree_id AND ft.deleted_at IS NULL
+       WHERE n.node_id = ANY($1) AND ${VISIBLE_TO_USER('n')}`,
+      [[fromNodeId, toNodeId], userId]
+    );
+
+    const from = endpoints.rows.find(row => row.nodeId === fromNodeId);
+    const to = endpoints.rows.find(row => row.nodeId === toNodeId);
+
+    if (!from || from.treeId !== treeId || !to) {
+      throw new AppError('Node not found', 404);
+    }
+
+    const steps = await this.shortestPath(from, toNodeId, userId);
+    if (!steps) {
+      return { fromNodeId, toNodeId, label: null, degree: null, path: [] };
+    }
+
+    const nodes = await this.getPathNodes(steps.map(step => step.nodeId));
+
+    return {
+      fromNodeId,
+      toNodeId,
+      label: describeKinship(steps.slice(1).map(step => step.step as KinshipStep)),
+      degree: steps.filter(step => step.step !== null && step.step !== 'same_person').length,
+      path: steps.map(step => ({ ...nodes.get(step.nodeId)!, step: step.step })),
+    };
+  }
+
+  /**
+   * 0-1 breadth-first search: relationship hops cost one, same-person hops cost
+   * nothing. Each tree's edges are loaded the first time the walk enters it.
+   */
+  private async shortestPath(
+    from: Endpoint,
+    toNodeId: string,
+    userId: string
+  ): Promise<Array<{ nodeId: string; step: KinshipStep | null }> | null> {
+    const graph = new Map<string, KinshipEdge[]>();
+    const nodeTrees = new Map<string, string>([[from.nodeId, from.treeId]]);
+    const loadedTrees = new Set<string>();
+    const distances = new Map<string, number>([[from.nodeId, 0]]);
+    const previous = new Map<string, { nodeId: string; step: KinshipStep }>();
+    const queue = [from.nodeId];
+
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      if (nodeId === toNodeId) break;
+
+      const treeId = nodeTrees.get(nodeId)!;
+      if (!loadedTrees.has(treeId)) {
+        loadedTrees.add(treeId);
+        await this.loadTreeEdges(treeId, userId, graph, nodeTrees);
+      }
+
+      const distance = distances.get(nodeId)!;
+      for (const edge of graph.get(nodeId) ?? []) {
+        const weight = edge.step === 'same_person' ? 0 : 1;
+        const known = distances.get(edge.nodeId);
+        if (known !== undefined && known <= distance + weight) continue;
+
+        distances.set(edge.nodeId, distance + weight);
+        previous.set(edge.nodeId, { nodeId, step: edge.step });
+        if (weight === 0) {
+          queue.unshift(edge.nodeId);
+        } else {
+          queue.push(edge.nodeId);
+        }
+      }
+    }
+
+    if (!distances.has(toNodeId)) return null;
+
+    const path: Array<{ nodeId: string; step: KinshipStep | null }> = [];
+    let current: string | undefined = toNodeId;
+    while (current) {
+      const hop = previous.get(current);
+      path.unshift({ nodeId: current, step: hop?.step ?? null });
+      current = hop?.nodeId;
+    }
+    return path;
+  }
+
+  private async loadTreeEdges(
+    treeId: string,
+    userId: string,
+    graph: Map<string, KinshipEdge[]>,
+    nodeTrees: Map<string, string>
+  ): Promise<void> {
+    const addEdge = (fromId: string, toId: string, step: KinshipStep) => {
+      const edges = graph.get(fromId);
+      if (edges) {
+        edges.push({ nodeId: toId, step });
+      } else {
+        graph.set(fromId, [{ nodeId: toId, step }]);
+      }
+    };
+
+    const relationships = await query<RelationshipRow>(
+      `SELECT r.node_id_1 as "nodeId1", r.node_id_2 as "nodeId2", r.relationship_type as "relationshipType"
+       FROM relationships r
+       JOIN nodes n1 ON n1.node_id = r.node_id_1
+       JOIN nodes n2 ON n2.node_id = r.node_id_2
+       WHERE r.tree_id = $1 AND ${VISIBLE_TO_USER('n1')} AND ${VISIBLE_TO_USER('n2')}`,
+      [treeId, userId]
+    );
+
+    for (const rel of relationships.rows) {
+      const [forward, backward] = RELATIONSHIP_STEPS[rel.relationshipType];
+      addEdge(rel.nodeId1, rel.nodeId2, forward);
+      addEdge(rel.nodeId2, rel.nodeId1, backward);
+      nodeTrees.set(rel.nodeId1, treeId);
+      nodeTrees.set(rel.nodeId2, treeId);
+    }
+
+    const links = await query<SamePersonRow>(
+      `SELECT n.node_id as "nodeId", other.node_id as "linkedNodeId", other.tree_id as "linkedTreeId"
+       FROM nodes n
+       JOIN (
+         SELECT node_id_1 AS node_id, node_id_2 AS linked_id FROM same_person_links
+         UNION
+         SELECT node_id_2, node_id_1 FROM same_person_links
+         UNION
+         SELECT m.node_id, peer.node_id
+         FROM node_consolidation_mapping m
+         JOIN node_consolidation_mapping peer ON peer.consolidated_id = m.consolidated_id AND peer.node_id <> m.node_id
+       ) links ON links.node_id = n.node_id
+       JOIN nodes other ON other.node_id = links.linked_id
+       JOIN tree_access ta ON ta.tree_id = other.tree_id AND ta.user_id = $2
+       JOIN family_trees ft ON ft.tree_id = other.tree_id AND ft.deleted_at IS NULL
+       WHERE n.tree_id = $1 AND ${VISIBLE_TO_USER('n')} AND ${VISIBLE_TO_USER('other')}`,
+      [treeId, userId]
+    );
+
+    for (const link of links.rows) {
+      addEdge(link.nodeId, link.linkedNodeId, 'same_person');
+      nodeTrees.set(link.nodeId, treeId);
+      nodeTrees.set(link.linkedNodeId, link.linkedTreeId);
+    }
+  }
+
+  private async getPathNodes(nodeIds: string[]): Promise<Map<string, PathNode>> {
+    const result = await query<PathNode>(
+      `SELECT n.node_id as "nodeId", n.tree_id as "treeId", ft.tree_name as "treeName", n.first_name as "firstName", n.last_name as "lastName", n.pet_name as "petName"
+       FROM nodes n
+       JOIN family_trees ft ON ft.tree_id = n.tree_id
+       WHERE n.node_id = ANY($1)`,
+      [nodeIds]
+    );
+
+    return new Map(result.rows.map(node => [node.nodeId, node]));
+  }
+}
@@ -0,0 +1,29 @@
+import { createLogger } from '../../common/logger';
+import { MailService } from './mail.service';
+
+const logger = createLogger('mail-outbox');
+
+const OUTBOX_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Retries unsent mail every minute and clears out old finished mail. The
+ * timer does not keep the process alive on shutdown.
+ */
+export function startMailOutboxJob(mailService: MailService = new MailService()): NodeJS.Timeout {
+  const run = async (): Promise<void> => {
+    try {
+      const attempted = await mailService.deliverDue();
+      const purged = await mailService.purgeFinished();
+      if (attempted > 0 || purged > 0) {
+        logger.info({ attempted, purged }, 'Processed mail outbox');
+      }
+    } catch (error) {
+      logger.error({ err: error }, 'Mail outbox run failed');
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, OUTBOX_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,174 @@
+import { AccessLevel, MailTemplate } from '../../database/interfaces';
+
+const mockQuery = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  query: (...args: unknown[]) => mockQuery(...args),
+}));
+
+import { MailService, MAX_MAIL_ATTEMPTS, appUrl } from './mail.service';
+import { MailTransport } from './mail.transport';
+
+describe('MailService', () => {
+  let service: MailService;
+  let transport: { name: string; send: jest.Mock };
+
+  const invitation = {
+    inviterName: 'Priya',
+    treeName: 'Sharma Family',
+    accessLevel: AccessLevel.VIEWER,
+    actionUrl: 'https://app.example.com/trees/tree1',
+  };
+
+  const mail = (overrides: Record<string, unknown> = {}) => ({
+    mailId: 'mail1',
+    toAddress: 'sam@example.com',
+    subject: 'Priya invited you to the Sharma Family family tree',
+    html: '<p>Hello</p>',
+    text: 'Hello',
+    attempts: 1,
+    ...overrides,
+  });
+
+  const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    transport = { name: 'test', send: jest.fn() };
+    service = new MailService(transport as MailTransport);
+  });
+
+  describe('send', () => {
+    it('should render the mail, queue it and send it straight away', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ mailId: 'mail1' }] })
+        .mockResolvedValueOnce({ rows: [mail()] })
+        .mockResolvedValueOnce({ rowCount: 1 });
+      transport.send.mockResolvedValueOnce(undefined);
+
+      const mailId = await service.send('sam@example.com', MailTemplate.INVITATION, invitation, 'es-MX');
+      await flushPromises();
+
+      expect(mailId).toBe('mail1');
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('INSERT INTO mail_outbox');
+      expect(params.slice(0, 4)).toEqual([
+        'sam@example.com',
+        MailTemplate.INVITATION,
+        'es',
+        'Priya te invitó al árbol familiar Sharma Family',
+      ]);
+      expect(mockQuery).toHaveBeenNthCalledWith(2,
+        expect.stringContaining('FOR UPDATE SKIP LOCKED'),
+        expect.arrayContaining([['mail1']])
+      );
+      expect(transport.send).toHaveBeenCalledWith({
+        to: 'sam@example.com',
+        subject: 'Priya invited you to the Sharma Family family tree',
+        html: '<p>Hello</p>',
+        text: 'Hello',
+      });
+      expect(mockQuery).toHaveBeenLastCalledWith(expect.stringContaining("status = 'sent'"), ['mail1']);
+    });
+  });
+
+  describe('sendToUser', () => {
+    it('should use the user\'s address and language', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ email: 'sam@example.com', locale: 'es' }] })
+        .mockResolvedValueOnce({ rows: [{ mailId: 'mail1' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const mailId = await service.sendToUser('user1', MailTemplate.INVITATION, invitation);
+
+      expect(mailId).toBe('mail1');
+      expect(mockQuery.mock.calls[1][1].slice(0, 3)).toEqual(['sam@example.com', MailTemplate.INVITATION, 'es']);
+    });
+
+    it('should return null for an unknown user', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await expect(service.sendToUser('missing', MailTemplate.INVITATION, invitation)).resolves.toBeNull();
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('deliverDue', () => {
+    it('should leave a failed mail pending for a retry', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [mail({ attempts: 2 })] })
+        .mockResolvedValueOnce({ rowCount: 1 });
+      transport.send.mockRejectedValueOnce(new Error('Connection timeout'));
+
+      const attempted = await service.deliverDue();
+
+      expect(attempted).toBe(1);
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('UPDATE mail_outbox SET status = $2'),
+        ['mail1', 'pending', 'Connection timeout']
+      );
+    });
+
+    it('should give up after the last attempt', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [mail({ attempts: MAX_MAIL_ATTEMPTS })] })
+        .mockResolvedValueOnce({ rowCount: 1 });
+      transport.send.mockRejectedValueOnce(new Error('Connection timeout'));
+
+      await service.deliverDue();
+
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('UPDATE mail_outbox SET status = $2'),
+        ['mail1', 'failed', 'Connection timeout']
+      );
+    });
+
+    it('should give up straight away when the server rejects the recipient', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [mail()] })
+        .mockResolvedValueOnce({ rowCount: 1 });
+      transport.send.mockRejectedValueOnce(Object.assign(new Error('Mailbox unavailable'), { responseCode: 550 }));
+
+      await service.deliverDue();
+
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('UPDATE mail_outbox SET status = $2'),
+        ['mail1', 'failed', 'Mailbox unavailable']
+      );
+    });
+
+    it('should do nothing when no mail is due', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      const attempted = await service.deliverDue();
+
+      expect(attempted).toBe(0);
+      expect(transport.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeFinished', () => {
+    it('should delete old sent and failed mail', async () => {
+      mockQuery.mockResolvedValueOnce({ rowCount: 2 });
+
+      const purged = await service.purgeFinished();
+
+      expect(purged).toBe(2);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining("status IN ('sent', 'failed')"), [30]);
+    });
+  });
+});
+
+describe('appUrl', () => {
+  const originalFrontendUrl = process.env.FRONTEND_URL;
+
+  afterEach(() => {
+    process.env.FRONTEND_URL = originalFrontendUrl;
+  });
+
+  it('should join the path to the frontend URL', () => {
+    process.env.FRONTEND_URL = 'https://app.example.com/';
+
+    expect(appUrl('/trees/tree1')).toBe('https://app.example.com/trees/tree1');
+  });
+});
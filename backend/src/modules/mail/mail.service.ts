@@ -0,0 +1,135 @@
+import { query } from '../../config/database';
+import { MailTemplate } from '../../database/interfaces';
+import { createLogger } from '../../common/logger';
+import { MailTransport, getMailTransport, isPermanentMailError } from './mail.transport';
+import { MailTemplateData, renderMail, resolveLocale } from './mail.templates';
+
+const logger = createLogger('mail');
+
+export const MAX_MAIL_ATTEMPTS = 6;
+const RETRY_BASE_SECONDS = 60;
+const DELIVERY_BATCH_SIZE = 100;
+const FINISHED_MAIL_RETENTION_DAYS = 30;
+
+/** An absolute link into the app for emails, e.g. appUrl('/trees/123') */
+export function appUrl(path: string): string {
+  const base = (process.env.FRONTEND_URL || 'http://localhost:8081').replace(/\/+$/, '');
+  return `${base}${path}`;
+}
+
+interface ClaimedMail {
+  mailId: string;
+  toAddress: string;
+  subject: string;
+  html: string;
+  text: string;
+  attempts: number;
+}
+
+export class MailService {
+  private transport: MailTransport;
+
+  constructor(transport: MailTransport = getMailTransport()) {
+    this.transport = transport;
+  }
+
+  /**
+   * Renders the template in the locale, queues it in the outbox and starts
+   * sending it. Returns the queued mail's id; sending failures are retried.
+   */
+  async send<T extends MailTemplate>(to: string, template: T, data: MailTemplateData[T], locale?: string | null): Promise<string> {
+    const resolvedLocale = resolveLocale(locale);
+    const rendered = renderMail(template, data, resolvedLocale);
+
+    const result = await query<{ mailId: string }>(
+      `INSERT INTO mail_outbox (to_address, template, locale, subject, html, text)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING mail_id as "mailId"`,
+      [to, template, resolvedLocale, rendered.subject, rendered.html, rendered.text]
+    );
+    const mailId = result.rows[0].mailId;
+
+    this.deliver([mailId]).catch(error => {
+      logger.error({ err: error, mailId }, 'Mail delivery failed');
+    });
+
+    return mailId;
+  }
+
+  /** Sends to a user's address in their language; returns null if the user does not exist */
+  async sendToUser<T extends MailTemplate>(userId: string, template: T, data: MailTemplateData[T]): Promise<string | null> {
+    const result = await query<{ email: string; locale: string }>(
+      'SELECT email, locale FROM users WHERE user_id = $1',
+      [userId]
+    );
+    if (result.rows.length === 0) return null;
+
+    return this.send(result.rows[0].email, template, data, result.rows[0].locale);
+  }
+
+  /** Sends queued mail that is due, including retries; returns how many were attempted */
+  async deliverDue(): Promise<number> {
+    let attempted = 0;
+    let claimed: number;
+    do {
+      claimed = await this.deliver();
+      attempted += claimed;
+    } while (claimed === DELIVERY_BATCH_SIZE);
+    return attempted;
+  }
+
+  /** Drops sent and given-up mail once it is old enough to be of no use for support */
+  async purgeFinished(): Promise<number> {
+    const result = await query(
+      `DELETE FROM mail_outbox
+       WHERE status IN ('sent', 'failed') AND created_at < NOW() - make_interval(days => $1)`,
+      [FINISHED_MAIL_RETENTION_DAYS]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Claims a batch of due mail (the given ones, or any) and sends it.
+   * Claiming schedules the next attempt up front, so a crash mid-send still retries.
+   */
+  private async deliver(mailIds?: string[]): Promise<number> {
+    const values: unknown[] = [RETRY_BASE_SECONDS, DELIVERY_BATCH_SIZE];
+    if (mailIds) values.push(mailIds);
+
+    const claimed = await query<ClaimedMail>(
+      `UPDATE mail_outbox mo
+       SET attempts = mo.attempts + 1,
+           next_attempt_at = NOW() + make_interval(secs => $1 * power(2, mo.attempts))
+       WHERE mo.mail_id IN (
+         SELECT mail_id FROM mail_outbox
+         WHERE status = 'pending' AND next_attempt_at <= NOW()${mailIds ? ' AND mail_id = ANY($3::uuid[])' : ''}
+         ORDER BY next_attempt_at
+         LIMIT $2
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING mo.mail_id as "mailId", mo.to_address as "toAddress", mo.subject, mo.html, mo.text, mo.attempts`,
+      values
+    );
+
+    for (const mail of claimed.rows) {
+      try {
+        await this.transport.send({ to: mail.toAddress, subject: mail.subject, html: mail.html, text: mail.text });
+        await query(
+          `UPDATE mail_outbox SET status = 'sent', sent_at = NOW(), last_error = NULL WHERE mail_id = $1`,
+          [mail.mailId]
+        );
+      } catch (error) {
+        const givingUp = mail.attempts >= MAX_MAIL_ATTEMPTS || isPermanentMailError(error);
+        await query(
+          'UPDATE mail_outbox SET status = $2, last_error = $3 WHERE mail_id = $1',
+          [mail.mailId, givingUp ? 'failed' : 'pending', (error as Error).message]
+        );
+        if (givingUp) {
+          logger.warn({ mailId: mail.mailId, transport: this.transport.name, error: (error as Error).message }, 'Giving up on mail');
+        }
+      }
+    }
+
+    return claimed.rows.length;
+  }
+}
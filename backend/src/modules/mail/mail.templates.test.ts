@@ -0,0 +1,150 @@
+import { AccessLevel, DigestFrequency, MailTemplate, NotificationType } from '../../database/interfaces';
+import { escapeHtml, renderMail, resolveLocale } from './mail.templates';
+
+describe('resolveLocale', () => {
+  it('should reduce regional locales to a supported language', () => {
+    expect(resolveLocale('es-MX')).toBe('es');
+    expect(resolveLocale('EN_gb')).toBe('en');
+  });
+
+  it('should fall back to English for unsupported or missing locales', () => {
+    expect(resolveLocale('fr')).toBe('en');
+    expect(resolveLocale(null)).toBe('en');
+    expect(resolveLocale(undefined)).toBe('en');
+  });
+});
+
+describe('renderMail', () => {
+  const invitation = {
+    inviterName: 'Priya',
+    treeName: 'Sharma Family',
+    accessLevel: AccessLevel.EDITOR,
+    actionUrl: 'https://app.example.com/trees/tree1',
+    expiresAt: new Date('2026-04-01T00:00:00Z'),
+  };
+
+  it('should render an invitation as HTML and plain text', () => {
+    const mail = renderMail(MailTemplate.INVITATION, invitation, 'en');
+
+    expect(mail.subject).toBe('Priya invited you to the Sharma Family family tree');
+    expect(mail.html).toContain('<html lang="en">');
+    expect(mail.html).toContain('href="https://app.example.com/trees/tree1"');
+    expect(mail.text).toContain('with editor access');
+    expect(mail.text).toContain('Open the tree: https://app.example.com/trees/tree1');
+    expect(mail.text).toContain('This invitation expires on April 1, 2026.');
+  });
+
+  it('should render in the requested language', () => {
+    const mail = renderMail(MailTemplate.INVITATION, invitation, 'es-ES');
+
+    expect(mail.subject).toBe('Priya te invitó al árbol familiar Sharma Family');
+    expect(mail.html).toContain('<html lang="es">');
+    expect(mail.text).toContain('como editor');
+  });
+
+  it('should escape user-provided values in HTML but not in plain text', () => {
+    const mail = renderMail(MailTemplate.ACCESS_REQUEST, {
+      requesterName: '<script>alert("x")</script>',
+      treeName: 'Smith & Sons',
+      requestedLevel: AccessLevel.VIEWER,
+      actionUrl: 'https://app.example.com/trees/tree1/access-requests',
+    }, 'en');
+
+    expect(mail.html).not.toContain('<script>');
+    expect(mail.html).toContain('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;');
+    expect(mail.html).toContain('Smith &amp; Sons');
+    expect(mail.text).toContain('Smith & Sons');
+  });
+
+  it('should word access decisions by outcome', () => {
+    const approved = renderMail(MailTemplate.ACCESS_DECISION, {
+      treeName: 'Sharma Family',
+      approved: true,
+      accessLevel: AccessLevel.VIEWER,
+      actionUrl: 'https://app.example.com/trees/tree1',
+    }, 'en');
+    const denied = renderMail(MailTemplate.ACCESS_DECISION, {
+      treeName: 'Sharma Family',
+      approved: false,
+      actionUrl: 'https://app.example.com/',
+    }, 'en');
+
+    expect(approved.subject).toBe('Your request to join Sharma Family was approved');
+    expect(approved.text).toContain('You now have viewer access');
+    expect(denied.subject).toBe('Your request to join Sharma Family was denied');
+  });
+
+  it('should list each tree in a digest and cap the items shown', () => {
+    const items = Array.from({ length: 12 }, (_, index) => ({ message: `Comment ${index + 1}` }));
+    const mail = renderMail(MailTemplate.DIGEST, {
+      displayName: 'Priya',
+      frequency: DigestFrequency.WEEKLY,
+      trees: [
+        { treeName: 'Sharma Family', counts: { [NotificationType.COMMENT_ADDED]: 12 }, items },
+        { treeName: null, counts: { [NotificationType.ACCESS_GRANTED]: 1 }, items: [{ message: 'Access granted' }] },
+      ],
+      itemCount: 13,
+      actionUrl: 'https://app.example.com/notifications',
+    }, 'en');
+
+    expect(mail.subject).toBe('Your weekly RKRoots digest: 13 updates');
+    expect(mail.text).toContain('Sharma Family\n- Comments: 12\n- Comment 1');
+    expect(mail.text).toContain('- Comment 10\n- …and 2 more');
+    expect(mail.text).not.toContain('Comment 11');
+    expect(mail.text).toContain('Other\n- Access granted: 1');
+  });
+
+  it('should render a password reset with its expiry', () => {
+    const mail = renderMail(MailTemplate.PASSWORD_RESET, {
+      displayName: 'Priya',
+      actionUrl: 'https://app.example.com/reset-password?token=abc',
+      expiresInMinutes: 60,
+    }, 'es');
+
+    expect(mail.subject).toBe('Restablece tu contraseña de RKRoots');
+    expect(mail.text).toContain('Este enlace vence en 60 minutos.');
+    expect(mail.html).toContain('href="https://app.example.com/reset-password?token=abc"');
+  });
+
+  it('should render an email verification with its expiry', () => {
+    const mail = renderMail(MailTemplate.EMAIL_VERIFICATION, {
+      displayName: 'Priya',
+      actionUrl: 'https://app.example.com/verify-email?token=abc',
+      expiresInHours: 48,
+    }, 'en');
+
+    expect(mail.subject).toBe('Confirm your email address for RKRoots');
+    expect(mail.text).toContain('This link expires in 48 hours.');
+    expect(mail.html).toContain('href="https://app.example.com/verify-email?token=abc"');
+  });
+
+  it('should render an account deletion notice with its date', () => {
+    const mail = renderMail(MailTemplate.ACCOUNT_DELETION, {
+      displayName: 'Priya',
+      deleteAt: new Date('2025-07-01T12:00:00Z'),
+      actionUrl: 'https://app.example.com/login',
+    }, 'en');
+
+    expect(mail.subject).toBe('Your RKRoots account will be deleted');
+    expect(mail.text).toContain('will be deleted on July 1, 2025.');
+    expect(mail.html).toContain('Keep my account');
+  });
+
+  it('should render an ownership transfer request in Spanish', () => {
+    const mail = renderMail(MailTemplate.OWNERSHIP_TRANSFER, {
+      fromName: 'Priya',
+      treeName: 'Silva',
+      expiresAt: new Date('2025-07-15T12:00:00Z'),
+      actionUrl: 'https://app.example.com/ownership-transfers',
+    }, 'es');
+
+    expect(mail.subject).toBe('Priya quiere cederte el árbol familiar Silva');
+    expect(mail.text).toContain('Esta solicitud vence el 15 de julio de 2025.');
+  });
+});
+
+describe('escapeHtml', () => {
+  it('should escape markup characters', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+  });
+});
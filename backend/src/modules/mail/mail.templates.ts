@@ -0,0 +1,391 @@
+import { AccessLevel, DigestFrequency, MailTemplate, NotificationType } from '../../database/interfaces';
+
+export const SUPPORTED_LOCALES = ['en', 'es'] as const;
+export type MailLocale = typeof SUPPORTED_LOCALES[number];
+export const DEFAULT_LOCALE: MailLocale = 'en';
+
+/** Most recent items listed per tree in a digest; the rest are only counted */
+const DIGEST_ITEMS_PER_TREE = 10;
+
+export interface DigestMailTree {
+  treeName: string | null;
+  counts: Partial<Record<NotificationType, number>>;
+  items: { message: string }[];
+}
+
+/** What each template needs to render */
+export interface MailTemplateData {
+  [MailTemplate.INVITATION]: {
+    inviterName: string;
+    treeName: string;
+    accessLevel: AccessLevel;
+    actionUrl: string;
+    expiresAt?: Date | null;
+  };
+  [MailTemplate.ACCESS_REQUEST]: {
+    requesterName: string;
+    treeName: string;
+    requestedLevel: AccessLevel;
+    actionUrl: string;
+  };
+  [MailTemplate.ACCESS_DECISION]: {
+    treeName: string;
+    approved: boolean;
+    accessLevel?: AccessLevel | null;
+    actionUrl: string;
+  };
+  [MailTemplate.DIGEST]: {
+    displayName: string;
+    frequency: DigestFrequency;
+    trees: DigestMailTree[];
+    itemCount: number;
+    actionUrl: string;
+  };
+  [MailTemplate.PASSWORD_RESET]: {
+    displayName: string;
+    actionUrl: string;
+    expiresInMinutes: number;
+  };
+  [MailTemplate.EMAIL_VERIFICATION]: {
+    displayName: string;
+    actionUrl: string;
+    expiresInHours: number;
+  };
+  [MailTemplate.ACCOUNT_DELETION]: {
+    displayName: string;
+    deleteAt: Date;
+    actionUrl: string;
+  };
+  [MailTemplate.OWNERSHIP_TRANSFER]: {
+    fromName: string;
+    treeName: string;
+    expiresAt: Date;
+    actionUrl: string;
+  };
+}
+
+export interface RenderedMail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface MailSection {
+  title: string;
+  lines: string[];
+}
+
+/** A message as plain strings; the layout escapes and formats it for HTML and text */
+interface MailContent {
+  subject: string;
+  greeting?: string;
+  paragraphs: string[];
+  sections?: MailSection[];
+  action: { label: string; url: string };
+  /** Small print under the button */
+  note?: string;
+}
+
+type MailStrings = {
+  [T in MailTemplate]: (data: MailTemplateData[T]) => MailContent;
+} & {
+  footer: string;
+  buttonFallback: string;
+};
+
+const formatDate = (date: Date, locale: MailLocale): string =>
+  date.toLocaleDateString(locale, { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+
+const summarizeTree = (
+  tree: DigestMailTree,
+  labels: Record<NotificationType, string>,
+  untitled: string,
+  more: (count: number) => string
+): MailSection => {
+  const counts = Object.entries(tree.counts).map(([type, count]) => `${labels[type as NotificationType]}: ${count}`);
+  const lines = [counts.join(' · '), ...tree.items.slice(0, DIGEST_ITEMS_PER_TREE).map(item => item.message)];
+  if (tree.items.length > DIGEST_ITEMS_PER_TREE) {
+    lines.push(more(tree.items.length - DIGEST_ITEMS_PER_TREE));
+  }
+  return { title: tree.treeName ?? untitled, lines };
+};
+
+const EN_ACCESS_LEVELS: Record<AccessLevel, string> = {
+  [AccessLevel.OWNER]: 'owner',
+  [AccessLevel.EDITOR]: 'editor',
+  [AccessLevel.VIEWER]: 'viewer',
+};
+
+const EN_NOTIFICATION_TYPES: Record<NotificationType, string> = {
+  [NotificationType.ACCESS_GRANTED]: 'Access granted',
+  [NotificationType.SAME_PERSON_LINK_CREATED]: 'Trees linked',
+  [NotificationType.ACCESS_REQUEST]: 'Access requests',
+  [NotificationType.COMMENT_ADDED]: 'Comments',
+  [NotificationType.NODE_PUBLISHED]: 'New family members',
+  [NotificationType.TIMELINE_EVENT_ADDED]: 'Timeline events',
+  [NotificationType.OWNERSHIP_TRANSFER]: 'Tree ownership',
+};
+
+const EN: MailStrings = {
+  footer: 'You are receiving this email because of your RKRoots account.',
+  buttonFallback: 'If the button does not work, copy this link into your browser:',
+  [MailTemplate.INVITATION]: data => ({
+    subject: `${data.inviterName} invited you to the ${data.treeName} family tree`,
+    paragraphs: [
+      `${data.inviterName} invited you to join the ${data.treeName} family tree on RKRoots with ${EN_ACCESS_LEVELS[data.accessLevel]} access.`,
+    ],
+    action: { label: 'Open the tree', url: data.actionUrl },
+    note: data.expiresAt ? `This invitation expires on ${formatDate(data.expiresAt, 'en')}.` : undefined,
+  }),
+  [MailTemplate.ACCESS_REQUEST]: data => ({
+    subject: `${data.requesterName} asked to join ${data.treeName}`,
+    paragraphs: [
+      `${data.requesterName} asked for ${EN_ACCESS_LEVELS[data.requestedLevel]} access to your family tree ${data.treeName}.`,
+      'You can approve or deny the request in RKRoots.',
+    ],
+    action: { label: 'Review the request', url: data.actionUrl },
+  }),
+  [MailTemplate.ACCESS_DECISION]: data => ({
+    subject: data.approved
+      ? `Your request to join ${data.treeName} was approved`
+      : `Your request to join ${data.treeName} was denied`,
+    paragraphs: [
+      data.approved
+        ? `You now have ${EN_ACCESS_LEVELS[data.accessLevel ?? AccessLevel.VIEWER]} access to the ${data.treeName} family tree.`
+        : `The owner of the ${data.treeName} family tree denied your request for access.`,
+    ],
+    action: data.approved
+      ? { label: 'Open the tree', url: data.actionUrl }
+      : { label: 'Open RKRoots', url: data.actionUrl },
+  }),
+  [MailTemplate.DIGEST]: data => ({
+    subject: data.frequency === DigestFrequency.DAILY
+      ? `Your daily RKRoots digest: ${data.itemCount} ${data.itemCount === 1 ? 'update' : 'updates'}`
+      : `Your weekly RKRoots digest: ${data.itemCount} ${data.itemCount === 1 ? 'update' : 'updates'}`,
+    greeting: `Hi ${data.displayName},`,
+    paragraphs: [`Here is what happened in your family trees since your last ${data.frequency} digest.`],
+    sections: data.trees.map(tree => summarizeTree(tree, EN_NOTIFICATION_TYPES, 'Other', count => `…and ${count} more`)),
+    action: { label: 'See all notifications', url: data.actionUrl },
+    note: 'You can change how often you get these in your notification settings.',
+  }),
+  [MailTemplate.PASSWORD_RESET]: data => ({
+    subject: 'Reset your RKRoots password',
+    greeting: `Hi ${data.displayName},`,
+    paragraphs: ['We received a request to reset the password for your RKRoots account.'],
+    action: { label: 'Choose a new password', url: data.actionUrl },
+    note: `This link expires in ${data.expiresInMinutes} minutes. If you did not ask to reset your password, you can ignore this email.`,
+  }),
+  [MailTemplate.EMAIL_VERIFICATION]: data => ({
+    subject: 'Confirm your email address for RKRoots',
+    greeting: `Hi ${data.displayName},`,
+    paragraphs: [
+      'Please confirm that this is your email address. Family members can only share their trees with you once it is confirmed.',
+    ],
+    action: { label: 'Confirm my email', url: data.actionUrl },
+    note: `This link expires in ${data.expiresInHours} hours. If you did not create an RKRoots account, you can ignore this email.`,
+  }),
+  [MailTemplate.ACCOUNT_DELETION]: data => ({
+    subject: 'Your RKRoots account will be deleted',
+    greeting: `Hi ${data.displayName},`,
+    paragraphs: [
+      `Your RKRoots account and your data will be deleted on ${formatDate(data.deleteAt, 'en')}. You have been signed out on all your devices.`,
+      'Changed your mind? Sign in before then and choose to keep your account.',
+    ],
+    action: { label: 'Keep my account', url: data.actionUrl },
+    note: 'If you did not ask to delete your account, sign in now and change your password.',
+  }),
+  [MailTemplate.OWNERSHIP_TRANSFER]: data => ({
+    subject: `${data.fromName} wants to hand the ${data.treeName} family tree over to you`,
+    paragraphs: [
+      `${data.fromName} asked you to become the owner of the ${data.treeName} family tree on RKRoots.`,
+      'As the owner you decide who can see and edit the tree. You can accept or decline in RKRoots.',
+    ],
+    action: { label: 'Review the request', url: data.actionUrl },
+    note: `This request expires on ${formatDate(data.expiresAt, 'en')}.`,
+  }),
+};
+
+const ES_ACCESS_LEVELS: Record<AccessLevel, string> = {
+  [AccessLevel.OWNER]: 'propietario',
+  [AccessLevel.EDITOR]: 'editor',
+  [AccessLevel.VIEWER]: 'lector',
+};
+
+const ES_NOTIFICATION_TYPES: Record<NotificationType, string> = {
+  [NotificationType.ACCESS_GRANTED]: 'Acceso concedido',
+  [NotificationType.SAME_PERSON_LINK_CREATED]: 'Árboles vinculados',
+  [NotificationType.ACCESS_REQUEST]: 'Solicitudes de acceso',
+  [NotificationType.COMMENT_ADDED]: 'Comentarios',
+  [NotificationType.NODE_PUBLISHED]: 'Nuevos familiares',
+  [NotificationType.TIMELINE_EVENT_ADDED]: 'Eventos de la cronología',
+  [NotificationType.OWNERSHIP_TRANSFER]: 'Propiedad de árboles',
+};
+
+const ES: MailStrings = {
+  footer: 'Recibes este correo por tu cuenta de RKRoots.',
+  buttonFallback: 'Si el botón no funciona, copia este enlace en tu navegador:',
+  [MailTemplate.INVITATION]: data => ({
+    subject: `${data.inviterName} te invitó al árbol familiar ${data.treeName}`,
+    paragraphs: [
+      `${data.inviterName} te invitó a unirte al árbol familiar ${data.treeName} en RKRoots como ${ES_ACCESS_LEVELS[data.accessLevel]}.`,
+    ],
+    action: { label: 'Abrir el árbol', url: data.actionUrl },
+    note: data.expiresAt ? `Esta invitación vence el ${formatDate(data.expiresAt, 'es')}.` : undefined,
+  }),
+  [MailTemplate.ACCESS_REQUEST]: data => ({
+    subject: `${data.requesterName} pidió unirse a ${data.treeName}`,
+    paragraphs: [
+      `${data.requesterName} pidió acceso como ${ES_ACCESS_LEVELS[data.requestedLevel]} a tu árbol familiar ${data.treeName}.`,
+      'Puedes aprobar o rechazar la solicitud en RKRoots.',
+    ],
+    action: { label: 'Revisar la solicitud', url: data.actionUrl },
+  }),
+  [MailTemplate.ACCESS_DECISION]: data => ({
+    subject: data.approved
+      ? `Se aprobó tu solicitud para unirte a ${data.treeName}`
+      : `Se rechazó tu solicitud para unirte a ${data.treeName}`,
+    paragraphs: [
+      data.approved
+        ? `Ahora tienes acceso como ${ES_ACCESS_LEVELS[data.accessLevel ?? AccessLevel.VIEWER]} al árbol familiar ${data.treeName}.`
+        : `El propietario del árbol familiar ${data.treeName} rechazó tu solicitud de acceso.`,
+    ],
+    action: data.approved
+      ? { label: 'Abrir el árbol', url: data.actionUrl }
+      : { label: 'Abrir RKRoots', url: data.actionUrl },
+  }),
+  [MailTemplate.DIGEST]: data => ({
+    subject: data.frequency === DigestFrequency.DAILY
+      ? `Tu resumen diario de RKRoots: ${data.itemCount} ${data.itemCount === 1 ? 'novedad' : 'novedades'}`
+      : `Tu resumen semanal de RKRoots: ${data.itemCount} ${data.itemCount === 1 ? 'novedad' : 'novedades'}`,
+    greeting: `Hola, ${data.displayName}:`,
+    paragraphs: [
+      data.frequency === DigestFrequency.DAILY
+        ? 'Esto es lo que pasó en tus árboles familiares desde tu último resumen diario.'
+        : 'Esto es lo que pasó en tus árboles familiares desde tu último resumen semanal.',
+    ],
+    sections: data.trees.map(tree => summarizeTree(tree, ES_NOTIFICATION_TYPES, 'Otros', count => `…y ${count} más`)),
+    action: { label: 'Ver todas las notificaciones', url: data.actionUrl },
+    note: 'Puedes cambiar la frecuencia de estos correos en tu configuración de notificaciones.',
+  }),
+  [MailTemplate.PASSWORD_RESET]: data => ({
+    subject: 'Restablece tu contraseña de RKRoots',
+    greeting: `Hola, ${data.displayName}:`,
+    paragraphs: ['Recibimos una solicitud para restablecer la contraseña de tu cuenta de RKRoots.'],
+    action: { label: 'Elegir una contraseña nueva', url: data.actionUrl },
+    note: `Este enlace vence en ${data.expiresInMinutes} minutos. Si no pediste restablecer tu contraseña, puedes ignorar este correo.`,
+  }),
+  [MailTemplate.EMAIL_VERIFICATION]: data => ({
+    subject: 'Confirma tu correo electrónico de RKRoots',
+    greeting: `Hola, ${data.displayName}:`,
+    paragraphs: [
+      'Confirma que esta es tu dirección de correo. Tus familiares solo podrán compartir sus árboles contigo cuando esté confirmada.',
+    ],
+    action: { label: 'Confirmar mi correo', url: data.actionUrl },
+    note: `Este enlace vence en ${data.expiresInHours} horas. Si no creaste una cuenta de RKRoots, puedes ignorar este correo.`,
+  }),
+  [MailTemplate.ACCOUNT_DELETION]: data => ({
+    subject: 'Tu cuenta de RKRoots se eliminará',
+    greeting: `Hola, ${data.displayName}:`,
+    paragraphs: [
+      `Tu cuenta de RKRoots y tus datos se eliminarán el ${formatDate(data.deleteAt, 'es')}. Se cerró tu sesión en todos tus dispositivos.`,
+      '¿Cambiaste de opinión? Inicia sesión antes de esa fecha y elige conservar tu cuenta.',
+    ],
+    action: { label: 'Conservar mi cuenta', url: data.actionUrl },
+    note: 'Si no pediste eliminar tu cuenta, inicia sesión ahora y cambia tu contraseña.',
+  }),
+  [MailTemplate.OWNERSHIP_TRANSFER]: data => ({
+    subject: `${data.fromName} quiere cederte el árbol familiar ${data.treeName}`,
+    paragraphs: [
+      `${data.fromName} te pidió que seas el propietario del árbol familiar ${data.treeName} en RKRoots.`,
+      'Como propietario decides quién puede ver y editar el árbol. Puedes aceptar o rechazar en RKRoots.',
+    ],
+    action: { label: 'Revisar la solicitud', url: data.actionUrl },
+    note: `Esta solicitud vence el ${formatDate(data.expiresAt, 'es')}.`,
+  }),
+};
+
+const STRINGS: Record<MailLocale, MailStrings> = { en: EN, es: ES };
+
+/** The supported locale closest to the given one, e.g. es-MX becomes es */
+export function resolveLocale(locale?: string | null): MailLocale {
+  const language = (locale ?? '').toLowerCase().split(/[-_]/)[0];
+  return (SUPPORTED_LOCALES as readonly string[]).includes(language) ? (language as MailLocale) : DEFAULT_LOCALE;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function layoutHtml(content: MailContent, strings: MailStrings, locale: MailLocale): string {
+  const paragraph = (text: string) => `<p style="margin:0 0 16px;font-size:16px;line-height:24px;color:#333333;">${escapeHtml(text)}</p>`;
+  const sections = (content.sections ?? []).map(section => `
+          <h2 style="margin:24px 0 8px;font-size:18px;color:#1a1a1a;">${escapeHtml(section.title)}</h2>
+          <ul style="margin:0 0 16px;padding-left:20px;font-size:15px;line-height:22px;color:#333333;">
+            ${section.lines.map(line => `<li>${escapeHtml(line)}</li>`).join('\n            ')}
+          </ul>`).join('');
+  const url = escapeHtml(content.action.url);
+
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${escapeHtml(content.subject)}</title>
+  </head>
+  <body style="margin:0;padding:0;background-color:#f5f5f5;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background-color:#f5f5f5;padding:24px 0;">
+      <tr>
+        <td align="center">
+          <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;background-color:#ffffff;border-radius:12px;padding:32px;">
+            <tr>
+              <td>
+          <p style="margin:0 0 24px;font-size:20px;font-weight:600;color:#007AFF;">RKRoots</p>
+          ${content.greeting ? paragraph(content.greeting) : ''}
+          ${content.paragraphs.map(paragraph).join('\n          ')}${sections}
+          <p style="margin:24px 0;">
+            <a href="${url}" style="display:inline-block;padding:12px 24px;background-color:#007AFF;color:#ffffff;text-decoration:none;border-radius:8px;font-size:16px;font-weight:600;">${escapeHtml(content.action.label)}</a>
+          </p>
+          ${content.note ? `<p style="margin:0 0 16px;font-size:14px;line-height:20px;color:#666666;">${escapeHtml(content.note)}</p>` : ''}
+          <p style="margin:0 0 16px;font-size:13px;line-height:18px;color:#999999;">${escapeHtml(strings.buttonFallback)}<br><a href="${url}" style="color:#007AFF;word-break:break-all;">${url}</a></p>
+          <p style="margin:24px 0 0;font-size:12px;color:#999999;">${escapeHtml(strings.footer)}</p>
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>
+`;
+}
+
+function layoutText(content: MailContent, strings: MailStrings): string {
+  const blocks: string[] = [];
+  if (content.greeting) blocks.push(content.greeting);
+  blocks.push(...content.paragraphs);
+  for (const section of content.sections ?? []) {
+    blocks.push([section.title, ...section.lines.map(line => `- ${line}`)].join('\n'));
+  }
+  blocks.push(`${content.action.label}: ${content.action.url}`);
+  if (content.note) blocks.push(content.note);
+  blocks.push(`--\n${strings.footer}`);
+  return `${blocks.join('\n\n')}\n`;
+}
+
+/** Renders a template in the locale (or the closest supported one) as HTML and plain text */
+export function renderMail<T extends MailTemplate>(template: T, data: MailTemplateData[T], locale?: string | null): RenderedMail {
+  const resolved = resolveLocale(locale);
+  const strings = STRINGS[resolved];
+  const content = (strings[template] as (data: MailTemplateData[T]) => MailContent)(data);
+
+  return {
+    subject: content.subject,
+    html: layoutHtml(content, strings, resolved),
+    text: layoutText(content, strings),
+  };
+}
@@ -0,0 +1,45 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalMailTransport, isPermanentMailError } from './mail.transport';
+
+describe('isPermanentMailError', () => {
+  it('should treat 5xx SMTP responses as permanent', () => {
+    expect(isPermanentMailError(Object.assign(new Error('Mailbox unavailable'), { responseCode: 550 }))).toBe(true);
+  });
+
+  it('should treat 4xx responses and connection errors as temporary', () => {
+    expect(isPermanentMailError(Object.assign(new Error('Try again later'), { responseCode: 421 }))).toBe(false);
+    expect(isPermanentMailError(new Error('ECONNREFUSED'))).toBe(false);
+    expect(isPermanentMailError(null)).toBe(false);
+  });
+});
+
+describe('LocalMailTransport', () => {
+  const message = { to: 'priya@example.com', subject: 'Hello', html: '<p>Hello</p>', text: 'Hello' };
+
+  it('should keep sent messages in memory', async () => {
+    const transport = new LocalMailTransport(undefined);
+
+    await transport.send(message);
+
+    expect(transport.sent).toEqual([message]);
+  });
+
+  it('should write each message to the output directory', async () => {
+    const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rkroots-mail-'));
+    try {
+      const transport = new LocalMailTransport(outputDir);
+
+      await transport.send(message);
+
+      const files = (await fs.readdir(outputDir)).sort();
+      expect(files).toHaveLength(2);
+      expect(files[0]).toMatch(/priya@example\.com\.html$/);
+      expect(await fs.readFile(path.join(outputDir, files[0]), 'utf8')).toBe('<p>Hello</p>');
+      expect(await fs.readFile(path.join(outputDir, files[1]), 'utf8')).toBe('Subject: Hello\n\nHello');
+    } finally {
+      await fs.rm(outputDir, { recursive: true, force: true });
+    }
+  });
+});
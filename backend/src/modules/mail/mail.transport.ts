@@ -0,0 +1,109 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { createLogger } from '../../common/logger';
+
+const logger = createLogger('mail-transport');
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  /** Sends one message; throws if it was not accepted */
+  send(message: MailMessage): Promise<void>;
+}
+
+export const DEFAULT_MAIL_FROM = 'RKRoots <no-reply@rkroots.app>';
+
+/**
+ * True when the mail server refused the message outright (5xx), so sending it
+ * again would not help, e.g. a mailbox that does not exist.
+ */
+export function isPermanentMailError(error: unknown): boolean {
+  const responseCode = (error as { responseCode?: number } | null)?.responseCode;
+  return typeof responseCode === 'number' && responseCode >= 500;
+}
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+export function smtpSettingsFromEnv(): SmtpSettings {
+  const port = parseInt(process.env.SMTP_PORT || '587', 10);
+  return {
+    host: process.env.SMTP_HOST || 'localhost',
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from: process.env.MAIL_FROM || DEFAULT_MAIL_FROM,
+  };
+}
+
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter: Transporter;
+  private from: string;
+
+  constructor(settings: SmtpSettings = smtpSettingsFromEnv()) {
+    this.from = settings.from;
+    this.transporter = nodemailer.createTransport({
+      host: settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      auth: settings.user ? { user: settings.user, pass: settings.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+/**
+ * Logs messages instead of sending them and keeps them in memory; with an
+ * output directory it also writes each one out as .html and .txt files to open
+ * in a browser. For tests and local development.
+ */
+export class LocalMailTransport implements MailTransport {
+  readonly name = 'local';
+  readonly sent: MailMessage[] = [];
+
+  constructor(private outputDir: string | undefined = process.env.MAIL_OUTPUT_DIR) {}
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+    logger.info({ to: message.to, subject: message.subject }, 'Mail kept locally');
+
+    if (this.outputDir) {
+      const baseName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-zA-Z0-9@.-]/g, '_')}`;
+      await fs.mkdir(this.outputDir, { recursive: true });
+      await fs.writeFile(path.join(this.outputDir, `${baseName}.html`), message.html);
+      await fs.writeFile(path.join(this.outputDir, `${baseName}.txt`), `Subject: ${message.subject}\n\n${message.text}`);
+    }
+  }
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * The transport picked by MAIL_TRANSPORT: `smtp`, or `local` to log mail (and
+ * write it to MAIL_OUTPUT_DIR if set). Defaults to smtp when SMTP_HOST is set.
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const name = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'local');
+    transport = name === 'smtp' ? new SmtpMailTransport() : new LocalMailTransport();
+  }
+  return transport;
+}
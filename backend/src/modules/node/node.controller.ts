@@ -1,6 +1,7 @@
 import { Response, NextFunction } from 'express';
 import { NodeService } from './node.service';
 import { AuthRequest } from '../../common/middleware/auth.middleware';
+import { pageRequestFromQuery } from '../../common/utils/pagination';
 
 export class NodeController {
   constructor(private nodeService: NodeService) {}
@@ -20,7 +21,7 @@ export class NodeController {
 
   async getNodes(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
-      const nodes = await this.nodeService.getNodes(req.params.treeId, req.userId!);
+      const nodes = await this.nodeService.getNodes(req.params.treeId, req.userId!, pageRequestFromQuery(req.query));
       res.json(nodes);
     } catch (error) {
       next(error);
@@ -54,6 +55,15 @@ export class NodeController {
     }
   }
 
+  async restore(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const node = await this.nodeService.restoreNode(req.params.nodeId, req.userId!);
+      res.json(node);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async publish(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const node = await this.nodeService.publishNode(req.params.nodeId, req.userId!);
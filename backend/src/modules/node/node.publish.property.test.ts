@@ -13,6 +13,14 @@ const mockQuery = jest.fn();
 
 jest.mock('../../config/database', () => ({
   query: (...args: unknown[]) => mockQuery(...args),
+  transaction: (callback: (client: unknown) => Promise<unknown>) =>
+    callback({ query: (...args: unknown[]) => mockQuery(...args) }),
+}));
+
+jest.mock('../timeline/life-event.service', () => ({
+  LifeEventService: jest.fn().mockImplementation(() => ({
+    syncNodeEvents: jest.fn().mockResolvedValue([]),
+  })),
 }));
 
 import { NodeService } from './node.service';
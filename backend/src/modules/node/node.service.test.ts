@@ -1,10 +1,18 @@
-import { AccessLevel, NodeStatus } from '../../database/interfaces';
+import { AccessLevel, AuditAction, AuditEntityType, NodeStatus, TrashEntityType } from '../../database/interfaces';
 
 const mockQuery = jest.fn();
+const mockRecordAudit = jest.fn();
+const mockRecordAuditMany = jest.fn();
 const mockNotifyNodePublished = jest.fn();
+const mockTrashNode = jest.fn();
+const mockRestore = jest.fn();
+const mockSyncNodeEvents = jest.fn();
+const mockPublishChange = jest.fn();
 
 jest.mock('../../config/database', () => ({
   query: (...args: unknown[]) => mockQuery(...args),
+  transaction: (callback: (client: unknown) => Promise<unknown>) =>
+    callback({ query: (...args: unknown[]) => mockQuery(...args) }),
 }));
 
 jest.mock('../notification/notification.service', () => ({
@@ -13,6 +21,32 @@ jest.mock('../notification/notification.service', () => ({
   })),
 }));
 
+jest.mock('../audit/audit.service', () => ({
+  AuditService: jest.fn().mockImplementation(() => ({
+    record: mockRecordAudit,
+    recordMany: mockRecordAuditMany,
+  })),
+}));
+
+jest.mock('../trash/trash.service', () => ({
+  TrashService: jest.fn().mockImplementation(() => ({
+    trashNode: mockTrashNode,
+    restore: mockRestore,
+  })),
+}));
+
+jest.mock('../timeline/life-event.service', () => ({
+  LifeEventService: jest.fn().mockImplementation(() => ({
+    syncNodeEvents: mockSyncNodeEvents,
+  })),
+}));
+
+jest.mock('../realtime/realtime.service', () => ({
+  RealtimeService: jest.fn().mockImplementation(() => ({
+    publishChange: mockPublishChange,
+  })),
+}));
+
 import { NodeService } from './node.service';
 
 describe('NodeService', () => {
@@ -20,8 +54,15 @@ describe('NodeService', () => {
 
   beforeEach(() => {
     mockQuery.mockReset();
+    mockRecordAudit.mockReset();
+    mockRecordAuditMany.mockReset();
     mockNotifyNodePublished.mockReset();
     mockNotifyNodePublished.mockResolvedValue(undefined);
+    mockTrashNode.mockReset();
+    mockRestore.mockReset();
+    mockSyncNodeEvents.mockReset();
+    mockSyncNodeEvents.mockResolvedValue([]);
+    mockPublishChange.mockReset();
     nodeService = new NodeService();
   });
 
@@ -56,6 +97,24 @@ describe('NodeService', () => {
       expect(result.nodeId).toBe('node123');
     });
 
+    it('should announce a new draft to its creator only', async () => {
+      const node = { nodeId: 'node123', treeId: 'tree123', petName: 'Johnny', status: NodeStatus.DRAFT, createdBy: 'user123' };
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] })
+        .mockResolvedValueOnce({ rows: [node] });
+
+      await nodeService.createNode({ treeId: 'tree123', petName: 'Johnny', userId: 'user123' });
+
+      expect(mockPublishChange).toHaveBeenCalledWith({
+        treeId: 'tree123',
+        entityType: AuditEntityType.NODE,
+        entityId: 'node123',
+        action: AuditAction.CREATE,
+        actorUserId: 'user123',
+        visibleTo: 'user123',
+      });
+    });
+
     it('should create node with petName only (Requirements 3.1, 3.2)', async () => {
       const createDto = {
         treeId: 'tree123',
@@ -271,9 +330,9 @@ describe('NodeService', () => {
 
       const result = await nodeService.getNodes(treeId, userId);
 
-      expect(result.length).toBe(2);
-      expect(result[0].nodeId).toBe('node1');
-      expect(result[1].nodeId).toBe('node2');
+      expect(result.items.length).toBe(2);
+      expect(result.items[0].nodeId).toBe('node1');
+      expect(result.items[1].nodeId).toBe('node2');
     });
 
     it('should throw error if user has no access', async () => {
@@ -353,6 +412,36 @@ describe('NodeService', () => {
       const result = await nodeService.updateNode(nodeId, userId, updateDto);
 
       expect(result.firstName).toBe('Jane');
+      expect(mockRecordAuditMany).toHaveBeenCalledWith([{
+        treeId: 'tree123',
+        entityType: AuditEntityType.NODE,
+        entityId: nodeId,
+        action: AuditAction.UPDATE,
+        actorId: userId,
+        before: node,
+        after: updatedNode,
+      }], expect.anything());
+      expect(mockSyncNodeEvents).not.toHaveBeenCalled();
+    });
+
+    it('should sync life events in the same transaction when dates change', async () => {
+      const node = { nodeId: 'node123', treeId: 'tree123', firstName: 'John', lastName: 'Doe' };
+      const updatedNode = { ...node, dateOfBirth: new Date('1950-03-01') };
+      const eventEntry = { treeId: 'tree123', entityType: AuditEntityType.EVENT, entityId: 'event1', action: AuditAction.CREATE, actorId: 'user123' };
+      mockSyncNodeEvents.mockResolvedValueOnce([eventEntry]);
+
+      mockQuery
+        .mockResolvedValueOnce({ rows: [node] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] })
+        .mockResolvedValueOnce({ rows: [updatedNode] });
+
+      await nodeService.updateNode('node123', 'user123', { dateOfBirth: new Date('1950-03-01') });
+
+      expect(mockSyncNodeEvents).toHaveBeenCalledWith(expect.objectContaining({ query: expect.any(Function) }), 'node123', 'user123');
+      expect(mockRecordAuditMany).toHaveBeenCalledWith([
+        expect.objectContaining({ entityType: AuditEntityType.NODE, action: AuditAction.UPDATE }),
+        eventEntry,
+      ], expect.anything());
     });
 
     it('should update node if user has owner access (Requirements 3.3)', async () => {
@@ -428,18 +517,22 @@ describe('NodeService', () => {
       const nodeId = 'node123';
       const userId = 'user123';
 
-      const node = { nodeId, treeId: 'tree123' };
+      const node = { nodeId, treeId: 'tree123', firstName: 'John', lastName: 'Doe' };
       const access = { accessLevel: AccessLevel.EDITOR };
 
       mockQuery
         .mockResolvedValueOnce({ rows: [node] })
-        .mockResolvedValueOnce({ rows: [access] })
-        .mockResolvedValueOnce({ rowCount: 1 });
+        .mockResolvedValueOnce({ rows: [access] });
 
       await nodeService.deleteNode(nodeId, userId);
 
-      expect(mockQuery).toHaveBeenCalledTimes(3);
-      expect(mockQuery).toHaveBeenLastCalledWith('DELETE FROM nodes WHERE node_id = $1', [nodeId]);
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+      expect(mockTrashNode).toHaveBeenCalledWith(node, 'John Doe', userId);
+      expect(mockRecordAudit).toHaveBeenCalledWith(expect.objectContaining({
+        entityId: nodeId,
+        action: AuditAction.DELETE,
+        before: node,
+      }));
     });
 
     it('should delete node if user has owner access (Requirements 3.4)', async () => {
@@ -451,12 +544,11 @@ describe('NodeService', () => {
 
       mockQuery
         .mockResolvedValueOnce({ rows: [node] })
-        .mockResolvedValueOnce({ rows: [access] })
-        .mockResolvedValueOnce({ rowCount: 1 });
+        .mockResolvedValueOnce({ rows: [access] });
 
       await nodeService.deleteNode(nodeId, userId);
 
-      expect(mockQuery).toHaveBeenCalledTimes(3);
+      expect(mockTrashNode).toHaveBeenCalledTimes(1);
     });
 
     it('should reject delete if user has only viewer access (Requirements 3.4)', async () => {
@@ -473,6 +565,7 @@ describe('NodeService', () => {
       await expect(nodeService.deleteNode(nodeId, userId)).rejects.toThrow(
         'Edit access required'
       );
+      expect(mockTrashNode).not.toHaveBeenCalled();
     });
 
     it('should throw error if node not found', async () => {
@@ -485,6 +578,33 @@ describe('NodeService', () => {
     });
   });
 
+  describe('restoreNode', () => {
+    it('should restore the node from the trash and record the restore', async () => {
+      const node = { nodeId: 'node123', treeId: 'tree123', firstName: 'John' };
+      const client = { query: jest.fn().mockResolvedValueOnce({ rows: [node] }) };
+      mockRestore.mockImplementationOnce((_type, _id, _userId, finish) => finish(client));
+
+      const result = await nodeService.restoreNode('node123', 'user123');
+
+      expect(result).toEqual(node);
+      expect(mockRestore).toHaveBeenCalledWith(TrashEntityType.NODE, 'node123', 'user123', expect.any(Function));
+      expect(mockSyncNodeEvents).toHaveBeenCalledWith(client, 'node123', 'user123');
+      expect(mockRecordAuditMany).toHaveBeenCalledWith([expect.objectContaining({
+        entityType: AuditEntityType.NODE,
+        action: AuditAction.RESTORE,
+        after: node,
+      })], client);
+    });
+
+    it('should not record anything when the restore is refused', async () => {
+      mockRestore.mockRejectedValueOnce(new Error('Item not found in trash'));
+
+      await expect(nodeService.restoreNode('node123', 'user123')).rejects.toThrow('Item not found in trash');
+      expect(mockQuery).not.toHaveBeenCalled();
+      expect(mockRecordAuditMany).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getDisplayName', () => {
     it('should return petName when available (Requirements 3.5)', () => {
       const node = {
@@ -571,7 +691,7 @@ describe('NodeService', () => {
 
       const result = await nodeService.getNodes(treeId, userId);
 
-      expect(result.length).toBe(2);
+      expect(result.items.length).toBe(2);
       const sqlQuery = mockQuery.mock.calls[1][0];
       expect(sqlQuery).toContain("status = 'published' OR created_by = $2");
     });
@@ -658,6 +778,12 @@ describe('NodeService', () => {
       const result = await nodeService.publishNode(nodeId, userId);
 
       expect(result.status).toBe(NodeStatus.PUBLISHED);
+      expect(mockSyncNodeEvents).toHaveBeenCalledWith(expect.anything(), nodeId, userId);
+      expect(mockPublishChange).toHaveBeenCalledWith(expect.objectContaining({
+        entityId: nodeId,
+        action: AuditAction.UPDATE,
+        visibleTo: undefined,
+      }));
     });
 
     it('should require relationship to published node for non-first nodes (Requirements 3.8)', async () => {
@@ -1,9 +1,15 @@
-import { query } from '../../config/database';
-import { Node, NodeStatus } from '../../database/interfaces';
+import { query, transaction } from '../../config/database';
+import { AuditAction, AuditEntityType, DatePrecision, DateQualifier, Node, NodeStatus, TrashEntityType } from '../../database/interfaces';
 import { AccessControlService } from '../../common/services/access-control.service';
 import { NotificationService } from '../notification/notification.service';
+import { AuditService } from '../audit/audit.service';
+import { TrashService } from '../trash/trash.service';
+import { LifeEventService } from '../timeline/life-event.service';
+import { RealtimeService } from '../realtime/realtime.service';
 import { AppError } from '../../common/errors/app-error';
 import { isValidNodeName } from './node.validation';
+import { Page, PageRequest, PaginationSpec, preparePage, toPage } from '../../common/utils/pagination';
+import { DateInput, GenealogicalDate, genealogicalDateFields, hasGenealogicalDateInput, mergeGenealogicalDate, parseGenealogicalDate } from '../../common/utils/genealogical-date';
 
 interface CreateNodeDto {
   treeId: string;
@@ -14,8 +20,14 @@ interface CreateNodeDto {
   placeOfBirth?: string;
   contactInfo?: Record<string, unknown>;
   profilePictureUrl?: string;
-  dateOfBirth?: Date;
-  dateOfDeath?: Date;
+  dateOfBirth?: DateInput | null;
+  dateOfBirthQualifier?: DateQualifier;
+  dateOfBirthPrecision?: DatePrecision;
+  dateOfBirthEnd?: DateInput | null;
+  dateOfDeath?: DateInput | null;
+  dateOfDeathQualifier?: DateQualifier;
+  dateOfDeathPrecision?: DatePrecision;
+  dateOfDeathEnd?: DateInput | null;
   userId: string;
 }
 
@@ -27,19 +39,60 @@ interface UpdateNodeDto {
   placeOfBirth?: string;
   contactInfo?: Record<string, unknown>;
   profilePictureUrl?: string;
-  dateOfBirth?: Date;
-  dateOfDeath?: Date;
+  dateOfBirth?: DateInput | null;
+  dateOfBirthQualifier?: DateQualifier;
+  dateOfBirthPrecision?: DatePrecision;
+  dateOfBirthEnd?: DateInput | null;
+  dateOfDeath?: DateInput | null;
+  dateOfDeathQualifier?: DateQualifier;
+  dateOfDeathPrecision?: DatePrecision;
+  dateOfDeathEnd?: DateInput | null;
 }
 
-const NODE_SELECT_FIELDS = `node_id as "nodeId", tree_id as "treeId", first_name as "firstName", last_name as "lastName", pet_name as "petName", address, place_of_birth as "placeOfBirth", contact_info as "contactInfo", profile_picture_url as "profilePictureUrl", date_of_birth as "dateOfBirth", date_of_death as "dateOfDeath", status, created_by as "createdBy", created_at as "createdAt", updated_at as "updatedAt", published_at as "publishedAt"`;
+const NODE_SELECT_FIELDS = `node_id as "nodeId", tree_id as "treeId", first_name as "firstName", last_name as "lastName", pet_name as "petName", address, place_of_birth as "placeOfBirth", contact_info as "contactInfo", profile_picture_url as "profilePictureUrl", ${genealogicalDateFields('date_of_birth', 'dateOfBirth')}, ${genealogicalDateFields('date_of_death', 'dateOfDeath')}, status, created_by as "createdBy", created_at as "createdAt", updated_at as "updatedAt", published_at as "publishedAt"`;
+
+const NODE_PAGINATION: PaginationSpec = {
+  sorts: {
+    createdAt: { expression: 'created_at', type: 'timestamptz' },
+    name: { expression: `LOWER(COALESCE(last_name, '') || ' ' || COALESCE(first_name, '') || ' ' || COALESCE(pet_name, ''))`, type: 'text' },
+  },
+  defaultSort: 'createdAt',
+  idColumn: 'node_id',
+};
+
+type NodeDateFields = Omit<UpdateNodeDto, 'firstName' | 'lastName' | 'petName' | 'address' | 'placeOfBirth' | 'contactInfo' | 'profilePictureUrl'>;
+
+const birthInput = (dto: NodeDateFields) => ({
+  date: dto.dateOfBirth, qualifier: dto.dateOfBirthQualifier, precision: dto.dateOfBirthPrecision, end: dto.dateOfBirthEnd,
+});
+const deathInput = (dto: NodeDateFields) => ({
+  date: dto.dateOfDeath, qualifier: dto.dateOfDeathQualifier, precision: dto.dateOfDeathPrecision, end: dto.dateOfDeathEnd,
+});
+const storedBirth = (node: Node) => ({
+  date: node.dateOfBirth, qualifier: node.dateOfBirthQualifier, precision: node.dateOfBirthPrecision, end: node.dateOfBirthEnd,
+});
+const storedDeath = (node: Node) => ({
+  date: node.dateOfDeath, qualifier: node.dateOfDeathQualifier, precision: node.dateOfDeathPrecision, end: node.dateOfDeathEnd,
+});
+const dateColumnValues = (date: GenealogicalDate) => [date.date, date.qualifier, date.precision, date.end];
+
+const CONSOLIDATED_ID_FIELD = `(SELECT m.consolidated_id FROM node_consolidation_mapping m WHERE m.node_id = nodes.node_id) as "consolidatedId"`;
 
 export class NodeService {
   private accessControl: AccessControlService;
   private notificationService: NotificationService;
+  private auditService: AuditService;
+  private trashService: TrashService;
+  private lifeEventService: LifeEventService;
+  private realtimeService: RealtimeService;
 
   constructor() {
     this.accessControl = new AccessControlService();
     this.notificationService = new NotificationService();
+    this.auditService = new AuditService();
+    this.trashService = new TrashService();
+    this.lifeEventService = new LifeEventService();
+    this.realtimeService = new RealtimeService();
   }
 
   async createNode(createDto: CreateNodeDto): Promise<Node> {
@@ -47,11 +100,16 @@ export class NodeService {
       throw new AppError('Either firstName and lastName, or petName must be provided', 400);
     }
 
+    const birth = parseGenealogicalDate(birthInput(createDto), 'dateOfBirth');
+    const death = parseGenealogicalDate(deathInput(createDto), 'dateOfDeath');
+
     await this.accessControl.requireEditAccess(createDto.treeId, createDto.userId);
 
     const result = await query<Node>(
-      `INSERT INTO nodes (tree_id, first_name, last_name, pet_name, address, place_of_birth, contact_info, profile_picture_url, date_of_birth, date_of_death, created_by, status)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      `INSERT INTO nodes (tree_id, first_name, last_name, pet_name, address, place_of_birth, contact_info, profile_picture_url,
+                          date_of_birth, date_of_birth_qualifier, date_of_birth_precision, date_of_birth_end,
+                          date_of_death, date_of_death_qualifier, date_of_death_precision, date_of_death_end, created_by, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
        RETURNING ${NODE_SELECT_FIELDS}`,
       [
         createDto.treeId,
@@ -62,32 +120,48 @@ export class NodeService {
         createDto.placeOfBirth || null,
         createDto.contactInfo ? JSON.stringify(createDto.contactInfo) : null,
         createDto.profilePictureUrl || null,
-        createDto.dateOfBirth || null,
-        createDto.dateOfDeath || null,
+        ...dateColumnValues(birth),
+        ...dateColumnValues(death),
         createDto.userId,
         NodeStatus.DRAFT,
       ]
     );
 
-    return result.rows[0];
+    const node = result.rows[0];
+    await this.auditService.record({
+      treeId: node.treeId,
+      entityType: AuditEntityType.NODE,
+      entityId: node.nodeId,
+      action: AuditAction.CREATE,
+      actorId: createDto.userId,
+      after: node,
+    });
+    this.publishChange(node, AuditAction.CREATE, createDto.userId);
+
+    return node;
   }
 
-  async getNodes(treeId: string, userId: string): Promise<Node[]> {
+  async getNodes(treeId: string, userId: string, pageRequest: PageRequest = {}): Promise<Page<Node>> {
     await this.accessControl.checkAccess(treeId, userId);
 
+    const values: unknown[] = [treeId, userId];
+    const page = preparePage(pageRequest, NODE_PAGINATION, values);
+
     const result = await query<Node>(
-      `SELECT ${NODE_SELECT_FIELDS}
+      `SELECT ${NODE_SELECT_FIELDS}, ${CONSOLIDATED_ID_FIELD}, ${page.columns}
        FROM nodes 
-       WHERE tree_id = $1 AND (status = 'published' OR created_by = $2)`,
-      [treeId, userId]
+       WHERE tree_id = $1 AND (status = 'published' OR created_by = $2)${page.condition ? ` AND ${page.condition}` : ''}
+       ORDER BY ${page.orderBy}
+       LIMIT ${page.limit}`,
+      values
     );
 
-    return result.rows;
+    return toPage(result.rows, page);
   }
 
   async getNodeById(nodeId: string, userId: string): Promise<Node> {
     const result = await query<Node>(
-      `SELECT ${NODE_SELECT_FIELDS} FROM nodes WHERE node_id = $1`,
+      `SELECT ${NODE_SELECT_FIELDS}, ${CONSOLIDATED_ID_FIELD} FROM nodes WHERE node_id = $1`,
       [nodeId]
     );
 
@@ -108,7 +182,7 @@ export class NodeService {
 
   async updateNode(nodeId: string, userId: string, updateDto: UpdateNodeDto): Promise<Node> {
     const existingResult = await query<Node>(
-      `SELECT node_id as "nodeId", tree_id as "treeId", status, created_by as "createdBy" FROM nodes WHERE node_id = $1`,
+      `SELECT ${NODE_SELECT_FIELDS} FROM nodes WHERE node_id = $1`,
       [nodeId]
     );
 
@@ -155,13 +229,17 @@ export class NodeService {
       updates.push(`profile_picture_url = $${paramIndex++}`);
       values.push(updateDto.profilePictureUrl);
     }
-    if (updateDto.dateOfBirth !== undefined) {
-      updates.push(`date_of_birth = $${paramIndex++}`);
-      values.push(updateDto.dateOfBirth);
-    }
-    if (updateDto.dateOfDeath !== undefined) {
-      updates.push(`date_of_death = $${paramIndex++}`);
-      values.push(updateDto.dateOfDeath);
+    const datesChanged = hasGenealogicalDateInput(birthInput(updateDto)) || hasGenealogicalDateInput(deathInput(updateDto));
+    for (const [column, input, stored, field] of [
+      ['date_of_birth', birthInput(updateDto), storedBirth(node), 'dateOfBirth'],
+      ['date_of_death', deathInput(updateDto), storedDeath(node), 'dateOfDeath'],
+    ] as const) {
+      if (!hasGenealogicalDateInput(input)) continue;
+      const date = mergeGenealogicalDate(input, stored, field);
+      for (const [suffix, value] of [['', date.date], ['_qualifier', date.qualifier], ['_precision', date.precision], ['_end', date.end]]) {
+        updates.push(`${column}${suffix} = $${paramIndex++}`);
+        values.push(value);
+      }
     }
 
     if (updates.length === 0) {
@@ -171,18 +249,38 @@ export class NodeService {
     updates.push(`updated_at = NOW()`);
     values.push(nodeId);
 
-    const result = await query<Node>(
-      `UPDATE nodes SET ${updates.join(', ')} WHERE node_id = $${paramIndex}
-       RETURNING ${NODE_SELECT_FIELDS}`,
-      values
-    );
-
-    return result.rows[0];
+    const updatedNode = await transaction(async (client) => {
+      const result = await client.query<Node>(
+        `UPDATE nodes SET ${updates.join(', ')} WHERE node_id = $${paramIndex}
+         RETURNING ${NODE_SELECT_FIELDS}`,
+        values
+      );
+
+      const updated = result.rows[0];
+      const lifeEventEntries = datesChanged ? await this.lifeEventService.syncNodeEvents(client, nodeId, userId) : [];
+      await this.auditService.recordMany([
+        {
+          treeId: node.treeId,
+          entityType: AuditEntityType.NODE,
+          entityId: nodeId,
+          action: AuditAction.UPDATE,
+          actorId: userId,
+          before: node,
+          after: updated,
+        },
+        ...lifeEventEntries,
+      ], client);
+
+      return updated;
+    });
+    this.publishChange(updatedNode, AuditAction.UPDATE, userId);
+
+    return updatedNode;
   }
 
   async deleteNode(nodeId: string, userId: string): Promise<void> {
     const result = await query<Node>(
-      `SELECT node_id as "nodeId", tree_id as "treeId", status, created_by as "createdBy" FROM nodes WHERE node_id = $1`,
+      `SELECT ${NODE_SELECT_FIELDS} FROM nodes WHERE node_id = $1`,
       [nodeId]
     );
 
@@ -197,7 +295,48 @@ export class NodeService {
       throw new AppError('Node not found', 404);
     }
 
-    await query('DELETE FROM nodes WHERE node_id = $1', [nodeId]);
+    await this.trashService.trashNode(node, this.getDisplayName(node), userId);
+    await this.auditService.record({
+      treeId: node.treeId,
+      entityType: AuditEntityType.NODE,
+      entityId: nodeId,
+      action: AuditAction.DELETE,
+      actorId: userId,
+      before: node,
+    });
+    this.publishChange(node, AuditAction.DELETE, userId);
+  }
+
+  /**
+   * Generated birth and death events come back from the trash with the node and
+   * are then brought in line with its dates, all in one transaction.
+   */
+  async restoreNode(nodeId: string, userId: string): Promise<Node> {
+    const restored = await this.trashService.restore(TrashEntityType.NODE, nodeId, userId, async (client) => {
+      const result = await client.query<Node>(
+        `SELECT ${NODE_SELECT_FIELDS} FROM nodes WHERE node_id = $1`,
+        [nodeId]
+      );
+
+      const node = result.rows[0];
+      const lifeEventEntries = await this.lifeEventService.syncNodeEvents(client, nodeId, userId);
+      await this.auditService.recordMany([
+        {
+          treeId: node.treeId,
+          entityType: AuditEntityType.NODE,
+          entityId: nodeId,
+          action: AuditAction.RESTORE,
+          actorId: userId,
+          after: node,
+        },
+        ...lifeEventEntries,
+      ], client);
+
+      return node;
+    });
+    this.publishChange(restored, AuditAction.RESTORE, userId);
+
+    return restored;
   }
 
   async publishNode(nodeId: string, userId: string): Promise<Node> {
@@ -230,19 +369,51 @@ export class NodeService {
       }
     }
 
-    const result = await query<Node>(
-      `UPDATE nodes SET status = $1, published_at = NOW(), updated_at = NOW() WHERE node_id = $2
-       RETURNING ${NODE_SELECT_FIELDS}`,
-      [NodeStatus.PUBLISHED, nodeId]
-    );
+    const publishedNode = await transaction(async (client) => {
+      const result = await client.query<Node>(
+        `UPDATE nodes SET status = $1, published_at = NOW(), updated_at = NOW() WHERE node_id = $2
+         RETURNING ${NODE_SELECT_FIELDS}`,
+        [NodeStatus.PUBLISHED, nodeId]
+      );
+
+      const published = result.rows[0];
+      const lifeEventEntries = await this.lifeEventService.syncNodeEvents(client, nodeId, userId);
+      await this.auditService.recordMany([
+        {
+          treeId: node.treeId,
+          entityType: AuditEntityType.NODE,
+          entityId: nodeId,
+          action: AuditAction.UPDATE,
+          actorId: userId,
+          before: node,
+          after: published,
+        },
+        ...lifeEventEntries,
+      ], client);
+
+      return published;
+    });
+
+    this.publishChange(publishedNode, AuditAction.UPDATE, userId);
 
-    const publishedNode = result.rows[0];
     const displayName = this.getDisplayName(publishedNode);
     await this.notificationService.notifyNodePublished(node.treeId, nodeId, displayName, userId);
 
     return publishedNode;
   }
 
+  /** Drafts are only announced to their creator, like everywhere else they appear */
+  private publishChange(node: Node, action: AuditAction, userId: string): void {
+    this.realtimeService.publishChange({
+      treeId: node.treeId,
+      entityType: AuditEntityType.NODE,
+      entityId: node.nodeId,
+      action,
+      actorUserId: userId,
+      visibleTo: node.status === NodeStatus.DRAFT ? node.createdBy ?? undefined : undefined,
+    });
+  }
+
   private async isFirstNodeInTree(treeId: string): Promise<boolean> {
     const result = await query<{ count: string }>(
       `SELECT COUNT(*) as count FROM nodes WHERE tree_id = $1 AND status = 'published'`,
@@ -0,0 +1,28 @@
+import { createLogger } from '../../common/logger';
+import { NotificationDigestService } from './notification-digest.service';
+
+const logger = createLogger('notification-digest');
+
+const DIGEST_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Checks hourly whether the daily or weekly digest is due and sends it. The
+ * timer does not keep the process alive on shutdown.
+ */
+export function startNotificationDigestJob(digestService: NotificationDigestService = new NotificationDigestService()): NodeJS.Timeout {
+  const run = async (): Promise<void> => {
+    try {
+      const sent = await digestService.sendDueDigests();
+      if (sent > 0) {
+        logger.info({ sent }, 'Sent notification digests');
+      }
+    } catch (error) {
+      logger.error({ err: error }, 'Notification digest run failed');
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, DIGEST_CHECK_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
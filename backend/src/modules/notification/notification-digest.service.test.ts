@@ -0,0 +1,141 @@
+import { DigestFrequency, MailTemplate, NotificationType } from '../../database/interfaces';
+
+const mockQuery = jest.fn();
+const mockSendMail = jest.fn().mockResolvedValue('mail1');
+
+jest.mock('../../config/database', () => ({
+  query: (...args: unknown[]) => mockQuery(...args),
+}));
+
+jest.mock('../mail/mail.service', () => ({
+  MailService: jest.fn().mockImplementation(() => ({
+    send: mockSendMail,
+  })),
+  appUrl: (path: string) => `https://app.example.com${path}`,
+}));
+
+import { NotificationDigestService, MailDigestSender, buildDigests, DigestRow } from './notification-digest.service';
+
+const row = (overrides: Partial<DigestRow & { visible: boolean }> = {}) => ({
+  itemId: 'item1',
+  userId: 'user1',
+  email: 'priya@example.com',
+  displayName: 'Priya',
+  locale: 'en',
+  treeId: 'tree1',
+  treeName: 'Sharma Family',
+  notificationType: NotificationType.COMMENT_ADDED,
+  message: 'A new comment has been added to a node in your family tree',
+  relatedEntityType: 'node',
+  relatedEntityId: 'node1',
+  createdAt: new Date('2026-03-01T10:00:00Z'),
+  visible: true,
+  ...overrides,
+});
+
+describe('buildDigests', () => {
+  it('should group items per user and per tree with counts by type', () => {
+    const digests = buildDigests([
+      row(),
+      row({ itemId: 'item2', notificationType: NotificationType.NODE_PUBLISHED }),
+      row({ itemId: 'item3' }),
+      row({ itemId: 'item4', treeId: 'tree2', treeName: 'Verma Family' }),
+      row({ itemId: 'item5', userId: 'user2', email: 'sam@example.com', displayName: 'Sam' }),
+    ], DigestFrequency.DAILY);
+
+    expect(digests).toHaveLength(2);
+    expect(digests[0].itemCount).toBe(4);
+    expect(digests[0].trees.map(tree => tree.treeName)).toEqual(['Sharma Family', 'Verma Family']);
+    expect(digests[0].trees[0].counts).toEqual({
+      [NotificationType.COMMENT_ADDED]: 2,
+      [NotificationType.NODE_PUBLISHED]: 1,
+    });
+    expect(digests[1]).toMatchObject({ userId: 'user2', email: 'sam@example.com', itemCount: 1 });
+  });
+});
+
+describe('NotificationDigestService', () => {
+  let service: NotificationDigestService;
+  let sender: { send: jest.Mock };
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    sender = { send: jest.fn().mockResolvedValue(undefined) };
+    service = new NotificationDigestService(sender);
+  });
+
+  describe('sendDigests', () => {
+    it('should send one digest per user and clear their items', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [row(), row({ itemId: 'item2' })] })
+        .mockResolvedValueOnce({ rowCount: 2 });
+
+      const sent = await service.sendDigests(DigestFrequency.WEEKLY);
+
+      expect(sent).toBe(1);
+      expect(sender.send).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user1',
+        frequency: DigestFrequency.WEEKLY,
+        itemCount: 2,
+      }));
+      expect(mockQuery).toHaveBeenLastCalledWith(expect.stringContaining('DELETE FROM notification_digest_items'), [['item1', 'item2']]);
+    });
+
+    it('should drop items from trees the user can no longer see', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [row({ visible: false })] })
+        .mockResolvedValueOnce({ rowCount: 1 });
+
+      const sent = await service.sendDigests(DigestFrequency.DAILY);
+
+      expect(sent).toBe(0);
+      expect(sender.send).not.toHaveBeenCalled();
+      expect(mockQuery).toHaveBeenLastCalledWith(expect.stringContaining('DELETE FROM notification_digest_items'), [['item1']]);
+    });
+
+    it('should keep a user\'s items queued when sending fails', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [row(), row({ itemId: 'item2', userId: 'user2' })] })
+        .mockResolvedValueOnce({ rowCount: 1 });
+      sender.send.mockRejectedValueOnce(new Error('mail server down'));
+
+      const sent = await service.sendDigests(DigestFrequency.DAILY);
+
+      expect(sent).toBe(1);
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+      expect(mockQuery).toHaveBeenLastCalledWith(expect.stringContaining('DELETE FROM notification_digest_items'), [['item2']]);
+    });
+  });
+
+  describe('sendDueDigests', () => {
+    it('should only send the digests whose run it claims', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [row()] })
+        .mockResolvedValueOnce({ rowCount: 1 })
+        .mockResolvedValueOnce({ rowCount: 0 });
+
+      const sent = await service.sendDueDigests();
+
+      expect(sent).toBe(1);
+      expect(mockQuery).toHaveBeenNthCalledWith(1, expect.stringContaining('UPDATE notification_digest_runs'), [DigestFrequency.DAILY, '1 day']);
+      expect(mockQuery).toHaveBeenNthCalledWith(4, expect.stringContaining('UPDATE notification_digest_runs'), [DigestFrequency.WEEKLY, '7 days']);
+    });
+  });
+});
+
+describe('MailDigestSender', () => {
+  it('should email the digest in the user\'s language', async () => {
+    const [digest] = buildDigests([row({ locale: 'es' })], DigestFrequency.WEEKLY);
+
+    await new MailDigestSender().send(digest);
+
+    expect(mockSendMail).toHaveBeenCalledWith('priya@example.com', MailTemplate.DIGEST, {
+      displayName: 'Priya',
+      frequency: DigestFrequency.WEEKLY,
+      trees: digest.trees,
+      itemCount: 1,
+      actionUrl: 'https://app.example.com/notifications',
+    }, 'es');
+  });
+});
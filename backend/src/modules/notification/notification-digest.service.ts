@@ -0,0 +1,179 @@
+import { query } from '../../config/database';
+import { DigestFrequency, MailTemplate, NotificationType } from '../../database/interfaces';
+import { createLogger } from '../../common/logger';
+import { MailService, appUrl } from '../mail/mail.service';
+
+const logger = createLogger('notification-digest');
+
+const DIGEST_PERIODS: Record<DigestFrequency, string> = {
+  [DigestFrequency.DAILY]: '1 day',
+  [DigestFrequency.WEEKLY]: '7 days',
+};
+
+export interface DigestItem {
+  notificationType: NotificationType;
+  message: string;
+  relatedEntityType: string | null;
+  relatedEntityId: string | null;
+  createdAt: Date;
+}
+
+export interface DigestTree {
+  treeId: string | null;
+  treeName: string | null;
+  /** How many of each notification type the tree had */
+  counts: Partial<Record<NotificationType, number>>;
+  items: DigestItem[];
+}
+
+/** One user's held-back notifications, grouped by tree */
+export interface NotificationDigest {
+  userId: string;
+  email: string;
+  displayName: string;
+  locale: string;
+  frequency: DigestFrequency;
+  trees: DigestTree[];
+  itemCount: number;
+}
+
+export interface DigestRow extends DigestItem {
+  itemId: string;
+  userId: string;
+  email: string;
+  displayName: string;
+  locale: string;
+  treeId: string | null;
+  treeName: string | null;
+}
+
+export interface DigestSender {
+  send(digest: NotificationDigest): Promise<void>;
+}
+
+/** Emails each digest to the user in their language */
+export class MailDigestSender implements DigestSender {
+  constructor(private mailService: MailService = new MailService()) {}
+
+  async send(digest: NotificationDigest): Promise<void> {
+    await this.mailService.send(digest.email, MailTemplate.DIGEST, {
+      displayName: digest.displayName,
+      frequency: digest.frequency,
+      trees: digest.trees,
+      itemCount: digest.itemCount,
+      actionUrl: appUrl('/notifications'),
+    }, digest.locale);
+  }
+}
+
+/** Groups digest rows, ordered by user and tree, into one digest per user */
+export function buildDigests(rows: DigestRow[], frequency: DigestFrequency): NotificationDigest[] {
+  const digests = new Map<string, NotificationDigest>();
+
+  for (const row of rows) {
+    let digest = digests.get(row.userId);
+    if (!digest) {
+      digest = {
+        userId: row.userId,
+        email: row.email,
+        displayName: row.displayName,
+        locale: row.locale,
+        frequency,
+        trees: [],
+        itemCount: 0,
+      };
+      digests.set(row.userId, digest);
+    }
+
+    let tree = digest.trees.find(candidate => candidate.treeId === row.treeId);
+    if (!tree) {
+      tree = { treeId: row.treeId, treeName: row.treeName, counts: {}, items: [] };
+      digest.trees.push(tree);
+    }
+
+    tree.counts[row.notificationType] = (tree.counts[row.notificationType] ?? 0) + 1;
+    tree.items.push({
+      notificationType: row.notificationType,
+      message: row.message,
+      relatedEntityType: row.relatedEntityType,
+      relatedEntityId: row.relatedEntityId,
+      createdAt: row.createdAt,
+    });
+    digest.itemCount++;
+  }
+
+  return [...digests.values()];
+}
+
+export class NotificationDigestService {
+  private sender: DigestSender;
+
+  constructor(sender: DigestSender = new MailDigestSender()) {
+    this.sender = sender;
+  }
+
+  /** Sends each digest whose period has passed since its last run; returns how many were sent */
+  async sendDueDigests(): Promise<number> {
+    let sent = 0;
+    for (const frequency of Object.values(DigestFrequency)) {
+      // Moving last_run_at forward claims the run, so only one server sends it
+      const claim = await query(
+        `UPDATE notification_digest_runs
+         SET last_run_at = NOW()
+         WHERE frequency = $1 AND last_run_at <= NOW() - $2::interval`,
+        [frequency, DIGEST_PERIODS[frequency]]
+      );
+      if (claim.rowCount) {
+        sent += await this.sendDigests(frequency);
+      }
+    }
+    return sent;
+  }
+
+  /**
+   * Builds and sends a digest to every user with held-back notifications of the
+   * frequency. Items from trees the user can no longer see are dropped, and a
+   * user's items stay queued if sending to them fails.
+   */
+  async sendDigests(frequency: DigestFrequency): Promise<number> {
+    const result = await query<DigestRow & { visible: boolean }>(
+      `SELECT di.item_id as "itemId", di.user_id as "userId", u.email, u.display_name as "displayName", u.locale,
+              di.tree_id as "treeId", ft.tree_name as "treeName", di.notification_type as "notificationType",
+              di.message, di.related_entity_type as "relatedEntityType", di.related_entity_id as "relatedEntityId",
+              di.created_at as "createdAt",
+              (di.tree_id IS NULL OR (ft.deleted_at IS NULL AND EXISTS (
+                SELECT 1 FROM tree_access ta WHERE ta.tree_id = di.tree_id AND ta.user_id = di.user_id
+              ))) as visible
+       FROM notification_digest_items di
+       JOIN users u ON u.user_id = di.user_id
+       LEFT JOIN family_trees ft ON ft.tree_id = di.tree_id
+       WHERE di.frequency = $1
+       ORDER BY di.user_id, ft.tree_name NULLS LAST, di.created_at`,
+      [frequency]
+    );
+
+    const itemIdsByUser = new Map<string, string[]>();
+    for (const row of result.rows) {
+      itemIdsByUser.set(row.userId, [...(itemIdsByUser.get(row.userId) ?? []), row.itemId]);
+    }
+
+    const digests = buildDigests(result.rows.filter(row => row.visible), frequency);
+    const digestsByUser = new Map(digests.map(digest => [digest.userId, digest]));
+
+    let sent = 0;
+    for (const [userId, itemIds] of itemIdsByUser) {
+      const digest = digestsByUser.get(userId);
+      try {
+        if (digest) {
+          await this.sender.send(digest);
+          sent++;
+        }
+        await query('DELETE FROM notification_digest_items WHERE item_id = ANY($1::uuid[])', [itemIds]);
+      } catch (error) {
+        logger.error({ err: error, userId, frequency }, 'Failed to send notification digest');
+      }
+    }
+
+    return sent;
+  }
+}
@@ -0,0 +1,43 @@
+import { Response, NextFunction } from 'express';
+import { NotificationPreferenceService } from './notification-preference.service';
+import { AuthRequest } from '../../common/middleware/auth.middleware';
+import { NotificationType } from '../../database/interfaces';
+
+export class NotificationPreferenceController {
+  constructor(private preferenceService: NotificationPreferenceService) {}
+
+  async getPreferences(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const preferences = await this.preferenceService.getPreferences(req.userId!, req.query.treeId as string | undefined);
+      res.json(preferences);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async setPreference(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const preference = await this.preferenceService.setPreference(req.userId!, {
+        notificationType: req.body.notificationType,
+        delivery: req.body.delivery,
+        treeId: req.body.treeId,
+      });
+      res.json(preference);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async clearPreference(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await this.preferenceService.clearPreference(
+        req.userId!,
+        req.params.notificationType as NotificationType,
+        req.query.treeId as string | undefined
+      );
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { AccessLevel, NotificationDelivery, NotificationType } from '../../database/interfaces';
+
+const mockQuery = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  query: (...args: unknown[]) => mockQuery(...args),
+}));
+
+import { NotificationPreferenceService } from './notification-preference.service';
+
+describe('NotificationPreferenceService', () => {
+  let service: NotificationPreferenceService;
+
+  const allowAccess = () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ treeId: 'tree1', userId: 'user1', accessLevel: AccessLevel.VIEWER }] });
+  };
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    service = new NotificationPreferenceService();
+  });
+
+  describe('getPreferences', () => {
+    it('should fall back to push for every type without a setting', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      const result = await service.getPreferences('user1');
+
+      expect(result).toHaveLength(Object.values(NotificationType).length);
+      expect(result.every(preference => preference.delivery === NotificationDelivery.PUSH && preference.source === 'default')).toBe(true);
+    });
+
+    it('should prefer the tree override over the user default', async () => {
+      allowAccess();
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          { notificationType: NotificationType.COMMENT_ADDED, delivery: NotificationDelivery.DAILY_DIGEST, treeId: null },
+          { notificationType: NotificationType.COMMENT_ADDED, delivery: NotificationDelivery.OFF, treeId: 'tree1' },
+          { notificationType: NotificationType.NODE_PUBLISHED, delivery: NotificationDelivery.IN_APP, treeId: null },
+        ],
+      });
+
+      const result = await service.getPreferences('user1', 'tree1');
+
+      expect(result.find(p => p.notificationType === NotificationType.COMMENT_ADDED)).toEqual({
+        notificationType: NotificationType.COMMENT_ADDED,
+        delivery: NotificationDelivery.OFF,
+        treeId: 'tree1',
+        source: 'tree',
+      });
+      expect(result.find(p => p.notificationType === NotificationType.NODE_PUBLISHED)).toEqual({
+        notificationType: NotificationType.NODE_PUBLISHED,
+        delivery: NotificationDelivery.IN_APP,
+        treeId: 'tree1',
+        source: 'user',
+      });
+    });
+
+    it('should refuse a tree the user cannot access', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await expect(service.getPreferences('user1', 'tree1')).rejects.toThrow('Access denied');
+    });
+  });
+
+  describe('setPreference', () => {
+    it('should upsert the user default', async () => {
+      mockQuery.mockResolvedValueOnce({ rowCount: 1 });
+
+      const result = await service.setPreference('user1', {
+        notificationType: NotificationType.COMMENT_ADDED,
+        delivery: NotificationDelivery.WEEKLY_DIGEST,
+      });
+
+      expect(result.source).toBe('user');
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('ON CONFLICT (user_id, notification_type) WHERE tree_id IS NULL'),
+        ['user1', null, NotificationType.COMMENT_ADDED, NotificationDelivery.WEEKLY_DIGEST]
+      );
+    });
+
+    it('should upsert a tree override after checking access', async () => {
+      allowAccess();
+      mockQuery.mockResolvedValueOnce({ rowCount: 1 });
+
+      const result = await service.setPreference('user1', {
+        notificationType: NotificationType.NODE_PUBLISHED,
+        delivery: NotificationDelivery.OFF,
+        treeId: 'tree1',
+      });
+
+      expect(result).toEqual({
+        notificationType: NotificationType.NODE_PUBLISHED,
+        delivery: NotificationDelivery.OFF,
+        treeId: 'tree1',
+        source: 'tree',
+      });
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('ON CONFLICT (user_id, tree_id, notification_type) WHERE tree_id IS NOT NULL'),
+        ['user1', 'tree1', NotificationType.NODE_PUBLISHED, NotificationDelivery.OFF]
+      );
+    });
+  });
+
+  describe('clearPreference', () => {
+    it('should remove a tree override', async () => {
+      mockQuery.mockResolvedValueOnce({ rowCount: 1 });
+
+      await service.clearPreference('user1', NotificationType.COMMENT_ADDED, 'tree1');
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('tree_id = $3'),
+        ['user1', NotificationType.COMMENT_ADDED, 'tree1']
+      );
+    });
+
+    it('should throw when there is nothing to clear', async () => {
+      mockQuery.mockResolvedValueOnce({ rowCount: 0 });
+
+      await expect(service.clearPreference('user1', NotificationType.COMMENT_ADDED)).rejects.toThrow('Notification preference not found');
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { query } from '../../config/database';
+import { NotificationDelivery, NotificationPreference, NotificationType } from '../../database/interfaces';
+import { AccessControlService } from '../../common/services/access-control.service';
+import { AppError } from '../../common/errors/app-error';
+
+/** What a user gets for a notification type until they say otherwise */
+export const DEFAULT_NOTIFICATION_DELIVERY = NotificationDelivery.PUSH;
+
+/**
+ * SQL for a user's effective delivery of a notification type: their setting for
+ * the tree, else their default, else the system default. Arguments are SQL expressions.
+ */
+export const effectiveDeliverySql = (userId: string, treeId: string, notificationType: string): string => `COALESCE(
+  (SELECT delivery FROM notification_preferences WHERE user_id = ${userId} AND tree_id = ${treeId} AND notification_type = ${notificationType}),
+  (SELECT delivery FROM notification_preferences WHERE user_id = ${userId} AND tree_id IS NULL AND notification_type = ${notificationType}),
+  '${DEFAULT_NOTIFICATION_DELIVERY}')`;
+
+interface SetPreferenceDto {
+  notificationType: NotificationType;
+  delivery: NotificationDelivery;
+  treeId?: string;
+}
+
+export class NotificationPreferenceService {
+  private accessControl: AccessControlService;
+
+  constructor() {
+    this.accessControl = new AccessControlService();
+  }
+
+  /**
+   * The effective preference for every notification type, either the user's
+   * defaults or, with a tree id, what applies in that tree.
+   */
+  async getPreferences(userId: string, treeId?: string): Promise<NotificationPreference[]> {
+    if (treeId) {
+      await this.accessControl.checkAccess(treeId, userId);
+    }
+
+    const result = await query<{ notificationType: NotificationType; delivery: NotificationDelivery; treeId: string | null }>(
+      `SELECT notification_type as "notificationType", delivery, tree_id as "treeId"
+       FROM notification_preferences
+       WHERE user_id = $1 AND (tree_id IS NULL OR tree_id = $2)`,
+      [userId, treeId ?? null]
+    );
+
+    return Object.values(NotificationType).map((notificationType): NotificationPreference => {
+      const rows = result.rows.filter(row => row.notificationType === notificationType);
+      const treeRow = rows.find(row => row.treeId !== null);
+      const userRow = rows.find(row => row.treeId === null);
+
+      if (treeRow) {
+        return { notificationType, delivery: treeRow.delivery, treeId: treeRow.treeId, source: 'tree' };
+      }
+      return {
+        notificationType,
+        delivery: userRow?.delivery ?? DEFAULT_NOTIFICATION_DELIVERY,
+        treeId: treeId ?? null,
+        source: userRow ? 'user' : 'default',
+      };
+    });
+  }
+
+  /** Sets the user's default for a notification type or, with a tree id, overrides it for that tree */
+  async setPreference(userId: string, dto: SetPreferenceDto): Promise<NotificationPreference> {
+    if (dto.treeId) {
+      await this.accessControl.checkAccess(dto.treeId, userId);
+    }
+
+    const conflictTarget = dto.treeId
+      ? '(user_id, tree_id, notification_type) WHERE tree_id IS NOT NULL'
+      : '(user_id, notification_type) WHERE tree_id IS NULL';
+
+    await query(
+      `INSERT INTO notification_preferences (user_id, tree_id, notification_type, delivery)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT ${conflictTarget}
+       DO UPDATE SET delivery = EXCLUDED.delivery, updated_at = NOW()`,
+      [userId, dto.treeId ?? null, dto.notificationType, dto.delivery]
+    );
+
+    return {
+      notificationType: dto.notificationType,
+      delivery: dto.delivery,
+      treeId: dto.treeId ?? null,
+      source: dto.treeId ? 'tree' : 'user',
+    };
+  }
+
+  /** Removes a default or tree override so the next level up applies again */
+  async clearPreference(userId: string, notificationType: NotificationType, treeId?: string): Promise<void> {
+    const result = await query(
+      `DELETE FROM notification_preferences
+       WHERE user_id = $1 AND notification_type = $2 AND ${treeId ? 'tree_id = $3' : 'tree_id IS NULL'}`,
+      treeId ? [userId, notificationType, treeId] : [userId, notificationType]
+    );
+
+    if (result.rowCount === 0) {
+      throw new AppError('Notification preference not found', 404);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { Response, NextFunction } from 'express';
 import { NotificationService } from './notification.service';
 import { AuthRequest } from '../../common/middleware/auth.middleware';
+import { pageRequestFromQuery } from '../../common/utils/pagination';
 
 export class NotificationController {
   constructor(private notificationService: NotificationService) {}
@@ -8,7 +9,7 @@ export class NotificationController {
   async getNotifications(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const unreadOnly = req.query.unreadOnly === 'true';
-      const notifications = await this.notificationService.getNotifications(req.userId!, unreadOnly);
+      const notifications = await this.notificationService.getNotifications(req.userId!, unreadOnly, pageRequestFromQuery(req.query));
       res.json(notifications);
     } catch (error) {
       next(error);
@@ -1,18 +1,27 @@
-import { NotificationType } from '../../database/interfaces';
+import { NotificationDelivery, NotificationType } from '../../database/interfaces';
 
 const mockQuery = jest.fn();
+const mockSendToUsers = jest.fn();
 
 jest.mock('../../config/database', () => ({
   query: (...args: unknown[]) => mockQuery(...args),
 }));
 
+jest.mock('../push/push.service', () => ({
+  PushService: jest.fn().mockImplementation(() => ({
+    sendToUsers: mockSendToUsers,
+  })),
+}));
+
 import { NotificationService } from './notification.service';
+import { DEFAULT_PAGE_LIMIT } from '../../common/utils/pagination';
 
 describe('NotificationService', () => {
   let service: NotificationService;
 
   beforeEach(() => {
     mockQuery.mockReset();
+    mockSendToUsers.mockReset();
     service = new NotificationService();
   });
 
@@ -31,11 +40,44 @@ describe('NotificationService', () => {
         createdAt: new Date(),
       };
 
-      mockQuery.mockResolvedValueOnce({ rows: [notification] });
+      mockQuery.mockResolvedValueOnce({ rows: [{ ...notification, delivery: NotificationDelivery.PUSH }] });
 
       const result = await service.createNotification(dto);
 
-      expect(result.notificationId).toBe('notif1');
+      expect(result).toEqual(notification);
+      expect(mockSendToUsers).toHaveBeenCalledWith(['user1'], expect.anything());
+    });
+
+    it('should store but not push when the user wants in-app only', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ notificationId: 'notif1', userId: 'user1', delivery: NotificationDelivery.IN_APP }] });
+
+      const result = await service.createNotification({
+        userId: 'user1',
+        notificationType: NotificationType.ACCESS_REQUEST,
+        message: 'A user has requested access to your family tree',
+        treeId: 'tree1',
+      });
+
+      expect(result?.notificationId).toBe('notif1');
+      expect(mockSendToUsers).toHaveBeenCalledWith([], expect.anything());
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('notification_preferences'),
+        ['user1', NotificationType.ACCESS_REQUEST, 'A user has requested access to your family tree', null, null, 'tree1']
+      );
+    });
+
+    it('should return null when the notification is turned off or held for a digest', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      const result = await service.createNotification({
+        userId: 'user1',
+        notificationType: NotificationType.ACCESS_GRANTED,
+        message: 'You have been granted access',
+      });
+
+      expect(result).toBeNull();
+      expect(mockSendToUsers).not.toHaveBeenCalled();
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO notification_digest_items'), expect.anything());
     });
   });
 
@@ -50,20 +92,24 @@ describe('NotificationService', () => {
         createdAt: new Date(),
       };
 
-      mockQuery.mockResolvedValueOnce({ rows: [notification] });
+      mockQuery.mockResolvedValueOnce({ rows: [{ ...notification, delivery: NotificationDelivery.PUSH }] });
 
       await service.notifyAccessGranted('user1', 'tree1', 'Test Tree', 'editor');
 
       expect(mockQuery).toHaveBeenCalledWith(
         expect.stringContaining('INSERT INTO notifications'),
-        expect.arrayContaining(['user1', NotificationType.ACCESS_GRANTED])
+        expect.arrayContaining(['user1', NotificationType.ACCESS_GRANTED, 'tree1'])
       );
+      expect(mockSendToUsers).toHaveBeenCalledWith(['user1'], expect.objectContaining({
+        title: 'Access granted',
+        body: 'You have been granted editor access to the family tree "Test Tree"',
+      }));
     });
   });
 
   describe('notifyCommentAdded', () => {
     it('should create notifications for all tree users except creator in single query', async () => {
-      mockQuery.mockResolvedValueOnce({ rowCount: 2 });
+      mockQuery.mockResolvedValueOnce({ rowCount: 2, rows: [{ userId: 'user2', delivery: NotificationDelivery.PUSH }, { userId: 'user3', delivery: NotificationDelivery.PUSH }] });
 
       await service.notifyCommentAdded('tree1', 'node', 'entity1', 'creator');
 
@@ -73,11 +119,50 @@ describe('NotificationService', () => {
         expect.arrayContaining(['tree1', 'creator'])
       );
     });
+
+    it('should push only to recipients who want push', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rowCount: 2,
+        rows: [{ userId: 'user2', delivery: NotificationDelivery.PUSH }, { userId: 'user3', delivery: NotificationDelivery.IN_APP }],
+      });
+
+      await service.notifyCommentAdded('tree1', 'node', 'entity1', 'creator');
+
+      expect(mockSendToUsers).toHaveBeenCalledWith(['user2'], expect.anything());
+    });
+
+    it('should hold notifications for digests and skip those turned off in the same query', async () => {
+      mockQuery.mockResolvedValueOnce({ rowCount: 0, rows: [] });
+
+      await service.notifyCommentAdded('tree1', 'node', 'entity1', 'creator');
+
+      const [sql] = mockQuery.mock.calls[0];
+      expect(sql).toContain('notification_preferences');
+      expect(sql).toContain('INSERT INTO notification_digest_items');
+      expect(sql).toContain("delivery IN ('in_app', 'push')");
+      expect(mockSendToUsers).toHaveBeenCalledWith([], expect.anything());
+    });
+
+    it('should push the notification to every recipient', async () => {
+      mockQuery.mockResolvedValueOnce({ rowCount: 2, rows: [{ userId: 'user2', delivery: NotificationDelivery.PUSH }, { userId: 'user3', delivery: NotificationDelivery.PUSH }] });
+
+      await service.notifyCommentAdded('tree1', 'node', 'entity1', 'creator');
+
+      expect(mockSendToUsers).toHaveBeenCalledWith(['user2', 'user3'], {
+        title: 'New comment',
+        body: 'A new comment has been added to a node in your family tree',
+        data: {
+          notificationType: NotificationType.COMMENT_ADDED,
+          relatedEntityType: 'node',
+          relatedEntityId: 'entity1',
+        },
+      });
+    });
   });
 
   describe('notifyNodePublished', () => {
     it('should create notifications for all tree users except publisher in single query', async () => {
-      mockQuery.mockResolvedValueOnce({ rowCount: 2 });
+      mockQuery.mockResolvedValueOnce({ rowCount: 2, rows: [{ userId: 'user2', delivery: NotificationDelivery.PUSH }, { userId: 'user3', delivery: NotificationDelivery.PUSH }] });
 
       await service.notifyNodePublished('tree1', 'node1', 'John Doe', 'publisher');
 
@@ -91,7 +176,7 @@ describe('NotificationService', () => {
 
   describe('notifyTimelineEventAdded', () => {
     it('should create notifications for all tree users except creator in single query', async () => {
-      mockQuery.mockResolvedValueOnce({ rowCount: 2 });
+      mockQuery.mockResolvedValueOnce({ rowCount: 2, rows: [{ userId: 'user2', delivery: NotificationDelivery.PUSH }, { userId: 'user3', delivery: NotificationDelivery.PUSH }] });
 
       await service.notifyTimelineEventAdded('tree1', 'event1', 'Birthday Party', 'creator');
 
@@ -116,7 +201,7 @@ describe('NotificationService', () => {
 
       const result = await service.getNotifications(userId);
 
-      expect(result.length).toBe(2);
+      expect(result.items.length).toBe(2);
     });
 
     it('should return only unread notifications when unreadOnly is true', async () => {
@@ -130,10 +215,10 @@ describe('NotificationService', () => {
 
       const result = await service.getNotifications(userId, true);
 
-      expect(result.length).toBe(1);
+      expect(result.items.length).toBe(1);
       expect(mockQuery).toHaveBeenCalledWith(
         expect.stringContaining('is_read = false'),
-        [userId]
+        [userId, DEFAULT_PAGE_LIMIT + 1]
       );
     });
   });
@@ -151,7 +236,7 @@ describe('NotificationService', () => {
 
       const result = await service.getUserNotifications(userId);
 
-      expect(result.length).toBe(2);
+      expect(result.items.length).toBe(2);
     });
   });
 
@@ -167,7 +252,7 @@ describe('NotificationService', () => {
 
       const result = await service.getUnreadNotifications(userId);
 
-      expect(result.length).toBe(1);
+      expect(result.items.length).toBe(1);
     });
   });
 
@@ -1,27 +1,88 @@
 import { query } from '../../config/database';
-import { Notification, NotificationType } from '../../database/interfaces';
+import { Notification, NotificationDelivery, NotificationType } from '../../database/interfaces';
 import { AppError } from '../../common/errors/app-error';
+import { Page, PageRequest, PaginationSpec, preparePage, toPage } from '../../common/utils/pagination';
+import { RealtimeService } from '../realtime/realtime.service';
+import { PushService } from '../push/push.service';
+import { effectiveDeliverySql } from './notification-preference.service';
 
 export { NotificationType };
 
+const NOTIFICATION_PAGINATION: PaginationSpec = {
+  sorts: {
+    createdAt: { expression: 'created_at', type: 'timestamptz' },
+  },
+  defaultSort: '-createdAt',
+  idColumn: 'notification_id',
+};
+
+const PUSH_TITLES: Record<NotificationType, string> = {
+  [NotificationType.ACCESS_GRANTED]: 'Access granted',
+  [NotificationType.SAME_PERSON_LINK_CREATED]: 'Trees linked',
+  [NotificationType.ACCESS_REQUEST]: 'New access request',
+  [NotificationType.COMMENT_ADDED]: 'New comment',
+  [NotificationType.NODE_PUBLISHED]: 'New family member',
+  [NotificationType.TIMELINE_EVENT_ADDED]: 'New timeline event',
+  [NotificationType.OWNERSHIP_TRANSFER]: 'Tree ownership',
+};
+
+const NOTIFICATION_COLUMNS = `notification_id as "notificationId", user_id as "userId", notification_type as "notificationType", message, related_entity_type as "relatedEntityType", related_entity_id as "relatedEntityId", is_read as "isRead", created_at as "createdAt"`;
+
+// Deliveries that store a notification in the app, and those that hold it for a digest
+const IN_APP_DELIVERIES = `('${NotificationDelivery.IN_APP}', '${NotificationDelivery.PUSH}')`;
+const DIGEST_FREQUENCY = `CASE delivery WHEN '${NotificationDelivery.DAILY_DIGEST}' THEN 'daily' WHEN '${NotificationDelivery.WEEKLY_DIGEST}' THEN 'weekly' END`;
+
 interface CreateNotificationDto {
   userId: string;
   notificationType: NotificationType;
   message: string;
   relatedEntityType?: string;
   relatedEntityId?: string;
+  /** The tree the notification is about, so the user's preferences for that tree apply */
+  treeId?: string;
 }
 
+type NotificationContent = Omit<CreateNotificationDto, 'userId' | 'treeId'>;
+
 export class NotificationService {
-  async createNotification(dto: CreateNotificationDto): Promise<Notification> {
-    const result = await query<Notification>(
-      `INSERT INTO notifications (user_id, notification_type, message, related_entity_type, related_entity_id)
-       VALUES ($1, $2, $3, $4, $5)
-       RETURNING notification_id as "notificationId", user_id as "userId", notification_type as "notificationType", message, related_entity_type as "relatedEntityType", related_entity_id as "relatedEntityId", is_read as "isRead", created_at as "createdAt"`,
-      [dto.userId, dto.notificationType, dto.message, dto.relatedEntityType || null, dto.relatedEntityId || null]
+  private realtimeService: RealtimeService;
+  private pushService: PushService;
+
+  constructor() {
+    this.realtimeService = new RealtimeService();
+    this.pushService = new PushService();
+  }
+
+  /**
+   * Notifies one user as their preferences say: stored in-app (and pushed), held
+   * for a digest, or dropped. Returns the stored notification, if any.
+   */
+  async createNotification(dto: CreateNotificationDto): Promise<Notification | null> {
+    const result = await query<Notification & { delivery: NotificationDelivery }>(
+      `WITH recipient AS (
+         SELECT ${effectiveDeliverySql('$1::uuid', '$6::uuid', '$2')} AS delivery
+       ),
+       digested AS (
+         INSERT INTO notification_digest_items (user_id, tree_id, frequency, notification_type, message, related_entity_type, related_entity_id)
+         SELECT $1, $6, ${DIGEST_FREQUENCY}, $2, $3, $4, $5
+         FROM recipient WHERE ${DIGEST_FREQUENCY} IS NOT NULL
+       ),
+       inserted AS (
+         INSERT INTO notifications (user_id, notification_type, message, related_entity_type, related_entity_id)
+         SELECT $1, $2, $3, $4, $5
+         FROM recipient WHERE delivery IN ${IN_APP_DELIVERIES}
+         RETURNING *
+       )
+       SELECT ${NOTIFICATION_COLUMNS}, recipient.delivery
+       FROM inserted, recipient`,
+      [dto.userId, dto.notificationType, dto.message, dto.relatedEntityType || null, dto.relatedEntityId || null, dto.treeId || null]
     );
+    if (result.rows.length === 0) return null;
+
+    const { delivery, ...notification } = result.rows[0];
+    await this.deliver([{ userId: dto.userId, delivery }], dto);
 
-    return result.rows[0];
+    return notification;
   }
 
   async notifyAccessGranted(userId: string, treeId: string, treeName: string, accessLevel: string): Promise<void> {
@@ -31,6 +92,7 @@ export class NotificationService {
       message: `You have been granted ${accessLevel} access to the family tree "${treeName}"`,
       relatedEntityType: 'tree',
       relatedEntityId: treeId,
+      treeId,
     });
   }
 
@@ -57,78 +119,58 @@ export class NotificationService {
   }
 
   async notifyCommentAdded(treeId: string, entityType: string, entityId: string, commentCreatorId: string): Promise<void> {
-    await query(
-      `INSERT INTO notifications (user_id, notification_type, message, related_entity_type, related_entity_id)
-       SELECT ta.user_id, $1, $2, $3, $4
-       FROM tree_access ta
-       WHERE ta.tree_id = $5 AND ta.user_id != $6`,
-      [
-        NotificationType.COMMENT_ADDED,
-        `A new comment has been added to a ${entityType} in your family tree`,
-        entityType,
-        entityId,
-        treeId,
-        commentCreatorId
-      ]
-    );
+    await this.notifyTreeMembers(treeId, commentCreatorId, {
+      notificationType: NotificationType.COMMENT_ADDED,
+      message: `A new comment has been added to a ${entityType} in your family tree`,
+      relatedEntityType: entityType,
+      relatedEntityId: entityId,
+    });
   }
 
   async notifyNodePublished(treeId: string, nodeId: string, nodeName: string, publisherUserId: string): Promise<void> {
-    await query(
-      `INSERT INTO notifications (user_id, notification_type, message, related_entity_type, related_entity_id)
-       SELECT ta.user_id, $1, $2, $3, $4
-       FROM tree_access ta
-       WHERE ta.tree_id = $5 AND ta.user_id != $6`,
-      [
-        NotificationType.NODE_PUBLISHED,
-        `A new family member "${nodeName}" has been added to your family tree`,
-        'node',
-        nodeId,
-        treeId,
-        publisherUserId
-      ]
-    );
+    await this.notifyTreeMembers(treeId, publisherUserId, {
+      notificationType: NotificationType.NODE_PUBLISHED,
+      message: `A new family member "${nodeName}" has been added to your family tree`,
+      relatedEntityType: 'node',
+      relatedEntityId: nodeId,
+    });
   }
 
   async notifyTimelineEventAdded(treeId: string, eventId: string, eventTitle: string, creatorUserId: string): Promise<void> {
-    await query(
-      `INSERT INTO notifications (user_id, notification_type, message, related_entity_type, related_entity_id)
-       SELECT ta.user_id, $1, $2, $3, $4
-       FROM tree_access ta
-       WHERE ta.tree_id = $5 AND ta.user_id != $6`,
-      [
-        NotificationType.TIMELINE_EVENT_ADDED,
-        `A new timeline event "${eventTitle}" has been added to your family tree`,
-        'event',
-        eventId,
-        treeId,
-        creatorUserId
-      ]
-    );
+    await this.notifyTreeMembers(treeId, creatorUserId, {
+      notificationType: NotificationType.TIMELINE_EVENT_ADDED,
+      message: `A new timeline event "${eventTitle}" has been added to your family tree`,
+      relatedEntityType: 'event',
+      relatedEntityId: eventId,
+    });
   }
 
-  async getNotifications(userId: string, unreadOnly: boolean = false): Promise<Notification[]> {
+  async getNotifications(userId: string, unreadOnly: boolean = false, pageRequest: PageRequest = {}): Promise<Page<Notification>> {
+    const values: unknown[] = [userId];
+    const page = preparePage(pageRequest, NOTIFICATION_PAGINATION, values);
+
     const whereClause = unreadOnly 
       ? 'WHERE user_id = $1 AND is_read = false'
       : 'WHERE user_id = $1';
     
     const result = await query<Notification>(
-      `SELECT notification_id as "notificationId", user_id as "userId", notification_type as "notificationType", message, related_entity_type as "relatedEntityType", related_entity_id as "relatedEntityId", is_read as "isRead", created_at as "createdAt"
+      `SELECT notification_id as "notificationId", user_id as "userId", notification_type as "notificationType", message, related_entity_type as "relatedEntityType", related_entity_id as "relatedEntityId", is_read as "isRead", created_at as "createdAt", ${page.columns}
        FROM notifications
-       ${whereClause}
-       ORDER BY created_at DESC`,
-      [userId]
+       ${whereClause}${page.condition ? ` AND ${page.condition}` : ''}
+       ORDER BY ${page.orderBy}
+       LIMIT ${page.limit}`,
+      values
     );
 
-    return result.rows;
+    return toPage(result.rows, page);
   }
 
-  async getUserNotifications(userId: string): Promise<Notification[]> {
-    return this.getNotifications(userId, false);
+  async getUserNotifications(userId: string, pageRequest?: PageRequest): Promise<Page<Notification>> {
+    return this.getNotifications(userId, false, pageRequest);
   }
 
-  async getUnreadNotifications(userId: string): Promise<Notification[]> {
-    return this.getNotifications(userId, true);
+  async getUnreadNotifications(userId: string, pageRequest?: PageRequest): Promise<Page<Notification>> {
+    return this.getNotifications(userId, true, pageRequest);
   }
 
   async markAsRead(notificationId: string, userId: string): Promise<void> {
@@ -148,4 +190,60 @@ export class NotificationService {
       [userId]
     );
   }
+
+  /**
+   * Notifies everyone with access to the tree except the user who made the change,
+   * each as their preferences for the tree say
+   */
+  private async notifyTreeMembers(treeId: string, actorUserId: string, notification: NotificationContent): Promise<void> {
+    const result = await query<{ userId: string; delivery: NotificationDelivery }>(
+      `WITH recipients AS (
+         SELECT ta.user_id, ${effectiveDeliverySql('ta.user_id', 'ta.tree_id', '$1')} AS delivery
+         FROM tree_access ta
+         WHERE ta.tree_id = $5 AND ta.user_id != $6
+       ),
+       digested AS (
+         INSERT INTO notification_digest_items (user_id, tree_id, frequency, notification_type, message, related_entity_type, related_entity_id)
+         SELECT user_id, $5, ${DIGEST_FREQUENCY}, $1, $2, $3, $4
+         FROM recipients WHERE ${DIGEST_FREQUENCY} IS NOT NULL
+       ),
+       inserted AS (
+         INSERT INTO notifications (user_id, notification_type, message, related_entity_type, related_entity_id)
+         SELECT user_id, $1, $2, $3, $4
+         FROM recipients WHERE delivery IN ${IN_APP_DELIVERIES}
+         RETURNING user_id
+       )
+       SELECT recipients.user_id as "userId", recipients.delivery
+       FROM recipients JOIN inserted ON inserted.user_id = recipients.user_id`,
+      [
+        notification.notificationType,
+        notification.message,
+        notification.relatedEntityType,
+        notification.relatedEntityId,
+        treeId,
+        actorUserId
+      ]
+    );
+    await this.deliver(result.rows, notification);
+  }
+
+  /**
+   * Reaches the recipients of stored notifications outside the list: open apps
+   * live, and the devices of those who want push
+   */
+  private async deliver(recipients: { userId: string; delivery: NotificationDelivery }[], notification: NotificationContent): Promise<void> {
+    this.realtimeService.notifyUsers(recipients.map(recipient => recipient.userId));
+    await this.pushService.sendToUsers(
+      recipients.filter(recipient => recipient.delivery === NotificationDelivery.PUSH).map(recipient => recipient.userId),
+      {
+        title: PUSH_TITLES[notification.notificationType],
+        body: notification.message,
+        data: {
+          notificationType: notification.notificationType,
+          relatedEntityType: notification.relatedEntityType ?? null,
+          relatedEntityId: notification.relatedEntityId ?? null,
+        },
+      }
+    );
+  }
 }
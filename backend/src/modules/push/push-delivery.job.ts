@@ -0,0 +1,29 @@
+import { createLogger } from '../../common/logger';
+import { PushService } from './push.service';
+
+const logger = createLogger('push-delivery');
+
+const DELIVERY_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Retries failed push deliveries every minute and clears out old finished
+ * ones. The timer does not keep the process alive on shutdown.
+ */
+export function startPushDeliveryJob(pushService: PushService = new PushService()): NodeJS.Timeout {
+  const run = async (): Promise<void> => {
+    try {
+      const attempted = await pushService.deliverDue();
+      const purged = await pushService.purgeFinished();
+      if (attempted > 0 || purged > 0) {
+        logger.info({ attempted, purged }, 'Processed push deliveries');
+      }
+    } catch (error) {
+      logger.error({ err: error }, 'Push delivery run failed');
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, DELIVERY_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,88 @@
+import { ExpoPushProvider, LocalPushProvider } from './push.provider';
+
+describe('ExpoPushProvider', () => {
+  const mockFetch = jest.fn();
+  const originalFetch = global.fetch;
+  let provider: ExpoPushProvider;
+
+  const message = (to: string) => ({ to, title: 'New comment', body: 'Hello' });
+
+  const respond = (data: unknown[], status = 200) => {
+    mockFetch.mockResolvedValueOnce({ ok: status < 400, status, json: async () => ({ data }) });
+  };
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    global.fetch = mockFetch as unknown as typeof fetch;
+    provider = new ExpoPushProvider('expo-token');
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should map each ticket to a result', async () => {
+    respond([
+      { status: 'ok', id: 'ticket1' },
+      { status: 'error', message: 'Not registered', details: { error: 'DeviceNotRegistered' } },
+      { status: 'error', message: 'Too many', details: { error: 'MessageRateExceeded' } },
+    ]);
+
+    const results = await provider.send([
+      message('ExponentPushToken[a]'),
+      message('ExponentPushToken[b]'),
+      message('ExponentPushToken[c]'),
+    ]);
+
+    expect(results).toEqual([
+      { status: 'sent' },
+      { status: 'unregistered', error: 'DeviceNotRegistered' },
+      { status: 'failed', error: 'MessageRateExceeded' },
+    ]);
+    expect(mockFetch).toHaveBeenCalledWith('https://exp.host/--/api/v2/push/send', expect.objectContaining({
+      method: 'POST',
+      headers: expect.objectContaining({ Authorization: 'Bearer expo-token' }),
+    }));
+  });
+
+  it('should reject tokens that are not Expo tokens without sending them', async () => {
+    respond([{ status: 'ok', id: 'ticket1' }]);
+
+    const results = await provider.send([message('not-a-token'), message('ExpoPushToken[a]')]);
+
+    expect(results).toEqual([
+      { status: 'unregistered', error: 'Not an Expo push token' },
+      { status: 'sent' },
+    ]);
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toHaveLength(1);
+  });
+
+  it('should fail the whole batch when the request fails', async () => {
+    respond([], 503);
+
+    const results = await provider.send([message('ExponentPushToken[a]')]);
+
+    expect(results).toEqual([{ status: 'failed', error: 'Expo push service responded with 503' }]);
+  });
+
+  it('should send in batches of 100', async () => {
+    respond(Array.from({ length: 100 }, () => ({ status: 'ok' })));
+    respond([{ status: 'ok' }]);
+
+    const results = await provider.send(Array.from({ length: 101 }, (_, i) => message(`ExponentPushToken[${i}]`)));
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(results).toHaveLength(101);
+  });
+});
+
+describe('LocalPushProvider', () => {
+  it('should keep messages instead of sending them', async () => {
+    const provider = new LocalPushProvider();
+
+    const results = await provider.send([{ to: 'token', title: 'Hi', body: 'There' }]);
+
+    expect(results).toEqual([{ status: 'sent' }]);
+    expect(provider.sent).toEqual([{ to: 'token', title: 'Hi', body: 'There' }]);
+  });
+});
@@ -0,0 +1,120 @@
+import { createLogger } from '../../common/logger';
+
+const logger = createLogger('push-provider');
+
+export interface PushMessage {
+  to: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * What happened to one message. `failed` is worth retrying; `unregistered`
+ * means the token is dead and its device should be dropped.
+ */
+export type PushResult =
+  | { status: 'sent' }
+  | { status: 'failed'; error: string }
+  | { status: 'unregistered'; error: string };
+
+export interface PushProvider {
+  readonly name: string;
+  /** Sends the messages and returns one result per message, in order */
+  send(messages: PushMessage[]): Promise<PushResult[]>;
+}
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+const EXPO_BATCH_SIZE = 100;
+const EXPO_TOKEN_PATTERN = /^Expo(nent)?PushToken\[.+\]$/;
+const NOT_AN_EXPO_TOKEN: PushResult = { status: 'unregistered', error: 'Not an Expo push token' };
+
+interface ExpoTicket {
+  status: 'ok' | 'error';
+  message?: string;
+  details?: { error?: string };
+}
+
+export class ExpoPushProvider implements PushProvider {
+  readonly name = 'expo';
+
+  constructor(private accessToken: string | undefined = process.env.EXPO_ACCESS_TOKEN) {}
+
+  async send(messages: PushMessage[]): Promise<PushResult[]> {
+    const results: PushResult[] = [];
+    for (let start = 0; start < messages.length; start += EXPO_BATCH_SIZE) {
+      results.push(...await this.sendBatch(messages.slice(start, start + EXPO_BATCH_SIZE)));
+    }
+    return results;
+  }
+
+  private async sendBatch(messages: PushMessage[]): Promise<PushResult[]> {
+    const valid = messages.filter(message => EXPO_TOKEN_PATTERN.test(message.to));
+    let tickets: ExpoTicket[] = [];
+
+    if (valid.length > 0) {
+      try {
+        tickets = await this.post(valid);
+      } catch (error) {
+        logger.warn({ err: error, count: valid.length }, 'Expo push request failed');
+        const failure: PushResult = { status: 'failed', error: (error as Error).message };
+        return messages.map(message => (EXPO_TOKEN_PATTERN.test(message.to) ? failure : NOT_AN_EXPO_TOKEN));
+      }
+    }
+
+    let ticketIndex = 0;
+    return messages.map((message): PushResult => {
+      if (!EXPO_TOKEN_PATTERN.test(message.to)) return NOT_AN_EXPO_TOKEN;
+
+      const ticket = tickets[ticketIndex++];
+      if (ticket?.status === 'ok') return { status: 'sent' };
+
+      const error = ticket?.details?.error || ticket?.message || 'No ticket returned';
+      return ticket?.details?.error === 'DeviceNotRegistered'
+        ? { status: 'unregistered', error }
+        : { status: 'failed', error };
+    });
+  }
+
+  private async post(messages: PushMessage[]): Promise<ExpoTicket[]> {
+    const response = await fetch(EXPO_PUSH_URL, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        ...(this.accessToken ? { Authorization: `Bearer ${this.accessToken}` } : {}),
+      },
+      body: JSON.stringify(messages.map(message => ({ ...message, sound: 'default' }))),
+    });
+    if (!response.ok) {
+      throw new Error(`Expo push service responded with ${response.status}`);
+    }
+    return ((await response.json()) as { data: ExpoTicket[] }).data;
+  }
+}
+
+/** Keeps messages in memory instead of sending them; for tests and local development */
+export class LocalPushProvider implements PushProvider {
+  readonly name = 'local';
+  readonly sent: PushMessage[] = [];
+
+  async send(messages: PushMessage[]): Promise<PushResult[]> {
+    this.sent.push(...messages);
+    messages.forEach(message => logger.debug({ to: message.to, title: message.title }, 'Push message kept locally'));
+    return messages.map(() => ({ status: 'sent' }));
+  }
+}
+
+let provider: PushProvider | null = null;
+
+/**
+ * The provider picked by PUSH_PROVIDER: `expo`, or `local` to keep messages in
+ * memory. Defaults to expo, except under test.
+ */
+export function getPushProvider(): PushProvider {
+  if (!provider) {
+    const name = process.env.PUSH_PROVIDER || (process.env.NODE_ENV === 'test' ? 'local' : 'expo');
+    provider = name === 'local' ? new LocalPushProvider() : new ExpoPushProvider();
+  }
+  return provider;
+}
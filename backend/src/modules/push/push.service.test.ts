@@ -0,0 +1,150 @@
+const mockQuery = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  query: (...args: unknown[]) => mockQuery(...args),
+}));
+
+import { PushService, MAX_PUSH_ATTEMPTS } from './push.service';
+import { PushProvider } from './push.provider';
+
+describe('PushService', () => {
+  let service: PushService;
+  let provider: { name: string; send: jest.Mock };
+
+  const delivery = (overrides: Record<string, unknown> = {}) => ({
+    deliveryId: 'delivery1',
+    deviceId: 'device1',
+    pushToken: 'ExponentPushToken[abc]',
+    title: 'New comment',
+    body: 'A new comment has been added',
+    data: { notificationType: 'comment_added' },
+    attempts: 1,
+    ...overrides,
+  });
+
+  const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    provider = { name: 'test', send: jest.fn() };
+    service = new PushService(provider as PushProvider);
+  });
+
+  describe('sendToUsers', () => {
+    it('should queue a delivery per device and send it straight away', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ deliveryId: 'delivery1' }] })
+        .mockResolvedValueOnce({ rows: [delivery()] })
+        .mockResolvedValueOnce({ rowCount: 1 });
+      provider.send.mockResolvedValueOnce([{ status: 'sent' }]);
+
+      await service.sendToUsers(['user1', 'user1'], { title: 'New comment', body: 'A new comment has been added' });
+      await flushPromises();
+
+      expect(mockQuery).toHaveBeenNthCalledWith(1,
+        expect.stringContaining('INSERT INTO push_deliveries'),
+        [['user1'], 'New comment', 'A new comment has been added', '{}']
+      );
+      expect(mockQuery).toHaveBeenNthCalledWith(2,
+        expect.stringContaining('FOR UPDATE SKIP LOCKED'),
+        expect.arrayContaining([['delivery1']])
+      );
+      expect(provider.send).toHaveBeenCalledWith([{
+        to: 'ExponentPushToken[abc]',
+        title: 'New comment',
+        body: 'A new comment has been added',
+        data: { notificationType: 'comment_added' },
+      }]);
+      expect(mockQuery).toHaveBeenLastCalledWith(expect.stringContaining("status = 'sent'"), [['delivery1']]);
+    });
+
+    it('should not send anything when the users have no devices', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await service.sendToUsers(['user1'], { title: 'Access granted', body: 'Welcome' });
+      await flushPromises();
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(provider.send).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when the delivery cannot be queued', async () => {
+      mockQuery.mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(service.sendToUsers(['user1'], { title: 'Access granted', body: 'Welcome' })).resolves.toBeUndefined();
+    });
+
+    it('should skip the query when there are no recipients', async () => {
+      await service.sendToUsers([], { title: 'New comment', body: 'Hello' });
+
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deliverDue', () => {
+    it('should leave a failed delivery pending for a retry', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [delivery({ attempts: 2 })] })
+        .mockResolvedValueOnce({ rowCount: 1 });
+      provider.send.mockResolvedValueOnce([{ status: 'failed', error: 'MessageRateExceeded' }]);
+
+      const attempted = await service.deliverDue();
+
+      expect(attempted).toBe(1);
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('UPDATE push_deliveries SET status = $2'),
+        ['delivery1', 'pending', 'MessageRateExceeded']
+      );
+    });
+
+    it('should give up after the last attempt', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [delivery({ attempts: MAX_PUSH_ATTEMPTS })] })
+        .mockResolvedValueOnce({ rowCount: 1 });
+      provider.send.mockRejectedValueOnce(new Error('socket hang up'));
+
+      await service.deliverDue();
+
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('UPDATE push_deliveries SET status = $2'),
+        ['delivery1', 'failed', 'socket hang up']
+      );
+    });
+
+    it('should prune devices whose tokens are no longer registered', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [delivery(), delivery({ deliveryId: 'delivery2', deviceId: 'device2' })] })
+        .mockResolvedValueOnce({ rowCount: 1 })
+        .mockResolvedValueOnce({ rowCount: 1 });
+      provider.send.mockResolvedValueOnce([
+        { status: 'sent' },
+        { status: 'unregistered', error: 'DeviceNotRegistered' },
+      ]);
+
+      await service.deliverDue();
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining("status = 'sent'"), [['delivery1']]);
+      expect(mockQuery).toHaveBeenLastCalledWith('DELETE FROM devices WHERE device_id = ANY($1::uuid[])', [['device2']]);
+    });
+
+    it('should do nothing when no deliveries are due', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      const attempted = await service.deliverDue();
+
+      expect(attempted).toBe(0);
+      expect(provider.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeFinished', () => {
+    it('should delete old sent and failed deliveries', async () => {
+      mockQuery.mockResolvedValueOnce({ rowCount: 3 });
+
+      const purged = await service.purgeFinished();
+
+      expect(purged).toBe(3);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining("status IN ('sent', 'failed')"), [7]);
+    });
+  });
+});
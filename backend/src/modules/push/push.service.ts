@@ -0,0 +1,162 @@
+import { query } from '../../config/database';
+import { createLogger } from '../../common/logger';
+import { PushProvider, PushResult, getPushProvider } from './push.provider';
+
+const logger = createLogger('push');
+
+export const MAX_PUSH_ATTEMPTS = 5;
+const RETRY_BASE_SECONDS = 60;
+const DELIVERY_BATCH_SIZE = 500;
+const FINISHED_DELIVERY_RETENTION_DAYS = 7;
+
+export interface PushNotification {
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+interface ClaimedDelivery {
+  deliveryId: string;
+  deviceId: string;
+  pushToken: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  attempts: number;
+}
+
+export class PushService {
+  private provider: PushProvider;
+
+  constructor(provider: PushProvider = getPushProvider()) {
+    this.provider = provider;
+  }
+
+  /**
+   * Queues the notification for every device of the users and starts sending it.
+   * Push is best effort: failures are logged and retried, never thrown.
+   */
+  async sendToUsers(userIds: string[], notification: PushNotification): Promise<void> {
+    if (userIds.length === 0) return;
+
+    try {
+      const result = await query<{ deliveryId: string }>(
+        `INSERT INTO push_deliveries (device_id, title, body, data)
+         SELECT device_id, $2, $3, $4
+         FROM devices
+         WHERE user_id = ANY($1::uuid[])
+         RETURNING delivery_id as "deliveryId"`,
+        [[...new Set(userIds)], notification.title, notification.body, JSON.stringify(notification.data ?? {})]
+      );
+      const deliveryIds = result.rows.map(row => row.deliveryId);
+      if (deliveryIds.length === 0) return;
+
+      this.deliver(deliveryIds).catch(error => {
+        logger.error({ err: error, count: deliveryIds.length }, 'Push delivery failed');
+      });
+    } catch (error) {
+      logger.error({ err: error, userIds }, 'Failed to queue push notification');
+    }
+  }
+
+  /** Sends queued deliveries that are due, including retries; returns how many were attempted */
+  async deliverDue(): Promise<number> {
+    let attempted = 0;
+    let claimed: number;
+    do {
+      claimed = await this.deliver();
+      attempted += claimed;
+    } while (claimed === DELIVERY_BATCH_SIZE);
+    return attempted;
+  }
+
+  /** Drops sent and given-up deliveries once they are old enough to be of no use */
+  async purgeFinished(): Promise<number> {
+    const result = await query(
+      `DELETE FROM push_deliveries
+       WHERE status IN ('sent', 'failed') AND created_at < NOW() - make_interval(days => $1)`,
+      [FINISHED_DELIVERY_RETENTION_DAYS]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Claims a batch of due deliveries (the given ones, or any) and sends them.
+   * Claiming schedules the next attempt up front, so a crash mid-send still retries.
+   */
+  private async deliver(deliveryIds?: string[]): Promise<number> {
+    const values: unknown[] = [RETRY_BASE_SECONDS, DELIVERY_BATCH_SIZE];
+    if (deliveryIds) values.push(deliveryIds);
+
+    const claimed = await query<ClaimedDelivery>(
+      `UPDATE push_deliveries pd
+       SET attempts = pd.attempts + 1,
+           next_attempt_at = NOW() + make_interval(secs => $1 * power(2, pd.attempts))
+       FROM devices d
+       WHERE d.device_id = pd.device_id
+         AND pd.delivery_id IN (
+           SELECT delivery_id FROM push_deliveries
+           WHERE status = 'pending' AND next_attempt_at <= NOW()${deliveryIds ? ' AND delivery_id = ANY($3::uuid[])' : ''}
+           ORDER BY next_attempt_at
+           LIMIT $2
+           FOR UPDATE SKIP LOCKED
+         )
+       RETURNING pd.delivery_id as "deliveryId", pd.device_id as "deviceId", d.push_token as "pushToken",
+                 pd.title, pd.body, pd.data, pd.attempts`,
+      values
+    );
+    const deliveries = claimed.rows;
+    if (deliveries.length === 0) return 0;
+
+    let results: PushResult[];
+    try {
+      results = await this.provider.send(deliveries.map(delivery => ({
+        to: delivery.pushToken,
+        title: delivery.title,
+        body: delivery.body,
+        data: delivery.data,
+      })));
+    } catch (error) {
+      results = deliveries.map(() => ({ status: 'failed', error: (error as Error).message }));
+    }
+
+    await this.recordResults(deliveries, results);
+    return deliveries.length;
+  }
+
+  private async recordResults(deliveries: ClaimedDelivery[], results: PushResult[]): Promise<void> {
+    const sent: string[] = [];
+    const deadDevices = new Set<string>();
+
+    for (const [index, delivery] of deliveries.entries()) {
+      const result = results[index] ?? { status: 'failed', error: 'No result from push provider' };
+      if (result.status === 'sent') {
+        sent.push(delivery.deliveryId);
+      } else if (result.status === 'unregistered') {
+        deadDevices.add(delivery.deviceId);
+      } else {
+        const givingUp = delivery.attempts >= MAX_PUSH_ATTEMPTS;
+        await query(
+          `UPDATE push_deliveries SET status = $2, last_error = $3 WHERE delivery_id = $1`,
+          [delivery.deliveryId, givingUp ? 'failed' : 'pending', result.error]
+        );
+        if (givingUp) {
+          logger.warn({ deliveryId: delivery.deliveryId, error: result.error }, 'Giving up on push delivery');
+        }
+      }
+    }
+
+    if (sent.length > 0) {
+      await query(
+        `UPDATE push_deliveries SET status = 'sent', sent_at = NOW(), last_error = NULL WHERE delivery_id = ANY($1::uuid[])`,
+        [sent]
+      );
+    }
+
+    // Their pending deliveries go with them
+    if (deadDevices.size > 0) {
+      await query('DELETE FROM devices WHERE device_id = ANY($1::uuid[])', [[...deadDevices]]);
+      logger.info({ count: deadDevices.size, provider: this.provider.name }, 'Pruned unregistered devices');
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { Response, NextFunction } from 'express';
+import { RealtimeService } from './realtime.service';
+import { AuthRequest } from '../../common/middleware/auth.middleware';
+
+// Keeps proxies and load balancers from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+const STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  // no-transform keeps the compression middleware from buffering events
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  'X-Accel-Buffering': 'no',
+};
+
+export class RealtimeController {
+  constructor(private realtimeService: RealtimeService) {}
+
+  /**
+   * Server-sent events stream: `notification` for the user, plus `change` and
+   * `presence` for the tree given as ?treeId=. Ends with `closed` if access goes.
+   */
+  async stream(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const treeId = (req.query.treeId as string | undefined) || null;
+      let heartbeat: ReturnType<typeof setInterval> | undefined;
+      let disconnect: (() => void) | undefined;
+      let closed = false;
+
+      // Listen before connecting: the client may leave while access is checked
+      req.on('close', () => {
+        closed = true;
+        clearInterval(heartbeat);
+        disconnect?.();
+      });
+
+      // Headers wait until access is confirmed so a refusal can still be a 403
+      const open = () => {
+        if (!res.headersSent) res.writeHead(200, STREAM_HEADERS);
+      };
+
+      disconnect = await this.realtimeService.connect(req.userId!, treeId, {
+        send: (event, data) => {
+          open();
+          res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        },
+        close: () => {
+          clearInterval(heartbeat);
+          res.end();
+        },
+      }, req.sessionId ?? null);
+
+      if (closed) {
+        disconnect();
+        return;
+      }
+
+      open();
+      heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,200 @@
+import { AccessLevel, AuditAction, AuditEntityType } from '../../database/interfaces';
+
+const mockQuery = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  query: (...args: unknown[]) => mockQuery(...args),
+}));
+
+import { RealtimeService } from './realtime.service';
+
+describe('RealtimeService', () => {
+  let service: RealtimeService;
+  let disconnects: Array<() => void>;
+
+  const createClient = () => ({ send: jest.fn(), close: jest.fn() });
+
+  // Access check, then the display name lookup
+  const allowConnect = (userId: string, displayName: string) => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ treeId: 'tree1', userId, accessLevel: AccessLevel.EDITOR }] })
+      .mockResolvedValueOnce({ rows: [{ displayName }] });
+  };
+
+  const connect = async (userId: string, displayName: string, treeId: string | null = 'tree1') => {
+    const client = createClient();
+    if (treeId) {
+      allowConnect(userId, displayName);
+    } else {
+      mockQuery.mockResolvedValueOnce({ rows: [{ displayName }] });
+    }
+    disconnects.push(await service.connect(userId, treeId, client));
+    return client;
+  };
+
+  const eventsSent = (client: ReturnType<typeof createClient>, event: string) =>
+    client.send.mock.calls.filter(([name]) => name === event).map(([, data]) => data);
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    service = new RealtimeService();
+    disconnects = [];
+  });
+
+  afterEach(() => {
+    disconnects.forEach(disconnect => disconnect());
+  });
+
+  describe('connect', () => {
+    it('should refuse a tree the user cannot access', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await expect(service.connect('user1', 'tree1', createClient())).rejects.toThrow('Access denied');
+      expect(service.getViewers('tree1')).toEqual([]);
+    });
+
+    it('should tell everyone viewing the tree who joined and who left', async () => {
+      const priya = await connect('user1', 'Priya');
+      const sam = await connect('user2', 'Sam');
+
+      expect(eventsSent(priya, 'presence').pop()).toEqual({
+        treeId: 'tree1',
+        viewers: [{ userId: 'user1', displayName: 'Priya' }, { userId: 'user2', displayName: 'Sam' }],
+      });
+
+      disconnects.pop()!();
+
+      expect(eventsSent(priya, 'presence').pop()).toEqual({
+        treeId: 'tree1',
+        viewers: [{ userId: 'user1', displayName: 'Priya' }],
+      });
+      expect(eventsSent(sam, 'presence')).toHaveLength(1);
+    });
+
+    it('should list a user on two devices once', async () => {
+      await connect('user1', 'Priya');
+      await connect('user1', 'Priya');
+
+      expect(service.getViewers('tree1')).toEqual([{ userId: 'user1', displayName: 'Priya' }]);
+    });
+  });
+
+  describe('publishChange', () => {
+    it('should send changes to clients viewing that tree only', async () => {
+      const viewer = await connect('user1', 'Priya');
+      const elsewhere = await connect('user2', 'Sam', null);
+
+      service.publishChange({
+        treeId: 'tree1',
+        entityType: AuditEntityType.NODE,
+        entityId: 'node1',
+        action: AuditAction.UPDATE,
+        actorUserId: 'user3',
+      });
+
+      expect(eventsSent(viewer, 'change')).toEqual([{
+        treeId: 'tree1',
+        entityType: AuditEntityType.NODE,
+        entityId: 'node1',
+        action: AuditAction.UPDATE,
+        actorUserId: 'user3',
+      }]);
+      expect(eventsSent(elsewhere, 'change')).toEqual([]);
+    });
+
+    it('should keep changes with visibleTo to that user', async () => {
+      const creator = await connect('user1', 'Priya');
+      const other = await connect('user2', 'Sam');
+
+      service.publishChange({
+        treeId: 'tree1',
+        entityType: AuditEntityType.NODE,
+        entityId: 'draft1',
+        action: AuditAction.CREATE,
+        actorUserId: 'user1',
+        visibleTo: 'user1',
+      });
+
+      expect(eventsSent(creator, 'change')).toHaveLength(1);
+      expect(eventsSent(creator, 'change')[0]).not.toHaveProperty('visibleTo');
+      expect(eventsSent(other, 'change')).toEqual([]);
+    });
+
+    it('should keep going when one client fails', async () => {
+      const broken = await connect('user1', 'Priya');
+      const healthy = await connect('user2', 'Sam');
+      broken.send.mockImplementation(() => { throw new Error('socket closed'); });
+
+      service.publishChange({
+        treeId: 'tree1',
+        entityType: AuditEntityType.EVENT,
+        entityId: 'event1',
+        action: AuditAction.DELETE,
+        actorUserId: 'user1',
+      });
+
+      expect(eventsSent(healthy, 'change')).toHaveLength(1);
+    });
+  });
+
+  describe('notifyUsers', () => {
+    it('should ping every connection of the recipients', async () => {
+      const recipient = await connect('user1', 'Priya', null);
+      const bystander = await connect('user2', 'Sam', null);
+
+      service.notifyUsers(['user1']);
+
+      expect(eventsSent(recipient, 'notification')).toHaveLength(1);
+      expect(eventsSent(bystander, 'notification')).toEqual([]);
+    });
+  });
+
+  describe('disconnectUser', () => {
+    it('should close the user\'s tree connections and update presence', async () => {
+      const owner = await connect('user1', 'Priya');
+      const revoked = await connect('user2', 'Sam');
+      const notifications = await connect('user2', 'Sam', null);
+
+      service.disconnectUser('tree1', 'user2');
+
+      expect(eventsSent(revoked, 'closed')).toEqual([{ reason: 'access_revoked' }]);
+      expect(revoked.close).toHaveBeenCalled();
+      expect(notifications.close).not.toHaveBeenCalled();
+      expect(eventsSent(owner, 'presence').pop()).toEqual({
+        treeId: 'tree1',
+        viewers: [{ userId: 'user1', displayName: 'Priya' }],
+      });
+    });
+  });
+
+  describe('disconnectSessions', () => {
+    it('should close only the streams opened with the revoked sessions', async () => {
+      const signedOut = createClient();
+      const stillSignedIn = createClient();
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ displayName: 'Sam' }] })
+        .mockResolvedValueOnce({ rows: [{ displayName: 'Sam' }] });
+      disconnects.push(await service.connect('user2', null, signedOut, 'session1'));
+      disconnects.push(await service.connect('user2', null, stillSignedIn, 'session2'));
+
+      service.disconnectSessions(['session1']);
+
+      expect(eventsSent(signedOut, 'closed')).toEqual([{ reason: 'session_revoked' }]);
+      expect(signedOut.close).toHaveBeenCalled();
+      expect(stillSignedIn.close).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('disconnectTree', () => {
+    it('should close every connection to the tree', async () => {
+      const first = await connect('user1', 'Priya');
+      const second = await connect('user2', 'Sam');
+
+      service.disconnectTree('tree1');
+
+      expect(eventsSent(first, 'closed')).toEqual([{ reason: 'tree_deleted' }]);
+      expect(second.close).toHaveBeenCalled();
+      expect(service.getViewers('tree1')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { query } from '../../config/database';
+import { AuditAction, AuditEntityType } from '../../database/interfaces';
+import { AccessControlService } from '../../common/services/access-control.service';
+import { createLogger } from '../../common/logger';
+
+const logger = createLogger('realtime');
+
+export type LiveEntityType =
+  | AuditEntityType.NODE
+  | AuditEntityType.RELATIONSHIP
+  | AuditEntityType.EVENT
+  | AuditEntityType.COMMENT;
+
+/**
+ * A change to tree content. Only ids travel over the channel; clients refetch
+ * what they show, so the usual access rules still decide what they see.
+ */
+export interface TreeChange {
+  treeId: string;
+  entityType: LiveEntityType;
+  entityId: string;
+  action: AuditAction;
+  actorUserId: string;
+  /** What a comment is attached to */
+  parentEntityType?: string;
+  parentEntityId?: string;
+  /** Limits the change to one user, e.g. edits to a draft only its creator sees */
+  visibleTo?: string;
+}
+
+export interface Viewer {
+  userId: string;
+  displayName: string;
+}
+
+export interface LiveClient {
+  send(event: string, data: unknown): void;
+  close(): void;
+}
+
+interface Connection {
+  userId: string;
+  /** The sign-in the stream was opened with, so revoking it can end the stream */
+  sessionId: string | null;
+  displayName: string;
+  treeId: string | null;
+  client: LiveClient;
+}
+
+// Shared by every RealtimeService instance; each server process fans out its own changes
+const connections = new Set<Connection>();
+
+export class RealtimeService {
+  private accessControl: AccessControlService;
+
+  constructor() {
+    this.accessControl = new AccessControlService();
+  }
+
+  /**
+   * Registers a client for the user's notifications and, with a tree id, that
+   * tree's changes and presence. Returns the function that unregisters it.
+   */
+  async connect(userId: string, treeId: string | null, client: LiveClient, sessionId: string | null = null): Promise<() => void> {
+    if (treeId) {
+      await this.accessControl.checkAccess(treeId, userId);
+    }
+
+    const userResult = await query<{ displayName: string }>(
+      'SELECT display_name as "displayName" FROM users WHERE user_id = $1',
+      [userId]
+    );
+
+    const connection: Connection = {
+      userId,
+      sessionId,
+      displayName: userResult.rows[0]?.displayName ?? '',
+      treeId,
+      client,
+    };
+    connections.add(connection);
+    logger.debug({ userId, treeId, connections: connections.size }, 'Live client connected');
+
+    if (treeId) {
+      this.broadcastPresence(treeId);
+    }
+
+    return () => {
+      if (!connections.delete(connection)) return;
+      logger.debug({ userId, treeId, connections: connections.size }, 'Live client disconnected');
+      if (treeId) {
+        this.broadcastPresence(treeId);
+      }
+    };
+  }
+
+  /** Everyone currently viewing the tree, once per user */
+  getViewers(treeId: string): Viewer[] {
+    const viewers = new Map<string, Viewer>();
+    for (const connection of connections) {
+      if (connection.treeId === treeId && !viewers.has(connection.userId)) {
+        viewers.set(connection.userId, { userId: connection.userId, displayName: connection.displayName });
+      }
+    }
+    return [...viewers.values()];
+  }
+
+  publishChange(change: TreeChange): void {
+    const { visibleTo, ...payload } = change;
+    for (const connection of connections) {
+      if (connection.treeId !== change.treeId) continue;
+      if (visibleTo && connection.userId !== visibleTo) continue;
+      this.send(connection, 'change', payload);
+    }
+  }
+
+  /** Tells the users' clients that they have new notifications */
+  notifyUsers(userIds: string[]): void {
+    const recipients = new Set(userIds);
+    if (recipients.size === 0) return;
+
+    for (const connection of connections) {
+      if (recipients.has(connection.userId)) {
+        this.send(connection, 'notification', {});
+      }
+    }
+  }
+
+  /** Closes a user's tree connections once they lose access to it */
+  disconnectUser(treeId: string, userId: string): void {
+    this.closeWhere(connection => connection.treeId === treeId && connection.userId === userId, 'access_revoked');
+  }
+
+  /** Closes every connection to a tree that has been deleted */
+  disconnectTree(treeId: string): void {
+    this.closeWhere(connection => connection.treeId === treeId, 'tree_deleted');
+  }
+
+  /** Closes the streams opened with sessions that have been signed out */
+  disconnectSessions(sessionIds: string[]): void {
+    const revoked = new Set(sessionIds);
+    this.closeWhere(connection => connection.sessionId !== null && revoked.has(connection.sessionId), 'session_revoked');
+  }
+
+  private closeWhere(predicate: (connection: Connection) => boolean, reason: string): void {
+    const closed = [...connections].filter(predicate);
+    if (closed.length === 0) return;
+
+    for (const connection of closed) {
+      connections.delete(connection);
+      this.send(connection, 'closed', { reason });
+      connection.client.close();
+    }
+    for (const treeId of new Set(closed.map(connection => connection.treeId))) {
+      if (treeId) this.broadcastPresence(treeId);
+    }
+  }
+
+  private broadcastPresence(treeId: string): void {
+    const viewers = this.getViewers(treeId);
+    for (const connection of connections) {
+      if (connection.treeId === treeId) {
+        this.send(connection, 'presence', { treeId, viewers });
+      }
+    }
+  }
+
+  private send(connection: Connection, event: string, data: unknown): void {
+    try {
+      connection.client.send(event, data);
+    } catch (error) {
+      logger.warn({ err: error, userId: connection.userId }, 'Failed to send live update');
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { Response, NextFunction } from 'express';
 import { RelationshipService } from './relationship.service';
 import { AuthRequest } from '../../common/middleware/auth.middleware';
+import { pageRequestFromQuery } from '../../common/utils/pagination';
 import { AppError } from '../../common/errors/app-error';
 
 export class RelationshipController {
@@ -13,6 +14,9 @@ export class RelationshipController {
         nodeId1: req.body.nodeId1,
         nodeId2: req.body.nodeId2,
         relationshipType: req.body.relationshipType,
+        role1: req.body.role1,
+        startDate: req.body.startDate,
+        endDate: req.body.endDate,
         userId: req.userId!,
         publishDraftNodes: req.body.publishDraftNodes,
       });
@@ -24,7 +28,7 @@ export class RelationshipController {
 
   async getRelationships(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
-      const relationships = await this.relationshipService.getRelationships(req.params.treeId, req.userId!);
+      const relationships = await this.relationshipService.getRelationships(req.params.treeId, req.userId!, pageRequestFromQuery(req.query));
       res.json(relationships);
     } catch (error) {
       next(error);
@@ -49,6 +53,18 @@ export class RelationshipController {
     }
   }
 
+  async update(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const relationship = await this.relationshipService.updateRelationship(req.params.relationshipId, req.userId!, {
+        startDate: req.body.startDate,
+        endDate: req.body.endDate,
+      });
+      res.json(relationship);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async delete(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       await this.relationshipService.deleteRelationship(req.params.relationshipId, req.userId!);
@@ -1,13 +1,22 @@
-import { RelationshipType, AccessLevel, NodeStatus } from '../../database/interfaces';
+import { RelationshipType, RelationshipRole, AccessLevel, NodeStatus, AuditAction, AuditEntityType } from '../../database/interfaces';
 
 const mockQuery = jest.fn();
 const mockTransaction = jest.fn();
+const mockRecordAudit = jest.fn();
+const mockRecordAuditMany = jest.fn();
 
 jest.mock('../../config/database', () => ({
   query: (...args: unknown[]) => mockQuery(...args),
   transaction: (callback: (client: unknown) => Promise<unknown>) => mockTransaction(callback),
 }));
 
+jest.mock('../audit/audit.service', () => ({
+  AuditService: jest.fn().mockImplementation(() => ({
+    record: mockRecordAudit,
+    recordMany: mockRecordAuditMany,
+  })),
+}));
+
 import { RelationshipService } from './relationship.service';
 
 describe('RelationshipService', () => {
@@ -22,6 +31,8 @@ describe('RelationshipService', () => {
   beforeEach(() => {
     mockQuery.mockReset();
     mockTransaction.mockReset();
+    mockRecordAudit.mockReset();
+    mockRecordAuditMany.mockReset();
     service = new RelationshipService();
   });
 
@@ -87,6 +98,70 @@ describe('RelationshipService', () => {
       expect(result.draftNodeIds).toHaveLength(0);
     });
 
+    it('should suggest a marriage event when creating a spouse relationship', async () => {
+      const mockClient = {
+        query: jest.fn().mockImplementation((sql: string) => {
+          if (sql.includes('INSERT INTO relationships')) {
+            return {
+              rows: [{
+                relationshipId: testRelationshipId,
+                treeId: testTreeId,
+                nodeId1: testNodeId1,
+                nodeId2: testNodeId2,
+                relationshipType: RelationshipType.SPOUSE,
+                startDate: new Date('1975-06-14'),
+                createdAt: new Date(),
+              }],
+            };
+          }
+          if (sql.includes('"hasMarriage"')) {
+            return {
+              rows: [
+                { nodeId: testNodeId1, firstName: 'John', lastName: 'Doe', autoLifeEvents: true, hasMarriage: false },
+                { nodeId: testNodeId2, firstName: 'Jane', lastName: 'Roe', autoLifeEvents: true, hasMarriage: false },
+              ],
+            };
+          }
+          return { rows: [] };
+        }),
+      };
+      mockTransaction.mockImplementation(async (callback: (client: unknown) => Promise<unknown>) => callback(mockClient));
+
+      mockQuery.mockImplementation((sql: string, params?: unknown[]) => {
+        if (sql.includes('tree_access')) {
+          return { rows: [{ accessLevel: AccessLevel.EDITOR }] };
+        }
+        if (sql.includes('FROM nodes') && sql.includes('IN')) {
+          return {
+            rows: [
+              { nodeId: params?.[0], treeId: testTreeId, status: NodeStatus.PUBLISHED, createdBy: testUserId },
+              { nodeId: params?.[1], treeId: testTreeId, status: NodeStatus.PUBLISHED, createdBy: testUserId },
+            ],
+          };
+        }
+        if (sql.includes('COUNT') && sql.includes('published')) {
+          return { rows: [{ count: '1' }] };
+        }
+        return { rows: [] };
+      });
+
+      const result = await service.createRelationship({
+        treeId: testTreeId,
+        nodeId1: testNodeId1,
+        nodeId2: testNodeId2,
+        relationshipType: RelationshipType.SPOUSE,
+        startDate: '1975-06-14',
+        userId: testUserId,
+      });
+
+      expect(result.suggestedEvent).toEqual({
+        eventType: 'marriage',
+        title: 'Marriage of John Doe and Jane Roe',
+        eventDate: new Date('1975-06-14'),
+        participants: [{ nodeId: testNodeId1 }, { nodeId: testNodeId2 }],
+      });
+    });
+
     it('should return draft node IDs when relationship involves draft nodes and publishDraftNodes is not set', async () => {
       const mockClient = {
         query: jest.fn().mockImplementation((sql: string) => {
@@ -216,6 +291,20 @@ describe('RelationshipService', () => {
         expect.stringContaining('UPDATE nodes'),
         expect.arrayContaining([NodeStatus.PUBLISHED])
       );
+      expect(mockRecordAuditMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          entityType: AuditEntityType.NODE,
+          entityId: testNodeId2,
+          action: AuditAction.UPDATE,
+          before: { status: NodeStatus.DRAFT },
+          after: { status: NodeStatus.PUBLISHED },
+        }),
+        expect.objectContaining({
+          entityType: AuditEntityType.RELATIONSHIP,
+          entityId: testRelationshipId,
+          action: AuditAction.CREATE,
+        }),
+      ], mockClient);
     });
 
     it('should not publish draft nodes when publishDraftNodes is false', async () => {
@@ -452,6 +541,126 @@ describe('RelationshipService', () => {
         })
       ).rejects.toThrow('Edit access required');
     });
+    describe('roles and dates', () => {
+      let mockClient: { query: jest.Mock };
+
+      beforeEach(() => {
+        mockClient = {
+          query: jest.fn().mockImplementation((sql: string, params: unknown[]) => {
+            if (sql.includes('INSERT INTO relationships')) {
+              return { rows: [{ relationshipId: testRelationshipId, nodeId1: params[1], nodeId2: params[2] }] };
+            }
+            return { rows: [] };
+          }),
+        };
+        mockTransaction.mockImplementation(async (callback: (client: unknown) => Promise<unknown>) => callback(mockClient));
+
+        mockQuery.mockImplementation((sql: string, params?: unknown[]) => {
+          if (sql.includes('tree_access')) {
+            return { rows: [{ accessLevel: AccessLevel.EDITOR }] };
+          }
+          if (sql.includes('FROM nodes') && sql.includes('IN')) {
+            return {
+              rows: [
+                { nodeId: params?.[0], treeId: testTreeId, status: NodeStatus.PUBLISHED, createdBy: testUserId },
+                { nodeId: params?.[1], treeId: testTreeId, status: NodeStatus.PUBLISHED, createdBy: testUserId },
+              ],
+            };
+          }
+          if (sql.includes('COUNT') && sql.includes('published')) {
+            return { rows: [{ count: '2' }] };
+          }
+          return { rows: [] };
+        });
+      });
+
+      const insertParams = () => mockClient.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO relationships'))![1];
+
+      it('should default to the first node holding the parent-side role', async () => {
+        await service.createRelationship({
+          treeId: testTreeId,
+          nodeId1: testNodeId1,
+          nodeId2: testNodeId2,
+          relationshipType: RelationshipType.STEP,
+          userId: testUserId,
+        });
+
+        expect(insertParams()).toEqual([
+          testTreeId, testNodeId1, testNodeId2, RelationshipType.STEP,
+          RelationshipRole.STEP_PARENT, RelationshipRole.STEP_CHILD, null, null,
+        ]);
+      });
+
+      it('should store the parent as node 1 when the first node is the child', async () => {
+        const result = await service.createRelationship({
+          treeId: testTreeId,
+          nodeId1: testNodeId1,
+          nodeId2: testNodeId2,
+          relationshipType: RelationshipType.ADOPTED,
+          role1: RelationshipRole.WARD,
+          userId: testUserId,
+        });
+
+        expect(insertParams().slice(1, 6)).toEqual([
+          testNodeId2, testNodeId1, RelationshipType.ADOPTED, RelationshipRole.GUARDIAN, RelationshipRole.WARD,
+        ]);
+        expect(result.relationship.nodeId1).toBe(testNodeId2);
+      });
+
+      it('should store marriage and divorce dates', async () => {
+        await service.createRelationship({
+          treeId: testTreeId,
+          nodeId1: testNodeId1,
+          nodeId2: testNodeId2,
+          relationshipType: RelationshipType.SPOUSE,
+          startDate: '1980-06-01',
+          endDate: '1992-03-15',
+          userId: testUserId,
+        });
+
+        expect(insertParams().slice(6)).toEqual(['1980-06-01', '1992-03-15']);
+      });
+
+      it('should reject a role that does not fit the relationship type', async () => {
+        await expect(
+          service.createRelationship({
+            treeId: testTreeId,
+            nodeId1: testNodeId1,
+            nodeId2: testNodeId2,
+            relationshipType: RelationshipType.PARENT_CHILD,
+            role1: RelationshipRole.GUARDIAN,
+            userId: testUserId,
+          })
+        ).rejects.toThrow('role1 must be one of: parent, child for parent_child relationships');
+      });
+
+      it('should reject an end date before the start date', async () => {
+        await expect(
+          service.createRelationship({
+            treeId: testTreeId,
+            nodeId1: testNodeId1,
+            nodeId2: testNodeId2,
+            relationshipType: RelationshipType.SPOUSE,
+            startDate: '1990-01-01',
+            endDate: '1980-01-01',
+            userId: testUserId,
+          })
+        ).rejects.toMatchObject({ statusCode: 400, message: 'startDate must not be after endDate' });
+      });
+
+      it('should reject malformed dates', async () => {
+        await expect(
+          service.createRelationship({
+            treeId: testTreeId,
+            nodeId1: testNodeId1,
+            nodeId2: testNodeId2,
+            relationshipType: RelationshipType.SPOUSE,
+            startDate: '01/02/1990',
+            userId: testUserId,
+          })
+        ).rejects.toThrow('startDate must be a date in YYYY-MM-DD format');
+      });
+    });
   });
 
   describe('getRelationships', () => {
@@ -494,8 +703,8 @@ describe('RelationshipService', () => {
 
       const result = await service.getRelationships(testTreeId, testUserId);
 
-      expect(result).toHaveLength(2);
-      expect(result[0].relationshipType).toBe(RelationshipType.PARENT_CHILD);
+      expect(result.items).toHaveLength(2);
+      expect(result.items[0].relationshipType).toBe(RelationshipType.PARENT_CHILD);
     });
   });
 
@@ -561,6 +770,67 @@ describe('RelationshipService', () => {
     });
   });
 
+  describe('updateRelationship', () => {
+    const mockExisting = (startDate: string | null, accessLevel = AccessLevel.EDITOR) => {
+      mockQuery.mockImplementation((sql: string, params: unknown[]) => {
+        if (sql.includes('start_date::text')) {
+          return { rows: [{ treeId: testTreeId, startDate, endDate: null }] };
+        }
+        if (sql.includes('tree_access')) {
+          return { rows: [{ accessLevel }] };
+        }
+        if (sql.includes('UPDATE relationships')) {
+          return { rows: [{ relationshipId: testRelationshipId, startDate: params[0], endDate: params[1] }] };
+        }
+        return { rows: [] };
+      });
+    };
+
+    it('should set an end date and keep the existing start date', async () => {
+      mockExisting('1980-06-01');
+
+      const result = await service.updateRelationship(testRelationshipId, testUserId, { endDate: '1992-03-15' });
+
+      const updateCall = mockQuery.mock.calls.find(([sql]) => sql.includes('UPDATE relationships'))!;
+      expect(updateCall[1]).toEqual(['1980-06-01', '1992-03-15', testRelationshipId]);
+      expect(result.endDate).toBe('1992-03-15');
+      expect(mockRecordAudit).toHaveBeenCalledWith({
+        treeId: testTreeId,
+        entityType: AuditEntityType.RELATIONSHIP,
+        entityId: testRelationshipId,
+        action: AuditAction.UPDATE,
+        actorId: testUserId,
+        before: { startDate: '1980-06-01', endDate: null },
+        after: { startDate: '1980-06-01', endDate: '1992-03-15' },
+      });
+    });
+
+    it('should clear a date given an empty string', async () => {
+      mockExisting('1980-06-01');
+
+      await service.updateRelationship(testRelationshipId, testUserId, { startDate: '' });
+
+      const updateCall = mockQuery.mock.calls.find(([sql]) => sql.includes('UPDATE relationships'))!;
+      expect(updateCall[1]).toEqual([null, null, testRelationshipId]);
+    });
+
+    it('should reject an end date before the existing start date', async () => {
+      mockExisting('1980-06-01');
+
+      await expect(
+        service.updateRelationship(testRelationshipId, testUserId, { endDate: '1970-01-01' })
+      ).rejects.toThrow('startDate must not be after endDate');
+    });
+
+    it('should require edit access', async () => {
+      mockExisting(null, AccessLevel.VIEWER);
+
+      await expect(
+        service.updateRelationship(testRelationshipId, testUserId, { endDate: '1992-03-15' })
+      ).rejects.toThrow('Edit access required');
+    });
+  });
+
   describe('deleteRelationship', () => {
     it('should delete relationship with edit access', async () => {
       mockQuery.mockImplementation((sql: string) => {
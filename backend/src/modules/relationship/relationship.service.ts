@@ -1,18 +1,42 @@
 import { query, transaction } from '../../config/database';
-import { Relationship, RelationshipType, NodeStatus } from '../../database/interfaces';
+import { AuditAction, AuditEntityType, Relationship, RelationshipRole, RelationshipType, NodeStatus } from '../../database/interfaces';
 import { AccessControlService } from '../../common/services/access-control.service';
 import { AppError } from '../../common/errors/app-error';
+import { AuditEntry, AuditService } from '../audit/audit.service';
+import { Page, PageRequest, PaginationSpec, preparePage, toPage } from '../../common/utils/pagination';
+import { resolveRoles, validateRelationshipDates } from './relationship.validation';
+import { LifeEventService, SuggestedEvent } from '../timeline/life-event.service';
+import { RealtimeService } from '../realtime/realtime.service';
 import { PoolClient } from 'pg';
 
+const RELATIONSHIP_PAGINATION: PaginationSpec = {
+  sorts: {
+    createdAt: { expression: 'created_at', type: 'timestamptz' },
+  },
+  defaultSort: 'createdAt',
+  idColumn: 'relationship_id',
+};
+
+const RELATIONSHIP_SELECT_FIELDS = `relationship_id as "relationshipId", tree_id as "treeId", node_id_1 as "nodeId1", node_id_2 as "nodeId2", relationship_type as "relationshipType", node_1_role as "node1Role", node_2_role as "node2Role", start_date as "startDate", end_date as "endDate", created_at as "createdAt"`;
+
 interface CreateRelationshipDto {
   treeId: string;
   nodeId1: string;
   nodeId2: string;
   relationshipType: RelationshipType;
+  /** Role of nodeId1; the nodes are swapped when it is the child-side role */
+  role1?: RelationshipRole;
+  startDate?: string | null;
+  endDate?: string | null;
   userId: string;
   publishDraftNodes?: boolean;
 }
 
+interface UpdateRelationshipDto {
+  startDate?: string | null;
+  endDate?: string | null;
+}
+
 interface NodeInfo {
   nodeId: string;
   treeId: string;
@@ -24,18 +48,29 @@ export interface CreateRelationshipResult {
   relationship: Relationship;
   publishedNodeIds: string[];
   draftNodeIds: string[];
+  /** Marriage event the client can offer to create for a new spouse relationship */
+  suggestedEvent: SuggestedEvent | null;
 }
 
 export class RelationshipService {
   private accessControl: AccessControlService;
+  private auditService: AuditService;
+  private lifeEventService: LifeEventService;
+  private realtimeService: RealtimeService;
 
   constructor() {
     this.accessControl = new AccessControlService();
+    this.auditService = new AuditService();
+    this.lifeEventService = new LifeEventService();
+    this.realtimeService = new RealtimeService();
   }
 
   async createRelationship(dto: CreateRelationshipDto): Promise<CreateRelationshipResult> {
     await this.accessControl.requireEditAccess(dto.treeId, dto.userId);
 
+    const roles = resolveRoles(dto.relationshipType, dto.nodeId1, dto.nodeId2, dto.role1);
+    validateRelationshipDates(dto.startDate, dto.endDate);
+
     const nodesResult = await query<NodeInfo>(
       `SELECT node_id as "nodeId", tree_id as "treeId", status, created_by as "createdBy"
        FROM nodes 
@@ -70,7 +105,9 @@ export class RelationshipService {
     const publishedNodeIds: string[] = [];
     const remainingDraftNodeIds: string[] = [];
 
-    return await transaction(async (client: PoolClient) => {
+    const created = await transaction(async (client: PoolClient) => {
+      const auditEntries: AuditEntry[] = [];
+
       if (dto.publishDraftNodes && draftNodes.length > 0) {
         for (const node of draftNodes) {
           if (node.createdBy !== dto.userId) {
@@ -81,6 +118,16 @@ export class RelationshipService {
             [NodeStatus.PUBLISHED, node.nodeId]
           );
           publishedNodeIds.push(node.nodeId);
+          auditEntries.push({
+            treeId: dto.treeId,
+            entityType: AuditEntityType.NODE,
+            entityId: node.nodeId,
+            action: AuditAction.UPDATE,
+            actorId: dto.userId,
+            before: { status: NodeStatus.DRAFT },
+            after: { status: NodeStatus.PUBLISHED },
+          });
+          auditEntries.push(...await this.lifeEventService.syncNodeEvents(client, node.nodeId, dto.userId));
         }
       } else {
         for (const node of draftNodes) {
@@ -89,18 +136,39 @@ export class RelationshipService {
       }
 
       const result = await client.query<Relationship>(
-        `INSERT INTO relationships (tree_id, node_id_1, node_id_2, relationship_type)
-         VALUES ($1, $2, $3, $4)
-         RETURNING relationship_id as "relationshipId", tree_id as "treeId", node_id_1 as "nodeId1", node_id_2 as "nodeId2", relationship_type as "relationshipType", created_at as "createdAt"`,
-        [dto.treeId, dto.nodeId1, dto.nodeId2, dto.relationshipType]
+        `INSERT INTO relationships (tree_id, node_id_1, node_id_2, relationship_type, node_1_role, node_2_role, start_date, end_date)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING ${RELATIONSHIP_SELECT_FIELDS}`,
+        [dto.treeId, roles.nodeId1, roles.nodeId2, dto.relationshipType, roles.node1Role, roles.node2Role, dto.startDate || null, dto.endDate || null]
       );
 
+      const relationship = result.rows[0];
+      auditEntries.push({
+        treeId: dto.treeId,
+        entityType: AuditEntityType.RELATIONSHIP,
+        entityId: relationship.relationshipId,
+        action: AuditAction.CREATE,
+        actorId: dto.userId,
+        after: relationship,
+      });
+      await this.auditService.recordMany(auditEntries, client);
+
       return {
-        relationship: result.rows[0],
+        relationship,
         publishedNodeIds,
         draftNodeIds: remainingDraftNodeIds,
+        suggestedEvent: await this.lifeEventService.suggestMarriageEvent(client, relationship),
       };
     });
+
+    for (const nodeId of publishedNodeIds) {
+      this.publishChange(dto.treeId, AuditEntityType.NODE, nodeId, AuditAction.UPDATE, dto.userId);
+    }
+    // A relationship to someone's draft is only visible to that draft's creator
+    this.publishChange(dto.treeId, AuditEntityType.RELATIONSHIP, created.relationship.relationshipId, AuditAction.CREATE, dto.userId,
+      remainingDraftNodeIds.length > 0 ? dto.userId : undefined);
+
+    return created;
   }
 
   private async isFirstNodeInTree(treeId: string): Promise<boolean> {
@@ -111,17 +179,22 @@ export class RelationshipService {
     return parseInt(result.rows[0].count, 10) === 0;
   }
 
-  async getRelationships(treeId: string, userId: string): Promise<Relationship[]> {
+  async getRelationships(treeId: string, userId: string, pageRequest: PageRequest = {}): Promise<Page<Relationship>> {
     await this.accessControl.checkAccess(treeId, userId);
 
+    const values: unknown[] = [treeId];
+    const page = preparePage(pageRequest, RELATIONSHIP_PAGINATION, values);
+
     const result = await query<Relationship>(
-      `SELECT relationship_id as "relationshipId", tree_id as "treeId", node_id_1 as "nodeId1", node_id_2 as "nodeId2", relationship_type as "relationshipType", created_at as "createdAt"
+      `SELECT ${RELATIONSHIP_SELECT_FIELDS}, ${page.columns}
        FROM relationships 
-       WHERE tree_id = $1`,
-      [treeId]
+       WHERE tree_id = $1${page.condition ? ` AND ${page.condition}` : ''}
+       ORDER BY ${page.orderBy}
+       LIMIT ${page.limit}`,
+      values
     );
 
-    return result.rows;
+    return toPage(result.rows, page);
   }
 
   async getNodeRelationships(nodeId: string, userId: string): Promise<Relationship[]> {
@@ -137,7 +210,7 @@ export class RelationshipService {
     await this.accessControl.checkAccess(nodeResult.rows[0].treeId, userId);
 
     const result = await query<Relationship>(
-      `SELECT relationship_id as "relationshipId", tree_id as "treeId", node_id_1 as "nodeId1", node_id_2 as "nodeId2", relationship_type as "relationshipType", created_at as "createdAt"
+      `SELECT ${RELATIONSHIP_SELECT_FIELDS}
        FROM relationships 
        WHERE node_id_1 = $1 OR node_id_2 = $1`,
       [nodeId]
@@ -148,7 +221,7 @@ export class RelationshipService {
 
   async getRelationshipById(relationshipId: string, userId: string): Promise<Relationship> {
     const result = await query<Relationship>(
-      `SELECT relationship_id as "relationshipId", tree_id as "treeId", node_id_1 as "nodeId1", node_id_2 as "nodeId2", relationship_type as "relationshipType", created_at as "createdAt"
+      `SELECT ${RELATIONSHIP_SELECT_FIELDS}
        FROM relationships 
        WHERE relationship_id = $1`,
       [relationshipId]
@@ -164,9 +237,48 @@ export class RelationshipService {
     return relationship;
   }
 
+  async updateRelationship(relationshipId: string, userId: string, dto: UpdateRelationshipDto): Promise<Relationship> {
+    const existing = await query<{ treeId: string; startDate: string | null; endDate: string | null }>(
+      `SELECT tree_id as "treeId", start_date::text as "startDate", end_date::text as "endDate"
+       FROM relationships 
+       WHERE relationship_id = $1`,
+      [relationshipId]
+    );
+
+    if (existing.rows.length === 0) {
+      throw new AppError('Relationship not found', 404);
+    }
+
+    await this.accessControl.requireEditAccess(existing.rows[0].treeId, userId);
+
+    const startDate = dto.startDate !== undefined ? dto.startDate || null : existing.rows[0].startDate;
+    const endDate = dto.endDate !== undefined ? dto.endDate || null : existing.rows[0].endDate;
+    validateRelationshipDates(startDate, endDate);
+
+    const result = await query<Relationship>(
+      `UPDATE relationships SET start_date = $1, end_date = $2
+       WHERE relationship_id = $3
+       RETURNING ${RELATIONSHIP_SELECT_FIELDS}`,
+      [startDate, endDate, relationshipId]
+    );
+
+    await this.auditService.record({
+      treeId: existing.rows[0].treeId,
+      entityType: AuditEntityType.RELATIONSHIP,
+      entityId: relationshipId,
+      action: AuditAction.UPDATE,
+      actorId: userId,
+      before: { startDate: existing.rows[0].startDate, endDate: existing.rows[0].endDate },
+      after: { startDate, endDate },
+    });
+    this.publishChange(existing.rows[0].treeId, AuditEntityType.RELATIONSHIP, relationshipId, AuditAction.UPDATE, userId);
+
+    return result.rows[0];
+  }
+
   async deleteRelationship(relationshipId: string, userId: string): Promise<void> {
     const result = await query<Relationship>(
-      `SELECT relationship_id as "relationshipId", tree_id as "treeId" 
+      `SELECT ${RELATIONSHIP_SELECT_FIELDS}
        FROM relationships 
        WHERE relationship_id = $1`,
       [relationshipId]
@@ -176,8 +288,29 @@ export class RelationshipService {
       throw new AppError('Relationship not found', 404);
     }
 
-    await this.accessControl.requireEditAccess(result.rows[0].treeId, userId);
+    const relationship = result.rows[0];
+    await this.accessControl.requireEditAccess(relationship.treeId, userId);
 
     await query('DELETE FROM relationships WHERE relationship_id = $1', [relationshipId]);
+    await this.auditService.record({
+      treeId: relationship.treeId,
+      entityType: AuditEntityType.RELATIONSHIP,
+      entityId: relationshipId,
+      action: AuditAction.DELETE,
+      actorId: userId,
+      before: relationship,
+    });
+    this.publishChange(relationship.treeId, AuditEntityType.RELATIONSHIP, relationshipId, AuditAction.DELETE, userId);
+  }
+
+  private publishChange(
+    treeId: string,
+    entityType: AuditEntityType.NODE | AuditEntityType.RELATIONSHIP,
+    entityId: string,
+    action: AuditAction,
+    userId: string,
+    visibleTo?: string
+  ): void {
+    this.realtimeService.publishChange({ treeId, entityType, entityId, action, actorUserId: userId, visibleTo });
   }
 }
@@ -0,0 +1,63 @@
+import { RelationshipRole, RelationshipType } from '../../database/interfaces';
+import { AppError } from '../../common/errors/app-error';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Roles for each relationship type as [node 1, node 2]. Directional types always
+ * store the parent, guardian or step-parent as node 1.
+ */
+export const RELATIONSHIP_ROLES: Record<RelationshipType, [RelationshipRole, RelationshipRole]> = {
+  [RelationshipType.PARENT_CHILD]: [RelationshipRole.PARENT, RelationshipRole.CHILD],
+  [RelationshipType.ADOPTED]: [RelationshipRole.GUARDIAN, RelationshipRole.WARD],
+  [RelationshipType.STEP]: [RelationshipRole.STEP_PARENT, RelationshipRole.STEP_CHILD],
+  [RelationshipType.SPOUSE]: [RelationshipRole.SPOUSE, RelationshipRole.SPOUSE],
+  [RelationshipType.SIBLING]: [RelationshipRole.SIBLING, RelationshipRole.SIBLING],
+};
+
+export interface ResolvedRoles {
+  nodeId1: string;
+  nodeId2: string;
+  node1Role: RelationshipRole;
+  node2Role: RelationshipRole;
+}
+
+/**
+ * Puts two nodes in stored order for a relationship type. `role1` is the role the
+ * caller gave the first node; when omitted the first node takes the parent-side role,
+ * which is how relationships were ordered before roles existed.
+ */
+export function resolveRoles(
+  relationshipType: RelationshipType,
+  nodeId1: string,
+  nodeId2: string,
+  role1?: RelationshipRole
+): ResolvedRoles {
+  const [senior, junior] = RELATIONSHIP_ROLES[relationshipType];
+
+  if (role1 === undefined || role1 === senior) {
+    return { nodeId1, nodeId2, node1Role: senior, node2Role: junior };
+  }
+  if (role1 === junior) {
+    return { nodeId1: nodeId2, nodeId2: nodeId1, node1Role: senior, node2Role: junior };
+  }
+
+  const allowed = senior === junior ? senior : `${senior}, ${junior}`;
+  throw new AppError(`role1 must be one of: ${allowed} for ${relationshipType} relationships`, 400);
+}
+
+/**
+ * Checks optional start and end dates, e.g. a marriage and a divorce. Empty strings
+ * clear a date.
+ */
+export function validateRelationshipDates(startDate?: string | null, endDate?: string | null): void {
+  for (const [name, value] of [['startDate', startDate], ['endDate', endDate]] as const) {
+    if (value && (!ISO_DATE_PATTERN.test(value) || isNaN(Date.parse(value)))) {
+      throw new AppError(`${name} must be a date in YYYY-MM-DD format`, 400);
+    }
+  }
+
+  if (startDate && endDate && startDate > endDate) {
+    throw new AppError('startDate must not be after endDate', 400);
+  }
+}
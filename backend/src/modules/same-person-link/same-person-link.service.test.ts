@@ -1,10 +1,11 @@
 import { AccessLevel } from '../../database/interfaces';
 
 const mockQuery = jest.fn();
+const mockClientQuery = jest.fn((...args: unknown[]) => mockQuery(...args));
 
 jest.mock('../../config/database', () => ({
   query: (...args: unknown[]) => mockQuery(...args),
-  transaction: (callback: (client: unknown) => Promise<unknown>) => callback({ query: mockQuery }),
+  transaction: (callback: (client: unknown) => Promise<unknown>) => callback({ query: mockClientQuery }),
 }));
 
 jest.mock('../notification/notification.service', () => ({
@@ -20,6 +21,7 @@ describe('SamePersonLinkService', () => {
 
   beforeEach(() => {
     mockQuery.mockReset();
+    mockClientQuery.mockClear();
     service = new SamePersonLinkService();
   });
 
@@ -68,6 +70,10 @@ describe('SamePersonLinkService', () => {
       expect(result.linkId).toBe('new-link-id');
       expect(result.nodeId1).toBe(nodeId1);
       expect(result.nodeId2).toBe(nodeId2);
+      // The link and its audit entries commit together
+      const clientSql = mockClientQuery.mock.calls.map(([sql]) => sql as string);
+      expect(clientSql.some(sql => sql.includes('INSERT INTO same_person_links'))).toBe(true);
+      expect(clientSql.some(sql => sql.includes('INSERT INTO audit_events'))).toBe(true);
     });
 
     it('should reject link creation when nodes are from the same tree', async () => {
@@ -125,6 +131,29 @@ describe('SamePersonLinkService', () => {
       await expect(service.createSamePersonLink({ nodeId1, nodeId2, userId }))
         .rejects.toThrow('Same person link already exists');
     });
+
+    it('should not count editors missing a tree\'s required two-factor authentication', async () => {
+      mockQuery.mockImplementation((sql: string, params?: unknown[]) => {
+        if (sql.includes('SELECT') && sql.includes('FROM nodes') && sql.includes('IN')) {
+          return {
+            rows: [
+              { nodeId: nodeId1, treeId: treeId1, firstName: 'John', lastName: 'Doe' },
+              { nodeId: nodeId2, treeId: treeId2, firstName: 'Jane', lastName: 'Doe' },
+            ],
+          };
+        }
+        if (sql.includes('SELECT') && sql.includes('tree_access') && sql.includes('access_level')) {
+          return params?.[0] === treeId1
+            ? { rows: [{ accessLevel: AccessLevel.VIEWER }] }
+            : { rows: [{ accessLevel: AccessLevel.EDITOR, twoFactorMissing: true }] };
+        }
+        return { rows: [] };
+      });
+
+      await expect(service.createSamePersonLink({ nodeId1, nodeId2, userId }))
+        .rejects.toMatchObject({ statusCode: 403 });
+      expect(mockQuery).not.toHaveBeenCalledWith(expect.stringContaining('INSERT INTO same_person_links'), expect.anything());
+    });
   });
 
   describe('deleteSamePersonLink', () => {
@@ -1,7 +1,8 @@
 import { query, transaction } from '../../config/database';
-import { SamePersonLink, NotificationType } from '../../database/interfaces';
+import { SamePersonLink, NotificationType, AuditAction, AuditEntityType } from '../../database/interfaces';
 import { AccessControlService, AccessLevel } from '../../common/services/access-control.service';
 import { NotificationService } from '../notification/notification.service';
+import { AuditService } from '../audit/audit.service';
 import { AppError } from '../../common/errors/app-error';
 import { PoolClient } from 'pg';
 
@@ -28,10 +29,12 @@ interface LinkedTree {
 export class SamePersonLinkService {
   private accessControl: AccessControlService;
   private notificationService: NotificationService;
+  private auditService: AuditService;
 
   constructor() {
     this.accessControl = new AccessControlService();
     this.notificationService = new NotificationService();
+    this.auditService = new AuditService();
   }
 
   async createSamePersonLink(dto: CreateSamePersonLinkDto): Promise<SamePersonLink> {
@@ -57,8 +60,8 @@ export class SamePersonLinkService {
       throw new AppError('Nodes must belong to different trees', 400);
     }
 
-    const access1 = await this.accessControl.getAccessLevel(node1.treeId, dto.userId);
-    const access2 = await this.accessControl.getAccessLevel(node2.treeId, dto.userId);
+    const access1 = await this.accessControl.getEffectiveAccessLevel(node1.treeId, dto.userId);
+    const access2 = await this.accessControl.getEffectiveAccessLevel(node2.treeId, dto.userId);
 
     const hasEditAccess1 = access1 === AccessLevel.EDITOR || access1 === AccessLevel.OWNER;
     const hasEditAccess2 = access2 === AccessLevel.EDITOR || access2 === AccessLevel.OWNER;
@@ -77,16 +80,30 @@ export class SamePersonLinkService {
       throw new AppError('Same person link already exists', 409);
     }
 
-    const result = await query<SamePersonLink>(
-      `INSERT INTO same_person_links (node_id_1, node_id_2, created_by)
-       VALUES ($1, $2, $3)
-       RETURNING link_id as "linkId", node_id_1 as "nodeId1", node_id_2 as "nodeId2", created_by as "createdBy", created_at as "createdAt"`,
-      [dto.nodeId1, dto.nodeId2, dto.userId]
-    );
+    const link = await transaction(async (client) => {
+      const result = await client.query<SamePersonLink>(
+        `INSERT INTO same_person_links (node_id_1, node_id_2, created_by)
+         VALUES ($1, $2, $3)
+         RETURNING link_id as "linkId", node_id_1 as "nodeId1", node_id_2 as "nodeId2", created_by as "createdBy", created_at as "createdAt"`,
+        [dto.nodeId1, dto.nodeId2, dto.userId]
+      );
+
+      const created = result.rows[0];
+      // The link belongs to both trees, so it shows up in both histories
+      await this.auditService.recordMany([node1.treeId, node2.treeId].map(treeId => ({
+        treeId,
+        entityType: AuditEntityType.SAME_PERSON_LINK,
+        entityId: created.linkId,
+        action: AuditAction.CREATE,
+        actorId: dto.userId,
+        after: created,
+      })), client);
+      return created;
+    });
+
+    await this.notifyTreeOwners(node1.treeId, node2.treeId, link.linkId, dto.userId);
 
-    await this.notifyTreeOwners(node1.treeId, node2.treeId, result.rows[0].linkId, dto.userId);
-
-    return result.rows[0];
+    return link;
   }
 
   private async notifyTreeOwners(treeId1: string, treeId2: string, linkId: string, creatorUserId: string): Promise<void> {
@@ -104,6 +121,7 @@ export class SamePersonLinkService {
           message: 'A same person link has been created connecting your family tree to another tree',
           relatedEntityType: 'same_person_link',
           relatedEntityId: linkId,
+          treeId: owner.treeId,
         });
       }
     }
@@ -163,8 +181,8 @@ export class SamePersonLinkService {
   }
 
   async deleteSamePersonLink(linkId: string, userId: string): Promise<void> {
-    const linkResult = await query<{ nodeId1: string; nodeId2: string }>(
-      `SELECT node_id_1 as "nodeId1", node_id_2 as "nodeId2" FROM same_person_links WHERE link_id = $1`,
+    const linkResult = await query<SamePersonLink>(
+      `SELECT link_id as "linkId", node_id_1 as "nodeId1", node_id_2 as "nodeId2", created_by as "createdBy", created_at as "createdAt" FROM same_person_links WHERE link_id = $1`,
       [linkId]
     );
 
@@ -172,7 +190,8 @@ export class SamePersonLinkService {
       throw new AppError('Same person link not found', 404);
     }
 
-    const { nodeId1, nodeId2 } = linkResult.rows[0];
+    const link = linkResult.rows[0];
+    const { nodeId1, nodeId2 } = link;
 
     const nodesResult = await query<{ treeId: string }>(
       `SELECT tree_id as "treeId" FROM nodes WHERE node_id IN ($1, $2)`,
@@ -193,6 +212,14 @@ export class SamePersonLinkService {
     }
 
     await query('DELETE FROM same_person_links WHERE link_id = $1', [linkId]);
+    await this.auditService.recordMany(nodesResult.rows.map(node => ({
+      treeId: node.treeId,
+      entityType: AuditEntityType.SAME_PERSON_LINK,
+      entityId: linkId,
+      action: AuditAction.DELETE,
+      actorId: userId,
+      before: link,
+    })));
   }
 
   async getLinkById(linkId: string, userId: string): Promise<SamePersonLink> {
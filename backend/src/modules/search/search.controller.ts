@@ -1,31 +1,38 @@
 import { Response, NextFunction } from 'express';
 import { SearchService } from './search.service';
 import { AuthRequest } from '../../common/middleware/auth.middleware';
+import { pageRequestFromQuery } from '../../common/utils/pagination';
 
 export class SearchController {
   constructor(private searchService: SearchService) {}
 
   async search(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { q, treeId, firstName, lastName, petName, placeOfBirth } = req.query;
+      const { q, treeId, firstName, lastName, petName, placeOfBirth, dateOfBirthFrom, dateOfBirthTo } = req.query;
+      const filters = {
+        firstName: firstName as string | undefined,
+        lastName: lastName as string | undefined,
+        petName: petName as string | undefined,
+        placeOfBirth: placeOfBirth as string | undefined,
+        dateOfBirthFrom: dateOfBirthFrom as string | undefined,
+        dateOfBirthTo: dateOfBirthTo as string | undefined,
+      };
 
       if (treeId) {
         const results = await this.searchService.searchInTree(
           treeId as string,
           req.userId!,
-          q as string
+          q as string,
+          filters,
+          pageRequestFromQuery(req.query)
         );
         res.json(results);
       } else {
         const results = await this.searchService.searchNodes(
           req.userId!,
           q as string,
-          {
-            firstName: firstName as string | undefined,
-            lastName: lastName as string | undefined,
-            petName: petName as string | undefined,
-            placeOfBirth: placeOfBirth as string | undefined,
-          }
+          filters,
+          pageRequestFromQuery(req.query)
         );
         res.json(results);
       }
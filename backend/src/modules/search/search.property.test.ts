@@ -60,7 +60,7 @@ describe('Search Service Property Tests', () => {
             const service = new SearchService();
             const results = await service.searchNodes(userId, searchQuery);
 
-            return results.every((result) =>
+            return results.items.every((result) =>
               accessibleTreeIdSet.has(result.treeId)
             );
           }
@@ -80,7 +80,7 @@ describe('Search Service Property Tests', () => {
             const service = new SearchService();
             const results = await service.searchNodes(userId, searchQuery);
 
-            return results.length === 0;
+            return results.items.length === 0;
           }
         ),
         { numRuns: 100 }
@@ -111,7 +111,7 @@ describe('Search Service Property Tests', () => {
             const service = new SearchService();
             const results = await service.searchNodes(userId, searchQuery);
 
-            const resultTreeIds = new Set(results.map((r) => r.treeId));
+            const resultTreeIds = new Set(results.items.map((r) => r.treeId));
             return accessibleTreeIds.every((treeId) => resultTreeIds.has(treeId));
           }
         ),
@@ -7,6 +7,7 @@ jest.mock('../../config/database', () => ({
 }));
 
 import { SearchService } from './search.service';
+import { DEFAULT_PAGE_LIMIT } from '../../common/utils/pagination';
 
 describe('SearchService', () => {
   let service: SearchService;
@@ -38,10 +39,10 @@ describe('SearchService', () => {
 
       const result = await service.searchNodes(userId, searchQuery);
 
-      expect(result.length).toBe(1);
-      expect(result[0].firstName).toBe('John');
+      expect(result.items.length).toBe(1);
+      expect(result.items[0].firstName).toBe('John');
       expect(mockQuery).toHaveBeenCalledWith(
-        expect.stringContaining('first_name ILIKE'),
+        expect.stringContaining('n.first_name_phonetic = ANY(q.phonetics)'),
         expect.any(Array)
       );
     });
@@ -67,10 +68,10 @@ describe('SearchService', () => {
 
       const result = await service.searchNodes(userId, searchQuery);
 
-      expect(result.length).toBe(1);
-      expect(result[0].lastName).toBe('Doe');
+      expect(result.items.length).toBe(1);
+      expect(result.items[0].lastName).toBe('Doe');
       expect(mockQuery).toHaveBeenCalledWith(
-        expect.stringContaining('last_name ILIKE'),
+        expect.stringContaining('n.last_name_phonetic = ANY(q.phonetics)'),
         expect.any(Array)
       );
     });
@@ -97,10 +98,10 @@ describe('SearchService', () => {
 
       const result = await service.searchNodes(userId, searchQuery);
 
-      expect(result.length).toBe(1);
-      expect(result[0].petName).toBe('Johnny');
+      expect(result.items.length).toBe(1);
+      expect(result.items[0].petName).toBe('Johnny');
       expect(mockQuery).toHaveBeenCalledWith(
-        expect.stringContaining('pet_name ILIKE'),
+        expect.stringContaining('n.pet_name_phonetic = ANY(q.phonetics)'),
         expect.any(Array)
       );
     });
@@ -155,11 +156,80 @@ describe('SearchService', () => {
 
       await service.searchNodes(userId, searchQuery, filters);
 
-      const queryCall = mockQuery.mock.calls[0][0];
-      expect(queryCall).toContain('first_name ILIKE');
-      expect(queryCall).toContain('last_name ILIKE');
-      expect(queryCall).toContain('place_of_birth ILIKE');
+      const [queryCall, params] = mockQuery.mock.calls[0];
+      expect(queryCall).toContain('normalize_search_text(n.first_name) LIKE normalize_search_text($4)');
+      expect(queryCall).toContain('normalize_search_text(n.last_name) LIKE normalize_search_text($5)');
+      expect(queryCall).toContain('normalize_search_text(n.place_of_birth) LIKE normalize_search_text($6)');
       expect(queryCall).toContain('AND');
+      expect(params).toEqual([userId, searchQuery, ['John'], '%John%', '%Doe%', '%New York%', DEFAULT_PAGE_LIMIT + 1]);
+    });
+
+    it('should match names by trigram similarity, substring and sound', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await service.searchNodes('user1', '  Jon   Smyth ');
+
+      const [queryCall, params] = mockQuery.mock.calls[0];
+      expect(queryCall).toContain('q.text <% n.search_name');
+      expect(queryCall).toContain('strpos(n.search_name, q.text) > 0');
+      expect(queryCall).not.toContain("LIKE '%' || q.text");
+      expect(queryCall).toContain('dmetaphone(normalize_search_text(word))');
+      expect(queryCall).toContain('ORDER BY score DESC');
+      expect(params.slice(1, 3)).toEqual(['  Jon   Smyth ', ['Jon', 'Smyth']]);
+    });
+
+    it('should return a relevance score per result', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          { nodeId: 'node1', treeId: 'tree1', treeName: 'Smith Family', firstName: 'John', lastName: 'Smith', score: 0.82 },
+          { nodeId: 'node2', treeId: 'tree1', treeName: 'Smith Family', firstName: 'Joan', lastName: 'Smythe', score: 0.41 },
+        ],
+      });
+
+      const result = await service.searchNodes('user1', 'Jon Smyth');
+
+      expect(result.items.map(r => r.score)).toEqual([0.82, 0.41]);
+    });
+
+    it('should filter by an inclusive date-of-birth range', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await service.searchNodes('user1', 'Sharma', { dateOfBirthFrom: '1900-01-01', dateOfBirthTo: '1950-12-31' });
+
+      const [queryCall, params] = mockQuery.mock.calls[0];
+      expect(queryCall).toContain('>= $4::date');
+      expect(queryCall).toContain('<= $5::date');
+      expect(params.slice(3, 5)).toEqual(['1900-01-01', '1950-12-31']);
+    });
+
+    it('should widen year and month bounds to the whole period', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await service.searchNodes('user1', 'Sharma', { dateOfBirthFrom: '1890', dateOfBirthTo: '1895-02' });
+
+      const [queryCall, params] = mockQuery.mock.calls[0];
+      expect(params.slice(3, 5)).toEqual(['1890-01-01', '1895-02-28']);
+      // Approximate birth dates are matched on their range rather than the sort date
+      expect(queryCall).toContain("WHEN 'about' THEN");
+      expect(queryCall).toContain('n.date_of_birth_end');
+    });
+
+    it('should reject invalid or reversed date-of-birth ranges', async () => {
+      await expect(service.searchNodes('user1', 'Sharma', { dateOfBirthFrom: '01/02/1900' }))
+        .rejects.toThrow('dateOfBirthFrom must be a date in YYYY, YYYY-MM or YYYY-MM-DD format');
+      await expect(service.searchNodes('user1', 'Sharma', { dateOfBirthTo: '1950-13-45' }))
+        .rejects.toThrow('dateOfBirthTo is not a valid date');
+      await expect(service.searchNodes('user1', 'Sharma', { dateOfBirthFrom: '1960-01-01', dateOfBirthTo: '1950-01-01' }))
+        .rejects.toThrow('dateOfBirthFrom must not be after dateOfBirthTo');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should treat LIKE wildcards in filters literally', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await service.searchNodes('user1', 'Sharma', { placeOfBirth: '100%_sure' });
+
+      expect(mockQuery.mock.calls[0][1][3]).toBe('%100\\%\\_sure%');
     });
 
     it('should return node details and tree name without access level', async () => {
@@ -186,12 +256,12 @@ describe('SearchService', () => {
 
       const result = await service.searchNodes(userId, searchQuery);
 
-      expect(result[0]).toHaveProperty('nodeId');
-      expect(result[0]).toHaveProperty('treeId');
-      expect(result[0]).toHaveProperty('firstName');
-      expect(result[0]).toHaveProperty('lastName');
-      expect(result[0]).toHaveProperty('treeName');
-      expect(result[0]).not.toHaveProperty('accessLevel');
+      expect(result.items[0]).toHaveProperty('nodeId');
+      expect(result.items[0]).toHaveProperty('treeId');
+      expect(result.items[0]).toHaveProperty('firstName');
+      expect(result.items[0]).toHaveProperty('lastName');
+      expect(result.items[0]).toHaveProperty('treeName');
+      expect(result.items[0]).not.toHaveProperty('accessLevel');
     });
 
     it('should return empty array when no matches', async () => {
@@ -199,7 +269,59 @@ describe('SearchService', () => {
 
       const result = await service.searchNodes('user1', 'NonExistent');
 
-      expect(result).toEqual([]);
+      expect(result.items).toEqual([]);
+    });
+
+    it('should return one result per consolidated person', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          {
+            nodeId: 'node1', treeId: 'tree1', treeName: 'Smith Family', firstName: 'John', lastName: 'Doe', consolidatedId: 'cons1', primaryNodeId: 'node1',
+            groupMembers: [
+              { nodeId: 'node2', treeId: 'tree2', treeName: 'Doe Family' },
+              { nodeId: 'node1', treeId: 'tree1', treeName: 'Smith Family' },
+            ],
+          },
+          {
+            nodeId: 'node3', treeId: 'tree1', treeName: 'Smith Family', firstName: 'Jane', lastName: 'Doe',
+            groupMembers: [{ nodeId: 'node3', treeId: 'tree1', treeName: 'Smith Family' }],
+          },
+        ],
+      });
+
+      const result = await service.searchNodes('user1', 'Doe');
+
+      expect(mockQuery.mock.calls[0][0]).toContain('PARTITION BY COALESCE(consolidated_id, node_id)');
+      expect(mockQuery.mock.calls[0][0]).toContain('WHERE person_rank = 1');
+      expect(result.items.map(r => r.nodeId)).toEqual(['node1', 'node3']);
+      expect(result.items[0].alsoIn).toEqual([{ nodeId: 'node2', treeId: 'tree2', treeName: 'Doe Family' }]);
+      expect(result.items[1]).not.toHaveProperty('alsoIn');
+      expect(result.items[1]).not.toHaveProperty('groupMembers');
+    });
+
+    it('should page through results by score with a cursor', async () => {
+      const cursorId = '11111111-1111-4111-8111-111111111111';
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          { nodeId: 'node1', treeId: 'tree1', treeName: 'Smith Family', firstName: 'John', score: 0.9, cursorValue: '0.9', cursorId, totalEstimate: '3', groupMembers: [] },
+          { nodeId: 'node2', treeId: 'tree1', treeName: 'Smith Family', firstName: 'Jon', score: 0.5, cursorValue: '0.5', cursorId: '22222222-2222-4222-8222-222222222222', totalEstimate: '3', groupMembers: [] },
+        ],
+      });
+
+      const first = await service.searchNodes('user1', 'John', undefined, { limit: 1 });
+
+      expect(first.items).toHaveLength(1);
+      expect(first.items[0]).not.toHaveProperty('cursorValue');
+      expect(first.totalEstimate).toBe(3);
+      expect(first.nextCursor).toEqual(expect.any(String));
+      expect(mockQuery.mock.calls[0][0]).toContain('ORDER BY score DESC, node_id DESC');
+
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+      await service.searchNodes('user1', 'John', undefined, { limit: 1, cursor: first.nextCursor! });
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('(score, node_id) < ($4::float8, $5::uuid)');
+      expect(params.slice(3)).toEqual(['0.9', cursorId, 2]);
     });
   });
 
@@ -226,8 +348,8 @@ describe('SearchService', () => {
 
       const result = await service.searchInTree(treeId, userId, searchQuery);
 
-      expect(result.length).toBe(1);
-      expect(result[0].firstName).toBe('Jane');
+      expect(result.items.length).toBe(1);
+      expect(result.items[0].firstName).toBe('Jane');
     });
 
     it('should reject search queries under 3 characters in tree search', async () => {
@@ -2,18 +2,78 @@ import { query } from '../../config/database';
 import { Node } from '../../database/interfaces';
 import { AccessControlService } from '../../common/services/access-control.service';
 import { AppError } from '../../common/errors/app-error';
+import { Page, PageRequest, PaginationSpec, preparePage, toPage } from '../../common/utils/pagination';
+import { dateBoundsSql, genealogicalDateFields, parseDateBound } from '../../common/utils/genealogical-date';
 
 interface SearchFilters {
   firstName?: string;
   lastName?: string;
   petName?: string;
   placeOfBirth?: string;
+  dateOfBirthFrom?: string;
+  dateOfBirthTo?: string;
+}
+
+interface SearchResultTree {
+  nodeId: string;
+  treeId: string;
+  treeName: string;
 }
 
 interface SearchResult extends Omit<Node, 'status'> {
   treeName: string;
+  score?: number;
+  consolidatedId?: string;
+  primaryNodeId?: string;
+  alsoIn?: SearchResultTree[];
+}
+
+interface ScoredNode extends Node {
+  score?: number;
 }
 
+const BIRTH_BOUNDS = dateBoundsSql('n.date_of_birth');
+
+/**
+ * Normalised query text plus the Double Metaphone code of each query word.
+ * Expects the raw query in $2 and its words in $3.
+ */
+const SEARCH_TERMS_CTE = `WITH q AS (
+  SELECT normalize_search_text($2) AS text,
+         ARRAY(SELECT dmetaphone(normalize_search_text(word)) FROM unnest($3::text[]) AS word) AS phonetics
+)`;
+
+/**
+ * A node matches when the query is trigram-similar to a word in its names, is a
+ * substring of them, or one of the query words sounds like one of its names.
+ * The substring test uses strpos so % and _ in the query are plain characters.
+ */
+const NAME_MATCH_CONDITION = `(q.text <% n.search_name
+  OR strpos(n.search_name, q.text) > 0
+  OR n.first_name_phonetic = ANY(q.phonetics)
+  OR n.last_name_phonetic = ANY(q.phonetics)
+  OR n.pet_name_phonetic = ANY(q.phonetics))`;
+
+/**
+ * Relevance between 0 and 1: mostly trigram similarity, plus the share of query
+ * words that sound like one of the node's names.
+ */
+const SCORE_EXPRESSION = `(0.7 * GREATEST(similarity(n.search_name, q.text), word_similarity(q.text, n.search_name))
+  + 0.3 * (SELECT COUNT(*) FROM unnest(q.phonetics) AS p
+           WHERE p IN (n.first_name_phonetic, n.last_name_phonetic, n.pet_name_phonetic))::float8
+        / GREATEST(cardinality(q.phonetics), 1))::float8`;
+
+const SEARCH_PAGINATION: PaginationSpec = {
+  sorts: {
+    score: { expression: 'score', type: 'float8' },
+    name: { expression: `LOWER(COALESCE(last_name, '') || ' ' || COALESCE(first_name, '') || ' ' || COALESCE(pet_name, ''))`, type: 'text' },
+  },
+  defaultSort: '-score',
+  idColumn: 'node_id',
+};
+
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, match => `\\${match}`);
+
 export class SearchService {
   private accessControl: AccessControlService;
   private static readonly MIN_SEARCH_LENGTH = 3;
@@ -28,78 +88,137 @@ export class SearchService {
     }
   }
 
-  async searchNodes(userId: string, searchQuery: string, filters?: SearchFilters): Promise<SearchResult[]> {
-    this.validateSearchQuery(searchQuery);
+  private queryWords(searchQuery: string): string[] {
+    return searchQuery.trim().split(/\s+/).filter(word => word.length > 0);
+  }
 
-    const conditions: string[] = ["n.status = 'published'"];
-    const values: unknown[] = [userId];
-    let paramIndex = 2;
+  /**
+   * Appends the optional field filters to conditions and values. Name and place filters
+   * are diacritic-insensitive substring matches; birth dates are an inclusive range whose
+   * bounds may be a year ("1890"), a month or a day.
+   */
+  private applyFilters(filters: SearchFilters | undefined, conditions: string[], values: unknown[]): void {
+    const textFilters: Array<[keyof SearchFilters, string]> = [
+      ['firstName', 'first_name'],
+      ['lastName', 'last_name'],
+      ['petName', 'pet_name'],
+      ['placeOfBirth', 'place_of_birth'],
+    ];
+
+    for (const [field, column] of textFilters) {
+      const value = filters?.[field];
+      if (!value) continue;
+      values.push(`%${escapeLike(value)}%`);
+      conditions.push(`normalize_search_text(n.${column}) LIKE normalize_search_text($${values.length})`);
+    }
 
-    conditions.push(`(n.first_name ILIKE $${paramIndex} OR n.last_name ILIKE $${paramIndex} OR n.pet_name ILIKE $${paramIndex})`);
-    values.push(`%${searchQuery}%`);
-    paramIndex++;
+    // Partial and approximate birth dates match when any day they could stand for is in range
+    const dateOfBirthFrom = filters?.dateOfBirthFrom ? parseDateBound(filters.dateOfBirthFrom, 'dateOfBirthFrom', 'from') : undefined;
+    const dateOfBirthTo = filters?.dateOfBirthTo ? parseDateBound(filters.dateOfBirthTo, 'dateOfBirthTo', 'to') : undefined;
 
-    if (filters?.firstName) {
-      conditions.push(`n.first_name ILIKE $${paramIndex}`);
-      values.push(`%${filters.firstName}%`);
-      paramIndex++;
+    if (dateOfBirthFrom && dateOfBirthTo && dateOfBirthFrom > dateOfBirthTo) {
+      throw new AppError('dateOfBirthFrom must not be after dateOfBirthTo', 400);
     }
 
-    if (filters?.lastName) {
-      conditions.push(`n.last_name ILIKE $${paramIndex}`);
-      values.push(`%${filters.lastName}%`);
-      paramIndex++;
+    if (dateOfBirthFrom) {
+      values.push(dateOfBirthFrom);
+      conditions.push(`n.date_of_birth IS NOT NULL AND COALESCE(${BIRTH_BOUNDS.latest} >= $${values.length}::date, TRUE)`);
     }
 
-    if (filters?.petName) {
-      conditions.push(`n.pet_name ILIKE $${paramIndex}`);
-      values.push(`%${filters.petName}%`);
-      paramIndex++;
+    if (dateOfBirthTo) {
+      values.push(dateOfBirthTo);
+      conditions.push(`n.date_of_birth IS NOT NULL AND COALESCE(${BIRTH_BOUNDS.earliest} <= $${values.length}::date, TRUE)`);
     }
+  }
 
-    if (filters?.placeOfBirth) {
-      conditions.push(`n.place_of_birth ILIKE $${paramIndex}`);
-      values.push(`%${filters.placeOfBirth}%`);
-      paramIndex++;
-    }
+  async searchNodes(userId: string, searchQuery: string, filters?: SearchFilters, pageRequest: PageRequest = {}): Promise<Page<SearchResult>> {
+    this.validateSearchQuery(searchQuery);
 
-    const whereClause = conditions.length > 0 ? `AND ${conditions.join(' AND ')}` : '';
-
-    const result = await query<SearchResult>(
-      `SELECT n.node_id as "nodeId", n.tree_id as "treeId", n.first_name as "firstName", 
-              n.last_name as "lastName", n.pet_name as "petName", n.address, 
-              n.place_of_birth as "placeOfBirth", n.contact_info as "contactInfo", 
-              n.profile_picture_url as "profilePictureUrl", n.date_of_birth as "dateOfBirth", 
-              n.date_of_death as "dateOfDeath", n.created_by as "createdBy", 
-              n.created_at as "createdAt", n.updated_at as "updatedAt", 
-              ft.tree_name as "treeName"
-       FROM nodes n
-       JOIN family_trees ft ON n.tree_id = ft.tree_id
-       JOIN tree_access ta ON ft.tree_id = ta.tree_id
-       WHERE ta.user_id = $1 ${whereClause}`,
+    const conditions: string[] = ["n.status = 'published'", NAME_MATCH_CONDITION];
+    const values: unknown[] = [userId, searchQuery, this.queryWords(searchQuery)];
+    this.applyFilters(filters, conditions, values);
+    const page = preparePage(pageRequest, SEARCH_PAGINATION, values);
+
+    // Nodes that share a consolidated identity collapse into one result: the primary
+    // node if it matched, otherwise the best match, scored by the best match.
+    const result = await query<SearchResult & { groupMembers: SearchResultTree[] }>(
+      `${SEARCH_TERMS_CTE},
+       matches AS (
+         SELECT n.*, ft.tree_name, m.consolidated_id, cn.primary_node_id, ${SCORE_EXPRESSION} AS match_score
+         FROM q
+         CROSS JOIN nodes n
+         JOIN family_trees ft ON n.tree_id = ft.tree_id
+         JOIN tree_access ta ON ft.tree_id = ta.tree_id
+         LEFT JOIN node_consolidation_mapping m ON m.node_id = n.node_id
+         LEFT JOIN consolidated_nodes cn ON cn.consolidated_id = m.consolidated_id
+         WHERE ta.user_id = $1 AND ft.deleted_at IS NULL AND ${conditions.join(' AND ')}
+       ),
+       grouped AS (
+         SELECT matches.*,
+                ROW_NUMBER() OVER person_matches AS person_rank,
+                MAX(match_score) OVER (PARTITION BY COALESCE(consolidated_id, node_id)) AS score,
+                jsonb_agg(jsonb_build_object('nodeId', node_id, 'treeId', tree_id, 'treeName', tree_name))
+                  OVER (PARTITION BY COALESCE(consolidated_id, node_id)) AS group_members
+         FROM matches
+         WINDOW person_matches AS (
+           PARTITION BY COALESCE(consolidated_id, node_id)
+           ORDER BY (node_id = primary_node_id) IS TRUE DESC, match_score DESC
+         )
+       )
+       SELECT node_id as "nodeId", tree_id as "treeId", first_name as "firstName", 
+              last_name as "lastName", pet_name as "petName", address, 
+              place_of_birth as "placeOfBirth", contact_info as "contactInfo", 
+              profile_picture_url as "profilePictureUrl", ${genealogicalDateFields('date_of_birth', 'dateOfBirth')},
+              ${genealogicalDateFields('date_of_death', 'dateOfDeath')}, created_by as "createdBy", 
+              created_at as "createdAt", updated_at as "updatedAt", 
+              tree_name as "treeName", consolidated_id as "consolidatedId",
+              primary_node_id as "primaryNodeId", score, group_members as "groupMembers", ${page.columns}
+       FROM grouped
+       WHERE person_rank = 1${page.condition ? ` AND ${page.condition}` : ''}
+       ORDER BY ${page.orderBy}
+       LIMIT ${page.limit}`,
       values
     );
 
-    return result.rows;
+    const results = toPage(result.rows, page);
+    return {
+      ...results,
+      items: results.items.map(({ groupMembers, ...item }) => item.consolidatedId
+        ? { ...item, alsoIn: groupMembers.filter(member => member.nodeId !== item.nodeId) }
+        : item),
+    };
   }
 
-  async searchInTree(treeId: string, userId: string, searchQuery: string): Promise<Node[]> {
+  async searchInTree(treeId: string, userId: string, searchQuery: string, filters?: SearchFilters, pageRequest: PageRequest = {}): Promise<Page<ScoredNode>> {
     this.validateSearchQuery(searchQuery);
     await this.accessControl.checkAccess(treeId, userId);
 
-    const result = await query<Node>(
-      `SELECT node_id as "nodeId", tree_id as "treeId", first_name as "firstName", 
+    const conditions: string[] = ["n.status = 'published'", NAME_MATCH_CONDITION];
+    const values: unknown[] = [treeId, searchQuery, this.queryWords(searchQuery)];
+    this.applyFilters(filters, conditions, values);
+    const page = preparePage(pageRequest, SEARCH_PAGINATION, values);
+
+    const result = await query<ScoredNode>(
+      `${SEARCH_TERMS_CTE},
+       matches AS (
+         SELECT n.*, ${SCORE_EXPRESSION} AS score
+         FROM q
+         CROSS JOIN nodes n
+         WHERE n.tree_id = $1 AND ${conditions.join(' AND ')}
+       )
+       SELECT node_id as "nodeId", tree_id as "treeId", first_name as "firstName", 
               last_name as "lastName", pet_name as "petName", address, 
               place_of_birth as "placeOfBirth", contact_info as "contactInfo", 
-              profile_picture_url as "profilePictureUrl", date_of_birth as "dateOfBirth", 
-              date_of_death as "dateOfDeath", status, created_by as "createdBy", 
-              created_at as "createdAt", updated_at as "updatedAt"
-       FROM nodes
-       WHERE tree_id = $1 AND status = 'published' 
-         AND (first_name ILIKE $2 OR last_name ILIKE $2 OR pet_name ILIKE $2)`,
-      [treeId, `%${searchQuery}%`]
+              profile_picture_url as "profilePictureUrl", ${genealogicalDateFields('date_of_birth', 'dateOfBirth')},
+              ${genealogicalDateFields('date_of_death', 'dateOfDeath')}, status, created_by as "createdBy", 
+              created_at as "createdAt", updated_at as "updatedAt", score, ${page.columns}
+       FROM matches${page.condition ? `
+       WHERE ${page.condition}` : ''}
+       ORDER BY ${page.orderBy}
+       LIMIT ${page.limit}`,
+      values
     );
 
-    return result.rows;
+    return toPage(result.rows, page);
   }
 }
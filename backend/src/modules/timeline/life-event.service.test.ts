@@ -0,0 +1,161 @@
+import { AuditAction, DatePrecision, DateQualifier, EventType, NodeStatus, RelationshipType, Relationship } from '../../database/interfaces';
+import { LifeEventService } from './life-event.service';
+
+describe('LifeEventService', () => {
+  let service: LifeEventService;
+  let client: { query: jest.Mock };
+
+  const node = {
+    nodeId: 'node1',
+    treeId: 'tree1',
+    firstName: 'John',
+    lastName: 'Doe',
+    status: NodeStatus.PUBLISHED,
+    dateOfBirth: new Date('1950-03-01'),
+    dateOfBirthQualifier: DateQualifier.EXACT,
+    dateOfBirthPrecision: DatePrecision.DAY,
+    dateOfBirthEnd: null,
+    dateOfDeath: null,
+    autoLifeEvents: true,
+  };
+  const exact = { eventDateQualifier: DateQualifier.EXACT, eventDatePrecision: DatePrecision.DAY, eventDateEnd: null };
+
+  beforeEach(() => {
+    client = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+    service = new LifeEventService();
+  });
+
+  describe('syncNodeEvents', () => {
+    it('should create a birth event with the person as participant', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [node] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ eventId: 'event1', eventType: EventType.BIRTH }] });
+
+      const entries = await service.syncNodeEvents(client as never, 'node1', 'user1');
+
+      const [insertSql, insertParams] = client.query.mock.calls[2];
+      expect(insertSql).toContain('INSERT INTO timeline_events');
+      expect(insertParams).toEqual(['tree1', EventType.BIRTH, 'Birth of John Doe', node.dateOfBirth, DateQualifier.EXACT, DatePrecision.DAY, null, 'node1', 'user1']);
+      expect(client.query.mock.calls[3]).toEqual([expect.stringContaining('INSERT INTO event_participants'), ['event1', 'node1', null]]);
+      expect(entries).toEqual([expect.objectContaining({ entityId: 'event1', action: AuditAction.CREATE })]);
+      expect(client.query).toHaveBeenCalledTimes(4);
+    });
+
+    it('should move a generated event when the date changes and drop it when the date is cleared', async () => {
+      const birth = { eventId: 'birth1', eventType: EventType.BIRTH, eventDate: new Date('1949-01-01'), ...exact, lifeEventNodeId: 'node1' };
+      const death = { eventId: 'death1', eventType: EventType.DEATH, eventDate: new Date('2001-01-01'), ...exact, lifeEventNodeId: 'node1' };
+      client.query
+        .mockResolvedValueOnce({ rows: [node] })
+        .mockResolvedValueOnce({ rows: [birth, death] })
+        .mockResolvedValueOnce({ rows: [{ ...birth, eventDate: node.dateOfBirth }] });
+
+      const entries = await service.syncNodeEvents(client as never, 'node1', 'user1');
+
+      expect(client.query.mock.calls[2]).toEqual([
+        expect.stringContaining('UPDATE timeline_events'),
+        [node.dateOfBirth, DateQualifier.EXACT, DatePrecision.DAY, null, 'node1', 'birth1'],
+      ]);
+      expect(client.query.mock.calls[3]).toEqual(["DELETE FROM comments WHERE entity_type = 'event' AND entity_id = $1", ['death1']]);
+      expect(client.query.mock.calls[4]).toEqual(['DELETE FROM timeline_events WHERE event_id = $1', ['death1']]);
+      expect(entries.map(entry => entry.action)).toEqual([AuditAction.UPDATE, AuditAction.DELETE]);
+    });
+
+    it('should leave an up-to-date event alone', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [node] })
+        .mockResolvedValueOnce({ rows: [{ eventId: 'birth1', eventType: EventType.BIRTH, eventDate: new Date('1950-03-01'), ...exact, lifeEventNodeId: 'node1' }] });
+
+      const entries = await service.syncNodeEvents(client as never, 'node1', 'user1');
+
+      expect(entries).toEqual([]);
+      expect(client.query).toHaveBeenCalledTimes(2);
+    });
+
+    it('should adopt a matching event instead of creating a duplicate', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [node] })
+        .mockResolvedValueOnce({ rows: [{ eventId: 'imported1', eventType: EventType.BIRTH, eventDate: new Date('1950-03-01'), ...exact, lifeEventNodeId: null }] })
+        .mockResolvedValueOnce({ rows: [{ eventId: 'imported1', lifeEventNodeId: 'node1' }] });
+
+      const entries = await service.syncNodeEvents(client as never, 'node1', 'user1');
+
+      expect(client.query.mock.calls[2][1]).toEqual([node.dateOfBirth, DateQualifier.EXACT, DatePrecision.DAY, null, 'node1', 'imported1']);
+      expect(entries).toEqual([expect.objectContaining({ entityId: 'imported1', action: AuditAction.UPDATE })]);
+    });
+
+    it('should carry an approximate date over to the generated event', async () => {
+      const approximate = {
+        ...node,
+        dateOfBirth: new Date('1890-01-01'),
+        dateOfBirthQualifier: DateQualifier.ABOUT,
+        dateOfBirthPrecision: DatePrecision.YEAR,
+      };
+      const birth = { eventId: 'birth1', eventType: EventType.BIRTH, eventDate: new Date('1890-01-01'), ...exact, lifeEventNodeId: 'node1' };
+      client.query
+        .mockResolvedValueOnce({ rows: [approximate] })
+        .mockResolvedValueOnce({ rows: [birth] })
+        .mockResolvedValueOnce({ rows: [birth] });
+
+      await service.syncNodeEvents(client as never, 'node1', 'user1');
+
+      expect(client.query.mock.calls[2][1]).toEqual([approximate.dateOfBirth, DateQualifier.ABOUT, DatePrecision.YEAR, null, 'node1', 'birth1']);
+    });
+
+    it('should do nothing for drafts or trees that opted out', async () => {
+      client.query.mockResolvedValueOnce({ rows: [{ ...node, status: NodeStatus.DRAFT }] });
+      expect(await service.syncNodeEvents(client as never, 'node1', 'user1')).toEqual([]);
+
+      client.query.mockResolvedValueOnce({ rows: [{ ...node, autoLifeEvents: false }] });
+      expect(await service.syncNodeEvents(client as never, 'node1', 'user1')).toEqual([]);
+
+      expect(client.query).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('suggestMarriageEvent', () => {
+    const relationship = {
+      relationshipId: 'rel1',
+      nodeId1: 'node1',
+      nodeId2: 'node2',
+      relationshipType: RelationshipType.SPOUSE,
+      startDate: new Date('1975-06-14'),
+    } as Relationship;
+
+    it('should suggest a marriage event for a new couple', async () => {
+      client.query.mockResolvedValueOnce({
+        rows: [
+          { nodeId: 'node2', petName: 'Mary', autoLifeEvents: true, hasMarriage: false },
+          { nodeId: 'node1', firstName: 'John', lastName: 'Doe', autoLifeEvents: true, hasMarriage: false },
+        ],
+      });
+
+      const suggestion = await service.suggestMarriageEvent(client as never, relationship);
+
+      expect(suggestion).toEqual({
+        eventType: EventType.MARRIAGE,
+        title: 'Marriage of John Doe and Mary',
+        eventDate: relationship.startDate,
+        participants: [{ nodeId: 'node1' }, { nodeId: 'node2' }],
+      });
+    });
+
+    it('should not suggest anything when the couple already has a marriage event', async () => {
+      client.query.mockResolvedValueOnce({
+        rows: [
+          { nodeId: 'node1', autoLifeEvents: true, hasMarriage: true },
+          { nodeId: 'node2', autoLifeEvents: true, hasMarriage: true },
+        ],
+      });
+
+      expect(await service.suggestMarriageEvent(client as never, relationship)).toBeNull();
+    });
+
+    it('should ignore relationships other than spouse', async () => {
+      const suggestion = await service.suggestMarriageEvent(client as never, { ...relationship, relationshipType: RelationshipType.SIBLING });
+
+      expect(suggestion).toBeNull();
+      expect(client.query).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { PoolClient } from 'pg';
+import { AuditAction, AuditEntityType, EventType, Node, NodeStatus, ParticipantRole, Relationship, RelationshipType, TimelineEvent } from '../../database/interfaces';
+import { AuditEntry } from '../audit/audit.service';
+import { getDisplayName } from '../node/node.validation';
+import { EVENT_SELECT_FIELDS, ParticipantInput } from './timeline.service';
+import { StoredGenealogicalDate, genealogicalDateFields } from '../../common/utils/genealogical-date';
+
+const LIFE_EVENTS: { eventType: EventType; label: string; date: (node: Node) => StoredGenealogicalDate; role: ParticipantRole | null }[] = [
+  {
+    eventType: EventType.BIRTH,
+    label: 'Birth',
+    date: node => ({ date: node.dateOfBirth, qualifier: node.dateOfBirthQualifier, precision: node.dateOfBirthPrecision, end: node.dateOfBirthEnd }),
+    role: null,
+  },
+  {
+    eventType: EventType.DEATH,
+    label: 'Death',
+    date: node => ({ date: node.dateOfDeath, qualifier: node.dateOfDeathQualifier, precision: node.dateOfDeathPrecision, end: node.dateOfDeathEnd }),
+    role: ParticipantRole.DECEASED,
+  },
+];
+
+const LIFE_EVENT_NODE_FIELDS = `n.node_id as "nodeId", n.tree_id as "treeId", n.first_name as "firstName", n.last_name as "lastName", n.pet_name as "petName", ${genealogicalDateFields('n.date_of_birth', 'dateOfBirth')}, ${genealogicalDateFields('n.date_of_death', 'dateOfDeath')}, n.status, ft.auto_life_events as "autoLifeEvents"`;
+
+/** An event the client can offer to create; nothing is saved until it does */
+export interface SuggestedEvent {
+  eventType: EventType;
+  title: string;
+  eventDate?: Date;
+  participants: ParticipantInput[];
+}
+
+const sameDay = (a: Date | null | undefined, b: Date | null | undefined): boolean =>
+  (a ? new Date(a).getTime() : null) === (b ? new Date(b).getTime() : null);
+
+/** Whether an event already carries the person's date with the same qualifier, precision and end */
+const sameDate = (event: TimelineEvent, date: StoredGenealogicalDate): boolean =>
+  sameDay(event.eventDate, date.date)
+  && event.eventDateQualifier === date.qualifier
+  && event.eventDatePrecision === date.precision
+  && sameDay(event.eventDateEnd, date.end);
+
+/**
+ * Keeps the birth and death timeline events of a person in line with their dates.
+ * Every method runs on the caller's transaction client and returns audit entries
+ * for the caller to record with its own.
+ */
+export class LifeEventService {
+  /**
+   * Creates, moves or removes the person's generated birth and death events, copying
+   * the date's qualifier, precision and end. Trees
+   * that opted out and draft nodes are left alone; drafts get their events on publish.
+   * A birth or death event the person is the only participant of is adopted rather
+   * than duplicated.
+   */
+  async syncNodeEvents(client: PoolClient, nodeId: string, userId: string): Promise<AuditEntry[]> {
+    const nodeResult = await client.query<Node & { autoLifeEvents: boolean }>(
+      `SELECT ${LIFE_EVENT_NODE_FIELDS}
+       FROM nodes n
+       JOIN family_trees ft ON ft.tree_id = n.tree_id
+       WHERE n.node_id = $1`,
+      [nodeId]
+    );
+
+    const node = nodeResult.rows[0];
+    if (!node || !node.autoLifeEvents || node.status !== NodeStatus.PUBLISHED) {
+      return [];
+    }
+
+    const existingResult = await client.query<TimelineEvent>(
+      `SELECT DISTINCT ON (event_type) ${EVENT_SELECT_FIELDS}
+       FROM timeline_events e
+       WHERE event_type IN ('birth', 'death')
+         AND (life_event_node_id = $1
+           OR (life_event_node_id IS NULL
+             AND EXISTS (SELECT 1 FROM event_participants ep WHERE ep.event_id = e.event_id AND ep.node_id = $1)
+             AND NOT EXISTS (SELECT 1 FROM event_participants ep WHERE ep.event_id = e.event_id AND ep.node_id <> $1)))
+       ORDER BY event_type, life_event_node_id IS NULL, created_at`,
+      [nodeId]
+    );
+
+    const entries: AuditEntry[] = [];
+    for (const lifeEvent of LIFE_EVENTS) {
+      const date = lifeEvent.date(node);
+      const existing = existingResult.rows.find(event => event.eventType === lifeEvent.eventType);
+      const audit = { treeId: node.treeId, entityType: AuditEntityType.EVENT, actorId: userId };
+
+      if (!date.date) {
+        // Only events this sync created go away with the date; adopted ones stay
+        if (existing?.lifeEventNodeId) {
+          await client.query(`DELETE FROM comments WHERE entity_type = 'event' AND entity_id = $1`, [existing.eventId]);
+          await client.query(`DELETE FROM timeline_events WHERE event_id = $1`, [existing.eventId]);
+          entries.push({ ...audit, entityId: existing.eventId, action: AuditAction.DELETE, before: existing });
+        }
+        continue;
+      }
+
+      if (!existing) {
+        const result = await client.query<TimelineEvent>(
+          `INSERT INTO timeline_events (tree_id, event_type, title, event_date, event_date_qualifier, event_date_precision, event_date_end, life_event_node_id, created_by)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+           RETURNING ${EVENT_SELECT_FIELDS}`,
+          [node.treeId, lifeEvent.eventType, `${lifeEvent.label} of ${getDisplayName(node)}`, date.date, date.qualifier, date.precision, date.end ?? null, nodeId, userId]
+        );
+        const created = result.rows[0];
+        await client.query(
+          `INSERT INTO event_participants (event_id, node_id, role) VALUES ($1, $2, $3)`,
+          [created.eventId, nodeId, lifeEvent.role]
+        );
+        entries.push({ ...audit, entityId: created.eventId, action: AuditAction.CREATE, after: created });
+        continue;
+      }
+
+      if (!sameDate(existing, date) || !existing.lifeEventNodeId) {
+        const result = await client.query<TimelineEvent>(
+          `UPDATE timeline_events
+           SET event_date = $1, event_date_qualifier = $2, event_date_precision = $3, event_date_end = $4, life_event_node_id = $5, updated_at = NOW()
+           WHERE event_id = $6
+           RETURNING ${EVENT_SELECT_FIELDS}`,
+          [date.date, date.qualifier, date.precision, date.end ?? null, nodeId, existing.eventId]
+        );
+        entries.push({ ...audit, entityId: existing.eventId, action: AuditAction.UPDATE, before: existing, after: result.rows[0] });
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Offers a marriage event for a new spouse relationship, dated from its start
+   * date, unless the tree opted out or the couple already has one.
+   */
+  async suggestMarriageEvent(client: PoolClient, relationship: Relationship): Promise<SuggestedEvent | null> {
+    if (relationship.relationshipType !== RelationshipType.SPOUSE) {
+      return null;
+    }
+
+    const result = await client.query<Pick<Node, 'nodeId' | 'firstName' | 'lastName' | 'petName'> & { autoLifeEvents: boolean; hasMarriage: boolean }>(
+      `SELECT n.node_id as "nodeId", n.first_name as "firstName", n.last_name as "lastName", n.pet_name as "petName",
+              ft.auto_life_events as "autoLifeEvents",
+              EXISTS (
+                SELECT 1 FROM timeline_events e
+                WHERE e.event_type = 'marriage'
+                  AND EXISTS (SELECT 1 FROM event_participants ep WHERE ep.event_id = e.event_id AND ep.node_id = $1)
+                  AND EXISTS (SELECT 1 FROM event_participants ep WHERE ep.event_id = e.event_id AND ep.node_id = $2)
+              ) as "hasMarriage"
+       FROM nodes n
+       JOIN family_trees ft ON ft.tree_id = n.tree_id
+       WHERE n.node_id IN ($1, $2)`,
+      [relationship.nodeId1, relationship.nodeId2]
+    );
+
+    const [first] = result.rows;
+    if (result.rows.length !== 2 || !first.autoLifeEvents || first.hasMarriage) {
+      return null;
+    }
+
+    const names = [relationship.nodeId1, relationship.nodeId2]
+      .map(nodeId => getDisplayName(result.rows.find(row => row.nodeId === nodeId)!));
+
+    return {
+      eventType: EventType.MARRIAGE,
+      title: `Marriage of ${names.join(' and ')}`,
+      eventDate: relationship.startDate ?? undefined,
+      participants: [{ nodeId: relationship.nodeId1 }, { nodeId: relationship.nodeId2 }],
+    };
+  }
+}
@@ -1,6 +1,7 @@
 import { Response, NextFunction } from 'express';
-import { TimelineService } from './timeline.service';
+import { TimelineService, ParticipantInput } from './timeline.service';
 import { AuthRequest } from '../../common/middleware/auth.middleware';
+import { pageRequestFromQuery } from '../../common/utils/pagination';
 
 export class TimelineController {
   constructor(private timelineService: TimelineService) {}
@@ -12,8 +13,12 @@ export class TimelineController {
         eventType: req.body.eventType,
         title: req.body.title,
         description: req.body.description,
-        eventDate: new Date(req.body.eventDate),
+        eventDate: req.body.eventDate,
+        eventDateQualifier: req.body.eventDateQualifier,
+        eventDatePrecision: req.body.eventDatePrecision,
+        eventDateEnd: req.body.eventDateEnd,
         location: req.body.location,
+        participants: this.participantsFromBody(req.body),
         userId: req.userId!,
       });
       res.status(201).json(event);
@@ -24,7 +29,16 @@ export class TimelineController {
 
   async getEvents(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
-      const events = await this.timelineService.getEvents(req.params.treeId, req.userId!);
+      const events = await this.timelineService.getEvents(req.params.treeId, req.userId!, pageRequestFromQuery(req.query));
+      res.json(events);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getNodeEvents(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const events = await this.timelineService.getNodeEvents(req.params.nodeId, req.userId!, pageRequestFromQuery(req.query));
       res.json(events);
     } catch (error) {
       next(error);
@@ -46,8 +60,13 @@ export class TimelineController {
         eventType: req.body.eventType,
         title: req.body.title,
         description: req.body.description,
-        eventDate: req.body.eventDate ? new Date(req.body.eventDate) : undefined,
+        eventDate: req.body.eventDate,
+        eventDateQualifier: req.body.eventDateQualifier,
+        eventDatePrecision: req.body.eventDatePrecision,
+        eventDateEnd: req.body.eventDateEnd,
         location: req.body.location,
+        addParticipants: req.body.addParticipants,
+        removeParticipants: req.body.removeParticipants,
       });
       res.json(event);
     } catch (error) {
@@ -63,4 +82,18 @@ export class TimelineController {
       next(error);
     }
   }
+
+  async restore(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const event = await this.timelineService.restoreEvent(req.params.eventId, req.userId!);
+      res.json(event);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /** Accepts `participants` with roles, or the plain `participantIds` list older clients send */
+  private participantsFromBody(body: { participants?: ParticipantInput[]; participantIds?: string[] }): ParticipantInput[] | undefined {
+    return body.participants ?? body.participantIds?.map(nodeId => ({ nodeId }));
+  }
 }
@@ -13,6 +13,14 @@ const mockQuery = jest.fn();
 
 jest.mock('../../config/database', () => ({
   query: (...args: unknown[]) => mockQuery(...args),
+  transaction: (callback: (client: unknown) => Promise<unknown>) =>
+    callback({ query: (...args: unknown[]) => mockQuery(...args) }),
+}));
+
+jest.mock('../trash/trash.service', () => ({
+  TrashService: jest.fn().mockImplementation(() => ({
+    trashEvent: jest.fn().mockResolvedValue(undefined),
+  })),
 }));
 
 import { TimelineService } from './timeline.service';
@@ -65,9 +73,9 @@ describe('Timeline Service Property Tests', () => {
             const service = new TimelineService();
             const result = await service.getEvents(treeId, userId);
 
-            for (let i = 1; i < result.length; i++) {
-              const prevDate = new Date(result[i - 1].eventDate).getTime();
-              const currDate = new Date(result[i].eventDate).getTime();
+            for (let i = 1; i < result.items.length; i++) {
+              const prevDate = new Date(result.items[i - 1].eventDate).getTime();
+              const currDate = new Date(result.items[i].eventDate).getTime();
               if (prevDate > currDate) {
                 return false;
               }
@@ -1,10 +1,16 @@
-import { AccessLevel, EventType } from '../../database/interfaces';
+import { AccessLevel, AuditAction, AuditEntityType, EventType, NodeStatus, ParticipantRole, TrashEntityType } from '../../database/interfaces';
 
 const mockQuery = jest.fn();
+const mockRecordAudit = jest.fn();
+const mockRecordAuditMany = jest.fn();
 const mockNotifyTimelineEventAdded = jest.fn();
+const mockTrashEvent = jest.fn();
+const mockRestore = jest.fn();
 
 jest.mock('../../config/database', () => ({
   query: (...args: unknown[]) => mockQuery(...args),
+  transaction: (callback: (client: unknown) => Promise<unknown>) =>
+    callback({ query: (...args: unknown[]) => mockQuery(...args) }),
 }));
 
 jest.mock('../notification/notification.service', () => ({
@@ -13,6 +19,20 @@ jest.mock('../notification/notification.service', () => ({
   })),
 }));
 
+jest.mock('../audit/audit.service', () => ({
+  AuditService: jest.fn().mockImplementation(() => ({
+    record: mockRecordAudit,
+    recordMany: mockRecordAuditMany,
+  })),
+}));
+
+jest.mock('../trash/trash.service', () => ({
+  TrashService: jest.fn().mockImplementation(() => ({
+    trashEvent: mockTrashEvent,
+    restore: mockRestore,
+  })),
+}));
+
 import { TimelineService } from './timeline.service';
 
 describe('TimelineService', () => {
@@ -20,8 +40,12 @@ describe('TimelineService', () => {
 
   beforeEach(() => {
     mockQuery.mockReset();
+    mockRecordAudit.mockReset();
+    mockRecordAuditMany.mockReset();
     mockNotifyTimelineEventAdded.mockReset();
     mockNotifyTimelineEventAdded.mockResolvedValue(undefined);
+    mockTrashEvent.mockReset();
+    mockRestore.mockReset();
     timelineService = new TimelineService();
   });
 
@@ -262,6 +286,72 @@ describe('TimelineService', () => {
 
       expect(result.eventId).toBe('event123');
     });
+
+    it('should save participants with their roles in the same transaction', async () => {
+      const createDto = {
+        treeId: 'tree123',
+        eventType: EventType.MARRIAGE,
+        title: 'John and Jane got married',
+        eventDate: new Date('2015-06-20'),
+        participants: [
+          { nodeId: 'node1', role: ParticipantRole.GROOM },
+          { nodeId: 'node2', role: ParticipantRole.BRIDE },
+        ],
+        userId: 'user123',
+      };
+      const participants = [
+        { participantId: 'p1', eventId: 'event123', nodeId: 'node1', role: 'groom' },
+        { participantId: 'p2', eventId: 'event123', nodeId: 'node2', role: 'bride' },
+      ];
+
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] })
+        .mockResolvedValueOnce({ rows: [{ nodeId: 'node1' }, { nodeId: 'node2' }] })
+        .mockResolvedValueOnce({ rows: [{ eventId: 'event123', title: createDto.title }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ participants }] });
+
+      const result = await timelineService.createEvent(createDto);
+
+      expect(result.participants).toEqual(participants);
+      const [insertSql, insertParams] = mockQuery.mock.calls[3];
+      expect(insertSql).toContain('INSERT INTO event_participants');
+      expect(insertParams).toEqual(['event123', ['node1', 'node2'], ['groom', 'bride']]);
+      expect(mockRecordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: AuditAction.CREATE, after: expect.objectContaining({ participants }) }),
+        expect.anything()
+      );
+    });
+
+    it('should reject participants from outside the tree', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(timelineService.createEvent({
+        treeId: 'tree123',
+        eventType: EventType.DEATH,
+        title: 'Grandpa passed away',
+        eventDate: new Date('2020-03-10'),
+        participants: [{ nodeId: 'other-tree-node', role: ParticipantRole.DECEASED }],
+        userId: 'user123',
+      })).rejects.toMatchObject({ statusCode: 400, message: 'Participants must be people in this tree' });
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject unknown participant roles', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] });
+
+      await expect(timelineService.createEvent({
+        treeId: 'tree123',
+        eventType: EventType.MARRIAGE,
+        title: 'Wedding',
+        eventDate: new Date('2015-06-20'),
+        participants: [{ nodeId: 'node1', role: 'ring bearer' as ParticipantRole }],
+        userId: 'user123',
+      })).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('getEvents', () => {
@@ -282,11 +372,24 @@ describe('TimelineService', () => {
 
       const result = await timelineService.getEvents(treeId, userId);
 
-      expect(result.length).toBe(3);
+      expect(result.items.length).toBe(3);
       expect(mockQuery.mock.calls[1][0]).toContain('ORDER BY');
       expect(mockQuery.mock.calls[1][0]).toContain('event_date');
     });
 
+    it('should include participants visible to the user', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.VIEWER }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await timelineService.getEvents('tree123', 'user123');
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('FROM event_participants ep');
+      expect(sql).toContain("n.status = 'published' OR n.created_by = $2");
+      expect(params.slice(0, 2)).toEqual(['tree123', 'user123']);
+    });
+
     it('should throw error if user has no access', async () => {
       const treeId = 'tree123';
       const userId = 'user123';
@@ -360,6 +463,13 @@ describe('TimelineService', () => {
       const result = await timelineService.updateEvent(eventId, userId, updateDto);
 
       expect(result.title).toBe('Updated Title');
+      expect(mockRecordAudit).toHaveBeenCalledWith(expect.objectContaining({
+        entityType: AuditEntityType.EVENT,
+        entityId: eventId,
+        action: AuditAction.UPDATE,
+        before: event,
+        after: updatedEvent,
+      }), expect.anything());
     });
 
     it('should allow tree owner to update any event (Requirements 6.6)', async () => {
@@ -429,6 +539,88 @@ describe('TimelineService', () => {
     });
   });
 
+  describe('updateEvent participants', () => {
+    const event = {
+      eventId: 'event123',
+      treeId: 'tree123',
+      eventType: EventType.MARRIAGE,
+      title: 'Wedding',
+      eventDate: new Date('2015-06-20'),
+      createdBy: 'user123',
+      participants: [{ participantId: 'p1', eventId: 'event123', nodeId: 'node1', role: 'groom' }],
+    };
+
+    it('should add and remove participants and return the new list', async () => {
+      const participants = [{ participantId: 'p2', eventId: 'event123', nodeId: 'node2', role: 'witness' }];
+      mockQuery
+        .mockResolvedValueOnce({ rows: [event] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] })
+        .mockResolvedValueOnce({ rows: [{ nodeId: 'node2' }] })
+        .mockResolvedValueOnce({ rows: [{ ...event, participants: undefined }] })
+        .mockResolvedValueOnce({ rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ participants }] });
+
+      const result = await timelineService.updateEvent('event123', 'user123', {
+        addParticipants: [{ nodeId: 'node2', role: ParticipantRole.WITNESS }],
+        removeParticipants: ['node1'],
+      });
+
+      expect(result.participants).toEqual(participants);
+      expect(mockQuery.mock.calls[3][0]).toContain('updated_at = NOW()');
+      expect(mockQuery.mock.calls[4]).toEqual([expect.stringContaining('DELETE FROM event_participants'), ['event123', ['node1']]]);
+      expect(mockQuery.mock.calls[5][0]).toContain('ON CONFLICT (event_id, node_id) DO UPDATE SET role');
+      expect(mockRecordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({ before: event, after: expect.objectContaining({ participants }) }),
+        expect.anything()
+      );
+    });
+
+    it('should keep the existing participants when only fields change', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [event] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] })
+        .mockResolvedValueOnce({ rows: [{ ...event, title: 'Our wedding', participants: undefined }] });
+
+      const result = await timelineService.updateEvent('event123', 'user123', { title: 'Our wedding' });
+
+      expect(result.participants).toEqual(event.participants);
+      expect(mockQuery).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('getNodeEvents', () => {
+    it('should list the events a person takes part in', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ treeId: 'tree123', status: NodeStatus.PUBLISHED, createdBy: 'creator123' }] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.VIEWER }] })
+        .mockResolvedValueOnce({ rows: [{ eventId: 'event1', eventDate: new Date('1990-01-15') }] });
+
+      const page = await timelineService.getNodeEvents('node1', 'user123');
+
+      expect(page.items).toHaveLength(1);
+      const [sql, params] = mockQuery.mock.calls[2];
+      expect(sql).toContain('p.node_id = $1');
+      expect(sql).toContain('ORDER BY event_date ASC');
+      expect(params.slice(0, 2)).toEqual(['node1', 'user123']);
+    });
+
+    it('should hide another user\'s draft person', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ treeId: 'tree123', status: NodeStatus.DRAFT, createdBy: 'creator123' }] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] });
+
+      await expect(timelineService.getNodeEvents('node1', 'user123')).rejects.toMatchObject({ statusCode: 404 });
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw 404 for an unknown person', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await expect(timelineService.getNodeEvents('missing', 'user123')).rejects.toThrow('Node not found');
+    });
+  });
+
   describe('deleteEvent', () => {
     it('should allow creator to delete event (Requirements 6.7)', async () => {
       const eventId = 'event123';
@@ -448,16 +640,12 @@ describe('TimelineService', () => {
 
       mockQuery
         .mockResolvedValueOnce({ rows: [event] })
-        .mockResolvedValueOnce({ rows: [access] })
-        .mockResolvedValueOnce({ rowCount: 1 });
+        .mockResolvedValueOnce({ rows: [access] });
 
       await timelineService.deleteEvent(eventId, userId);
 
-      expect(mockQuery).toHaveBeenCalledTimes(3);
-      expect(mockQuery).toHaveBeenLastCalledWith(
-        'DELETE FROM timeline_events WHERE event_id = $1',
-        [eventId]
-      );
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+      expect(mockTrashEvent).toHaveBeenCalledWith(event, userId);
     });
 
     it('should allow tree owner to delete any event (Requirements 6.7)', async () => {
@@ -478,12 +666,11 @@ describe('TimelineService', () => {
 
       mockQuery
         .mockResolvedValueOnce({ rows: [event] })
-        .mockResolvedValueOnce({ rows: [access] })
-        .mockResolvedValueOnce({ rowCount: 1 });
+        .mockResolvedValueOnce({ rows: [access] });
 
       await timelineService.deleteEvent(eventId, ownerId);
 
-      expect(mockQuery).toHaveBeenCalledTimes(3);
+      expect(mockTrashEvent).toHaveBeenCalledWith(event, ownerId);
     });
 
     it('should reject delete from editor who is not creator (Requirements 6.7)', async () => {
@@ -509,6 +696,30 @@ describe('TimelineService', () => {
       await expect(timelineService.deleteEvent(eventId, editorId)).rejects.toThrow(
         'Only the event creator or tree owner can delete this event'
       );
+      expect(mockTrashEvent).not.toHaveBeenCalled();
+    });
+
+    it('should stop a creator who lacks the tree\'s required two-factor authentication', async () => {
+      const event = {
+        eventId: 'event123',
+        treeId: 'tree123',
+        eventType: EventType.BIRTH,
+        title: 'Test Event',
+        createdBy: 'user123',
+      };
+
+      mockQuery
+        .mockResolvedValueOnce({ rows: [event] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR, twoFactorMissing: true }] });
+      await expect(timelineService.deleteEvent('event123', 'user123')).rejects.toMatchObject({ code: 'TWO_FACTOR_REQUIRED' });
+
+      mockQuery
+        .mockResolvedValueOnce({ rows: [event] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR, twoFactorMissing: true }] });
+      await expect(timelineService.updateEvent('event123', 'user123', { title: 'Renamed' })).rejects.toMatchObject({ code: 'TWO_FACTOR_REQUIRED' });
+
+      expect(mockTrashEvent).not.toHaveBeenCalled();
+      expect(mockQuery).toHaveBeenCalledTimes(4);
     });
 
     it('should throw error if event not found', async () => {
@@ -520,4 +731,22 @@ describe('TimelineService', () => {
       await expect(timelineService.deleteEvent(eventId, userId)).rejects.toThrow('Event not found');
     });
   });
+
+  describe('restoreEvent', () => {
+    it('should restore the event from the trash and record the restore', async () => {
+      const event = { eventId: 'event123', treeId: 'tree123', title: 'Wedding' };
+      const client = { query: jest.fn().mockResolvedValueOnce({ rows: [event] }) };
+      mockRestore.mockImplementationOnce((_type, _id, _userId, finish) => finish(client));
+
+      const result = await timelineService.restoreEvent('event123', 'user123');
+
+      expect(result).toEqual(event);
+      expect(mockRestore).toHaveBeenCalledWith(TrashEntityType.EVENT, 'event123', 'user123', expect.any(Function));
+      expect(mockRecordAudit).toHaveBeenCalledWith(expect.objectContaining({
+        entityType: AuditEntityType.EVENT,
+        action: AuditAction.RESTORE,
+        after: event,
+      }), client);
+    });
+  });
 });
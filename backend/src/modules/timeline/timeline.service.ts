@@ -1,16 +1,41 @@
-import { query } from '../../config/database';
-import { TimelineEvent, EventType, AccessLevel } from '../../database/interfaces';
+import { PoolClient } from 'pg';
+import { query, transaction } from '../../config/database';
+import { TimelineEvent, EventType, EventParticipant, ParticipantRole, AccessLevel, AuditAction, AuditEntityType, NodeStatus, TrashEntityType, DateQualifier, DatePrecision } from '../../database/interfaces';
 import { AccessControlService } from '../../common/services/access-control.service';
 import { NotificationService } from '../notification/notification.service';
+import { AuditService } from '../audit/audit.service';
+import { TrashService } from '../trash/trash.service';
+import { RealtimeService } from '../realtime/realtime.service';
 import { AppError } from '../../common/errors/app-error';
+import { Page, PageRequest, PaginationSpec, preparePage, toPage } from '../../common/utils/pagination';
+import { DateInput, genealogicalDateFields, hasGenealogicalDateInput, mergeGenealogicalDate, parseGenealogicalDate } from '../../common/utils/genealogical-date';
+
+// Partial dates sort on the first day of their year or month
+const EVENT_PAGINATION: PaginationSpec = {
+  sorts: {
+    eventDate: { expression: 'event_date', type: 'date' },
+    createdAt: { expression: 'created_at', type: 'timestamptz' },
+  },
+  defaultSort: 'eventDate',
+  idColumn: 'event_id',
+};
+
+export interface ParticipantInput {
+  nodeId: string;
+  role?: ParticipantRole | null;
+}
 
 interface CreateEventDto {
   treeId: string;
   eventType: EventType;
   title: string;
   description?: string;
-  eventDate: Date;
+  eventDate: DateInput;
+  eventDateQualifier?: DateQualifier;
+  eventDatePrecision?: DatePrecision;
+  eventDateEnd?: DateInput | null;
   location?: string;
+  participants?: ParticipantInput[];
   userId: string;
 }
 
@@ -18,63 +43,167 @@ interface UpdateEventDto {
   eventType?: EventType;
   title?: string;
   description?: string;
-  eventDate?: Date;
+  eventDate?: DateInput;
+  eventDateQualifier?: DateQualifier;
+  eventDatePrecision?: DatePrecision;
+  eventDateEnd?: DateInput | null;
   location?: string;
+  /** Adds people to the event, or changes the role of someone already on it */
+  addParticipants?: ParticipantInput[];
+  /** Node ids of people to take off the event */
+  removeParticipants?: string[];
 }
 
-const EVENT_SELECT_FIELDS = `event_id as "eventId", tree_id as "treeId", event_type as "eventType", title, description, event_date as "eventDate", location, created_by as "createdBy", created_at as "createdAt", updated_at as "updatedAt"`;
+const eventDateInput = (dto: Pick<UpdateEventDto, 'eventDate' | 'eventDateQualifier' | 'eventDatePrecision' | 'eventDateEnd'>) => ({
+  date: dto.eventDate, qualifier: dto.eventDateQualifier, precision: dto.eventDatePrecision, end: dto.eventDateEnd,
+});
+
+const PARTICIPANT_ROLES: string[] = Object.values(ParticipantRole);
+
+export const EVENT_SELECT_FIELDS = `event_id as "eventId", tree_id as "treeId", event_type as "eventType", title, description, ${genealogicalDateFields('event_date', 'eventDate')}, location, life_event_node_id as "lifeEventNodeId", created_by as "createdBy", created_at as "createdAt", updated_at as "updatedAt"`;
+
+/**
+ * Participants of the outer `timeline_events e` row. People who are still someone
+ * else's draft are left out, matching the node endpoints.
+ */
+const participantsField = (userParam: string) => `(
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'participantId', ep.participant_id, 'eventId', ep.event_id, 'nodeId', ep.node_id, 'role', ep.role,
+    'firstName', n.first_name, 'lastName', n.last_name, 'petName', n.pet_name
+  ) ORDER BY ep.role NULLS LAST, n.last_name, n.first_name), '[]'::jsonb)
+  FROM event_participants ep
+  JOIN nodes n ON n.node_id = ep.node_id
+  WHERE ep.event_id = e.event_id AND (n.status = 'published' OR n.created_by = ${userParam})
+) as participants`;
 
 export class TimelineService {
   private accessControl: AccessControlService;
   private notificationService: NotificationService;
+  private auditService: AuditService;
+  private trashService: TrashService;
+  private realtimeService: RealtimeService;
 
   constructor() {
     this.accessControl = new AccessControlService();
     this.notificationService = new NotificationService();
+    this.auditService = new AuditService();
+    this.trashService = new TrashService();
+    this.realtimeService = new RealtimeService();
   }
 
   async createEvent(createDto: CreateEventDto): Promise<TimelineEvent> {
     await this.accessControl.requireEditAccess(createDto.treeId, createDto.userId);
+    const participants = this.parseParticipants(createDto.participants ?? []);
+    const eventDate = parseGenealogicalDate(eventDateInput(createDto), 'eventDate');
+    if (!eventDate.date) {
+      throw new AppError('eventDate is required', 400);
+    }
 
-    const result = await query<TimelineEvent>(
-      `INSERT INTO timeline_events (tree_id, event_type, title, description, event_date, location, created_by)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)
-       RETURNING ${EVENT_SELECT_FIELDS}`,
-      [
-        createDto.treeId,
-        createDto.eventType,
-        createDto.title,
-        createDto.description || null,
-        createDto.eventDate,
-        createDto.location || null,
-        createDto.userId,
-      ]
-    );
-
-    const event = result.rows[0];
+    const event = await transaction(async (client) => {
+      await this.requireParticipantNodes(client, createDto.treeId, participants, createDto.userId);
+
+      const result = await client.query<TimelineEvent>(
+        `INSERT INTO timeline_events (tree_id, event_type, title, description, event_date, event_date_qualifier, event_date_precision, event_date_end, location, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         RETURNING ${EVENT_SELECT_FIELDS}`,
+        [
+          createDto.treeId,
+          createDto.eventType,
+          createDto.title,
+          createDto.description || null,
+          eventDate.date,
+          eventDate.qualifier,
+          eventDate.precision,
+          eventDate.end,
+          createDto.location || null,
+          createDto.userId,
+        ]
+      );
+
+      const created = result.rows[0];
+      if (participants.length > 0) {
+        await this.saveParticipants(client, created.eventId, participants);
+        created.participants = await this.loadParticipants(client, created.eventId, createDto.userId);
+      } else {
+        created.participants = [];
+      }
+
+      await this.auditService.record({
+        treeId: createDto.treeId,
+        entityType: AuditEntityType.EVENT,
+        entityId: created.eventId,
+        action: AuditAction.CREATE,
+        actorId: createDto.userId,
+        after: created,
+      }, client);
+
+      return created;
+    });
+
+    this.publishChange(event, AuditAction.CREATE, createDto.userId);
     await this.notificationService.notifyTimelineEventAdded(createDto.treeId, event.eventId, event.title, createDto.userId);
 
     return event;
   }
 
-  async getEvents(treeId: string, userId: string): Promise<TimelineEvent[]> {
+  async getEvents(treeId: string, userId: string, pageRequest: PageRequest = {}): Promise<Page<TimelineEvent>> {
     await this.accessControl.checkAccess(treeId, userId);
 
+    const values: unknown[] = [treeId, userId];
+    const page = preparePage(pageRequest, EVENT_PAGINATION, values);
+
     const result = await query<TimelineEvent>(
-      `SELECT ${EVENT_SELECT_FIELDS}
-       FROM timeline_events
-       WHERE tree_id = $1
-       ORDER BY event_date ASC`,
-      [treeId]
+      `SELECT ${EVENT_SELECT_FIELDS}, ${participantsField('$2')}, ${page.columns}
+       FROM timeline_events e
+       WHERE tree_id = $1${page.condition ? ` AND ${page.condition}` : ''}
+       ORDER BY ${page.orderBy}
+       LIMIT ${page.limit}`,
+      values
     );
 
-    return result.rows;
+    return toPage(result.rows, page);
+  }
+
+  /**
+   * Life timeline of one person: every event they take part in, in the same order
+   * and pages as the tree timeline.
+   */
+  async getNodeEvents(nodeId: string, userId: string, pageRequest: PageRequest = {}): Promise<Page<TimelineEvent>> {
+    const nodeResult = await query<{ treeId: string; status: NodeStatus; createdBy: string }>(
+      `SELECT tree_id as "treeId", status, created_by as "createdBy" FROM nodes WHERE node_id = $1`,
+      [nodeId]
+    );
+
+    if (nodeResult.rows.length === 0) {
+      throw new AppError('Node not found', 404);
+    }
+
+    const node = nodeResult.rows[0];
+    await this.accessControl.checkAccess(node.treeId, userId);
+
+    if (node.status === NodeStatus.DRAFT && node.createdBy !== userId) {
+      throw new AppError('Node not found', 404);
+    }
+
+    const values: unknown[] = [nodeId, userId];
+    const page = preparePage(pageRequest, EVENT_PAGINATION, values);
+
+    const result = await query<TimelineEvent>(
+      `SELECT ${EVENT_SELECT_FIELDS}, ${participantsField('$2')}, ${page.columns}
+       FROM timeline_events e
+       WHERE EXISTS (SELECT 1 FROM event_participants p WHERE p.event_id = e.event_id AND p.node_id = $1)${page.condition ? ` AND ${page.condition}` : ''}
+       ORDER BY ${page.orderBy}
+       LIMIT ${page.limit}`,
+      values
+    );
+
+    return toPage(result.rows, page);
   }
 
   async getEventById(eventId: string, userId: string): Promise<TimelineEvent> {
     const result = await query<TimelineEvent>(
-      `SELECT ${EVENT_SELECT_FIELDS} FROM timeline_events WHERE event_id = $1`,
-      [eventId]
+      `SELECT ${EVENT_SELECT_FIELDS}, ${participantsField('$2')} FROM timeline_events e WHERE event_id = $1`,
+      [eventId, userId]
     );
 
     if (result.rows.length === 0) {
@@ -89,8 +218,8 @@ export class TimelineService {
 
   async updateEvent(eventId: string, userId: string, updateDto: UpdateEventDto): Promise<TimelineEvent> {
     const existingResult = await query<TimelineEvent>(
-      `SELECT ${EVENT_SELECT_FIELDS} FROM timeline_events WHERE event_id = $1`,
-      [eventId]
+      `SELECT ${EVENT_SELECT_FIELDS}, ${participantsField('$2')} FROM timeline_events e WHERE event_id = $1`,
+      [eventId, userId]
     );
 
     if (existingResult.rows.length === 0) {
@@ -98,7 +227,8 @@ export class TimelineService {
     }
 
     const event = existingResult.rows[0];
-    const access = await this.accessControl.checkAccess(event.treeId, userId);
+    // Creators need edit access too, so a missing 2FA or a demotion to viewer stops them
+    const access = await this.accessControl.checkAccess(event.treeId, userId, AccessLevel.EDITOR);
 
     const isCreator = event.createdBy === userId;
     const isOwner = access.accessLevel === AccessLevel.OWNER;
@@ -107,6 +237,10 @@ export class TimelineService {
       throw new AppError('Only the event creator or tree owner can modify this event', 403);
     }
 
+    const addParticipants = this.parseParticipants(updateDto.addParticipants ?? []);
+    const removeParticipants = updateDto.removeParticipants ?? [];
+    const participantsChanged = addParticipants.length > 0 || removeParticipants.length > 0;
+
     const updates: string[] = [];
     const values: unknown[] = [];
     let paramIndex = 1;
@@ -123,29 +257,66 @@ export class TimelineService {
       updates.push(`description = $${paramIndex++}`);
       values.push(updateDto.description);
     }
-    if (updateDto.eventDate !== undefined) {
-      updates.push(`event_date = $${paramIndex++}`);
-      values.push(updateDto.eventDate);
+    if (hasGenealogicalDateInput(eventDateInput(updateDto))) {
+      const eventDate = mergeGenealogicalDate(eventDateInput(updateDto), {
+        date: event.eventDate, qualifier: event.eventDateQualifier, precision: event.eventDatePrecision, end: event.eventDateEnd,
+      }, 'eventDate');
+      if (!eventDate.date) {
+        throw new AppError('eventDate cannot be cleared', 400);
+      }
+      updates.push(`event_date = $${paramIndex++}`, `event_date_qualifier = $${paramIndex++}`, `event_date_precision = $${paramIndex++}`, `event_date_end = $${paramIndex++}`);
+      values.push(eventDate.date, eventDate.qualifier, eventDate.precision, eventDate.end);
     }
     if (updateDto.location !== undefined) {
       updates.push(`location = $${paramIndex++}`);
       values.push(updateDto.location);
     }
 
-    if (updates.length === 0) {
+    if (updates.length === 0 && !participantsChanged) {
       return event;
     }
 
     updates.push(`updated_at = NOW()`);
     values.push(eventId);
 
-    const result = await query<TimelineEvent>(
-      `UPDATE timeline_events SET ${updates.join(', ')} WHERE event_id = $${paramIndex}
-       RETURNING ${EVENT_SELECT_FIELDS}`,
-      values
-    );
-
-    return result.rows[0];
+    const updated = await transaction(async (client) => {
+      await this.requireParticipantNodes(client, event.treeId, addParticipants, userId);
+
+      const result = await client.query<TimelineEvent>(
+        `UPDATE timeline_events SET ${updates.join(', ')} WHERE event_id = $${paramIndex}
+         RETURNING ${EVENT_SELECT_FIELDS}`,
+        values
+      );
+
+      const updatedEvent = result.rows[0];
+      if (participantsChanged) {
+        if (removeParticipants.length > 0) {
+          await client.query(
+            `DELETE FROM event_participants WHERE event_id = $1 AND node_id::text = ANY($2::text[])`,
+            [eventId, removeParticipants]
+          );
+        }
+        await this.saveParticipants(client, eventId, addParticipants);
+        updatedEvent.participants = await this.loadParticipants(client, eventId, userId);
+      } else {
+        updatedEvent.participants = event.participants;
+      }
+
+      await this.auditService.record({
+        treeId: event.treeId,
+        entityType: AuditEntityType.EVENT,
+        entityId: eventId,
+        action: AuditAction.UPDATE,
+        actorId: userId,
+        before: event,
+        after: updatedEvent,
+      }, client);
+
+      return updatedEvent;
+    });
+    this.publishChange(updated, AuditAction.UPDATE, userId);
+
+    return updated;
   }
 
   async deleteEvent(eventId: string, userId: string): Promise<void> {
@@ -159,7 +330,7 @@ export class TimelineService {
     }
 
     const event = result.rows[0];
-    const access = await this.accessControl.checkAccess(event.treeId, userId);
+    const access = await this.accessControl.checkAccess(event.treeId, userId, AccessLevel.EDITOR);
 
     const isCreator = event.createdBy === userId;
     const isOwner = access.accessLevel === AccessLevel.OWNER;
@@ -168,6 +339,100 @@ export class TimelineService {
       throw new AppError('Only the event creator or tree owner can delete this event', 403);
     }
 
-    await query('DELETE FROM timeline_events WHERE event_id = $1', [eventId]);
+    await this.trashService.trashEvent(event, userId);
+    await this.auditService.record({
+      treeId: event.treeId,
+      entityType: AuditEntityType.EVENT,
+      entityId: eventId,
+      action: AuditAction.DELETE,
+      actorId: userId,
+      before: event,
+    });
+    this.publishChange(event, AuditAction.DELETE, userId);
+  }
+
+  async restoreEvent(eventId: string, userId: string): Promise<TimelineEvent> {
+    const event = await this.trashService.restore(TrashEntityType.EVENT, eventId, userId, async (client) => {
+      const result = await client.query<TimelineEvent>(
+        `SELECT ${EVENT_SELECT_FIELDS}, ${participantsField('$2')} FROM timeline_events e WHERE event_id = $1`,
+        [eventId, userId]
+      );
+
+      const restored = result.rows[0];
+      await this.auditService.record({
+        treeId: restored.treeId,
+        entityType: AuditEntityType.EVENT,
+        entityId: eventId,
+        action: AuditAction.RESTORE,
+        actorId: userId,
+        after: restored,
+      }, client);
+      return restored;
+    });
+    this.publishChange(event, AuditAction.RESTORE, userId);
+
+    return event;
+  }
+
+  private publishChange(event: TimelineEvent, action: AuditAction, userId: string): void {
+    this.realtimeService.publishChange({
+      treeId: event.treeId,
+      entityType: AuditEntityType.EVENT,
+      entityId: event.eventId,
+      action,
+      actorUserId: userId,
+    });
+  }
+
+  /** Checks roles and keeps the last entry for a person listed twice */
+  private parseParticipants(inputs: ParticipantInput[]): ParticipantInput[] {
+    const byNode = new Map<string, ParticipantInput>();
+
+    for (const input of inputs) {
+      if (!input || typeof input.nodeId !== 'string') {
+        throw new AppError('Each participant requires a nodeId', 400);
+      }
+      if (input.role != null && !PARTICIPANT_ROLES.includes(input.role)) {
+        throw new AppError(`Participant role must be one of: ${PARTICIPANT_ROLES.join(', ')}`, 400);
+      }
+      byNode.set(input.nodeId, { nodeId: input.nodeId, role: input.role ?? null });
+    }
+
+    return [...byNode.values()];
+  }
+
+  /** Participants must be people in the event's tree that the user can see */
+  private async requireParticipantNodes(client: PoolClient, treeId: string, participants: ParticipantInput[], userId: string): Promise<void> {
+    if (participants.length === 0) return;
+
+    const nodeIds = participants.map(participant => participant.nodeId);
+    const result = await client.query<{ nodeId: string }>(
+      `SELECT node_id as "nodeId" FROM nodes
+       WHERE tree_id = $1 AND node_id::text = ANY($2::text[]) AND (status = 'published' OR created_by = $3)`,
+      [treeId, nodeIds, userId]
+    );
+
+    if (result.rows.length !== nodeIds.length) {
+      throw new AppError('Participants must be people in this tree', 400);
+    }
+  }
+
+  private async saveParticipants(client: PoolClient, eventId: string, participants: ParticipantInput[]): Promise<void> {
+    if (participants.length === 0) return;
+
+    await client.query(
+      `INSERT INTO event_participants (event_id, node_id, role)
+       SELECT $1, p.node_id, p.role FROM unnest($2::uuid[], $3::varchar[]) AS p(node_id, role)
+       ON CONFLICT (event_id, node_id) DO UPDATE SET role = EXCLUDED.role`,
+      [eventId, participants.map(participant => participant.nodeId), participants.map(participant => participant.role ?? null)]
+    );
+  }
+
+  private async loadParticipants(client: PoolClient, eventId: string, userId: string): Promise<EventParticipant[]> {
+    const result = await client.query<{ participants: EventParticipant[] }>(
+      `SELECT ${participantsField('$2')} FROM timeline_events e WHERE event_id = $1`,
+      [eventId, userId]
+    );
+    return result.rows[0].participants;
   }
 }
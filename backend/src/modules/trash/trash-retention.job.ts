@@ -0,0 +1,29 @@
+import { createLogger } from '../../common/logger';
+import { TrashService, getTrashRetentionDays } from './trash.service';
+
+const logger = createLogger('trash-retention');
+
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Purges expired trash on startup and then every few hours. The timer does not
+ * keep the process alive on shutdown.
+ */
+export function startTrashRetentionJob(trashService: TrashService = new TrashService()): NodeJS.Timeout {
+  const run = async (): Promise<void> => {
+    const retentionDays = getTrashRetentionDays();
+    try {
+      const purged = await trashService.purgeExpired(retentionDays);
+      if (purged.items > 0 || purged.trees > 0) {
+        logger.info({ ...purged, retentionDays }, 'Purged expired trash');
+      }
+    } catch (error) {
+      logger.error({ err: error }, 'Trash purge failed');
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
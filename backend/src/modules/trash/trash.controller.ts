@@ -0,0 +1,17 @@
+import { Response, NextFunction } from 'express';
+import { TrashService } from './trash.service';
+import { AuthRequest } from '../../common/middleware/auth.middleware';
+import { pageRequestFromQuery } from '../../common/utils/pagination';
+
+export class TrashController {
+  constructor(private trashService: TrashService) {}
+
+  async getTreeTrash(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const trash = await this.trashService.getTreeTrash(req.params.treeId, req.userId!, pageRequestFromQuery(req.query));
+      res.json(trash);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
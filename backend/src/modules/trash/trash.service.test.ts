@@ -0,0 +1,264 @@
+import { AccessLevel, Node, NodeStatus, TimelineEvent, EventType, TrashEntityType } from '../../database/interfaces';
+
+const mockQuery = jest.fn();
+const mockTransaction = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  query: (...args: unknown[]) => mockQuery(...args),
+  transaction: (callback: (client: unknown) => Promise<unknown>) => mockTransaction(callback),
+}));
+
+import { TrashService, getTrashRetentionDays } from './trash.service';
+
+describe('getTrashRetentionDays', () => {
+  const original = process.env.TRASH_RETENTION_DAYS;
+
+  afterEach(() => {
+    process.env.TRASH_RETENTION_DAYS = original;
+  });
+
+  it('should default to 30 days', () => {
+    delete process.env.TRASH_RETENTION_DAYS;
+    expect(getTrashRetentionDays()).toBe(30);
+  });
+
+  it('should read TRASH_RETENTION_DAYS and ignore invalid values', () => {
+    process.env.TRASH_RETENTION_DAYS = '7';
+    expect(getTrashRetentionDays()).toBe(7);
+
+    process.env.TRASH_RETENTION_DAYS = 'never';
+    expect(getTrashRetentionDays()).toBe(30);
+
+    process.env.TRASH_RETENTION_DAYS = '0';
+    expect(getTrashRetentionDays()).toBe(30);
+  });
+});
+
+describe('TrashService', () => {
+  let service: TrashService;
+  let client: { query: jest.Mock };
+
+  const node = {
+    nodeId: 'node1',
+    treeId: 'tree1',
+    firstName: 'John',
+    lastName: 'Doe',
+    status: NodeStatus.PUBLISHED,
+    createdBy: 'user1',
+  } as Node;
+
+  const event = {
+    eventId: 'event1',
+    treeId: 'tree1',
+    eventType: EventType.MARRIAGE,
+    title: 'Wedding',
+    createdBy: 'user1',
+  } as TimelineEvent;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockTransaction.mockReset();
+    client = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+    mockTransaction.mockImplementation((callback: (c: unknown) => Promise<unknown>) => callback(client));
+    service = new TrashService();
+  });
+
+  describe('trashNode', () => {
+    it('should snapshot the node and its dependents before deleting it', async () => {
+      const item = { trashId: 'trash1', entityType: TrashEntityType.NODE, entityId: 'node1', label: 'John Doe' };
+      client.query.mockResolvedValueOnce({ rows: [item] });
+
+      const result = await service.trashNode(node, 'John Doe', 'user1');
+
+      expect(result).toEqual(item);
+      const [insertSql, insertParams] = client.query.mock.calls[0];
+      expect(insertSql).toContain('INSERT INTO trash_items');
+      for (const key of ['node', 'lifeEvents', 'relationships', 'participants', 'comments', 'samePersonLinks', 'consolidatedNodes', 'consolidationMappings']) {
+        expect(insertSql).toContain(`'${key}'`);
+      }
+      expect(insertParams).toEqual(['node1', 'tree1', TrashEntityType.NODE, 'John Doe', 'user1', 30]);
+
+      expect(client.query.mock.calls[1][0]).toContain('DELETE FROM comments');
+      expect(client.query.mock.calls[1][0]).toContain('life_event_node_id = $1');
+      expect(client.query.mock.calls[2]).toEqual(['DELETE FROM nodes WHERE node_id = $1', ['node1']]);
+    });
+  });
+
+  describe('trashEvent', () => {
+    it('should snapshot the event with its participants and comments', async () => {
+      client.query.mockResolvedValueOnce({ rows: [{ trashId: 'trash1' }] });
+
+      await service.trashEvent(event, 'user1');
+
+      const [insertSql, insertParams] = client.query.mock.calls[0];
+      expect(insertSql).toContain("'participants'");
+      expect(insertParams.slice(0, 4)).toEqual(['event1', 'tree1', TrashEntityType.EVENT, 'Wedding']);
+      expect(client.query.mock.calls[1][0]).toContain("entity_type = 'event'");
+      expect(client.query.mock.calls[2]).toEqual(['DELETE FROM timeline_events WHERE event_id = $1', ['event1']]);
+    });
+  });
+
+  describe('getTreeTrash', () => {
+    it('should show owners everything in the trash', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.OWNER }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const page = await service.getTreeTrash('tree1', 'user1');
+
+      expect(page).toEqual({ items: [], nextCursor: null, totalEstimate: 0 });
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).not.toContain('t.deleted_by = $');
+      expect(sql).toContain('ORDER BY t.deleted_at DESC, t.trash_id DESC');
+      expect(params).toEqual(['tree1', 30, 51]);
+    });
+
+    it('should show editors only what they deleted', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await service.getTreeTrash('tree1', 'user1');
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('t.deleted_by = $3');
+      expect(params.slice(0, 3)).toEqual(['tree1', 30, 'user1']);
+    });
+
+    it('should deny viewers', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.VIEWER }] });
+
+      await expect(service.getTreeTrash('tree1', 'user1')).rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+
+  describe('restore', () => {
+    const trashed = { trashId: 'trash1', treeId: 'tree1', deletedBy: 'user2' };
+    const finish = jest.fn();
+
+    beforeEach(() => {
+      finish.mockReset();
+    });
+
+    it('should throw 404 when the item is not in the trash', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await expect(service.restore(TrashEntityType.NODE, 'node1', 'user1', finish)).rejects.toMatchObject({ statusCode: 404 });
+      expect(mockTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should only let the owner or the deleting editor restore', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [trashed] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] });
+
+      await expect(service.restore(TrashEntityType.NODE, 'node1', 'user1', finish)).rejects.toMatchObject({ statusCode: 403 });
+      expect(mockTransaction).not.toHaveBeenCalled();
+      expect(finish).not.toHaveBeenCalled();
+    });
+
+    it('should let the editor who deleted an item undo it', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ ...trashed, deletedBy: 'user1' }] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] });
+      client.query
+        .mockResolvedValueOnce({ rows: [{ snapshot: { event: { event_id: 'event1' }, participants: [], comments: [] } }] })
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 });
+
+      await service.restore(TrashEntityType.EVENT, 'event1', 'user1', finish);
+
+      expect(client.query.mock.calls[1][0]).toContain('INSERT INTO timeline_events');
+      expect(client.query).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refuse a birth event whose person has since had a new one generated', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [trashed] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.OWNER }] });
+      client.query
+        .mockResolvedValueOnce({ rows: [{ snapshot: { event: { event_id: 'event1', event_type: 'birth', life_event_node_id: 'node1' }, participants: [], comments: [] } }] })
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 });
+
+      await expect(service.restore(TrashEntityType.EVENT, 'event1', 'owner1', finish)).rejects.toMatchObject({ statusCode: 409 });
+      expect(finish).not.toHaveBeenCalled();
+      expect(client.query.mock.calls[1][0]).toContain('ON CONFLICT (life_event_node_id, event_type)');
+      expect(client.query).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reinsert the node and the related rows that still have a target', async () => {
+      const snapshot = {
+        node: { node_id: 'node1', tree_id: 'tree1' },
+        relationships: [{ relationship_id: 'rel1', node_id_1: 'node1', node_id_2: 'node2' }],
+        participants: [],
+        comments: [{ comment_id: 'comment1', entity_type: 'node', entity_id: 'node1' }],
+        samePersonLinks: [],
+        consolidatedNodes: [],
+        consolidationMappings: [],
+      };
+      mockQuery
+        .mockResolvedValueOnce({ rows: [trashed] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.OWNER }] });
+      client.query.mockResolvedValueOnce({ rows: [{ snapshot }] });
+
+      finish.mockResolvedValueOnce('restored');
+
+      await expect(service.restore(TrashEntityType.NODE, 'node1', 'owner1', finish)).resolves.toBe('restored');
+
+      expect(finish).toHaveBeenCalledWith(client);
+      const statements = client.query.mock.calls.map(([sql]) => sql as string);
+      expect(statements[0]).toContain('DELETE FROM trash_items');
+      expect(statements[1]).toContain('INSERT INTO nodes (node_id, tree_id');
+      expect(statements[1]).not.toContain('search_name');
+      expect(statements[2]).toContain('INSERT INTO relationships');
+      expect(statements[2]).toContain('ON CONFLICT DO NOTHING');
+      expect(statements[3]).toContain('INSERT INTO comments');
+      expect(statements).toHaveLength(4);
+      expect(JSON.parse(client.query.mock.calls[1][1][0])).toEqual(snapshot.node);
+    });
+
+    it('should bring back the node\'s generated events before their participants and comments', async () => {
+      const snapshot = {
+        node: { node_id: 'node1', tree_id: 'tree1' },
+        lifeEvents: [{ event_id: 'birth1', event_type: 'birth', description: 'Born at home', life_event_node_id: 'node1' }],
+        participants: [{ event_id: 'birth1', node_id: 'node1' }],
+        comments: [{ comment_id: 'comment1', entity_type: 'event', entity_id: 'birth1' }],
+      };
+      mockQuery
+        .mockResolvedValueOnce({ rows: [trashed] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.OWNER }] });
+      client.query.mockResolvedValueOnce({ rows: [{ snapshot }] });
+
+      await service.restore(TrashEntityType.NODE, 'node1', 'owner1', finish);
+
+      const statements = client.query.mock.calls.map(([sql]) => sql as string);
+      expect(statements[2]).toContain('INSERT INTO timeline_events');
+      expect(JSON.parse(client.query.mock.calls[2][1][0])).toEqual(snapshot.lifeEvents);
+      expect(statements[3]).toContain('INSERT INTO event_participants');
+      expect(statements[4]).toContain('INSERT INTO comments');
+      expect(finish).toHaveBeenCalledWith(client);
+    });
+
+    it('should throw 404 when the item was restored concurrently', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [trashed] })
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.OWNER }] });
+
+      await expect(service.restore(TrashEntityType.NODE, 'node1', 'owner1', finish)).rejects.toMatchObject({ statusCode: 404 });
+      expect(client.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('purgeExpired', () => {
+    it('should delete expired trash and deleted trees', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rowCount: 3 })
+        .mockResolvedValueOnce({ rowCount: 1 });
+
+      const purged = await service.purgeExpired(14);
+
+      expect(purged).toEqual({ items: 3, trees: 1 });
+      expect(mockQuery.mock.calls[0]).toEqual([expect.stringContaining('DELETE FROM trash_items'), [14]]);
+      expect(mockQuery.mock.calls[1]).toEqual([expect.stringContaining('DELETE FROM family_trees'), [14]]);
+    });
+  });
+});
@@ -0,0 +1,282 @@
+import { PoolClient } from 'pg';
+import { query, transaction } from '../../config/database';
+import { AccessLevel, Node, TimelineEvent, TrashEntityType, TrashItem } from '../../database/interfaces';
+import { AccessControlService } from '../../common/services/access-control.service';
+import { AppError } from '../../common/errors/app-error';
+import { Page, PageRequest, PaginationSpec, preparePage, toPage } from '../../common/utils/pagination';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const TRASH_PAGINATION: PaginationSpec = {
+  sorts: {
+    deletedAt: { expression: 't.deleted_at', type: 'timestamptz' },
+  },
+  defaultSort: '-deletedAt',
+  idColumn: 't.trash_id',
+};
+
+const TRASH_SELECT_FIELDS = `t.trash_id as "trashId", t.tree_id as "treeId", t.entity_type as "entityType", t.entity_id as "entityId", t.label, t.deleted_by as "deletedBy", u.display_name as "deletedByName", t.deleted_at as "deletedAt"`;
+
+/** nodes carries generated search columns, which cannot be inserted, so its columns are listed */
+const NODE_COLUMNS = 'node_id, tree_id, first_name, last_name, pet_name, address, place_of_birth, contact_info, profile_picture_url, date_of_birth, date_of_birth_qualifier, date_of_birth_precision, date_of_birth_end, date_of_death, date_of_death_qualifier, date_of_death_precision, date_of_death_end, status, created_by, created_at, updated_at, published_at';
+
+const NODE_RELATIONSHIP_IDS = 'SELECT relationship_id FROM relationships WHERE $1 IN (node_id_1, node_id_2)';
+
+/** Generated birth and death events go with their person through life_event_node_id */
+const NODE_LIFE_EVENT_IDS = 'SELECT event_id FROM timeline_events WHERE life_event_node_id = $1';
+
+/** Comments have no foreign key to what they are attached to, so they are trashed explicitly */
+const NODE_COMMENTS = `(entity_type = 'node' AND entity_id = $1) OR (entity_type = 'relationship' AND entity_id IN (${NODE_RELATIONSHIP_IDS}))
+  OR (entity_type = 'event' AND entity_id IN (${NODE_LIFE_EVENT_IDS}))`;
+const EVENT_COMMENTS = `entity_type = 'event' AND entity_id = $1`;
+
+/**
+ * Every row removed along with a node, by the cascades on nodes or explicitly.
+ * Keys are the snapshot fields; values select the rows as JSON.
+ */
+const NODE_SNAPSHOT = {
+  node: `(SELECT to_jsonb(n) FROM nodes n WHERE n.node_id = $1)`,
+  relationships: `(SELECT COALESCE(jsonb_agg(to_jsonb(r)), '[]') FROM relationships r WHERE $1 IN (r.node_id_1, r.node_id_2))`,
+  lifeEvents: `(SELECT COALESCE(jsonb_agg(to_jsonb(e)), '[]') FROM timeline_events e WHERE e.life_event_node_id = $1)`,
+  participants: `(SELECT COALESCE(jsonb_agg(to_jsonb(p)), '[]') FROM event_participants p
+    WHERE p.node_id = $1 OR p.event_id IN (${NODE_LIFE_EVENT_IDS}))`,
+  comments: `(SELECT COALESCE(jsonb_agg(to_jsonb(c)), '[]') FROM comments c WHERE ${NODE_COMMENTS})`,
+  samePersonLinks: `(SELECT COALESCE(jsonb_agg(to_jsonb(l)), '[]') FROM same_person_links l WHERE $1 IN (l.node_id_1, l.node_id_2))`,
+  consolidatedNodes: `(SELECT COALESCE(jsonb_agg(to_jsonb(cn)), '[]') FROM consolidated_nodes cn WHERE cn.primary_node_id = $1)`,
+  consolidationMappings: `(SELECT COALESCE(jsonb_agg(to_jsonb(m)), '[]') FROM node_consolidation_mapping m
+    WHERE m.node_id = $1 OR m.consolidated_id IN (SELECT consolidated_id FROM consolidated_nodes WHERE primary_node_id = $1))`,
+};
+
+const EVENT_SNAPSHOT = {
+  event: `(SELECT to_jsonb(e) FROM timeline_events e WHERE e.event_id = $1)`,
+  participants: `(SELECT COALESCE(jsonb_agg(to_jsonb(p)), '[]') FROM event_participants p WHERE p.event_id = $1)`,
+  comments: `(SELECT COALESCE(jsonb_agg(to_jsonb(c)), '[]') FROM comments c WHERE ${EVENT_COMMENTS})`,
+};
+
+/** Rows whose parent entity no longer exists are dropped when a snapshot is restored */
+const COMMENT_TARGET_EXISTS = `CASE r.entity_type
+  WHEN 'node' THEN EXISTS (SELECT 1 FROM nodes WHERE node_id = r.entity_id)
+  WHEN 'event' THEN EXISTS (SELECT 1 FROM timeline_events WHERE event_id = r.entity_id)
+  ELSE EXISTS (SELECT 1 FROM relationships WHERE relationship_id = r.entity_id) END`;
+const NODE_EXISTS = (column: string) => `EXISTS (SELECT 1 FROM nodes WHERE node_id = r.${column})`;
+
+type Snapshot = Record<string, unknown>;
+
+/**
+ * Days a trashed item or deleted tree is kept before the retention job purges it,
+ * from TRASH_RETENTION_DAYS.
+ */
+export function getTrashRetentionDays(): number {
+  const days = parseInt(process.env.TRASH_RETENTION_DAYS || '', 10);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+const buildSnapshot = (fields: Record<string, string>): string =>
+  `jsonb_build_object(${Object.entries(fields).map(([key, select]) => `'${key}', ${select}`).join(', ')})`;
+
+export class TrashService {
+  private accessControl: AccessControlService;
+
+  constructor() {
+    this.accessControl = new AccessControlService();
+  }
+
+  /**
+   * Moves a node to its tree's trash together with its relationships, event
+   * participations, generated birth and death events, comments, same-person
+   * links and consolidation mappings.
+   */
+  async trashNode(node: Node, label: string, userId: string): Promise<TrashItem> {
+    return await transaction(async (client) => {
+      const item = await this.insertItem(client, node.treeId, TrashEntityType.NODE, node.nodeId, label, buildSnapshot(NODE_SNAPSHOT), userId);
+      await client.query(`DELETE FROM comments WHERE ${NODE_COMMENTS}`, [node.nodeId]);
+      await client.query('DELETE FROM nodes WHERE node_id = $1', [node.nodeId]);
+      return item;
+    });
+  }
+
+  /**
+   * Moves an event to its tree's trash together with its participants and comments.
+   */
+  async trashEvent(event: TimelineEvent, userId: string): Promise<TrashItem> {
+    return await transaction(async (client) => {
+      const item = await this.insertItem(client, event.treeId, TrashEntityType.EVENT, event.eventId, event.title, buildSnapshot(EVENT_SNAPSHOT), userId);
+      await client.query(`DELETE FROM comments WHERE ${EVENT_COMMENTS}`, [event.eventId]);
+      await client.query('DELETE FROM timeline_events WHERE event_id = $1', [event.eventId]);
+      return item;
+    });
+  }
+
+  /**
+   * Lists a tree's trash, newest first. Owners see everything; editors see only
+   * what they deleted themselves.
+   */
+  async getTreeTrash(treeId: string, userId: string, pageRequest: PageRequest = {}): Promise<Page<TrashItem>> {
+    const access = await this.accessControl.checkAccess(treeId, userId, AccessLevel.EDITOR);
+
+    const values: unknown[] = [treeId, getTrashRetentionDays()];
+    const conditions = ['t.tree_id = $1'];
+
+    if (access.accessLevel !== AccessLevel.OWNER) {
+      values.push(userId);
+      conditions.push(`t.deleted_by = $${values.length}`);
+    }
+
+    const page = preparePage(pageRequest, TRASH_PAGINATION, values);
+    if (page.condition) conditions.push(page.condition);
+
+    const result = await query<TrashItem>(
+      `SELECT ${TRASH_SELECT_FIELDS}, t.deleted_at + make_interval(days => $2) as "purgeAt", ${page.columns}
+       FROM trash_items t
+       LEFT JOIN users u ON u.user_id = t.deleted_by
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY ${page.orderBy}
+       LIMIT ${page.limit}`,
+      values
+    );
+
+    return toPage(result.rows, page);
+  }
+
+  /**
+   * Puts a trashed node or event back with its original id. Related rows come back
+   * only where whatever they point at still exists. Allowed for tree owners and for
+   * the editor who deleted the item. `finish` runs in the same transaction once the
+   * rows are back, for the caller's follow-up changes and audit entries.
+   */
+  async restore<T>(
+    entityType: TrashEntityType,
+    entityId: string,
+    userId: string,
+    finish: (client: PoolClient) => Promise<T>
+  ): Promise<T> {
+    const itemResult = await query<{ trashId: string; treeId: string; deletedBy: string | null }>(
+      `SELECT trash_id as "trashId", tree_id as "treeId", deleted_by as "deletedBy"
+       FROM trash_items WHERE entity_type = $1 AND entity_id = $2`,
+      [entityType, entityId]
+    );
+
+    if (itemResult.rows.length === 0) {
+      throw new AppError('Item not found in trash', 404);
+    }
+
+    const item = itemResult.rows[0];
+    const access = await this.accessControl.checkAccess(item.treeId, userId, AccessLevel.EDITOR);
+
+    if (access.accessLevel !== AccessLevel.OWNER && item.deletedBy !== userId) {
+      throw new AppError('Only the tree owner or the person who deleted this item can restore it', 403);
+    }
+
+    return await transaction(async (client) => {
+      const removed = await client.query<{ snapshot: Snapshot }>(
+        'DELETE FROM trash_items WHERE trash_id = $1 RETURNING snapshot',
+        [item.trashId]
+      );
+
+      if (removed.rows.length === 0) {
+        throw new AppError('Item not found in trash', 404);
+      }
+
+      const snapshot = removed.rows[0].snapshot;
+      if (entityType === TrashEntityType.NODE) {
+        await this.restoreNodeRows(client, snapshot);
+      } else {
+        await this.restoreEventRows(client, snapshot);
+      }
+      return finish(client);
+    });
+  }
+
+  /**
+   * Permanently removes trashed items and deleted trees older than the retention
+   * period. Deleting a tree cascades to everything in it, including its trash.
+   */
+  async purgeExpired(retentionDays: number = getTrashRetentionDays()): Promise<{ items: number; trees: number }> {
+    const items = await query(
+      'DELETE FROM trash_items WHERE deleted_at < NOW() - make_interval(days => $1)',
+      [retentionDays]
+    );
+    const trees = await query(
+      'DELETE FROM family_trees WHERE deleted_at < NOW() - make_interval(days => $1)',
+      [retentionDays]
+    );
+
+    return { items: items.rowCount ?? 0, trees: trees.rowCount ?? 0 };
+  }
+
+  private async insertItem(
+    client: PoolClient,
+    treeId: string,
+    entityType: TrashEntityType,
+    entityId: string,
+    label: string,
+    snapshot: string,
+    userId: string
+  ): Promise<TrashItem> {
+    const result = await client.query<TrashItem>(
+      `WITH t AS (
+         INSERT INTO trash_items (tree_id, entity_type, entity_id, label, snapshot, deleted_by)
+         VALUES ($2, $3, $1, $4, ${snapshot}, $5)
+         RETURNING *
+       )
+       SELECT ${TRASH_SELECT_FIELDS}, t.deleted_at + make_interval(days => $6) as "purgeAt"
+       FROM t LEFT JOIN users u ON u.user_id = t.deleted_by`,
+      [entityId, treeId, entityType, label.slice(0, 255), userId, getTrashRetentionDays()]
+    );
+    return result.rows[0];
+  }
+
+  private async restoreNodeRows(client: PoolClient, snapshot: Snapshot): Promise<void> {
+    await client.query(
+      `INSERT INTO nodes (${NODE_COLUMNS}) SELECT ${NODE_COLUMNS} FROM jsonb_populate_record(NULL::nodes, $1::jsonb)`,
+      [JSON.stringify(snapshot.node)]
+    );
+    await this.restoreRows(client, 'timeline_events', snapshot.lifeEvents, 'TRUE');
+    await this.restoreRows(client, 'relationships', snapshot.relationships, `${NODE_EXISTS('node_id_1')} AND ${NODE_EXISTS('node_id_2')}`);
+    await this.restoreRows(
+      client,
+      'event_participants',
+      snapshot.participants,
+      `${NODE_EXISTS('node_id')} AND EXISTS (SELECT 1 FROM timeline_events WHERE event_id = r.event_id)`
+    );
+    await this.restoreRows(client, 'same_person_links', snapshot.samePersonLinks, `${NODE_EXISTS('node_id_1')} AND ${NODE_EXISTS('node_id_2')}`);
+    await this.restoreRows(client, 'consolidated_nodes', snapshot.consolidatedNodes, NODE_EXISTS('primary_node_id'));
+    await this.restoreRows(
+      client,
+      'node_consolidation_mapping',
+      snapshot.consolidationMappings,
+      `${NODE_EXISTS('node_id')} AND EXISTS (SELECT 1 FROM consolidated_nodes WHERE consolidated_id = r.consolidated_id)`
+    );
+    await this.restoreRows(client, 'comments', snapshot.comments, COMMENT_TARGET_EXISTS);
+  }
+
+  /**
+   * A generated birth or death event is refused while its person already has a
+   * newer one, rebuilt from their dates after this one was trashed.
+   */
+  private async restoreEventRows(client: PoolClient, snapshot: Snapshot): Promise<void> {
+    const inserted = await client.query(
+      `INSERT INTO timeline_events SELECT * FROM jsonb_populate_record(NULL::timeline_events, $1::jsonb)
+       ON CONFLICT (life_event_node_id, event_type) WHERE life_event_node_id IS NOT NULL DO NOTHING`,
+      [JSON.stringify(snapshot.event)]
+    );
+    if (!inserted.rowCount) {
+      throw new AppError('This person already has a generated event of this type; delete it before restoring this one', 409);
+    }
+    await this.restoreRows(client, 'event_participants', snapshot.participants, NODE_EXISTS('node_id'));
+    await this.restoreRows(client, 'comments', snapshot.comments, COMMENT_TARGET_EXISTS);
+  }
+
+  /** `table` is always a literal from this file, never user input */
+  private async restoreRows(client: PoolClient, table: string, rows: unknown, condition: string): Promise<void> {
+    if (!Array.isArray(rows) || rows.length === 0) return;
+
+    await client.query(
+      `INSERT INTO ${table}
+       SELECT r.* FROM jsonb_populate_recordset(NULL::${table}, $1::jsonb) r
+       WHERE ${condition}
+       ON CONFLICT DO NOTHING`,
+      [JSON.stringify(rows)]
+    );
+  }
+}
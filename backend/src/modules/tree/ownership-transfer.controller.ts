@@ -0,0 +1,64 @@
+import { Response, NextFunction } from 'express';
+import { OwnershipTransferService } from './ownership-transfer.service';
+import { AuthRequest } from '../../common/middleware/auth.middleware';
+
+export class OwnershipTransferController {
+  constructor(private ownershipTransferService: OwnershipTransferService) {}
+
+  async propose(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const transfer = await this.ownershipTransferService.proposeTransfer(req.params.treeId, req.userId!, {
+        toUserId: req.body.toUserId,
+        formerOwnerLevel: req.body.formerOwnerLevel,
+      });
+      res.status(201).json(transfer);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getPending(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const transfer = await this.ownershipTransferService.getPendingTransfer(req.params.treeId, req.userId!);
+      res.json({ transfer });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async cancel(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await this.ownershipTransferService.cancelTransfer(req.params.treeId, req.userId!);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getIncoming(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const transfers = await this.ownershipTransferService.getIncomingTransfers(req.userId!);
+      res.json(transfers);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async accept(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const transfer = await this.ownershipTransferService.acceptTransfer(req.params.transferId, req.userId!);
+      res.json(transfer);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async decline(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await this.ownershipTransferService.declineTransfer(req.params.transferId, req.userId!);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
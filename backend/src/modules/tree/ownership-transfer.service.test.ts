@@ -0,0 +1,194 @@
+import { AccessLevel, AuditEntityType, MailTemplate, NotificationType, OwnershipTransferStatus } from '../../database/interfaces';
+
+const mockQuery = jest.fn();
+const mockRequirePrimaryOwner = jest.fn();
+const mockRequireOwnerAccess = jest.fn();
+const mockRecordAuditMany = jest.fn();
+const mockCreateNotification = jest.fn();
+const mockSendToUser = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  query: (...args: unknown[]) => mockQuery(...args),
+  transaction: (callback: (client: unknown) => Promise<unknown>) => callback({ query: mockQuery }),
+}));
+
+jest.mock('../../common/services/access-control.service', () => ({
+  AccessControlService: jest.fn().mockImplementation(() => ({
+    requirePrimaryOwner: mockRequirePrimaryOwner,
+    requireOwnerAccess: mockRequireOwnerAccess,
+  })),
+}));
+
+jest.mock('../audit/audit.service', () => ({
+  AuditService: jest.fn().mockImplementation(() => ({
+    recordMany: mockRecordAuditMany,
+  })),
+}));
+
+jest.mock('../notification/notification.service', () => ({
+  NotificationService: jest.fn().mockImplementation(() => ({
+    createNotification: mockCreateNotification,
+  })),
+}));
+
+jest.mock('../mail/mail.service', () => ({
+  MailService: jest.fn().mockImplementation(() => ({
+    sendToUser: mockSendToUser,
+  })),
+  appUrl: (path: string) => `https://app.example.com${path}`,
+}));
+
+import { OwnershipTransferService } from './ownership-transfer.service';
+import { AppError } from '../../common/errors/app-error';
+
+const expiresAt = new Date('2025-07-15T12:00:00Z');
+const pending = {
+  transferId: 'transfer1',
+  treeId: 'tree1',
+  fromUserId: 'owner1',
+  toUserId: 'user2',
+  formerOwnerLevel: AccessLevel.EDITOR,
+  status: OwnershipTransferStatus.PENDING,
+  expiresAt,
+};
+const statements = () => mockQuery.mock.calls.map(([sql]) => sql as string);
+
+describe('OwnershipTransferService', () => {
+  let service: OwnershipTransferService;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockQuery.mockResolvedValue({ rows: [] });
+    mockRequirePrimaryOwner.mockReset();
+    mockRequireOwnerAccess.mockReset();
+    mockRecordAuditMany.mockReset();
+    mockCreateNotification.mockReset();
+    mockSendToUser.mockReset();
+    service = new OwnershipTransferService();
+  });
+
+  describe('proposeTransfer', () => {
+    it('should offer the tree to a verified member and tell them', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ emailVerifiedAt: new Date() }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [pending] })
+        .mockResolvedValueOnce({ rows: [{ treeName: 'Silva Family', fromName: 'Ana' }] });
+
+      await expect(service.proposeTransfer('tree1', 'owner1', { toUserId: 'user2' })).resolves.toEqual(pending);
+
+      expect(mockQuery.mock.calls[2][1]).toEqual(['tree1', 'owner1', 'user2', AccessLevel.EDITOR, 14]);
+      expect(mockCreateNotification).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user2',
+        notificationType: NotificationType.OWNERSHIP_TRANSFER,
+        relatedEntityId: 'transfer1',
+      }));
+      expect(mockSendToUser).toHaveBeenCalledWith('user2', MailTemplate.OWNERSHIP_TRANSFER, {
+        fromName: 'Ana',
+        treeName: 'Silva Family',
+        expiresAt,
+        actionUrl: 'https://app.example.com/ownership-transfers',
+      });
+    });
+
+    it('should leave handing over to the primary owner', async () => {
+      mockRequirePrimaryOwner.mockRejectedValueOnce(new AppError('Primary owner access required', 403));
+
+      await expect(service.proposeTransfer('tree1', 'coowner1', { toUserId: 'user2' })).rejects.toMatchObject({ statusCode: 403 });
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should only offer the tree to its members', async () => {
+      await expect(service.proposeTransfer('tree1', 'owner1', { toUserId: 'stranger' })).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should not offer the tree to an unverified account', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ emailVerifiedAt: null }] });
+
+      await expect(service.proposeTransfer('tree1', 'owner1', { toUserId: 'user2' })).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'EMAIL_NOT_VERIFIED',
+      });
+    });
+
+    it('should refuse a second offer while one is pending', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ emailVerifiedAt: new Date() }] });
+
+      await expect(service.proposeTransfer('tree1', 'owner1', { toUserId: 'user2' })).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockCreateNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acceptTransfer', () => {
+    const mockAccept = (ownerUserId: string, members: { userId: string; accessLevel: AccessLevel }[]) => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [pending] })
+        .mockResolvedValueOnce({ rows: [{ ownerUserId, treeName: 'Silva Family' }] })
+        .mockResolvedValueOnce({ rows: members });
+    };
+
+    it('should swap the owner and both members\' access together', async () => {
+      mockAccept('owner1', [
+        { userId: 'owner1', accessLevel: AccessLevel.OWNER },
+        { userId: 'user2', accessLevel: AccessLevel.VIEWER },
+      ]);
+      mockQuery.mockImplementation(async (sql: string) =>
+        sql.includes("SET status = 'accepted'") ? { rows: [{ ...pending, status: OwnershipTransferStatus.ACCEPTED }] } : { rows: [] }
+      );
+
+      const result = await service.acceptTransfer('transfer1', 'user2');
+
+      expect(result.status).toBe(OwnershipTransferStatus.ACCEPTED);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining("SET access_level = 'owner'"), ['tree1', 'user2']);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('SET access_level = $3'), ['tree1', 'owner1', AccessLevel.EDITOR]);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('UPDATE family_trees SET owner_user_id'), ['tree1', 'user2']);
+      expect(mockRecordAuditMany).toHaveBeenCalledWith([
+        expect.objectContaining({ entityType: AuditEntityType.TREE, before: { ownerUserId: 'owner1' }, after: { ownerUserId: 'user2' } }),
+        expect.objectContaining({ entityId: 'user2', before: { accessLevel: AccessLevel.VIEWER }, after: { accessLevel: AccessLevel.OWNER } }),
+        expect.objectContaining({ entityId: 'owner1', before: { accessLevel: AccessLevel.OWNER }, after: { accessLevel: AccessLevel.EDITOR } }),
+      ], expect.anything());
+      expect(mockCreateNotification).toHaveBeenCalledWith(expect.objectContaining({ userId: 'owner1' }));
+    });
+
+    it('should let the offer lapse once the proposer no longer owns the tree', async () => {
+      mockAccept('someone-else', [
+        { userId: 'owner1', accessLevel: AccessLevel.OWNER },
+        { userId: 'user2', accessLevel: AccessLevel.VIEWER },
+      ]);
+
+      await expect(service.acceptTransfer('transfer1', 'user2')).rejects.toMatchObject({ statusCode: 409 });
+
+      expect(statements().some((sql) => sql.includes("SET status = 'expired'"))).toBe(true);
+      expect(statements().some((sql) => sql.includes('UPDATE family_trees'))).toBe(false);
+    });
+
+    it('should let the offer lapse once the recipient has left the tree', async () => {
+      mockAccept('owner1', [{ userId: 'owner1', accessLevel: AccessLevel.OWNER }]);
+
+      await expect(service.acceptTransfer('transfer1', 'user2')).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockRecordAuditMany).not.toHaveBeenCalled();
+    });
+
+    it('should only let the recipient accept an open offer', async () => {
+      await expect(service.acceptTransfer('transfer1', 'user3')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('declineTransfer', () => {
+    it('should close the offer and tell the proposer', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [pending] });
+
+      await service.declineTransfer('transfer1', 'user2');
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining("SET status = 'declined'"), ['transfer1']);
+      expect(mockCreateNotification).toHaveBeenCalledWith(expect.objectContaining({ userId: 'owner1' }));
+    });
+  });
+
+  describe('cancelTransfer', () => {
+    it('should only cancel an open offer the user made', async () => {
+      await expect(service.cancelTransfer('tree1', 'coowner1')).rejects.toMatchObject({ statusCode: 404 });
+      expect(mockQuery.mock.calls[0][1]).toEqual(['tree1', 'coowner1']);
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import { PoolClient } from 'pg';
+import { query, transaction } from '../../config/database';
+import {
+  AccessLevel,
+  AuditAction,
+  AuditEntityType,
+  MailTemplate,
+  NotificationType,
+  OwnershipTransfer,
+} from '../../database/interfaces';
+import { AccessControlService } from '../../common/services/access-control.service';
+import { AppError } from '../../common/errors/app-error';
+import { createLogger } from '../../common/logger';
+import { AuditService } from '../audit/audit.service';
+import { MailService, appUrl } from '../mail/mail.service';
+import { NotificationService } from '../notification/notification.service';
+
+const logger = createLogger('ownership-transfer-service');
+
+/** Days the recipient has to accept before the offer lapses */
+export const OWNERSHIP_TRANSFER_EXPIRY_DAYS = 14;
+
+const TRANSFER_COLUMNS = `t.transfer_id as "transferId", t.tree_id as "treeId", t.from_user_id as "fromUserId", t.to_user_id as "toUserId", t.former_owner_level as "formerOwnerLevel", t.status, t.created_at as "createdAt", t.expires_at as "expiresAt", t.resolved_at as "resolvedAt"`;
+
+/** Offers that can still be accepted; expired ones are only marked when the tree gets a new offer */
+const OPEN_SQL = `t.status = 'pending' AND t.expires_at > NOW()`;
+
+interface ProposeTransferDto {
+  toUserId: string;
+  /** What the proposer's own access becomes; editor unless they choose to stay on as co-owner or viewer */
+  formerOwnerLevel?: AccessLevel;
+}
+
+/** An offer as its recipient sees it */
+export interface IncomingOwnershipTransfer extends OwnershipTransfer {
+  treeName: string;
+  fromName: string;
+}
+
+/**
+ * Handing a tree over: the primary owner offers it to a member, who accepts
+ * or declines. Accepting swaps the tree's primary owner and both members'
+ * access in one transaction.
+ */
+export class OwnershipTransferService {
+  private accessControl: AccessControlService;
+  private auditService: AuditService;
+  private mailService: MailService;
+  private notificationService: NotificationService;
+
+  constructor() {
+    this.accessControl = new AccessControlService();
+    this.auditService = new AuditService();
+    this.mailService = new MailService();
+    this.notificationService = new NotificationService();
+  }
+
+  async proposeTransfer(treeId: string, userId: string, dto: ProposeTransferDto): Promise<OwnershipTransfer> {
+    await this.accessControl.requirePrimaryOwner(treeId, userId);
+
+    if (dto.toUserId === userId) {
+      throw new AppError('Choose another member to hand the tree to', 400);
+    }
+
+    const recipient = await query<{ emailVerifiedAt: Date | null }>(
+      `SELECT u.email_verified_at as "emailVerifiedAt"
+       FROM tree_access ta
+       JOIN users u ON u.user_id = ta.user_id
+       WHERE ta.tree_id = $1 AND ta.user_id = $2`,
+      [treeId, dto.toUserId]
+    );
+    if (recipient.rows.length === 0) {
+      throw new AppError('The tree can only be handed to one of its members', 400);
+    }
+    if (!recipient.rows[0].emailVerifiedAt) {
+      throw new AppError('That account has not verified its email address yet', 409, 'EMAIL_NOT_VERIFIED');
+    }
+
+    const transfer = await transaction(async (client) => {
+      await client.query(
+        `UPDATE tree_ownership_transfers SET status = 'expired', resolved_at = NOW()
+         WHERE tree_id = $1 AND status = 'pending' AND expires_at <= NOW()`,
+        [treeId]
+      );
+
+      const result = await client.query<OwnershipTransfer>(
+        `INSERT INTO tree_ownership_transfers AS t (tree_id, from_user_id, to_user_id, former_owner_level, expires_at)
+         VALUES ($1, $2, $3, $4, NOW() + make_interval(days => $5))
+         ON CONFLICT (tree_id) WHERE status = 'pending' DO NOTHING
+         RETURNING ${TRANSFER_COLUMNS}`,
+        [treeId, userId, dto.toUserId, dto.formerOwnerLevel ?? AccessLevel.EDITOR, OWNERSHIP_TRANSFER_EXPIRY_DAYS]
+      );
+      if (result.rows.length === 0) {
+        throw new AppError('This tree already has a pending ownership transfer', 409);
+      }
+      return result.rows[0];
+    });
+
+    logger.info({ action: 'proposeTransfer', treeId, transferId: transfer.transferId, toUserId: dto.toUserId }, 'Ownership transfer proposed');
+
+    const names = await query<{ treeName: string; fromName: string }>(
+      `SELECT ft.tree_name as "treeName", u.display_name as "fromName"
+       FROM family_trees ft
+       JOIN users u ON u.user_id = $2
+       WHERE ft.tree_id = $1`,
+      [treeId, userId]
+    );
+    const { treeName, fromName } = names.rows[0];
+    await this.notificationService.createNotification({
+      userId: dto.toUserId,
+      notificationType: NotificationType.OWNERSHIP_TRANSFER,
+      message: `${fromName} wants to hand the family tree "${treeName}" over to you`,
+      relatedEntityType: 'ownership_transfer',
+      relatedEntityId: transfer.transferId,
+      treeId,
+    });
+    await this.mailService.sendToUser(dto.toUserId, MailTemplate.OWNERSHIP_TRANSFER, {
+      fromName,
+      treeName,
+      expiresAt: transfer.expiresAt,
+      actionUrl: appUrl('/ownership-transfers'),
+    });
+
+    return transfer;
+  }
+
+  /** The tree's open offer, if any; visible to all its owners */
+  async getPendingTransfer(treeId: string, userId: string): Promise<OwnershipTransfer | null> {
+    await this.accessControl.requireOwnerAccess(treeId, userId);
+
+    const result = await query<OwnershipTransfer>(
+      `SELECT ${TRANSFER_COLUMNS} FROM tree_ownership_transfers t
+       WHERE t.tree_id = $1 AND ${OPEN_SQL}`,
+      [treeId]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  async cancelTransfer(treeId: string, userId: string): Promise<void> {
+    const result = await query(
+      `UPDATE tree_ownership_transfers t SET status = 'cancelled', resolved_at = NOW()
+       WHERE t.tree_id = $1 AND t.from_user_id = $2 AND ${OPEN_SQL}
+       RETURNING t.transfer_id`,
+      [treeId, userId]
+    );
+    if (result.rows.length === 0) {
+      throw new AppError('No pending ownership transfer found', 404);
+    }
+  }
+
+  /** Open offers made to the user, for trees that are not in the trash */
+  async getIncomingTransfers(userId: string): Promise<IncomingOwnershipTransfer[]> {
+    const result = await query<IncomingOwnershipTransfer>(
+      `SELECT ${TRANSFER_COLUMNS}, ft.tree_name as "treeName", u.display_name as "fromName"
+       FROM tree_ownership_transfers t
+       JOIN family_trees ft ON ft.tree_id = t.tree_id
+       JOIN users u ON u.user_id = t.from_user_id
+       WHERE t.to_user_id = $1 AND ${OPEN_SQL} AND ft.deleted_at IS NULL
+       ORDER BY t.created_at DESC`,
+      [userId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Makes the recipient the tree's primary owner. The offer lapses if the
+   * proposer is no longer the primary owner or the recipient has left the tree.
+   */
+  async acceptTransfer(transferId: string, userId: string): Promise<OwnershipTransfer> {
+    const { transfer, treeName } = await transaction(async (client) => {
+      const transfer = await this.lockOpenTransfer(client, transferId, userId);
+
+      const tree = await client.query<{ ownerUserId: string; treeName: string }>(
+        `SELECT owner_user_id as "ownerUserId", tree_name as "treeName" FROM family_trees
+         WHERE tree_id = $1 AND deleted_at IS NULL
+         FOR UPDATE`,
+        [transfer.treeId]
+      );
+      const members = await client.query<{ userId: string; accessLevel: AccessLevel }>(
+        `SELECT user_id as "userId", access_level as "accessLevel" FROM tree_access
+         WHERE tree_id = $1 AND user_id IN ($2, $3)
+         FOR UPDATE`,
+        [transfer.treeId, transfer.fromUserId, transfer.toUserId]
+      );
+      const levelOf = (memberId: string) => members.rows.find((member) => member.userId === memberId)?.accessLevel;
+      const recipientLevel = levelOf(transfer.toUserId);
+      const proposerLevel = levelOf(transfer.fromUserId);
+
+      if (tree.rows.length === 0 || tree.rows[0].ownerUserId !== transfer.fromUserId || !recipientLevel || !proposerLevel) {
+        await client.query(
+          `UPDATE tree_ownership_transfers SET status = 'expired', resolved_at = NOW() WHERE transfer_id = $1`,
+          [transferId]
+        );
+        return { transfer: null, treeName: null };
+      }
+
+      await client.query(
+        `UPDATE tree_access SET access_level = 'owner' WHERE tree_id = $1 AND user_id = $2`,
+        [transfer.treeId, transfer.toUserId]
+      );
+      await client.query(
+        'UPDATE tree_access SET access_level = $3 WHERE tree_id = $1 AND user_id = $2',
+        [transfer.treeId, transfer.fromUserId, transfer.formerOwnerLevel]
+      );
+      await client.query(
+        'UPDATE family_trees SET owner_user_id = $2, updated_at = NOW() WHERE tree_id = $1',
+        [transfer.treeId, transfer.toUserId]
+      );
+      const accepted = await client.query<OwnershipTransfer>(
+        `UPDATE tree_ownership_transfers t SET status = 'accepted', resolved_at = NOW()
+         WHERE t.transfer_id = $1
+         RETURNING ${TRANSFER_COLUMNS}`,
+        [transferId]
+      );
+
+      await this.auditService.recordMany([
+        {
+          treeId: transfer.treeId,
+          entityType: AuditEntityType.TREE,
+          entityId: transfer.treeId,
+          action: AuditAction.UPDATE,
+          actorId: userId,
+          before: { ownerUserId: transfer.fromUserId },
+          after: { ownerUserId: transfer.toUserId },
+        },
+        {
+          treeId: transfer.treeId,
+          entityType: AuditEntityType.TREE_ACCESS,
+          entityId: transfer.toUserId,
+          action: AuditAction.UPDATE,
+          actorId: userId,
+          before: { accessLevel: recipientLevel },
+          after: { accessLevel: AccessLevel.OWNER },
+        },
+        {
+          treeId: transfer.treeId,
+          entityType: AuditEntityType.TREE_ACCESS,
+          entityId: transfer.fromUserId,
+          action: AuditAction.UPDATE,
+          actorId: userId,
+          before: { accessLevel: proposerLevel },
+          after: { accessLevel: transfer.formerOwnerLevel },
+        },
+      ], client);
+
+      return { transfer: accepted.rows[0], treeName: tree.rows[0].treeName };
+    });
+
+    if (!transfer) {
+      throw new AppError('This ownership transfer is no longer valid', 409);
+    }
+
+    logger.info({ action: 'acceptTransfer', treeId: transfer.treeId, transferId }, 'Tree ownership transferred');
+    await this.notificationService.createNotification({
+      userId: transfer.fromUserId,
+      notificationType: NotificationType.OWNERSHIP_TRANSFER,
+      message: `Your family tree "${treeName}" now has a new owner. You have ${transfer.formerOwnerLevel} access.`,
+      relatedEntityType: 'tree',
+      relatedEntityId: transfer.treeId,
+      treeId: transfer.treeId,
+    });
+    return transfer;
+  }
+
+  async declineTransfer(transferId: string, userId: string): Promise<void> {
+    const transfer = await transaction(async (client) => {
+      const transfer = await this.lockOpenTransfer(client, transferId, userId);
+      await client.query(
+        `UPDATE tree_ownership_transfers SET status = 'declined', resolved_at = NOW() WHERE transfer_id = $1`,
+        [transferId]
+      );
+      return transfer;
+    });
+
+    await this.notificationService.createNotification({
+      userId: transfer.fromUserId,
+      notificationType: NotificationType.OWNERSHIP_TRANSFER,
+      message: 'Your offer to hand over your family tree was declined',
+      relatedEntityType: 'tree',
+      relatedEntityId: transfer.treeId,
+      treeId: transfer.treeId,
+    });
+  }
+
+  private async lockOpenTransfer(client: PoolClient, transferId: string, userId: string): Promise<OwnershipTransfer> {
+    const result = await client.query<OwnershipTransfer>(
+      `SELECT ${TRANSFER_COLUMNS} FROM tree_ownership_transfers t
+       WHERE t.transfer_id = $1 AND t.to_user_id = $2 AND ${OPEN_SQL}
+       FOR UPDATE`,
+      [transferId, userId]
+    );
+    if (result.rows.length === 0) {
+      throw new AppError('Ownership transfer not found', 404);
+    }
+    return result.rows[0];
+  }
+}
@@ -0,0 +1,16 @@
+import { Response, NextFunction } from 'express';
+import { TreeValidationService } from './tree-validation.service';
+import { AuthRequest } from '../../common/middleware/auth.middleware';
+
+export class TreeValidationController {
+  constructor(private treeValidationService: TreeValidationService) {}
+
+  async getIssues(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const report = await this.treeValidationService.getIssues(req.params.treeId, req.userId!);
+      res.json(report);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,214 @@
+import { AccessLevel, DatePrecision, DateQualifier, EntityType, EventType, NodeStatus, RelationshipType } from '../../database/interfaces';
+
+const mockQuery = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  query: (...args: unknown[]) => mockQuery(...args),
+}));
+
+import { TreeValidationService, ValidationNode, findTreeIssues } from './tree-validation.service';
+
+const person = (nodeId: string, dateOfBirth?: string, dateOfDeath?: string, status = NodeStatus.PUBLISHED): ValidationNode => ({
+  nodeId,
+  firstName: nodeId,
+  lastName: 'Doe',
+  dateOfBirth: dateOfBirth ? new Date(dateOfBirth) : null,
+  dateOfDeath: dateOfDeath ? new Date(dateOfDeath) : null,
+  status,
+});
+
+const parentOf = (relationshipId: string, parentId: string, childId: string, relationshipType = RelationshipType.PARENT_CHILD) => ({
+  relationshipId,
+  nodeId1: parentId,
+  nodeId2: childId,
+  relationshipType,
+});
+
+const NOW = new Date('2024-06-01');
+
+describe('findTreeIssues', () => {
+  it('should report nothing for a consistent tree', () => {
+    const issues = findTreeIssues({
+      nodes: [person('mum', '1950-01-01'), person('kid', '1980-05-05')],
+      relationships: [parentOf('r1', 'mum', 'kid')],
+      events: [{ eventId: 'e1', eventType: EventType.BIRTH, title: 'Born', eventDate: new Date('1980-05-05'), participantIds: ['kid'] }],
+    }, NOW);
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should flag impossible node dates', () => {
+    const issues = findTreeIssues({
+      nodes: [person('a', '1990-01-01', '1980-01-01'), person('b', '2030-01-01')],
+      relationships: [{ relationshipId: 'r1', nodeId1: 'a', nodeId2: 'b', relationshipType: RelationshipType.SIBLING }],
+      events: [],
+    }, NOW);
+
+    expect(issues.map(i => [i.code, i.entityId])).toEqual([
+      ['death_before_birth', 'a'],
+      ['date_in_future', 'b'],
+    ]);
+    expect(issues[0]).toMatchObject({ severity: 'error', entityType: EntityType.NODE });
+  });
+
+  it('should only flag approximate dates that conflict however they are read', () => {
+    const aboutYear = { dateOfBirthQualifier: DateQualifier.ABOUT, dateOfBirthPrecision: DatePrecision.YEAR };
+    const issues = findTreeIssues({
+      nodes: [
+        { ...person('mum', '1950-01-01'), ...aboutYear },
+        // Born "about 1960": could be anywhere from 1955 to 1965
+        { ...person('kid', '1960-01-01'), ...aboutYear },
+        { ...person('gran', '1900-01-01', '1902-01-01'), dateOfDeathQualifier: DateQualifier.BEFORE },
+        { ...person('baby', '1938-01-01'), dateOfBirthQualifier: DateQualifier.BETWEEN, dateOfBirthPrecision: DatePrecision.YEAR, dateOfBirthEnd: new Date('1940-01-01') },
+      ],
+      relationships: [parentOf('r1', 'mum', 'kid'), parentOf('r2', 'gran', 'baby')],
+      events: [
+        { eventId: 'e1', eventType: EventType.BIRTH, title: 'Born', eventDate: new Date('1962-04-01'), participantIds: ['kid'] },
+      ],
+    }, NOW);
+
+    expect(issues.map(i => [i.code, i.entityId])).toEqual([
+      ['born_after_parent_death', 'r2'],
+    ]);
+  });
+
+  it('should flag children born before, too soon after or long after their parents', () => {
+    const issues = findTreeIssues({
+      nodes: [
+        person('parent', '1950-01-01', '1990-01-01'),
+        person('older', '1940-01-01'),
+        person('early', '1958-01-01'),
+        person('late', '1995-01-01'),
+      ],
+      relationships: [
+        parentOf('r1', 'parent', 'older'),
+        parentOf('r2', 'parent', 'early'),
+        parentOf('r3', 'parent', 'late'),
+      ],
+      events: [],
+    }, NOW);
+
+    expect(issues.map(i => [i.code, i.severity, i.entityId])).toEqual([
+      ['child_born_before_parent', 'error', 'r1'],
+      ['born_after_parent_death', 'error', 'r3'],
+      ['parent_too_young', 'warning', 'r2'],
+    ]);
+    expect(issues[0].relatedIds).toEqual(['parent', 'older']);
+  });
+
+  it('should flag over-age biological parents but not adoptive ones', () => {
+    const issues = findTreeIssues({
+      nodes: [person('old', '1900-01-01'), person('kid1', '1990-01-01'), person('kid2', '1990-01-01')],
+      relationships: [
+        parentOf('r1', 'old', 'kid1'),
+        parentOf('r2', 'old', 'kid2', RelationshipType.ADOPTED),
+      ],
+      events: [],
+    }, NOW);
+
+    expect(issues.map(i => [i.code, i.entityId])).toEqual([['parent_too_old', 'r1']]);
+    expect(issues[0].message).toBe('old Doe was 90 when kid1 Doe was born');
+  });
+
+  it('should detect people who are their own ancestor', () => {
+    const issues = findTreeIssues({
+      nodes: [person('a'), person('b'), person('c')],
+      relationships: [parentOf('r1', 'a', 'b'), parentOf('r2', 'b', 'c'), parentOf('r3', 'c', 'a')],
+      events: [],
+    }, NOW);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ code: 'ancestry_cycle', entityId: 'r3', relatedIds: ['a', 'b', 'c'] });
+  });
+
+  it('should flag duplicate spouse edges in either direction', () => {
+    const issues = findTreeIssues({
+      nodes: [person('a'), person('b')],
+      relationships: [
+        { relationshipId: 'r1', nodeId1: 'a', nodeId2: 'b', relationshipType: RelationshipType.SPOUSE },
+        { relationshipId: 'r2', nodeId1: 'b', nodeId2: 'a', relationshipType: RelationshipType.SPOUSE },
+      ],
+      events: [],
+    }, NOW);
+
+    expect(issues).toEqual([expect.objectContaining({ code: 'duplicate_relationship', entityId: 'r2', relatedIds: ['r1'] })]);
+  });
+
+  it('should not treat a remarriage as a duplicate', () => {
+    const issues = findTreeIssues({
+      nodes: [person('a'), person('b')],
+      relationships: [
+        { relationshipId: 'r1', nodeId1: 'a', nodeId2: 'b', relationshipType: RelationshipType.SPOUSE, startDate: new Date('1980-01-01') },
+        { relationshipId: 'r2', nodeId1: 'a', nodeId2: 'b', relationshipType: RelationshipType.SPOUSE, startDate: new Date('1995-06-01') },
+      ],
+      events: [],
+    }, NOW);
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should flag events outside a participant\'s lifetime', () => {
+    const issues = findTreeIssues({
+      nodes: [person('a', '1950-01-01', '2000-01-01')],
+      relationships: [],
+      events: [
+        { eventId: 'e1', eventType: EventType.BIRTH, title: 'Born', eventDate: new Date('1951-01-01'), participantIds: ['a'] },
+        { eventId: 'e2', eventType: EventType.MILESTONE, title: 'Graduated', eventDate: new Date('1940-01-01'), participantIds: ['a'] },
+        { eventId: 'e3', eventType: EventType.ACHIEVEMENT, title: 'Award', eventDate: new Date('2005-01-01'), participantIds: ['a'] },
+        { eventId: 'e4', eventType: EventType.MEMORY, title: 'Remembered', eventDate: new Date('2010-01-01'), participantIds: ['a'] },
+      ],
+    }, NOW);
+
+    expect(issues.map(i => [i.code, i.entityId, i.entityType])).toEqual([
+      ['birth_event_mismatch', 'e1', EntityType.EVENT],
+      ['event_before_birth', 'e2', EntityType.EVENT],
+      ['event_after_death', 'e3', EntityType.EVENT],
+    ]);
+  });
+
+  it('should report drafts without relationships as info', () => {
+    const issues = findTreeIssues({
+      nodes: [person('draft', undefined, undefined, NodeStatus.DRAFT), person('published')],
+      relationships: [],
+      events: [],
+    }, NOW);
+
+    expect(issues).toEqual([expect.objectContaining({ code: 'orphaned_draft', severity: 'info', entityId: 'draft' })]);
+  });
+});
+
+describe('TreeValidationService', () => {
+  let service: TreeValidationService;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    service = new TreeValidationService();
+  });
+
+  it('should build a report with counts and skip relationships to hidden nodes', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.VIEWER }] })
+      .mockResolvedValueOnce({ rows: [person('a', '1990-01-01', '1980-01-01'), person('b')] })
+      .mockResolvedValueOnce({
+        rows: [
+          { relationshipId: 'r1', nodeId1: 'a', nodeId2: 'b', relationshipType: RelationshipType.SPOUSE },
+          { relationshipId: 'r2', nodeId1: 'a', nodeId2: 'hidden', relationshipType: RelationshipType.SPOUSE },
+          { relationshipId: 'r3', nodeId1: 'hidden', nodeId2: 'a', relationshipType: RelationshipType.SPOUSE },
+        ],
+      })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const report = await service.getIssues('tree1', 'user1');
+
+    expect(report.treeId).toBe('tree1');
+    expect(report.issues.map(i => i.code)).toEqual(['death_before_birth']);
+    expect(report.counts).toEqual({ error: 1, warning: 0, info: 0 });
+    expect(mockQuery.mock.calls[1][1]).toEqual(['tree1', 'user1']);
+  });
+
+  it('should deny access without tree access', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+
+    await expect(service.getIssues('tree1', 'user1')).rejects.toMatchObject({ statusCode: 403 });
+  });
+});
@@ -0,0 +1,369 @@
+import { query } from '../../config/database';
+import { DatePrecision, DateQualifier, EntityType, EventType, NodeStatus, RelationshipType } from '../../database/interfaces';
+import { AccessControlService } from '../../common/services/access-control.service';
+import { StoredGenealogicalDate, dateBounds, genealogicalDateFields } from '../../common/utils/genealogical-date';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Youngest age at which someone is plausibly a parent */
+export const MIN_PARENT_AGE = 12;
+/** Oldest age at which someone is plausibly a biological parent */
+export const MAX_PARENT_AGE = 80;
+/** Longest gap between a parent's death and a child's birth (posthumous births) */
+const POSTHUMOUS_BIRTH_MS = 300 * DAY_MS;
+
+/** Relationship types that make nodeId1 an ancestor of nodeId2 */
+const ANCESTRY_TYPES = [RelationshipType.PARENT_CHILD, RelationshipType.ADOPTED];
+
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+export type IssueCode =
+  | 'death_before_birth'
+  | 'date_in_future'
+  | 'child_born_before_parent'
+  | 'parent_too_young'
+  | 'parent_too_old'
+  | 'born_after_parent_death'
+  | 'ancestry_cycle'
+  | 'duplicate_relationship'
+  | 'event_before_birth'
+  | 'event_after_death'
+  | 'birth_event_mismatch'
+  | 'orphaned_draft';
+
+export interface TreeIssue {
+  code: IssueCode;
+  severity: IssueSeverity;
+  message: string;
+  entityType: EntityType;
+  entityId: string;
+  /** Other entities involved, e.g. the parent in a parent/child date conflict */
+  relatedIds: string[];
+}
+
+export interface TreeIssueReport {
+  treeId: string;
+  issues: TreeIssue[];
+  counts: Record<IssueSeverity, number>;
+}
+
+export interface ValidationNode {
+  nodeId: string;
+  firstName?: string;
+  lastName?: string;
+  petName?: string;
+  dateOfBirth?: Date | null;
+  dateOfBirthQualifier?: DateQualifier;
+  dateOfBirthPrecision?: DatePrecision;
+  dateOfBirthEnd?: Date | null;
+  dateOfDeath?: Date | null;
+  dateOfDeathQualifier?: DateQualifier;
+  dateOfDeathPrecision?: DatePrecision;
+  dateOfDeathEnd?: Date | null;
+  status: NodeStatus;
+}
+
+export interface ValidationRelationship {
+  relationshipId: string;
+  nodeId1: string;
+  nodeId2: string;
+  relationshipType: RelationshipType;
+  startDate?: Date | null;
+}
+
+export interface ValidationEvent {
+  eventId: string;
+  eventType: EventType;
+  title: string;
+  eventDate: Date;
+  eventDateQualifier?: DateQualifier;
+  eventDatePrecision?: DatePrecision;
+  eventDateEnd?: Date | null;
+  participantIds: string[];
+}
+
+export interface TreeSnapshot {
+  nodes: ValidationNode[];
+  relationships: ValidationRelationship[];
+  events: ValidationEvent[];
+}
+
+const SEVERITY_ORDER: IssueSeverity[] = ['error', 'warning', 'info'];
+
+const nameOf = (node: ValidationNode): string =>
+  node.petName || `${node.firstName || ''} ${node.lastName || ''}`.trim() || 'Unnamed person';
+
+const time = (date: Date | null | undefined): number | null => (date ? new Date(date).getTime() : null);
+
+/** Whole years from one date to another, as a person's age is counted */
+const yearsBetween = (from: number, to: number): number => {
+  const start = new Date(from);
+  const end = new Date(to);
+  const beforeAnniversary = end.getMonth() < start.getMonth()
+    || (end.getMonth() === start.getMonth() && end.getDate() < start.getDate());
+  return end.getFullYear() - start.getFullYear() - (beforeAnniversary ? 1 : 0);
+};
+
+/** First and last moment a date can stand for; null when unknown or open-ended */
+interface Bounds {
+  earliest: number | null;
+  latest: number | null;
+}
+
+const boundsOf = (date: StoredGenealogicalDate): Bounds => {
+  const bounds = dateBounds(date);
+  return { earliest: time(bounds.earliest), latest: time(bounds.latest) };
+};
+
+const birthOf = (node: ValidationNode): Bounds => boundsOf({
+  date: node.dateOfBirth, qualifier: node.dateOfBirthQualifier, precision: node.dateOfBirthPrecision, end: node.dateOfBirthEnd,
+});
+
+const deathOf = (node: ValidationNode): Bounds => boundsOf({
+  date: node.dateOfDeath, qualifier: node.dateOfDeathQualifier, precision: node.dateOfDeathPrecision, end: node.dateOfDeathEnd,
+});
+
+/** Whether every reading of `a` falls before every reading of `b` */
+const before = (a: Bounds, b: Bounds): boolean => a.latest !== null && b.earliest !== null && a.latest < b.earliest;
+
+// Approximate and partial dates are checked on their ranges: an issue is only reported
+// when it holds however the dates are read.
+function checkNodeDates(node: ValidationNode, now: number, issues: TreeIssue[]): void {
+  const birth = birthOf(node);
+  const death = deathOf(node);
+  const base = { entityType: EntityType.NODE, entityId: node.nodeId, relatedIds: [] };
+
+  if (before(death, birth)) {
+    issues.push({ ...base, code: 'death_before_birth', severity: 'error', message: `${nameOf(node)} died before they were born` });
+  }
+  if ((birth.earliest !== null && birth.earliest > now) || (death.earliest !== null && death.earliest > now)) {
+    issues.push({ ...base, code: 'date_in_future', severity: 'error', message: `${nameOf(node)} has a birth or death date in the future` });
+  }
+}
+
+function checkParentChild(
+  rel: ValidationRelationship,
+  parent: ValidationNode,
+  child: ValidationNode,
+  issues: TreeIssue[]
+): void {
+  const parentBirth = birthOf(parent);
+  const parentDeath = deathOf(parent);
+  const childBirth = birthOf(child);
+
+  const base = { entityType: EntityType.RELATIONSHIP, entityId: rel.relationshipId, relatedIds: [parent.nodeId, child.nodeId] };
+  const parentName = nameOf(parent);
+  const childName = nameOf(child);
+
+  if (childBirth.latest !== null && parentBirth.earliest !== null && childBirth.latest <= parentBirth.earliest) {
+    issues.push({ ...base, code: 'child_born_before_parent', severity: 'error', message: `${childName} was born before their parent ${parentName}` });
+  } else if (childBirth.latest !== null && parentBirth.earliest !== null && yearsBetween(parentBirth.earliest, childBirth.latest) < MIN_PARENT_AGE) {
+    const age = yearsBetween(parentBirth.earliest, childBirth.latest);
+    issues.push({ ...base, code: 'parent_too_young', severity: 'warning', message: `${parentName} was ${age} when ${childName} was born` });
+  } else if (
+    childBirth.earliest !== null && parentBirth.latest !== null && rel.relationshipType === RelationshipType.PARENT_CHILD
+    && yearsBetween(parentBirth.latest, childBirth.earliest) > MAX_PARENT_AGE
+  ) {
+    const age = yearsBetween(parentBirth.latest, childBirth.earliest);
+    issues.push({ ...base, code: 'parent_too_old', severity: 'warning', message: `${parentName} was ${age} when ${childName} was born` });
+  }
+
+  if (
+    parentDeath.latest !== null && childBirth.earliest !== null && rel.relationshipType === RelationshipType.PARENT_CHILD
+    && childBirth.earliest > parentDeath.latest + POSTHUMOUS_BIRTH_MS
+  ) {
+    issues.push({ ...base, code: 'born_after_parent_death', severity: 'error', message: `${childName} was born after their parent ${parentName} died` });
+  }
+}
+
+/**
+ * Reports each cycle of parent/child edges once, anchored on the cycle's first
+ * relationship found by a depth-first walk.
+ */
+function checkAncestryCycles(relationships: ValidationRelationship[], issues: TreeIssue[]): void {
+  const children = new Map<string, ValidationRelationship[]>();
+  for (const rel of relationships) {
+    if (!ANCESTRY_TYPES.includes(rel.relationshipType)) continue;
+    children.set(rel.nodeId1, [...(children.get(rel.nodeId1) ?? []), rel]);
+  }
+
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: ValidationRelationship[] = [];
+
+  const visit = (nodeId: string): void => {
+    state.set(nodeId, 'visiting');
+    for (const rel of children.get(nodeId) ?? []) {
+      const childState = state.get(rel.nodeId2);
+      if (childState === 'visiting') {
+        const start = stack.findIndex(edge => edge.nodeId1 === rel.nodeId2);
+        const cycle = [...stack.slice(start === -1 ? stack.length : start), rel];
+        issues.push({
+          code: 'ancestry_cycle',
+          severity: 'error',
+          message: 'Someone is recorded as their own ancestor',
+          entityType: EntityType.RELATIONSHIP,
+          entityId: rel.relationshipId,
+          relatedIds: cycle.map(edge => edge.nodeId1),
+        });
+      } else if (childState === undefined) {
+        stack.push(rel);
+        visit(rel.nodeId2);
+        stack.pop();
+      }
+    }
+    state.set(nodeId, 'done');
+  };
+
+  for (const nodeId of children.keys()) {
+    if (!state.has(nodeId)) visit(nodeId);
+  }
+}
+
+function checkDuplicateRelationships(relationships: ValidationRelationship[], issues: TreeIssue[]): void {
+  const seen = new Map<string, ValidationRelationship>();
+
+  for (const rel of relationships) {
+    // Direction matters for parent/child edges but not for spouses or siblings. A
+    // different start date is a separate relationship, such as a remarriage.
+    const symmetric = rel.relationshipType === RelationshipType.SPOUSE || rel.relationshipType === RelationshipType.SIBLING;
+    const pair = symmetric ? [rel.nodeId1, rel.nodeId2].sort() : [rel.nodeId1, rel.nodeId2];
+    const key = `${rel.relationshipType}:${pair.join(':')}:${time(rel.startDate) ?? ''}`;
+
+    const original = seen.get(key);
+    if (original) {
+      issues.push({
+        code: 'duplicate_relationship',
+        severity: 'warning',
+        message: `Duplicate ${rel.relationshipType.replace('_', '/')} relationship`,
+        entityType: EntityType.RELATIONSHIP,
+        entityId: rel.relationshipId,
+        relatedIds: [original.relationshipId],
+      });
+    } else {
+      seen.set(key, rel);
+    }
+  }
+}
+
+function checkEvent(event: ValidationEvent, nodes: Map<string, ValidationNode>, issues: TreeIssue[]): void {
+  const eventDate = boundsOf({
+    date: event.eventDate, qualifier: event.eventDateQualifier, precision: event.eventDatePrecision, end: event.eventDateEnd,
+  });
+
+  for (const participantId of event.participantIds) {
+    const node = nodes.get(participantId);
+    if (!node) continue;
+
+    const birth = birthOf(node);
+    const death = deathOf(node);
+    const base = { entityType: EntityType.EVENT, entityId: event.eventId, relatedIds: [node.nodeId] };
+
+    if (event.eventType === EventType.BIRTH && (before(birth, eventDate) || before(eventDate, birth))) {
+      issues.push({ ...base, code: 'birth_event_mismatch', severity: 'warning', message: `"${event.title}" does not match ${nameOf(node)}'s date of birth` });
+    } else if (event.eventType !== EventType.BIRTH && before(eventDate, birth)) {
+      issues.push({ ...base, code: 'event_before_birth', severity: 'warning', message: `"${event.title}" is dated before ${nameOf(node)} was born` });
+    }
+
+    // Memories are often recorded about people who have died
+    if (before(death, eventDate) && event.eventType !== EventType.MEMORY) {
+      issues.push({ ...base, code: 'event_after_death', severity: 'warning', message: `"${event.title}" is dated after ${nameOf(node)} died` });
+    }
+  }
+}
+
+/**
+ * Runs every consistency check over a tree and returns the issues, most severe first.
+ */
+export function findTreeIssues(snapshot: TreeSnapshot, now: Date = new Date()): TreeIssue[] {
+  const issues: TreeIssue[] = [];
+  const nodes = new Map(snapshot.nodes.map(node => [node.nodeId, node]));
+  const connected = new Set<string>();
+
+  for (const node of snapshot.nodes) {
+    checkNodeDates(node, now.getTime(), issues);
+  }
+
+  for (const rel of snapshot.relationships) {
+    connected.add(rel.nodeId1);
+    connected.add(rel.nodeId2);
+
+    const parent = nodes.get(rel.nodeId1);
+    const child = nodes.get(rel.nodeId2);
+    if (parent && child && ANCESTRY_TYPES.includes(rel.relationshipType)) {
+      checkParentChild(rel, parent, child, issues);
+    }
+  }
+
+  checkAncestryCycles(snapshot.relationships, issues);
+  checkDuplicateRelationships(snapshot.relationships, issues);
+
+  for (const event of snapshot.events) {
+    checkEvent(event, nodes, issues);
+  }
+
+  for (const node of snapshot.nodes) {
+    if (node.status === NodeStatus.DRAFT && !connected.has(node.nodeId)) {
+      issues.push({
+        code: 'orphaned_draft',
+        severity: 'info',
+        message: `${nameOf(node)} is a draft with no relationships`,
+        entityType: EntityType.NODE,
+        entityId: node.nodeId,
+        relatedIds: [],
+      });
+    }
+  }
+
+  return issues.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+}
+
+export class TreeValidationService {
+  private accessControl: AccessControlService;
+
+  constructor() {
+    this.accessControl = new AccessControlService();
+  }
+
+  async getIssues(treeId: string, userId: string): Promise<TreeIssueReport> {
+    await this.accessControl.checkAccess(treeId, userId);
+
+    const nodesResult = await query<ValidationNode>(
+      `SELECT node_id as "nodeId", first_name as "firstName", last_name as "lastName", pet_name as "petName",
+              ${genealogicalDateFields('date_of_birth', 'dateOfBirth')}, ${genealogicalDateFields('date_of_death', 'dateOfDeath')}, status
+       FROM nodes
+       WHERE tree_id = $1 AND (status = 'published' OR created_by = $2)`,
+      [treeId, userId]
+    );
+
+    const relationshipsResult = await query<ValidationRelationship>(
+      `SELECT relationship_id as "relationshipId", node_id_1 as "nodeId1", node_id_2 as "nodeId2", relationship_type as "relationshipType", start_date as "startDate"
+       FROM relationships
+       WHERE tree_id = $1
+       ORDER BY created_at`,
+      [treeId]
+    );
+
+    const eventsResult = await query<ValidationEvent>(
+      `SELECT e.event_id as "eventId", e.event_type as "eventType", e.title, ${genealogicalDateFields('e.event_date', 'eventDate')},
+              COALESCE(array_agg(ep.node_id) FILTER (WHERE ep.node_id IS NOT NULL), '{}') as "participantIds"
+       FROM timeline_events e
+       LEFT JOIN event_participants ep ON ep.event_id = e.event_id
+       WHERE e.tree_id = $1
+       GROUP BY e.event_id`,
+      [treeId]
+    );
+
+    // Relationships touching nodes this user cannot see are left out of the report
+    const visible = new Set(nodesResult.rows.map(node => node.nodeId));
+    const issues = findTreeIssues({
+      nodes: nodesResult.rows,
+      relationships: relationshipsResult.rows.filter(rel => visible.has(rel.nodeId1) && visible.has(rel.nodeId2)),
+      events: eventsResult.rows,
+    });
+
+    const counts: Record<IssueSeverity, number> = { error: 0, warning: 0, info: 0 };
+    for (const issue of issues) counts[issue.severity] += 1;
+
+    return { treeId, issues, counts };
+  }
+}
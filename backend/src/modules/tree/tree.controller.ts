@@ -53,6 +53,24 @@ export class TreeController {
     }
   }
 
+  async getDeleted(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const trees = await this.treeService.getDeletedTrees(req.userId!);
+      res.json(trees);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async restore(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const tree = await this.treeService.restoreTree(req.params.treeId, req.userId!);
+      res.json(tree);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async getAccess(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const accessList = await this.treeService.getTreeAccess(req.params.treeId, req.userId!);
@@ -180,9 +180,9 @@ describe('Tree Service Property Tests', () => {
  * Property: For any tree deletion by the owner, all associated nodes, relationships,
  * access records, events, and comments should be removed
  * 
- * Note: With raw SQL and ON DELETE CASCADE foreign keys, the database handles
- * cascade deletion automatically. This test verifies the delete query is executed
- * with proper owner access validation.
+ * Note: Deleting a tree only marks it deleted; the ON DELETE CASCADE foreign keys
+ * remove its contents when the trash retention job purges it. This test verifies
+ * the tree is marked deleted with proper owner access validation.
  */
 describe('Property 15: Tree deletion cascade', () => {
   const uuidArb = fc.uuid();
@@ -214,8 +214,8 @@ describe('Property 15: Tree deletion cascade', () => {
                 }],
               };
             }
-            if (sql.includes('DELETE FROM family_trees')) {
-              return { rowCount: 1 };
+            if (sql.includes('UPDATE family_trees SET deleted_at')) {
+              return { rows: [{ treeId, treeName: 'Tree', ownerUserId: userId }] };
             }
             return { rows: [] };
           });
@@ -227,7 +227,7 @@ describe('Property 15: Tree deletion cascade', () => {
             q.includes('SELECT') && q.includes('tree_access')
           );
           const deleteCalled = queriesCalled.some(q => 
-            q.includes('DELETE FROM family_trees')
+            q.includes('UPDATE family_trees SET deleted_at')
           );
 
           return accessCheckCalled && deleteCalled;
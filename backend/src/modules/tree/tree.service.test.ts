@@ -1,13 +1,36 @@
-import { AccessLevel } from '../../database/interfaces';
+import { AccessLevel, AuditAction, AuditEntityType, MailTemplate } from '../../database/interfaces';
 
 const mockQuery = jest.fn();
+const mockRecordAudit = jest.fn();
+const mockRecordAuditMany = jest.fn();
 const mockTransaction = jest.fn();
+const mockSendMail = jest.fn();
 
 jest.mock('../../config/database', () => ({
   query: (...args: unknown[]) => mockQuery(...args),
   transaction: (callback: (client: unknown) => Promise<unknown>) => mockTransaction(callback),
 }));
 
+jest.mock('../audit/audit.service', () => ({
+  AuditService: jest.fn().mockImplementation(() => ({
+    record: mockRecordAudit,
+    recordMany: mockRecordAuditMany,
+  })),
+}));
+
+jest.mock('../mail/mail.service', () => ({
+  MailService: jest.fn().mockImplementation(() => ({
+    send: mockSendMail,
+  })),
+  appUrl: (path: string) => `https://app.example.com${path}`,
+}));
+
+jest.mock('../notification/notification.service', () => ({
+  NotificationService: jest.fn().mockImplementation(() => ({
+    notifyAccessGranted: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
 import { TreeService } from './tree.service';
 
 describe('TreeService', () => {
@@ -15,7 +38,10 @@ describe('TreeService', () => {
 
   beforeEach(() => {
     mockQuery.mockReset();
+    mockRecordAudit.mockReset();
+    mockRecordAuditMany.mockReset();
     mockTransaction.mockReset();
+    mockSendMail.mockReset();
     treeService = new TreeService();
   });
 
@@ -104,13 +130,68 @@ describe('TreeService', () => {
       const access = { treeId, userId, accessLevel: AccessLevel.OWNER };
       const updatedTree = { treeId, treeName: 'Updated Name', ownerUserId: userId, createdAt: new Date(), updatedAt: new Date() };
 
+      const existingTree = { ...updatedTree, treeName: 'Old Name' };
+
       mockQuery
         .mockResolvedValueOnce({ rows: [access] })
+        .mockResolvedValueOnce({ rows: [existingTree] })
         .mockResolvedValueOnce({ rows: [updatedTree] });
 
       const result = await treeService.updateTree(treeId, userId, updateDto);
 
       expect(result.treeName).toBe(updateDto.treeName);
+      expect(mockRecordAudit).toHaveBeenCalledWith(expect.objectContaining({
+        entityType: AuditEntityType.TREE,
+        action: AuditAction.UPDATE,
+        before: existingTree,
+        after: updatedTree,
+      }));
+    });
+
+    it('should let owners opt out of automatic life events', async () => {
+      const treeId = 'tree123';
+      const userId = 'user123';
+      const tree = { treeId, treeName: 'Tree', ownerUserId: userId, autoLifeEvents: true };
+
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ treeId, userId, accessLevel: AccessLevel.OWNER }] })
+        .mockResolvedValueOnce({ rows: [tree] })
+        .mockResolvedValueOnce({ rows: [{ ...tree, autoLifeEvents: false }] });
+
+      const result = await treeService.updateTree(treeId, userId, { autoLifeEvents: false });
+
+      expect(result.autoLifeEvents).toBe(false);
+      const [updateSql, updateParams] = mockQuery.mock.calls[2];
+      expect(updateSql).toContain('auto_life_events = $1');
+      expect(updateParams).toEqual([false, treeId]);
+    });
+
+    it('should let an owner with 2FA require it of editors', async () => {
+      const treeId = 'tree123';
+      const userId = 'user123';
+      const tree = { treeId, treeName: 'Tree', ownerUserId: userId, requireTwoFactor: false };
+
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ treeId, userId, accessLevel: AccessLevel.OWNER }] })
+        .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] })
+        .mockResolvedValueOnce({ rows: [tree] })
+        .mockResolvedValueOnce({ rows: [{ ...tree, requireTwoFactor: true }] });
+
+      const result = await treeService.updateTree(treeId, userId, { requireTwoFactor: true });
+
+      expect(result.requireTwoFactor).toBe(true);
+      expect(mockQuery.mock.calls[3][0]).toContain('require_two_factor = $1');
+    });
+
+    it('should not let an owner without 2FA require it', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ treeId: 'tree123', userId: 'user123', accessLevel: AccessLevel.OWNER }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(treeService.updateTree('tree123', 'user123', { requireTwoFactor: true })).rejects.toMatchObject({
+        statusCode: 400,
+        code: 'TWO_FACTOR_REQUIRED',
+      });
     });
 
     it('should throw error if user is not owner', async () => {
@@ -131,13 +212,30 @@ describe('TreeService', () => {
       const userId = 'user123';
 
       const access = { treeId, userId, accessLevel: AccessLevel.OWNER };
+      const tree = { treeId, treeName: 'Smith Family', ownerUserId: userId };
       mockQuery
         .mockResolvedValueOnce({ rows: [access] })
-        .mockResolvedValueOnce({ rowCount: 1 });
+        .mockResolvedValueOnce({ rows: [tree] });
 
       await treeService.deleteTree(treeId, userId);
 
       expect(mockQuery).toHaveBeenCalledTimes(2);
+      expect(mockQuery.mock.calls[1][0]).toContain('SET deleted_at = NOW(), deleted_by = $2');
+      expect(mockQuery.mock.calls[1][1]).toEqual([treeId, userId]);
+      expect(mockRecordAudit).toHaveBeenCalledWith(expect.objectContaining({
+        entityType: AuditEntityType.TREE,
+        action: AuditAction.DELETE,
+        before: tree,
+      }));
+    });
+
+    it('should throw 404 if the tree is already deleted', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.OWNER }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(treeService.deleteTree('tree123', 'user123')).rejects.toMatchObject({ statusCode: 404 });
+      expect(mockRecordAudit).not.toHaveBeenCalled();
     });
 
     it('should throw error if user is not owner', async () => {
@@ -150,4 +248,206 @@ describe('TreeService', () => {
       await expect(treeService.deleteTree(treeId, userId)).rejects.toThrow('Owner access required');
     });
   });
+
+  describe('getDeletedTrees', () => {
+    it('should list the deleted trees the user owns with their purge date', async () => {
+      const deletedTree = { treeId: 'tree123', treeName: 'Smith Family', deletedAt: new Date(), purgeAt: new Date() };
+      mockQuery.mockResolvedValueOnce({ rows: [deletedTree] });
+
+      const result = await treeService.getDeletedTrees('user123');
+
+      expect(result).toEqual([deletedTree]);
+      expect(mockQuery.mock.calls[0][0]).toContain("ta.access_level = 'owner' AND ft.deleted_at IS NOT NULL");
+      expect(mockQuery.mock.calls[0][1]).toEqual(['user123', 30]);
+    });
+  });
+
+  describe('restoreTree', () => {
+    it('should clear the deletion and record the restore', async () => {
+      const tree = { treeId: 'tree123', treeName: 'Smith Family', ownerUserId: 'user123' };
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.OWNER }] })
+        .mockResolvedValueOnce({ rows: [tree] });
+
+      const result = await treeService.restoreTree('tree123', 'user123');
+
+      expect(result).toEqual(tree);
+      expect(mockQuery.mock.calls[1][0]).toContain('SET deleted_at = NULL, deleted_by = NULL');
+      expect(mockRecordAudit).toHaveBeenCalledWith(expect.objectContaining({
+        entityType: AuditEntityType.TREE,
+        action: AuditAction.RESTORE,
+        after: tree,
+      }));
+    });
+
+    it('should throw 404 if the tree is not in the deleted list', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await expect(treeService.restoreTree('tree123', 'user123')).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should only let owners restore', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ accessLevel: AccessLevel.EDITOR }] });
+
+      await expect(treeService.restoreTree('tree123', 'user123')).rejects.toThrow('Owner access required');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('grantTreeAccess', () => {
+    const targetUser = { userId: 'user456', email: 'sam@example.com', displayName: 'Sam', locale: 'es', emailVerifiedAt: new Date() };
+
+    const mockShare = (
+      existingLevel: AccessLevel | null,
+      emailVerifiedAt: Date | null = targetUser.emailVerifiedAt,
+      primaryOwnerId = 'owner123'
+    ) => {
+      mockQuery.mockImplementation((sql: string, params: unknown[]) => {
+        if (sql.includes('FROM users WHERE LOWER(email)')) {
+          return { rows: [{ ...targetUser, emailVerifiedAt }] };
+        }
+        if (sql.includes('FROM tree_access ta')) {
+          return { rows: params[1] === 'owner123' ? [{ accessLevel: AccessLevel.OWNER }] : existingLevel ? [{ accessLevel: existingLevel }] : [] };
+        }
+        if (sql.includes('owner_user_id as "ownerUserId" FROM family_trees')) {
+          return { rows: [{ ownerUserId: primaryOwnerId }] };
+        }
+        if (sql.includes('INSERT INTO tree_access')) {
+          return { rows: [{ accessId: 'access1', treeId: 'tree123', userId: 'user456', accessLevel: params[2] }] };
+        }
+        if (sql.includes('inviterName')) {
+          return { rows: [{ treeName: 'Smith Family', inviterName: 'Priya' }] };
+        }
+        return { rows: [{ treeName: 'Smith Family' }] };
+      });
+    };
+
+    it('should email a newly added member in their language', async () => {
+      mockShare(null);
+
+      const result = await treeService.grantTreeAccess('tree123', 'owner123', {
+        email: 'Sam@Example.com',
+        accessLevel: AccessLevel.EDITOR,
+      });
+
+      expect(result).toMatchObject({ userId: 'user456', email: 'sam@example.com', accessLevel: AccessLevel.EDITOR });
+      expect(mockSendMail).toHaveBeenCalledWith('sam@example.com', MailTemplate.INVITATION, {
+        inviterName: 'Priya',
+        treeName: 'Smith Family',
+        accessLevel: AccessLevel.EDITOR,
+        actionUrl: 'https://app.example.com/trees/tree123',
+      }, 'es');
+    });
+
+    it('should not email a member whose access level changes', async () => {
+      mockShare(AccessLevel.VIEWER);
+
+      await treeService.grantTreeAccess('tree123', 'owner123', {
+        email: 'sam@example.com',
+        accessLevel: AccessLevel.EDITOR,
+      });
+
+      expect(mockSendMail).not.toHaveBeenCalled();
+      expect(mockRecordAudit).toHaveBeenCalledWith(expect.objectContaining({ action: AuditAction.UPDATE }));
+    });
+
+    it('should not share with an account whose email is unverified', async () => {
+      mockShare(null, null);
+
+      await expect(treeService.grantTreeAccess('tree123', 'owner123', {
+        email: 'sam@example.com',
+        accessLevel: AccessLevel.VIEWER,
+      })).rejects.toMatchObject({ statusCode: 409, code: 'EMAIL_NOT_VERIFIED' });
+      expect(mockQuery).not.toHaveBeenCalledWith(expect.stringContaining('INSERT INTO tree_access'), expect.anything());
+    });
+
+    it('should still let an unverified member be downgraded', async () => {
+      mockShare(AccessLevel.EDITOR, null);
+
+      const result = await treeService.grantTreeAccess('tree123', 'owner123', {
+        email: 'sam@example.com',
+        accessLevel: AccessLevel.VIEWER,
+      });
+
+      expect(result.accessLevel).toBe(AccessLevel.VIEWER);
+    });
+
+    it('should let the primary owner appoint a co-owner', async () => {
+      mockShare(AccessLevel.EDITOR);
+
+      const result = await treeService.grantTreeAccess('tree123', 'owner123', {
+        email: 'sam@example.com',
+        accessLevel: AccessLevel.OWNER,
+      });
+
+      expect(result.accessLevel).toBe(AccessLevel.OWNER);
+      expect(mockRecordAudit).toHaveBeenCalledWith(expect.objectContaining({
+        before: { accessLevel: AccessLevel.EDITOR },
+        after: { accessLevel: AccessLevel.OWNER },
+      }));
+    });
+
+    it('should not let a co-owner appoint or demote owners', async () => {
+      mockShare(AccessLevel.EDITOR, targetUser.emailVerifiedAt, 'founder1');
+      await expect(treeService.grantTreeAccess('tree123', 'owner123', {
+        email: 'sam@example.com',
+        accessLevel: AccessLevel.OWNER,
+      })).rejects.toMatchObject({ statusCode: 403 });
+
+      mockShare(AccessLevel.OWNER, targetUser.emailVerifiedAt, 'founder1');
+      await expect(treeService.grantTreeAccess('tree123', 'owner123', {
+        email: 'sam@example.com',
+        accessLevel: AccessLevel.VIEWER,
+      })).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should not change the primary owner\'s access', async () => {
+      mockShare(AccessLevel.OWNER, targetUser.emailVerifiedAt, 'user456');
+
+      await expect(treeService.grantTreeAccess('tree123', 'owner123', {
+        email: 'sam@example.com',
+        accessLevel: AccessLevel.EDITOR,
+      })).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should not make an unverified editor a co-owner', async () => {
+      mockShare(AccessLevel.EDITOR, null);
+
+      await expect(treeService.grantTreeAccess('tree123', 'owner123', {
+        email: 'sam@example.com',
+        accessLevel: AccessLevel.OWNER,
+      })).rejects.toMatchObject({ code: 'EMAIL_NOT_VERIFIED' });
+    });
+  });
+
+  describe('revokeTreeAccess', () => {
+    const mockMembers = (levels: Record<string, AccessLevel>, primaryOwnerId: string) => {
+      mockQuery.mockImplementation((sql: string, params: unknown[]) => {
+        if (sql.includes('FROM tree_access ta')) {
+          const level = levels[params[1] as string];
+          return { rows: level ? [{ accessLevel: level }] : [] };
+        }
+        if (sql.includes('owner_user_id as "ownerUserId" FROM family_trees')) {
+          return { rows: [{ ownerUserId: primaryOwnerId }] };
+        }
+        return { rows: [] };
+      });
+    };
+
+    it('should let the primary owner remove a co-owner', async () => {
+      mockMembers({ owner123: AccessLevel.OWNER, user456: AccessLevel.OWNER }, 'owner123');
+
+      await treeService.revokeTreeAccess('tree123', 'owner123', 'user456');
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('DELETE FROM tree_access'), ['tree123', 'user456']);
+    });
+
+    it('should not let a co-owner remove the primary owner or another co-owner', async () => {
+      mockMembers({ owner123: AccessLevel.OWNER, user456: AccessLevel.OWNER, founder1: AccessLevel.OWNER }, 'founder1');
+
+      await expect(treeService.revokeTreeAccess('tree123', 'owner123', 'founder1')).rejects.toMatchObject({ statusCode: 400 });
+      await expect(treeService.revokeTreeAccess('tree123', 'owner123', 'user456')).rejects.toMatchObject({ statusCode: 403 });
+      expect(mockQuery).not.toHaveBeenCalledWith(expect.stringContaining('DELETE FROM tree_access'), expect.anything());
+    });
+  });
 });
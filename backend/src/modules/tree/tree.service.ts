@@ -1,22 +1,40 @@
 import { query, transaction } from '../../config/database';
-import { FamilyTree, AccessLevel, TreeAccess } from '../../database/interfaces';
+import { FamilyTree, AccessLevel, TreeAccess, AuditAction, AuditEntityType, DeletedTree, MailTemplate } from '../../database/interfaces';
 import { AccessControlService } from '../../common/services/access-control.service';
 import { AppError } from '../../common/errors/app-error';
+import { AuditService } from '../audit/audit.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { MailService, appUrl } from '../mail/mail.service';
+import { getTrashRetentionDays } from '../trash/trash.service';
+import { TwoFactorService } from '../auth/two-factor.service';
 
 interface CreateTreeDto {
   treeName: string;
   description?: string;
+  autoLifeEvents?: boolean;
   userId: string;
 }
 
 interface UpdateTreeDto {
   treeName?: string;
   description?: string;
+  autoLifeEvents?: boolean;
+  requireTwoFactor?: boolean;
 }
 
+const TREE_SELECT_FIELDS = `tree_id as "treeId", tree_name as "treeName", description, owner_user_id as "ownerUserId", auto_life_events as "autoLifeEvents", require_two_factor as "requireTwoFactor", created_at as "createdAt", updated_at as "updatedAt"`;
+
+const LEVEL_RANK: Record<AccessLevel, number> = {
+  [AccessLevel.VIEWER]: 1,
+  [AccessLevel.EDITOR]: 2,
+  [AccessLevel.OWNER]: 3,
+};
+
 interface TreeAccessWithUser extends TreeAccess {
   email: string;
   displayName: string;
+  /** Shown to owners of trees that require it; such editors can only view until it is on */
+  twoFactorEnabled?: boolean;
 }
 
 interface GrantAccessDto {
@@ -26,18 +44,26 @@ interface GrantAccessDto {
 
 export class TreeService {
   protected accessControl: AccessControlService;
+  protected auditService: AuditService;
+  protected realtimeService: RealtimeService;
+  protected mailService: MailService;
+  protected twoFactorService: TwoFactorService;
 
   constructor() {
     this.accessControl = new AccessControlService();
+    this.auditService = new AuditService();
+    this.realtimeService = new RealtimeService();
+    this.mailService = new MailService();
+    this.twoFactorService = new TwoFactorService();
   }
 
   async createTree(createDto: CreateTreeDto): Promise<FamilyTree> {
     return await transaction(async (client) => {
       const treeResult = await client.query<FamilyTree>(
-        `INSERT INTO family_trees (tree_name, description, owner_user_id)
-         VALUES ($1, $2, $3)
-         RETURNING tree_id as "treeId", tree_name as "treeName", description, owner_user_id as "ownerUserId", created_at as "createdAt", updated_at as "updatedAt"`,
-        [createDto.treeName, createDto.description || null, createDto.userId]
+        `INSERT INTO family_trees (tree_name, description, owner_user_id, auto_life_events)
+         VALUES ($1, $2, $3, $4)
+         RETURNING ${TREE_SELECT_FIELDS}`,
+        [createDto.treeName, createDto.description || null, createDto.userId, createDto.autoLifeEvents ?? true]
       );
 
       const tree = treeResult.rows[0];
@@ -48,26 +74,35 @@ export class TreeService {
         [tree.treeId, createDto.userId, AccessLevel.OWNER, createDto.userId]
       );
 
-      return tree;
+      await this.auditService.record({
+        treeId: tree.treeId,
+        entityType: AuditEntityType.TREE,
+        entityId: tree.treeId,
+        action: AuditAction.CREATE,
+        actorId: createDto.userId,
+        after: tree,
+      }, client);
+
+      return { ...tree, accessLevel: AccessLevel.OWNER };
     });
   }
 
   async getUserTrees(userId: string): Promise<FamilyTree[]> {
     const result = await query<FamilyTree>(
-      `SELECT ft.tree_id as "treeId", ft.tree_name as "treeName", ft.description, ft.owner_user_id as "ownerUserId", ft.created_at as "createdAt", ft.updated_at as "updatedAt"
+      `SELECT ft.tree_id as "treeId", ft.tree_name as "treeName", ft.description, ft.owner_user_id as "ownerUserId", ft.auto_life_events as "autoLifeEvents", ft.require_two_factor as "requireTwoFactor", ta.access_level as "accessLevel", ft.created_at as "createdAt", ft.updated_at as "updatedAt"
        FROM family_trees ft
        JOIN tree_access ta ON ft.tree_id = ta.tree_id
-       WHERE ta.user_id = $1`,
+       WHERE ta.user_id = $1 AND ft.deleted_at IS NULL`,
       [userId]
     );
     return result.rows;
   }
 
   async getTreeById(treeId: string, userId: string): Promise<FamilyTree> {
-    await this.accessControl.checkAccess(treeId, userId);
+    const access = await this.accessControl.checkAccess(treeId, userId);
 
     const result = await query<FamilyTree>(
-      `SELECT tree_id as "treeId", tree_name as "treeName", description, owner_user_id as "ownerUserId", created_at as "createdAt", updated_at as "updatedAt"
+      `SELECT ${TREE_SELECT_FIELDS}
        FROM family_trees WHERE tree_id = $1`,
       [treeId]
     );
@@ -76,7 +111,7 @@ export class TreeService {
       throw new AppError('Tree not found', 404);
     }
 
-    return result.rows[0];
+    return { ...result.rows[0], accessLevel: access.accessLevel };
   }
 
   async updateTree(treeId: string, userId: string, updateDto: UpdateTreeDto): Promise<FamilyTree> {
@@ -94,17 +129,35 @@ export class TreeService {
       updates.push(`description = $${paramIndex++}`);
       values.push(updateDto.description);
     }
+    if (updateDto.autoLifeEvents !== undefined) {
+      updates.push(`auto_life_events = $${paramIndex++}`);
+      values.push(updateDto.autoLifeEvents);
+    }
+    if (updateDto.requireTwoFactor !== undefined) {
+      // Otherwise the owner could lock editors out of something they can't do themselves
+      if (updateDto.requireTwoFactor && !(await this.twoFactorService.isEnabled(userId))) {
+        throw new AppError('Turn on two-factor authentication for your account first', 400, 'TWO_FACTOR_REQUIRED');
+      }
+      updates.push(`require_two_factor = $${paramIndex++}`);
+      values.push(updateDto.requireTwoFactor);
+    }
 
     if (updates.length === 0) {
       return this.getTreeById(treeId, userId);
     }
 
+    const existingResult = await query<FamilyTree>(
+      `SELECT ${TREE_SELECT_FIELDS}
+       FROM family_trees WHERE tree_id = $1`,
+      [treeId]
+    );
+
     updates.push(`updated_at = NOW()`);
     values.push(treeId);
 
     const result = await query<FamilyTree>(
       `UPDATE family_trees SET ${updates.join(', ')} WHERE tree_id = $${paramIndex}
-       RETURNING tree_id as "treeId", tree_name as "treeName", description, owner_user_id as "ownerUserId", created_at as "createdAt", updated_at as "updatedAt"`,
+       RETURNING ${TREE_SELECT_FIELDS}`,
       values
     );
 
@@ -112,12 +165,94 @@ export class TreeService {
       throw new AppError('Tree not found', 404);
     }
 
-    return result.rows[0];
+    const tree = result.rows[0];
+    await this.auditService.record({
+      treeId,
+      entityType: AuditEntityType.TREE,
+      entityId: treeId,
+      action: AuditAction.UPDATE,
+      actorId: userId,
+      before: existingResult.rows[0],
+      after: tree,
+    });
+
+    return { ...tree, accessLevel: AccessLevel.OWNER };
   }
 
+  /**
+   * Moves the tree to the owner's deleted list. Nobody can open it until it is
+   * restored, and the retention job removes it for good once it expires.
+   */
   async deleteTree(treeId: string, userId: string): Promise<void> {
     await this.accessControl.requireOwnerAccess(treeId, userId);
-    await query('DELETE FROM family_trees WHERE tree_id = $1', [treeId]);
+
+    const result = await query<FamilyTree>(
+      `UPDATE family_trees SET deleted_at = NOW(), deleted_by = $2 WHERE tree_id = $1 AND deleted_at IS NULL
+       RETURNING ${TREE_SELECT_FIELDS}`,
+      [treeId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Tree not found', 404);
+    }
+
+    await this.auditService.record({
+      treeId,
+      entityType: AuditEntityType.TREE,
+      entityId: treeId,
+      action: AuditAction.DELETE,
+      actorId: userId,
+      before: result.rows[0],
+    });
+    this.realtimeService.disconnectTree(treeId);
+  }
+
+  async getDeletedTrees(userId: string): Promise<DeletedTree[]> {
+    const result = await query<DeletedTree>(
+      `SELECT ft.tree_id as "treeId", ft.tree_name as "treeName", ft.description, ft.deleted_at as "deletedAt",
+              ft.deleted_at + make_interval(days => $2) as "purgeAt"
+       FROM family_trees ft
+       JOIN tree_access ta ON ft.tree_id = ta.tree_id
+       WHERE ta.user_id = $1 AND ta.access_level = 'owner' AND ft.deleted_at IS NOT NULL
+       ORDER BY ft.deleted_at DESC`,
+      [userId, getTrashRetentionDays()]
+    );
+    return result.rows;
+  }
+
+  async restoreTree(treeId: string, userId: string): Promise<FamilyTree> {
+    const accessResult = await query<{ accessLevel: AccessLevel }>(
+      `SELECT ta.access_level as "accessLevel"
+       FROM family_trees ft
+       JOIN tree_access ta ON ft.tree_id = ta.tree_id
+       WHERE ft.tree_id = $1 AND ta.user_id = $2 AND ft.deleted_at IS NOT NULL`,
+      [treeId, userId]
+    );
+
+    if (accessResult.rows.length === 0) {
+      throw new AppError('Deleted tree not found', 404);
+    }
+    if (accessResult.rows[0].accessLevel !== AccessLevel.OWNER) {
+      throw new AppError('Owner access required', 403);
+    }
+
+    const result = await query<FamilyTree>(
+      `UPDATE family_trees SET deleted_at = NULL, deleted_by = NULL WHERE tree_id = $1
+       RETURNING ${TREE_SELECT_FIELDS}`,
+      [treeId]
+    );
+
+    const tree = result.rows[0];
+    await this.auditService.record({
+      treeId,
+      entityType: AuditEntityType.TREE,
+      entityId: treeId,
+      action: AuditAction.RESTORE,
+      actorId: userId,
+      after: tree,
+    });
+
+    return tree;
   }
 
   async getTreeAccess(treeId: string, userId: string): Promise<TreeAccessWithUser[]> {
@@ -126,7 +261,8 @@ export class TreeService {
     const result = await query<TreeAccessWithUser>(
       `SELECT ta.access_id as "accessId", ta.tree_id as "treeId", ta.user_id as "userId", 
               ta.access_level as "accessLevel", ta.granted_by as "grantedBy", ta.granted_at as "grantedAt",
-              u.email, u.display_name as "displayName"
+              u.email, u.display_name as "displayName",
+              EXISTS (SELECT 1 FROM user_two_factor tf WHERE tf.user_id = ta.user_id AND tf.enabled_at IS NOT NULL) as "twoFactorEnabled"
        FROM tree_access ta
        JOIN users u ON ta.user_id = u.user_id
        WHERE ta.tree_id = $1
@@ -137,15 +273,16 @@ export class TreeService {
     return result.rows;
   }
 
+  /**
+   * Adds a member or changes their level. Any owner can share the tree, but
+   * only the primary owner appoints co-owners or changes their level.
+   */
   async grantTreeAccess(treeId: string, ownerId: string, dto: GrantAccessDto): Promise<TreeAccessWithUser> {
     await this.accessControl.requireOwnerAccess(treeId, ownerId);
 
-    if (dto.accessLevel === AccessLevel.OWNER) {
-      throw new AppError('Cannot grant owner access', 400);
-    }
-
-    const userResult = await query<{ userId: string; email: string; displayName: string }>(
-      'SELECT user_id as "userId", email, display_name as "displayName" FROM users WHERE LOWER(email) = LOWER($1)',
+    const userResult = await query<{ userId: string; email: string; displayName: string; locale: string; emailVerifiedAt: Date | null }>(
+      `SELECT user_id as "userId", email, display_name as "displayName", locale, email_verified_at as "emailVerifiedAt"
+       FROM users WHERE LOWER(email) = LOWER($1)`,
       [dto.email]
     );
 
@@ -159,12 +296,49 @@ export class TreeService {
       throw new AppError('Cannot modify your own access', 400);
     }
 
+    const ownerUserId = await this.accessControl.getOwnerUserId(treeId);
+    if (targetUser.userId === ownerUserId) {
+      throw new AppError('Cannot modify the primary owner\'s access', 400);
+    }
+
     const existingAccess = await this.accessControl.getAccessLevel(treeId, targetUser.userId);
-    if (existingAccess === AccessLevel.OWNER) {
-      throw new AppError('Cannot modify owner access', 400);
+    if ((dto.accessLevel === AccessLevel.OWNER || existingAccess === AccessLevel.OWNER) && ownerId !== ownerUserId) {
+      throw new AppError('Only the primary owner can manage co-owners', 403);
+    }
+
+    // An unverified address may be a typo or someone else's; such members can still be downgraded
+    const isUpgrade = !existingAccess || LEVEL_RANK[dto.accessLevel] > LEVEL_RANK[existingAccess];
+    if (isUpgrade && !targetUser.emailVerifiedAt) {
+      throw new AppError('That account has not verified its email address yet', 409, 'EMAIL_NOT_VERIFIED');
     }
 
     const access = await this.accessControl.grantAccess(treeId, targetUser.userId, dto.accessLevel, ownerId);
+    await this.auditService.record({
+      treeId,
+      entityType: AuditEntityType.TREE_ACCESS,
+      entityId: targetUser.userId,
+      action: existingAccess ? AuditAction.UPDATE : AuditAction.CREATE,
+      actorId: ownerId,
+      before: existingAccess ? { accessLevel: existingAccess } : null,
+      after: { accessLevel: dto.accessLevel },
+    });
+
+    // Changing an existing member's level only gets the in-app notification
+    if (!existingAccess) {
+      const inviteResult = await query<{ treeName: string; inviterName: string }>(
+        `SELECT ft.tree_name as "treeName", u.display_name as "inviterName"
+         FROM family_trees ft
+         JOIN users u ON u.user_id = $2
+         WHERE ft.tree_id = $1`,
+        [treeId, ownerId]
+      );
+      await this.mailService.send(targetUser.email, MailTemplate.INVITATION, {
+        inviterName: inviteResult.rows[0].inviterName,
+        treeName: inviteResult.rows[0].treeName,
+        accessLevel: dto.accessLevel,
+        actionUrl: appUrl(`/trees/${treeId}`),
+      }, targetUser.locale);
+    }
 
     return {
       ...access,
@@ -185,9 +359,24 @@ export class TreeService {
       throw new AppError('User does not have access to this tree', 404);
     }
     if (existingAccess === AccessLevel.OWNER) {
-      throw new AppError('Cannot revoke owner access', 400);
+      const ownerUserId = await this.accessControl.getOwnerUserId(treeId);
+      if (targetUserId === ownerUserId) {
+        throw new AppError('Cannot revoke the primary owner\'s access', 400);
+      }
+      if (ownerId !== ownerUserId) {
+        throw new AppError('Only the primary owner can manage co-owners', 403);
+      }
     }
 
     await this.accessControl.revokeAccess(treeId, targetUserId);
+    this.realtimeService.disconnectUser(treeId, targetUserId);
+    await this.auditService.record({
+      treeId,
+      entityType: AuditEntityType.TREE_ACCESS,
+      entityId: targetUserId,
+      action: AuditAction.DELETE,
+      actorId: ownerId,
+      before: { accessLevel: existingAccess },
+    });
   }
 }
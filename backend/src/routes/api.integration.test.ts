@@ -16,6 +16,10 @@ jest.mock('../config/database', () => ({
 jest.mock('../config/redis', () => ({
   connectRedis: jest.fn().mockResolvedValue(undefined),
   getRedisClient: jest.fn().mockReturnValue(null),
+  CacheService: jest.fn().mockImplementation(() => ({
+    get: jest.fn().mockResolvedValue(null),
+    set: jest.fn().mockResolvedValue(undefined),
+  })),
 }));
 
 import app from '../app';
@@ -158,7 +162,7 @@ describe('API Integration Tests', () => {
       it('should delete tree as owner', async () => {
         mockQuery
           .mockResolvedValueOnce({ rows: [{ accessLevel: 'owner' }] })
-          .mockResolvedValueOnce({ rowCount: 1 });
+          .mockResolvedValueOnce({ rows: [{ treeId, treeName: 'Test Tree' }] });
 
         const response = await request(app)
           .delete(`/api/v1/trees/${treeId}`)
@@ -177,6 +181,85 @@ describe('API Integration Tests', () => {
         expect(response.status).toBe(403);
       });
     });
+
+    describe('GET /api/v1/trees/deleted', () => {
+      it('should list deleted trees without treating "deleted" as a tree id', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ treeId, treeName: 'Test Tree', deletedAt: new Date(), purgeAt: new Date() }] });
+
+        const response = await request(app)
+          .get('/api/v1/trees/deleted')
+          .set('Authorization', `Bearer ${accessToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body).toHaveLength(1);
+      });
+    });
+
+    describe('POST /api/v1/trees/:treeId/restore', () => {
+      it('should restore a deleted tree as owner', async () => {
+        mockQuery
+          .mockResolvedValueOnce({ rows: [{ accessLevel: 'owner' }] })
+          .mockResolvedValueOnce({ rows: [{ treeId, treeName: 'Test Tree' }] });
+
+        const response = await request(app)
+          .post(`/api/v1/trees/${treeId}/restore`)
+          .set('Authorization', `Bearer ${accessToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.treeId).toBe(treeId);
+      });
+    });
+
+    describe('GET /api/v1/trees/:treeId/trash', () => {
+      it('should return a page of trashed items for editors', async () => {
+        mockQuery
+          .mockResolvedValueOnce({ rows: [{ accessLevel: 'editor' }] })
+          .mockResolvedValueOnce({ rows: [] });
+
+        const response = await request(app)
+          .get(`/api/v1/trees/${treeId}/trash`)
+          .set('Authorization', `Bearer ${accessToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body).toEqual({ items: [], nextCursor: null, totalEstimate: 0 });
+      });
+
+      it('should return 403 for viewers', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ accessLevel: 'viewer' }] });
+
+        const response = await request(app)
+          .get(`/api/v1/trees/${treeId}/trash`)
+          .set('Authorization', `Bearer ${accessToken}`);
+
+        expect(response.status).toBe(403);
+      });
+    });
+
+    describe('GET /api/v1/trees/:treeId/history', () => {
+      it('should return a page of audit events', async () => {
+        mockQuery
+          .mockResolvedValueOnce({ rows: [{ accessLevel: 'viewer' }] })
+          .mockResolvedValueOnce({ rows: [] });
+
+        const response = await request(app)
+          .get(`/api/v1/trees/${treeId}/history`)
+          .query({ entityType: 'node' })
+          .set('Authorization', `Bearer ${accessToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body).toEqual({ items: [], nextCursor: null, totalEstimate: 0 });
+      });
+
+      it('should reject unknown entity types', async () => {
+        const response = await request(app)
+          .get(`/api/v1/trees/${treeId}/history`)
+          .query({ entityType: 'photo' })
+          .set('Authorization', `Bearer ${accessToken}`);
+
+        expect(response.status).toBe(400);
+        expect(response.body.error.message).toContain('entityType must be one of');
+      });
+    });
   });
 
   describe('Node Endpoints', () => {
@@ -231,7 +314,19 @@ describe('API Integration Tests', () => {
           .set('Authorization', `Bearer ${accessToken}`);
 
         expect(response.status).toBe(200);
-        expect(response.body).toHaveLength(2);
+        expect(response.body.items).toHaveLength(2);
+        expect(response.body.nextCursor).toBeNull();
+      });
+
+      it('should reject an out-of-range limit', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ accessLevel: 'viewer' }] });
+
+        const response = await request(app)
+          .get(`/api/v1/trees/${treeId}/nodes`)
+          .query({ limit: 500 })
+          .set('Authorization', `Bearer ${accessToken}`);
+
+        expect(response.status).toBe(400);
       });
     });
 
@@ -244,7 +339,10 @@ describe('API Integration Tests', () => {
           .mockResolvedValueOnce({
             rows: [{ nodeId, status: 'published', publishedAt: new Date(), firstName: 'John', lastName: 'Doe' }],
           })
+          .mockResolvedValueOnce({ rows: [] })
+          .mockResolvedValueOnce({ rows: [] })
           .mockResolvedValueOnce({ rows: [] });
+        mockTransaction.mockImplementation(async (fn) => fn({ query: mockQuery }));
 
         const response = await request(app)
           .post(`/api/v1/trees/${treeId}/nodes/${nodeId}/publish`)
@@ -254,6 +352,18 @@ describe('API Integration Tests', () => {
         expect(response.body.status).toBe('published');
       });
     });
+
+    describe('POST /api/v1/trees/:treeId/nodes/:nodeId/restore', () => {
+      it('should return 404 when the node is not in the trash', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [] });
+
+        const response = await request(app)
+          .post(`/api/v1/trees/${treeId}/nodes/${nodeId}/restore`)
+          .set('Authorization', `Bearer ${accessToken}`);
+
+        expect(response.status).toBe(404);
+      });
+    });
   });
 
   describe('Relationship Endpoints', () => {
@@ -267,7 +377,6 @@ describe('API Integration Tests', () => {
         mockTransaction.mockImplementation(async (fn) => {
           const mockClient = {
             query: jest.fn()
-              .mockResolvedValueOnce({ rows: [] })
               .mockResolvedValueOnce({
                 rows: [{
                   relationshipId: '66666666-6666-6666-6666-666666666666',
@@ -276,7 +385,8 @@ describe('API Integration Tests', () => {
                   nodeId2: node2Id,
                   relationshipType: 'parent_child',
                 }],
-              }),
+              })
+              .mockResolvedValueOnce({ rows: [] }),
           };
           return fn(mockClient);
         });
@@ -332,7 +442,28 @@ describe('API Integration Tests', () => {
           .set('Authorization', `Bearer ${accessToken}`);
 
         expect(response.status).toBe(200);
-        expect(response.body).toHaveLength(1);
+        expect(response.body.items).toHaveLength(1);
+      });
+    });
+
+    describe('GET /api/v1/trees/:treeId/kinship', () => {
+      it('should reject non-uuid node ids', async () => {
+        const response = await request(app)
+          .get(`/api/v1/trees/${treeId}/kinship`)
+          .query({ from: 'me', to: node2Id })
+          .set('Authorization', `Bearer ${accessToken}`);
+
+        expect(response.status).toBe(400);
+        expect(response.body.error.message).toContain('from has invalid format');
+      });
+
+      it('should require both from and to', async () => {
+        const response = await request(app)
+          .get(`/api/v1/trees/${treeId}/kinship`)
+          .query({ from: node1Id })
+          .set('Authorization', `Bearer ${accessToken}`);
+
+        expect(response.status).toBe(400);
       });
     });
   });
@@ -344,16 +475,23 @@ describe('API Integration Tests', () => {
       it('should create timeline event', async () => {
         mockQuery
           .mockResolvedValueOnce({ rows: [{ accessLevel: 'editor' }] })
-          .mockResolvedValueOnce({
-            rows: [{
-              eventId,
-              treeId,
-              eventType: 'birth',
-              title: 'Birth of John',
-              eventDate: '1990-01-01',
-            }],
-          })
           .mockResolvedValueOnce({ rows: [] });
+        mockTransaction.mockImplementation(async (fn) => {
+          const mockClient = {
+            query: jest.fn()
+              .mockResolvedValueOnce({
+                rows: [{
+                  eventId,
+                  treeId,
+                  eventType: 'birth',
+                  title: 'Birth of John',
+                  eventDate: '1990-01-01',
+                }],
+              })
+              .mockResolvedValueOnce({ rows: [] }),
+          };
+          return fn(mockClient);
+        });
 
         const response = await request(app)
           .post(`/api/v1/trees/${treeId}/events`)
@@ -366,6 +504,21 @@ describe('API Integration Tests', () => {
 
         expect(response.status).toBe(201);
         expect(response.body).toHaveProperty('eventId');
+        expect(response.body.participants).toEqual([]);
+      });
+
+      it('should reject participants that are not a list', async () => {
+        const response = await request(app)
+          .post(`/api/v1/trees/${treeId}/events`)
+          .set('Authorization', `Bearer ${accessToken}`)
+          .send({
+            eventType: 'marriage',
+            title: 'Wedding',
+            eventDate: '2010-06-15',
+            participants: nodeId,
+          });
+
+        expect(response.status).toBe(400);
       });
 
       it('should reject invalid event type', async () => {
@@ -398,7 +551,25 @@ describe('API Integration Tests', () => {
           .set('Authorization', `Bearer ${accessToken}`);
 
         expect(response.status).toBe(200);
-        expect(response.body).toHaveLength(2);
+        expect(response.body.items).toHaveLength(2);
+      });
+    });
+
+    describe('GET /api/v1/nodes/:nodeId/events', () => {
+      it('should return the life timeline of a person', async () => {
+        mockQuery
+          .mockResolvedValueOnce({ rows: [{ treeId, status: 'published', createdBy: userId }] })
+          .mockResolvedValueOnce({ rows: [{ accessLevel: 'viewer' }] })
+          .mockResolvedValueOnce({
+            rows: [{ eventId, eventDate: '1990-01-01', title: 'Birth', participants: [{ nodeId, role: null }] }],
+          });
+
+        const response = await request(app)
+          .get(`/api/v1/nodes/${nodeId}/events`)
+          .set('Authorization', `Bearer ${accessToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.items[0].participants).toEqual([{ nodeId, role: null }]);
       });
     });
   });
@@ -419,6 +590,7 @@ describe('API Integration Tests', () => {
               commentText: 'Great photo!',
             }],
           })
+          .mockResolvedValueOnce({ rows: [] })
           .mockResolvedValueOnce({ rows: [] });
 
         const response = await request(app)
@@ -467,7 +639,7 @@ describe('API Integration Tests', () => {
           .set('Authorization', `Bearer ${accessToken}`);
 
         expect(response.status).toBe(200);
-        expect(response.body).toHaveLength(2);
+        expect(response.body.items).toHaveLength(2);
       });
 
       it('should reject missing query parameters', async () => {
@@ -519,7 +691,7 @@ describe('API Integration Tests', () => {
           .set('Authorization', `Bearer ${accessToken}`);
 
         expect(response.status).toBe(200);
-        expect(response.body).toHaveLength(1);
+        expect(response.body.items).toHaveLength(1);
       });
 
       it('should reject search query shorter than 2 characters', async () => {
@@ -550,7 +722,7 @@ describe('API Integration Tests', () => {
           .set('Authorization', `Bearer ${accessToken}`);
 
         expect(response.status).toBe(200);
-        expect(response.body).toHaveLength(2);
+        expect(response.body.items).toHaveLength(2);
       });
 
       it('should filter unread notifications', async () => {
@@ -642,7 +814,8 @@ describe('API Integration Tests', () => {
               status: 'pending',
             }],
           })
-          .mockResolvedValueOnce({ rows: [{ ownerUserId: ownerId }] })
+          .mockResolvedValueOnce({ rows: [{ ownerUserId: ownerId, treeName: 'Test Tree', requesterName: 'Test User' }] })
+          .mockResolvedValueOnce({ rows: [] })
           .mockResolvedValueOnce({ rows: [] });
 
         const response = await request(app)
@@ -725,7 +898,9 @@ describe('API Integration Tests', () => {
               nodeId2: node2Id,
             }],
           })
+          .mockResolvedValueOnce({ rows: [] })
           .mockResolvedValueOnce({ rows: [] });
+        mockTransaction.mockImplementation(async (fn) => fn({ query: mockQuery }));
 
         const response = await request(app)
           .post('/api/v1/same-person-links')
@@ -1,4 +1,4 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { 
   authMiddleware, 
   validateBody, 
@@ -13,6 +13,10 @@ import { AuthService } from '../modules/auth/auth.service';
 import { AuthController } from '../modules/auth/auth.controller';
 import { TreeService } from '../modules/tree/tree.service';
 import { TreeController } from '../modules/tree/tree.controller';
+import { TreeValidationService } from '../modules/tree/tree-validation.service';
+import { TreeValidationController } from '../modules/tree/tree-validation.controller';
+import { OwnershipTransferService } from '../modules/tree/ownership-transfer.service';
+import { OwnershipTransferController } from '../modules/tree/ownership-transfer.controller';
 import { NodeService } from '../modules/node/node.service';
 import { NodeController } from '../modules/node/node.controller';
 import { RelationshipService } from '../modules/relationship/relationship.service';
@@ -27,11 +31,29 @@ import { SearchService } from '../modules/search/search.service';
 import { SearchController } from '../modules/search/search.controller';
 import { NotificationService } from '../modules/notification/notification.service';
 import { NotificationController } from '../modules/notification/notification.controller';
+import { NotificationPreferenceService } from '../modules/notification/notification-preference.service';
+import { NotificationPreferenceController } from '../modules/notification/notification-preference.controller';
 import { AlbumService } from '../modules/album/album.service';
 import { AlbumController } from '../modules/album/album.controller';
 import { AccessRequestService } from '../modules/access-request/access-request.service';
 import { AccessRequestController } from '../modules/access-request/access-request.controller';
-import { RelationshipType, EventType, EntityType, AlbumSource } from '../database/interfaces';
+import { GedcomService } from '../modules/gedcom/gedcom.service';
+import { GedcomController } from '../modules/gedcom/gedcom.controller';
+import { ConsolidationService } from '../modules/consolidation/consolidation.service';
+import { ConsolidationController } from '../modules/consolidation/consolidation.controller';
+import { KinshipService } from '../modules/kinship/kinship.service';
+import { KinshipController } from '../modules/kinship/kinship.controller';
+import { AuditService } from '../modules/audit/audit.service';
+import { AuditController } from '../modules/audit/audit.controller';
+import { TrashService } from '../modules/trash/trash.service';
+import { TrashController } from '../modules/trash/trash.controller';
+import { RealtimeService } from '../modules/realtime/realtime.service';
+import { RealtimeController } from '../modules/realtime/realtime.controller';
+import { DeviceService } from '../modules/device/device.service';
+import { DeviceController } from '../modules/device/device.controller';
+import { InvitationService } from '../modules/invitation/invitation.service';
+import { InvitationController } from '../modules/invitation/invitation.controller';
+import { RelationshipType, RelationshipRole, EventType, EntityType, AlbumSource, AuditEntityType, DateQualifier, DatePrecision, DevicePlatform, NotificationType, NotificationDelivery } from '../database/interfaces';
 
 const router = Router();
 
@@ -41,6 +63,10 @@ const authService = new AuthService();
 const authController = new AuthController(authService);
 const treeService = new TreeService();
 const treeController = new TreeController(treeService);
+const treeValidationService = new TreeValidationService();
+const treeValidationController = new TreeValidationController(treeValidationService);
+const ownershipTransferService = new OwnershipTransferService();
+const ownershipTransferController = new OwnershipTransferController(ownershipTransferService);
 const nodeService = new NodeService();
 const nodeController = new NodeController(nodeService);
 const relationshipService = new RelationshipService();
@@ -55,10 +81,44 @@ const searchService = new SearchService();
 const searchController = new SearchController(searchService);
 const notificationService = new NotificationService();
 const notificationController = new NotificationController(notificationService);
+const notificationPreferenceService = new NotificationPreferenceService();
+const notificationPreferenceController = new NotificationPreferenceController(notificationPreferenceService);
 const albumService = new AlbumService();
 const albumController = new AlbumController(albumService);
 const accessRequestService = new AccessRequestService();
 const accessRequestController = new AccessRequestController(accessRequestService);
+const gedcomService = new GedcomService();
+const gedcomController = new GedcomController(gedcomService);
+const consolidationService = new ConsolidationService();
+const consolidationController = new ConsolidationController(consolidationService);
+const kinshipService = new KinshipService();
+const kinshipController = new KinshipController(kinshipService);
+const auditService = new AuditService();
+const auditController = new AuditController(auditService);
+const trashService = new TrashService();
+const trashController = new TrashController(trashService);
+const realtimeService = new RealtimeService();
+const realtimeController = new RealtimeController(realtimeService);
+const deviceService = new DeviceService();
+const deviceController = new DeviceController(deviceService);
+const invitationService = new InvitationService();
+const invitationController = new InvitationController(invitationService);
+
+/** Invitation tokens are 32 characters of base64url */
+const invitationTokenSchema = { required: true, pattern: /^[A-Za-z0-9_-]{16,64}$/ };
+
+/** Body rules for a genealogical date sent as `<field>`, `<field>Qualifier`, `<field>Precision` and `<field>End` */
+const genealogicalDateSchema = (field: string) => ({
+  [field]: { type: 'string' as const },
+  [`${field}Qualifier`]: { type: 'string' as const, enum: Object.values(DateQualifier) },
+  [`${field}Precision`]: { type: 'string' as const, enum: Object.values(DatePrecision) },
+  [`${field}End`]: { type: 'string' as const },
+});
+
+const gedcomBodyParser = express.text({
+  type: ['text/plain', 'application/x-gedcom', 'text/x-gedcom', 'application/octet-stream'],
+  limit: '20mb',
+});
 
 router.post('/auth/signup', 
   authRateLimiter,
@@ -66,6 +126,8 @@ router.post('/auth/signup',
     email: { required: true, type: 'string', pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/ },
     password: { required: true, type: 'string' },
     displayName: { required: true, type: 'string', minLength: 1, maxLength: 255 },
+    locale: { type: 'string', maxLength: 35 },
+    invitationToken: { type: 'string', maxLength: 64 },
   }),
   (req, res) => authController.signup(req, res)
 );
@@ -74,6 +136,7 @@ router.post('/auth/login',
   validateBody({
     email: { required: true, type: 'string' },
     password: { required: true, type: 'string' },
+    invitationToken: { type: 'string', maxLength: 64 },
   }),
   (req, res) => authController.login(req, res)
 );
@@ -81,21 +144,130 @@ router.post('/auth/refresh',
   validateBody({ refreshToken: { required: true, type: 'string' } }),
   (req, res) => authController.refresh(req, res)
 );
+router.post('/auth/verify-email',
+  authRateLimiter,
+  validateBody({ token: { required: true, type: 'string', maxLength: 64 } }),
+  (req, res) => authController.verifyEmail(req, res)
+);
+router.post('/auth/verify-email/resend',
+  authRateLimiter,
+  authMiddleware,
+  (req, res) => authController.resendVerification(req, res)
+);
+router.post('/auth/forgot-password',
+  authRateLimiter,
+  validateBody({ email: { required: true, type: 'string', maxLength: 255 } }),
+  (req, res) => authController.forgotPassword(req, res)
+);
+router.post('/auth/reset-password',
+  authRateLimiter,
+  validateBody({
+    token: { required: true, type: 'string', maxLength: 64 },
+    newPassword: { required: true, type: 'string' },
+  }),
+  (req, res) => authController.resetPassword(req, res)
+);
+router.post('/auth/logout', authMiddleware, (req, res) => authController.logout(req, res));
+router.get('/auth/sessions', authMiddleware, (req, res) => authController.getSessions(req, res));
+router.delete('/auth/sessions', authMiddleware, (req, res) => authController.revokeAllSessions(req, res));
+router.delete('/auth/sessions/:sessionId',
+  authMiddleware,
+  validateParams({ sessionId: uuidSchema }),
+  (req, res) => authController.revokeSession(req, res)
+);
+router.post('/auth/login/two-factor',
+  authRateLimiter,
+  validateBody({
+    challengeToken: { required: true, type: 'string' },
+    code: { required: true, type: 'string', maxLength: 20 },
+  }),
+  (req, res) => authController.completeTwoFactorLogin(req, res)
+);
+router.get('/auth/two-factor', authMiddleware, (req, res) => authController.getTwoFactorStatus(req, res));
+router.post('/auth/two-factor/setup', authMiddleware, (req, res) => authController.setupTwoFactor(req, res));
+router.post('/auth/two-factor/enable',
+  authRateLimiter,
+  authMiddleware,
+  validateBody({ code: { required: true, type: 'string', maxLength: 20 } }),
+  (req, res) => authController.enableTwoFactor(req, res)
+);
+router.post('/auth/two-factor/disable',
+  authRateLimiter,
+  authMiddleware,
+  validateBody({ code: { required: true, type: 'string', maxLength: 20 } }),
+  (req, res) => authController.disableTwoFactor(req, res)
+);
+router.post('/auth/two-factor/recovery-codes',
+  authRateLimiter,
+  authMiddleware,
+  validateBody({ code: { required: true, type: 'string', maxLength: 20 } }),
+  (req, res) => authController.regenerateRecoveryCodes(req, res)
+);
+router.post('/auth/reauthenticate',
+  authRateLimiter,
+  authMiddleware,
+  validateBody({
+    password: { type: 'string' },
+    provider: { type: 'string', enum: ['google', 'apple'] },
+    token: { type: 'string' },
+    nonce: { type: 'string', maxLength: 128 },
+  }),
+  (req, res) => authController.reauthenticate(req, res)
+);
+router.get('/auth/identities', authMiddleware, (req, res) => authController.getIdentities(req, res));
+router.post('/auth/identities',
+  authRateLimiter,
+  authMiddleware,
+  validateBody({
+    provider: { required: true, type: 'string', enum: ['google', 'apple'] },
+    token: { required: true, type: 'string' },
+    nonce: { type: 'string', maxLength: 128 },
+  }),
+  (req, res) => authController.linkIdentity(req, res)
+);
+router.delete('/auth/identities/:identityId',
+  authMiddleware,
+  validateParams({ identityId: uuidSchema }),
+  (req, res) => authController.unlinkIdentity(req, res)
+);
+router.get('/auth/me/export', authMiddleware, (req, res) => authController.exportAccount(req, res));
+router.delete('/auth/me',
+  authRateLimiter,
+  authMiddleware,
+  validateBody({ transfers: { type: 'array' } }),
+  (req, res) => authController.deleteAccount(req, res)
+);
+router.post('/auth/me/restore', authMiddleware, (req, res) => authController.restoreAccount(req, res));
 router.get('/auth/profile', authMiddleware, (req, res) => authController.getProfile(req, res));
 router.put('/auth/profile', authMiddleware, (req, res) => authController.updateProfile(req, res));
 router.get('/auth/google', (req, res) => authController.googleAuth(req, res));
 router.get('/auth/google/callback', (req, res) => authController.googleCallback(req, res));
 router.post('/auth/google/mobile', 
   authRateLimiter,
-  validateBody({ idToken: { required: true, type: 'string' } }),
+  validateBody({
+    idToken: { required: true, type: 'string' },
+    nonce: { type: 'string', maxLength: 128 },
+    invitationToken: { type: 'string', maxLength: 64 },
+  }),
   (req, res) => authController.googleMobileAuth(req, res)
 );
-router.post('/auth/apple', (req, res) => authController.appleAuth(req, res));
+router.post('/auth/apple', 
+  authRateLimiter,
+  validateBody({
+    nonce: { type: 'string', maxLength: 128 },
+    invitationToken: { type: 'string', maxLength: 64 },
+  }),
+  (req, res) => authController.appleAuth(req, res)
+);
 
 router.get('/trees', authMiddleware, (req, res, next) => treeController.getUserTrees(req, res, next));
+router.get('/trees/deleted', authMiddleware, (req, res, next) => treeController.getDeleted(req, res, next));
 router.post('/trees', 
   authMiddleware, 
-  validateBody({ treeName: { required: true, type: 'string', minLength: 1, maxLength: 255 } }),
+  validateBody({
+    treeName: { required: true, type: 'string', minLength: 1, maxLength: 255 },
+    autoLifeEvents: { type: 'boolean' },
+  }),
   (req, res, next) => treeController.create(req, res, next)
 );
 router.get('/trees/:treeId', 
@@ -106,6 +278,11 @@ router.get('/trees/:treeId',
 router.put('/trees/:treeId', 
   authMiddleware, 
   validateParams({ treeId: uuidSchema }),
+  validateBody({
+    treeName: { type: 'string', minLength: 1, maxLength: 255 },
+    autoLifeEvents: { type: 'boolean' },
+    requireTwoFactor: { type: 'boolean' },
+  }),
   (req, res, next) => treeController.update(req, res, next)
 );
 router.delete('/trees/:treeId', 
@@ -113,6 +290,16 @@ router.delete('/trees/:treeId',
   validateParams({ treeId: uuidSchema }),
   (req, res, next) => treeController.delete(req, res, next)
 );
+router.post('/trees/:treeId/restore', 
+  authMiddleware, 
+  validateParams({ treeId: uuidSchema }),
+  (req, res, next) => treeController.restore(req, res, next)
+);
+router.get('/trees/:treeId/trash', 
+  authMiddleware, 
+  validateParams({ treeId: uuidSchema }),
+  (req, res, next) => trashController.getTreeTrash(req, res, next)
+);
 
 router.get('/trees/:treeId/access', 
   authMiddleware, 
@@ -124,7 +311,7 @@ router.post('/trees/:treeId/access',
   validateParams({ treeId: uuidSchema }),
   validateBody({
     email: { required: true, type: 'string', pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/ },
-    accessLevel: { required: true, type: 'string', enum: ['editor', 'viewer'] },
+    accessLevel: { required: true, type: 'string', enum: ['owner', 'editor', 'viewer'] },
   }),
   (req, res, next) => treeController.grantAccess(req, res, next)
 );
@@ -134,6 +321,96 @@ router.delete('/trees/:treeId/access/:userId',
   (req, res, next) => treeController.revokeAccess(req, res, next)
 );
 
+router.get('/trees/:treeId/ownership-transfer', 
+  authMiddleware, 
+  validateParams({ treeId: uuidSchema }),
+  (req, res, next) => ownershipTransferController.getPending(req, res, next)
+);
+router.post('/trees/:treeId/ownership-transfer', 
+  authMiddleware, 
+  validateParams({ treeId: uuidSchema }),
+  validateBody({
+    toUserId: { required: true, type: 'string', pattern: uuidSchema.pattern },
+    formerOwnerLevel: { type: 'string', enum: ['owner', 'editor', 'viewer'] },
+  }),
+  (req, res, next) => ownershipTransferController.propose(req, res, next)
+);
+router.delete('/trees/:treeId/ownership-transfer', 
+  authMiddleware, 
+  validateParams({ treeId: uuidSchema }),
+  (req, res, next) => ownershipTransferController.cancel(req, res, next)
+);
+router.get('/ownership-transfers', authMiddleware, (req, res, next) => ownershipTransferController.getIncoming(req, res, next));
+router.post('/ownership-transfers/:transferId/accept', 
+  authMiddleware, 
+  validateParams({ transferId: uuidSchema }),
+  (req, res, next) => ownershipTransferController.accept(req, res, next)
+);
+router.post('/ownership-transfers/:transferId/decline', 
+  authMiddleware, 
+  validateParams({ transferId: uuidSchema }),
+  (req, res, next) => ownershipTransferController.decline(req, res, next)
+);
+
+router.get('/trees/:treeId/invitations', 
+  authMiddleware, 
+  validateParams({ treeId: uuidSchema }),
+  (req, res, next) => invitationController.getInvitations(req, res, next)
+);
+router.post('/trees/:treeId/invitations', 
+  authMiddleware, 
+  validateParams({ treeId: uuidSchema }),
+  validateBody({
+    email: { type: 'string', pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/ },
+    accessLevel: { required: true, type: 'string', enum: ['editor', 'viewer'] },
+    expiresInDays: { type: 'number' },
+    maxUses: { type: 'number' },
+  }),
+  (req, res, next) => invitationController.create(req, res, next)
+);
+router.delete('/trees/:treeId/invitations/:invitationId', 
+  authMiddleware, 
+  validateParams({ treeId: uuidSchema, invitationId: uuidSchema }),
+  (req, res, next) => invitationController.revoke(req, res, next)
+);
+router.get('/invitations/:token', 
+  authRateLimiter,
+  validateParams({ token: invitationTokenSchema }),
+  (req, res, next) => invitationController.preview(req, res, next)
+);
+router.post('/invitations/:token/redeem', 
+  authMiddleware, 
+  validateParams({ token: invitationTokenSchema }),
+  (req, res, next) => invitationController.redeem(req, res, next)
+);
+
+router.get('/trees/:treeId/issues', 
+  authMiddleware, 
+  validateParams({ treeId: uuidSchema }),
+  (req, res, next) => treeValidationController.getIssues(req, res, next)
+);
+
+router.get('/trees/:treeId/history', 
+  authMiddleware, 
+  validateParams({ treeId: uuidSchema }),
+  validateQuery({
+    entityType: { enum: Object.values(AuditEntityType) },
+    actorId: { pattern: uuidSchema.pattern },
+  }),
+  (req, res, next) => auditController.getTreeHistory(req, res, next)
+);
+router.post('/trees/:treeId/import/gedcom', 
+  authMiddleware, 
+  validateParams({ treeId: uuidSchema }),
+  gedcomBodyParser,
+  (req, res, next) => gedcomController.importGedcom(req, res, next)
+);
+router.get('/trees/:treeId/export/gedcom', 
+  authMiddleware, 
+  validateParams({ treeId: uuidSchema }),
+  (req, res, next) => gedcomController.exportGedcom(req, res, next)
+);
+
 router.get('/trees/:treeId/nodes', 
   authMiddleware, 
   validateParams({ treeId: uuidSchema }),
@@ -142,6 +419,10 @@ router.get('/trees/:treeId/nodes',
 router.post('/trees/:treeId/nodes', 
   authMiddleware, 
   validateParams({ treeId: uuidSchema }),
+  validateBody({
+    ...genealogicalDateSchema('dateOfBirth'),
+    ...genealogicalDateSchema('dateOfDeath'),
+  }),
   (req, res, next) => nodeController.create(req, res, next)
 );
 router.get('/trees/:treeId/nodes/:nodeId', 
@@ -152,6 +433,10 @@ router.get('/trees/:treeId/nodes/:nodeId',
 router.put('/trees/:treeId/nodes/:nodeId', 
   authMiddleware, 
   validateParams({ treeId: uuidSchema, nodeId: uuidSchema }),
+  validateBody({
+    ...genealogicalDateSchema('dateOfBirth'),
+    ...genealogicalDateSchema('dateOfDeath'),
+  }),
   (req, res, next) => nodeController.update(req, res, next)
 );
 router.delete('/trees/:treeId/nodes/:nodeId', 
@@ -164,12 +449,27 @@ router.post('/trees/:treeId/nodes/:nodeId/publish',
   validateParams({ treeId: uuidSchema, nodeId: uuidSchema }),
   (req, res, next) => nodeController.publish(req, res, next)
 );
+router.post('/trees/:treeId/nodes/:nodeId/restore', 
+  authMiddleware, 
+  validateParams({ treeId: uuidSchema, nodeId: uuidSchema }),
+  (req, res, next) => nodeController.restore(req, res, next)
+);
 
 router.get('/nodes/:nodeId/relationships', 
   authMiddleware, 
   validateParams({ nodeId: uuidSchema }),
   (req, res, next) => relationshipController.getNodeRelationships(req, res, next)
 );
+router.get('/nodes/:nodeId/events', 
+  authMiddleware, 
+  validateParams({ nodeId: uuidSchema }),
+  (req, res, next) => timelineController.getNodeEvents(req, res, next)
+);
+router.get('/nodes/:nodeId/history', 
+  authMiddleware, 
+  validateParams({ nodeId: uuidSchema }),
+  (req, res, next) => auditController.getNodeHistory(req, res, next)
+);
 router.get('/nodes/:nodeId/linked-nodes', 
   authMiddleware, 
   validateParams({ nodeId: uuidSchema }),
@@ -185,6 +485,16 @@ router.get('/nodes/:nodeId/linked-tree-info',
   validateParams({ nodeId: uuidSchema }),
   (req, res, next) => accessRequestController.getLinkedTreeInfo(req, res, next)
 );
+router.get('/nodes/:nodeId/duplicates', 
+  authMiddleware, 
+  validateParams({ nodeId: uuidSchema }),
+  (req, res, next) => consolidationController.getDuplicates(req, res, next)
+);
+router.get('/nodes/:nodeId/consolidation', 
+  authMiddleware, 
+  validateParams({ nodeId: uuidSchema }),
+  (req, res, next) => consolidationController.getIdentity(req, res, next)
+);
 
 router.get('/trees/:treeId/relationships', 
   authMiddleware, 
@@ -198,6 +508,9 @@ router.post('/trees/:treeId/relationships',
     nodeId1: { required: true, type: 'string' },
     nodeId2: { required: true, type: 'string' },
     relationshipType: { required: true, type: 'string', enum: Object.values(RelationshipType) },
+    role1: { type: 'string', enum: Object.values(RelationshipRole) },
+    startDate: { type: 'string' },
+    endDate: { type: 'string' },
   }),
   (req, res, next) => relationshipController.create(req, res, next)
 );
@@ -206,12 +519,33 @@ router.get('/relationships/:relationshipId',
   validateParams({ relationshipId: uuidSchema }),
   (req, res, next) => relationshipController.getById(req, res, next)
 );
+router.get('/relationships/:relationshipId/history', 
+  authMiddleware, 
+  validateParams({ relationshipId: uuidSchema }),
+  (req, res, next) => auditController.getRelationshipHistory(req, res, next)
+);
+router.put('/relationships/:relationshipId', 
+  authMiddleware, 
+  validateParams({ relationshipId: uuidSchema }),
+  validateBody({
+    startDate: { type: 'string' },
+    endDate: { type: 'string' },
+  }),
+  (req, res, next) => relationshipController.update(req, res, next)
+);
 router.delete('/relationships/:relationshipId', 
   authMiddleware, 
   validateParams({ relationshipId: uuidSchema }),
   (req, res, next) => relationshipController.delete(req, res, next)
 );
 
+router.get('/trees/:treeId/kinship', 
+  authMiddleware, 
+  validateParams({ treeId: uuidSchema }),
+  validateQuery({ from: uuidSchema, to: uuidSchema }),
+  (req, res, next) => kinshipController.getKinship(req, res, next)
+);
+
 router.get('/trees/:treeId/events', 
   authMiddleware, 
   validateParams({ treeId: uuidSchema }),
@@ -223,7 +557,10 @@ router.post('/trees/:treeId/events',
   validateBody({
     eventType: { required: true, type: 'string', enum: Object.values(EventType) },
     title: { required: true, type: 'string', minLength: 1, maxLength: 255 },
+    ...genealogicalDateSchema('eventDate'),
     eventDate: { required: true, type: 'string' },
+    participants: { type: 'array' },
+    participantIds: { type: 'array' },
   }),
   (req, res, next) => timelineController.create(req, res, next)
 );
@@ -232,9 +569,19 @@ router.get('/events/:eventId',
   validateParams({ eventId: uuidSchema }),
   (req, res, next) => timelineController.getById(req, res, next)
 );
+router.get('/events/:eventId/history', 
+  authMiddleware, 
+  validateParams({ eventId: uuidSchema }),
+  (req, res, next) => auditController.getEventHistory(req, res, next)
+);
 router.put('/events/:eventId', 
   authMiddleware, 
   validateParams({ eventId: uuidSchema }),
+  validateBody({
+    ...genealogicalDateSchema('eventDate'),
+    addParticipants: { type: 'array' },
+    removeParticipants: { type: 'array' },
+  }),
   (req, res, next) => timelineController.update(req, res, next)
 );
 router.delete('/events/:eventId', 
@@ -242,6 +589,11 @@ router.delete('/events/:eventId',
   validateParams({ eventId: uuidSchema }),
   (req, res, next) => timelineController.delete(req, res, next)
 );
+router.post('/events/:eventId/restore', 
+  authMiddleware, 
+  validateParams({ eventId: uuidSchema }),
+  (req, res, next) => timelineController.restore(req, res, next)
+);
 
 router.post('/same-person-links', 
   authMiddleware, 
@@ -262,6 +614,22 @@ router.delete('/same-person-links/:linkId',
   (req, res, next) => samePersonLinkController.delete(req, res, next)
 );
 
+const consolidationBodySchema = {
+  primaryNodeId: { ...uuidSchema, type: 'string' as const },
+  secondaryNodeId: { ...uuidSchema, type: 'string' as const },
+};
+
+router.post('/consolidations/preview', 
+  authMiddleware, 
+  validateBody(consolidationBodySchema),
+  (req, res, next) => consolidationController.preview(req, res, next)
+);
+router.post('/consolidations', 
+  authMiddleware, 
+  validateBody(consolidationBodySchema),
+  (req, res, next) => consolidationController.merge(req, res, next)
+);
+
 router.get('/comments', 
   authMiddleware, 
   validateQuery({
@@ -314,6 +682,51 @@ router.put('/notifications/read-all',
   (req, res, next) => notificationController.markAllAsRead(req, res, next)
 );
 
+router.get('/notification-preferences', 
+  authMiddleware, 
+  validateQuery({ treeId: { ...uuidSchema, required: false } }),
+  (req, res, next) => notificationPreferenceController.getPreferences(req, res, next)
+);
+router.put('/notification-preferences', 
+  authMiddleware, 
+  validateBody({
+    notificationType: { required: true, type: 'string', enum: Object.values(NotificationType) },
+    delivery: { required: true, type: 'string', enum: Object.values(NotificationDelivery) },
+    treeId: { ...uuidSchema, required: false, type: 'string' },
+  }),
+  (req, res, next) => notificationPreferenceController.setPreference(req, res, next)
+);
+router.delete('/notification-preferences/:notificationType', 
+  authMiddleware, 
+  validateParams({ notificationType: { required: true, enum: Object.values(NotificationType) } }),
+  validateQuery({ treeId: { ...uuidSchema, required: false } }),
+  (req, res, next) => notificationPreferenceController.clearPreference(req, res, next)
+);
+
+router.get('/devices', 
+  authMiddleware, 
+  (req, res, next) => deviceController.getDevices(req, res, next)
+);
+router.post('/devices', 
+  authMiddleware, 
+  validateBody({
+    pushToken: { required: true, type: 'string', minLength: 1, maxLength: 255 },
+    platform: { required: true, type: 'string', enum: Object.values(DevicePlatform) },
+  }),
+  (req, res, next) => deviceController.register(req, res, next)
+);
+router.delete('/devices/:deviceId', 
+  authMiddleware, 
+  validateParams({ deviceId: uuidSchema }),
+  (req, res, next) => deviceController.remove(req, res, next)
+);
+
+router.get('/live', 
+  authMiddleware, 
+  validateQuery({ treeId: { ...uuidSchema, required: false } }),
+  (req, res, next) => realtimeController.stream(req, res, next)
+);
+
 router.get('/trees/:treeId/albums', 
   authMiddleware, 
   validateParams({ treeId: uuidSchema }),
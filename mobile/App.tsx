@@ -4,7 +4,8 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { store } from './src/store';
 import { NavigationContainer } from '@react-navigation/native';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
-import { AppNavigator } from './src/navigation';
+import { AppNavigator, navigationRef } from './src/navigation';
+import { LiveUpdatesProvider, PushNotificationsProvider, UndoSnackbarProvider } from './src/components';
 
 const queryClient = new QueryClient();
 
@@ -13,9 +14,15 @@ export default function App() {
     <GestureHandlerRootView style={{ flex: 1 }}>
       <Provider store={store}>
         <QueryClientProvider client={queryClient}>
-          <NavigationContainer>
-            <AppNavigator />
-          </NavigationContainer>
+          <LiveUpdatesProvider>
+            <PushNotificationsProvider>
+              <UndoSnackbarProvider>
+                <NavigationContainer ref={navigationRef}>
+                  <AppNavigator />
+                </NavigationContainer>
+              </UndoSnackbarProvider>
+            </PushNotificationsProvider>
+          </LiveUpdatesProvider>
         </QueryClientProvider>
       </Provider>
     </GestureHandlerRootView>
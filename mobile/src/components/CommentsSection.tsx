@@ -125,6 +125,7 @@ export const CommentsSection: React.FC<CommentsSectionProps> = ({
   const { data: comments, isLoading } = useQuery({
     queryKey: ['comments', treeId, entityType, entityId],
     queryFn: () => commentService.getComments(treeId, entityType, entityId),
+    select: (page) => page.items,
   });
 
   const createMutation = useMutation({
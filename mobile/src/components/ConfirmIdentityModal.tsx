@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  Modal,
+} from 'react-native';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { authService } from '../services/authService';
+import { SignInProvider } from '../types';
+
+const PROVIDER_LABELS: Record<SignInProvider, string> = {
+  google: 'Google',
+  apple: 'Apple',
+};
+
+interface ConfirmIdentityModalProps {
+  visible: boolean;
+  /** Gets the reauth token the server wants before changing how the account signs in */
+  onConfirmed: (reauthToken: string) => void;
+  onCancel: () => void;
+}
+
+/** Asks for the password, or a sign-in with a linked provider, before a sensitive change */
+export const ConfirmIdentityModal: React.FC<ConfirmIdentityModalProps> = ({ visible, onConfirmed, onCancel }) => {
+  const [password, setPassword] = useState('');
+
+  const { data: methods } = useQuery({
+    queryKey: ['signInMethods'],
+    queryFn: () => authService.getSignInMethods(),
+    enabled: visible,
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: (confirmation: { password: string } | { provider: SignInProvider }) =>
+      authService.reauthenticate(confirmation),
+    onSuccess: (reauthToken) => {
+      setPassword('');
+      onConfirmed(reauthToken);
+    },
+    onError: (err: any) => {
+      // Cancelling the Apple sheet is not an error
+      if (err.code !== '1001') {
+        Alert.alert('Error', err.response?.data?.error || err.message || 'Could not confirm it\'s you');
+      }
+    },
+  });
+
+  // Several accounts from one provider still sign in through the same sheet
+  const providers = [...new Set(methods?.identities.map((identity) => identity.provider) ?? [])];
+
+  const cancel = () => {
+    setPassword('');
+    onCancel();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={cancel}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Confirm it's you</Text>
+
+          {!methods ? (
+            <ActivityIndicator color="#007AFF" style={styles.loading} />
+          ) : (
+            <>
+              {methods.hasPassword && (
+                <>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="Password"
+                    placeholderTextColor="#999"
+                    value={password}
+                    onChangeText={setPassword}
+                    secureTextEntry
+                    autoComplete="password"
+                    editable={!confirmMutation.isPending}
+                  />
+                  <TouchableOpacity
+                    style={[styles.primaryButton, (!password || confirmMutation.isPending) && styles.buttonDisabled]}
+                    onPress={() => confirmMutation.mutate({ password })}
+                    disabled={!password || confirmMutation.isPending}
+                  >
+                    {confirmMutation.isPending ? (
+                      <ActivityIndicator color="#fff" />
+                    ) : (
+                      <Text style={styles.primaryButtonText}>Continue</Text>
+                    )}
+                  </TouchableOpacity>
+                </>
+              )}
+
+              {providers.map((provider) => (
+                <TouchableOpacity
+                  key={provider}
+                  style={styles.secondaryButton}
+                  onPress={() => confirmMutation.mutate({ provider })}
+                  disabled={confirmMutation.isPending}
+                >
+                  <Text style={styles.secondaryButtonText}>Continue with {PROVIDER_LABELS[provider]}</Text>
+                </TouchableOpacity>
+              ))}
+            </>
+          )}
+
+          <TouchableOpacity onPress={cancel} disabled={confirmMutation.isPending}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  content: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  loading: {
+    marginBottom: 16,
+  },
+  input: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    padding: 14,
+    fontSize: 16,
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 48,
+    marginBottom: 12,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  cancelText: {
+    color: '#666',
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+});
+
+export default ConfirmIdentityModal;
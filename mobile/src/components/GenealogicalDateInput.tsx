@@ -0,0 +1,202 @@
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { DatePrecision, DateQualifier } from '../types';
+
+/** A date as typed by the user: "1890", "1890-05" or "1890-05-12" */
+export interface GenealogicalDateValue {
+  date: string;
+  qualifier: DateQualifier;
+  end: string;
+}
+
+export const EMPTY_GENEALOGICAL_DATE: GenealogicalDateValue = {
+  date: '',
+  qualifier: DateQualifier.EXACT,
+  end: '',
+};
+
+const QUALIFIER_OPTIONS: { value: DateQualifier; label: string }[] = [
+  { value: DateQualifier.EXACT, label: 'Exact' },
+  { value: DateQualifier.ABOUT, label: 'About' },
+  { value: DateQualifier.ESTIMATED, label: 'Estimated' },
+  { value: DateQualifier.BEFORE, label: 'Before' },
+  { value: DateQualifier.AFTER, label: 'After' },
+  { value: DateQualifier.BETWEEN, label: 'Between' },
+];
+
+const QUALIFIER_PREFIXES: Partial<Record<DateQualifier, string>> = {
+  [DateQualifier.ABOUT]: 'abt. ',
+  [DateQualifier.ESTIMATED]: 'est. ',
+  [DateQualifier.BEFORE]: 'before ',
+  [DateQualifier.AFTER]: 'after ',
+};
+
+const PARTIAL_DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+export const isValidGenealogicalDate = (value: GenealogicalDateValue): boolean =>
+  PARTIAL_DATE_PATTERN.test(value.date.trim())
+  && (value.qualifier !== DateQualifier.BETWEEN || PARTIAL_DATE_PATTERN.test(value.end.trim()));
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const toPartialDate = (value: string, precision?: DatePrecision): string => {
+  const date = new Date(value);
+  const year = String(date.getFullYear());
+  if (precision === DatePrecision.YEAR) return year;
+  if (precision === DatePrecision.MONTH) return `${year}-${pad(date.getMonth() + 1)}`;
+  return `${year}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/** Input state for a stored date, showing only as much of it as its precision covers */
+export const toGenealogicalDateValue = (
+  date?: string | null,
+  qualifier?: DateQualifier,
+  precision?: DatePrecision,
+  end?: string | null
+): GenealogicalDateValue => {
+  if (!date) return { ...EMPTY_GENEALOGICAL_DATE };
+  return {
+    date: toPartialDate(date, precision),
+    qualifier: qualifier ?? DateQualifier.EXACT,
+    end: end ? toPartialDate(end, precision) : '',
+  };
+};
+
+const formatPartialDate = (value: string, precision?: DatePrecision): string => {
+  const date = new Date(value);
+  if (precision === DatePrecision.YEAR) return String(date.getFullYear());
+  if (precision === DatePrecision.MONTH) {
+    return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short' });
+  }
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+};
+
+/** Reads a stored date the way genealogists write it: "abt. 1890", "before Mar 1920", "1910 – 1915" */
+export const formatGenealogicalDate = (
+  date?: string | null,
+  qualifier?: DateQualifier,
+  precision?: DatePrecision,
+  end?: string | null
+): string => {
+  if (!date) return 'Unknown';
+  if (qualifier === DateQualifier.BETWEEN && end) {
+    return `${formatPartialDate(date, precision)} – ${formatPartialDate(end, precision)}`;
+  }
+  return `${(qualifier && QUALIFIER_PREFIXES[qualifier]) || ''}${formatPartialDate(date, precision)}`;
+};
+
+interface GenealogicalDateInputProps {
+  label: string;
+  value: GenealogicalDateValue;
+  onChange: (value: GenealogicalDateValue) => void;
+  editable?: boolean;
+}
+
+export const GenealogicalDateInput: React.FC<GenealogicalDateInputProps> = ({
+  label,
+  value,
+  onChange,
+  editable = true,
+}) => {
+  const isRange = value.qualifier === DateQualifier.BETWEEN;
+
+  return (
+    <View>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.chipRow}>
+        {QUALIFIER_OPTIONS.map((option) => {
+          const selected = value.qualifier === option.value;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.chip, selected && styles.chipSelected]}
+              onPress={() => onChange({ ...value, qualifier: option.value })}
+              disabled={!editable}
+            >
+              <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.dateRow}>
+        <TextInput
+          style={[styles.input, styles.dateInput]}
+          placeholder={isRange ? 'From (YYYY, YYYY-MM or YYYY-MM-DD)' : 'YYYY, YYYY-MM or YYYY-MM-DD'}
+          placeholderTextColor="#999"
+          value={value.date}
+          onChangeText={(date) => onChange({ ...value, date })}
+          editable={editable}
+          keyboardType="numbers-and-punctuation"
+          maxLength={10}
+        />
+        {isRange && (
+          <TextInput
+            style={[styles.input, styles.dateInput]}
+            placeholder="To"
+            placeholderTextColor="#999"
+            value={value.end}
+            onChangeText={(end) => onChange({ ...value, end })}
+            editable={editable}
+            keyboardType="numbers-and-punctuation"
+            maxLength={10}
+          />
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#f9f9f9',
+  },
+  chipSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: '#e6f2ff',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  chipTextSelected: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#f9f9f9',
+    padding: 16,
+    marginBottom: 20,
+    borderRadius: 12,
+    fontSize: 16,
+    color: '#1a1a1a',
+  },
+  dateInput: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,110 @@
+import React from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { useQuery } from '@tanstack/react-query';
+import { timelineService } from '../services/timelineService';
+import { EventType, TimelineEvent } from '../types';
+import { formatGenealogicalDate } from './GenealogicalDateInput';
+
+const LIFE_TIMELINE_LIMIT = 50;
+
+const EVENT_ICONS: Record<EventType, string> = {
+  [EventType.BIRTH]: '👶',
+  [EventType.MARRIAGE]: '💒',
+  [EventType.DEATH]: '🕯️',
+  [EventType.MILESTONE]: '🎯',
+  [EventType.ACHIEVEMENT]: '🏆',
+  [EventType.MEMORY]: '📸',
+};
+
+interface LifeTimelineSectionProps {
+  treeId: string;
+  nodeId: string;
+}
+
+const formatRole = (role: string): string => role.charAt(0).toUpperCase() + role.slice(1);
+
+export const LifeTimelineSection: React.FC<LifeTimelineSectionProps> = ({ treeId, nodeId }) => {
+  const { data, isLoading } = useQuery({
+    queryKey: ['timeline', treeId, 'node', nodeId],
+    queryFn: () => timelineService.getNodeEvents(nodeId, { limit: LIFE_TIMELINE_LIMIT }),
+  });
+
+  const events = data?.items ?? [];
+
+  const roleOf = (event: TimelineEvent): string | null | undefined =>
+    event.participants?.find(participant => participant.nodeId === nodeId)?.role;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionTitle}>📅 Life Timeline</Text>
+
+      {isLoading ? (
+        <ActivityIndicator size="small" color="#007AFF" />
+      ) : events.length === 0 ? (
+        <Text style={styles.emptyText}>
+          No events yet. Add this person as a participant when creating an event.
+        </Text>
+      ) : (
+        events.map((event) => {
+          const role = roleOf(event);
+          return (
+            <View key={event.eventId} style={styles.eventItem}>
+              <Text style={styles.eventIcon}>{EVENT_ICONS[event.eventType] || '📅'}</Text>
+              <View style={styles.eventInfo}>
+                <Text style={styles.eventTitle}>{event.title}</Text>
+                <Text style={styles.eventMeta}>
+                  {formatGenealogicalDate(event.eventDate, event.eventDateQualifier, event.eventDatePrecision, event.eventDateEnd)}
+                  {role ? ` • ${formatRole(role)}` : ''}
+                </Text>
+              </View>
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  eventItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 10,
+    marginBottom: 8,
+  },
+  eventIcon: {
+    fontSize: 20,
+    marginRight: 12,
+  },
+  eventInfo: {
+    flex: 1,
+  },
+  eventTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  eventMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+});
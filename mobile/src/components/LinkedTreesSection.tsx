@@ -38,7 +38,7 @@ export const LinkedTreesSection: React.FC<LinkedTreesSectionProps> = ({
       queryClient.invalidateQueries({ queryKey: ['linkedTreeInfo', nodeId] });
       setRequestModalVisible(false);
       setSelectedTree(null);
-      Alert.alert('Request Sent', 'Your access request has been sent to the tree owner.');
+      Alert.alert('Request Sent', 'Your access request has been sent to the tree's owners.');
     },
     onError: (err: any) => {
       Alert.alert('Error', err.response?.data?.error?.message || 'Failed to send request');
@@ -0,0 +1,181 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useQueryClient, QueryClient } from '@tanstack/react-query';
+import { useSelector } from 'react-redux';
+import { realtimeService } from '../services/realtimeService';
+import type { RootState } from '../store';
+import type { TreeChange, TreePresence, TreeViewer } from '../types';
+
+const RECONNECT_DELAY_MS = 5000;
+
+// The server refused the stream; retrying will not change its mind
+const FINAL_STATUSES = [400, 403, 404];
+
+interface LiveUpdatesContextValue {
+  presence: TreePresence | null;
+  watchTree: (treeId: string) => () => void;
+}
+
+const LiveUpdatesContext = createContext<LiveUpdatesContextValue>({
+  presence: null,
+  watchTree: () => () => undefined,
+});
+
+/** Refetches whatever shows the changed entity; lists and details alike */
+const applyChange = (queryClient: QueryClient, change: TreeChange) => {
+  const { treeId, entityId } = change;
+  const removed = change.action === 'delete';
+  const trashChanged = change.action === 'delete' || change.action === 'restore';
+
+  switch (change.entityType) {
+    case 'node':
+      if (removed) {
+        queryClient.removeQueries({ queryKey: ['node', treeId, entityId] });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ['node', treeId, entityId] });
+      }
+      queryClient.invalidateQueries({ queryKey: ['nodes', treeId] });
+      // Birth and death events follow people's dates, and relationships go with them
+      queryClient.invalidateQueries({ queryKey: ['timeline', treeId] });
+      if (trashChanged) {
+        queryClient.invalidateQueries({ queryKey: ['relationships', treeId] });
+        queryClient.invalidateQueries({ queryKey: ['trash', treeId] });
+      }
+      break;
+    case 'relationship':
+      queryClient.invalidateQueries({ queryKey: ['relationships', treeId] });
+      queryClient.invalidateQueries({ queryKey: ['nodes', treeId] });
+      break;
+    case 'event':
+      queryClient.invalidateQueries({ queryKey: ['timeline', treeId] });
+      if (trashChanged) {
+        queryClient.invalidateQueries({ queryKey: ['trash', treeId] });
+      }
+      break;
+    case 'comment':
+      queryClient.invalidateQueries({
+        queryKey: ['comments', treeId, change.parentEntityType, change.parentEntityId],
+      });
+      break;
+  }
+};
+
+/**
+ * Keeps one live connection open while signed in. It carries notifications and,
+ * while a screen watches a tree, that tree's changes and who else is viewing it.
+ */
+export const LiveUpdatesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const queryClient = useQueryClient();
+  const isAuthenticated = useSelector((state: RootState) => state.auth.isAuthenticated);
+  const [treeId, setTreeId] = useState<string | null>(null);
+  const [presence, setPresence] = useState<TreePresence | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    let cancelled = false;
+    let close: (() => void) | null = null;
+    let retry: ReturnType<typeof setTimeout> | null = null;
+
+    const open = async () => {
+      let ended = false;
+      const disconnect = await realtimeService.connect(treeId, {
+        onChange: (change) => applyChange(queryClient, change),
+        onPresence: setPresence,
+        onNotification: () => {
+          queryClient.invalidateQueries({ queryKey: ['unreadNotificationCount'] });
+          queryClient.invalidateQueries({ queryKey: ['notifications'] });
+        },
+        onDisconnect: (status) => {
+          if (ended) return;
+          ended = true;
+          disconnect();
+          setPresence(null);
+          if (treeId && status !== undefined && FINAL_STATUSES.includes(status)) {
+            queryClient.invalidateQueries({ queryKey: ['trees'] });
+            return;
+          }
+          if (!cancelled) retry = setTimeout(open, RECONNECT_DELAY_MS);
+        },
+      });
+
+      if (cancelled) {
+        disconnect();
+      } else {
+        close = disconnect;
+      }
+    };
+
+    open();
+    return () => {
+      cancelled = true;
+      if (retry) clearTimeout(retry);
+      close?.();
+      setPresence(null);
+    };
+  }, [isAuthenticated, treeId, queryClient]);
+
+  const watchTree = useCallback((id: string) => {
+    setTreeId(id);
+    return () => setTreeId(current => (current === id ? null : current));
+  }, []);
+
+  return (
+    <LiveUpdatesContext.Provider value={{ presence, watchTree }}>
+      {children}
+    </LiveUpdatesContext.Provider>
+  );
+};
+
+/** Follows a tree's changes while the calling screen is mounted; returns the other viewers */
+export const useTreePresence = (treeId: string): TreeViewer[] => {
+  const { presence, watchTree } = useContext(LiveUpdatesContext);
+  const userId = useSelector((state: RootState) => state.auth.user?.userId);
+
+  useEffect(() => watchTree(treeId), [treeId, watchTree]);
+
+  if (presence?.treeId !== treeId) return [];
+  return presence.viewers.filter(viewer => viewer.userId !== userId);
+};
+
+const describeViewers = (viewers: TreeViewer[]): string => {
+  const [first, second] = viewers.map(viewer => viewer.displayName || 'Someone');
+  if (viewers.length === 1) return `${first} is viewing this tree`;
+  if (viewers.length === 2) return `${first} and ${second} are viewing this tree`;
+  return `${first} and ${viewers.length - 1} others are viewing this tree`;
+};
+
+export const TreePresenceBanner: React.FC<{ treeId: string }> = ({ treeId }) => {
+  const viewers = useTreePresence(treeId);
+
+  if (viewers.length === 0) return null;
+
+  return (
+    <View style={styles.banner}>
+      <View style={styles.dot} />
+      <Text style={styles.text} numberOfLines={1}>{describeViewers(viewers)}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#e6f2ff',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#34C759',
+    marginRight: 8,
+  },
+  text: {
+    flex: 1,
+    fontSize: 13,
+    color: '#007AFF',
+  },
+});
@@ -11,7 +11,8 @@ export const NotificationBadge: React.FC<NotificationBadgeProps> = ({ onPress })
   const { data: unreadCount = 0 } = useQuery({
     queryKey: ['unreadNotificationCount'],
     queryFn: notificationService.getUnreadCount,
-    refetchInterval: 30000,
+    // New notifications arrive over the live channel; polling only covers a dropped connection
+    refetchInterval: 5 * 60 * 1000,
   });
 
   return (
@@ -0,0 +1,60 @@
+import React, { useEffect } from 'react';
+import * as Notifications from 'expo-notifications';
+import { useQueryClient } from '@tanstack/react-query';
+import { useSelector } from 'react-redux';
+import { pushNotificationService } from '../services/pushNotificationService';
+import { navigationRef } from '../navigation/navigationRef';
+import type { RootState } from '../store';
+
+// While the app is open the badge updates live, so pushes stay silent
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowAlert: false,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+const openNotifications = () => {
+  if (navigationRef.isReady()) {
+    navigationRef.navigate('Notifications');
+  }
+};
+
+/**
+ * Registers the device for push notifications while signed in and opens the
+ * notification list when one is tapped.
+ */
+export const PushNotificationsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const queryClient = useQueryClient();
+  const isAuthenticated = useSelector((state: RootState) => state.auth.isAuthenticated);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    pushNotificationService.register().catch(() => {
+      // Push is optional; in-app notifications still work without it
+    });
+
+    const received = Notifications.addNotificationReceivedListener((notification) => {
+      if (!pushNotificationService.getData(notification)) return;
+      queryClient.invalidateQueries({ queryKey: ['unreadNotificationCount'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    });
+    const tapped = Notifications.addNotificationResponseReceivedListener((response) => {
+      if (pushNotificationService.getData(response.notification)) openNotifications();
+    });
+
+    // A tap that launched the app arrives before the listener exists
+    Notifications.getLastNotificationResponseAsync().then((response) => {
+      if (response && pushNotificationService.getData(response.notification)) openNotifications();
+    });
+
+    return () => {
+      received.remove();
+      tapped.remove();
+    };
+  }, [isAuthenticated, queryClient]);
+
+  return <>{children}</>;
+};
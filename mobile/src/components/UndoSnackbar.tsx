@@ -0,0 +1,89 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+
+const UNDO_TIMEOUT_MS = 6000;
+
+interface UndoSnackbarOptions {
+  message: string;
+  onUndo: () => void;
+}
+
+type ShowUndoSnackbar = (options: UndoSnackbarOptions) => void;
+
+const UndoSnackbarContext = createContext<ShowUndoSnackbar>(() => undefined);
+
+/**
+ * Renders a snackbar above every screen so an undo offer survives navigating
+ * away from the screen that deleted something.
+ */
+export const UndoSnackbarProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [snackbar, setSnackbar] = useState<UndoSnackbarOptions | null>(null);
+  const timeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const clearTimer = () => {
+    if (timeout.current) clearTimeout(timeout.current);
+    timeout.current = null;
+  };
+
+  const show = useCallback<ShowUndoSnackbar>((options) => {
+    clearTimer();
+    setSnackbar(options);
+    timeout.current = setTimeout(() => setSnackbar(null), UNDO_TIMEOUT_MS);
+  }, []);
+
+  useEffect(() => clearTimer, []);
+
+  const handleUndo = () => {
+    clearTimer();
+    const current = snackbar;
+    setSnackbar(null);
+    current?.onUndo();
+  };
+
+  return (
+    <UndoSnackbarContext.Provider value={show}>
+      {children}
+      {snackbar && (
+        <View style={styles.snackbar}>
+          <Text style={styles.message} numberOfLines={2}>{snackbar.message}</Text>
+          <TouchableOpacity onPress={handleUndo}>
+            <Text style={styles.undoText}>UNDO</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </UndoSnackbarContext.Provider>
+  );
+};
+
+export const useUndoSnackbar = (): ShowUndoSnackbar => useContext(UndoSnackbarContext);
+
+const styles = StyleSheet.create({
+  snackbar: {
+    position: 'absolute',
+    bottom: 32,
+    left: 16,
+    right: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#323232',
+    borderRadius: 8,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+    elevation: 6,
+  },
+  message: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+    marginRight: 12,
+  },
+  undoText: {
+    color: '#4da3ff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
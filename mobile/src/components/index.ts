@@ -1,4 +1,17 @@
 export { LinkedTreesSection } from './LinkedTreesSection';
 export { RequestAccessModal } from './RequestAccessModal';
+export { ConfirmIdentityModal } from './ConfirmIdentityModal';
 export { CommentsSection } from './CommentsSection';
+export { LifeTimelineSection } from './LifeTimelineSection';
 export { NotificationBadge } from './NotificationBadge';
+export { UndoSnackbarProvider, useUndoSnackbar } from './UndoSnackbar';
+export { LiveUpdatesProvider, TreePresenceBanner, useTreePresence } from './LiveUpdatesProvider';
+export { PushNotificationsProvider } from './PushNotificationsProvider';
+export {
+  GenealogicalDateInput,
+  EMPTY_GENEALOGICAL_DATE,
+  formatGenealogicalDate,
+  isValidGenealogicalDate,
+  toGenealogicalDateValue,
+} from './GenealogicalDateInput';
+export type { GenealogicalDateValue } from './GenealogicalDateInput';
@@ -6,13 +6,15 @@ import { TreeListScreen } from '../screens/tree/TreeListScreen';
 import { TreeViewScreen } from '../screens/tree/TreeViewScreen';
 import { CreateTreeScreen } from '../screens/tree/CreateTreeScreen';
 import { ShareTreeScreen } from '../screens/tree/ShareTreeScreen';
+import { TrashScreen } from '../screens/tree/TrashScreen';
 import { AddNodeScreen, NodeDetailScreen, EditNodeScreen } from '../screens/node';
 import { AddRelationshipScreen } from '../screens/relationship';
 import { TimelineScreen, CreateEventScreen } from '../screens/timeline';
 import { SearchScreen } from '../screens/search';
 import { CreateSamePersonLinkScreen, AccessRequestsScreen } from '../screens/same-person-link';
-import { NotificationsScreen } from '../screens/notification';
+import { NotificationsScreen, NotificationSettingsScreen } from '../screens/notification';
 import { AlbumListScreen, LinkAlbumScreen } from '../screens/album';
+import { VerifyEmailScreen, SessionsScreen, SignInMethodsScreen, TwoFactorScreen, AccountScreen } from '../screens/auth';
 import { NotificationBadge } from '../components';
 import { authService } from '../services/authService';
 import { clearUser } from '../store/slices/authSlice';
@@ -32,8 +34,15 @@ export type MainStackParamList = {
   CreateSamePersonLink: { nodeId: string; treeId: string; nodeName: string };
   AccessRequests: { treeId: string; treeName: string };
   Notifications: undefined;
+  NotificationSettings: { treeId?: string; treeName?: string } | undefined;
   AlbumList: { treeId: string; treeName: string };
   LinkAlbum: { treeId: string; treeName: string };
+  Trash: { treeId: string; treeName: string };
+  VerifyEmail: undefined;
+  Sessions: undefined;
+  SignInMethods: undefined;
+  TwoFactor: undefined;
+  Account: undefined;
 };
 
 const Stack = createStackNavigator<MainStackParamList>();
@@ -60,9 +69,20 @@ export const MainNavigator: React.FC = () => {
         options={({ navigation }) => ({
           title: 'My Family Trees',
           headerLeft: () => (
-            <TouchableOpacity style={styles.headerButton} onPress={() => navigation.navigate('Search')}>
-              <Text style={styles.headerButtonText}>🔍</Text>
-            </TouchableOpacity>
+            <View style={styles.headerLeftContainer}>
+              <TouchableOpacity style={styles.headerButton} onPress={() => navigation.navigate('Search')}>
+                <Text style={styles.headerButtonText}>🔍</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.headerButton} onPress={() => navigation.navigate('Sessions')}>
+                <Text style={styles.headerButtonText}>📱</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.headerButton} onPress={() => navigation.navigate('SignInMethods')}>
+                <Text style={styles.headerButtonText}>🔑</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.headerButton} onPress={() => navigation.navigate('Account')}>
+                <Text style={styles.headerButtonText}>👤</Text>
+              </TouchableOpacity>
+            </View>
           ),
           headerRight: () => (
             <View style={styles.headerRightContainer}>
@@ -129,6 +149,31 @@ export const MainNavigator: React.FC = () => {
         component={CreateSamePersonLinkScreen}
         options={{ title: 'Link Same Person' }}
       />
+      <Stack.Screen
+        name="VerifyEmail"
+        component={VerifyEmailScreen}
+        options={{ title: 'Confirm Email' }}
+      />
+      <Stack.Screen
+        name="Sessions"
+        component={SessionsScreen}
+        options={{ title: 'Devices' }}
+      />
+      <Stack.Screen
+        name="SignInMethods"
+        component={SignInMethodsScreen}
+        options={{ title: 'Sign-in Methods' }}
+      />
+      <Stack.Screen
+        name="TwoFactor"
+        component={TwoFactorScreen}
+        options={{ title: 'Two-Factor Authentication' }}
+      />
+      <Stack.Screen
+        name="Account"
+        component={AccountScreen}
+        options={{ title: 'Your Data & Account' }}
+      />
       <Stack.Screen
         name="AccessRequests"
         component={AccessRequestsScreen}
@@ -137,7 +182,19 @@ export const MainNavigator: React.FC = () => {
       <Stack.Screen
         name="Notifications"
         component={NotificationsScreen}
-        options={{ title: 'Notifications' }}
+        options={({ navigation }) => ({
+          title: 'Notifications',
+          headerRight: () => (
+            <TouchableOpacity style={styles.headerRightContainer} onPress={() => navigation.navigate('NotificationSettings')}>
+              <Text style={styles.headerButtonText}>⚙️</Text>
+            </TouchableOpacity>
+          ),
+        })}
+      />
+      <Stack.Screen
+        name="NotificationSettings"
+        component={NotificationSettingsScreen}
+        options={{ title: 'Notification Settings' }}
       />
       <Stack.Screen
         name="AlbumList"
@@ -149,6 +206,11 @@ export const MainNavigator: React.FC = () => {
         component={LinkAlbumScreen}
         options={{ title: 'Link Album' }}
       />
+      <Stack.Screen
+        name="Trash"
+        component={TrashScreen}
+        options={{ title: 'Trash' }}
+      />
     </Stack.Navigator>
   );
 };
@@ -158,6 +220,7 @@ const styles = StyleSheet.create({
   logoutText: { color: '#fff', fontSize: 16 },
   headerButton: { marginLeft: 16 },
   headerButtonText: { color: '#fff', fontSize: 20 },
+  headerLeftContainer: { flexDirection: 'row', alignItems: 'center' },
   headerRightContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -2,4 +2,5 @@ export { AppNavigator } from './AppNavigator';
 export { AuthNavigator } from './AuthNavigator';
 export { MainNavigator } from './MainNavigator';
 export type { AuthStackParamList } from './AuthNavigator';
-export type { MainStackParamList } from './MainNavigator';
\ No newline at end of file
+export type { MainStackParamList } from './MainNavigator';
+export { navigationRef } from './navigationRef';
@@ -0,0 +1,5 @@
+import { createNavigationContainerRef } from '@react-navigation/native';
+import type { MainStackParamList } from './MainNavigator';
+
+/** Lets code outside the screens, such as push notification handlers, navigate */
+export const navigationRef = createNavigationContainerRef<MainStackParamList>();
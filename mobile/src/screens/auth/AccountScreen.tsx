@@ -0,0 +1,330 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  Share,
+} from 'react-native';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { useDispatch, useSelector } from 'react-redux';
+import { authService } from '../../services/authService';
+import { treeService } from '../../services/treeService';
+import { ConfirmIdentityModal } from '../../components';
+import { clearUser } from '../../store/slices/authSlice';
+import type { RootState } from '../../store';
+import { AccessLevel, FamilyTree } from '../../types';
+
+/** The server's reauth tokens last five minutes; stop reusing ours a little before */
+const REAUTH_REUSE_MS = 4 * 60 * 1000;
+
+type Action = { kind: 'export' } | { kind: 'delete' };
+
+const formatDate = (dateString: string): string =>
+  new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+interface TreeHandoverProps {
+  tree: FamilyTree;
+  currentUserId: string;
+  /** The member to hand the tree to, or null to delete it */
+  newOwnerUserId: string | null;
+  onChange: (newOwnerUserId: string | null) => void;
+}
+
+/** One owned tree: delete it with the account (or leave it to a co-owner), or pick a member to keep it */
+const TreeHandover: React.FC<TreeHandoverProps> = ({ tree, currentUserId, newOwnerUserId, onChange }) => {
+  const { data: members, isLoading } = useQuery({
+    queryKey: ['treeAccess', tree.treeId],
+    queryFn: () => treeService.getTreeAccess(tree.treeId),
+  });
+  const others = members?.filter((member) => member.userId !== currentUserId) ?? [];
+  // Without a choice, the tree goes to its longest-standing co-owner rather than being deleted
+  const coOwner = others
+    .filter((member) => member.accessLevel === AccessLevel.OWNER)
+    .sort((a, b) => a.grantedAt.localeCompare(b.grantedAt))[0];
+
+  return (
+    <View style={styles.treeCard}>
+      <Text style={styles.label}>🌳 {tree.treeName}</Text>
+      {isLoading ? (
+        <ActivityIndicator color="#007AFF" style={styles.treeLoading} />
+      ) : (
+        <View style={styles.choices}>
+          <TouchableOpacity
+            style={[styles.choice, newOwnerUserId === null && styles.choiceSelected]}
+            onPress={() => onChange(null)}
+          >
+            <Text style={[styles.choiceText, newOwnerUserId === null && styles.choiceTextSelected]}>
+              {coOwner ? `Leave to ${coOwner.displayName}` : 'Delete tree'}
+            </Text>
+          </TouchableOpacity>
+          {others.map((member) => (
+            <TouchableOpacity
+              key={member.userId}
+              style={[styles.choice, newOwnerUserId === member.userId && styles.choiceSelected]}
+              onPress={() => onChange(member.userId)}
+            >
+              <Text style={[styles.choiceText, newOwnerUserId === member.userId && styles.choiceTextSelected]}>
+                Give to {member.displayName}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+/**
+ * The user's data and account: downloading everything RKRoots keeps about
+ * them, and deleting the account. Deleting hands each owned tree to a member
+ * or deletes it, and can be undone by signing in within the grace period.
+ */
+export const AccountScreen: React.FC = () => {
+  const dispatch = useDispatch();
+  const currentUser = useSelector((state: RootState) => state.auth.user);
+  const [reauth, setReauth] = useState<{ token: string; obtainedAt: number } | null>(null);
+  const [awaitingReauth, setAwaitingReauth] = useState<Action | null>(null);
+  const [handovers, setHandovers] = useState<Record<string, string | null>>({});
+
+  const { data: trees, isLoading } = useQuery({
+    queryKey: ['trees'],
+    queryFn: treeService.getTrees,
+  });
+  const ownedTrees = trees?.filter((tree) => tree.ownerUserId === currentUser?.userId) ?? [];
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ action, token }: { action: Action; token: string }) => {
+      if (action.kind === 'export') {
+        const archive = await authService.exportAccount(token);
+        await Share.share({ title: 'My RKRoots data', message: archive });
+        return null;
+      }
+
+      const transfers = Object.entries(handovers)
+        .filter((entry): entry is [string, string] => entry[1] !== null)
+        .map(([treeId, newOwnerUserId]) => ({ treeId, newOwnerUserId }));
+      return authService.deleteAccount(token, transfers);
+    },
+    onSuccess: (deleteAt) => {
+      if (!deleteAt) return;
+      Alert.alert(
+        'Account Scheduled for Deletion',
+        `Your account will be deleted on ${formatDate(deleteAt)}. Sign in before then to keep it.`
+      );
+      dispatch(clearUser());
+    },
+    onError: (err: any) => {
+      if (err.response?.data?.code === 'REAUTH_REQUIRED' || err.response?.status === 401) {
+        setReauth(null);
+      }
+      Alert.alert('Error', err.response?.data?.error || 'Something went wrong');
+    },
+  });
+
+  const run = (action: Action) => {
+    if (reauth && Date.now() - reauth.obtainedAt < REAUTH_REUSE_MS) {
+      actionMutation.mutate({ action, token: reauth.token });
+    } else {
+      setAwaitingReauth(action);
+    }
+  };
+
+  const handleConfirmed = (token: string) => {
+    setReauth({ token, obtainedAt: Date.now() });
+    if (awaitingReauth) {
+      actionMutation.mutate({ action: awaitingReauth, token });
+    }
+    setAwaitingReauth(null);
+  };
+
+  const confirmDelete = () => {
+    const deleted = ownedTrees.filter((tree) => !handovers[tree.treeId]).length;
+    const treeNote = deleted > 0
+      ? ` ${deleted} ${deleted === 1 ? 'tree you own' : 'trees you own'} will be deleted with it unless a co-owner takes over.`
+      : '';
+    Alert.alert(
+      'Delete Account',
+      `You'll be signed out everywhere and your account will be deleted in 30 days.${treeNote}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => run({ kind: 'delete' }) },
+      ]
+    );
+  };
+
+  if (isLoading || !currentUser) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.card}>
+          <Text style={styles.label}>Download your data</Text>
+          <Text style={styles.meta}>
+            Your profile, the trees you own, your comments, notifications and sign-in history, as one file.
+          </Text>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => run({ kind: 'export' })}
+            disabled={actionMutation.isPending}
+          >
+            <Text style={styles.secondaryButtonText}>Download My Data</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.label}>Delete your account</Text>
+          <Text style={styles.meta}>
+            What you added to other people's trees stays there without your name. You have 30 days to change your
+            mind by signing in again.
+          </Text>
+          {ownedTrees.length > 0 && (
+            <Text style={[styles.meta, styles.step]}>Choose what happens to each tree you own:</Text>
+          )}
+          {ownedTrees.map((tree) => (
+            <TreeHandover
+              key={tree.treeId}
+              tree={tree}
+              currentUserId={currentUser.userId}
+              newOwnerUserId={handovers[tree.treeId] ?? null}
+              onChange={(newOwnerUserId) => setHandovers((current) => ({ ...current, [tree.treeId]: newOwnerUserId }))}
+            />
+          ))}
+          <TouchableOpacity
+            style={[styles.dangerButton, actionMutation.isPending && styles.buttonDisabled]}
+            onPress={confirmDelete}
+            disabled={actionMutation.isPending}
+          >
+            {actionMutation.isPending ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.dangerButtonText}>Delete My Account</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+
+      <ConfirmIdentityModal
+        visible={!!awaitingReauth}
+        onConfirmed={handleConfirmed}
+        onCancel={() => setAwaitingReauth(null)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  content: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  step: {
+    marginTop: 12,
+  },
+  treeCard: {
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    paddingTop: 12,
+    marginTop: 12,
+  },
+  treeLoading: {
+    marginTop: 8,
+  },
+  choices: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  choice: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  choiceSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  choiceText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  choiceTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  dangerButton: {
+    backgroundColor: '#dc3545',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 48,
+    marginTop: 16,
+  },
+  dangerButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
+
+export default AccountScreen;
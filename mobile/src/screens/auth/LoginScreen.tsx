@@ -9,14 +9,17 @@ import {
   Platform,
   KeyboardAvoidingView,
   ScrollView,
+  Alert,
 } from 'react-native';
 import { useDispatch } from 'react-redux';
-import { authService } from '../../services/authService';
+import { authService, isTwoFactorChallenge } from '../../services/authService';
+import { describeJoinedTrees, parseInvitationToken } from '../../services/invitationService';
 import { setUser, setLoading } from '../../store/slices/authSlice';
+import type { RedeemedInvitation } from '../../types';
 
 interface LoginScreenProps {
   navigation: {
-    navigate: (screen: string) => void;
+    navigate: (screen: string, params?: object) => void;
   };
 }
 
@@ -25,8 +28,28 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [invitationCode, setInvitationCode] = useState('');
+  const [showInvitation, setShowInvitation] = useState(false);
   const dispatch = useDispatch();
 
+  /** The token from the invitation field; null if something was entered that is not one */
+  const getInvitationToken = (): string | undefined | null => {
+    if (!invitationCode.trim()) return undefined;
+    const token = parseInvitationToken(invitationCode);
+    if (!token) {
+      setError('That invitation link or code is not valid');
+      return null;
+    }
+    return token;
+  };
+
+  const announceJoinedTrees = (response: { invitations?: RedeemedInvitation[] }) => {
+    const message = describeJoinedTrees(response.invitations);
+    if (message) {
+      Alert.alert('Invitation accepted', message);
+    }
+  };
+
   const handleLogin = async () => {
     if (!email.trim() || !password) {
       setError('Please enter email and password');
@@ -35,9 +58,16 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
 
     try {
       setError('');
+      const invitationToken = getInvitationToken();
+      if (invitationToken === null) return;
       setIsLoading(true);
-      const response = await authService.login({ email: email.trim(), password });
+      const response = await authService.login({ email: email.trim(), password, invitationToken });
+      if (isTwoFactorChallenge(response)) {
+        navigation.navigate('TwoFactorLogin', { challengeToken: response.challengeToken });
+        return;
+      }
       dispatch(setUser(response.user));
+      announceJoinedTrees(response);
     } catch (err: any) {
       setError(err.response?.data?.error || 'Login failed. Please try again.');
     } finally {
@@ -48,12 +78,20 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
   const handleGoogleSignIn = async () => {
     try {
       setError('');
+      const invitationToken = getInvitationToken();
+      if (invitationToken === null) return;
       setIsLoading(true);
       dispatch(setLoading(true));
-      const response = await authService.googleSignIn();
+      const response = await authService.googleSignIn(invitationToken);
+      if (isTwoFactorChallenge(response)) {
+        dispatch(setLoading(false));
+        navigation.navigate('TwoFactorLogin', { challengeToken: response.challengeToken });
+        return;
+      }
       dispatch(setUser(response.user));
+      announceJoinedTrees(response);
     } catch (err: any) {
-      setError(err.message || 'Google sign in failed');
+      setError(err.response?.data?.error || err.message || 'Google sign in failed');
       dispatch(setLoading(false));
     } finally {
       setIsLoading(false);
@@ -63,6 +101,8 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
   const handleAppleSignIn = async () => {
     try {
       setError('');
+      const invitationToken = getInvitationToken();
+      if (invitationToken === null) return;
       setIsLoading(true);
       dispatch(setLoading(true));
       
@@ -72,7 +112,8 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
         requestedScopes: [appleAuth.Scope.EMAIL, appleAuth.Scope.FULL_NAME],
       });
 
-      const { identityToken, email: appleEmail, fullName } = appleAuthRequestResponse;
+      // nonce is the raw value; the token carries its SHA-256, which the server checks
+      const { identityToken, nonce, email: appleEmail, fullName } = appleAuthRequestResponse;
       
       if (!identityToken) {
         throw new Error('Apple Sign In failed - no identity token');
@@ -80,6 +121,7 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
 
       const response = await authService.appleSignIn({
         identityToken,
+        nonce,
         user: {
           email: appleEmail || undefined,
           name: fullName ? {
@@ -87,12 +129,19 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
             lastName: fullName.familyName || undefined,
           } : undefined,
         },
+        invitationToken,
       });
       
+      if (isTwoFactorChallenge(response)) {
+        dispatch(setLoading(false));
+        navigation.navigate('TwoFactorLogin', { challengeToken: response.challengeToken });
+        return;
+      }
       dispatch(setUser(response.user));
+      announceJoinedTrees(response);
     } catch (err: any) {
       if (err.code !== '1001') {
-        setError(err.message || 'Apple sign in failed');
+        setError(err.response?.data?.error || err.message || 'Apple sign in failed');
       }
       dispatch(setLoading(false));
     } finally {
@@ -134,8 +183,28 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
             autoComplete="password"
             editable={!isLoading}
           />
+          {showInvitation ? (
+            <TextInput
+              style={styles.input}
+              placeholder="Invitation link or code"
+              placeholderTextColor="#999"
+              value={invitationCode}
+              onChangeText={setInvitationCode}
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!isLoading}
+            />
+          ) : (
+            <TouchableOpacity onPress={() => setShowInvitation(true)} disabled={isLoading}>
+              <Text style={styles.invitationLink}>Have an invitation to a tree?</Text>
+            </TouchableOpacity>
+          )}
           
           {error ? <Text style={styles.error}>{error}</Text> : null}
+
+          <TouchableOpacity onPress={() => navigation.navigate('ForgotPassword')} disabled={isLoading}>
+            <Text style={styles.forgotLink}>Forgot password?</Text>
+          </TouchableOpacity>
           
           <TouchableOpacity 
             style={[styles.button, styles.primaryButton, isLoading && styles.buttonDisabled]} 
@@ -182,6 +251,13 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
         >
           <Text style={styles.link}>Don't have an account? Sign up</Text>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          onPress={() => navigation.navigate('VerifyEmail')}
+          disabled={isLoading}
+        >
+          <Text style={[styles.link, styles.secondaryLink]}>Confirm your email address</Text>
+        </TouchableOpacity>
       </ScrollView>
     </KeyboardAvoidingView>
   );
@@ -283,6 +359,21 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontSize: 15,
   },
+  forgotLink: {
+    color: '#007AFF',
+    textAlign: 'right',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  secondaryLink: {
+    marginTop: 16,
+    fontSize: 14,
+  },
+  invitationLink: {
+    color: '#007AFF',
+    fontSize: 14,
+    marginBottom: 16,
+  },
   error: {
     color: '#dc3545',
     marginBottom: 12,
@@ -9,14 +9,17 @@ import {
   Platform,
   KeyboardAvoidingView,
   ScrollView,
+  Alert,
 } from 'react-native';
 import { useDispatch } from 'react-redux';
-import { authService } from '../../services/authService';
+import { authService, isTwoFactorChallenge } from '../../services/authService';
+import { describeJoinedTrees, parseInvitationToken } from '../../services/invitationService';
 import { setUser, setLoading } from '../../store/slices/authSlice';
+import type { RedeemedInvitation } from '../../types';
 
 interface RegisterScreenProps {
   navigation: {
-    navigate: (screen: string) => void;
+    navigate: (screen: string, params?: object) => void;
     goBack: () => void;
   };
 }
@@ -36,8 +39,28 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({ navigation }) =>
   const [errors, setErrors] = useState<ValidationErrors>({});
   const [serverError, setServerError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [invitationCode, setInvitationCode] = useState('');
+  const [showInvitation, setShowInvitation] = useState(false);
   const dispatch = useDispatch();
 
+  /** The token from the invitation field; null if something was entered that is not one */
+  const getInvitationToken = (): string | undefined | null => {
+    if (!invitationCode.trim()) return undefined;
+    const token = parseInvitationToken(invitationCode);
+    if (!token) {
+      setServerError('That invitation link or code is not valid');
+      return null;
+    }
+    return token;
+  };
+
+  const announceJoinedTrees = (response: { invitations?: RedeemedInvitation[] }) => {
+    const message = describeJoinedTrees(response.invitations);
+    if (message) {
+      Alert.alert('Invitation accepted', message);
+    }
+  };
+
   const validateForm = (): boolean => {
     const newErrors: ValidationErrors = {};
 
@@ -84,13 +107,17 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({ navigation }) =>
 
     try {
       setServerError('');
+      const invitationToken = getInvitationToken();
+      if (invitationToken === null) return;
       setIsLoading(true);
       const response = await authService.signup({
         displayName: displayName.trim(),
         email: email.trim(),
         password,
+        invitationToken,
       });
       dispatch(setUser(response.user));
+      announceJoinedTrees(response);
     } catch (err: any) {
       setServerError(err.response?.data?.error || 'Registration failed. Please try again.');
     } finally {
@@ -101,12 +128,20 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({ navigation }) =>
   const handleGoogleSignIn = async () => {
     try {
       setServerError('');
+      const invitationToken = getInvitationToken();
+      if (invitationToken === null) return;
       setIsLoading(true);
       dispatch(setLoading(true));
-      const response = await authService.googleSignIn();
+      const response = await authService.googleSignIn(invitationToken);
+      if (isTwoFactorChallenge(response)) {
+        dispatch(setLoading(false));
+        navigation.navigate('TwoFactorLogin', { challengeToken: response.challengeToken });
+        return;
+      }
       dispatch(setUser(response.user));
+      announceJoinedTrees(response);
     } catch (err: any) {
-      setServerError(err.message || 'Google sign in failed');
+      setServerError(err.response?.data?.error || err.message || 'Google sign in failed');
       dispatch(setLoading(false));
     } finally {
       setIsLoading(false);
@@ -116,6 +151,8 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({ navigation }) =>
   const handleAppleSignIn = async () => {
     try {
       setServerError('');
+      const invitationToken = getInvitationToken();
+      if (invitationToken === null) return;
       setIsLoading(true);
       dispatch(setLoading(true));
       
@@ -125,7 +162,8 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({ navigation }) =>
         requestedScopes: [appleAuth.Scope.EMAIL, appleAuth.Scope.FULL_NAME],
       });
 
-      const { identityToken, email: appleEmail, fullName } = appleAuthRequestResponse;
+      // nonce is the raw value; the token carries its SHA-256, which the server checks
+      const { identityToken, nonce, email: appleEmail, fullName } = appleAuthRequestResponse;
       
       if (!identityToken) {
         throw new Error('Apple Sign In failed - no identity token');
@@ -133,6 +171,7 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({ navigation }) =>
 
       const response = await authService.appleSignIn({
         identityToken,
+        nonce,
         user: {
           email: appleEmail || undefined,
           name: fullName ? {
@@ -140,12 +179,19 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({ navigation }) =>
             lastName: fullName.familyName || undefined,
           } : undefined,
         },
+        invitationToken,
       });
       
+      if (isTwoFactorChallenge(response)) {
+        dispatch(setLoading(false));
+        navigation.navigate('TwoFactorLogin', { challengeToken: response.challengeToken });
+        return;
+      }
       dispatch(setUser(response.user));
+      announceJoinedTrees(response);
     } catch (err: any) {
       if (err.code !== '1001') {
-        setServerError(err.message || 'Apple sign in failed');
+        setServerError(err.response?.data?.error || err.message || 'Apple sign in failed');
       }
       dispatch(setLoading(false));
     } finally {
@@ -217,6 +263,24 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({ navigation }) =>
             secureTextEntry: true,
             autoComplete: 'password-new',
           })}
+          {showInvitation ? (
+            <View style={styles.inputContainer}>
+              <TextInput
+                style={styles.input}
+                placeholder="Invitation link or code"
+                placeholderTextColor="#999"
+                value={invitationCode}
+                onChangeText={setInvitationCode}
+                autoCapitalize="none"
+                autoCorrect={false}
+                editable={!isLoading}
+              />
+            </View>
+          ) : (
+            <TouchableOpacity onPress={() => setShowInvitation(true)} disabled={isLoading}>
+              <Text style={styles.invitationLink}>Have an invitation to a tree?</Text>
+            </TouchableOpacity>
+          )}
           
           {serverError ? <Text style={styles.serverError}>{serverError}</Text> : null}
           
@@ -377,6 +441,11 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontSize: 15,
   },
+  invitationLink: {
+    color: '#007AFF',
+    fontSize: 14,
+    marginBottom: 16,
+  },
   serverError: {
     color: '#dc3545',
     marginBottom: 12,
@@ -0,0 +1,235 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useDispatch } from 'react-redux';
+import { authService } from '../../services/authService';
+import { clearUser } from '../../store/slices/authSlice';
+import { AuthSession } from '../../types';
+
+const formatDate = (dateString: string): string =>
+  new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+/** The devices signed in to the account, each of which can be signed out */
+export const SessionsScreen: React.FC = () => {
+  const queryClient = useQueryClient();
+  const dispatch = useDispatch();
+
+  const { data: sessions = [], isLoading, error, refetch, isRefetching } = useQuery({
+    queryKey: ['sessions'],
+    queryFn: () => authService.getSessions(),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (sessionId: string) => authService.revokeSession(sessionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+    },
+    onError: (err: any) => {
+      Alert.alert('Error', err.response?.data?.error || 'Failed to sign out the device');
+    },
+  });
+
+  const revokeAllMutation = useMutation({
+    mutationFn: () => authService.revokeAllSessions(),
+    onSuccess: () => {
+      dispatch(clearUser());
+    },
+    onError: (err: any) => {
+      Alert.alert('Error', err.response?.data?.error || 'Failed to sign out everywhere');
+    },
+  });
+
+  const confirmRevoke = (session: AuthSession) => {
+    Alert.alert(
+      'Sign Out Device',
+      `Sign out ${session.deviceName || 'this device'}? It will need to log in again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Sign Out', style: 'destructive', onPress: () => revokeMutation.mutate(session.sessionId) },
+      ]
+    );
+  };
+
+  const confirmRevokeAll = () => {
+    Alert.alert(
+      'Sign Out Everywhere',
+      'Every device, including this one, will need to log in again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Sign Out All', style: 'destructive', onPress: () => revokeAllMutation.mutate() },
+      ]
+    );
+  };
+
+  const renderSession = ({ item }: { item: AuthSession }) => (
+    <View style={styles.card}>
+      <Text style={styles.icon}>📱</Text>
+      <View style={styles.info}>
+        <Text style={styles.label}>{item.deviceName || 'Unknown device'}</Text>
+        <Text style={styles.meta}>
+          {item.current ? 'This device' : `Last used ${formatDate(item.lastUsedAt)}`}
+        </Text>
+        <Text style={styles.signedIn}>Signed in {formatDate(item.createdAt)}</Text>
+      </View>
+      {!item.current && (
+        <TouchableOpacity
+          style={styles.revokeButton}
+          onPress={() => confirmRevoke(item)}
+          disabled={revokeMutation.isPending}
+        >
+          <Text style={styles.revokeText}>Sign Out</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  if (error) {
+    const message = (error as any).response?.data?.error || 'Failed to load devices';
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.errorText}>{message}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={sessions}
+        keyExtractor={(item) => item.sessionId}
+        renderItem={renderSession}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={
+          <Text style={styles.intro}>
+            Devices signed in to your account. Sign out any you don't recognise.
+          </Text>
+        }
+        ListFooterComponent={
+          <TouchableOpacity
+            style={[styles.revokeAllButton, revokeAllMutation.isPending && styles.buttonDisabled]}
+            onPress={confirmRevokeAll}
+            disabled={revokeAllMutation.isPending}
+          >
+            {revokeAllMutation.isPending ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.revokeAllText}>Sign Out Everywhere</Text>
+            )}
+          </TouchableOpacity>
+        }
+        refreshControl={
+          <RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor="#007AFF" />
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#dc3545',
+    textAlign: 'center',
+  },
+  listContent: {
+    padding: 16,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  icon: {
+    fontSize: 24,
+    marginRight: 12,
+  },
+  info: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  signedIn: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  revokeButton: {
+    borderWidth: 1,
+    borderColor: '#dc3545',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  revokeText: {
+    color: '#dc3545',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  revokeAllButton: {
+    backgroundColor: '#dc3545',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 52,
+    marginTop: 12,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  revokeAllText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default SessionsScreen;
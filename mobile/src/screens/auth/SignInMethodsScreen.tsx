@@ -0,0 +1,288 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { authService } from '../../services/authService';
+import { ConfirmIdentityModal } from '../../components';
+import { LinkedIdentity, SignInProvider } from '../../types';
+
+const PROVIDERS: { provider: SignInProvider; label: string; icon: string }[] = [
+  { provider: 'google', label: 'Google', icon: 'G' },
+  { provider: 'apple', label: 'Apple', icon: '' },
+];
+
+/** The server's reauth tokens last five minutes; stop reusing ours a little before */
+const REAUTH_REUSE_MS = 4 * 60 * 1000;
+
+type PendingChange =
+  | { kind: 'link'; provider: SignInProvider }
+  | { kind: 'unlink'; identity: LinkedIdentity };
+
+const formatDate = (dateString: string): string =>
+  new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+/**
+ * The ways the user can sign in: their password and linked Google and Apple
+ * accounts. Linking or unlinking asks them to confirm it's them first.
+ */
+interface SignInMethodsScreenProps {
+  navigation: {
+    navigate: (screen: string) => void;
+  };
+}
+
+export const SignInMethodsScreen: React.FC<SignInMethodsScreenProps> = ({ navigation }) => {
+  const queryClient = useQueryClient();
+  const [pending, setPending] = useState<PendingChange | null>(null);
+  const [reauth, setReauth] = useState<{ token: string; obtainedAt: number } | null>(null);
+
+  const { data, isLoading, error, refetch, isRefetching } = useQuery({
+    queryKey: ['signInMethods'],
+    queryFn: () => authService.getSignInMethods(),
+  });
+
+  const { data: twoFactor } = useQuery({
+    queryKey: ['twoFactorStatus'],
+    queryFn: () => authService.getTwoFactorStatus(),
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: async ({ change, token }: { change: PendingChange; token: string }) => {
+      if (change.kind === 'link') {
+        await authService.linkIdentity(change.provider, token);
+      } else {
+        await authService.unlinkIdentity(change.identity.identityId, token);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['signInMethods'] });
+    },
+    onError: (err: any) => {
+      if (err.response?.data?.code === 'REAUTH_REQUIRED' || err.response?.status === 401) {
+        setReauth(null);
+      }
+      // Cancelling the Apple sheet is not an error
+      if (err.code !== '1001') {
+        Alert.alert('Error', err.response?.data?.error || err.message || 'Failed to update sign-in methods');
+      }
+    },
+  });
+
+  const startChange = (change: PendingChange) => {
+    if (reauth && Date.now() - reauth.obtainedAt < REAUTH_REUSE_MS) {
+      changeMutation.mutate({ change, token: reauth.token });
+    } else {
+      setPending(change);
+    }
+  };
+
+  const confirmUnlink = (identity: LinkedIdentity, label: string) => {
+    Alert.alert(
+      `Remove ${label}`,
+      `You won't be able to sign in with ${label} any more.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => startChange({ kind: 'unlink', identity }) },
+      ]
+    );
+  };
+
+  const handleConfirmed = (token: string) => {
+    setReauth({ token, obtainedAt: Date.now() });
+    if (pending) {
+      changeMutation.mutate({ change: pending, token });
+    }
+    setPending(null);
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  if (error || !data) {
+    const message = (error as any)?.response?.data?.error || 'Failed to load sign-in methods';
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.errorText}>{message}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor="#007AFF" />}
+      >
+        <Text style={styles.intro}>
+          The ways you can sign in to RKRoots. Keep at least one.
+        </Text>
+
+        <View style={styles.card}>
+          <Text style={styles.icon}>✉️</Text>
+          <View style={styles.info}>
+            <Text style={styles.label}>Email and password</Text>
+            <Text style={styles.meta}>{data.hasPassword ? 'Password set' : 'No password set'}</Text>
+          </View>
+        </View>
+
+        {PROVIDERS.map(({ provider, label, icon }) => {
+          const identity = data.identities.find((item) => item.provider === provider);
+          // Apple sign-in is only offered on iOS, but a linked Apple account can be removed anywhere
+          if (!identity && provider === 'apple' && Platform.OS !== 'ios') return null;
+
+          return (
+            <View key={provider} style={styles.card}>
+              <Text style={styles.icon}>{icon}</Text>
+              <View style={styles.info}>
+                <Text style={styles.label}>{label}</Text>
+                <Text style={styles.meta}>
+                  {identity ? identity.email || 'Linked' : 'Not linked'}
+                </Text>
+                {identity && <Text style={styles.linkedAt}>Linked {formatDate(identity.createdAt)}</Text>}
+              </View>
+              {identity ? (
+                <TouchableOpacity
+                  style={styles.unlinkButton}
+                  onPress={() => confirmUnlink(identity, label)}
+                  disabled={changeMutation.isPending}
+                >
+                  <Text style={styles.unlinkText}>Remove</Text>
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity
+                  style={styles.linkButton}
+                  onPress={() => startChange({ kind: 'link', provider })}
+                  disabled={changeMutation.isPending}
+                >
+                  <Text style={styles.linkText}>Link</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          );
+        })}
+
+        <TouchableOpacity style={styles.card} onPress={() => navigation.navigate('TwoFactor')}>
+          <Text style={styles.icon}>🔐</Text>
+          <View style={styles.info}>
+            <Text style={styles.label}>Two-factor authentication</Text>
+            <Text style={styles.meta}>{twoFactor?.enabled ? 'On' : 'Off'}</Text>
+          </View>
+          <Text style={styles.chevron}>›</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      <ConfirmIdentityModal
+        visible={!!pending}
+        onConfirmed={handleConfirmed}
+        onCancel={() => setPending(null)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#dc3545',
+    textAlign: 'center',
+  },
+  content: {
+    padding: 16,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  icon: {
+    fontSize: 22,
+    fontWeight: '700',
+    width: 28,
+    textAlign: 'center',
+    marginRight: 12,
+  },
+  info: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  linkedAt: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  linkButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  linkText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  unlinkButton: {
+    borderWidth: 1,
+    borderColor: '#dc3545',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  chevron: {
+    fontSize: 24,
+    color: '#999',
+  },
+  unlinkText: {
+    color: '#dc3545',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default SignInMethodsScreen;
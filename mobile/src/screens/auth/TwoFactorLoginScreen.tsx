@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import {
+  TextInput,
+  TouchableOpacity,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  Platform,
+  KeyboardAvoidingView,
+  ScrollView,
+  Alert,
+  View,
+} from 'react-native';
+import { useDispatch } from 'react-redux';
+import { authService } from '../../services/authService';
+import { describeJoinedTrees } from '../../services/invitationService';
+import { setUser } from '../../store/slices/authSlice';
+
+interface TwoFactorLoginScreenProps {
+  navigation: {
+    navigate: (screen: string) => void;
+    goBack: () => void;
+  };
+  route: {
+    params: { challengeToken: string };
+  };
+}
+
+/** The second step of signing in, for accounts with two-factor authentication on */
+export const TwoFactorLoginScreen: React.FC<TwoFactorLoginScreenProps> = ({ navigation, route }) => {
+  const { challengeToken } = route.params;
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const dispatch = useDispatch();
+
+  const handleSubmit = async () => {
+    if (!code.trim()) {
+      setError(useRecoveryCode ? 'Enter one of your recovery codes' : 'Enter the code from your authenticator app');
+      return;
+    }
+
+    try {
+      setError('');
+      setIsLoading(true);
+      const response = await authService.completeTwoFactorLogin(challengeToken, code.trim());
+      dispatch(setUser(response.user));
+      const message = describeJoinedTrees(response.invitations);
+      if (message) {
+        Alert.alert('Invitation accepted', message);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Could not check the code. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.title}>Two-Factor</Text>
+        <Text style={styles.subtitle}>
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved. Each works once.'
+            : 'Enter the 6-digit code from your authenticator app'}
+        </Text>
+
+        <View style={styles.form}>
+          <TextInput
+            style={styles.input}
+            placeholder={useRecoveryCode ? 'abcd-efgh' : '123456'}
+            placeholderTextColor="#999"
+            value={code}
+            onChangeText={setCode}
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoComplete={useRecoveryCode ? 'off' : 'one-time-code'}
+            keyboardType={useRecoveryCode ? 'default' : 'number-pad'}
+            maxLength={useRecoveryCode ? 20 : 6}
+            autoFocus
+            editable={!isLoading}
+          />
+
+          {error ? <Text style={styles.error}>{error}</Text> : null}
+
+          <TouchableOpacity
+            style={[styles.button, styles.primaryButton, isLoading && styles.buttonDisabled]}
+            onPress={handleSubmit}
+            disabled={isLoading}
+          >
+            {isLoading ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.buttonText}>Verify</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity
+          onPress={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode('');
+            setError('');
+          }}
+          disabled={isLoading}
+        >
+          <Text style={styles.link}>
+            {useRecoveryCode ? 'Use a code from the app instead' : 'Lost your phone? Use a recovery code'}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity onPress={() => navigation.goBack()} disabled={isLoading}>
+          <Text style={[styles.link, styles.backLink]}>Back</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: 24,
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    textAlign: 'center',
+    color: '#1a1a1a',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+  form: {
+    marginBottom: 24,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#f9f9f9',
+    padding: 16,
+    marginBottom: 16,
+    borderRadius: 12,
+    fontSize: 20,
+    letterSpacing: 4,
+    textAlign: 'center',
+    color: '#1a1a1a',
+  },
+  button: {
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 52,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  link: {
+    color: '#007AFF',
+    textAlign: 'center',
+    fontSize: 15,
+  },
+  backLink: {
+    marginTop: 16,
+  },
+  error: {
+    color: '#dc3545',
+    marginBottom: 12,
+    textAlign: 'center',
+    fontSize: 14,
+  },
+});
+
+export default TwoFactorLoginScreen;
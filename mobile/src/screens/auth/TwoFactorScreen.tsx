@@ -0,0 +1,476 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+  Linking,
+  Share,
+} from 'react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { authService } from '../../services/authService';
+import { ConfirmIdentityModal } from '../../components';
+import { TwoFactorEnrollment } from '../../types';
+
+/** The server's reauth tokens last five minutes; stop reusing ours a little before */
+const REAUTH_REUSE_MS = 4 * 60 * 1000;
+
+type Action =
+  | { kind: 'setup' }
+  | { kind: 'disable'; code: string }
+  | { kind: 'regenerate'; code: string };
+
+/** Groups the key in fours so it can be typed in by hand */
+const formatSecret = (secret: string): string => secret.match(/.{1,4}/g)?.join(' ') ?? secret;
+
+/**
+ * Two-factor authentication: setting it up with an authenticator app,
+ * recovery codes, and turning it off. Changes ask the user to confirm it's
+ * them first, and turning off or replacing codes also needs a current code.
+ */
+export const TwoFactorScreen: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [reauth, setReauth] = useState<{ token: string; obtainedAt: number } | null>(null);
+  const [awaitingReauth, setAwaitingReauth] = useState<Action | null>(null);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [codeAction, setCodeAction] = useState<'disable' | 'regenerate' | null>(null);
+  const [code, setCode] = useState('');
+
+  const { data: status, isLoading, error, refetch, isRefetching } = useQuery({
+    queryKey: ['twoFactorStatus'],
+    queryFn: () => authService.getTwoFactorStatus(),
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ action, token }: { action: Action; token: string }) => {
+      if (action.kind === 'setup') {
+        setEnrollment(await authService.setupTwoFactor(token));
+      } else if (action.kind === 'disable') {
+        await authService.disableTwoFactor(action.code, token);
+      } else {
+        setRecoveryCodes(await authService.regenerateRecoveryCodes(action.code, token));
+      }
+    },
+    onSuccess: () => {
+      setCodeAction(null);
+      setCode('');
+      queryClient.invalidateQueries({ queryKey: ['twoFactorStatus'] });
+    },
+    onError: (err: any) => {
+      if (err.response?.data?.code === 'REAUTH_REQUIRED' || err.response?.status === 401) {
+        setReauth(null);
+      }
+      Alert.alert('Error', err.response?.data?.error || 'Failed to update two-factor authentication');
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: (enableCode: string) => authService.enableTwoFactor(enableCode),
+    onSuccess: (codes) => {
+      setEnrollment(null);
+      setCode('');
+      setRecoveryCodes(codes);
+      queryClient.invalidateQueries({ queryKey: ['twoFactorStatus'] });
+    },
+    onError: (err: any) => {
+      Alert.alert('Error', err.response?.data?.error || 'Failed to turn on two-factor authentication');
+    },
+  });
+
+  const run = (action: Action) => {
+    if (reauth && Date.now() - reauth.obtainedAt < REAUTH_REUSE_MS) {
+      actionMutation.mutate({ action, token: reauth.token });
+    } else {
+      setAwaitingReauth(action);
+    }
+  };
+
+  const handleConfirmed = (token: string) => {
+    setReauth({ token, obtainedAt: Date.now() });
+    if (awaitingReauth) {
+      actionMutation.mutate({ action: awaitingReauth, token });
+    }
+    setAwaitingReauth(null);
+  };
+
+  const submitCode = () => {
+    if (!codeAction || !code.trim()) return;
+    if (codeAction === 'disable') {
+      Alert.alert(
+        'Turn Off Two-Factor',
+        'Signing in will only need your password or linked account again.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Turn Off', style: 'destructive', onPress: () => run({ kind: 'disable', code: code.trim() }) },
+        ]
+      );
+    } else {
+      run({ kind: 'regenerate', code: code.trim() });
+    }
+  };
+
+  const openAuthenticator = async (otpauthUrl: string) => {
+    try {
+      await Linking.openURL(otpauthUrl);
+    } catch {
+      Alert.alert('No Authenticator App', 'Install an authenticator app, or enter the key below in the one you use.');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  if (error || !status) {
+    const message = (error as any)?.response?.data?.error || 'Failed to load two-factor settings';
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.errorText}>{message}</Text>
+      </View>
+    );
+  }
+
+  const renderRecoveryCodes = (codes: string[]) => (
+    <View style={styles.card}>
+      <Text style={styles.label}>Save your recovery codes</Text>
+      <Text style={styles.meta}>
+        Each code signs you in once if you lose your phone. Keep them somewhere safe; they won't be shown again.
+      </Text>
+      <View style={styles.codes}>
+        {codes.map((recoveryCode) => (
+          <Text key={recoveryCode} style={styles.recoveryCode} selectable>{recoveryCode}</Text>
+        ))}
+      </View>
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={() => Share.share({ message: `RKRoots recovery codes:\n${codes.join('\n')}` })}
+      >
+        <Text style={styles.secondaryButtonText}>Share or Save</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.primaryButton} onPress={() => setRecoveryCodes(null)}>
+        <Text style={styles.primaryButtonText}>I've Saved Them</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderEnrollment = (pending: TwoFactorEnrollment) => (
+    <View style={styles.card}>
+      <Text style={styles.label}>1. Add RKRoots to your authenticator app</Text>
+      <TouchableOpacity style={styles.secondaryButton} onPress={() => openAuthenticator(pending.otpauthUrl)}>
+        <Text style={styles.secondaryButtonText}>Open Authenticator App</Text>
+      </TouchableOpacity>
+      <Text style={styles.meta}>Or enter this key in it by hand:</Text>
+      <Text style={styles.secret} selectable>{formatSecret(pending.secret)}</Text>
+
+      <Text style={[styles.label, styles.step]}>2. Enter the 6-digit code it shows</Text>
+      <TextInput
+        style={styles.codeInput}
+        placeholder="123456"
+        placeholderTextColor="#999"
+        value={code}
+        onChangeText={setCode}
+        keyboardType="number-pad"
+        autoComplete="one-time-code"
+        maxLength={6}
+        editable={!enableMutation.isPending}
+      />
+      <TouchableOpacity
+        style={[styles.primaryButton, (code.length < 6 || enableMutation.isPending) && styles.buttonDisabled]}
+        onPress={() => enableMutation.mutate(code)}
+        disabled={code.length < 6 || enableMutation.isPending}
+      >
+        {enableMutation.isPending ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.primaryButtonText}>Turn On</Text>
+        )}
+      </TouchableOpacity>
+      <TouchableOpacity
+        onPress={() => {
+          setEnrollment(null);
+          setCode('');
+        }}
+        disabled={enableMutation.isPending}
+      >
+        <Text style={styles.cancelText}>Cancel</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderEnabled = () => (
+    <View style={styles.card}>
+      <Text style={styles.label}>Two-factor authentication is on</Text>
+      <Text style={styles.meta}>
+        {status.recoveryCodesRemaining === 1
+          ? '1 recovery code left'
+          : `${status.recoveryCodesRemaining} recovery codes left`}
+      </Text>
+
+      {codeAction ? (
+        <>
+          <Text style={[styles.meta, styles.step]}>
+            Enter a code from your authenticator app, or a recovery code
+          </Text>
+          <TextInput
+            style={styles.codeInput}
+            placeholder="123456"
+            placeholderTextColor="#999"
+            value={code}
+            onChangeText={setCode}
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoComplete="one-time-code"
+            maxLength={20}
+            editable={!actionMutation.isPending}
+          />
+          <TouchableOpacity
+            style={[
+              codeAction === 'disable' ? styles.dangerButton : styles.primaryButton,
+              (!code.trim() || actionMutation.isPending) && styles.buttonDisabled,
+            ]}
+            onPress={submitCode}
+            disabled={!code.trim() || actionMutation.isPending}
+          >
+            {actionMutation.isPending ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.primaryButtonText}>
+                {codeAction === 'disable' ? 'Turn Off' : 'Get New Codes'}
+              </Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => {
+              setCodeAction(null);
+              setCode('');
+            }}
+            disabled={actionMutation.isPending}
+          >
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </>
+      ) : (
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => setCodeAction('regenerate')}>
+            <Text style={styles.actionText}>New Recovery Codes</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.actionButton, styles.dangerOutline]} onPress={() => setCodeAction('disable')}>
+            <Text style={styles.dangerText}>Turn Off</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor="#007AFF" />}
+      >
+        <Text style={styles.intro}>
+          With two-factor on, signing in also needs a code from an authenticator app on your phone.
+          Some trees require it before you can edit them.
+        </Text>
+
+        {recoveryCodes ? (
+          renderRecoveryCodes(recoveryCodes)
+        ) : enrollment ? (
+          renderEnrollment(enrollment)
+        ) : status.enabled ? (
+          renderEnabled()
+        ) : (
+          <View style={styles.card}>
+            <Text style={styles.label}>Two-factor authentication is off</Text>
+            <TouchableOpacity
+              style={[styles.primaryButton, styles.step, actionMutation.isPending && styles.buttonDisabled]}
+              onPress={() => run({ kind: 'setup' })}
+              disabled={actionMutation.isPending}
+            >
+              {actionMutation.isPending ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Set Up</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+
+      <ConfirmIdentityModal
+        visible={!!awaitingReauth}
+        onConfirmed={handleConfirmed}
+        onCancel={() => setAwaitingReauth(null)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#dc3545',
+    textAlign: 'center',
+  },
+  content: {
+    padding: 16,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  meta: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 8,
+  },
+  step: {
+    marginTop: 16,
+  },
+  secret: {
+    fontSize: 16,
+    fontFamily: 'Courier',
+    color: '#1a1a1a',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    padding: 12,
+    textAlign: 'center',
+  },
+  codes: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    marginVertical: 12,
+  },
+  recoveryCode: {
+    width: '48%',
+    fontSize: 16,
+    fontFamily: 'Courier',
+    color: '#1a1a1a',
+    textAlign: 'center',
+    paddingVertical: 6,
+  },
+  codeInput: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    padding: 14,
+    fontSize: 20,
+    letterSpacing: 4,
+    textAlign: 'center',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 48,
+    marginBottom: 12,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  dangerButton: {
+    backgroundColor: '#dc3545',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 48,
+    marginBottom: 12,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginVertical: 12,
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  cancelText: {
+    color: '#666',
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  actionButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  actionText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  dangerOutline: {
+    borderColor: '#dc3545',
+    marginRight: 0,
+  },
+  dangerText: {
+    color: '#dc3545',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default TwoFactorScreen;
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import {
+  View,
+  TextInput,
+  TouchableOpacity,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  Platform,
+  KeyboardAvoidingView,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+import { authService, parseEmailToken } from '../../services/authService';
+import { describeJoinedTrees } from '../../services/invitationService';
+import { setUser } from '../../store/slices/authSlice';
+import type { RootState } from '../../store';
+
+interface VerifyEmailScreenProps {
+  navigation: {
+    navigate: (screen: string) => void;
+    goBack: () => void;
+  };
+}
+
+/** Reached from the login screen, or from the tree list while signed in and unverified */
+export const VerifyEmailScreen: React.FC<VerifyEmailScreenProps> = ({ navigation }) => {
+  const currentUser = useSelector((state: RootState) => state.auth.user);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const dispatch = useDispatch();
+
+  const handleVerify = async () => {
+    const token = parseEmailToken(code);
+    if (!token) {
+      setError('Paste the link from the verification email, or the code at its end');
+      return;
+    }
+
+    try {
+      setError('');
+      setIsLoading(true);
+      const result = await authService.verifyEmail(token);
+      const joined = describeJoinedTrees(result.invitations);
+      Alert.alert('Email Confirmed', joined ?? 'Family members can now share their trees with you.');
+      if (currentUser) {
+        dispatch(setUser(result.user));
+        navigation.goBack();
+      } else {
+        navigation.navigate('Login');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Could not verify your email. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResend = async () => {
+    try {
+      setError('');
+      setIsLoading(true);
+      await authService.resendVerification();
+      Alert.alert('Email Sent', `We sent a new link to ${currentUser?.email}.`);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Could not send the email. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.title}>Confirm Your Email</Text>
+        <Text style={styles.subtitle}>
+          Paste the link from the email we sent you. Others can share trees with you once your address is confirmed.
+        </Text>
+
+        <View style={styles.form}>
+          <TextInput
+            style={styles.input}
+            placeholder="Verification link or code"
+            placeholderTextColor="#999"
+            value={code}
+            onChangeText={setCode}
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!isLoading}
+          />
+
+          {error ? <Text style={styles.error}>{error}</Text> : null}
+
+          <TouchableOpacity
+            style={[styles.button, styles.primaryButton, isLoading && styles.buttonDisabled]}
+            onPress={handleVerify}
+            disabled={isLoading}
+          >
+            {isLoading ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.buttonText}>Confirm Email</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {currentUser ? (
+          <TouchableOpacity onPress={handleResend} disabled={isLoading}>
+            <Text style={styles.link}>Send me a new link</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity onPress={() => navigation.goBack()} disabled={isLoading}>
+            <Text style={styles.link}>Back to login</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: 24,
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    textAlign: 'center',
+    color: '#1a1a1a',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+  form: {
+    marginBottom: 24,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#f9f9f9',
+    padding: 16,
+    marginBottom: 16,
+    borderRadius: 12,
+    fontSize: 16,
+    color: '#1a1a1a',
+  },
+  button: {
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 52,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  link: {
+    color: '#007AFF',
+    textAlign: 'center',
+    fontSize: 15,
+  },
+  error: {
+    color: '#dc3545',
+    marginBottom: 12,
+    textAlign: 'center',
+    fontSize: 14,
+  },
+});
+
+export default VerifyEmailScreen;
@@ -1,2 +1,10 @@
 export { LoginScreen } from './LoginScreen';
-export { RegisterScreen } from './RegisterScreen';
\ No newline at end of file
+export { RegisterScreen } from './RegisterScreen';
+export { ForgotPasswordScreen } from './ForgotPasswordScreen';
+export { ResetPasswordScreen } from './ResetPasswordScreen';
+export { VerifyEmailScreen } from './VerifyEmailScreen';
+export { TwoFactorLoginScreen } from './TwoFactorLoginScreen';
+export { SessionsScreen } from './SessionsScreen';
+export { SignInMethodsScreen } from './SignInMethodsScreen';
+export { TwoFactorScreen } from './TwoFactorScreen';
+export { AccountScreen } from './AccountScreen';
@@ -13,6 +13,13 @@ import {
 } from 'react-native';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { nodeService } from '../../services/nodeService';
+import {
+  GenealogicalDateInput,
+  GenealogicalDateValue,
+  EMPTY_GENEALOGICAL_DATE,
+  isValidGenealogicalDate,
+} from '../../components/GenealogicalDateInput';
+import { DateQualifier } from '../../types';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import type { RouteProp } from '@react-navigation/native';
 import type { MainStackParamList } from '../../navigation/MainNavigator';
@@ -33,6 +40,8 @@ export const AddNodeScreen: React.FC<AddNodeScreenProps> = ({ navigation, route
   const [usePetName, setUsePetName] = useState(false);
   const [address, setAddress] = useState('');
   const [placeOfBirth, setPlaceOfBirth] = useState('');
+  const [birth, setBirth] = useState<GenealogicalDateValue>(EMPTY_GENEALOGICAL_DATE);
+  const [death, setDeath] = useState<GenealogicalDateValue>(EMPTY_GENEALOGICAL_DATE);
   const [error, setError] = useState('');
   const queryClient = useQueryClient();
 
@@ -62,6 +71,10 @@ export const AddNodeScreen: React.FC<AddNodeScreenProps> = ({ navigation, route
         : 'First name and last name are required');
       return;
     }
+    if ((birth.date.trim() && !isValidGenealogicalDate(birth)) || (death.date.trim() && !isValidGenealogicalDate(death))) {
+      setError('Dates must be YYYY, YYYY-MM or YYYY-MM-DD');
+      return;
+    }
     setError('');
 
     const nodeData: Parameters<typeof nodeService.createNode>[1] = usePetName
@@ -70,6 +83,16 @@ export const AddNodeScreen: React.FC<AddNodeScreenProps> = ({ navigation, route
 
     if (address.trim()) nodeData.address = address.trim();
     if (placeOfBirth.trim()) nodeData.placeOfBirth = placeOfBirth.trim();
+    if (birth.date.trim()) {
+      nodeData.dateOfBirth = birth.date.trim();
+      nodeData.dateOfBirthQualifier = birth.qualifier;
+      if (birth.qualifier === DateQualifier.BETWEEN) nodeData.dateOfBirthEnd = birth.end.trim();
+    }
+    if (death.date.trim()) {
+      nodeData.dateOfDeath = death.date.trim();
+      nodeData.dateOfDeathQualifier = death.qualifier;
+      if (death.qualifier === DateQualifier.BETWEEN) nodeData.dateOfDeathEnd = death.end.trim();
+    }
 
     createNodeMutation.mutate(nodeData);
   };
@@ -158,6 +181,20 @@ export const AddNodeScreen: React.FC<AddNodeScreenProps> = ({ navigation, route
           maxLength={255}
         />
 
+        <GenealogicalDateInput
+          label="Date of Birth (optional)"
+          value={birth}
+          onChange={setBirth}
+          editable={!isLoading}
+        />
+
+        <GenealogicalDateInput
+          label="Date of Death (optional)"
+          value={death}
+          onChange={setDeath}
+          editable={!isLoading}
+        />
+
         <Text style={styles.label}>Address (optional)</Text>
         <TextInput
           style={[styles.input, styles.textArea]}
@@ -12,6 +12,14 @@ import {
 } from 'react-native';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { nodeService } from '../../services/nodeService';
+import {
+  GenealogicalDateInput,
+  GenealogicalDateValue,
+  EMPTY_GENEALOGICAL_DATE,
+  isValidGenealogicalDate,
+  toGenealogicalDateValue,
+} from '../../components/GenealogicalDateInput';
+import { DateQualifier } from '../../types';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import type { RouteProp } from '@react-navigation/native';
 import type { MainStackParamList } from '../../navigation/MainNavigator';
@@ -33,6 +41,8 @@ export const EditNodeScreen: React.FC<EditNodeScreenProps> = ({ navigation, rout
   const [petName, setPetName] = useState('');
   const [address, setAddress] = useState('');
   const [placeOfBirth, setPlaceOfBirth] = useState('');
+  const [birth, setBirth] = useState<GenealogicalDateValue>(EMPTY_GENEALOGICAL_DATE);
+  const [death, setDeath] = useState<GenealogicalDateValue>(EMPTY_GENEALOGICAL_DATE);
   const [error, setError] = useState('');
 
   const { data: node, isLoading: nodeLoading } = useQuery({
@@ -47,6 +57,8 @@ export const EditNodeScreen: React.FC<EditNodeScreenProps> = ({ navigation, rout
       setPetName(node.petName || '');
       setAddress(node.address || '');
       setPlaceOfBirth(node.placeOfBirth || '');
+      setBirth(toGenealogicalDateValue(node.dateOfBirth, node.dateOfBirthQualifier, node.dateOfBirthPrecision, node.dateOfBirthEnd));
+      setDeath(toGenealogicalDateValue(node.dateOfDeath, node.dateOfDeathQualifier, node.dateOfDeathPrecision, node.dateOfDeathEnd));
     }
   }, [node]);
 
@@ -56,12 +68,21 @@ export const EditNodeScreen: React.FC<EditNodeScreenProps> = ({ navigation, rout
     return hasPetName || hasFullName;
   };
 
+  // An emptied date is sent as null so the server clears it
+  const dateFields = (value: GenealogicalDateValue) => ({
+    date: value.date.trim() || null,
+    qualifier: value.qualifier,
+    end: value.qualifier === DateQualifier.BETWEEN ? value.end.trim() : null,
+  });
+
   const updateNodeMutation = useMutation({
     mutationFn: (data: Parameters<typeof nodeService.updateNode>[2]) =>
       nodeService.updateNode(treeId, nodeId, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['node', treeId, nodeId] });
       queryClient.invalidateQueries({ queryKey: ['nodes', treeId] });
+      // Birth and death events follow the dates
+      queryClient.invalidateQueries({ queryKey: ['timeline', treeId] });
       navigation.goBack();
     },
     onError: (err: any) => {
@@ -74,14 +95,26 @@ export const EditNodeScreen: React.FC<EditNodeScreenProps> = ({ navigation, rout
       setError('Either first name and last name, or pet name must be provided');
       return;
     }
+    if ((birth.date.trim() && !isValidGenealogicalDate(birth)) || (death.date.trim() && !isValidGenealogicalDate(death))) {
+      setError('Dates must be YYYY, YYYY-MM or YYYY-MM-DD');
+      return;
+    }
     setError('');
 
+    const birthFields = dateFields(birth);
+    const deathFields = dateFields(death);
     const nodeData: Parameters<typeof nodeService.updateNode>[2] = {
       firstName: firstName.trim() || undefined,
       lastName: lastName.trim() || undefined,
       petName: petName.trim() || undefined,
       address: address.trim() || undefined,
       placeOfBirth: placeOfBirth.trim() || undefined,
+      dateOfBirth: birthFields.date,
+      dateOfBirthQualifier: birthFields.qualifier,
+      dateOfBirthEnd: birthFields.end,
+      dateOfDeath: deathFields.date,
+      dateOfDeathQualifier: deathFields.qualifier,
+      dateOfDeathEnd: deathFields.end,
     };
 
     updateNodeMutation.mutate(nodeData);
@@ -154,6 +187,20 @@ export const EditNodeScreen: React.FC<EditNodeScreenProps> = ({ navigation, rout
           maxLength={255}
         />
 
+        <GenealogicalDateInput
+          label="Date of Birth"
+          value={birth}
+          onChange={setBirth}
+          editable={!isLoading}
+        />
+
+        <GenealogicalDateInput
+          label="Date of Death"
+          value={death}
+          onChange={setDeath}
+          editable={!isLoading}
+        />
+
         <Text style={styles.label}>Address</Text>
         <TextInput
           style={[styles.input, styles.textArea]}
@@ -12,9 +12,13 @@ import {
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useSelector } from 'react-redux';
 import { nodeService } from '../../services/nodeService';
+import { trashService } from '../../services/trashService';
 import { NodeStatus, EntityType } from '../../types';
 import { LinkedTreesSection } from '../../components/LinkedTreesSection';
 import { CommentsSection } from '../../components/CommentsSection';
+import { LifeTimelineSection } from '../../components/LifeTimelineSection';
+import { useUndoSnackbar } from '../../components/UndoSnackbar';
+import { formatGenealogicalDate } from '../../components/GenealogicalDateInput';
 import type { Node } from '../../types';
 import type { RootState } from '../../store';
 import type { StackNavigationProp } from '@react-navigation/stack';
@@ -34,17 +38,12 @@ const getDisplayName = (node: Node): string => {
   return `${node.firstName || ''} ${node.lastName || ''}`.trim() || 'Unknown';
 };
 
-const formatDate = (dateString?: string): string => {
-  if (!dateString) return 'Unknown';
-  const date = new Date(dateString);
-  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
-};
-
 export const NodeDetailScreen: React.FC<NodeDetailScreenProps> = ({ navigation, route }) => {
   const { nodeId, treeId } = route.params;
   const queryClient = useQueryClient();
   const [showContextMenu, setShowContextMenu] = useState(false);
   const currentUser = useSelector((state: RootState) => state.auth.user);
+  const showUndoSnackbar = useUndoSnackbar();
 
   const { data: node, isLoading, error } = useQuery({
     queryKey: ['node', treeId, nodeId],
@@ -68,6 +67,12 @@ export const NodeDetailScreen: React.FC<NodeDetailScreenProps> = ({ navigation,
     mutationFn: () => nodeService.deleteNode(treeId, nodeId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['nodes', treeId] });
+      queryClient.invalidateQueries({ queryKey: ['relationships', treeId] });
+      queryClient.invalidateQueries({ queryKey: ['trash', treeId] });
+      showUndoSnackbar({
+        message: `${node ? getDisplayName(node) : 'Family member'} moved to trash`,
+        onUndo: undoDelete,
+      });
       navigation.goBack();
     },
     onError: (err: any) => {
@@ -75,6 +80,18 @@ export const NodeDetailScreen: React.FC<NodeDetailScreenProps> = ({ navigation,
     },
   });
 
+  // Runs after this screen has closed, so it cannot be a mutation owned by the screen
+  const undoDelete = async () => {
+    try {
+      await trashService.restoreNode(treeId, nodeId);
+      queryClient.invalidateQueries({ queryKey: ['nodes', treeId] });
+      queryClient.invalidateQueries({ queryKey: ['relationships', treeId] });
+      queryClient.invalidateQueries({ queryKey: ['trash', treeId] });
+    } catch (err: any) {
+      Alert.alert('Error', err.response?.data?.error?.message || 'Failed to restore');
+    }
+  };
+
   const handlePublish = () => {
     setShowContextMenu(false);
     Alert.alert(
@@ -91,7 +108,7 @@ export const NodeDetailScreen: React.FC<NodeDetailScreenProps> = ({ navigation,
     setShowContextMenu(false);
     Alert.alert(
       'Delete Family Member',
-      'Are you sure you want to delete this person? This action cannot be undone.',
+      'This person and their relationships will be moved to the tree\'s trash, where they can be restored for a limited time.',
       [
         { text: 'Cancel', style: 'cancel' },
         { text: 'Delete', style: 'destructive', onPress: () => deleteMutation.mutate() },
@@ -154,14 +171,14 @@ export const NodeDetailScreen: React.FC<NodeDetailScreenProps> = ({ navigation,
         {node.dateOfBirth && (
           <View style={styles.infoSection}>
             <Text style={styles.sectionTitle}>Date of Birth</Text>
-            <Text style={styles.infoText}>{formatDate(node.dateOfBirth)}</Text>
+            <Text style={styles.infoText}>{formatGenealogicalDate(node.dateOfBirth, node.dateOfBirthQualifier, node.dateOfBirthPrecision, node.dateOfBirthEnd)}</Text>
           </View>
         )}
 
         {node.dateOfDeath && (
           <View style={styles.infoSection}>
             <Text style={styles.sectionTitle}>Date of Death</Text>
-            <Text style={styles.infoText}>{formatDate(node.dateOfDeath)}</Text>
+            <Text style={styles.infoText}>{formatGenealogicalDate(node.dateOfDeath, node.dateOfDeathQualifier, node.dateOfDeathPrecision, node.dateOfDeathEnd)}</Text>
           </View>
         )}
 
@@ -179,6 +196,8 @@ export const NodeDetailScreen: React.FC<NodeDetailScreenProps> = ({ navigation,
           </View>
         )}
 
+        <LifeTimelineSection treeId={treeId} nodeId={nodeId} />
+
         {!isDraft && (
           <LinkedTreesSection
             nodeId={nodeId}
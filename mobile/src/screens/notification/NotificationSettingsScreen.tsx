@@ -0,0 +1,226 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { RouteProp } from '@react-navigation/native';
+import type { MainStackParamList } from '../../navigation/MainNavigator';
+import { notificationService } from '../../services/notificationService';
+import { NotificationType } from '../../types';
+import type { NotificationDelivery, NotificationPreference } from '../../types';
+
+type NotificationSettingsScreenRouteProp = RouteProp<MainStackParamList, 'NotificationSettings'>;
+
+interface NotificationSettingsScreenProps {
+  route: NotificationSettingsScreenRouteProp;
+}
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  [NotificationType.ACCESS_GRANTED]: 'Access granted',
+  [NotificationType.SAME_PERSON_LINK_CREATED]: 'Trees linked',
+  [NotificationType.ACCESS_REQUEST]: 'Access requests',
+  [NotificationType.COMMENT_ADDED]: 'Comments',
+  [NotificationType.NODE_PUBLISHED]: 'New family members',
+  [NotificationType.TIMELINE_EVENT_ADDED]: 'Timeline events',
+  [NotificationType.OWNERSHIP_TRANSFER]: 'Tree ownership',
+};
+
+const DELIVERY_OPTIONS: { value: NotificationDelivery; label: string }[] = [
+  { value: 'push', label: 'Push' },
+  { value: 'in_app', label: 'In-app' },
+  { value: 'daily_digest', label: 'Daily' },
+  { value: 'weekly_digest', label: 'Weekly' },
+  { value: 'off', label: 'Off' },
+];
+
+/** The user's defaults, or with a tree id, the overrides for that tree */
+export const NotificationSettingsScreen: React.FC<NotificationSettingsScreenProps> = ({ route }) => {
+  const treeId = route.params?.treeId;
+  const treeName = route.params?.treeName;
+  const queryClient = useQueryClient();
+  const queryKey = ['notificationPreferences', treeId ?? null];
+
+  const { data: preferences = [], isLoading, error } = useQuery({
+    queryKey,
+    queryFn: () => notificationService.getPreferences(treeId),
+  });
+
+  const onError = (err: any) => {
+    Alert.alert('Error', err.response?.data?.error?.message || 'Failed to update notification settings');
+  };
+
+  // Tree screens show the defaults they fall back to, so any change refreshes them all
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: ['notificationPreferences'] });
+
+  const setMutation = useMutation({
+    mutationFn: ({ notificationType, delivery }: { notificationType: NotificationType; delivery: NotificationDelivery }) =>
+      notificationService.setPreference(notificationType, delivery, treeId),
+    onSuccess,
+    onError,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: (notificationType: NotificationType) => notificationService.clearPreference(notificationType, treeId),
+    onSuccess,
+    onError,
+  });
+
+  const isSaving = setMutation.isPending || clearMutation.isPending;
+
+  const renderPreference = (preference: NotificationPreference) => {
+    const isOverridden = treeId ? preference.source === 'tree' : preference.source === 'user';
+
+    return (
+      <View key={preference.notificationType} style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.typeLabel}>{TYPE_LABELS[preference.notificationType]}</Text>
+          {treeId && isOverridden && (
+            <TouchableOpacity onPress={() => clearMutation.mutate(preference.notificationType)} disabled={isSaving}>
+              <Text style={styles.resetText}>Use my default</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        <View style={styles.options}>
+          {DELIVERY_OPTIONS.map(option => {
+            const selected = preference.delivery === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.option, selected && styles.optionSelected, selected && !isOverridden && styles.optionInherited]}
+                onPress={() => setMutation.mutate({ notificationType: preference.notificationType, delivery: option.value })}
+                disabled={isSaving}
+              >
+                <Text style={[styles.optionText, selected && styles.optionTextSelected]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  if (error) {
+    const message = (error as any).response?.data?.error?.message || 'Failed to load notification settings';
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.errorText}>{message}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>{treeName ?? 'All trees'}</Text>
+        <Text style={styles.headerSubtitle}>
+          {treeId
+            ? 'Changes here apply to this tree only. Faded choices come from your defaults.'
+            : 'Applies to every tree unless you change it for a tree. Digests collect activity per tree.'}
+        </Text>
+      </View>
+      {preferences.map(renderPreference)}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#dc3545',
+    textAlign: 'center',
+  },
+  header: {
+    marginBottom: 16,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  typeLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  resetText: {
+    fontSize: 13,
+    color: '#007AFF',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    backgroundColor: '#fff',
+  },
+  optionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  optionInherited: {
+    opacity: 0.6,
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  optionTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
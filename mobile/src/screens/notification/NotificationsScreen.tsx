@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import {
   View,
   Text,
@@ -8,7 +8,7 @@ import {
   ActivityIndicator,
   RefreshControl,
 } from 'react-native';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { notificationService } from '../../services/notificationService';
 import type { Notification, NotificationType } from '../../types';
 
@@ -26,6 +26,8 @@ const getNotificationIcon = (type: NotificationType): string => {
       return '👤';
     case 'timeline_event_added':
       return '📅';
+    case 'ownership_transfer':
+      return '👑';
     default:
       return '🔔';
   }
@@ -49,9 +51,27 @@ const formatDate = (dateString: string): string => {
 export const NotificationsScreen: React.FC = () => {
   const queryClient = useQueryClient();
 
-  const { data: notifications, isLoading, refetch, isRefetching } = useQuery({
+  const {
+    data,
+    isLoading,
+    refetch,
+    isRefetching,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfiniteQuery({
     queryKey: ['notifications'],
-    queryFn: () => notificationService.getNotifications(false),
+    queryFn: ({ pageParam }) => notificationService.getNotifications(false, { cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+
+  const notifications = useMemo(() => data?.pages.flatMap(page => page.items) ?? [], [data]);
+
+  // Only the loaded pages are in memory, so ask the server for the unread total
+  const { data: unreadCount = 0 } = useQuery({
+    queryKey: ['unreadNotificationCount'],
+    queryFn: notificationService.getUnreadCount,
   });
 
   const markAsReadMutation = useMutation({
@@ -76,8 +96,6 @@ export const NotificationsScreen: React.FC = () => {
     }
   };
 
-  const unreadCount = notifications?.filter((n: Notification) => !n.isRead).length || 0;
-
   const renderNotificationItem = ({ item }: { item: Notification }) => (
     <TouchableOpacity
       style={[styles.card, !item.isRead && styles.unreadCard]}
@@ -110,7 +128,7 @@ export const NotificationsScreen: React.FC = () => {
   );
 
   const renderHeader = () => {
-    if (!notifications || notifications.length === 0 || unreadCount === 0) return null;
+    if (notifications.length === 0 || unreadCount === 0) return null;
     
     return (
       <View style={styles.header}>
@@ -139,9 +157,14 @@ export const NotificationsScreen: React.FC = () => {
         data={notifications}
         keyExtractor={(item: Notification) => item.notificationId}
         renderItem={renderNotificationItem}
-        contentContainerStyle={notifications?.length === 0 ? styles.emptyContainer : styles.listContent}
+        contentContainerStyle={notifications.length === 0 ? styles.emptyContainer : styles.listContent}
         ListEmptyComponent={renderEmptyState}
         ListHeaderComponent={renderHeader}
+        ListFooterComponent={isFetchingNextPage ? <ActivityIndicator style={styles.footer} color="#007AFF" /> : null}
+        onEndReached={() => {
+          if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+        }}
+        onEndReachedThreshold={0.5}
         refreshControl={
           <RefreshControl
             refreshing={isRefetching}
@@ -168,6 +191,9 @@ const styles = StyleSheet.create({
   listContent: {
     paddingBottom: 20,
   },
+  footer: {
+    paddingVertical: 16,
+  },
   emptyContainer: {
     flex: 1,
   },
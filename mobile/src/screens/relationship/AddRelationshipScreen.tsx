@@ -9,12 +9,14 @@ import {
   Alert,
   Modal,
   FlatList,
+  TextInput,
 } from 'react-native';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { nodeService } from '../../services/nodeService';
 import { relationshipService, CreateRelationshipData } from '../../services/relationshipService';
-import { RelationshipType, NodeStatus } from '../../types';
-import type { Node } from '../../types';
+import { timelineService } from '../../services/timelineService';
+import { RelationshipType, RelationshipRole, NodeStatus } from '../../types';
+import type { Node, SuggestedEvent } from '../../types';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import type { RouteProp } from '@react-navigation/native';
 import type { MainStackParamList } from '../../navigation/MainNavigator';
@@ -32,9 +34,27 @@ const RELATIONSHIP_TYPES = [
   { value: RelationshipType.SPOUSE, label: 'Spouse', description: 'Married or life partners', icon: '💑' },
   { value: RelationshipType.SIBLING, label: 'Sibling', description: 'Brothers or sisters', icon: '👫' },
   { value: RelationshipType.ADOPTED, label: 'Adopted', description: 'Adoptive relationship', icon: '🤝' },
-  { value: RelationshipType.STEP, label: 'Step', description: 'Step-parent or step-sibling', icon: '👪' },
+  { value: RelationshipType.STEP, label: 'Step', description: 'Step-parent and step-child', icon: '👪' },
 ];
 
+// Directional types let the user say which side the first person is on
+const ROLE_OPTIONS: Partial<Record<RelationshipType, Array<{ value: RelationshipRole; label: string }>>> = {
+  [RelationshipType.PARENT_CHILD]: [
+    { value: RelationshipRole.PARENT, label: 'Parent' },
+    { value: RelationshipRole.CHILD, label: 'Child' },
+  ],
+  [RelationshipType.ADOPTED]: [
+    { value: RelationshipRole.GUARDIAN, label: 'Adoptive Parent' },
+    { value: RelationshipRole.WARD, label: 'Adopted Child' },
+  ],
+  [RelationshipType.STEP]: [
+    { value: RelationshipRole.STEP_PARENT, label: 'Step-parent' },
+    { value: RelationshipRole.STEP_CHILD, label: 'Step-child' },
+  ],
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
 const getDisplayName = (node: Node): string => {
   if (node.petName) return node.petName;
   return `${node.firstName || ''} ${node.lastName || ''}`.trim() || 'Unknown';
@@ -47,15 +67,32 @@ export const AddRelationshipScreen: React.FC<AddRelationshipScreenProps> = ({ na
   const [selectedNode1, setSelectedNode1] = useState<Node | null>(null);
   const [selectedNode2, setSelectedNode2] = useState<Node | null>(null);
   const [relationshipType, setRelationshipType] = useState<RelationshipType | null>(null);
+  const [role1, setRole1] = useState<RelationshipRole | null>(null);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
   const [showNode1Picker, setShowNode1Picker] = useState(false);
   const [showNode2Picker, setShowNode2Picker] = useState(false);
   const [showTypePicker, setShowTypePicker] = useState(false);
   const [error, setError] = useState('');
 
-  const { data: nodes = [], isLoading: nodesLoading } = useQuery({
+  const nodesQuery = useInfiniteQuery({
     queryKey: ['nodes', treeId],
-    queryFn: () => nodeService.getNodes(treeId),
+    queryFn: ({ pageParam }) => nodeService.getNodes(treeId, { cursor: pageParam, limit: 200 }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
   });
+  const nodes = useMemo(
+    () => nodesQuery.data?.pages.flatMap(page => page.items) ?? [],
+    [nodesQuery.data]
+  );
+  const nodesLoading = nodesQuery.isLoading;
+
+  // Both pickers list every member of the tree
+  React.useEffect(() => {
+    if (nodesQuery.hasNextPage && !nodesQuery.isFetchingNextPage) {
+      nodesQuery.fetchNextPage();
+    }
+  }, [nodesQuery.hasNextPage, nodesQuery.isFetchingNextPage, nodesQuery.fetchNextPage]);
 
   React.useEffect(() => {
     if (preselectedNodeId && nodes.length > 0 && !selectedNode1) {
@@ -69,13 +106,37 @@ export const AddRelationshipScreen: React.FC<AddRelationshipScreenProps> = ({ na
     return nodes.filter((n: Node) => n.nodeId !== selectedNode1.nodeId);
   }, [nodes, selectedNode1]);
 
+  const createEventMutation = useMutation({
+    mutationFn: (event: SuggestedEvent) => timelineService.createEvent(treeId, event),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['timeline', treeId] });
+    },
+    onError: (err: any) => {
+      Alert.alert('Error', err.response?.data?.error?.message || 'Failed to add the event');
+    },
+  });
+
   const createRelationshipMutation = useMutation({
     mutationFn: (data: CreateRelationshipData) => relationshipService.createRelationship(treeId, data),
     onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['relationships', treeId] });
       queryClient.invalidateQueries({ queryKey: ['nodes', treeId] });
-      
       if (result.publishedNodeIds && result.publishedNodeIds.length > 0) {
+        // Publishing can generate birth and death events
+        queryClient.invalidateQueries({ queryKey: ['timeline', treeId] });
+      }
+
+      const suggestedEvent = result.suggestedEvent;
+      if (suggestedEvent) {
+        Alert.alert(
+          'Add Marriage Event?',
+          `Add "${suggestedEvent.title}" to the timeline?`,
+          [
+            { text: 'Not Now', style: 'cancel' },
+            { text: 'Add Event', onPress: () => createEventMutation.mutate(suggestedEvent) },
+          ]
+        );
+      } else if (result.publishedNodeIds && result.publishedNodeIds.length > 0) {
         Alert.alert('Success', 'Relationship created and draft nodes have been published!');
       } else {
         Alert.alert('Success', 'Relationship created successfully!');
@@ -93,8 +154,22 @@ export const AddRelationshipScreen: React.FC<AddRelationshipScreenProps> = ({ na
       setError('Please select both family members and a relationship type');
       return;
     }
+    for (const value of [startDate, endDate]) {
+      if (value.trim() && !DATE_PATTERN.test(value.trim())) {
+        setError('Dates must be in YYYY-MM-DD format');
+        return;
+      }
+    }
     setError('');
 
+    const data: CreateRelationshipData = {
+      nodeId1: selectedNode1.nodeId,
+      nodeId2: selectedNode2.nodeId,
+      relationshipType,
+      role1: role1 ?? undefined,
+      startDate: startDate.trim() || undefined,
+      endDate: endDate.trim() || undefined,
+    };
     const hasDraftNode = selectedNode1.status === NodeStatus.DRAFT || selectedNode2.status === NodeStatus.DRAFT;
 
     if (hasDraftNode) {
@@ -106,27 +181,19 @@ export const AddRelationshipScreen: React.FC<AddRelationshipScreenProps> = ({ na
           {
             text: 'Create & Publish',
             onPress: () => {
-              createRelationshipMutation.mutate({
-                nodeId1: selectedNode1.nodeId,
-                nodeId2: selectedNode2.nodeId,
-                relationshipType,
-                publishDraftNodes: true,
-              });
+              createRelationshipMutation.mutate({ ...data, publishDraftNodes: true });
             },
           },
         ]
       );
     } else {
-      createRelationshipMutation.mutate({
-        nodeId1: selectedNode1.nodeId,
-        nodeId2: selectedNode2.nodeId,
-        relationshipType,
-      });
+      createRelationshipMutation.mutate(data);
     }
   };
 
   const isLoading = nodesLoading || createRelationshipMutation.isPending;
   const selectedType = RELATIONSHIP_TYPES.find(t => t.value === relationshipType);
+  const roleOptions = relationshipType ? ROLE_OPTIONS[relationshipType] : undefined;
 
   const renderNodeItem = ({ item, onSelect }: { item: Node; onSelect: (node: Node) => void }) => {
     const isDraft = item.status === NodeStatus.DRAFT;
@@ -236,6 +303,57 @@ export const AddRelationshipScreen: React.FC<AddRelationshipScreenProps> = ({ na
           <Text style={styles.chevron}>›</Text>
         </TouchableOpacity>
 
+        {roleOptions && (
+          <>
+            <Text style={styles.sectionTitle}>
+              {selectedNode1 ? `${getDisplayName(selectedNode1)} is the` : 'First person is the'}
+            </Text>
+            <View style={styles.roleRow}>
+              {roleOptions.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.roleButton, role1 === option.value && styles.roleButtonSelected]}
+                  onPress={() => setRole1(option.value)}
+                  disabled={isLoading}
+                >
+                  <Text style={[styles.roleButtonText, role1 === option.value && styles.roleButtonTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+
+        {relationshipType && (
+          <>
+            <Text style={styles.sectionTitle}>
+              {relationshipType === RelationshipType.SPOUSE ? 'Married (optional)' : 'Start Date (optional)'}
+            </Text>
+            <TextInput
+              style={styles.dateInput}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor="#999"
+              value={startDate}
+              onChangeText={setStartDate}
+              editable={!isLoading}
+              keyboardType="numbers-and-punctuation"
+            />
+            <Text style={styles.sectionTitle}>
+              {relationshipType === RelationshipType.SPOUSE ? 'Divorced or Ended (optional)' : 'End Date (optional)'}
+            </Text>
+            <TextInput
+              style={styles.dateInput}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor="#999"
+              value={endDate}
+              onChangeText={setEndDate}
+              editable={!isLoading}
+              keyboardType="numbers-and-punctuation"
+            />
+          </>
+        )}
+
         {error ? <Text style={styles.error}>{error}</Text> : null}
 
         <TouchableOpacity
@@ -324,6 +442,7 @@ export const AddRelationshipScreen: React.FC<AddRelationshipScreenProps> = ({ na
                 style={[styles.typeItem, relationshipType === type.value && styles.typeItemSelected]}
                 onPress={() => {
                   setRelationshipType(type.value);
+                  setRole1(ROLE_OPTIONS[type.value]?.[0].value ?? null);
                   setShowTypePicker(false);
                 }}
               >
@@ -466,6 +585,40 @@ const styles = StyleSheet.create({
     color: '#999',
     marginLeft: 8,
   },
+  roleRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  roleButton: {
+    flex: 1,
+    backgroundColor: '#f9f9f9',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 12,
+    padding: 14,
+    alignItems: 'center',
+  },
+  roleButtonSelected: {
+    backgroundColor: '#e8f4ff',
+    borderColor: '#007AFF',
+  },
+  roleButtonText: {
+    fontSize: 15,
+    color: '#1a1a1a',
+  },
+  roleButtonTextSelected: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  dateInput: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#f9f9f9',
+    padding: 16,
+    borderRadius: 12,
+    fontSize: 16,
+    color: '#1a1a1a',
+  },
   error: {
     color: '#dc3545',
     marginTop: 16,
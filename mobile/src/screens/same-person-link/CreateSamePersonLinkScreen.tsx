@@ -45,6 +45,7 @@ export const CreateSamePersonLinkScreen: React.FC<CreateSamePersonLinkScreenProp
   const { data: searchResults, isLoading: isSearching } = useQuery({
     queryKey: ['search', searchQuery],
     queryFn: () => searchService.search(searchQuery),
+    select: (page) => page.items,
     enabled: searchQuery.length >= 2,
   });
 
@@ -31,6 +31,10 @@ interface TreeFilterOption {
 const MIN_SEARCH_LENGTH = 3;
 const DEBOUNCE_MS = 300;
 
+// Partially typed dates are left out of the request until they are complete
+const completeDate = (value?: string): string | undefined =>
+  value && /^\d{4}(-\d{2}(-\d{2})?)?$/.test(value) ? value : undefined;
+
 export const SearchScreen: React.FC<SearchScreenProps> = ({ navigation }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [debouncedQuery, setDebouncedQuery] = useState('');
@@ -57,7 +61,13 @@ export const SearchScreen: React.FC<SearchScreenProps> = ({ navigation }) => {
     isFetching,
   } = useQuery({
     queryKey: ['search', debouncedQuery, selectedTreeId, filters],
-    queryFn: () => searchService.searchNodes(debouncedQuery, { ...filters, treeId: selectedTreeId }),
+    queryFn: () => searchService.searchNodes(debouncedQuery, {
+      ...filters,
+      dateOfBirthFrom: completeDate(filters.dateOfBirthFrom),
+      dateOfBirthTo: completeDate(filters.dateOfBirthTo),
+      treeId: selectedTreeId,
+    }),
+    select: (page) => page.items,
     enabled: debouncedQuery.length >= MIN_SEARCH_LENGTH,
   });
 
@@ -107,6 +117,11 @@ export const SearchScreen: React.FC<SearchScreenProps> = ({ navigation }) => {
             <Text style={styles.treeIcon}>🌳</Text>
             <Text style={styles.treeName}>{item.treeName}</Text>
           </View>
+          {item.alsoIn && item.alsoIn.length > 0 && (
+            <Text style={styles.alsoIn}>
+              Also in {item.alsoIn.map((tree) => tree.treeName).join(', ')}
+            </Text>
+          )}
           {item.placeOfBirth && (
             <Text style={styles.birthPlace}>📍 {item.placeOfBirth}</Text>
           )}
@@ -183,6 +198,20 @@ export const SearchScreen: React.FC<SearchScreenProps> = ({ navigation }) => {
         value={filters.placeOfBirth || ''}
         onChangeText={(text: string) => setFilters({ ...filters, placeOfBirth: text || undefined })}
       />
+      <TextInput
+        style={styles.filterInput}
+        placeholder="Born in or after (YYYY, YYYY-MM or YYYY-MM-DD)"
+        placeholderTextColor="#999"
+        value={filters.dateOfBirthFrom || ''}
+        onChangeText={(text: string) => setFilters({ ...filters, dateOfBirthFrom: text || undefined })}
+      />
+      <TextInput
+        style={styles.filterInput}
+        placeholder="Born in or before (YYYY, YYYY-MM or YYYY-MM-DD)"
+        placeholderTextColor="#999"
+        value={filters.dateOfBirthTo || ''}
+        onChangeText={(text: string) => setFilters({ ...filters, dateOfBirthTo: text || undefined })}
+      />
     </View>
   );
 
@@ -446,6 +475,11 @@ const styles = StyleSheet.create({
     color: '#888',
     marginTop: 4,
   },
+  alsoIn: {
+    fontSize: 12,
+    color: '#4caf50',
+    marginTop: 4,
+  },
   chevron: {
     fontSize: 24,
     color: '#ccc',
@@ -10,9 +10,16 @@ import {
   Platform,
   ScrollView,
 } from 'react-native';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { timelineService } from '../../services/timelineService';
-import { EventType } from '../../types';
+import { nodeService } from '../../services/nodeService';
+import {
+  GenealogicalDateInput,
+  GenealogicalDateValue,
+  EMPTY_GENEALOGICAL_DATE,
+  isValidGenealogicalDate,
+} from '../../components/GenealogicalDateInput';
+import { DateQualifier, EventType, Node, ParticipantInput, ParticipantRole } from '../../types';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import type { RouteProp } from '@react-navigation/native';
 import type { MainStackParamList } from '../../navigation/MainNavigator';
@@ -34,16 +41,53 @@ const EVENT_TYPE_OPTIONS: { value: EventType; label: string; icon: string }[] =
   { value: EventType.MEMORY, label: 'Memory', icon: '📸' },
 ];
 
+const ROLE_OPTIONS: { value: ParticipantRole | null; label: string }[] = [
+  { value: null, label: 'No role' },
+  { value: ParticipantRole.BRIDE, label: 'Bride' },
+  { value: ParticipantRole.GROOM, label: 'Groom' },
+  { value: ParticipantRole.WITNESS, label: 'Witness' },
+  { value: ParticipantRole.DECEASED, label: 'Deceased' },
+  { value: ParticipantRole.OFFICIANT, label: 'Officiant' },
+];
+
+const PARTICIPANT_PICKER_LIMIT = 200;
+
+const getDisplayName = (node: Node): string => {
+  if (node.petName) return node.petName;
+  return `${node.firstName || ''} ${node.lastName || ''}`.trim() || 'Unknown';
+};
+
 export const CreateEventScreen: React.FC<CreateEventScreenProps> = ({ navigation, route }) => {
   const { treeId } = route.params;
   const [eventType, setEventType] = useState<EventType>(EventType.MILESTONE);
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
-  const [eventDate, setEventDate] = useState('');
+  const [eventDate, setEventDate] = useState<GenealogicalDateValue>(EMPTY_GENEALOGICAL_DATE);
   const [location, setLocation] = useState('');
+  const [participants, setParticipants] = useState<ParticipantInput[]>([]);
   const [error, setError] = useState('');
   const queryClient = useQueryClient();
 
+  const { data: nodePage } = useQuery({
+    queryKey: ['nodes', treeId, 'participants'],
+    queryFn: () => nodeService.getNodes(treeId, { limit: PARTICIPANT_PICKER_LIMIT }),
+  });
+  const nodes = nodePage?.items ?? [];
+
+  const toggleParticipant = (nodeId: string) => {
+    setParticipants((current) =>
+      current.some(participant => participant.nodeId === nodeId)
+        ? current.filter(participant => participant.nodeId !== nodeId)
+        : [...current, { nodeId, role: null }]
+    );
+  };
+
+  const setParticipantRole = (nodeId: string, role: ParticipantRole | null) => {
+    setParticipants((current) =>
+      current.map(participant => (participant.nodeId === nodeId ? { ...participant, role } : participant))
+    );
+  };
+
   const createEventMutation = useMutation({
     mutationFn: (data: Parameters<typeof timelineService.createEvent>[1]) =>
       timelineService.createEvent(treeId, data),
@@ -56,19 +100,13 @@ export const CreateEventScreen: React.FC<CreateEventScreenProps> = ({ navigation
     },
   });
 
-  const isValidDate = (dateStr: string): boolean => {
-    if (!dateStr.trim()) return false;
-    const date = new Date(dateStr);
-    return !isNaN(date.getTime());
-  };
-
   const handleCreate = () => {
     if (!title.trim()) {
       setError('Title is required');
       return;
     }
-    if (!isValidDate(eventDate)) {
-      setError('Valid date is required (YYYY-MM-DD)');
+    if (!isValidGenealogicalDate(eventDate)) {
+      setError('Valid date is required (YYYY, YYYY-MM or YYYY-MM-DD)');
       return;
     }
     setError('');
@@ -76,10 +114,12 @@ export const CreateEventScreen: React.FC<CreateEventScreenProps> = ({ navigation
     const eventData: Parameters<typeof timelineService.createEvent>[1] = {
       eventType,
       title: title.trim(),
-      eventDate: eventDate.trim(),
-      participantIds: [],
+      eventDate: eventDate.date.trim(),
+      eventDateQualifier: eventDate.qualifier,
+      participants,
     };
 
+    if (eventDate.qualifier === DateQualifier.BETWEEN) eventData.eventDateEnd = eventDate.end.trim();
     if (description.trim()) eventData.description = description.trim();
     if (location.trim()) eventData.location = location.trim();
 
@@ -133,15 +173,11 @@ export const CreateEventScreen: React.FC<CreateEventScreenProps> = ({ navigation
           maxLength={255}
         />
 
-        <Text style={styles.label}>Date *</Text>
-        <TextInput
-          style={styles.input}
-          placeholder="YYYY-MM-DD"
-          placeholderTextColor="#999"
+        <GenealogicalDateInput
+          label="Date *"
           value={eventDate}
-          onChangeText={setEventDate}
+          onChange={setEventDate}
           editable={!isLoading}
-          keyboardType="numbers-and-punctuation"
         />
 
         <Text style={styles.label}>Location (optional)</Text>
@@ -155,6 +191,55 @@ export const CreateEventScreen: React.FC<CreateEventScreenProps> = ({ navigation
           maxLength={255}
         />
 
+        {nodes.length > 0 && (
+          <>
+            <Text style={styles.label}>People (optional)</Text>
+            <View style={styles.chipRow}>
+              {nodes.map((node) => {
+                const selected = participants.some(participant => participant.nodeId === node.nodeId);
+                return (
+                  <TouchableOpacity
+                    key={node.nodeId}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => toggleParticipant(node.nodeId)}
+                    disabled={isLoading}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                      {getDisplayName(node)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {participants.map((participant) => {
+              const node = nodes.find(n => n.nodeId === participant.nodeId);
+              return (
+                <View key={participant.nodeId} style={styles.roleSection}>
+                  <Text style={styles.roleName}>{node ? getDisplayName(node) : 'Unknown'}</Text>
+                  <View style={styles.chipRow}>
+                    {ROLE_OPTIONS.map((option) => {
+                      const selected = (participant.role ?? null) === option.value;
+                      return (
+                        <TouchableOpacity
+                          key={option.label}
+                          style={[styles.chip, selected && styles.chipSelected]}
+                          onPress={() => setParticipantRole(participant.nodeId, option.value)}
+                          disabled={isLoading}
+                        >
+                          <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                            {option.label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              );
+            })}
+          </>
+        )}
+
         <Text style={styles.label}>Description (optional)</Text>
         <TextInput
           style={[styles.input, styles.textArea]}
@@ -254,6 +339,41 @@ const styles = StyleSheet.create({
   textArea: {
     minHeight: 100,
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 20,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#f9f9f9',
+  },
+  chipSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: '#e6f2ff',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  chipTextSelected: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  roleSection: {
+    marginBottom: 4,
+  },
+  roleName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
   button: {
     backgroundColor: '#007AFF',
     padding: 16,
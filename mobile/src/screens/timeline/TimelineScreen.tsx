@@ -7,9 +7,10 @@ import {
   TouchableOpacity,
   ScrollView,
 } from 'react-native';
-import { useQuery } from '@tanstack/react-query';
+import { useInfiniteQuery } from '@tanstack/react-query';
 import { timelineService } from '../../services/timelineService';
-import { EventType, TimelineEvent } from '../../types';
+import { formatGenealogicalDate } from '../../components/GenealogicalDateInput';
+import { EventParticipant, EventType, TimelineEvent } from '../../types';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import type { RouteProp } from '@react-navigation/native';
 import type { MainStackParamList } from '../../navigation/MainNavigator';
@@ -56,17 +57,25 @@ const getEventTypeIcon = (eventType: EventType): string => {
   return icons[eventType] || '📅';
 };
 
+const formatParticipant = (participant: EventParticipant): string => {
+  const name = participant.petName || `${participant.firstName || ''} ${participant.lastName || ''}`.trim() || 'Unknown';
+  return participant.role ? `${name} (${participant.role})` : name;
+};
+
 export const TimelineScreen: React.FC<TimelineScreenProps> = ({ route, navigation }) => {
   const { treeId } = route.params;
   const [selectedFilter, setSelectedFilter] = useState<EventType | 'all'>('all');
 
-  const { data: events, isLoading, error } = useQuery({
+  const { data, isLoading, error, hasNextPage, isFetchingNextPage, fetchNextPage } = useInfiniteQuery({
     queryKey: ['timeline', treeId],
-    queryFn: () => timelineService.getEvents(treeId),
+    queryFn: ({ pageParam }) => timelineService.getEvents(treeId, { cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
   });
 
+  const events = useMemo(() => data?.pages.flatMap(page => page.items) ?? [], [data]);
+
   const filteredEvents = useMemo(() => {
-    if (!events) return [];
     if (selectedFilter === 'all') return events;
     return events.filter((event: TimelineEvent) => event.eventType === selectedFilter);
   }, [events, selectedFilter]);
@@ -85,17 +94,18 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ route, navigatio
             </Text>
           </View>
           <Text style={styles.eventDate}>
-            {new Date(item.eventDate).toLocaleDateString('en-US', {
-              year: 'numeric',
-              month: 'short',
-              day: 'numeric',
-            })}
+            {formatGenealogicalDate(item.eventDate, item.eventDateQualifier, item.eventDatePrecision, item.eventDateEnd)}
           </Text>
         </View>
         <Text style={styles.eventTitle}>{item.title}</Text>
         {item.location && (
           <Text style={styles.eventLocation}>📍 {item.location}</Text>
         )}
+        {item.participants && item.participants.length > 0 && (
+          <Text style={styles.eventLocation} numberOfLines={2}>
+            👥 {item.participants.map(formatParticipant).join(', ')}
+          </Text>
+        )}
         {item.description && (
           <Text style={styles.eventDesc} numberOfLines={2}>
             {item.description}
@@ -169,6 +179,13 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ route, navigatio
           renderItem={renderEventCard}
           contentContainerStyle={styles.listContent}
           showsVerticalScrollIndicator={false}
+          onEndReached={() => {
+            if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+          }}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            isFetchingNextPage ? <Text style={styles.loadingMoreText}>Loading more...</Text> : null
+          }
         />
       )}
 
@@ -197,6 +214,12 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#666',
   },
+  loadingMoreText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
   errorText: {
     fontSize: 16,
     color: '#dc3545',
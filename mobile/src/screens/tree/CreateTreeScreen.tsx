@@ -9,6 +9,7 @@ import {
   KeyboardAvoidingView,
   Platform,
   ScrollView,
+  Switch,
 } from 'react-native';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { treeService } from '../../services/treeService';
@@ -24,6 +25,7 @@ interface CreateTreeScreenProps {
 export const CreateTreeScreen: React.FC<CreateTreeScreenProps> = ({ navigation }) => {
   const [treeName, setTreeName] = useState('');
   const [description, setDescription] = useState('');
+  const [autoLifeEvents, setAutoLifeEvents] = useState(true);
   const [error, setError] = useState('');
   const queryClient = useQueryClient();
 
@@ -48,6 +50,7 @@ export const CreateTreeScreen: React.FC<CreateTreeScreenProps> = ({ navigation }
     createTreeMutation.mutate({
       treeName: trimmedName,
       description: description.trim() || undefined,
+      autoLifeEvents,
     });
   };
 
@@ -87,6 +90,16 @@ export const CreateTreeScreen: React.FC<CreateTreeScreenProps> = ({ navigation }
           editable={!isLoading}
         />
 
+        <View style={styles.switchRow}>
+          <Text style={styles.switchLabel}>Add birth, death and marriage events automatically</Text>
+          <Switch
+            value={autoLifeEvents}
+            onValueChange={setAutoLifeEvents}
+            trackColor={{ false: '#e0e0e0', true: '#007AFF' }}
+            disabled={isLoading}
+          />
+        </View>
+
         {error ? <Text style={styles.error}>{error}</Text> : null}
 
         <TouchableOpacity
@@ -121,6 +134,19 @@ const styles = StyleSheet.create({
   scrollContent: {
     padding: 24,
   },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+    paddingVertical: 8,
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1a1a1a',
+    marginRight: 12,
+  },
   label: {
     fontSize: 16,
     fontWeight: '600',
@@ -10,11 +10,13 @@ import {
   Alert,
   KeyboardAvoidingView,
   Platform,
+  Share,
 } from 'react-native';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useSelector } from 'react-redux';
 import { treeService, TreeAccessWithUser } from '../../services/treeService';
-import { AccessLevel } from '../../types';
+import { invitationService } from '../../services/invitationService';
+import { AccessLevel, TreeInvitation } from '../../types';
 import type { RootState } from '../../store';
 
 interface ShareTreeScreenProps {
@@ -41,6 +43,44 @@ export const ShareTreeScreen: React.FC<ShareTreeScreenProps> = ({ route }) => {
     queryFn: () => treeService.getTreeAccess(treeId),
   });
 
+  const { data: invitations = [] } = useQuery({
+    queryKey: ['treeInvitations', treeId],
+    queryFn: () => invitationService.getInvitations(treeId),
+  });
+
+  const { data: tree } = useQuery({
+    queryKey: ['tree', treeId],
+    queryFn: () => treeService.getTree(treeId),
+  });
+  const isPrimaryOwner = !!tree && tree.ownerUserId === currentUser?.userId;
+
+  const { data: pendingTransfer } = useQuery({
+    queryKey: ['ownershipTransfer', treeId],
+    queryFn: () => treeService.getOwnershipTransfer(treeId),
+  });
+
+  const shareInvitationLink = (invitation: TreeInvitation) => {
+    Share.share({ message: `Join "${treeName}" on RKRoots: ${invitation.url}` });
+  };
+
+  const createInvitationMutation = useMutation({
+    mutationFn: (data: { email?: string; accessLevel: AccessLevel }) =>
+      invitationService.createInvitation(treeId, data),
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({ queryKey: ['treeInvitations', treeId] });
+      if (invitation.email) {
+        setEmail('');
+        Alert.alert('Invitation Sent', `${invitation.email} can join once they sign up or confirm that address`);
+      } else {
+        shareInvitationLink(invitation);
+      }
+    },
+    onError: (err: any) => {
+      const message = err.response?.data?.error?.message || 'Failed to create invitation';
+      Alert.alert('Error', message);
+    },
+  });
+
   const grantMutation = useMutation({
     mutationFn: (data: { email: string; accessLevel: AccessLevel }) =>
       treeService.grantAccess(treeId, data),
@@ -49,12 +89,39 @@ export const ShareTreeScreen: React.FC<ShareTreeScreenProps> = ({ route }) => {
       setEmail('');
       Alert.alert('Success', 'Access granted successfully');
     },
-    onError: (err: any) => {
+    onError: (err: any, data) => {
+      // No account yet, or one that isn't verified: offer an invitation they accept
+      // once they sign up or confirm the address
+      const notVerified = err.response?.data?.error?.code === 'EMAIL_NOT_VERIFIED';
+      if (err.response?.status === 404 || notVerified) {
+        Alert.alert(
+          notVerified ? 'Email Not Confirmed' : 'No Account Found',
+          notVerified
+            ? `${data.email} hasn't confirmed their email yet. Send them an invitation instead?`
+            : `${data.email} isn't on RKRoots yet. Send them an invitation?`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Invite', onPress: () => createInvitationMutation.mutate(data) },
+          ]
+        );
+        return;
+      }
       const message = err.response?.data?.error?.message || 'Failed to grant access';
       Alert.alert('Error', message);
     },
   });
 
+  const revokeInvitationMutation = useMutation({
+    mutationFn: (invitationId: string) => invitationService.revokeInvitation(treeId, invitationId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['treeInvitations', treeId] });
+    },
+    onError: (err: any) => {
+      const message = err.response?.data?.error?.message || 'Failed to revoke invitation';
+      Alert.alert('Error', message);
+    },
+  });
+
   const revokeMutation = useMutation({
     mutationFn: (userId: string) => treeService.revokeAccess(treeId, userId),
     onSuccess: () => {
@@ -67,6 +134,30 @@ export const ShareTreeScreen: React.FC<ShareTreeScreenProps> = ({ route }) => {
     },
   });
 
+  const proposeTransferMutation = useMutation({
+    mutationFn: (data: { toUserId: string; formerOwnerLevel: AccessLevel }) =>
+      treeService.proposeOwnershipTransfer(treeId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ownershipTransfer', treeId] });
+      Alert.alert('Request Sent', 'The tree will be handed over once they accept.');
+    },
+    onError: (err: any) => {
+      const message = err.response?.data?.error?.message || 'Failed to hand over the tree';
+      Alert.alert('Error', message);
+    },
+  });
+
+  const cancelTransferMutation = useMutation({
+    mutationFn: () => treeService.cancelOwnershipTransfer(treeId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ownershipTransfer', treeId] });
+    },
+    onError: (err: any) => {
+      const message = err.response?.data?.error?.message || 'Failed to cancel the handover';
+      Alert.alert('Error', message);
+    },
+  });
+
   const handleInvite = () => {
     const trimmedEmail = email.trim().toLowerCase();
     if (!trimmedEmail) {
@@ -91,10 +182,58 @@ export const ShareTreeScreen: React.FC<ShareTreeScreenProps> = ({ route }) => {
     );
   };
 
+  const handleRevokeInvitation = (invitation: TreeInvitation) => {
+    Alert.alert(
+      'Revoke Invitation',
+      invitation.email
+        ? `Cancel the invitation sent to ${invitation.email}?`
+        : 'Anyone with this link will no longer be able to join.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Revoke', style: 'destructive', onPress: () => revokeInvitationMutation.mutate(invitation.invitationId) },
+      ]
+    );
+  };
+
   const handleChangeAccess = (user: TreeAccessWithUser, newLevel: AccessLevel) => {
     grantMutation.mutate({ email: user.email, accessLevel: newLevel });
   };
 
+  const handleHandOver = (user: TreeAccessWithUser) => {
+    Alert.alert(
+      'Hand Over Tree',
+      `${user.displayName} becomes the owner of ${treeName} once they accept. What should your access be afterwards?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Editor',
+          onPress: () => proposeTransferMutation.mutate({ toUserId: user.userId, formerOwnerLevel: AccessLevel.EDITOR }),
+        },
+        {
+          text: 'Co-owner',
+          onPress: () => proposeTransferMutation.mutate({ toUserId: user.userId, formerOwnerLevel: AccessLevel.OWNER }),
+        },
+      ]
+    );
+  };
+
+  const handleOwnership = (user: TreeAccessWithUser) => {
+    const isCoOwner = user.accessLevel === AccessLevel.OWNER;
+    Alert.alert(
+      'Ownership',
+      isCoOwner
+        ? `${user.displayName} is a co-owner and can manage the tree and who has access.`
+        : 'Co-owners can manage the tree and who has access. Only you can hand the tree over.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        isCoOwner
+          ? { text: 'Make Editor', onPress: () => handleChangeAccess(user, AccessLevel.EDITOR) }
+          : { text: 'Make Co-owner', onPress: () => handleChangeAccess(user, AccessLevel.OWNER) },
+        { text: 'Hand Over Tree', onPress: () => handleHandOver(user) },
+      ]
+    );
+  };
+
   const getAccessLevelColor = (level: AccessLevel): string => {
     switch (level) {
       case AccessLevel.OWNER: return '#9c27b0';
@@ -104,9 +243,18 @@ export const ShareTreeScreen: React.FC<ShareTreeScreenProps> = ({ route }) => {
     }
   };
 
+  const describeLevel = (item: TreeAccessWithUser): string => {
+    if (item.accessLevel === AccessLevel.OWNER) {
+      return item.userId === tree?.ownerUserId ? 'Owner' : 'Co-owner';
+    }
+    return item.accessLevel.charAt(0).toUpperCase() + item.accessLevel.slice(1);
+  };
+
   const renderAccessItem = ({ item }: { item: TreeAccessWithUser }) => {
     const isOwner = item.accessLevel === AccessLevel.OWNER;
     const isCurrentUser = item.userId === currentUser?.userId;
+    // Only the primary owner manages other owners, and nobody manages the primary owner
+    const canManage = !isCurrentUser && item.userId !== tree?.ownerUserId && (!isOwner || isPrimaryOwner);
 
     return (
       <View style={styles.accessItem}>
@@ -116,25 +264,33 @@ export const ShareTreeScreen: React.FC<ShareTreeScreenProps> = ({ route }) => {
         </View>
         <View style={styles.accessActions}>
           <View style={[styles.levelBadge, { backgroundColor: getAccessLevelColor(item.accessLevel) }]}>
-            <Text style={styles.levelBadgeText}>
-              {item.accessLevel.charAt(0).toUpperCase() + item.accessLevel.slice(1)}
-            </Text>
+            <Text style={styles.levelBadgeText}>{describeLevel(item)}</Text>
           </View>
-          {!isOwner && !isCurrentUser && (
+          {canManage && (
             <View style={styles.actionButtons}>
-              <TouchableOpacity
-                style={styles.changeButton}
-                onPress={() => {
-                  const newLevel = item.accessLevel === AccessLevel.VIEWER 
-                    ? AccessLevel.EDITOR 
-                    : AccessLevel.VIEWER;
-                  handleChangeAccess(item, newLevel);
-                }}
-              >
-                <Text style={styles.changeButtonText}>
-                  {item.accessLevel === AccessLevel.VIEWER ? '↑' : '↓'}
-                </Text>
-              </TouchableOpacity>
+              {isPrimaryOwner && (
+                <TouchableOpacity
+                  style={styles.changeButton}
+                  onPress={() => handleOwnership(item)}
+                >
+                  <Text style={styles.changeButtonText}>★</Text>
+                </TouchableOpacity>
+              )}
+              {!isOwner && (
+                <TouchableOpacity
+                  style={styles.changeButton}
+                  onPress={() => {
+                    const newLevel = item.accessLevel === AccessLevel.VIEWER 
+                      ? AccessLevel.EDITOR 
+                      : AccessLevel.VIEWER;
+                    handleChangeAccess(item, newLevel);
+                  }}
+                >
+                  <Text style={styles.changeButtonText}>
+                    {item.accessLevel === AccessLevel.VIEWER ? '↑' : '↓'}
+                  </Text>
+                </TouchableOpacity>
+              )}
               <TouchableOpacity
                 style={styles.revokeButton}
                 onPress={() => handleRevoke(item)}
@@ -148,6 +304,78 @@ export const ShareTreeScreen: React.FC<ShareTreeScreenProps> = ({ route }) => {
     );
   };
 
+  const renderPendingTransfer = () => {
+    if (!pendingTransfer) return null;
+
+    const recipient = accessList.find(member => member.userId === pendingTransfer.toUserId);
+    return (
+      <View style={styles.transferBanner}>
+        <View style={styles.accessInfo}>
+          <Text style={styles.accessName}>
+            Waiting for {recipient?.displayName ?? 'the new owner'} to accept ownership
+          </Text>
+          <Text style={styles.accessEmail}>
+            Expires {new Date(pendingTransfer.expiresAt).toLocaleDateString()}
+          </Text>
+        </View>
+        {pendingTransfer.fromUserId === currentUser?.userId && (
+          <TouchableOpacity
+            style={styles.revokeButton}
+            onPress={() => cancelTransferMutation.mutate()}
+            disabled={cancelTransferMutation.isPending}
+          >
+            <Text style={styles.revokeButtonText}>✕</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const describeInvitation = (invitation: TreeInvitation): string => {
+    const parts = [invitation.accessLevel.charAt(0).toUpperCase() + invitation.accessLevel.slice(1)];
+    if (!invitation.email) {
+      parts.push(invitation.maxUses ? `${invitation.useCount} of ${invitation.maxUses} used` : `used ${invitation.useCount}×`);
+    }
+    if (invitation.expiresAt) {
+      parts.push(`expires ${new Date(invitation.expiresAt).toLocaleDateString()}`);
+    }
+    return parts.join(' · ');
+  };
+
+  const renderInvitations = () => {
+    if (invitations.length === 0) return null;
+
+    return (
+      <View style={styles.invitationsSection}>
+        <Text style={styles.sectionTitle}>Pending Invitations ({invitations.length})</Text>
+        {invitations.map(invitation => (
+          <View key={invitation.invitationId} style={styles.accessItem}>
+            <View style={styles.accessInfo}>
+              <Text style={styles.accessName}>{invitation.email ?? 'Shareable link'}</Text>
+              <Text style={styles.accessEmail}>{describeInvitation(invitation)}</Text>
+            </View>
+            <View style={styles.actionButtons}>
+              {!invitation.email && (
+                <TouchableOpacity
+                  style={styles.changeButton}
+                  onPress={() => shareInvitationLink(invitation)}
+                >
+                  <Text style={styles.changeButtonText}>⇪</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={styles.revokeButton}
+                onPress={() => handleRevokeInvitation(invitation)}
+              >
+                <Text style={styles.revokeButtonText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
@@ -228,14 +456,27 @@ export const ShareTreeScreen: React.FC<ShareTreeScreenProps> = ({ route }) => {
             <Text style={styles.inviteButtonText}>Send Invitation</Text>
           )}
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.linkButton, createInvitationMutation.isPending && styles.inviteButtonDisabled]}
+          onPress={() => createInvitationMutation.mutate({ accessLevel: selectedLevel })}
+          disabled={createInvitationMutation.isPending}
+        >
+          <Text style={styles.linkButtonText}>Share an Invite Link</Text>
+        </TouchableOpacity>
       </View>
 
       <View style={styles.listSection}>
-        <Text style={styles.sectionTitle}>Current Access ({accessList.length})</Text>
         <FlatList
           data={accessList}
           keyExtractor={item => item.accessId}
           renderItem={renderAccessItem}
+          ListHeaderComponent={
+            <>
+              {renderPendingTransfer()}
+              {renderInvitations()}
+              <Text style={styles.sectionTitle}>Current Access ({accessList.length})</Text>
+            </>
+          }
           contentContainerStyle={styles.listContent}
           ListEmptyComponent={
             <Text style={styles.emptyText}>No one has access yet</Text>
@@ -376,6 +617,19 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  linkButton: {
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  linkButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   listSection: {
     flex: 1,
     padding: 16,
@@ -383,6 +637,17 @@ const styles = StyleSheet.create({
   listContent: {
     paddingBottom: 20,
   },
+  invitationsSection: {
+    marginBottom: 16,
+  },
+  transferBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f3e5f5',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
   accessItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,248 @@
+import React, { useMemo } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { StackNavigationProp } from '@react-navigation/stack';
+import type { RouteProp } from '@react-navigation/native';
+import type { MainStackParamList } from '../../navigation/MainNavigator';
+import { trashService } from '../../services/trashService';
+import { TrashEntityType, TrashItem } from '../../types';
+
+type TrashScreenNavigationProp = StackNavigationProp<MainStackParamList, 'Trash'>;
+type TrashScreenRouteProp = RouteProp<MainStackParamList, 'Trash'>;
+
+interface TrashScreenProps {
+  navigation: TrashScreenNavigationProp;
+  route: TrashScreenRouteProp;
+}
+
+const formatDate = (dateString: string): string =>
+  new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+export const TrashScreen: React.FC<TrashScreenProps> = ({ route }) => {
+  const { treeId, treeName } = route.params;
+  const queryClient = useQueryClient();
+
+  const {
+    data,
+    isLoading,
+    error,
+    refetch,
+    isRefetching,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['trash', treeId],
+    queryFn: ({ pageParam }) => trashService.getTrash(treeId, { cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+
+  const items = useMemo(() => data?.pages.flatMap(page => page.items) ?? [], [data]);
+
+  const restoreMutation = useMutation({
+    mutationFn: (item: TrashItem) =>
+      item.entityType === TrashEntityType.NODE
+        ? trashService.restoreNode(treeId, item.entityId)
+        : trashService.restoreEvent(item.entityId),
+    onSuccess: (_restored, item) => {
+      queryClient.invalidateQueries({ queryKey: ['trash', treeId] });
+      if (item.entityType === TrashEntityType.NODE) {
+        queryClient.invalidateQueries({ queryKey: ['nodes', treeId] });
+        queryClient.invalidateQueries({ queryKey: ['relationships', treeId] });
+      }
+      queryClient.invalidateQueries({ queryKey: ['timeline', treeId] });
+    },
+    onError: (err: any) => {
+      Alert.alert('Error', err.response?.data?.error?.message || 'Failed to restore');
+    },
+  });
+
+  const renderItem = ({ item }: { item: TrashItem }) => (
+    <View style={styles.card}>
+      <Text style={styles.icon}>{item.entityType === TrashEntityType.NODE ? '👤' : '📅'}</Text>
+      <View style={styles.info}>
+        <Text style={styles.label}>{item.label}</Text>
+        <Text style={styles.meta}>
+          Deleted {formatDate(item.deletedAt)}{item.deletedByName ? ` by ${item.deletedByName}` : ''}
+        </Text>
+        <Text style={styles.purge}>Permanently removed on {formatDate(item.purgeAt)}</Text>
+      </View>
+      <TouchableOpacity
+        style={styles.restoreButton}
+        onPress={() => restoreMutation.mutate(item)}
+        disabled={restoreMutation.isPending}
+      >
+        <Text style={styles.restoreText}>Restore</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  if (error) {
+    const message = (error as any).response?.data?.error?.message || 'Failed to load trash';
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.errorText}>{message}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Trash</Text>
+        <Text style={styles.headerSubtitle}>{treeName}</Text>
+      </View>
+      <FlatList
+        data={items}
+        keyExtractor={(item) => item.trashId}
+        renderItem={renderItem}
+        contentContainerStyle={items.length === 0 ? styles.emptyContainer : styles.listContent}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyIcon}>🗑️</Text>
+            <Text style={styles.emptyTitle}>Trash is empty</Text>
+            <Text style={styles.emptySubtitle}>
+              Deleted family members and events appear here until they are permanently removed
+            </Text>
+          </View>
+        }
+        ListFooterComponent={isFetchingNextPage ? <ActivityIndicator style={styles.footer} color="#007AFF" /> : null}
+        onEndReached={() => {
+          if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+        }}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor="#007AFF" />
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#dc3545',
+    textAlign: 'center',
+  },
+  header: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  listContent: {
+    padding: 16,
+  },
+  emptyContainer: {
+    flexGrow: 1,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  icon: {
+    fontSize: 24,
+    marginRight: 12,
+  },
+  info: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  purge: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  restoreButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  restoreText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  footer: {
+    paddingVertical: 16,
+  },
+});
@@ -7,10 +7,15 @@ import {
   StyleSheet,
   ActivityIndicator,
   RefreshControl,
+  Alert,
 } from 'react-native';
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useDispatch, useSelector } from 'react-redux';
 import { treeService } from '../../services/treeService';
-import type { FamilyTree } from '../../types';
+import { authService } from '../../services/authService';
+import { setUser } from '../../store/slices/authSlice';
+import type { FamilyTree, IncomingOwnershipTransfer } from '../../types';
+import type { RootState } from '../../store';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import type { MainStackParamList } from '../../navigation/MainNavigator';
 
@@ -21,11 +26,60 @@ interface TreeListScreenProps {
 }
 
 export const TreeListScreen: React.FC<TreeListScreenProps> = ({ navigation }) => {
+  const dispatch = useDispatch();
+  const queryClient = useQueryClient();
+  const currentUser = useSelector((state: RootState) => state.auth.user);
   const { data: trees, isLoading, refetch, isRefetching } = useQuery({
     queryKey: ['trees'],
     queryFn: treeService.getTrees,
   });
 
+  const { data: incomingTransfers = [] } = useQuery({
+    queryKey: ['ownershipTransfers'],
+    queryFn: treeService.getIncomingOwnershipTransfers,
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: ({ transfer, accept }: { transfer: IncomingOwnershipTransfer; accept: boolean }) =>
+      accept
+        ? treeService.acceptOwnershipTransfer(transfer.transferId)
+        : treeService.declineOwnershipTransfer(transfer.transferId),
+    onSuccess: (_, { transfer, accept }) => {
+      queryClient.invalidateQueries({ queryKey: ['ownershipTransfers'] });
+      if (accept) {
+        queryClient.invalidateQueries({ queryKey: ['trees'] });
+        queryClient.invalidateQueries({ queryKey: ['tree', transfer.treeId] });
+        Alert.alert('Tree Handed Over', `You are now the owner of ${transfer.treeName}.`);
+      }
+    },
+    onError: (err: any) => {
+      queryClient.invalidateQueries({ queryKey: ['ownershipTransfers'] });
+      Alert.alert('Error', err.response?.data?.error?.message || 'Failed to respond to the handover');
+    },
+  });
+
+  const handleTransfer = (transfer: IncomingOwnershipTransfer) => {
+    Alert.alert(
+      'Become the Owner?',
+      `${transfer.fromName} wants to hand ${transfer.treeName} over to you. As the owner you decide who can see and edit it.`,
+      [
+        { text: 'Later', style: 'cancel' },
+        { text: 'Decline', style: 'destructive', onPress: () => transferMutation.mutate({ transfer, accept: false }) },
+        { text: 'Accept', onPress: () => transferMutation.mutate({ transfer, accept: true }) },
+      ]
+    );
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: () => authService.restoreAccount(),
+    onSuccess: (user) => {
+      dispatch(setUser(user));
+    },
+    onError: (err: any) => {
+      Alert.alert('Error', err.response?.data?.error || 'Failed to keep your account');
+    },
+  });
+
   const renderTreeCard = ({ item }: { item: FamilyTree }) => (
     <TouchableOpacity
       style={styles.card}
@@ -75,6 +129,42 @@ export const TreeListScreen: React.FC<TreeListScreenProps> = ({ navigation }) =>
 
   return (
     <View style={styles.container}>
+      {currentUser?.deletionScheduledFor && (
+        <TouchableOpacity
+          style={styles.deletionBanner}
+          onPress={() => restoreMutation.mutate()}
+          disabled={restoreMutation.isPending}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.deletionBannerText}>
+            Your account will be deleted on {new Date(currentUser.deletionScheduledFor).toLocaleDateString()}. Tap to keep it ›
+          </Text>
+        </TouchableOpacity>
+      )}
+      {incomingTransfers.map((transfer) => (
+        <TouchableOpacity
+          key={transfer.transferId}
+          style={styles.transferBanner}
+          onPress={() => handleTransfer(transfer)}
+          disabled={transferMutation.isPending}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.transferBannerText}>
+            {transfer.fromName} wants to hand {transfer.treeName} over to you. Tap to respond ›
+          </Text>
+        </TouchableOpacity>
+      ))}
+      {currentUser && !currentUser.emailVerifiedAt && (
+        <TouchableOpacity
+          style={styles.verifyBanner}
+          onPress={() => navigation.navigate('VerifyEmail')}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.verifyBannerText}>
+            Confirm your email so family members can share their trees with you ›
+          </Text>
+        </TouchableOpacity>
+      )}
       <FlatList
         data={trees}
         keyExtractor={(item) => item.treeId}
@@ -113,6 +203,33 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     backgroundColor: '#f5f5f5',
   },
+  verifyBanner: {
+    backgroundColor: '#fff3cd',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+  },
+  verifyBannerText: {
+    color: '#856404',
+    fontSize: 14,
+  },
+  deletionBanner: {
+    backgroundColor: '#f8d7da',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+  },
+  deletionBannerText: {
+    color: '#721c24',
+    fontSize: 14,
+  },
+  transferBanner: {
+    backgroundColor: '#f3e5f5',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+  },
+  transferBannerText: {
+    color: '#6a1b9a',
+    fontSize: 14,
+  },
   listContent: {
     paddingBottom: 100,
   },
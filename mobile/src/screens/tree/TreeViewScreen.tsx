@@ -9,8 +9,7 @@ import {
   Alert,
   Modal,
 } from 'react-native';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useSelector } from 'react-redux';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -28,9 +27,9 @@ import Svg, { Line, G } from 'react-native-svg';
 import { treeService } from '../../services/treeService';
 import { nodeService } from '../../services/nodeService';
 import { relationshipService } from '../../services/relationshipService';
-import type { Node, Relationship } from '../../types';
-import { NodeStatus } from '../../types';
-import type { RootState } from '../../store';
+import { TreePresenceBanner } from '../../components/LiveUpdatesProvider';
+import type { Node, Relationship, TreeIssue } from '../../types';
+import { AccessLevel, NodeStatus, RelationshipType } from '../../types';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 const NODE_WIDTH = 120;
@@ -39,6 +38,14 @@ const HORIZONTAL_SPACING = 160;
 const VERTICAL_SPACING = 100;
 const MIN_SCALE = 0.3;
 const MAX_SCALE = 2;
+const TREE_PAGE_SIZE = 200;
+const MAX_ISSUES_SHOWN = 10;
+
+const ISSUE_ICONS: Record<TreeIssue['severity'], string> = {
+  error: '⛔',
+  warning: '⚠️',
+  info: 'ℹ️',
+};
 
 interface NodePosition {
   node: Node;
@@ -55,6 +62,9 @@ interface LineData {
   type: string;
 }
 
+// Relationship types laid out as generations; node 1 is always the parent side
+const HIERARCHY_TYPES = new Set<string>([RelationshipType.PARENT_CHILD, RelationshipType.ADOPTED, RelationshipType.STEP]);
+
 const getDisplayName = (node: Node): string => {
   if (node.petName) return node.petName;
   return `${node.firstName || ''} ${node.lastName || ''}`.trim() || 'Unknown';
@@ -76,7 +86,7 @@ const calculateNodePositions = (
   }
 
   for (const rel of relationships) {
-    if (rel.relationshipType === 'parent_child') {
+    if (HIERARCHY_TYPES.has(rel.relationshipType)) {
       const children = childrenMap.get(rel.nodeId1);
       if (children) {
         children.push(rel.nodeId2);
@@ -163,7 +173,6 @@ export const TreeViewScreen: React.FC<TreeViewScreenProps> = ({ route, navigatio
   const queryClient = useQueryClient();
   const [selectedNode, setSelectedNode] = useState<Node | null>(null);
   const [showContextMenu, setShowContextMenu] = useState(false);
-  const currentUser = useSelector((state: RootState) => state.auth.user);
 
   const scale = useSharedValue(1);
   const savedScale = useSharedValue(1);
@@ -176,21 +185,59 @@ export const TreeViewScreen: React.FC<TreeViewScreenProps> = ({ route, navigatio
     queryKey: ['tree', treeId],
     queryFn: () => treeService.getTree(treeId),
   });
+  // Co-owners manage the tree too; only handing it over is left to the primary owner
+  const isOwner = tree?.accessLevel === AccessLevel.OWNER;
 
-  const { data: nodes = [], isLoading: nodesLoading } = useQuery({
+  const nodesQuery = useInfiniteQuery({
     queryKey: ['nodes', treeId],
-    queryFn: () => nodeService.getNodes(treeId),
+    queryFn: ({ pageParam }) => nodeService.getNodes(treeId, { cursor: pageParam, limit: TREE_PAGE_SIZE }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
   });
 
-  const { data: relationships = [], isLoading: relsLoading } = useQuery({
+  const relationshipsQuery = useInfiniteQuery({
     queryKey: ['relationships', treeId],
-    queryFn: () => relationshipService.getRelationships(treeId),
+    queryFn: ({ pageParam }) =>
+      relationshipService.getRelationships(treeId, { cursor: pageParam, limit: TREE_PAGE_SIZE }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
   });
 
+  // Keyed under 'nodes' so every node invalidation also refreshes the report
+  const { data: issueReport } = useQuery({
+    queryKey: ['nodes', treeId, 'issues'],
+    queryFn: () => treeService.getIssues(treeId),
+  });
+
+  const nodes = useMemo(
+    () => nodesQuery.data?.pages.flatMap(page => page.items) ?? [],
+    [nodesQuery.data]
+  );
+  const relationships = useMemo(
+    () => relationshipsQuery.data?.pages.flatMap(page => page.items) ?? [],
+    [relationshipsQuery.data]
+  );
+  const nodesLoading = nodesQuery.isLoading;
+  const relsLoading = relationshipsQuery.isLoading;
+
+  // The layout needs the whole tree, so keep loading pages until there are none left
+  useEffect(() => {
+    if (nodesQuery.hasNextPage && !nodesQuery.isFetchingNextPage) {
+      nodesQuery.fetchNextPage();
+    }
+  }, [nodesQuery.hasNextPage, nodesQuery.isFetchingNextPage, nodesQuery.fetchNextPage]);
+
+  useEffect(() => {
+    if (relationshipsQuery.hasNextPage && !relationshipsQuery.isFetchingNextPage) {
+      relationshipsQuery.fetchNextPage();
+    }
+  }, [relationshipsQuery.hasNextPage, relationshipsQuery.isFetchingNextPage, relationshipsQuery.fetchNextPage]);
+
   const publishMutation = useMutation({
     mutationFn: (nodeId: string) => nodeService.publishNode(treeId, nodeId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['nodes', treeId] });
+      queryClient.invalidateQueries({ queryKey: ['timeline', treeId] });
       setShowContextMenu(false);
       setSelectedNode(null);
       Alert.alert('Success', 'Family member has been published');
@@ -201,6 +248,58 @@ export const TreeViewScreen: React.FC<TreeViewScreenProps> = ({ route, navigatio
     },
   });
 
+  const autoLifeEventsMutation = useMutation({
+    mutationFn: (autoLifeEvents: boolean) => treeService.updateTree(treeId, { autoLifeEvents }),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['tree', treeId], updated);
+      queryClient.invalidateQueries({ queryKey: ['trees'] });
+    },
+    onError: (err: any) => {
+      Alert.alert('Error', err.response?.data?.error?.message || 'Failed to update tree');
+    },
+  });
+
+  const handleToggleAutoLifeEvents = () => {
+    if (!tree) return;
+    const enable = !tree.autoLifeEvents;
+    Alert.alert(
+      enable ? 'Turn On Automatic Events?' : 'Turn Off Automatic Events?',
+      enable
+        ? 'Birth and death events will follow people\'s dates, and marriage events will be suggested for new spouses.'
+        : 'Existing events are kept, but new birth, death and marriage events will no longer be added for you.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: enable ? 'Turn On' : 'Turn Off', onPress: () => autoLifeEventsMutation.mutate(enable) },
+      ]
+    );
+  };
+
+  const requireTwoFactorMutation = useMutation({
+    mutationFn: (requireTwoFactor: boolean) => treeService.updateTree(treeId, { requireTwoFactor }),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['tree', treeId], updated);
+      queryClient.invalidateQueries({ queryKey: ['trees'] });
+    },
+    onError: (err: any) => {
+      Alert.alert('Error', err.response?.data?.error?.message || 'Failed to update tree');
+    },
+  });
+
+  const handleToggleRequireTwoFactor = () => {
+    if (!tree) return;
+    const enable = !tree.requireTwoFactor;
+    Alert.alert(
+      enable ? 'Require Two-Factor?' : 'Stop Requiring Two-Factor?',
+      enable
+        ? 'Editors without two-factor authentication will only be able to view this tree until they turn it on.'
+        : 'Editors will be able to make changes without two-factor authentication.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: enable ? 'Require' : 'Stop Requiring', onPress: () => requireTwoFactorMutation.mutate(enable) },
+      ]
+    );
+  };
+
   useEffect(() => {
     if (tree) {
       navigation.setOptions({ title: tree.treeName });
@@ -289,6 +388,17 @@ export const TreeViewScreen: React.FC<TreeViewScreenProps> = ({ route, navigatio
     navigation.navigate('EditNode', { nodeId: selectedNode.nodeId, treeId });
   };
 
+  const handleIssuesPress = () => {
+    if (!issueReport) return;
+    const shown = issueReport.issues.slice(0, MAX_ISSUES_SHOWN);
+    const remaining = issueReport.issues.length - shown.length;
+    const lines = shown.map((issue: TreeIssue) => `${ISSUE_ICONS[issue.severity]} ${issue.message}`);
+    if (remaining > 0) lines.push(`…and ${remaining} more`);
+    Alert.alert('Tree Issues', lines.join('\n\n'));
+  };
+
+  const issueCount = issueReport ? issueReport.counts.error + issueReport.counts.warning : 0;
+
   const isLoading = treeLoading || nodesLoading || relsLoading;
 
   if (isLoading) {
@@ -337,6 +447,7 @@ export const TreeViewScreen: React.FC<TreeViewScreenProps> = ({ route, navigatio
 
   return (
     <GestureHandlerRootView style={styles.container}>
+      <TreePresenceBanner treeId={treeId} />
       <GestureDetector gesture={composedGesture}>
         <Animated.View style={[styles.canvas, animatedStyle]}>
           <Svg width={canvasWidth} height={canvasHeight} style={styles.svg}>
@@ -409,7 +520,7 @@ export const TreeViewScreen: React.FC<TreeViewScreenProps> = ({ route, navigatio
         >
           <Text style={styles.addButtonText}>📅 Timeline</Text>
         </TouchableOpacity>
-        {tree && currentUser && tree.ownerUserId === currentUser.userId && (
+        {tree && isOwner && (
           <TouchableOpacity
             style={[styles.addButton, styles.accessRequestsButton]}
             onPress={() => navigation.navigate('AccessRequests', { treeId, treeName: tree.treeName })}
@@ -417,7 +528,7 @@ export const TreeViewScreen: React.FC<TreeViewScreenProps> = ({ route, navigatio
             <Text style={styles.addButtonText}>📬 Access Requests</Text>
           </TouchableOpacity>
         )}
-        {tree && currentUser && tree.ownerUserId === currentUser.userId && (
+        {tree && isOwner && (
           <TouchableOpacity
             style={[styles.addButton, styles.shareButton]}
             onPress={() => navigation.navigate('ShareTree', { treeId, treeName: tree.treeName })}
@@ -425,12 +536,46 @@ export const TreeViewScreen: React.FC<TreeViewScreenProps> = ({ route, navigatio
             <Text style={styles.addButtonText}>👥 Share Tree</Text>
           </TouchableOpacity>
         )}
+        {tree && isOwner && (
+          <TouchableOpacity
+            style={[styles.addButton, styles.autoEventsButton]}
+            onPress={handleToggleAutoLifeEvents}
+            disabled={autoLifeEventsMutation.isPending}
+          >
+            <Text style={styles.addButtonText}>
+              🎂 Automatic Events: {tree.autoLifeEvents ? 'On' : 'Off'}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {tree && isOwner && (
+          <TouchableOpacity
+            style={[styles.addButton, styles.twoFactorButton]}
+            onPress={handleToggleRequireTwoFactor}
+            disabled={requireTwoFactorMutation.isPending}
+          >
+            <Text style={styles.addButtonText}>
+              🔐 Editors Need Two-Factor: {tree.requireTwoFactor ? 'On' : 'Off'}
+            </Text>
+          </TouchableOpacity>
+        )}
         <TouchableOpacity
           style={[styles.addButton, styles.albumButton]}
           onPress={() => navigation.navigate('AlbumList', { treeId, treeName: tree?.treeName || 'Family Tree' })}
         >
           <Text style={styles.addButtonText}>🖼️ Photo Albums</Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.addButton, styles.trashButton]}
+          onPress={() => navigation.navigate('Trash', { treeId, treeName: tree?.treeName || 'Family Tree' })}
+        >
+          <Text style={styles.addButtonText}>🗑️ Trash</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.addButton, styles.notificationSettingsButton]}
+          onPress={() => navigation.navigate('NotificationSettings', { treeId, treeName: tree?.treeName || 'Family Tree' })}
+        >
+          <Text style={styles.addButtonText}>🔔 Notifications</Text>
+        </TouchableOpacity>
       </View>
 
       {nodes.length === 0 && (
@@ -442,6 +587,15 @@ export const TreeViewScreen: React.FC<TreeViewScreenProps> = ({ route, navigatio
         </View>
       )}
 
+      {issueCount > 0 && (
+        <TouchableOpacity
+          style={[styles.issuesBadge, issueReport!.counts.error > 0 && styles.issuesBadgeError]}
+          onPress={handleIssuesPress}
+        >
+          <Text style={styles.issuesBadgeText}>⚠️ {issueCount} {issueCount === 1 ? 'issue' : 'issues'}</Text>
+        </TouchableOpacity>
+      )}
+
       <View style={styles.hint}>
         <Text style={styles.hintText}>Pinch to zoom • Drag to pan • Double-tap to reset • Long-press for options</Text>
       </View>
@@ -622,11 +776,31 @@ const styles = StyleSheet.create({
     marginTop: 10,
     shadowColor: '#17a2b8',
   },
+  autoEventsButton: {
+    backgroundColor: '#fd7e14',
+    marginTop: 10,
+    shadowColor: '#fd7e14',
+  },
+  twoFactorButton: {
+    backgroundColor: '#343a40',
+    marginTop: 10,
+    shadowColor: '#343a40',
+  },
   albumButton: {
     backgroundColor: '#6f42c1',
     marginTop: 10,
     shadowColor: '#6f42c1',
   },
+  trashButton: {
+    backgroundColor: '#6c757d',
+    marginTop: 10,
+    shadowColor: '#6c757d',
+  },
+  notificationSettingsButton: {
+    backgroundColor: '#17a2b8',
+    marginTop: 10,
+    shadowColor: '#17a2b8',
+  },
   addButtonText: {
     color: '#fff',
     fontSize: 16,
@@ -651,6 +825,28 @@ const styles = StyleSheet.create({
     color: '#666',
     textAlign: 'center',
   },
+  issuesBadge: {
+    position: 'absolute',
+    top: 16,
+    right: 16,
+    backgroundColor: '#ff9800',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  issuesBadgeError: {
+    backgroundColor: '#dc3545',
+  },
+  issuesBadgeText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   hint: {
     position: 'absolute',
     bottom: 40,
@@ -2,3 +2,4 @@ export { TreeListScreen } from './TreeListScreen';
 export { TreeViewScreen } from './TreeViewScreen';
 export { CreateTreeScreen } from './CreateTreeScreen';
 export { ShareTreeScreen } from './ShareTreeScreen';
+export { TrashScreen } from './TrashScreen';
@@ -1,14 +1,21 @@
 import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
 import * as Keychain from 'react-native-keychain';
+import * as Device from 'expo-device';
 import { environment } from '../config/environment';
 
 const TOKEN_KEY = 'rkroots_auth';
 const REFRESH_TOKEN_KEY = 'rkroots_refresh';
 
+// Names this device in the list of signed-in sessions
+const DEVICE_HEADERS: Record<string, string> = Device.deviceName
+  ? { 'X-Device-Name': Device.deviceName }
+  : {};
+
 const api = axios.create({
   baseURL: environment.apiUrl,
   headers: {
     'Content-Type': 'application/json',
+    ...DEVICE_HEADERS,
   },
   timeout: 30000,
 });
@@ -25,7 +32,7 @@ async function doRefresh(): Promise<string> {
   const response = await axios.post(
     `${environment.apiUrl}/auth/refresh`,
     { refreshToken: refreshCreds.password },
-    { headers: { 'Content-Type': 'application/json' } }
+    { headers: { 'Content-Type': 'application/json', ...DEVICE_HEADERS } }
   );
 
   const { accessToken, refreshToken: newRefreshToken } = response.data;
@@ -36,10 +43,15 @@ async function doRefresh(): Promise<string> {
   return accessToken;
 }
 
-api.interceptors.request.use(async (config) => {
+export async function getAccessToken(): Promise<string | null> {
   const credentials = await Keychain.getGenericPassword({ service: TOKEN_KEY });
-  if (credentials) {
-    config.headers.Authorization = `Bearer ${credentials.password}`;
+  return credentials ? credentials.password : null;
+}
+
+api.interceptors.request.use(async (config) => {
+  const token = await getAccessToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
   }
   return config;
 });
@@ -1,31 +1,45 @@
 import api from './api';
 import * as Keychain from 'react-native-keychain';
 import { GoogleSignin } from '@react-native-google-signin/google-signin';
+import { pushNotificationService } from './pushNotificationService';
+import {
+  AuthSession,
+  LinkedIdentity,
+  RedeemedInvitation,
+  SignInMethods,
+  SignInProvider,
+  TreeTransfer,
+  TwoFactorChallenge,
+  TwoFactorEnrollment,
+  TwoFactorStatus,
+  User,
+} from '../types';
 
 interface SignupData {
   email: string;
   password: string;
   displayName: string;
+  invitationToken?: string;
 }
 
 interface LoginData {
   email: string;
   password: string;
+  invitationToken?: string;
 }
 
 interface AuthResponse {
   accessToken: string;
   refreshToken: string;
-  user: {
-    userId: string;
-    email: string;
-    displayName: string;
-    profilePictureUrl?: string;
-  };
+  user: User;
+  /** Trees joined through invitations redeemed while signing in */
+  invitations?: RedeemedInvitation[];
 }
 
 interface AppleAuthData {
   identityToken: string;
+  /** The raw nonce of the sign-in request; the identity token is bound to it */
+  nonce: string;
   user?: {
     email?: string;
     name?: {
@@ -33,6 +47,33 @@ interface AppleAuthData {
       lastName?: string;
     };
   };
+  invitationToken?: string;
+}
+
+/** Tokens are only stored once sign-in is complete, not while it waits for a 2FA code */
+async function finishSignIn(data: AuthResponse | TwoFactorChallenge): Promise<AuthResponse | TwoFactorChallenge> {
+  if (!isTwoFactorChallenge(data)) {
+    await storeTokens(data.accessToken, data.refreshToken);
+  }
+  return data;
+}
+
+export function isTwoFactorChallenge(data: AuthResponse | TwoFactorChallenge): data is TwoFactorChallenge {
+  return 'twoFactorRequired' in data && data.twoFactorRequired;
+}
+
+/** A fresh provider sign-in, as the server needs it to confirm or link that provider */
+interface ProviderCredential {
+  provider: SignInProvider;
+  token: string;
+  nonce?: string;
+}
+
+/** Accepts either a link from a verification or reset email or the bare code from its end */
+export function parseEmailToken(input: string): string | undefined {
+  const trimmed = input.trim();
+  const token = trimmed.match(/[?&]token=([^&#]+)/)?.[1] ?? trimmed;
+  return /^[A-Za-z0-9_-]{16,64}$/.test(token) ? token : undefined;
 }
 
 const TOKEN_KEY = 'rkroots_auth';
@@ -53,6 +94,42 @@ async function clearTokens(): Promise<void> {
   await Keychain.resetGenericPassword({ service: REFRESH_TOKEN_KEY });
 }
 
+/** Signs this device out locally; the server side is up to the caller */
+async function endLocalSession(): Promise<void> {
+  try {
+    const isSignedIn = await GoogleSignin.isSignedIn();
+    if (isSignedIn) {
+      await GoogleSignin.signOut();
+    }
+  } catch {
+    // Ignore Google sign out errors
+  }
+  await clearTokens();
+}
+
+/** Signs in with the provider on the device without signing in to RKRoots */
+async function providerCredential(provider: SignInProvider): Promise<ProviderCredential> {
+  if (provider === 'google') {
+    await GoogleSignin.hasPlayServices();
+    await GoogleSignin.signIn();
+    const { idToken } = await GoogleSignin.getTokens();
+    if (!idToken) {
+      throw new Error('Failed to get Google ID token');
+    }
+    return { provider, token: idToken };
+  }
+
+  const appleAuth = require('@invertase/react-native-apple-authentication').default;
+  const { identityToken, nonce } = await appleAuth.performRequest({
+    requestedOperation: appleAuth.Operation.LOGIN,
+    requestedScopes: [appleAuth.Scope.EMAIL],
+  });
+  if (!identityToken) {
+    throw new Error('Apple Sign In failed - no identity token');
+  }
+  return { provider, token: identityToken, nonce };
+}
+
 async function getStoredTokens(): Promise<{ accessToken: string; refreshToken: string } | null> {
   const accessCreds = await Keychain.getGenericPassword({ service: TOKEN_KEY });
   const refreshCreds = await Keychain.getGenericPassword({ service: REFRESH_TOKEN_KEY });
@@ -68,29 +145,149 @@ async function getStoredTokens(): Promise<{ accessToken: string; refreshToken: s
 
 export const authService = {
   async signup(data: SignupData): Promise<AuthResponse> {
-    const response = await api.post('/auth/signup', data);
+    // Emails are sent in the language closest to the device's
+    const locale = Intl.DateTimeFormat().resolvedOptions().locale;
+    const response = await api.post('/auth/signup', { ...data, locale });
     const { accessToken, refreshToken } = response.data;
     await storeTokens(accessToken, refreshToken);
     return response.data;
   },
 
-  async login(data: LoginData): Promise<AuthResponse> {
+  async login(data: LoginData): Promise<AuthResponse | TwoFactorChallenge> {
     const response = await api.post('/auth/login', data);
+    return finishSignIn(response.data);
+  },
+
+  /** Finishes a sign-in that asked for a code, with one from the authenticator app or a recovery code */
+  async completeTwoFactorLogin(challengeToken: string, code: string): Promise<AuthResponse> {
+    const response = await api.post('/auth/login/two-factor', { challengeToken, code });
     const { accessToken, refreshToken } = response.data;
     await storeTokens(accessToken, refreshToken);
     return response.data;
   },
 
   async logout(): Promise<void> {
+    // These need the access token, so they go before the tokens are cleared
+    await pushNotificationService.unregister();
     try {
-      const isSignedIn = await GoogleSignin.isSignedIn();
-      if (isSignedIn) {
-        await GoogleSignin.signOut();
-      }
+      await api.post('/auth/logout');
     } catch {
-      // Ignore Google sign out errors
+      // Signing out locally still works; the session expires unused
     }
-    await clearTokens();
+    await endLocalSession();
+  },
+
+  /** Devices the user is signed in on, most recently used first */
+  async getSessions(): Promise<AuthSession[]> {
+    const response = await api.get('/auth/sessions');
+    return response.data;
+  },
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await api.delete(`/auth/sessions/${sessionId}`);
+  },
+
+  /** Signs out every device, this one included */
+  async revokeAllSessions(): Promise<void> {
+    await pushNotificationService.unregister();
+    await api.delete('/auth/sessions');
+    await endLocalSession();
+  },
+
+  /** The password and the Google and Apple accounts the user can sign in with */
+  async getSignInMethods(): Promise<SignInMethods> {
+    const response = await api.get('/auth/identities');
+    return response.data;
+  },
+
+  /**
+   * Confirms it's the user before they change how they sign in, with their
+   * password or by signing in again with a linked provider. The returned
+   * token is good for a few minutes.
+   */
+  async reauthenticate(confirmation: { password: string } | { provider: SignInProvider }): Promise<string> {
+    const body = 'password' in confirmation
+      ? confirmation
+      : await providerCredential(confirmation.provider);
+    const response = await api.post('/auth/reauthenticate', body);
+    return response.data.reauthToken;
+  },
+
+  /** Signs in with the provider on the device and links that account */
+  async linkIdentity(provider: SignInProvider, reauthToken: string): Promise<LinkedIdentity> {
+    const credential = await providerCredential(provider);
+    const response = await api.post('/auth/identities', credential, {
+      headers: { 'X-Reauth-Token': reauthToken },
+    });
+    return response.data;
+  },
+
+  async unlinkIdentity(identityId: string, reauthToken: string): Promise<void> {
+    await api.delete(`/auth/identities/${identityId}`, {
+      headers: { 'X-Reauth-Token': reauthToken },
+    });
+  },
+
+  async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    const response = await api.get('/auth/two-factor');
+    return response.data;
+  },
+
+  /** Starts over with a new secret; two-factor stays off until enableTwoFactor */
+  async setupTwoFactor(reauthToken: string): Promise<TwoFactorEnrollment> {
+    const response = await api.post('/auth/two-factor/setup', {}, {
+      headers: { 'X-Reauth-Token': reauthToken },
+    });
+    return response.data;
+  },
+
+  /** Returns the recovery codes, which are only ever shown now */
+  async enableTwoFactor(code: string): Promise<string[]> {
+    const response = await api.post('/auth/two-factor/enable', { code });
+    return response.data.recoveryCodes;
+  },
+
+  async disableTwoFactor(code: string, reauthToken: string): Promise<void> {
+    await api.post('/auth/two-factor/disable', { code }, {
+      headers: { 'X-Reauth-Token': reauthToken },
+    });
+  },
+
+  /** Replaces every recovery code, used or not */
+  async regenerateRecoveryCodes(code: string, reauthToken: string): Promise<string[]> {
+    const response = await api.post('/auth/two-factor/recovery-codes', { code }, {
+      headers: { 'X-Reauth-Token': reauthToken },
+    });
+    return response.data.recoveryCodes;
+  },
+
+  /** Everything RKRoots keeps about the user, as the JSON text of the download */
+  async exportAccount(reauthToken: string): Promise<string> {
+    const response = await api.get('/auth/me/export', {
+      headers: { 'X-Reauth-Token': reauthToken },
+      responseType: 'text',
+    });
+    return typeof response.data === 'string' ? response.data : JSON.stringify(response.data, null, 2);
+  },
+
+  /**
+   * Schedules the account for deletion; owned trees without a transfer are
+   * deleted with it. The server signs the user out everywhere, so this ends the
+   * local session too. Returns when the account will be deleted.
+   */
+  async deleteAccount(reauthToken: string, transfers: TreeTransfer[]): Promise<string> {
+    const response = await api.delete('/auth/me', {
+      data: { transfers },
+      headers: { 'X-Reauth-Token': reauthToken },
+    });
+    await endLocalSession();
+    return response.data.deletionScheduledFor;
+  },
+
+  /** Keeps an account that was scheduled for deletion */
+  async restoreAccount(): Promise<User> {
+    const response = await api.post('/auth/me/restore');
+    return response.data;
   },
 
   async refreshToken(): Promise<AuthResponse> {
@@ -109,7 +306,7 @@ export const authService = {
     return getStoredTokens();
   },
 
-  async googleSignIn(): Promise<AuthResponse> {
+  async googleSignIn(invitationToken?: string): Promise<AuthResponse | TwoFactorChallenge> {
     await GoogleSignin.hasPlayServices();
     const userInfo = await GoogleSignin.signIn();
     const { idToken } = await GoogleSignin.getTokens();
@@ -118,19 +315,32 @@ export const authService = {
       throw new Error('Failed to get Google ID token');
     }
 
-    const response = await api.post('/auth/google/mobile', { idToken });
-    const { accessToken, refreshToken } = response.data;
-    await storeTokens(accessToken, refreshToken);
-    return response.data;
+    const response = await api.post('/auth/google/mobile', { idToken, invitationToken });
+    return finishSignIn(response.data);
   },
 
-  async appleSignIn(appleData: AppleAuthData): Promise<AuthResponse> {
+  async appleSignIn(appleData: AppleAuthData): Promise<AuthResponse | TwoFactorChallenge> {
     const response = await api.post('/auth/apple', appleData);
-    const { accessToken, refreshToken } = response.data;
-    await storeTokens(accessToken, refreshToken);
+    return finishSignIn(response.data);
+  },
+
+  async verifyEmail(token: string): Promise<{ user: User; invitations: RedeemedInvitation[] }> {
+    const response = await api.post('/auth/verify-email', { token });
     return response.data;
   },
 
+  async resendVerification(): Promise<void> {
+    await api.post('/auth/verify-email/resend');
+  },
+
+  async forgotPassword(email: string): Promise<void> {
+    await api.post('/auth/forgot-password', { email });
+  },
+
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    await api.post('/auth/reset-password', { token, newPassword });
+  },
+
   async getProfile() {
     const response = await api.get('/auth/profile');
     return response.data;
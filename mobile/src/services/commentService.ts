@@ -1,5 +1,5 @@
 import api from './api';
-import { Comment, EntityType } from '../types';
+import { Comment, EntityType, Page, PageParams } from '../types';
 
 export interface CreateCommentDto {
   treeId: string;
@@ -9,9 +9,9 @@ export interface CreateCommentDto {
 }
 
 export const commentService = {
-  async getComments(treeId: string, entityType: EntityType, entityId: string) {
-    const response = await api.get<Comment[]>('/comments', {
-      params: { treeId, entityType, entityId },
+  async getComments(treeId: string, entityType: EntityType, entityId: string, page: PageParams = {}) {
+    const response = await api.get<Page<Comment>>('/comments', {
+      params: { treeId, entityType, entityId, ...page },
     });
     return response.data;
   },
@@ -0,0 +1,71 @@
+import api from './api';
+
+export interface DuplicateCandidate {
+  nodeId: string;
+  treeId: string;
+  treeName: string;
+  firstName?: string;
+  lastName?: string;
+  petName?: string;
+  placeOfBirth?: string;
+  dateOfBirth?: string;
+  dateOfDeath?: string;
+  profilePictureUrl?: string;
+}
+
+export type CanonicalPerson = Omit<DuplicateCandidate, 'nodeId' | 'treeId' | 'treeName'>;
+
+export interface ConsolidationMember {
+  nodeId: string;
+  treeId: string;
+  treeName: string;
+  hasAccess: boolean;
+}
+
+export interface MergeConflict {
+  field: keyof CanonicalPerson;
+  primaryValue: unknown;
+  secondaryValue: unknown;
+}
+
+export interface MergePreview {
+  primary: DuplicateCandidate;
+  secondary: DuplicateCandidate;
+  person: CanonicalPerson;
+  conflicts: MergeConflict[];
+  members: ConsolidationMember[];
+}
+
+export interface ConsolidatedNode {
+  consolidatedId: string;
+  primaryNodeId: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface ConsolidatedIdentity extends ConsolidatedNode {
+  person: CanonicalPerson;
+  members: ConsolidationMember[];
+}
+
+export const consolidationService = {
+  async getDuplicates(nodeId: string): Promise<DuplicateCandidate[]> {
+    const response = await api.get<DuplicateCandidate[]>(`/nodes/${nodeId}/duplicates`);
+    return response.data;
+  },
+
+  async getIdentity(nodeId: string): Promise<ConsolidatedIdentity> {
+    const response = await api.get<ConsolidatedIdentity>(`/nodes/${nodeId}/consolidation`);
+    return response.data;
+  },
+
+  async previewMerge(primaryNodeId: string, secondaryNodeId: string): Promise<MergePreview> {
+    const response = await api.post<MergePreview>('/consolidations/preview', { primaryNodeId, secondaryNodeId });
+    return response.data;
+  },
+
+  async merge(primaryNodeId: string, secondaryNodeId: string): Promise<ConsolidatedNode> {
+    const response = await api.post<ConsolidatedNode>('/consolidations', { primaryNodeId, secondaryNodeId });
+    return response.data;
+  },
+};
@@ -0,0 +1,13 @@
+import api from './api';
+import type { Device, DevicePlatform } from '../types';
+
+export const deviceService = {
+  async register(pushToken: string, platform: DevicePlatform): Promise<Device> {
+    const response = await api.post<Device>('/devices', { pushToken, platform });
+    return response.data;
+  },
+
+  async remove(deviceId: string): Promise<void> {
+    await api.delete(`/devices/${deviceId}`);
+  },
+};
@@ -0,0 +1,35 @@
+import api from './api';
+import { AccessLevel, RedeemedInvitation, TreeInvitation } from '../types';
+
+/** Accepts either a pasted invitation link or the bare code from its end */
+export function parseInvitationToken(input: string): string | undefined {
+  const token = input.trim().split(/[/?#]/).filter(Boolean).pop();
+  return token && /^[A-Za-z0-9_-]{16,64}$/.test(token) ? token : undefined;
+}
+
+export const invitationService = {
+  async getInvitations(treeId: string) {
+    const response = await api.get<TreeInvitation[]>(`/trees/${treeId}/invitations`);
+    return response.data;
+  },
+
+  async createInvitation(
+    treeId: string,
+    data: { email?: string; accessLevel: AccessLevel; expiresInDays?: number; maxUses?: number }
+  ) {
+    const response = await api.post<TreeInvitation>(`/trees/${treeId}/invitations`, data);
+    return response.data;
+  },
+
+  async revokeInvitation(treeId: string, invitationId: string) {
+    await api.delete(`/trees/${treeId}/invitations/${invitationId}`);
+  },
+};
+
+/** A sentence naming the trees joined while signing in, or null if there were none */
+export function describeJoinedTrees(invitations?: RedeemedInvitation[]): string | null {
+  if (!invitations?.length) return null;
+  const names = invitations.map(invitation => invitation.treeName);
+  const list = names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+  return `You now have access to ${list}.`;
+}
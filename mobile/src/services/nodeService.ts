@@ -1,9 +1,9 @@
 import api from './api';
-import { Node } from '../types';
+import { Node, Page, PageParams } from '../types';
 
 export const nodeService = {
-  async getNodes(treeId: string) {
-    const response = await api.get<Node[]>(`/trees/${treeId}/nodes`);
+  async getNodes(treeId: string, page: PageParams = {}) {
+    const response = await api.get<Page<Node>>(`/trees/${treeId}/nodes`, { params: page });
     return response.data;
   },
 
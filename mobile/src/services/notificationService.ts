@@ -1,17 +1,17 @@
 import api from './api';
-import type { Notification } from '../types';
+import type { Notification, NotificationDelivery, NotificationPreference, NotificationType, Page, PageParams } from '../types';
 
 export const notificationService = {
-  async getNotifications(unreadOnly: boolean = false): Promise<Notification[]> {
-    const response = await api.get<Notification[]>('/notifications', {
-      params: { unreadOnly: unreadOnly.toString() },
+  async getNotifications(unreadOnly: boolean = false, page: PageParams = {}): Promise<Page<Notification>> {
+    const response = await api.get<Page<Notification>>('/notifications', {
+      params: { unreadOnly: unreadOnly.toString(), ...page },
     });
     return response.data;
   },
 
   async getUnreadCount(): Promise<number> {
-    const notifications = await this.getNotifications(true);
-    return notifications.length;
+    const page = await notificationService.getNotifications(true, { limit: 1 });
+    return page.totalEstimate;
   },
 
   async markAsRead(notificationId: string): Promise<void> {
@@ -21,4 +21,23 @@ export const notificationService = {
   async markAllAsRead(): Promise<void> {
     await api.put('/notifications/read-all');
   },
+
+  async getPreferences(treeId?: string): Promise<NotificationPreference[]> {
+    const response = await api.get<NotificationPreference[]>('/notification-preferences', {
+      params: treeId ? { treeId } : undefined,
+    });
+    return response.data;
+  },
+
+  async setPreference(notificationType: NotificationType, delivery: NotificationDelivery, treeId?: string): Promise<NotificationPreference> {
+    const response = await api.put<NotificationPreference>('/notification-preferences', { notificationType, delivery, treeId });
+    return response.data;
+  },
+
+  /** Drops a tree override or user default so the next level up applies */
+  async clearPreference(notificationType: NotificationType, treeId?: string): Promise<void> {
+    await api.delete(`/notification-preferences/${notificationType}`, {
+      params: treeId ? { treeId } : undefined,
+    });
+  },
 };
@@ -0,0 +1,60 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import * as Device from 'expo-device';
+import Constants from 'expo-constants';
+import { deviceService } from './deviceService';
+import type { DevicePlatform, PushNotificationData } from '../types';
+
+const ANDROID_CHANNEL_ID = 'default';
+
+// The device registered for the signed-in user, removed again on logout
+let registeredDeviceId: string | null = null;
+
+export const pushNotificationService = {
+  /**
+   * Asks for permission and registers this device's Expo push token with the
+   * backend. Resolves to false when push is unavailable or the user declined.
+   */
+  async register(): Promise<boolean> {
+    // Simulators and emulators cannot receive pushes
+    if (!Device.isDevice) return false;
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+        name: 'Notifications',
+        importance: Notifications.AndroidImportance.DEFAULT,
+      });
+    }
+
+    const { status: existingStatus } = await Notifications.getPermissionsAsync();
+    let status = existingStatus;
+    if (status !== 'granted') {
+      ({ status } = await Notifications.requestPermissionsAsync());
+    }
+    if (status !== 'granted') return false;
+
+    const { data: pushToken } = await Notifications.getExpoPushTokenAsync({
+      projectId: Constants.expoConfig?.extra?.eas?.projectId,
+    });
+    const device = await deviceService.register(pushToken, Platform.OS as DevicePlatform);
+    registeredDeviceId = device.deviceId;
+    return true;
+  },
+
+  /** Stops pushes to this device; call while the user is still signed in */
+  async unregister(): Promise<void> {
+    if (!registeredDeviceId) return;
+    try {
+      await deviceService.remove(registeredDeviceId);
+    } catch {
+      // The device may already be gone; pushes to it stop either way once its token is pruned
+    }
+    registeredDeviceId = null;
+  },
+
+  /** The data sent with a push notification, if it is one of ours */
+  getData(notification: Notifications.Notification): PushNotificationData | null {
+    const data = notification.request.content.data as Partial<PushNotificationData> | undefined;
+    return data?.notificationType ? (data as PushNotificationData) : null;
+  },
+};
@@ -0,0 +1,58 @@
+import EventSource from 'react-native-sse';
+import { getAccessToken } from './api';
+import { environment } from '../config/environment';
+import type { TreeChange, TreePresence } from '../types';
+
+type LiveEventName = 'change' | 'presence' | 'notification' | 'closed';
+
+export interface LiveHandlers {
+  onChange: (change: TreeChange) => void;
+  onPresence: (presence: TreePresence) => void;
+  onNotification: () => void;
+  /** The stream ended; `status` is the HTTP status when the server refused it */
+  onDisconnect: (status?: number) => void;
+}
+
+const parse = <T>(data: string | null): T | null => {
+  try {
+    return data ? JSON.parse(data) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const realtimeService = {
+  /**
+   * Opens the live channel: notifications always, and with a tree id that tree's
+   * changes and who else is viewing it. Returns a function that closes it.
+   */
+  async connect(treeId: string | null, handlers: LiveHandlers): Promise<() => void> {
+    const token = await getAccessToken();
+    const url = `${environment.apiUrl}/live${treeId ? `?treeId=${treeId}` : ''}`;
+
+    // Reconnecting is left to the caller so each attempt picks up a fresh token
+    const source = new EventSource<LiveEventName>(url, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      pollingInterval: 0,
+    });
+
+    source.addEventListener('change', (event) => {
+      const change = parse<TreeChange>(event.data);
+      if (change) handlers.onChange(change);
+    });
+    source.addEventListener('presence', (event) => {
+      const presence = parse<TreePresence>(event.data);
+      if (presence) handlers.onPresence(presence);
+    });
+    source.addEventListener('notification', () => handlers.onNotification());
+    source.addEventListener('closed', () => handlers.onDisconnect());
+    source.addEventListener('error', (event) => {
+      handlers.onDisconnect('xhrStatus' in event ? event.xhrStatus : undefined);
+    });
+
+    return () => {
+      source.removeAllEventListeners();
+      source.close();
+    };
+  },
+};
@@ -1,22 +1,34 @@
 import api from './api';
-import { Relationship, RelationshipType } from '../types';
+import { Page, PageParams, Relationship, RelationshipRole, RelationshipType, SuggestedEvent } from '../types';
 
 export interface CreateRelationshipData {
   nodeId1: string;
   nodeId2: string;
   relationshipType: RelationshipType;
+  /** Role of nodeId1, e.g. child when nodeId1 is the child of nodeId2 */
+  role1?: RelationshipRole;
+  startDate?: string;
+  endDate?: string;
   publishDraftNodes?: boolean;
 }
 
+export interface UpdateRelationshipData {
+  /** Empty strings clear a date */
+  startDate?: string;
+  endDate?: string;
+}
+
 export interface CreateRelationshipResult {
   relationship: Relationship;
   publishedNodeIds: string[];
   draftNodeIds: string[];
+  /** Marriage event to offer after creating a spouse relationship */
+  suggestedEvent: SuggestedEvent | null;
 }
 
 export const relationshipService = {
-  async getRelationships(treeId: string) {
-    const response = await api.get<Relationship[]>(`/trees/${treeId}/relationships`);
+  async getRelationships(treeId: string, page: PageParams = {}) {
+    const response = await api.get<Page<Relationship>>(`/trees/${treeId}/relationships`, { params: page });
     return response.data;
   },
 
@@ -25,6 +37,11 @@ export const relationshipService = {
     return response.data;
   },
 
+  async updateRelationship(relationshipId: string, data: UpdateRelationshipData) {
+    const response = await api.put<Relationship>(`/relationships/${relationshipId}`, data);
+    return response.data;
+  },
+
   async deleteRelationship(treeId: string, relationshipId: string) {
     await api.delete(`/trees/${treeId}/relationships/${relationshipId}`);
   },
@@ -5,7 +5,7 @@ export interface SamePersonLink {
   linkId: string;
   nodeId1: string;
   nodeId2: string;
-  createdBy: string;
+  createdBy: string | null;
   createdAt: string;
 }
 
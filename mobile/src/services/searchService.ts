@@ -1,26 +1,28 @@
 import api from './api';
-import { Node, SearchResult, SearchFilters } from '../types';
+import { Node, Page, PageParams, SearchResult, SearchFilters } from '../types';
 
 export const searchService = {
-  async search(query: string): Promise<SearchResult[]> {
-    const response = await api.get<SearchResult[]>('/search', { params: { q: query } });
+  async search(query: string, page: PageParams = {}): Promise<Page<SearchResult>> {
+    const response = await api.get<Page<SearchResult>>('/search', { params: { q: query, ...page } });
     return response.data;
   },
 
-  async searchNodes(query: string, filters?: SearchFilters): Promise<SearchResult[]> {
-    const params: Record<string, string> = { q: query };
+  async searchNodes(query: string, filters?: SearchFilters, page: PageParams = {}): Promise<Page<SearchResult>> {
+    const params: Record<string, string | number | undefined> = { q: query, ...page };
     if (filters?.firstName) params.firstName = filters.firstName;
     if (filters?.lastName) params.lastName = filters.lastName;
     if (filters?.petName) params.petName = filters.petName;
     if (filters?.placeOfBirth) params.placeOfBirth = filters.placeOfBirth;
+    if (filters?.dateOfBirthFrom) params.dateOfBirthFrom = filters.dateOfBirthFrom;
+    if (filters?.dateOfBirthTo) params.dateOfBirthTo = filters.dateOfBirthTo;
     if (filters?.treeId) params.treeId = filters.treeId;
     
-    const response = await api.get<SearchResult[]>('/search', { params });
+    const response = await api.get<Page<SearchResult>>('/search', { params });
     return response.data;
   },
 
-  async searchInTree(treeId: string, query: string): Promise<Node[]> {
-    const response = await api.get<Node[]>('/search', { params: { q: query, treeId } });
+  async searchInTree(treeId: string, query: string, page: PageParams = {}): Promise<Page<Node>> {
+    const response = await api.get<Page<Node>>('/search', { params: { q: query, treeId, ...page } });
     return response.data;
   },
 };
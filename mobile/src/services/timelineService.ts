@@ -1,18 +1,27 @@
 import api from './api';
-import { TimelineEvent } from '../types';
+import { Page, PageParams, ParticipantInput, TimelineEvent } from '../types';
 
 export const timelineService = {
-  async getEvents(treeId: string) {
-    const response = await api.get<TimelineEvent[]>(`/trees/${treeId}/events`);
+  async getEvents(treeId: string, page: PageParams = {}) {
+    const response = await api.get<Page<TimelineEvent>>(`/trees/${treeId}/events`, { params: page });
     return response.data;
   },
 
-  async createEvent(treeId: string, data: Partial<TimelineEvent> & { participantIds: string[] }) {
+  async getNodeEvents(nodeId: string, page: PageParams = {}) {
+    const response = await api.get<Page<TimelineEvent>>(`/nodes/${nodeId}/events`, { params: page });
+    return response.data;
+  },
+
+  async createEvent(treeId: string, data: Partial<Omit<TimelineEvent, 'participants'>> & { participants: ParticipantInput[] }) {
     const response = await api.post<TimelineEvent>(`/trees/${treeId}/events`, data);
     return response.data;
   },
 
-  async updateEvent(treeId: string, eventId: string, data: Partial<TimelineEvent>) {
+  async updateEvent(
+    treeId: string,
+    eventId: string,
+    data: Partial<Omit<TimelineEvent, 'participants'>> & { addParticipants?: ParticipantInput[]; removeParticipants?: string[] }
+  ) {
     const response = await api.put<TimelineEvent>(`/events/${eventId}`, data);
     return response.data;
   },
@@ -0,0 +1,19 @@
+import api from './api';
+import { Node, Page, PageParams, TimelineEvent, TrashItem } from '../types';
+
+export const trashService = {
+  async getTrash(treeId: string, page: PageParams = {}) {
+    const response = await api.get<Page<TrashItem>>(`/trees/${treeId}/trash`, { params: page });
+    return response.data;
+  },
+
+  async restoreNode(treeId: string, nodeId: string) {
+    const response = await api.post<Node>(`/trees/${treeId}/nodes/${nodeId}/restore`);
+    return response.data;
+  },
+
+  async restoreEvent(eventId: string) {
+    const response = await api.post<TimelineEvent>(`/events/${eventId}/restore`);
+    return response.data;
+  },
+};
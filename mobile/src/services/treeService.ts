@@ -1,12 +1,12 @@
 import api from './api';
-import { FamilyTree, AccessLevel } from '../types';
+import { FamilyTree, AccessLevel, TreeIssueReport, OwnershipTransfer, IncomingOwnershipTransfer } from '../types';
 
 export interface TreeAccessWithUser {
   accessId: string;
   treeId: string;
   userId: string;
   accessLevel: AccessLevel;
-  grantedBy: string;
+  grantedBy: string | null;
   grantedAt: string;
   email: string;
   displayName: string;
@@ -23,12 +23,17 @@ export const treeService = {
     return response.data;
   },
 
-  async createTree(data: { treeName: string; description?: string }) {
+  async createTree(data: { treeName: string; description?: string; autoLifeEvents?: boolean }) {
     const response = await api.post<FamilyTree>('/trees', data);
     return response.data;
   },
 
-  async updateTree(treeId: string, data: { treeName?: string; description?: string }) {
+  async updateTree(treeId: string, data: {
+    treeName?: string;
+    description?: string;
+    autoLifeEvents?: boolean;
+    requireTwoFactor?: boolean;
+  }) {
     const response = await api.put<FamilyTree>(`/trees/${treeId}`, data);
     return response.data;
   },
@@ -50,4 +55,37 @@ export const treeService = {
   async revokeAccess(treeId: string, userId: string) {
     await api.delete(`/trees/${treeId}/access/${userId}`);
   },
+
+  async getOwnershipTransfer(treeId: string) {
+    const response = await api.get<{ transfer: OwnershipTransfer | null }>(`/trees/${treeId}/ownership-transfer`);
+    return response.data.transfer;
+  },
+
+  async proposeOwnershipTransfer(treeId: string, data: { toUserId: string; formerOwnerLevel?: AccessLevel }) {
+    const response = await api.post<OwnershipTransfer>(`/trees/${treeId}/ownership-transfer`, data);
+    return response.data;
+  },
+
+  async cancelOwnershipTransfer(treeId: string) {
+    await api.delete(`/trees/${treeId}/ownership-transfer`);
+  },
+
+  async getIncomingOwnershipTransfers() {
+    const response = await api.get<IncomingOwnershipTransfer[]>('/ownership-transfers');
+    return response.data;
+  },
+
+  async acceptOwnershipTransfer(transferId: string) {
+    const response = await api.post<OwnershipTransfer>(`/ownership-transfers/${transferId}/accept`);
+    return response.data;
+  },
+
+  async declineOwnershipTransfer(transferId: string) {
+    await api.post(`/ownership-transfers/${transferId}/decline`);
+  },
+
+  async getIssues(treeId: string) {
+    const response = await api.get<TreeIssueReport>(`/trees/${treeId}/issues`);
+    return response.data;
+  },
 };
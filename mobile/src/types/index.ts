@@ -3,6 +3,17 @@ export interface User {
   email: string;
   displayName: string;
   profilePictureUrl?: string;
+  locale?: string;
+  /** Null until the user confirms their address; others can't share trees with them before that */
+  emailVerifiedAt?: string | null;
+  /** When the account will be deleted, if the user asked; keeping the account clears it */
+  deletionScheduledFor?: string | null;
+}
+
+/** An owned tree to hand to one of its members when the account is deleted */
+export interface TreeTransfer {
+  treeId: string;
+  newOwnerUserId: string;
 }
 
 export interface FamilyTree {
@@ -10,6 +21,12 @@ export interface FamilyTree {
   treeName: string;
   description?: string;
   ownerUserId: string;
+  /** Birth/death events follow people's dates and marriages are suggested; owners can turn this off */
+  autoLifeEvents: boolean;
+  /** Editors must have two-factor authentication on to make changes */
+  requireTwoFactor: boolean;
+  /** The signed-in user's access; owners include co-owners, while ownerUserId is the primary owner */
+  accessLevel?: AccessLevel;
 }
 
 export enum NodeStatus {
@@ -17,6 +34,21 @@ export enum NodeStatus {
   PUBLISHED = 'published',
 }
 
+export enum DateQualifier {
+  EXACT = 'exact',
+  ABOUT = 'about',
+  BEFORE = 'before',
+  AFTER = 'after',
+  BETWEEN = 'between',
+  ESTIMATED = 'estimated',
+}
+
+export enum DatePrecision {
+  YEAR = 'year',
+  MONTH = 'month',
+  DAY = 'day',
+}
+
 export interface Node {
   nodeId: string;
   treeId: string;
@@ -27,13 +59,22 @@ export interface Node {
   placeOfBirth?: string;
   contactInfo?: Record<string, any>;
   profilePictureUrl?: string;
-  dateOfBirth?: string;
-  dateOfDeath?: string;
+  /** Sortable date, truncated to the first day of its year or month */
+  dateOfBirth?: string | null;
+  dateOfBirthQualifier?: DateQualifier;
+  dateOfBirthPrecision?: DatePrecision;
+  /** Upper bound of a "between" date */
+  dateOfBirthEnd?: string | null;
+  dateOfDeath?: string | null;
+  dateOfDeathQualifier?: DateQualifier;
+  dateOfDeathPrecision?: DatePrecision;
+  dateOfDeathEnd?: string | null;
   status: NodeStatus;
-  createdBy: string;
+  createdBy: string | null;
   createdAt?: string;
   updatedAt?: string;
   publishedAt?: string;
+  consolidatedId?: string;
 }
 
 export enum RelationshipType {
@@ -44,12 +85,27 @@ export enum RelationshipType {
   STEP = 'step',
 }
 
+export enum RelationshipRole {
+  PARENT = 'parent',
+  CHILD = 'child',
+  GUARDIAN = 'guardian',
+  WARD = 'ward',
+  STEP_PARENT = 'step_parent',
+  STEP_CHILD = 'step_child',
+  SPOUSE = 'spouse',
+  SIBLING = 'sibling',
+}
+
 export interface Relationship {
   relationshipId: string;
   treeId: string;
   nodeId1: string;
   nodeId2: string;
   relationshipType: RelationshipType;
+  node1Role: RelationshipRole;
+  node2Role: RelationshipRole;
+  startDate?: string;
+  endDate?: string;
 }
 
 export enum AccessLevel {
@@ -58,6 +114,24 @@ export enum AccessLevel {
   VIEWER = 'viewer',
 }
 
+/** The primary owner's offer to hand a tree to another member */
+export interface OwnershipTransfer {
+  transferId: string;
+  treeId: string;
+  fromUserId: string;
+  toUserId: string;
+  /** The former owner's access once the recipient accepts */
+  formerOwnerLevel: AccessLevel;
+  status: 'pending' | 'accepted' | 'declined' | 'cancelled' | 'expired';
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface IncomingOwnershipTransfer extends OwnershipTransfer {
+  treeName: string;
+  fromName: string;
+}
+
 export enum EventType {
   BIRTH = 'birth',
   MARRIAGE = 'marriage',
@@ -67,6 +141,29 @@ export enum EventType {
   MEMORY = 'memory',
 }
 
+export enum ParticipantRole {
+  BRIDE = 'bride',
+  GROOM = 'groom',
+  WITNESS = 'witness',
+  DECEASED = 'deceased',
+  OFFICIANT = 'officiant',
+}
+
+export interface EventParticipant {
+  participantId: string;
+  eventId: string;
+  nodeId: string;
+  role?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+  petName?: string | null;
+}
+
+export interface ParticipantInput {
+  nodeId: string;
+  role?: ParticipantRole | null;
+}
+
 export interface TimelineEvent {
   eventId: string;
   treeId: string;
@@ -74,11 +171,28 @@ export interface TimelineEvent {
   title: string;
   description?: string;
   eventDate: string;
+  eventDateQualifier?: DateQualifier;
+  eventDatePrecision?: DatePrecision;
+  eventDateEnd?: string | null;
   location?: string;
+  participants?: EventParticipant[];
+  /** Set on birth/death events kept in sync with this person's dates */
+  lifeEventNodeId?: string | null;
+}
+
+/** An event the server suggests creating, e.g. a marriage for a new spouse relationship */
+export interface SuggestedEvent {
+  eventType: EventType;
+  title: string;
+  eventDate?: string;
+  participants: ParticipantInput[];
 }
 
 export interface SearchResult extends Omit<Node, 'status'> {
   treeName: string;
+  score?: number;
+  primaryNodeId?: string;
+  alsoIn?: Array<{ nodeId: string; treeId: string; treeName: string }>;
 }
 
 export interface SearchFilters {
@@ -86,6 +200,8 @@ export interface SearchFilters {
   lastName?: string;
   petName?: string;
   placeOfBirth?: string;
+  dateOfBirthFrom?: string;
+  dateOfBirthTo?: string;
   treeId?: string;
 }
 
@@ -100,7 +216,8 @@ export interface Comment {
   treeId: string;
   entityType: EntityType;
   entityId: string;
-  userId: string;
+  /** The author; null once they have deleted their account */
+  userId: string | null;
   commentText: string;
   createdAt: string;
   updatedAt: string;
@@ -113,6 +230,7 @@ export enum NotificationType {
   COMMENT_ADDED = 'comment_added',
   NODE_PUBLISHED = 'node_published',
   TIMELINE_EVENT_ADDED = 'timeline_event_added',
+  OWNERSHIP_TRANSFER = 'ownership_transfer',
 }
 
 export interface Notification {
@@ -126,6 +244,82 @@ export interface Notification {
   createdAt: string;
 }
 
+export type NotificationDelivery = 'off' | 'in_app' | 'push' | 'daily_digest' | 'weekly_digest';
+
+export interface NotificationPreference {
+  notificationType: NotificationType;
+  delivery: NotificationDelivery;
+  /** The tree the preference applies to, or null for the user's default */
+  treeId: string | null;
+  source: 'tree' | 'user' | 'default';
+}
+
+export type DevicePlatform = 'ios' | 'android' | 'web';
+
+export interface Device {
+  deviceId: string;
+  userId: string;
+  pushToken: string;
+  platform: DevicePlatform;
+  createdAt: string;
+  lastSeenAt: string;
+}
+
+/** A signed-in device, as listed on the devices screen */
+export interface AuthSession {
+  sessionId: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  /** Whether this is the device making the request */
+  current: boolean;
+}
+
+export type SignInProvider = 'google' | 'apple';
+
+/** A Google or Apple account the user can sign in with */
+export interface LinkedIdentity {
+  identityId: string;
+  provider: SignInProvider;
+  email: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+export interface SignInMethods {
+  hasPassword: boolean;
+  identities: LinkedIdentity[];
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/** What setting up two-factor gives the authenticator app */
+export interface TwoFactorEnrollment {
+  /** Base32, for typing in by hand */
+  secret: string;
+  otpauthUrl: string;
+}
+
+/** Sign-in stopped after the password; a code from the authenticator app finishes it */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: number;
+}
+
+/** Data carried by a push notification; mirrors the notification it announces */
+export interface PushNotificationData {
+  notificationType: NotificationType;
+  relatedEntityType: string | null;
+  relatedEntityId: string | null;
+}
+
 export enum AlbumSource {
   GOOGLE_DRIVE = 'google_drive',
   GOOGLE_PHOTOS = 'google_photos',
@@ -137,6 +331,98 @@ export interface PhotoAlbum {
   albumSource: AlbumSource;
   albumIdentifier: string;
   albumName: string;
-  createdBy: string;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface PageParams {
+  cursor?: string;
+  limit?: number;
+  sort?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  totalEstimate: number;
+}
+
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+export interface TreeIssue {
+  code: string;
+  severity: IssueSeverity;
+  message: string;
+  entityType: EntityType;
+  entityId: string;
+  relatedIds: string[];
+}
+
+export interface TreeIssueReport {
+  treeId: string;
+  issues: TreeIssue[];
+  counts: Record<IssueSeverity, number>;
+}
+
+export enum TrashEntityType {
+  NODE = 'node',
+  EVENT = 'event',
+}
+
+export interface TrashItem {
+  trashId: string;
+  treeId: string;
+  entityType: TrashEntityType;
+  entityId: string;
+  label: string;
+  deletedBy: string | null;
+  deletedByName: string | null;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+export type LiveEntityType = 'node' | 'relationship' | 'event' | 'comment';
+
+export type LiveAction = 'create' | 'update' | 'delete' | 'restore';
+
+/** A change someone made to a tree, pushed over the live channel */
+export interface TreeChange {
+  treeId: string;
+  entityType: LiveEntityType;
+  entityId: string;
+  action: LiveAction;
+  actorUserId: string;
+  parentEntityType?: EntityType;
+  parentEntityId?: string;
+}
+
+export interface TreeViewer {
+  userId: string;
+  displayName: string;
+}
+
+export interface TreePresence {
+  treeId: string;
+  viewers: TreeViewer[];
+}
+
+/** A pending invitation to a tree, sent to an email or shared as a link */
+export interface TreeInvitation {
+  invitationId: string;
+  treeId: string;
+  token: string;
+  email: string | null;
+  accessLevel: AccessLevel.VIEWER | AccessLevel.EDITOR;
+  maxUses: number | null;
+  useCount: number;
+  expiresAt: string | null;
   createdAt: string;
+  url: string;
+}
+
+/** A tree the user joined by redeeming an invitation */
+export interface RedeemedInvitation {
+  treeId: string;
+  treeName: string;
+  accessLevel: AccessLevel;
 }